@@ -123,6 +123,10 @@ const withPWA = withPWAInit({
 
 /** @type {import('next').NextConfig} */
 const nextConfig = {
+  experimental: {
+    // Runs src/instrumentation.ts at startup, which starts the job scheduler
+    instrumentationHook: true,
+  },
   images: {
     remotePatterns: [
       {
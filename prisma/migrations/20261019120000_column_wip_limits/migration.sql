@@ -0,0 +1,4 @@
+-- AlterTable
+ALTER TABLE "Column" ADD COLUMN "wipLimit" INTEGER;
+ALTER TABLE "Column" ADD COLUMN "wipLimitPerAssignee" INTEGER;
+ALTER TABLE "Column" ADD COLUMN "wipMode" TEXT NOT NULL DEFAULT 'warn';
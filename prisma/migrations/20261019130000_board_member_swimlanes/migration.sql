@@ -0,0 +1,3 @@
+-- AlterTable
+ALTER TABLE "BoardMember" ADD COLUMN "swimlaneGroupBy" TEXT;
+ALTER TABLE "BoardMember" ADD COLUMN "collapsedSwimlanes" TEXT[] DEFAULT ARRAY[]::TEXT[];
@@ -0,0 +1,48 @@
+-- CreateTable
+CREATE TABLE "BoardAutomation" (
+    "id" TEXT NOT NULL,
+    "boardId" TEXT NOT NULL,
+    "name" TEXT NOT NULL,
+    "enabled" BOOLEAN NOT NULL DEFAULT true,
+    "trigger" TEXT NOT NULL,
+    "triggerConfig" JSONB,
+    "conditions" JSONB NOT NULL DEFAULT '[]',
+    "actions" JSONB NOT NULL DEFAULT '[]',
+    "createdById" TEXT NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "BoardAutomation_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "AutomationRun" (
+    "id" TEXT NOT NULL,
+    "automationId" TEXT NOT NULL,
+    "taskId" TEXT,
+    "trigger" TEXT NOT NULL,
+    "status" TEXT NOT NULL,
+    "message" TEXT,
+    "depth" INTEGER NOT NULL DEFAULT 0,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "AutomationRun_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "BoardAutomation_boardId_trigger_idx" ON "BoardAutomation"("boardId", "trigger");
+
+-- CreateIndex
+CREATE INDEX "AutomationRun_automationId_createdAt_idx" ON "AutomationRun"("automationId", "createdAt");
+
+-- CreateIndex
+CREATE INDEX "AutomationRun_automationId_taskId_idx" ON "AutomationRun"("automationId", "taskId");
+
+-- AddForeignKey
+ALTER TABLE "BoardAutomation" ADD CONSTRAINT "BoardAutomation_boardId_fkey" FOREIGN KEY ("boardId") REFERENCES "Board"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "BoardAutomation" ADD CONSTRAINT "BoardAutomation_createdById_fkey" FOREIGN KEY ("createdById") REFERENCES "User"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "AutomationRun" ADD CONSTRAINT "AutomationRun_automationId_fkey" FOREIGN KEY ("automationId") REFERENCES "BoardAutomation"("id") ON DELETE CASCADE ON UPDATE CASCADE;
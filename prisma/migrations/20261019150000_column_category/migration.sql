@@ -0,0 +1,18 @@
+-- AlterTable
+ALTER TABLE "Column" ADD COLUMN "category" TEXT NOT NULL DEFAULT 'unstarted';
+
+-- Backfill from the column names that were previously treated as done / in progress
+UPDATE "Column" SET "category" = 'done'
+WHERE lower("name") LIKE '%done%' OR lower("name") LIKE '%complete%' OR lower("name") LIKE '%finished%';
+
+UPDATE "Column" SET "category" = 'started'
+WHERE "category" = 'unstarted'
+  AND (lower("name") LIKE '%progress%' OR lower("name") LIKE '%doing%' OR lower("name") LIKE '%review%');
+
+UPDATE "Column" SET "category" = 'backlog'
+WHERE "category" = 'unstarted' AND lower("name") LIKE '%backlog%';
+
+-- Tasks sitting in done columns count as completed
+UPDATE "Task" SET "completed" = true
+WHERE "completed" = false
+  AND "columnId" IN (SELECT "id" FROM "Column" WHERE "category" = 'done');
@@ -0,0 +1,22 @@
+-- CreateTable
+CREATE TABLE "BoardTemplate" (
+    "id" TEXT NOT NULL,
+    "name" TEXT NOT NULL,
+    "description" TEXT,
+    "visibility" TEXT NOT NULL DEFAULT 'private',
+    "content" JSONB NOT NULL,
+    "createdById" TEXT NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "BoardTemplate_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "BoardTemplate_visibility_idx" ON "BoardTemplate"("visibility");
+
+-- CreateIndex
+CREATE INDEX "BoardTemplate_createdById_idx" ON "BoardTemplate"("createdById");
+
+-- AddForeignKey
+ALTER TABLE "BoardTemplate" ADD CONSTRAINT "BoardTemplate_createdById_fkey" FOREIGN KEY ("createdById") REFERENCES "User"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,20 @@
+-- AlterTable
+ALTER TABLE "Board" ADD COLUMN     "archivedAt" TIMESTAMP(3),
+ADD COLUMN     "deletedAt" TIMESTAMP(3),
+ADD COLUMN     "deletedById" TEXT;
+
+-- AlterTable
+ALTER TABLE "Task" ADD COLUMN     "deletedAt" TIMESTAMP(3),
+ADD COLUMN     "deletedById" TEXT;
+
+-- CreateIndex
+CREATE INDEX "Board_deletedAt_idx" ON "Board"("deletedAt");
+
+-- CreateIndex
+CREATE INDEX "Task_deletedAt_idx" ON "Task"("deletedAt");
+
+-- AddForeignKey
+ALTER TABLE "Board" ADD CONSTRAINT "Board_deletedById_fkey" FOREIGN KEY ("deletedById") REFERENCES "User"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "Task" ADD CONSTRAINT "Task_deletedById_fkey" FOREIGN KEY ("deletedById") REFERENCES "User"("id") ON DELETE SET NULL ON UPDATE CASCADE;
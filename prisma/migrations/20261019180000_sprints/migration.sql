@@ -0,0 +1,36 @@
+-- AlterTable
+ALTER TABLE "Task" ADD COLUMN     "sprintId" TEXT;
+
+-- CreateTable
+CREATE TABLE "Sprint" (
+    "id" TEXT NOT NULL,
+    "boardId" TEXT NOT NULL,
+    "name" TEXT NOT NULL,
+    "goal" TEXT,
+    "startDate" TIMESTAMP(3),
+    "endDate" TIMESTAMP(3),
+    "state" TEXT NOT NULL DEFAULT 'planned',
+    "committedTaskIds" TEXT[] DEFAULT ARRAY[]::TEXT[],
+    "report" JSONB,
+    "startedAt" TIMESTAMP(3),
+    "completedAt" TIMESTAMP(3),
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "Sprint_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "Sprint_boardId_state_idx" ON "Sprint"("boardId", "state");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "Sprint_boardId_active_key" ON "Sprint"("boardId") WHERE "state" = 'active';
+
+-- CreateIndex
+CREATE INDEX "Task_sprintId_idx" ON "Task"("sprintId");
+
+-- AddForeignKey
+ALTER TABLE "Task" ADD CONSTRAINT "Task_sprintId_fkey" FOREIGN KEY ("sprintId") REFERENCES "Sprint"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "Sprint" ADD CONSTRAINT "Sprint_boardId_fkey" FOREIGN KEY ("boardId") REFERENCES "Board"("id") ON DELETE CASCADE ON UPDATE CASCADE;
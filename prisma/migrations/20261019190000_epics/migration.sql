@@ -0,0 +1,30 @@
+-- AlterTable
+ALTER TABLE "Task" ADD COLUMN     "epicId" TEXT;
+
+-- CreateTable
+CREATE TABLE "Epic" (
+    "id" TEXT NOT NULL,
+    "title" TEXT NOT NULL,
+    "description" TEXT,
+    "color" TEXT NOT NULL DEFAULT '#8b5cf6',
+    "status" TEXT NOT NULL DEFAULT 'open',
+    "startDate" TIMESTAMP(3),
+    "dueDate" TIMESTAMP(3),
+    "createdById" TEXT NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "Epic_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "Epic_status_idx" ON "Epic"("status");
+
+-- CreateIndex
+CREATE INDEX "Task_epicId_idx" ON "Task"("epicId");
+
+-- AddForeignKey
+ALTER TABLE "Task" ADD CONSTRAINT "Task_epicId_fkey" FOREIGN KEY ("epicId") REFERENCES "Epic"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "Epic" ADD CONSTRAINT "Epic_createdById_fkey" FOREIGN KEY ("createdById") REFERENCES "User"("id") ON DELETE CASCADE ON UPDATE CASCADE;
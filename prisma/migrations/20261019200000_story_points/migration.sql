@@ -0,0 +1,8 @@
+-- AlterTable
+ALTER TABLE "Board" ADD COLUMN     "pointScale" TEXT NOT NULL DEFAULT 'fibonacci';
+
+-- AlterTable
+ALTER TABLE "Task" ADD COLUMN     "storyPoints" INTEGER;
+
+-- AlterTable
+ALTER TABLE "Sprint" ADD COLUMN     "committedPoints" INTEGER NOT NULL DEFAULT 0;
@@ -0,0 +1,26 @@
+-- CreateTable
+CREATE TABLE "TaskRelation" (
+    "id" TEXT NOT NULL,
+    "type" TEXT NOT NULL,
+    "sourceId" TEXT NOT NULL,
+    "targetId" TEXT NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "createdById" TEXT NOT NULL,
+
+    CONSTRAINT "TaskRelation_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "TaskRelation_sourceId_targetId_type_key" ON "TaskRelation"("sourceId", "targetId", "type");
+
+-- CreateIndex
+CREATE INDEX "TaskRelation_targetId_idx" ON "TaskRelation"("targetId");
+
+-- AddForeignKey
+ALTER TABLE "TaskRelation" ADD CONSTRAINT "TaskRelation_sourceId_fkey" FOREIGN KEY ("sourceId") REFERENCES "Task"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "TaskRelation" ADD CONSTRAINT "TaskRelation_targetId_fkey" FOREIGN KEY ("targetId") REFERENCES "Task"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "TaskRelation" ADD CONSTRAINT "TaskRelation_createdById_fkey" FOREIGN KEY ("createdById") REFERENCES "User"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
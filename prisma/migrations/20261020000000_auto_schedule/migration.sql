@@ -0,0 +1,5 @@
+-- AlterTable
+ALTER TABLE "Board" ADD COLUMN     "autoSchedule" BOOLEAN NOT NULL DEFAULT false;
+
+-- AlterTable
+ALTER TABLE "TaskDependency" ADD COLUMN     "lagDays" INTEGER NOT NULL DEFAULT 0;
@@ -0,0 +1,42 @@
+-- CreateTable
+CREATE TABLE "Baseline" (
+    "id" TEXT NOT NULL,
+    "boardId" TEXT NOT NULL,
+    "name" TEXT NOT NULL,
+    "createdById" TEXT NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "Baseline_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "BaselineTask" (
+    "id" TEXT NOT NULL,
+    "baselineId" TEXT NOT NULL,
+    "taskId" TEXT NOT NULL,
+    "startDate" TIMESTAMP(3),
+    "dueDate" TIMESTAMP(3),
+
+    CONSTRAINT "BaselineTask_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "Baseline_boardId_idx" ON "Baseline"("boardId");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "BaselineTask_baselineId_taskId_key" ON "BaselineTask"("baselineId", "taskId");
+
+-- CreateIndex
+CREATE INDEX "BaselineTask_taskId_idx" ON "BaselineTask"("taskId");
+
+-- AddForeignKey
+ALTER TABLE "Baseline" ADD CONSTRAINT "Baseline_boardId_fkey" FOREIGN KEY ("boardId") REFERENCES "Board"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "Baseline" ADD CONSTRAINT "Baseline_createdById_fkey" FOREIGN KEY ("createdById") REFERENCES "User"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "BaselineTask" ADD CONSTRAINT "BaselineTask_baselineId_fkey" FOREIGN KEY ("baselineId") REFERENCES "Baseline"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "BaselineTask" ADD CONSTRAINT "BaselineTask_taskId_fkey" FOREIGN KEY ("taskId") REFERENCES "Task"("id") ON DELETE CASCADE ON UPDATE CASCADE;
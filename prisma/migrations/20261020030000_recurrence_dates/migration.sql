@@ -0,0 +1,8 @@
+-- AlterTable
+ALTER TABLE "Task" ADD COLUMN "recurrenceDate" TIMESTAMP(3);
+
+-- Existing instances were created on their occurrence date
+UPDATE "Task" SET "recurrenceDate" = "dueDate" WHERE "parentRecurringId" IS NOT NULL;
+
+-- CreateIndex
+CREATE INDEX "Task_parentRecurringId_recurrenceDate_idx" ON "Task"("parentRecurringId", "recurrenceDate");
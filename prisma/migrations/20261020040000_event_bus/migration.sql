@@ -0,0 +1,30 @@
+-- CreateTable
+CREATE TABLE "BusMessage" (
+    "id" TEXT NOT NULL,
+    "channel" TEXT NOT NULL,
+    "payload" TEXT NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "BusMessage_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "BoardPresence" (
+    "connectionId" TEXT NOT NULL,
+    "boardId" TEXT NOT NULL,
+    "userId" TEXT NOT NULL,
+    "userName" TEXT NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "lastSeenAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "BoardPresence_pkey" PRIMARY KEY ("connectionId")
+);
+
+-- CreateIndex
+CREATE INDEX "BusMessage_createdAt_idx" ON "BusMessage"("createdAt");
+
+-- CreateIndex
+CREATE INDEX "BoardPresence_boardId_userId_idx" ON "BoardPresence"("boardId", "userId");
+
+-- CreateIndex
+CREATE INDEX "BoardPresence_lastSeenAt_idx" ON "BoardPresence"("lastSeenAt");
@@ -0,0 +1,19 @@
+-- DropTable
+DROP TABLE "BusMessage";
+
+-- CreateTable
+CREATE TABLE "EventLog" (
+    "id" SERIAL NOT NULL,
+    "channel" TEXT NOT NULL,
+    "payload" TEXT NOT NULL,
+    "prevId" INTEGER,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "EventLog_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "EventLog_channel_id_idx" ON "EventLog"("channel", "id");
+
+-- CreateIndex
+CREATE INDEX "EventLog_createdAt_idx" ON "EventLog"("createdAt");
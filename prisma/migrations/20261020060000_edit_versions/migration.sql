@@ -0,0 +1,5 @@
+-- AlterTable
+ALTER TABLE "Column" ADD COLUMN "version" INTEGER NOT NULL DEFAULT 1;
+
+-- AlterTable
+ALTER TABLE "Task" ADD COLUMN "version" INTEGER NOT NULL DEFAULT 1;
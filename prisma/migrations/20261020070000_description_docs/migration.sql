@@ -0,0 +1,20 @@
+-- CreateTable
+CREATE TABLE "DescriptionDoc" (
+    "id" TEXT NOT NULL,
+    "taskId" TEXT NOT NULL,
+    "state" BYTEA NOT NULL,
+    "dirty" BOOLEAN NOT NULL DEFAULT false,
+    "savedAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "DescriptionDoc_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "DescriptionDoc_taskId_key" ON "DescriptionDoc"("taskId");
+
+-- CreateIndex
+CREATE INDEX "DescriptionDoc_dirty_idx" ON "DescriptionDoc"("dirty");
+
+-- AddForeignKey
+ALTER TABLE "DescriptionDoc" ADD CONSTRAINT "DescriptionDoc_taskId_fkey" FOREIGN KEY ("taskId") REFERENCES "Task"("id") ON DELETE CASCADE ON UPDATE CASCADE;
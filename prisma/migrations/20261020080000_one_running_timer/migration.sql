@@ -0,0 +1,17 @@
+-- Stop all but the latest running timer per user, at the moment the latest one started
+UPDATE "TimeEntry" AS t
+SET "endedAt" = latest."startedAt",
+    "duration" = GREATEST(0, FLOOR(EXTRACT(EPOCH FROM (latest."startedAt" - t."startedAt"))))::INTEGER,
+    "updatedAt" = CURRENT_TIMESTAMP
+FROM (
+  SELECT DISTINCT ON ("userId") "id", "userId", "startedAt"
+  FROM "TimeEntry"
+  WHERE "endedAt" IS NULL
+  ORDER BY "userId", "startedAt" DESC, "id" DESC
+) AS latest
+WHERE t."endedAt" IS NULL
+  AND t."userId" = latest."userId"
+  AND t."id" <> latest."id";
+
+-- CreateIndex
+CREATE UNIQUE INDEX "TimeEntry_userId_running_key" ON "TimeEntry"("userId") WHERE "endedAt" IS NULL;
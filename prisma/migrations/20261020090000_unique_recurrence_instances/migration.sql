@@ -0,0 +1,18 @@
+-- Instances generated twice for the same occurrence: the oldest keeps it,
+-- the rest stay as ordinary tasks of the series
+UPDATE "Task" AS t
+SET "recurrenceDate" = NULL
+WHERE t."parentRecurringId" IS NOT NULL
+  AND t."recurrenceDate" IS NOT NULL
+  AND EXISTS (
+    SELECT 1 FROM "Task" AS o
+    WHERE o."parentRecurringId" = t."parentRecurringId"
+      AND o."recurrenceDate" = t."recurrenceDate"
+      AND (o."createdAt" < t."createdAt" OR (o."createdAt" = t."createdAt" AND o."id" < t."id"))
+  );
+
+-- DropIndex
+DROP INDEX "Task_parentRecurringId_recurrenceDate_idx";
+
+-- CreateIndex
+CREATE UNIQUE INDEX "Task_parentRecurringId_recurrenceDate_key" ON "Task"("parentRecurringId", "recurrenceDate");
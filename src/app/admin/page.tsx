@@ -4,6 +4,8 @@ import { useSession } from "next-auth/react";
 import { useRouter } from "next/navigation";
 import { useState, useEffect, useCallback } from "react";
 import { ToastContainer, useToasts } from "@/components/Toast";
+import type { BoardTemplate } from "@/lib/board-templates";
+import type { JobRun, ScheduledJob } from "@/types";
 
 interface User {
   id: string;
@@ -67,7 +69,7 @@ interface Stats {
   };
 }
 
-type TabType = "users" | "boards" | "settings";
+type TabType = "users" | "boards" | "templates" | "jobs" | "settings";
 
 export default function AdminPage() {
   const { data: session, status } = useSession();
@@ -77,6 +79,7 @@ export default function AdminPage() {
   const [activeTab, setActiveTab] = useState<TabType>("users");
   const [users, setUsers] = useState<User[]>([]);
   const [boards, setBoards] = useState<Board[]>([]);
+  const [templates, setTemplates] = useState<BoardTemplate[]>([]);
   const [stats, setStats] = useState<Stats | null>(null);
   const [loading, setLoading] = useState(true);
   
@@ -101,6 +104,7 @@ export default function AdminPage() {
   // Filters
   const [boardOwnerFilter, setBoardOwnerFilter] = useState("");
   const [boardVisibilityFilter, setBoardVisibilityFilter] = useState("");
+  const [templateVisibilityFilter, setTemplateVisibilityFilter] = useState("org");
 
   const fetchStats = useCallback(async () => {
     try {
@@ -142,6 +146,18 @@ export default function AdminPage() {
     }
   }, [boardOwnerFilter, boardVisibilityFilter]);
 
+  const fetchTemplates = useCallback(async () => {
+    try {
+      const res = await fetch(`/api/admin/board-templates?visibility=${templateVisibilityFilter}`);
+      if (res.ok) {
+        const data = await res.json();
+        setTemplates(data);
+      }
+    } catch (err) {
+      console.error("Failed to fetch templates:", err);
+    }
+  }, [templateVisibilityFilter]);
+
   useEffect(() => {
     if (status === "loading") return;
     if (!session) {
@@ -167,6 +183,47 @@ export default function AdminPage() {
     }
   }, [boardOwnerFilter, boardVisibilityFilter, activeTab, fetchBoards]);
 
+  useEffect(() => {
+    if (activeTab === "templates") {
+      fetchTemplates();
+    }
+  }, [activeTab, fetchTemplates]);
+
+  const handleTemplateVisibility = async (template: BoardTemplate, visibility: "private" | "org") => {
+    try {
+      const res = await fetch(`/api/board-templates/${template.id}`, {
+        method: "PATCH",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ visibility }),
+      });
+      if (res.ok) {
+        fetchTemplates();
+        addToast(visibility === "org" ? "Template shared with the organization" : "Template is now private", "success");
+      } else {
+        const data = await res.json();
+        addToast(data.error || "Failed to update template", "error");
+      }
+    } catch {
+      addToast("Failed to update template", "error");
+    }
+  };
+
+  const handleDeleteTemplate = async (template: BoardTemplate) => {
+    if (!confirm(`Delete the template "${template.name}"? Boards created from it are not affected.`)) return;
+    try {
+      const res = await fetch(`/api/board-templates/${template.id}`, { method: "DELETE" });
+      if (res.ok) {
+        setTemplates(templates.filter((t) => t.id !== template.id));
+        addToast("Template deleted", "success");
+      } else {
+        const data = await res.json();
+        addToast(data.error || "Failed to delete template", "error");
+      }
+    } catch {
+      addToast("Failed to delete template", "error");
+    }
+  };
+
   const handleAddUser = async (e: React.FormEvent) => {
     e.preventDefault();
     
@@ -400,7 +457,7 @@ export default function AdminPage() {
 
         {/* Tabs */}
         <div className="flex gap-1 mb-6 bg-gray-800 rounded-lg p-1 w-fit">
-          {(["users", "boards", "settings"] as TabType[]).map((tab) => (
+          {(["users", "boards", "templates", "jobs", "settings"] as TabType[]).map((tab) => (
             <button
               key={tab}
               onClick={() => setActiveTab(tab)}
@@ -631,6 +688,98 @@ export default function AdminPage() {
           </div>
         )}
 
+        {/* Templates Tab */}
+        {activeTab === "templates" && (
+          <div>
+            <div className="flex gap-4 mb-4">
+              <select
+                value={templateVisibilityFilter}
+                onChange={(e) => setTemplateVisibilityFilter(e.target.value)}
+                className="bg-gray-800 border border-gray-700 rounded-lg px-4 py-2 text-sm"
+              >
+                <option value="org">Shared with organization</option>
+                <option value="private">Private</option>
+                <option value="all">All templates</option>
+              </select>
+            </div>
+
+            <div className="bg-gray-800 rounded-xl overflow-hidden">
+              <table className="w-full">
+                <thead className="bg-gray-700/50">
+                  <tr>
+                    <th className="px-6 py-4 text-left text-sm font-semibold">Template</th>
+                    <th className="px-6 py-4 text-left text-sm font-semibold">Created by</th>
+                    <th className="px-6 py-4 text-left text-sm font-semibold">Visibility</th>
+                    <th className="px-6 py-4 text-left text-sm font-semibold">Contents</th>
+                    <th className="px-6 py-4 text-left text-sm font-semibold">Created</th>
+                    <th className="px-6 py-4 text-right text-sm font-semibold">Actions</th>
+                  </tr>
+                </thead>
+                <tbody className="divide-y divide-gray-700">
+                  {templates.map((template) => (
+                    <tr key={template.id} className="hover:bg-gray-750/50">
+                      <td className="px-6 py-4">
+                        <div className="font-medium">{template.name}</div>
+                        {template.description && (
+                          <div className="text-sm text-gray-400 truncate max-w-xs">{template.description}</div>
+                        )}
+                      </td>
+                      <td className="px-6 py-4 text-sm">
+                        {template.saved?.createdBy.name || template.saved?.createdBy.email}
+                      </td>
+                      <td className="px-6 py-4">
+                        <span className={`px-2 py-1 rounded text-xs font-medium ${
+                          template.saved?.visibility === "org"
+                            ? "bg-blue-900/50 text-blue-300"
+                            : "bg-gray-700 text-gray-300"
+                        }`}>
+                          {template.saved?.visibility}
+                        </span>
+                      </td>
+                      <td className="px-6 py-4 text-gray-300 text-sm">
+                        {template.columns.length} columns, {template.labels.length} labels
+                        {template.saved && (
+                          <div className="text-xs text-gray-500">
+                            {template.saved.customFields} fields · {template.saved.automations} automations · {template.saved.tasks} tasks
+                          </div>
+                        )}
+                      </td>
+                      <td className="px-6 py-4 text-gray-300 text-sm">
+                        {template.saved && formatDate(template.saved.createdAt)}
+                      </td>
+                      <td className="px-6 py-4 text-right">
+                        <div className="flex items-center justify-end gap-2">
+                          <button
+                            onClick={() =>
+                              handleTemplateVisibility(template, template.saved?.visibility === "org" ? "private" : "org")
+                            }
+                            className="text-indigo-400 hover:text-indigo-300 text-sm"
+                          >
+                            {template.saved?.visibility === "org" ? "Unshare" : "Share"}
+                          </button>
+                          <button
+                            onClick={() => handleDeleteTemplate(template)}
+                            className="text-red-400 hover:text-red-300 text-sm"
+                          >
+                            Delete
+                          </button>
+                        </div>
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+
+              {templates.length === 0 && (
+                <div className="text-center py-12 text-gray-400">No templates found</div>
+              )}
+            </div>
+          </div>
+        )}
+
+        {/* Jobs Tab */}
+        {activeTab === "jobs" && <JobsPanel onToast={addToast} />}
+
         {/* Settings Tab */}
         {activeTab === "settings" && (
           <div className="bg-gray-800 rounded-xl p-8">
@@ -1168,3 +1317,276 @@ function UserDetailModal({
     </div>
   );
 }
+
+const RUN_STATUS_STYLES: Record<JobRun["status"], string> = {
+  running: "bg-blue-900/50 text-blue-300",
+  succeeded: "bg-green-900/50 text-green-300",
+  failed: "bg-red-900/50 text-red-300",
+};
+
+function formatInterval(seconds: number): string {
+  if (seconds % 86400 === 0) return `${seconds / 86400}d`;
+  if (seconds % 3600 === 0) return `${seconds / 3600}h`;
+  return `${Math.round(seconds / 60)}m`;
+}
+
+function formatRunTime(run: JobRun): string {
+  const started = new Date(run.startedAt).toLocaleString("en-US", {
+    month: "short",
+    day: "numeric",
+    hour: "numeric",
+    minute: "2-digit",
+  });
+  if (!run.finishedAt) return started;
+  const ms = new Date(run.finishedAt).getTime() - new Date(run.startedAt).getTime();
+  return `${started} · ${ms < 1000 ? `${ms}ms` : `${(ms / 1000).toFixed(1)}s`}`;
+}
+
+function formatRunOutcome(run: JobRun): string {
+  if (run.error) return run.error;
+  if (!run.result) return "";
+  return Object.entries(run.result)
+    .map(([key, value]) => `${key}: ${value}`)
+    .join(", ");
+}
+
+// Jobs Tab Component
+function JobsPanel({ onToast }: { onToast: (message: string, type?: "success" | "error" | "info") => void }) {
+  const [jobs, setJobs] = useState<ScheduledJob[]>([]);
+  const [runs, setRuns] = useState<JobRun[]>([]);
+  const [editing, setEditing] = useState<{ name: string; intervalMinutes: string; config: string } | null>(null);
+  const [busyJob, setBusyJob] = useState<string | null>(null);
+
+  const fetchJobs = useCallback(async () => {
+    try {
+      const res = await fetch("/api/admin/jobs");
+      if (res.ok) {
+        const data = await res.json();
+        setJobs(data.jobs);
+        setRuns(data.runs);
+      }
+    } catch (err) {
+      console.error("Failed to fetch jobs:", err);
+    }
+  }, []);
+
+  useEffect(() => {
+    fetchJobs();
+  }, [fetchJobs]);
+
+  const updateJob = async (name: string, updates: Record<string, unknown>) => {
+    setBusyJob(name);
+    try {
+      const res = await fetch(`/api/admin/jobs/${name}`, {
+        method: "PATCH",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify(updates),
+      });
+      if (res.ok) {
+        setEditing(null);
+        fetchJobs();
+        onToast("Job updated", "success");
+      } else {
+        const data = await res.json();
+        onToast(data.error || "Failed to update job", "error");
+      }
+    } catch {
+      onToast("Failed to update job", "error");
+    } finally {
+      setBusyJob(null);
+    }
+  };
+
+  const saveEdit = () => {
+    if (!editing) return;
+    const updates: Record<string, unknown> = { intervalSeconds: Math.round(Number(editing.intervalMinutes) * 60) };
+    if (editing.config.trim()) {
+      try {
+        updates.config = JSON.parse(editing.config);
+      } catch {
+        onToast("Settings must be valid JSON", "error");
+        return;
+      }
+    }
+    updateJob(editing.name, updates);
+  };
+
+  const runNow = async (name: string) => {
+    setBusyJob(name);
+    try {
+      const res = await fetch(`/api/admin/jobs/${name}/run`, { method: "POST" });
+      const data = await res.json();
+      if (res.ok) {
+        onToast(data.status === "failed" ? `Run failed: ${data.error}` : "Job finished", data.status === "failed" ? "error" : "success");
+      } else {
+        onToast(data.error || "Failed to run job", "error");
+      }
+      fetchJobs();
+    } catch {
+      onToast("Failed to run job", "error");
+    } finally {
+      setBusyJob(null);
+    }
+  };
+
+  return (
+    <div className="space-y-6">
+      <div className="bg-gray-800 rounded-xl overflow-hidden">
+        <table className="w-full">
+          <thead className="bg-gray-700/50">
+            <tr>
+              <th className="px-6 py-4 text-left text-sm font-semibold">Job</th>
+              <th className="px-6 py-4 text-left text-sm font-semibold">Every</th>
+              <th className="px-6 py-4 text-left text-sm font-semibold">Last run</th>
+              <th className="px-6 py-4 text-left text-sm font-semibold">Next run</th>
+              <th className="px-6 py-4 text-right text-sm font-semibold">Actions</th>
+            </tr>
+          </thead>
+          <tbody className="divide-y divide-gray-700">
+            {jobs.map((job) => (
+              <tr key={job.name} className="hover:bg-gray-750/50 align-top">
+                <td className="px-6 py-4">
+                  <div className="font-medium">{job.name}</div>
+                  <div className="text-sm text-gray-400">{job.description}</div>
+                  {editing?.name === job.name && (
+                    <div className="mt-3 space-y-2">
+                      <label className="block text-xs text-gray-400">
+                        Interval (minutes)
+                        <input
+                          type="number"
+                          min={1}
+                          value={editing.intervalMinutes}
+                          onChange={(e) => setEditing({ ...editing, intervalMinutes: e.target.value })}
+                          className="mt-1 w-32 block bg-gray-700 border border-gray-600 rounded-lg px-3 py-1.5 text-sm text-white focus:outline-none focus:border-indigo-500"
+                        />
+                      </label>
+                      {job.config && (
+                        <label className="block text-xs text-gray-400">
+                          Settings
+                          <textarea
+                            value={editing.config}
+                            onChange={(e) => setEditing({ ...editing, config: e.target.value })}
+                            rows={3}
+                            className="mt-1 w-full max-w-md block bg-gray-700 border border-gray-600 rounded-lg px-3 py-1.5 text-sm text-white font-mono focus:outline-none focus:border-indigo-500"
+                          />
+                        </label>
+                      )}
+                      <div className="flex gap-2">
+                        <button
+                          onClick={saveEdit}
+                          disabled={busyJob === job.name}
+                          className="px-3 py-1 bg-indigo-600 hover:bg-indigo-500 rounded text-sm transition disabled:opacity-50"
+                        >
+                          Save
+                        </button>
+                        <button
+                          onClick={() => setEditing(null)}
+                          className="px-3 py-1 bg-gray-700 hover:bg-gray-600 rounded text-sm transition"
+                        >
+                          Cancel
+                        </button>
+                      </div>
+                    </div>
+                  )}
+                </td>
+                <td className="px-6 py-4 text-sm text-gray-300">{formatInterval(job.intervalSeconds)}</td>
+                <td className="px-6 py-4 text-sm">
+                  {job.lastRun ? (
+                    <>
+                      <span className={`px-2 py-1 rounded text-xs font-medium ${RUN_STATUS_STYLES[job.lastRun.status]}`}>
+                        {job.lastRun.status}
+                      </span>
+                      <div className="text-xs text-gray-500 mt-1">{formatRunTime(job.lastRun)}</div>
+                    </>
+                  ) : (
+                    <span className="text-gray-500">Never</span>
+                  )}
+                </td>
+                <td className="px-6 py-4 text-sm text-gray-300">
+                  {!job.enabled
+                    ? "Disabled"
+                    : job.lockedBy
+                      ? "Running now"
+                      : new Date(job.nextRunAt).toLocaleString("en-US", {
+                          month: "short",
+                          day: "numeric",
+                          hour: "numeric",
+                          minute: "2-digit",
+                        })}
+                </td>
+                <td className="px-6 py-4 text-right">
+                  <div className="flex items-center justify-end gap-2">
+                    <button
+                      onClick={() => runNow(job.name)}
+                      disabled={busyJob === job.name}
+                      className="text-indigo-400 hover:text-indigo-300 text-sm disabled:opacity-50"
+                    >
+                      Run now
+                    </button>
+                    <button
+                      onClick={() =>
+                        setEditing({
+                          name: job.name,
+                          intervalMinutes: String(job.intervalSeconds / 60),
+                          config: job.config ? JSON.stringify(job.config) : "",
+                        })
+                      }
+                      className="text-gray-400 hover:text-white text-sm"
+                    >
+                      Edit
+                    </button>
+                    <button
+                      onClick={() => updateJob(job.name, { enabled: !job.enabled })}
+                      disabled={busyJob === job.name}
+                      className={`text-sm disabled:opacity-50 ${
+                        job.enabled ? "text-red-400 hover:text-red-300" : "text-green-400 hover:text-green-300"
+                      }`}
+                    >
+                      {job.enabled ? "Disable" : "Enable"}
+                    </button>
+                  </div>
+                </td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+
+        {jobs.length === 0 && <div className="text-center py-12 text-gray-400">No jobs found</div>}
+      </div>
+
+      <div className="bg-gray-800 rounded-xl overflow-hidden">
+        <div className="flex items-center justify-between px-6 py-4 border-b border-gray-700">
+          <h3 className="font-semibold">Recent runs</h3>
+          <button onClick={fetchJobs} className="text-indigo-400 hover:text-indigo-300 text-sm">
+            Refresh
+          </button>
+        </div>
+        <table className="w-full">
+          <tbody className="divide-y divide-gray-700">
+            {runs.map((run) => (
+              <tr key={run.id}>
+                <td className="px-6 py-3 text-sm font-medium">{run.jobName}</td>
+                <td className="px-6 py-3">
+                  <span className={`px-2 py-1 rounded text-xs font-medium ${RUN_STATUS_STYLES[run.status]}`}>
+                    {run.status}
+                  </span>
+                  {run.trigger === "manual" && <span className="ml-2 text-xs text-gray-500">manual</span>}
+                </td>
+                <td className="px-6 py-3 text-sm text-gray-400">{formatRunTime(run)}</td>
+                <td className="px-6 py-3 text-xs text-gray-500 font-mono">{run.instanceId}</td>
+                <td
+                  className={`px-6 py-3 text-sm truncate max-w-xs ${run.error ? "text-red-400" : "text-gray-300"}`}
+                  title={formatRunOutcome(run)}
+                >
+                  {formatRunOutcome(run)}
+                </td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+
+        {runs.length === 0 && <div className="text-center py-12 text-gray-400">No runs yet</div>}
+      </div>
+    </div>
+  );
+}
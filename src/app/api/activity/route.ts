@@ -51,8 +51,10 @@ export async function GET(req: NextRequest) {
   // eslint-disable-next-line @typescript-eslint/no-explicit-any
   const where: any = {
     task: {
+      deletedAt: null,
       column: {
         boardId: boardId ? boardId : { in: accessibleBoardIds },
+        board: { deletedAt: null },
       },
     },
   };
@@ -3,6 +3,7 @@ import { getServerSession } from "next-auth";
 import { authOptions } from "@/lib/auth";
 import { prisma } from "@/lib/prisma";
 import { subscribeToActivity } from "@/lib/activity";
+import { parseEventId } from "@/lib/event-bus";
 
 export async function GET(req: NextRequest) {
   const session = await getServerSession(authOptions);
@@ -21,17 +22,23 @@ export async function GET(req: NextRequest) {
     return new Response("No boards accessible", { status: 403 });
   }
 
+  // Sent by the browser when it reconnects on its own
+  const lastEventId = parseEventId(req.headers.get("last-event-id"));
+
   const encoder = new TextEncoder();
   let unsubscribe: (() => void) | null = null;
 
   const stream = new ReadableStream({
     start(controller) {
-      const send = (data: string) => {
-        controller.enqueue(encoder.encode(`data: ${data}\n\n`));
+      const send = (data: string, id: number | null = null) => {
+        const idLine = id === null ? "" : `id: ${id}\n`;
+        controller.enqueue(encoder.encode(`${idLine}data: ${data}\n\n`));
       };
 
       // Subscribe to all accessible boards using the centralized activity system
-      unsubscribe = subscribeToActivity(accessibleBoardIds, send);
+      unsubscribe = subscribeToActivity(accessibleBoardIds, send, lastEventId, () =>
+        send(JSON.stringify({ type: "resync" }))
+      );
 
       // Send heartbeat every 30 seconds
       const heartbeat = setInterval(() => {
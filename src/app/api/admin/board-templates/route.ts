@@ -0,0 +1,34 @@
+import { NextResponse } from "next/server";
+import { getServerSession } from "next-auth";
+import { authOptions } from "@/lib/auth";
+import { prisma } from "@/lib/prisma";
+import { templateCreatorSelect, toBoardTemplate } from "@/lib/saved-board-templates";
+
+// GET - List saved board templates (admin only); org-shared by default
+export async function GET(request: Request) {
+  const session = await getServerSession(authOptions);
+  
+  if (!session?.user?.id) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  }
+
+  const currentUser = await prisma.user.findUnique({
+    where: { id: session.user.id },
+    select: { role: true },
+  });
+
+  if (currentUser?.role !== "admin") {
+    return NextResponse.json({ error: "Forbidden" }, { status: 403 });
+  }
+
+  const { searchParams } = new URL(request.url);
+  const visibility = searchParams.get("visibility") ?? "org";
+
+  const templates = await prisma.boardTemplate.findMany({
+    where: visibility === "all" ? {} : { visibility },
+    include: { createdBy: templateCreatorSelect },
+    orderBy: { createdAt: "desc" },
+  });
+
+  return NextResponse.json(templates.map(toBoardTemplate));
+}
@@ -2,6 +2,7 @@ import { NextResponse } from "next/server";
 import { getServerSession } from "next-auth";
 import { authOptions } from "@/lib/auth";
 import { prisma } from "@/lib/prisma";
+import { trashBoard } from "@/lib/trash";
 
 // GET - Get single board details (admin only)
 export async function GET(
@@ -157,10 +158,8 @@ export async function DELETE(
     return NextResponse.json({ error: "Board not found" }, { status: 404 });
   }
 
-  // Delete board (cascade will handle related records)
-  await prisma.board.delete({
-    where: { id: params.id },
-  });
+  // Move the board to the trash; the purge job removes it after the retention period
+  await trashBoard(params.id, session.user.id);
 
   return NextResponse.json({ success: true });
 }
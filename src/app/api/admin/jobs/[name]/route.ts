@@ -0,0 +1,63 @@
+import { NextResponse } from "next/server";
+import { getServerSession } from "next-auth";
+import { Prisma } from "@prisma/client";
+import { authOptions } from "@/lib/auth";
+import { prisma } from "@/lib/prisma";
+import { getJobDefinition, validateJobUpdate } from "@/lib/scheduler";
+
+export const runtime = "nodejs";
+
+// PATCH - Enable, disable or reconfigure a scheduled job (admin only)
+export async function PATCH(
+  request: Request,
+  { params }: { params: { name: string } }
+) {
+  const session = await getServerSession(authOptions);
+
+  if (!session?.user?.id) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  }
+
+  const currentUser = await prisma.user.findUnique({
+    where: { id: session.user.id },
+    select: { role: true },
+  });
+
+  if (currentUser?.role !== "admin") {
+    return NextResponse.json({ error: "Forbidden" }, { status: 403 });
+  }
+
+  const job = getJobDefinition(params.name);
+  if (!job) {
+    return NextResponse.json({ error: "Job not found" }, { status: 404 });
+  }
+
+  const body = await request.json();
+  const { enabled, intervalSeconds, config } = body;
+
+  const error = validateJobUpdate(job, { enabled, intervalSeconds, config });
+  if (error) {
+    return NextResponse.json({ error }, { status: 400 });
+  }
+
+  const updated = await prisma.scheduledJob.upsert({
+    where: { name: job.name },
+    create: {
+      name: job.name,
+      enabled: enabled ?? true,
+      intervalSeconds: intervalSeconds ?? job.intervalSeconds,
+      config: (config ?? job.defaultConfig) as Prisma.InputJsonValue | undefined,
+    },
+    update: {
+      ...(enabled !== undefined && { enabled }),
+      // A new interval counts from now rather than from the last run
+      ...(intervalSeconds !== undefined && {
+        intervalSeconds,
+        nextRunAt: new Date(Date.now() + intervalSeconds * 1000),
+      }),
+      ...(config !== undefined && { config: config as Prisma.InputJsonValue }),
+    },
+  });
+
+  return NextResponse.json({ ...updated, description: job.description });
+}
@@ -0,0 +1,39 @@
+import { NextResponse } from "next/server";
+import { getServerSession } from "next-auth";
+import { authOptions } from "@/lib/auth";
+import { prisma } from "@/lib/prisma";
+import { getJobDefinition, runJobNow } from "@/lib/scheduler";
+
+export const runtime = "nodejs";
+
+// POST - Run a scheduled job now (admin only)
+export async function POST(
+  request: Request,
+  { params }: { params: { name: string } }
+) {
+  const session = await getServerSession(authOptions);
+
+  if (!session?.user?.id) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  }
+
+  const currentUser = await prisma.user.findUnique({
+    where: { id: session.user.id },
+    select: { role: true },
+  });
+
+  if (currentUser?.role !== "admin") {
+    return NextResponse.json({ error: "Forbidden" }, { status: 403 });
+  }
+
+  if (!getJobDefinition(params.name)) {
+    return NextResponse.json({ error: "Job not found" }, { status: 404 });
+  }
+
+  const run = await runJobNow(params.name);
+  if (!run) {
+    return NextResponse.json({ error: "Job is already running" }, { status: 409 });
+  }
+
+  return NextResponse.json(run);
+}
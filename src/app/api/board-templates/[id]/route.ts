@@ -0,0 +1,78 @@
+import { NextRequest, NextResponse } from "next/server";
+import { prisma } from "@/lib/prisma";
+import { getAuthUser } from "@/lib/mobile-auth";
+import { isAdmin } from "@/lib/permissions";
+import {
+  BOARD_TEMPLATE_VISIBILITIES,
+  templateCreatorSelect,
+  toBoardTemplate,
+} from "@/lib/saved-board-templates";
+import type { BoardTemplateVisibility } from "@/lib/board-templates";
+
+// PATCH /api/board-templates/[id] - Rename or change sharing (creator or admin)
+export async function PATCH(
+  req: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const user = await getAuthUser(req);
+  if (!user) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  }
+
+  const { id } = await params;
+  const template = await prisma.boardTemplate.findUnique({ where: { id } });
+
+  if (!template) {
+    return NextResponse.json({ error: "Template not found" }, { status: 404 });
+  }
+  if (template.createdById !== user.id && !isAdmin(user)) {
+    return NextResponse.json({ error: "Forbidden" }, { status: 403 });
+  }
+
+  const body = await req.json();
+  const { name, description, visibility } = body;
+
+  if (name !== undefined && !name?.trim()) {
+    return NextResponse.json({ error: "Name is required" }, { status: 400 });
+  }
+  if (visibility !== undefined && !BOARD_TEMPLATE_VISIBILITIES.includes(visibility as BoardTemplateVisibility)) {
+    return NextResponse.json({ error: "Invalid visibility" }, { status: 400 });
+  }
+
+  const updated = await prisma.boardTemplate.update({
+    where: { id },
+    data: {
+      ...(name !== undefined && { name: name.trim() }),
+      ...(description !== undefined && { description: description?.trim() || null }),
+      ...(visibility !== undefined && { visibility }),
+    },
+    include: { createdBy: templateCreatorSelect },
+  });
+
+  return NextResponse.json(toBoardTemplate(updated));
+}
+
+// DELETE /api/board-templates/[id] - Delete a saved template (creator or admin)
+export async function DELETE(
+  req: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const user = await getAuthUser(req);
+  if (!user) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  }
+
+  const { id } = await params;
+  const template = await prisma.boardTemplate.findUnique({ where: { id } });
+
+  if (!template) {
+    return NextResponse.json({ error: "Template not found" }, { status: 404 });
+  }
+  if (template.createdById !== user.id && !isAdmin(user)) {
+    return NextResponse.json({ error: "Forbidden" }, { status: 403 });
+  }
+
+  await prisma.boardTemplate.delete({ where: { id } });
+
+  return NextResponse.json({ success: true });
+}
@@ -0,0 +1,81 @@
+import { NextRequest, NextResponse } from "next/server";
+import { prisma } from "@/lib/prisma";
+import { getAuthUser } from "@/lib/mobile-auth";
+import { isAdmin } from "@/lib/permissions";
+import {
+  BOARD_TEMPLATE_VISIBILITIES,
+  snapshotBoard,
+  templateCreatorSelect,
+  toBoardTemplate,
+  visibleTemplatesWhere,
+} from "@/lib/saved-board-templates";
+import type { BoardTemplateVisibility } from "@/lib/board-templates";
+
+// GET /api/board-templates - Saved templates the user can create boards from
+export async function GET(req: NextRequest) {
+  const user = await getAuthUser(req);
+  if (!user) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  }
+
+  const templates = await prisma.boardTemplate.findMany({
+    where: visibleTemplatesWhere(user.id),
+    include: { createdBy: templateCreatorSelect },
+    orderBy: { createdAt: "desc" },
+  });
+
+  return NextResponse.json(templates.map(toBoardTemplate));
+}
+
+// POST /api/board-templates - Save a board as a template
+export async function POST(req: NextRequest) {
+  const user = await getAuthUser(req);
+  if (!user) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  }
+
+  const body = await req.json();
+  const { boardId, name, description, visibility = "private", includeTasks = false } = body;
+
+  if (!boardId) {
+    return NextResponse.json({ error: "boardId is required" }, { status: 400 });
+  }
+  if (!name?.trim()) {
+    return NextResponse.json({ error: "Name is required" }, { status: 400 });
+  }
+  if (!BOARD_TEMPLATE_VISIBILITIES.includes(visibility as BoardTemplateVisibility)) {
+    return NextResponse.json({ error: "Invalid visibility" }, { status: 400 });
+  }
+
+  const board = await prisma.board.findUnique({
+    where: { id: boardId },
+    include: { members: true },
+  });
+
+  if (!board) {
+    return NextResponse.json({ error: "Board not found" }, { status: 404 });
+  }
+
+  const isMember = board.members.some((m) => m.userId === user.id);
+  if (!isMember && board.ownerId !== user.id && !isAdmin(user)) {
+    return NextResponse.json({ error: "Forbidden" }, { status: 403 });
+  }
+
+  const content = await snapshotBoard(boardId, !!includeTasks);
+  if (!content) {
+    return NextResponse.json({ error: "Board not found" }, { status: 404 });
+  }
+
+  const template = await prisma.boardTemplate.create({
+    data: {
+      name: name.trim(),
+      description: description?.trim() || null,
+      visibility,
+      content: content as object,
+      createdById: user.id,
+    },
+    include: { createdBy: templateCreatorSelect },
+  });
+
+  return NextResponse.json(toBoardTemplate(template), { status: 201 });
+}
@@ -0,0 +1,113 @@
+import { NextRequest, NextResponse } from "next/server";
+import { Prisma } from "@prisma/client";
+import { prisma } from "@/lib/prisma";
+import { getAuthUser } from "@/lib/mobile-auth";
+import { canEditBoard, isBoardArchived } from "@/lib/permissions";
+import { validateAutomation } from "@/lib/automations";
+
+// PATCH /api/boards/[id]/automations/[automationId] - Update or enable/disable a rule
+export async function PATCH(
+  req: NextRequest,
+  { params }: { params: Promise<{ id: string; automationId: string }> }
+) {
+  const user = await getAuthUser(req);
+  if (!user) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  }
+
+  const { id: boardId, automationId } = await params;
+  const { name, enabled, trigger, triggerConfig, conditions, actions } = await req.json();
+
+  const board = await prisma.board.findUnique({
+    where: { id: boardId },
+    include: { members: true },
+  });
+
+  if (!board) {
+    return NextResponse.json({ error: "Board not found" }, { status: 404 });
+  }
+
+  const membership = board.members.find((m) => m.userId === user.id) || null;
+  if (!canEditBoard(user, board, membership)) {
+    return NextResponse.json({ error: "Forbidden" }, { status: 403 });
+  }
+
+  if (isBoardArchived(board)) {
+    return NextResponse.json({ error: "Board is archived" }, { status: 403 });
+  }
+
+  const existing = await prisma.boardAutomation.findFirst({
+    where: { id: automationId, boardId },
+  });
+
+  if (!existing) {
+    return NextResponse.json({ error: "Automation not found" }, { status: 404 });
+  }
+
+  if (name !== undefined && !name?.trim()) {
+    return NextResponse.json({ error: "Name cannot be empty" }, { status: 400 });
+  }
+
+  const error = await validateAutomation(boardId, { trigger, triggerConfig, conditions, actions });
+  if (error) {
+    return NextResponse.json({ error }, { status: 400 });
+  }
+
+  const automation = await prisma.boardAutomation.update({
+    where: { id: automationId },
+    data: {
+      ...(name !== undefined && { name: name.trim() }),
+      ...(enabled !== undefined && { enabled: !!enabled }),
+      ...(trigger !== undefined && { trigger }),
+      ...(triggerConfig !== undefined && { triggerConfig: triggerConfig ?? Prisma.JsonNull }),
+      ...(conditions !== undefined && { conditions }),
+      ...(actions !== undefined && { actions }),
+    },
+    include: { createdBy: { select: { id: true, name: true, email: true, image: true } } },
+  });
+
+  return NextResponse.json(automation);
+}
+
+// DELETE /api/boards/[id]/automations/[automationId] - Delete a rule and its run history
+export async function DELETE(
+  req: NextRequest,
+  { params }: { params: Promise<{ id: string; automationId: string }> }
+) {
+  const user = await getAuthUser(req);
+  if (!user) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  }
+
+  const { id: boardId, automationId } = await params;
+
+  const board = await prisma.board.findUnique({
+    where: { id: boardId },
+    include: { members: true },
+  });
+
+  if (!board) {
+    return NextResponse.json({ error: "Board not found" }, { status: 404 });
+  }
+
+  const membership = board.members.find((m) => m.userId === user.id) || null;
+  if (!canEditBoard(user, board, membership)) {
+    return NextResponse.json({ error: "Forbidden" }, { status: 403 });
+  }
+
+  if (isBoardArchived(board)) {
+    return NextResponse.json({ error: "Board is archived" }, { status: 403 });
+  }
+
+  const existing = await prisma.boardAutomation.findFirst({
+    where: { id: automationId, boardId },
+  });
+
+  if (!existing) {
+    return NextResponse.json({ error: "Automation not found" }, { status: 404 });
+  }
+
+  await prisma.boardAutomation.delete({ where: { id: automationId } });
+
+  return NextResponse.json({ success: true });
+}
@@ -0,0 +1,107 @@
+import { NextRequest, NextResponse } from "next/server";
+import { Prisma } from "@prisma/client";
+import { prisma } from "@/lib/prisma";
+import { getAuthUser } from "@/lib/mobile-auth";
+import { canEditBoard, isBoardArchived } from "@/lib/permissions";
+import { validateAutomation } from "@/lib/automations";
+
+// GET /api/boards/[id]/automations - List automation rules for a board
+export async function GET(
+  req: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const user = await getAuthUser(req);
+  if (!user) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  }
+
+  const { id: boardId } = await params;
+
+  const board = await prisma.board.findUnique({
+    where: { id: boardId },
+    include: { members: true },
+  });
+
+  if (!board) {
+    return NextResponse.json({ error: "Board not found" }, { status: 404 });
+  }
+
+  const isMember = board.members.some((m) => m.userId === user.id);
+  if (!isMember && board.ownerId !== user.id) {
+    return NextResponse.json({ error: "Forbidden" }, { status: 403 });
+  }
+
+  const automations = await prisma.boardAutomation.findMany({
+    where: { boardId },
+    include: { createdBy: { select: { id: true, name: true, email: true, image: true } } },
+    orderBy: { createdAt: "asc" },
+  });
+
+  return NextResponse.json(automations);
+}
+
+// POST /api/boards/[id]/automations - Create an automation rule
+export async function POST(
+  req: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const user = await getAuthUser(req);
+  if (!user) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  }
+
+  const { id: boardId } = await params;
+  const { name, enabled, trigger, triggerConfig, conditions, actions } = await req.json();
+
+  const board = await prisma.board.findUnique({
+    where: { id: boardId },
+    include: { members: true },
+  });
+
+  if (!board) {
+    return NextResponse.json({ error: "Board not found" }, { status: 404 });
+  }
+
+  const membership = board.members.find((m) => m.userId === user.id) || null;
+  if (!canEditBoard(user, board, membership)) {
+    return NextResponse.json({ error: "Forbidden" }, { status: 403 });
+  }
+
+  if (isBoardArchived(board)) {
+    return NextResponse.json({ error: "Board is archived" }, { status: 403 });
+  }
+
+  if (!name?.trim()) {
+    return NextResponse.json({ error: "Name is required" }, { status: 400 });
+  }
+
+  if (!trigger) {
+    return NextResponse.json({ error: "Trigger is required" }, { status: 400 });
+  }
+
+  const error = await validateAutomation(boardId, {
+    trigger,
+    triggerConfig,
+    conditions: conditions ?? [],
+    actions: actions ?? [],
+  });
+  if (error) {
+    return NextResponse.json({ error }, { status: 400 });
+  }
+
+  const automation = await prisma.boardAutomation.create({
+    data: {
+      boardId,
+      name: name.trim(),
+      enabled: enabled ?? true,
+      trigger,
+      triggerConfig: triggerConfig ?? Prisma.JsonNull,
+      conditions: conditions ?? [],
+      actions,
+      createdById: user.id,
+    },
+    include: { createdBy: { select: { id: true, name: true, email: true, image: true } } },
+  });
+
+  return NextResponse.json(automation);
+}
@@ -0,0 +1,45 @@
+import { NextRequest, NextResponse } from "next/server";
+import { prisma } from "@/lib/prisma";
+import { getAuthUser } from "@/lib/mobile-auth";
+
+// GET /api/boards/[id]/automations/runs - Recent automation runs on a board
+// Optional ?automationId= narrows the history to a single rule.
+export async function GET(
+  req: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const user = await getAuthUser(req);
+  if (!user) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  }
+
+  const { id: boardId } = await params;
+  const automationId = req.nextUrl.searchParams.get("automationId");
+  const limit = Math.min(parseInt(req.nextUrl.searchParams.get("limit") || "50", 10) || 50, 200);
+
+  const board = await prisma.board.findUnique({
+    where: { id: boardId },
+    include: { members: true },
+  });
+
+  if (!board) {
+    return NextResponse.json({ error: "Board not found" }, { status: 404 });
+  }
+
+  const isMember = board.members.some((m) => m.userId === user.id);
+  if (!isMember && board.ownerId !== user.id) {
+    return NextResponse.json({ error: "Forbidden" }, { status: 403 });
+  }
+
+  const runs = await prisma.automationRun.findMany({
+    where: {
+      automation: { boardId },
+      ...(automationId && { automationId }),
+    },
+    include: { automation: { select: { id: true, name: true } } },
+    orderBy: { createdAt: "desc" },
+    take: limit,
+  });
+
+  return NextResponse.json(runs);
+}
@@ -0,0 +1,88 @@
+import { NextRequest, NextResponse } from "next/server";
+import { prisma } from "@/lib/prisma";
+import { getAuthUser } from "@/lib/mobile-auth";
+import { canEditTasks, canViewBoard, isBoardArchived } from "@/lib/permissions";
+import { baselineInclude } from "@/lib/baselines";
+
+// GET /api/boards/[id]/baselines/[baselineId] - A baseline with its planned task dates
+export async function GET(
+  req: NextRequest,
+  { params }: { params: Promise<{ id: string; baselineId: string }> }
+) {
+  const user = await getAuthUser(req);
+  if (!user) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  }
+
+  const { id: boardId, baselineId } = await params;
+
+  const board = await prisma.board.findUnique({
+    where: { id: boardId },
+    include: { members: true },
+  });
+
+  if (!board) {
+    return NextResponse.json({ error: "Board not found" }, { status: 404 });
+  }
+
+  if (!canViewBoard(user, board)) {
+    return NextResponse.json({ error: "Forbidden" }, { status: 403 });
+  }
+
+  const baseline = await prisma.baseline.findFirst({
+    where: { id: baselineId, boardId },
+    include: {
+      ...baselineInclude,
+      tasks: { select: { taskId: true, startDate: true, dueDate: true } },
+    },
+  });
+
+  if (!baseline) {
+    return NextResponse.json({ error: "Baseline not found" }, { status: 404 });
+  }
+
+  return NextResponse.json(baseline);
+}
+
+// DELETE /api/boards/[id]/baselines/[baselineId] - Delete a baseline
+export async function DELETE(
+  req: NextRequest,
+  { params }: { params: Promise<{ id: string; baselineId: string }> }
+) {
+  const user = await getAuthUser(req);
+  if (!user) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  }
+
+  const { id: boardId, baselineId } = await params;
+
+  const board = await prisma.board.findUnique({
+    where: { id: boardId },
+    include: { members: true },
+  });
+
+  if (!board) {
+    return NextResponse.json({ error: "Board not found" }, { status: 404 });
+  }
+
+  const membership = board.members.find((m) => m.userId === user.id) || null;
+  if (!canEditTasks(user, board, membership)) {
+    return NextResponse.json({ error: "Forbidden" }, { status: 403 });
+  }
+
+  if (isBoardArchived(board)) {
+    return NextResponse.json({ error: "Board is archived" }, { status: 403 });
+  }
+
+  const baseline = await prisma.baseline.findFirst({
+    where: { id: baselineId, boardId },
+  });
+
+  if (!baseline) {
+    return NextResponse.json({ error: "Baseline not found" }, { status: 404 });
+  }
+
+  await prisma.baseline.delete({ where: { id: baselineId } });
+
+  return NextResponse.json({ success: true });
+}
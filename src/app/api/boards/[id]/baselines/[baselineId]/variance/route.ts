@@ -0,0 +1,42 @@
+import { NextRequest, NextResponse } from "next/server";
+import { prisma } from "@/lib/prisma";
+import { getAuthUser } from "@/lib/mobile-auth";
+import { canViewBoard } from "@/lib/permissions";
+import { getBaselineVariance } from "@/lib/baselines";
+
+// GET /api/boards/[id]/baselines/[baselineId]/variance - Tasks that slipped since the baseline
+export async function GET(
+  req: NextRequest,
+  { params }: { params: Promise<{ id: string; baselineId: string }> }
+) {
+  const user = await getAuthUser(req);
+  if (!user) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  }
+
+  const { id: boardId, baselineId } = await params;
+
+  const board = await prisma.board.findUnique({
+    where: { id: boardId },
+    include: { members: true },
+  });
+
+  if (!board) {
+    return NextResponse.json({ error: "Board not found" }, { status: 404 });
+  }
+
+  if (!canViewBoard(user, board)) {
+    return NextResponse.json({ error: "Forbidden" }, { status: 403 });
+  }
+
+  const exists = await prisma.baseline.findFirst({
+    where: { id: baselineId, boardId },
+    select: { id: true },
+  });
+
+  if (!exists) {
+    return NextResponse.json({ error: "Baseline not found" }, { status: 404 });
+  }
+
+  return NextResponse.json(await getBaselineVariance(baselineId));
+}
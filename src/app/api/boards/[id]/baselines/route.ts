@@ -0,0 +1,79 @@
+import { NextRequest, NextResponse } from "next/server";
+import { prisma } from "@/lib/prisma";
+import { getAuthUser } from "@/lib/mobile-auth";
+import { canEditTasks, canViewBoard, isBoardArchived } from "@/lib/permissions";
+import { baselineInclude, createBaseline } from "@/lib/baselines";
+
+// GET /api/boards/[id]/baselines - List a board's baselines, newest first
+export async function GET(
+  req: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const user = await getAuthUser(req);
+  if (!user) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  }
+
+  const { id: boardId } = await params;
+
+  const board = await prisma.board.findUnique({
+    where: { id: boardId },
+    include: { members: true },
+  });
+
+  if (!board) {
+    return NextResponse.json({ error: "Board not found" }, { status: 404 });
+  }
+
+  if (!canViewBoard(user, board)) {
+    return NextResponse.json({ error: "Forbidden" }, { status: 403 });
+  }
+
+  const baselines = await prisma.baseline.findMany({
+    where: { boardId },
+    include: baselineInclude,
+    orderBy: { createdAt: "desc" },
+  });
+
+  return NextResponse.json(baselines);
+}
+
+// POST /api/boards/[id]/baselines - Snapshot the board's planned dates
+export async function POST(
+  req: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const user = await getAuthUser(req);
+  if (!user) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  }
+
+  const { id: boardId } = await params;
+  const { name } = await req.json();
+
+  const board = await prisma.board.findUnique({
+    where: { id: boardId },
+    include: { members: true },
+  });
+
+  if (!board) {
+    return NextResponse.json({ error: "Board not found" }, { status: 404 });
+  }
+
+  const membership = board.members.find((m) => m.userId === user.id) || null;
+  if (!canEditTasks(user, board, membership)) {
+    return NextResponse.json({ error: "Forbidden" }, { status: 403 });
+  }
+
+  if (isBoardArchived(board)) {
+    return NextResponse.json({ error: "Board is archived" }, { status: 403 });
+  }
+
+  if (typeof name !== "string" || !name.trim()) {
+    return NextResponse.json({ error: "Name is required" }, { status: 400 });
+  }
+
+  const baseline = await createBaseline(boardId, name.trim(), user.id);
+
+  return NextResponse.json(baseline);
+}
@@ -2,6 +2,7 @@ import { NextRequest, NextResponse } from "next/server";
 import { getServerSession } from "next-auth";
 import { authOptions } from "@/lib/auth";
 import { prisma } from "@/lib/prisma";
+import { isBoardArchived } from "@/lib/permissions";
 import { emitBoardEvent } from "@/lib/events";
 
 export async function PATCH(
@@ -23,12 +24,17 @@ export async function PATCH(
   // Verify user is a member of the board
   const member = await prisma.boardMember.findFirst({
     where: { boardId, userId: session.user.id },
+    include: { board: { select: { archivedAt: true } } },
   });
 
   if (!member) {
     return NextResponse.json({ error: "Forbidden" }, { status: 403 });
   }
 
+  if (isBoardArchived(member.board)) {
+    return NextResponse.json({ error: "Board is archived" }, { status: 403 });
+  }
+
   // Verify all columns belong to this board
   const columns = await prisma.column.findMany({
     where: { boardId },
@@ -61,11 +67,12 @@ export async function PATCH(
     orderBy: { position: "asc" },
     include: {
       tasks: {
-        where: { parentId: null }, // Only get parent tasks
+        where: { parentId: null, deletedAt: null }, // Only get parent tasks
         orderBy: { position: "asc" },
         include: {
           assignee: true,
           subtasks: {
+            where: { deletedAt: null },
             include: { assignee: true },
             orderBy: { position: "asc" },
           },
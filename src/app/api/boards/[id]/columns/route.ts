@@ -1,7 +1,9 @@
 import { NextRequest, NextResponse } from "next/server";
 import { prisma } from "@/lib/prisma";
+import { isBoardArchived } from "@/lib/permissions";
 import { emitBoardEvent } from "@/lib/events";
 import { getAuthUser } from "@/lib/mobile-auth";
+import { isColumnCategory } from "@/lib/column-categories";
 
 export async function GET(
   req: NextRequest,
@@ -18,6 +20,7 @@ export async function GET(
     where: {
       boardId: id,
       board: {
+        deletedAt: null,
         OR: [
           { ownerId: user.id },
           { members: { some: { userId: user.id } } },
@@ -27,6 +30,7 @@ export async function GET(
     orderBy: { position: "asc" },
     include: {
       tasks: {
+        where: { deletedAt: null },
         orderBy: { position: "asc" },
         include: { assignee: true },
       },
@@ -46,20 +50,29 @@ export async function POST(
   }
 
   const { id } = await params;
-  const { name, color } = await req.json();
+  const { name, color, category } = await req.json();
 
   if (!name?.trim()) {
     return NextResponse.json({ error: "Name is required" }, { status: 400 });
   }
 
+  if (category !== undefined && !isColumnCategory(category)) {
+    return NextResponse.json({ error: "Invalid column category" }, { status: 400 });
+  }
+
   const member = await prisma.boardMember.findFirst({
     where: { boardId: id, userId: user.id },
+    include: { board: { select: { archivedAt: true } } },
   });
 
   if (!member) {
     return NextResponse.json({ error: "Forbidden" }, { status: 403 });
   }
 
+  if (isBoardArchived(member.board)) {
+    return NextResponse.json({ error: "Board is archived" }, { status: 403 });
+  }
+
   const maxPosition = await prisma.column.aggregate({
     where: { boardId: id },
     _max: { position: true },
@@ -70,6 +83,7 @@ export async function POST(
       boardId: id,
       name: name.trim(),
       color: color || "#6366f1",
+      ...(category && { category }),
       position: (maxPosition._max.position ?? -1) + 1,
     },
     include: { tasks: true },
@@ -2,6 +2,7 @@ import { NextRequest, NextResponse } from "next/server";
 import { getServerSession } from "next-auth";
 import { authOptions } from "@/lib/auth";
 import { prisma } from "@/lib/prisma";
+import { isBoardArchived } from "@/lib/permissions";
 
 // GET /api/boards/[id]/custom-fields - List all custom fields for a board
 export async function GET(
@@ -64,13 +65,17 @@ export async function POST(
 
   const board = await prisma.board.findUnique({
     where: { id: boardId },
-    select: { ownerId: true },
+    select: { ownerId: true, archivedAt: true },
   });
 
   if (!member && board?.ownerId !== session.user.id) {
     return NextResponse.json({ error: "Forbidden" }, { status: 403 });
   }
 
+  if (board && isBoardArchived(board)) {
+    return NextResponse.json({ error: "Board is archived" }, { status: 403 });
+  }
+
   // Check if field with same name already exists
   const existing = await prisma.customField.findFirst({
     where: { boardId, name: name.trim() },
@@ -127,13 +132,17 @@ export async function PATCH(
 
   const board = await prisma.board.findUnique({
     where: { id: boardId },
-    select: { ownerId: true },
+    select: { ownerId: true, archivedAt: true },
   });
 
   if (!member && board?.ownerId !== session.user.id) {
     return NextResponse.json({ error: "Forbidden" }, { status: 403 });
   }
 
+  if (board && isBoardArchived(board)) {
+    return NextResponse.json({ error: "Board is archived" }, { status: 403 });
+  }
+
   // Verify field belongs to this board
   const field = await prisma.customField.findFirst({
     where: { id: fieldId, boardId },
@@ -223,13 +232,17 @@ export async function DELETE(
 
   const board = await prisma.board.findUnique({
     where: { id: boardId },
-    select: { ownerId: true },
+    select: { ownerId: true, archivedAt: true },
   });
 
   if (!member && board?.ownerId !== session.user.id) {
     return NextResponse.json({ error: "Forbidden" }, { status: 403 });
   }
 
+  if (board && isBoardArchived(board)) {
+    return NextResponse.json({ error: "Board is archived" }, { status: 403 });
+  }
+
   // Verify field belongs to this board
   const field = await prisma.customField.findFirst({
     where: { id: fieldId, boardId },
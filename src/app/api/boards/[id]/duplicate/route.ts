@@ -0,0 +1,56 @@
+import { NextRequest, NextResponse } from "next/server";
+import { prisma } from "@/lib/prisma";
+import { getAuthUser } from "@/lib/mobile-auth";
+import { isAdmin } from "@/lib/permissions";
+import { duplicateBoard } from "@/lib/board-archive";
+
+// POST /api/boards/[id]/duplicate - Copy a board into a new board owned by the caller
+// Body: { name?, include?: { tasks, archivedTasks, comments, activity, attachments,
+// members, automations, taskTemplates } }. Columns, labels and custom fields always come along.
+export async function POST(
+  req: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const user = await getAuthUser(req);
+  if (!user) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  }
+
+  const { id: boardId } = await params;
+
+  const board = await prisma.board.findUnique({
+    where: { id: boardId },
+    include: { members: true },
+  });
+
+  if (!board) {
+    return NextResponse.json({ error: "Board not found" }, { status: 404 });
+  }
+
+  const isMember = board.members.some((m) => m.userId === user.id);
+  if (!isMember && board.ownerId !== user.id && !isAdmin(user)) {
+    return NextResponse.json({ error: "Forbidden" }, { status: 403 });
+  }
+
+  const body = await req.json().catch(() => ({}));
+  const include = body.include ?? {};
+  const name = typeof body.name === "string" && body.name.trim() ? body.name.trim() : `${board.name} (copy)`;
+
+  try {
+    const copy = await duplicateBoard(boardId, user.id, {
+      name,
+      tasks: include.tasks ?? true,
+      archivedTasks: include.archivedTasks ?? false,
+      comments: include.comments ?? false,
+      activity: include.activity ?? false,
+      attachments: include.attachments ?? false,
+      members: include.members ?? false,
+      automations: include.automations ?? true,
+      taskTemplates: include.taskTemplates ?? true,
+    });
+    return NextResponse.json(copy, { status: 201 });
+  } catch (error) {
+    console.error("Board duplicate failed:", error);
+    return NextResponse.json({ error: "Failed to duplicate board" }, { status: 500 });
+  }
+}
@@ -3,6 +3,7 @@ import { getServerSession } from "next-auth";
 import { authOptions } from "@/lib/auth";
 import { prisma } from "@/lib/prisma";
 import { subscribe, getConnectedUsers, BoardEvent } from "@/lib/events";
+import { parseEventId } from "@/lib/event-bus";
 
 export const dynamic = "force-dynamic";
 export const runtime = "nodejs";
@@ -33,12 +34,17 @@ export async function GET(
   const userId = session.user.id;
   const userName = session.user.name || session.user.email || "Unknown";
 
+  // Browsers resend the last id on their own reconnects; our client passes it in the query
+  const lastEventId = parseEventId(
+    req.headers.get("last-event-id") ?? req.nextUrl.searchParams.get("lastEventId")
+  );
+
   const encoder = new TextEncoder();
 
   const stream = new ReadableStream({
-    start(controller) {
+    async start(controller) {
       // Send initial connected users
-      const connectedUsers = getConnectedUsers(boardId);
+      const connectedUsers = await getConnectedUsers(boardId);
       const initialEvent = {
         type: "init",
         connectedUsers: [...connectedUsers, { userId, userName }],
@@ -47,23 +53,35 @@ export async function GET(
         encoder.encode(`data: ${JSON.stringify(initialEvent)}\n\n`)
       );
 
-      // Heartbeat to keep connection alive
-      const heartbeatInterval = setInterval(() => {
+      // Heartbeat to keep connection alive, with the current presence so
+      // users on an instance that went away without saying so drop off
+      const heartbeatInterval = setInterval(async () => {
         try {
           controller.enqueue(encoder.encode(`: heartbeat\n\n`));
         } catch {
           // Stream closed
           clearInterval(heartbeatInterval);
+          return;
+        }
+        try {
+          const users = await getConnectedUsers(boardId);
+          controller.enqueue(
+            encoder.encode(`data: ${JSON.stringify({ type: "presence", connectedUsers: users })}\n\n`)
+          );
+        } catch {
+          // Closed meanwhile or presence unavailable; next heartbeat tries again
         }
       }, SSE_HEARTBEAT_MS);
 
-      // Subscribe to board events
+      // Subscribe to board events, catching up on any missed since lastEventId
       const unsubscribe = subscribe(
         boardId,
-        (event: BoardEvent) => {
+        (event: BoardEvent, id: number | null) => {
           try {
+            // Transient events have no id, so don't move the resume point
+            const idLine = id === null ? "" : `id: ${id}\n`;
             controller.enqueue(
-              encoder.encode(`data: ${JSON.stringify(event)}\n\n`)
+              encoder.encode(`${idLine}data: ${JSON.stringify(event)}\n\n`)
             );
           } catch {
             // Stream closed, unsubscribe
@@ -72,7 +90,17 @@ export async function GET(
           }
         },
         userId,
-        userName
+        userName,
+        {
+          lastEventId,
+          onResync: () => {
+            try {
+              controller.enqueue(encoder.encode(`data: ${JSON.stringify({ type: "resync" })}\n\n`));
+            } catch {
+              // Stream closed
+            }
+          },
+        }
       );
 
       // Handle client disconnect
@@ -0,0 +1,47 @@
+import { NextRequest, NextResponse } from "next/server";
+import { prisma } from "@/lib/prisma";
+import { getAuthUser } from "@/lib/mobile-auth";
+import { isAdmin } from "@/lib/permissions";
+import { exportBoard } from "@/lib/board-archive";
+
+// GET /api/boards/[id]/export - Download the whole board as a JSON archive
+export async function GET(
+  req: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const user = await getAuthUser(req);
+  if (!user) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  }
+
+  const { id: boardId } = await params;
+
+  const board = await prisma.board.findUnique({
+    where: { id: boardId },
+    include: { members: true },
+  });
+
+  if (!board) {
+    return NextResponse.json({ error: "Board not found" }, { status: 404 });
+  }
+
+  const isMember = board.members.some((m) => m.userId === user.id);
+  if (!isMember && board.ownerId !== user.id && !isAdmin(user)) {
+    return NextResponse.json({ error: "Forbidden" }, { status: 403 });
+  }
+
+  const archive = await exportBoard(boardId);
+  if (!archive) {
+    return NextResponse.json({ error: "Board not found" }, { status: 404 });
+  }
+
+  const slug = board.name.toLowerCase().replace(/[^a-z0-9]+/g, "-").replace(/^-|-$/g, "") || "board";
+  const date = archive.exportedAt.slice(0, 10);
+
+  return new NextResponse(JSON.stringify(archive, null, 2), {
+    headers: {
+      "Content-Type": "application/json",
+      "Content-Disposition": `attachment; filename="${slug}-${date}.json"`,
+    },
+  });
+}
@@ -1,5 +1,6 @@
 import { NextRequest, NextResponse } from "next/server";
 import { prisma } from "@/lib/prisma";
+import { isBoardArchived } from "@/lib/permissions";
 import { getAuthUser } from "@/lib/mobile-auth";
 
 // GET /api/boards/[id]/labels - List all labels for a board
@@ -72,6 +73,10 @@ export async function POST(
     return NextResponse.json({ error: "Forbidden" }, { status: 403 });
   }
 
+  if (isBoardArchived(board)) {
+    return NextResponse.json({ error: "Board is archived" }, { status: 403 });
+  }
+
   // Check if label with same name already exists
   const existing = await prisma.label.findFirst({
     where: { boardId, name: name.trim() },
@@ -127,6 +132,10 @@ export async function PATCH(
     return NextResponse.json({ error: "Forbidden" }, { status: 403 });
   }
 
+  if (isBoardArchived(board)) {
+    return NextResponse.json({ error: "Board is archived" }, { status: 403 });
+  }
+
   // Verify label belongs to this board
   const label = await prisma.label.findFirst({
     where: { id: labelId, boardId },
@@ -194,6 +203,10 @@ export async function DELETE(
     return NextResponse.json({ error: "Forbidden" }, { status: 403 });
   }
 
+  if (isBoardArchived(board)) {
+    return NextResponse.json({ error: "Board is archived" }, { status: 403 });
+  }
+
   // Verify label belongs to this board
   const label = await prisma.label.findFirst({
     where: { id: labelId, boardId },
@@ -0,0 +1,95 @@
+import { NextRequest, NextResponse } from "next/server";
+import { prisma } from "@/lib/prisma";
+import { getAuthUser } from "@/lib/mobile-auth";
+import { SWIMLANE_GROUPINGS, getGroupedFieldId, isGroupableField } from "@/lib/swimlanes";
+
+// GET /api/boards/[id]/preferences - Current user's view preferences for a board
+export async function GET(
+  req: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const user = await getAuthUser(req);
+  if (!user) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  }
+
+  const { id: boardId } = await params;
+
+  const member = await prisma.boardMember.findFirst({
+    where: { boardId, userId: user.id },
+    select: { swimlaneGroupBy: true, collapsedSwimlanes: true },
+  });
+
+  if (!member) {
+    return NextResponse.json({ error: "Forbidden" }, { status: 403 });
+  }
+
+  return NextResponse.json({
+    swimlaneGroupBy: member.swimlaneGroupBy ?? "none",
+    collapsedSwimlanes: member.collapsedSwimlanes,
+  });
+}
+
+// PATCH /api/boards/[id]/preferences - Save view preferences for a board
+export async function PATCH(
+  req: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const user = await getAuthUser(req);
+  if (!user) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  }
+
+  const { id: boardId } = await params;
+  const { swimlaneGroupBy, collapsedSwimlanes } = await req.json();
+
+  const member = await prisma.boardMember.findFirst({
+    where: { boardId, userId: user.id },
+  });
+
+  if (!member) {
+    return NextResponse.json({ error: "Forbidden" }, { status: 403 });
+  }
+
+  if (swimlaneGroupBy !== undefined) {
+    const fieldId = typeof swimlaneGroupBy === "string" ? getGroupedFieldId(swimlaneGroupBy) : null;
+    if (fieldId) {
+      const field = await prisma.customField.findFirst({
+        where: { id: fieldId, boardId },
+      });
+      if (!field || !isGroupableField(field)) {
+        return NextResponse.json(
+          { error: "Swimlanes can only be grouped by select fields" },
+          { status: 400 }
+        );
+      }
+    } else if (!SWIMLANE_GROUPINGS.some((g) => g.id === swimlaneGroupBy)) {
+      return NextResponse.json({ error: "Invalid swimlane grouping" }, { status: 400 });
+    }
+  }
+
+  if (
+    collapsedSwimlanes !== undefined &&
+    (!Array.isArray(collapsedSwimlanes) || collapsedSwimlanes.some((k) => typeof k !== "string"))
+  ) {
+    return NextResponse.json({ error: "collapsedSwimlanes must be an array of strings" }, { status: 400 });
+  }
+
+  const updated = await prisma.boardMember.update({
+    where: { id: member.id },
+    data: {
+      ...(swimlaneGroupBy !== undefined && {
+        swimlaneGroupBy: swimlaneGroupBy === "none" ? null : swimlaneGroupBy,
+        // Lane keys are specific to a grouping
+        collapsedSwimlanes: [],
+      }),
+      ...(collapsedSwimlanes !== undefined && { collapsedSwimlanes }),
+    },
+    select: { swimlaneGroupBy: true, collapsedSwimlanes: true },
+  });
+
+  return NextResponse.json({
+    swimlaneGroupBy: updated.swimlaneGroupBy ?? "none",
+    collapsedSwimlanes: updated.collapsedSwimlanes,
+  });
+}
@@ -0,0 +1,43 @@
+import { NextRequest, NextResponse } from "next/server";
+import { prisma } from "@/lib/prisma";
+import { canDeleteBoard } from "@/lib/permissions";
+import { getAuthUser } from "@/lib/mobile-auth";
+import { restoreBoard } from "@/lib/trash";
+
+// POST /api/boards/[id]/restore - Bring a board back from the trash
+export async function POST(
+  req: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const user = await getAuthUser(req);
+  if (!user) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  }
+
+  const { id } = await params;
+
+  const board = await prisma.board.findFirst({
+    where: { id, deletedAt: { not: null } },
+  });
+
+  if (!board) {
+    return NextResponse.json({ error: "Board not found in trash" }, { status: 404 });
+  }
+
+  // Whoever could delete the board can restore it
+  if (!canDeleteBoard(user, board)) {
+    return NextResponse.json({ error: "Forbidden" }, { status: 403 });
+  }
+
+  await restoreBoard(id);
+
+  const restored = await prisma.board.findUnique({
+    where: { id },
+    include: {
+      owner: { select: { id: true, name: true, email: true, image: true } },
+      _count: { select: { columns: true, members: true } },
+    },
+  });
+
+  return NextResponse.json(restored);
+}
@@ -1,6 +1,9 @@
 import { NextRequest, NextResponse } from "next/server";
 import { prisma } from "@/lib/prisma";
-import { canViewBoard, canEditBoard, canDeleteBoard } from "@/lib/permissions";
+import { canViewBoard, canEditBoard, canDeleteBoard, isBoardArchived } from "@/lib/permissions";
+import { trashBoard } from "@/lib/trash";
+import { taskEpicSelect } from "@/lib/epics";
+import { isPointScale } from "@/lib/story-points";
 import { getAuthUser } from "@/lib/mobile-auth";
 
 export async function GET(
@@ -27,6 +30,7 @@ export async function GET(
           tasks: {
             where: { 
               parentId: null,
+              deletedAt: null,
               ...(includeArchived ? {} : { archived: false }),
             },
             orderBy: { position: "asc" },
@@ -35,6 +39,7 @@ export async function GET(
               createdBy: true,
               labels: true,
               subtasks: {
+                where: { deletedAt: null },
                 orderBy: { position: "asc" },
                 include: {
                   assignee: true,
@@ -45,12 +50,16 @@ export async function GET(
                 select: { attachments: true, blockedBy: true },
               },
               blockedBy: {
-                where: { blockedBy: { completed: false } },
+                where: { blockedBy: { completed: false, deletedAt: null } },
                 select: { id: true },
               },
               customFieldValues: {
                 include: { customField: true },
               },
+              northStar: {
+                select: { id: true, title: true, pillar: true },
+              },
+              epic: taskEpicSelect,
             },
           },
         },
@@ -64,6 +73,9 @@ export async function GET(
       labels: {
         orderBy: { createdAt: "asc" },
       },
+      sprints: {
+        orderBy: { createdAt: "asc" },
+      },
     },
   });
 
@@ -92,7 +104,7 @@ export async function PATCH(
   }
 
   const { id } = await params;
-  const { name, description, visibility, newOwnerId } = await req.json();
+  const { name, description, visibility, newOwnerId, archived, pointScale, enforceDependencies, autoSchedule } = await req.json();
 
   // Get board with members
   const board = await prisma.board.findUnique({
@@ -131,18 +143,39 @@ export async function PATCH(
     return NextResponse.json({ error: "Forbidden" }, { status: 403 });
   }
 
+  // Archived boards are read-only until they are unarchived
+  if (isBoardArchived(board) && archived !== false) {
+    return NextResponse.json({ error: "Board is archived" }, { status: 403 });
+  }
+
   // Validate visibility if provided
   if (visibility && !["private", "team", "public"].includes(visibility)) {
     return NextResponse.json({ error: "Invalid visibility" }, { status: 400 });
   }
 
+  if (pointScale !== undefined && !isPointScale(pointScale)) {
+    return NextResponse.json({ error: "Invalid point scale" }, { status: 400 });
+  }
+
+  if (enforceDependencies !== undefined && typeof enforceDependencies !== "boolean") {
+    return NextResponse.json({ error: "enforceDependencies must be a boolean" }, { status: 400 });
+  }
+
+  if (autoSchedule !== undefined && typeof autoSchedule !== "boolean") {
+    return NextResponse.json({ error: "autoSchedule must be a boolean" }, { status: 400 });
+  }
+
   const updated = await prisma.board.update({
     where: { id },
     data: {
       ...(name && { name: name.trim() }),
       ...(description !== undefined && { description: description?.trim() || null }),
       ...(visibility && { visibility }),
+      ...(pointScale !== undefined && { pointScale }),
+      ...(enforceDependencies !== undefined && { enforceDependencies }),
+      ...(autoSchedule !== undefined && { autoSchedule }),
       ...(newOwnerId && { ownerId: newOwnerId }),
+      ...(archived !== undefined && { archivedAt: archived ? board.archivedAt ?? new Date() : null }),
     },
     include: {
       owner: { select: { id: true, name: true, email: true, image: true } },
@@ -177,7 +210,8 @@ export async function DELETE(
     return NextResponse.json({ error: "Forbidden" }, { status: 403 });
   }
 
-  await prisma.board.delete({ where: { id } });
+  // Deleted boards go to the trash and can be restored by their owner
+  await trashBoard(id, user.id);
 
   return NextResponse.json({ success: true });
 }
@@ -0,0 +1,58 @@
+import { NextRequest, NextResponse } from "next/server";
+import { prisma } from "@/lib/prisma";
+import { getAuthUser } from "@/lib/mobile-auth";
+import { canEditTasks, isBoardArchived } from "@/lib/permissions";
+import { completeSprint, sprintInclude } from "@/lib/sprints";
+
+// POST /api/boards/[id]/sprints/[sprintId]/complete - Close the active sprint
+// Unfinished tasks move to carryOverToSprintId, or to the backlog when it is null
+export async function POST(
+  req: NextRequest,
+  { params }: { params: Promise<{ id: string; sprintId: string }> }
+) {
+  const user = await getAuthUser(req);
+  if (!user) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  }
+
+  const { id: boardId, sprintId } = await params;
+  const { carryOverToSprintId } = await req.json().catch(() => ({}));
+
+  const board = await prisma.board.findUnique({
+    where: { id: boardId },
+    include: { members: true },
+  });
+
+  if (!board) {
+    return NextResponse.json({ error: "Board not found" }, { status: 404 });
+  }
+
+  const membership = board.members.find((m) => m.userId === user.id) || null;
+  if (!canEditTasks(user, board, membership)) {
+    return NextResponse.json({ error: "Forbidden" }, { status: 403 });
+  }
+
+  if (isBoardArchived(board)) {
+    return NextResponse.json({ error: "Board is archived" }, { status: 403 });
+  }
+
+  const existing = await prisma.sprint.findFirst({
+    where: { id: sprintId, boardId },
+  });
+
+  if (!existing) {
+    return NextResponse.json({ error: "Sprint not found" }, { status: 404 });
+  }
+
+  const result = await completeSprint(sprintId, carryOverToSprintId || null, user.id);
+  if ("error" in result) {
+    return NextResponse.json({ error: result.error }, { status: 400 });
+  }
+
+  const sprint = await prisma.sprint.findUnique({
+    where: { id: sprintId },
+    include: sprintInclude,
+  });
+
+  return NextResponse.json(sprint);
+}
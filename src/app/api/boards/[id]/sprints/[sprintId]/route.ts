@@ -0,0 +1,117 @@
+import { NextRequest, NextResponse } from "next/server";
+import { prisma } from "@/lib/prisma";
+import { getAuthUser } from "@/lib/mobile-auth";
+import { canEditTasks, isBoardArchived } from "@/lib/permissions";
+import { sprintInclude } from "@/lib/sprints";
+
+// PATCH /api/boards/[id]/sprints/[sprintId] - Update a sprint's name, goal or dates
+export async function PATCH(
+  req: NextRequest,
+  { params }: { params: Promise<{ id: string; sprintId: string }> }
+) {
+  const user = await getAuthUser(req);
+  if (!user) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  }
+
+  const { id: boardId, sprintId } = await params;
+  const { name, goal, startDate, endDate } = await req.json();
+
+  const board = await prisma.board.findUnique({
+    where: { id: boardId },
+    include: { members: true },
+  });
+
+  if (!board) {
+    return NextResponse.json({ error: "Board not found" }, { status: 404 });
+  }
+
+  const membership = board.members.find((m) => m.userId === user.id) || null;
+  if (!canEditTasks(user, board, membership)) {
+    return NextResponse.json({ error: "Forbidden" }, { status: 403 });
+  }
+
+  if (isBoardArchived(board)) {
+    return NextResponse.json({ error: "Board is archived" }, { status: 403 });
+  }
+
+  const existing = await prisma.sprint.findFirst({
+    where: { id: sprintId, boardId },
+  });
+
+  if (!existing) {
+    return NextResponse.json({ error: "Sprint not found" }, { status: 404 });
+  }
+
+  // Closed sprints keep the dates their report was recorded against
+  if (existing.state === "closed") {
+    return NextResponse.json({ error: "Closed sprints cannot be edited" }, { status: 400 });
+  }
+
+  if (name !== undefined && !name?.trim()) {
+    return NextResponse.json({ error: "Name cannot be empty" }, { status: 400 });
+  }
+
+  const nextStart = startDate !== undefined ? (startDate ? new Date(startDate) : null) : existing.startDate;
+  const nextEnd = endDate !== undefined ? (endDate ? new Date(endDate) : null) : existing.endDate;
+  if (nextStart && nextEnd && nextEnd < nextStart) {
+    return NextResponse.json({ error: "End date must be after the start date" }, { status: 400 });
+  }
+
+  const sprint = await prisma.sprint.update({
+    where: { id: sprintId },
+    data: {
+      ...(name !== undefined && { name: name.trim() }),
+      ...(goal !== undefined && { goal: goal?.trim() || null }),
+      ...(startDate !== undefined && { startDate: nextStart }),
+      ...(endDate !== undefined && { endDate: nextEnd }),
+    },
+    include: sprintInclude,
+  });
+
+  return NextResponse.json(sprint);
+}
+
+// DELETE /api/boards/[id]/sprints/[sprintId] - Delete a sprint, returning its tasks to the backlog
+export async function DELETE(
+  req: NextRequest,
+  { params }: { params: Promise<{ id: string; sprintId: string }> }
+) {
+  const user = await getAuthUser(req);
+  if (!user) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  }
+
+  const { id: boardId, sprintId } = await params;
+
+  const board = await prisma.board.findUnique({
+    where: { id: boardId },
+    include: { members: true },
+  });
+
+  if (!board) {
+    return NextResponse.json({ error: "Board not found" }, { status: 404 });
+  }
+
+  const membership = board.members.find((m) => m.userId === user.id) || null;
+  if (!canEditTasks(user, board, membership)) {
+    return NextResponse.json({ error: "Forbidden" }, { status: 403 });
+  }
+
+  if (isBoardArchived(board)) {
+    return NextResponse.json({ error: "Board is archived" }, { status: 403 });
+  }
+
+  const existing = await prisma.sprint.findFirst({
+    where: { id: sprintId, boardId },
+  });
+
+  if (!existing) {
+    return NextResponse.json({ error: "Sprint not found" }, { status: 404 });
+  }
+
+  // Tasks fall back to the backlog through the SET NULL foreign key
+  await prisma.sprint.delete({ where: { id: sprintId } });
+
+  return NextResponse.json({ success: true });
+}
@@ -2,6 +2,7 @@ import { NextRequest, NextResponse } from "next/server";
 import { getServerSession } from "next-auth";
 import { authOptions } from "@/lib/auth";
 import { prisma } from "@/lib/prisma";
+import { isBoardArchived } from "@/lib/permissions";
 
 // GET /api/boards/[id]/task-templates/[templateId] - Get a single template
 export async function GET(
@@ -56,12 +57,17 @@ export async function PATCH(
   // Verify user is a member of this board
   const member = await prisma.boardMember.findFirst({
     where: { boardId, userId: session.user.id },
+    include: { board: { select: { archivedAt: true } } },
   });
 
   if (!member) {
     return NextResponse.json({ error: "Forbidden" }, { status: 403 });
   }
 
+  if (isBoardArchived(member.board)) {
+    return NextResponse.json({ error: "Board is archived" }, { status: 403 });
+  }
+
   // Verify template exists
   const template = await prisma.taskTemplate.findFirst({
     where: { id: templateId, boardId },
@@ -120,12 +126,17 @@ export async function DELETE(
   // Verify user is a member of this board
   const member = await prisma.boardMember.findFirst({
     where: { boardId, userId: session.user.id },
+    include: { board: { select: { archivedAt: true } } },
   });
 
   if (!member) {
     return NextResponse.json({ error: "Forbidden" }, { status: 403 });
   }
 
+  if (isBoardArchived(member.board)) {
+    return NextResponse.json({ error: "Board is archived" }, { status: 403 });
+  }
+
   // Verify template exists
   const template = await prisma.taskTemplate.findFirst({
     where: { id: templateId, boardId },
@@ -2,6 +2,7 @@ import { NextRequest, NextResponse } from "next/server";
 import { getServerSession } from "next-auth";
 import { authOptions } from "@/lib/auth";
 import { prisma } from "@/lib/prisma";
+import { isBoardArchived } from "@/lib/permissions";
 import { emitBoardEvent } from "@/lib/events";
 
 // Helper function to process template variables
@@ -45,12 +46,17 @@ export async function POST(
   // Verify user is a member of this board
   const member = await prisma.boardMember.findFirst({
     where: { boardId, userId: session.user.id },
+    include: { board: { select: { archivedAt: true } } },
   });
 
   if (!member) {
     return NextResponse.json({ error: "Forbidden" }, { status: 403 });
   }
 
+  if (isBoardArchived(member.board)) {
+    return NextResponse.json({ error: "Board is archived" }, { status: 403 });
+  }
+
   // Get the template
   const template = await prisma.taskTemplate.findFirst({
     where: { id: templateId, boardId },
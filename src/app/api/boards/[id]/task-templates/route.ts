@@ -2,6 +2,7 @@ import { NextRequest, NextResponse } from "next/server";
 import { getServerSession } from "next-auth";
 import { authOptions } from "@/lib/auth";
 import { prisma } from "@/lib/prisma";
+import { isBoardArchived } from "@/lib/permissions";
 
 // GET /api/boards/[id]/task-templates - List all templates for a board
 export async function GET(
@@ -61,12 +62,17 @@ export async function POST(
   // Verify user is a member of this board
   const member = await prisma.boardMember.findFirst({
     where: { boardId, userId: session.user.id },
+    include: { board: { select: { archivedAt: true } } },
   });
 
   if (!member) {
     return NextResponse.json({ error: "Forbidden" }, { status: 403 });
   }
 
+  if (isBoardArchived(member.board)) {
+    return NextResponse.json({ error: "Board is archived" }, { status: 403 });
+  }
+
   // Check if template with same name exists
   const existing = await prisma.taskTemplate.findFirst({
     where: { boardId, name: name.trim() },
@@ -0,0 +1,61 @@
+import { NextRequest, NextResponse } from "next/server";
+import { prisma } from "@/lib/prisma";
+import { getAuthUser } from "@/lib/mobile-auth";
+import { isAdmin } from "@/lib/permissions";
+import { timesheetToCsv } from "@/lib/time-tracking";
+import { getTimesheet, parseTimesheetRange } from "@/lib/timers";
+
+// GET /api/boards/[id]/timesheet - Time logged on a board's tasks
+// Query: from, to (yyyy-MM-dd, default this week), userId, format=csv
+export async function GET(
+  req: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const user = await getAuthUser(req);
+  if (!user) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  }
+
+  const { id: boardId } = await params;
+  const { searchParams } = new URL(req.url);
+
+  const board = await prisma.board.findUnique({
+    where: { id: boardId },
+    include: { members: true },
+  });
+
+  if (!board) {
+    return NextResponse.json({ error: "Board not found" }, { status: 404 });
+  }
+
+  // Team visibility lets anyone see the board, but logged hours stay with its members
+  const isMember = board.members.some((m) => m.userId === user.id);
+  if (!isMember && board.ownerId !== user.id && !isAdmin(user)) {
+    return NextResponse.json({ error: "Forbidden" }, { status: 403 });
+  }
+
+  const range = parseTimesheetRange(searchParams);
+  if (!range) {
+    return NextResponse.json({ error: "Invalid date range" }, { status: 400 });
+  }
+
+  const timesheet = await getTimesheet(
+    {
+      userId: searchParams.get("userId") || undefined,
+      task: { column: { boardId } },
+    },
+    range
+  );
+
+  if (searchParams.get("format") === "csv") {
+    const slug = board.name.toLowerCase().replace(/[^a-z0-9]+/g, "-").replace(/^-|-$/g, "") || "board";
+    return new NextResponse(timesheetToCsv(timesheet), {
+      headers: {
+        "Content-Type": "text/csv; charset=utf-8",
+        "Content-Disposition": `attachment; filename="${slug}-timesheet-${timesheet.from}-to-${timesheet.to}.csv"`,
+      },
+    });
+  }
+
+  return NextResponse.json(timesheet);
+}
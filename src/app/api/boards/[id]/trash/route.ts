@@ -0,0 +1,60 @@
+import { NextRequest, NextResponse } from "next/server";
+import { prisma } from "@/lib/prisma";
+import { getAuthUser } from "@/lib/mobile-auth";
+import { getPurgeDate, TRASH_RETENTION_DAYS, trashDeleterSelect } from "@/lib/trash";
+
+// GET /api/boards/[id]/trash - Tasks deleted from this board that can still be restored
+export async function GET(
+  req: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const user = await getAuthUser(req);
+  if (!user) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  }
+
+  const { id: boardId } = await params;
+
+  const board = await prisma.board.findUnique({
+    where: { id: boardId },
+    include: { members: true },
+  });
+
+  if (!board) {
+    return NextResponse.json({ error: "Board not found" }, { status: 404 });
+  }
+
+  const isMember = board.members.some((m) => m.userId === user.id);
+  if (!isMember && board.ownerId !== user.id) {
+    return NextResponse.json({ error: "Forbidden" }, { status: 403 });
+  }
+
+  const tasks = await prisma.task.findMany({
+    where: { column: { boardId }, deletedAt: { not: null } },
+    include: {
+      column: { select: { id: true, name: true } },
+      parent: { select: { id: true, title: true, deletedAt: true } },
+      deletedBy: trashDeleterSelect,
+    },
+    orderBy: { deletedAt: "desc" },
+  });
+
+  // Subtasks deleted along with their parent are restored with it, so only the parent is listed
+  const entries = tasks.filter(
+    (t) => !t.parent?.deletedAt || t.parent.deletedAt.getTime() !== t.deletedAt!.getTime()
+  );
+
+  return NextResponse.json({
+    retentionDays: TRASH_RETENTION_DAYS,
+    tasks: entries.map((t) => ({
+      id: t.id,
+      title: t.title,
+      column: t.column,
+      parent: t.parent && { id: t.parent.id, title: t.parent.title },
+      subtaskCount: tasks.filter((s) => s.parentId === t.id && s.deletedAt!.getTime() === t.deletedAt!.getTime()).length,
+      deletedAt: t.deletedAt,
+      deletedBy: t.deletedBy,
+      purgeAt: getPurgeDate(t.deletedAt!),
+    })),
+  });
+}
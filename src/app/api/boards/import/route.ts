@@ -0,0 +1,58 @@
+import { NextRequest, NextResponse } from "next/server";
+import { getAuthUser } from "@/lib/mobile-auth";
+import { BoardArchive, importBoard, validateBoardArchive } from "@/lib/board-archive";
+import { convertJiraCsv, convertTrelloBoard, IMPORT_SOURCES, ImportSource } from "@/lib/board-importers";
+
+// POST /api/boards/import - Create a board from an exported file
+// ?source=rhythm (default) takes our JSON archive, trello a Trello board JSON
+// export and jira a Jira issue CSV export.
+// With ?dryRun=1 the file is only validated and a preview is returned.
+export async function POST(req: NextRequest) {
+  const user = await getAuthUser(req);
+  if (!user) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  }
+
+  const source = (req.nextUrl.searchParams.get("source") || "rhythm") as ImportSource;
+  if (!IMPORT_SOURCES.includes(source)) {
+    return NextResponse.json({ error: `Unknown import source "${source}"` }, { status: 400 });
+  }
+
+  let data: unknown;
+  let unmapped: string[] = [];
+  try {
+    if (source === "jira") {
+      const converted = convertJiraCsv(await req.text(), user);
+      data = converted.archive;
+      unmapped = converted.unmapped;
+    } else if (source === "trello") {
+      const converted = convertTrelloBoard(await req.json(), user);
+      data = converted.archive;
+      unmapped = converted.unmapped;
+    } else {
+      data = await req.json();
+    }
+  } catch (error) {
+    const message = error instanceof SyntaxError ? "File is not valid JSON" : (error as Error).message;
+    return NextResponse.json({ error: message }, { status: 400 });
+  }
+
+  const dryRun = ["1", "true"].includes(req.nextUrl.searchParams.get("dryRun") || "");
+  const { errors, conflicts, summary } = await validateBoardArchive(data, user.id);
+
+  if (dryRun) {
+    return NextResponse.json({ valid: errors.length === 0, errors, conflicts, unmapped, summary });
+  }
+
+  if (errors.length > 0) {
+    return NextResponse.json({ error: "Archive is invalid", errors, conflicts, unmapped }, { status: 400 });
+  }
+
+  try {
+    const board = await importBoard(data as BoardArchive, user.id, conflicts);
+    return NextResponse.json({ board, conflicts, unmapped }, { status: 201 });
+  } catch (error) {
+    console.error("Board import failed:", error);
+    return NextResponse.json({ error: "Failed to import board" }, { status: 500 });
+  }
+}
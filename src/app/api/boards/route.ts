@@ -4,6 +4,7 @@ import { NextRequest, NextResponse } from "next/server";
 import { prisma } from "@/lib/prisma";
 import { isAdmin } from "@/lib/permissions";
 import { getTemplateById } from "@/lib/board-templates";
+import { createBoardFromTemplate, visibleTemplatesWhere } from "@/lib/saved-board-templates";
 import { getAuthUser } from "@/lib/mobile-auth";
 
 export async function GET(req: NextRequest) {
@@ -12,9 +13,14 @@ export async function GET(req: NextRequest) {
     return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
   }
 
+  // Archived boards are hidden unless asked for with ?archived=true
+  const { searchParams } = new URL(req.url);
+  const archivedAt = searchParams.get("archived") === "true" ? { not: null } : null;
+
   // System admins see all boards
   if (isAdmin(user)) {
     const boards = await prisma.board.findMany({
+      where: { archivedAt },
       include: {
         owner: { select: { id: true, name: true, email: true, image: true } },
         _count: { select: { columns: true, members: true } },
@@ -31,6 +37,7 @@ export async function GET(req: NextRequest) {
   // 4. Public boards
   const boards = await prisma.board.findMany({
     where: {
+      archivedAt,
       OR: [
         { ownerId: user.id },
         { members: { some: { userId: user.id } } },
@@ -70,13 +77,45 @@ export async function POST(req: NextRequest) {
     return NextResponse.json({ error: "Invalid visibility" }, { status: 400 });
   }
 
+  // Saved templates carry more than columns and labels, so they go through the archive import
+  if (templateId && !getTemplateById(templateId)) {
+    const saved = await prisma.boardTemplate.findFirst({
+      where: { id: templateId, ...visibleTemplatesWhere(user.id) },
+    });
+    if (!saved) {
+      return NextResponse.json({ error: "Template not found" }, { status: 404 });
+    }
+
+    try {
+      const result = await createBoardFromTemplate(saved, user, {
+        name: name.trim(),
+        description: description?.trim() || null,
+        visibility,
+      });
+      if ("error" in result) {
+        return NextResponse.json({ error: result.error }, { status: 422 });
+      }
+
+      const board = await prisma.board.findUnique({
+        where: { id: result.boardId },
+        include: {
+          owner: { select: { id: true, name: true, email: true, image: true } },
+          columns: { orderBy: { position: "asc" } },
+          members: { include: { user: true } },
+          labels: true,
+        },
+      });
+      console.log("[POST /api/boards] Board created:", result.boardId, "from saved template", saved.id);
+      return NextResponse.json(board);
+    } catch (error) {
+      console.error("[POST /api/boards] Error creating board from template:", error);
+      return NextResponse.json({ error: "Failed to create board", details: String(error) }, { status: 500 });
+    }
+  }
+
   // Get template config (default to blank template columns if no template)
   const template = templateId ? getTemplateById(templateId) : null;
-  const columns = template?.columns ?? [
-    { name: "To Do", color: "#6366f1" },
-    { name: "In Progress", color: "#f59e0b" },
-    { name: "Done", color: "#22c55e" },
-  ];
+  const columns = template?.columns ?? getTemplateById("blank")!.columns;
   const labels = template?.labels ?? [];
 
   try {
@@ -100,6 +139,7 @@ export async function POST(req: NextRequest) {
               name: col.name,
               position: index,
               color: col.color,
+              category: col.category,
             })),
           },
         },
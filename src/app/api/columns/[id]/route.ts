@@ -2,7 +2,12 @@ import { NextRequest, NextResponse } from "next/server";
 import { getServerSession } from "next-auth";
 import { authOptions } from "@/lib/auth";
 import { prisma } from "@/lib/prisma";
+import { isBoardArchived } from "@/lib/permissions";
 import { emitBoardEvent } from "@/lib/events";
+import { WIP_MODES, getColumnLoads, parseWipLimit } from "@/lib/wip-limits";
+import { isColumnCategory } from "@/lib/column-categories";
+import { isStaleWrite, parseExpectedVersion } from "@/lib/versioning";
+import type { WipMode } from "@/types";
 
 export async function PATCH(
   req: NextRequest,
@@ -14,10 +19,32 @@ export async function PATCH(
   }
 
   const { id } = await params;
-  const { name, color, position } = await req.json();
+  const body = await req.json();
+  const { name, color, position, wipMode, category } = body;
+
+  // The version the edit was based on; when it's stale the edit is refused
+  const expectedVersion = parseExpectedVersion(body.version);
+  if (expectedVersion === null) {
+    return NextResponse.json({ error: "Version must be a positive whole number" }, { status: 400 });
+  }
+
+  const wipLimit = parseWipLimit(body.wipLimit);
+  const wipLimitPerAssignee = parseWipLimit(body.wipLimitPerAssignee);
+  if (
+    (body.wipLimit !== undefined && wipLimit === undefined) ||
+    (body.wipLimitPerAssignee !== undefined && wipLimitPerAssignee === undefined)
+  ) {
+    return NextResponse.json({ error: "WIP limits must be positive whole numbers" }, { status: 400 });
+  }
+  if (wipMode !== undefined && !WIP_MODES.includes(wipMode as WipMode)) {
+    return NextResponse.json({ error: "Invalid WIP mode" }, { status: 400 });
+  }
+  if (category !== undefined && !isColumnCategory(category)) {
+    return NextResponse.json({ error: "Invalid column category" }, { status: 400 });
+  }
 
   const column = await prisma.column.findFirst({
-    where: { id },
+    where: { id, board: { deletedAt: null } },
     include: { board: { include: { members: true } } },
   });
 
@@ -30,45 +57,79 @@ export async function PATCH(
     return NextResponse.json({ error: "Forbidden" }, { status: 403 });
   }
 
-  // Handle position update (reordering)
-  if (position !== undefined && position !== column.position) {
-    const columns = await prisma.column.findMany({
-      where: { boardId: column.boardId },
-      orderBy: { position: "asc" },
-    });
+  if (isBoardArchived(column.board)) {
+    return NextResponse.json({ error: "Board is archived" }, { status: 403 });
+  }
 
-    const oldIndex = columns.findIndex((c) => c.id === id);
-    const newIndex = position;
+  const versionConflict = async () => {
+    const current = await prisma.column.findUnique({ where: { id } });
+    if (!current) {
+      return NextResponse.json({ error: "Column not found" }, { status: 404 });
+    }
+    return NextResponse.json(
+      { error: "This column was changed by someone else", code: "VERSION_CONFLICT", current },
+      { status: 409 }
+    );
+  };
 
-    // Reorder columns
-    const reordered = [...columns];
-    const [removed] = reordered.splice(oldIndex, 1);
-    reordered.splice(newIndex, 0, removed);
+  if (expectedVersion !== undefined && expectedVersion !== column.version) {
+    return versionConflict();
+  }
 
-    await prisma.$transaction(
-      reordered.map((col, idx) =>
-        prisma.column.update({
+  let updated;
+  try {
+    // One transaction, so a refused edit doesn't leave the columns reordered
+    updated = await prisma.$transaction(async (tx) => {
+      const result = await tx.column.update({
+        // Guarded by the version too, in case another edit landed since the check above
+        where: { id, ...(expectedVersion !== undefined && { version: expectedVersion }) },
+        data: {
+          ...(name && { name: name.trim() }),
+          ...(color && { color }),
+          ...(wipLimit !== undefined && { wipLimit }),
+          ...(wipLimitPerAssignee !== undefined && { wipLimitPerAssignee }),
+          ...(wipMode !== undefined && { wipMode }),
+          ...(category !== undefined && { category }),
+        },
+        include: { tasks: { where: { deletedAt: null }, include: { assignee: true } } },
+      });
+
+      // Handle position update (reordering)
+      if (position === undefined || position === column.position) return result;
+
+      const columns = await tx.column.findMany({
+        where: { boardId: column.boardId },
+        orderBy: { position: "asc" },
+      });
+
+      const oldIndex = columns.findIndex((c) => c.id === id);
+      const newIndex = position;
+
+      // Reorder columns
+      const reordered = [...columns];
+      const [removed] = reordered.splice(oldIndex, 1);
+      reordered.splice(newIndex, 0, removed);
+
+      for (const [idx, col] of reordered.entries()) {
+        await tx.column.update({
           where: { id: col.id },
           data: { position: idx },
-        })
-      )
-    );
+        });
+      }
+      return { ...result, position: reordered.indexOf(removed) };
+    });
+  } catch (error) {
+    if (isStaleWrite(error)) return versionConflict();
+    throw error;
   }
 
-  const updated = await prisma.column.update({
-    where: { id },
-    data: {
-      ...(name && { name: name.trim() }),
-      ...(color && { color }),
-    },
-    include: { tasks: { include: { assignee: true } } },
-  });
-
   // Emit real-time event
+  const [load] = await getColumnLoads([id]);
   emitBoardEvent(column.boardId, {
     type: "column:updated",
     column: updated,
     userId: session.user.id,
+    load,
   });
 
   return NextResponse.json(updated);
@@ -86,7 +147,7 @@ export async function DELETE(
   const { id } = await params;
 
   const column = await prisma.column.findFirst({
-    where: { id },
+    where: { id, board: { deletedAt: null } },
     include: { board: { include: { members: true } } },
   });
 
@@ -99,6 +160,10 @@ export async function DELETE(
     return NextResponse.json({ error: "Forbidden" }, { status: 403 });
   }
 
+  if (isBoardArchived(column.board)) {
+    return NextResponse.json({ error: "Board is archived" }, { status: 403 });
+  }
+
   const boardId = column.boardId;
   await prisma.column.delete({ where: { id } });
 
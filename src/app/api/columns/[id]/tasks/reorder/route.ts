@@ -1,8 +1,17 @@
 import { NextRequest, NextResponse } from "next/server";
 import { getAuthUser } from "@/lib/auth";
 import { prisma } from "@/lib/prisma";
+import { isBoardArchived } from "@/lib/permissions";
+import { emitBoardEvent } from "@/lib/events";
+import { checkWipLimits, getColumnLoads } from "@/lib/wip-limits";
+import { getCategoryTaskUpdates, isTaskFinished } from "@/lib/column-categories";
+import { checkDependencyPolicy, isGatedChange, notifyBlockersFinished } from "@/lib/dependencies";
+import { reorderTasks, withColumnLock } from "@/lib/task-order";
 
 // POST /api/columns/[id]/tasks/reorder - Reorder tasks in a column
+// Tasks listed here that currently live in another column are moved into it.
+// Listed tasks go first in the given order, the rest keep theirs after them;
+// concurrent reorders apply in turn, so the last one wins.
 export async function POST(
   req: NextRequest,
   { params }: { params: Promise<{ id: string }> }
@@ -21,9 +30,9 @@ export async function POST(
 
   // Verify column exists and user has access
   const column = await prisma.column.findFirst({
-    where: { id: columnId },
+    where: { id: columnId, board: { deletedAt: null } },
     include: {
-      board: { select: { members: true } },
+      board: { select: { archivedAt: true, enforceDependencies: true, members: true } },
     },
   });
 
@@ -36,15 +45,89 @@ export async function POST(
     return NextResponse.json({ error: "Forbidden" }, { status: 403 });
   }
 
-  // Update positions in a transaction
-  await prisma.$transaction(
-    taskIds.map((taskId: string, index: number) =>
-      prisma.task.update({
-        where: { id: taskId },
-        data: { position: index },
-      })
-    )
-  );
+  if (isBoardArchived(column.board)) {
+    return NextResponse.json({ error: "Board is archived" }, { status: 403 });
+  }
+
+  const tasks = await prisma.task.findMany({
+    where: { id: { in: taskIds } },
+    select: {
+      id: true,
+      columnId: true,
+      parentId: true,
+      assigneeId: true,
+      completed: true,
+      archived: true,
+      column: { select: { boardId: true, category: true } },
+    },
+  });
+
+  if (tasks.some((t) => t.column.boardId !== column.boardId)) {
+    return NextResponse.json({ error: "Tasks must belong to this board" }, { status: 400 });
+  }
+
+  // Subtasks follow their parent and are ordered separately
+  const topLevel = tasks.filter((t) => !t.parentId);
+  const incoming = topLevel.filter((t) => t.columnId !== columnId);
+  if (isGatedChange(column.category)) {
+    const policy = await checkDependencyPolicy(column.board, incoming.map((t) => t.id));
+    if (policy.blocked) {
+      return NextResponse.json({ error: policy.message, code: "BLOCKED_BY_DEPENDENCIES" }, { status: 409 });
+    }
+  }
+
+  // Incoming tasks take on the column's category
+  const listed = (taskIds as string[]).filter((taskId) => topLevel.some((t) => t.id === taskId));
+  // Checked and moved under the column lock, so simultaneous moves can't overfill it
+  const { wip, order } = await withColumnLock(columnId, async (tx) => {
+    const wip = await checkWipLimits(
+      column,
+      incoming.map((t) => ({ id: t.id, assigneeId: t.assigneeId })),
+      tx
+    );
+    if (wip.blocked) return { wip, order: null };
 
-  return NextResponse.json({ success: true });
+    const order = await reorderTasks(
+      columnId,
+      (currentIds) => [...listed, ...currentIds.filter((taskId) => !listed.includes(taskId))],
+      {
+        data: (taskId) => {
+          const moved = incoming.find((t) => t.id === taskId);
+          return moved && getCategoryTaskUpdates(column.category, moved);
+        },
+        tx,
+      }
+    );
+    return { wip, order };
+  });
+
+  if (!order) {
+    return NextResponse.json({ error: wip.message, code: "WIP_LIMIT" }, { status: 409 });
+  }
+
+  if (incoming.length > 0) {
+    const loads = await getColumnLoads([columnId, ...incoming.map((t) => t.columnId)]);
+    for (const task of incoming) {
+      emitBoardEvent(column.boardId, {
+        type: "task:moved",
+        taskId: task.id,
+        columnId,
+        position: order.indexOf(task.id),
+        userId: user.id,
+        loads,
+      });
+    }
+
+    const finished = incoming.filter(
+      (t) => !isTaskFinished(t) && isTaskFinished({ ...t, ...getCategoryTaskUpdates(column.category, t), column })
+    );
+    await notifyBlockersFinished(finished.map((t) => t.id), user.id);
+  }
+
+  return NextResponse.json({
+    success: true,
+    taskIds: order,
+    // Over the limit in "warn" mode: moved, with a heads-up
+    ...(wip.exceeded && { wipWarning: wip.message }),
+  });
 }
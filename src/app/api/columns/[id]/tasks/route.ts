@@ -1,7 +1,10 @@
 import { NextRequest, NextResponse } from "next/server";
 import { prisma } from "@/lib/prisma";
+import { isBoardArchived } from "@/lib/permissions";
 import { emitBoardEvent } from "@/lib/events";
 import { createAndEmitActivity } from "@/lib/activity";
+import { checkWipLimits } from "@/lib/wip-limits";
+import { withColumnLock } from "@/lib/task-order";
 import { getAuthUser } from "@/lib/mobile-auth";
 
 export async function GET(
@@ -29,6 +32,7 @@ export async function GET(
       createdBy: true,
       labels: true,
       subtasks: {
+        where: { deletedAt: null },
         select: { id: true, completed: true },
       },
     },
@@ -54,7 +58,7 @@ export async function POST(
   }
 
   const column = await prisma.column.findFirst({
-    where: { id },
+    where: { id, board: { deletedAt: null } },
     include: { board: { include: { members: true } } },
   });
 
@@ -67,38 +71,55 @@ export async function POST(
     return NextResponse.json({ error: "Forbidden" }, { status: 403 });
   }
 
-  const maxPosition = await prisma.task.aggregate({
-    where: { columnId: id },
-    _max: { position: true },
-  });
+  if (isBoardArchived(column.board)) {
+    return NextResponse.json({ error: "Board is archived" }, { status: 403 });
+  }
 
-  const task = await prisma.task.create({
-    data: {
-      columnId: id,
-      title: title.trim(),
-      description: description?.trim() || null,
-      priority: priority || "medium",
-      dueDate: dueDate ? new Date(dueDate) : null,
-      assigneeId: assigneeId || null,
-      createdById: user.id,
-      position: (maxPosition._max.position ?? -1) + 1,
-      parentId: parentId || null,
-      ...(labelIds && labelIds.length > 0 && {
-        labels: {
-          connect: labelIds.map((id: string) => ({ id })),
+  // Checked and created under the column lock, so simultaneous creates can't overfill it
+  const { wip, task } = await withColumnLock(id, async (tx) => {
+    // Subtasks don't occupy a slot in the column
+    const wip = parentId ? null : await checkWipLimits(column, [{ id: "", assigneeId: assigneeId || null }], tx);
+    if (wip?.blocked) return { wip, task: null };
+
+    const maxPosition = await tx.task.aggregate({
+      where: { columnId: id },
+      _max: { position: true },
+    });
+
+    const task = await tx.task.create({
+      data: {
+        columnId: id,
+        title: title.trim(),
+        description: description?.trim() || null,
+        priority: priority || "medium",
+        dueDate: dueDate ? new Date(dueDate) : null,
+        assigneeId: assigneeId || null,
+        createdById: user.id,
+        position: (maxPosition._max.position ?? -1) + 1,
+        parentId: parentId || null,
+        ...(labelIds && labelIds.length > 0 && {
+          labels: {
+            connect: labelIds.map((id: string) => ({ id })),
+          },
+        }),
+      },
+      include: {
+        assignee: true,
+        createdBy: true,
+        labels: true,
+        subtasks: {
+          where: { deletedAt: null },
+          select: { id: true, completed: true },
         },
-      }),
-    },
-    include: {
-      assignee: true,
-      createdBy: true,
-      labels: true,
-      subtasks: {
-        select: { id: true, completed: true },
       },
-    },
+    });
+    return { wip, task };
   });
 
+  if (!task) {
+    return NextResponse.json({ error: wip?.message, code: "WIP_LIMIT" }, { status: 409 });
+  }
+
   // Create activity and emit to subscribers
   await createAndEmitActivity(task.id, user.id, "created", { title: task.title });
 
@@ -109,5 +130,6 @@ export async function POST(
     userId: user.id,
   });
 
-  return NextResponse.json(task);
+  // Over the limit in "warn" mode: created, with a heads-up
+  return NextResponse.json({ ...task, ...(wip?.exceeded && { wipWarning: wip.message }) });
 }
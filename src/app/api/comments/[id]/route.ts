@@ -1,6 +1,7 @@
 import { NextRequest, NextResponse } from "next/server";
 import { getAuthUser } from "@/lib/auth";
 import { prisma } from "@/lib/prisma";
+import { isBoardArchived } from "@/lib/permissions";
 
 // PATCH /api/comments/[id] - Update a comment
 export async function PATCH(
@@ -21,13 +22,13 @@ export async function PATCH(
 
   // Find comment
   const comment = await prisma.comment.findFirst({
-    where: { id: commentId },
+    where: { id: commentId, task: { deletedAt: null, column: { board: { deletedAt: null } } } },
     include: {
       task: {
         include: {
           column: {
             include: {
-              board: { select: { members: true } },
+              board: { select: { archivedAt: true, members: true } },
             },
           },
         },
@@ -44,6 +45,10 @@ export async function PATCH(
     return NextResponse.json({ error: "Forbidden" }, { status: 403 });
   }
 
+  if (isBoardArchived(comment.task.column.board)) {
+    return NextResponse.json({ error: "Board is archived" }, { status: 403 });
+  }
+
   const updated = await prisma.comment.update({
     where: { id: commentId },
     data: { content: content.trim() },
@@ -67,13 +72,13 @@ export async function DELETE(
 
   // Find comment
   const comment = await prisma.comment.findFirst({
-    where: { id: commentId },
+    where: { id: commentId, task: { deletedAt: null, column: { board: { deletedAt: null } } } },
     include: {
       task: {
         include: {
           column: {
             include: {
-              board: { select: { ownerId: true, members: true } },
+              board: { select: { ownerId: true, archivedAt: true, members: true } },
             },
           },
         },
@@ -93,6 +98,10 @@ export async function DELETE(
     return NextResponse.json({ error: "Forbidden" }, { status: 403 });
   }
 
+  if (isBoardArchived(comment.task.column.board)) {
+    return NextResponse.json({ error: "Board is archived" }, { status: 403 });
+  }
+
   await prisma.comment.delete({ where: { id: commentId } });
 
   return NextResponse.json({ success: true });
@@ -3,6 +3,7 @@ import { getServerSession } from "next-auth";
 import { authOptions } from "@/lib/auth";
 import { prisma } from "@/lib/prisma";
 import { subDays, startOfDay, endOfDay, addDays, format } from "date-fns";
+import { isClosedCategory } from "@/lib/column-categories";
 
 export async function GET() {
   const session = await getServerSession(authOptions);
@@ -37,7 +38,9 @@ export async function GET() {
   });
 
   // Stats calculations
-  const incompleteTasks = allTasks.filter((t) => !t.completed);
+  const incompleteTasks = allTasks.filter(
+    (t) => !t.completed && !isClosedCategory(t.column.category)
+  );
   const overdueTasks = incompleteTasks.filter(
     (t) => t.dueDate && new Date(t.dueDate) < today
   );
@@ -61,7 +64,7 @@ export async function GET() {
     },
   });
 
-  // Task distribution by status (using column names as proxy for status)
+  // Task distribution by status (from the category of each task's column)
   const statusDistribution = {
     todo: 0,
     inProgress: 0,
@@ -69,14 +72,12 @@ export async function GET() {
   };
 
   allTasks.forEach((task) => {
-    const colName = task.column.name.toLowerCase();
-    if (task.completed || colName.includes("done") || colName.includes("complete")) {
+    const category = task.column.category;
+    if (task.completed || category === "done") {
       statusDistribution.done++;
-    } else if (
-      colName.includes("progress") ||
-      colName.includes("doing") ||
-      colName.includes("review")
-    ) {
+    } else if (category === "cancelled") {
+      return;
+    } else if (category === "started") {
       statusDistribution.inProgress++;
     } else {
       statusDistribution.todo++;
@@ -183,6 +184,7 @@ export async function GET() {
   const recentActivity = await prisma.activity.findMany({
     where: {
       userId,
+      task: { deletedAt: null, column: { board: { deletedAt: null } } },
     },
     include: {
       task: {
@@ -214,14 +216,14 @@ export async function GET() {
 
   // Board overview - all boards user is member of
   const boardMemberships = await prisma.boardMember.findMany({
-    where: { userId },
+    where: { userId, board: { archivedAt: null, deletedAt: null } },
     include: {
       board: {
         include: {
           columns: {
             include: {
               tasks: {
-                where: { parentId: null },
+                where: { parentId: null, deletedAt: null },
                 select: {
                   id: true,
                   completed: true,
@@ -237,10 +239,12 @@ export async function GET() {
   });
 
   const boardOverview = boardMemberships.map((membership) => {
-    const allBoardTasks = membership.board.columns.flatMap((c) => c.tasks);
+    const allBoardTasks = membership.board.columns.flatMap((c) =>
+      c.tasks.map((t) => ({ ...t, category: c.category }))
+    );
     const myTasks = allBoardTasks.filter((t) => t.assigneeId === userId);
-    const openTasks = myTasks.filter((t) => !t.completed).length;
-    const completedTasks = myTasks.filter((t) => t.completed).length;
+    const openTasks = myTasks.filter((t) => !t.completed && !isClosedCategory(t.category)).length;
+    const completedTasks = myTasks.filter((t) => t.completed || t.category === "done").length;
     const lastActivity = allBoardTasks
       .filter((t) => t.assigneeId === userId)
       .sort(
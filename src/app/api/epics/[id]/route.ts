@@ -0,0 +1,136 @@
+import { NextRequest, NextResponse } from "next/server";
+import { prisma } from "@/lib/prisma";
+import { getAuthUser } from "@/lib/mobile-auth";
+import { isAdmin } from "@/lib/permissions";
+import { EPIC_STATUSES, epicChildSelect, epicChildrenWhere, epicCreatorSelect, getEpicProgress } from "@/lib/epics";
+import type { EpicStatus } from "@/types";
+
+// GET /api/epics/[id] - An epic with its children on boards the user can see
+export async function GET(
+  req: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const user = await getAuthUser(req);
+  if (!user) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  }
+
+  const { id } = await params;
+
+  const epic = await prisma.epic.findUnique({
+    where: { id },
+    include: { createdBy: epicCreatorSelect },
+  });
+
+  if (!epic) {
+    return NextResponse.json({ error: "Epic not found" }, { status: 404 });
+  }
+
+  const tasks = await prisma.task.findMany({
+    where: epicChildrenWhere(id, user),
+    select: {
+      ...epicChildSelect,
+      id: true,
+      title: true,
+      priority: true,
+      assignee: { select: { id: true, name: true, email: true, image: true } },
+      column: {
+        select: {
+          id: true,
+          name: true,
+          category: true,
+          position: true,
+          board: { select: { id: true, name: true } },
+        },
+      },
+    },
+    orderBy: [{ column: { position: "asc" } }, { position: "asc" }],
+  });
+
+  return NextResponse.json({
+    ...epic,
+    progress: getEpicProgress(tasks, epic),
+    tasks,
+  });
+}
+
+// PATCH /api/epics/[id] - Update an epic (creator or admin)
+export async function PATCH(
+  req: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const user = await getAuthUser(req);
+  if (!user) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  }
+
+  const { id } = await params;
+  const epic = await prisma.epic.findUnique({ where: { id } });
+
+  if (!epic) {
+    return NextResponse.json({ error: "Epic not found" }, { status: 404 });
+  }
+  if (epic.createdById !== user.id && !isAdmin(user)) {
+    return NextResponse.json({ error: "Forbidden" }, { status: 403 });
+  }
+
+  const { title, description, color, status, startDate, dueDate } = await req.json();
+
+  if (title !== undefined && !title?.trim()) {
+    return NextResponse.json({ error: "Title is required" }, { status: 400 });
+  }
+  if (status !== undefined && !EPIC_STATUSES.includes(status as EpicStatus)) {
+    return NextResponse.json({ error: "Invalid status" }, { status: 400 });
+  }
+
+  const nextStart = startDate !== undefined ? (startDate ? new Date(startDate) : null) : epic.startDate;
+  const nextDue = dueDate !== undefined ? (dueDate ? new Date(dueDate) : null) : epic.dueDate;
+  if (nextStart && nextDue && nextDue < nextStart) {
+    return NextResponse.json({ error: "Due date must be after the start date" }, { status: 400 });
+  }
+
+  const updated = await prisma.epic.update({
+    where: { id },
+    data: {
+      ...(title !== undefined && { title: title.trim() }),
+      ...(description !== undefined && { description: description?.trim() || null }),
+      ...(color && { color }),
+      ...(status !== undefined && { status }),
+      ...(startDate !== undefined && { startDate: nextStart }),
+      ...(dueDate !== undefined && { dueDate: nextDue }),
+    },
+    include: { createdBy: epicCreatorSelect },
+  });
+
+  const children = await prisma.task.findMany({
+    where: epicChildrenWhere(id, user),
+    select: epicChildSelect,
+  });
+
+  return NextResponse.json({ ...updated, progress: getEpicProgress(children, updated) });
+}
+
+// DELETE /api/epics/[id] - Delete an epic; its tasks stay on their boards (creator or admin)
+export async function DELETE(
+  req: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const user = await getAuthUser(req);
+  if (!user) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  }
+
+  const { id } = await params;
+  const epic = await prisma.epic.findUnique({ where: { id } });
+
+  if (!epic) {
+    return NextResponse.json({ error: "Epic not found" }, { status: 404 });
+  }
+  if (epic.createdById !== user.id && !isAdmin(user)) {
+    return NextResponse.json({ error: "Forbidden" }, { status: 403 });
+  }
+
+  await prisma.epic.delete({ where: { id } });
+
+  return NextResponse.json({ success: true });
+}
@@ -0,0 +1,66 @@
+import { NextRequest, NextResponse } from "next/server";
+import { prisma } from "@/lib/prisma";
+import { getAuthUser } from "@/lib/mobile-auth";
+import { EPIC_STATUSES, epicChildSelect, epicChildrenWhere, epicCreatorSelect, getEpicProgress } from "@/lib/epics";
+import type { EpicStatus } from "@/types";
+
+// GET /api/epics - List epics with progress rolled up from the children the user can see
+export async function GET(req: NextRequest) {
+  const user = await getAuthUser(req);
+  if (!user) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  }
+
+  const { searchParams } = new URL(req.url);
+  const status = searchParams.get("status");
+
+  const epics = await prisma.epic.findMany({
+    where: EPIC_STATUSES.includes(status as EpicStatus) ? { status: status as EpicStatus } : {},
+    include: { createdBy: epicCreatorSelect },
+    orderBy: [{ status: "desc" }, { dueDate: { sort: "asc", nulls: "last" } }, { createdAt: "desc" }],
+  });
+
+  const children = await prisma.task.findMany({
+    where: epicChildrenWhere({ in: epics.map((e) => e.id) }, user),
+    select: { epicId: true, ...epicChildSelect },
+  });
+
+  return NextResponse.json(
+    epics.map((epic) => ({
+      ...epic,
+      progress: getEpicProgress(children.filter((t) => t.epicId === epic.id), epic),
+    }))
+  );
+}
+
+// POST /api/epics - Create an epic
+export async function POST(req: NextRequest) {
+  const user = await getAuthUser(req);
+  if (!user) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  }
+
+  const { title, description, color, startDate, dueDate } = await req.json();
+
+  if (!title?.trim()) {
+    return NextResponse.json({ error: "Title is required" }, { status: 400 });
+  }
+
+  if (startDate && dueDate && new Date(dueDate) < new Date(startDate)) {
+    return NextResponse.json({ error: "Due date must be after the start date" }, { status: 400 });
+  }
+
+  const epic = await prisma.epic.create({
+    data: {
+      title: title.trim(),
+      description: description?.trim() || null,
+      ...(color && { color }),
+      startDate: startDate ? new Date(startDate) : null,
+      dueDate: dueDate ? new Date(dueDate) : null,
+      createdById: user.id,
+    },
+    include: { createdBy: epicCreatorSelect },
+  });
+
+  return NextResponse.json({ ...epic, progress: getEpicProgress([], epic) });
+}
@@ -2,6 +2,7 @@ import { NextRequest, NextResponse } from "next/server";
 import { getServerSession } from "next-auth";
 import { authOptions } from "@/lib/auth";
 import { prisma } from "@/lib/prisma";
+import { CLOSED_CATEGORIES, isClosedCategory } from "@/lib/column-categories";
 
 export async function GET(req: NextRequest) {
   const session = await getServerSession(authOptions);
@@ -23,8 +24,9 @@ export async function GET(req: NextRequest) {
 
   if (status === "incomplete") {
     where.completed = false;
+    where.column = { category: { notIn: CLOSED_CATEGORIES } };
   } else if (status === "completed") {
-    where.completed = true;
+    where.OR = [{ completed: true }, { column: { category: { in: CLOSED_CATEGORIES } } }];
   }
 
   if (dueDateFrom || dueDateTo) {
@@ -53,6 +55,7 @@ export async function GET(req: NextRequest) {
       },
       assignee: true,
       subtasks: {
+        where: { deletedAt: null },
         select: {
           id: true,
           completed: true,
@@ -79,9 +82,10 @@ export async function GET(req: NextRequest) {
     description: task.description,
     priority: task.priority,
     dueDate: task.dueDate,
-    completed: task.completed,
+    completed: task.completed || isClosedCategory(task.column.category),
     columnId: task.columnId,
     columnName: task.column.name,
+    columnCategory: task.column.category,
     boardId: task.column.board.id,
     boardName: task.column.board.name,
     assignee: task.assignee,
@@ -1,7 +1,36 @@
 import { NextRequest, NextResponse } from "next/server";
 import { getAuthUser } from "@/lib/auth";
 import { prisma } from "@/lib/prisma";
+import { isBoardArchived } from "@/lib/permissions";
 import { createAndEmitActivity } from "@/lib/activity";
+import { trashTask } from "@/lib/trash";
+import { isValidPoints } from "@/lib/story-points";
+import { isStaleWrite, parseExpectedVersion } from "@/lib/versioning";
+
+type SubtaskRow = {
+  id: string;
+  title: string;
+  completed: boolean;
+  storyPoints: number | null;
+  position: number;
+  version: number;
+  createdAt: Date;
+  updatedAt: Date;
+};
+
+function toSubtaskResponse(subtask: SubtaskRow, taskId: string) {
+  return {
+    id: subtask.id,
+    taskId,
+    title: subtask.title,
+    completed: subtask.completed,
+    storyPoints: subtask.storyPoints,
+    position: subtask.position,
+    version: subtask.version,
+    createdAt: subtask.createdAt.toISOString(),
+    updatedAt: subtask.updatedAt.toISOString(),
+  };
+}
 
 // PATCH /api/subtasks/[id] - Update a subtask
 export async function PATCH(
@@ -16,6 +45,12 @@ export async function PATCH(
   const { id: subtaskId } = await params;
   const body = await req.json();
 
+  // The version the edit was based on; when it's stale the edit is refused
+  const expectedVersion = parseExpectedVersion(body.version);
+  if (expectedVersion === null) {
+    return NextResponse.json({ error: "Version must be a positive whole number" }, { status: 400 });
+  }
+
   // Find subtask and verify access
   const subtask = await prisma.task.findFirst({
     where: { id: subtaskId },
@@ -23,7 +58,7 @@ export async function PATCH(
       parent: true,
       column: {
         include: {
-          board: { select: { members: true } },
+          board: { select: { archivedAt: true, pointScale: true, members: true } },
         },
       },
     },
@@ -43,23 +78,59 @@ export async function PATCH(
     return NextResponse.json({ error: "Forbidden" }, { status: 403 });
   }
 
+  if (isBoardArchived(subtask.column.board)) {
+    return NextResponse.json({ error: "Board is archived" }, { status: 403 });
+  }
+
   // Build update data
-  const updateData: { title?: string; completed?: boolean } = {};
+  const updateData: { title?: string; completed?: boolean; storyPoints?: number | null } = {};
   if (typeof body.title === "string") {
     updateData.title = body.title.trim();
   }
   if (typeof body.completed === "boolean") {
     updateData.completed = body.completed;
   }
+  if (body.storyPoints !== undefined) {
+    if (body.storyPoints !== null && !isValidPoints(subtask.column.board.pointScale, body.storyPoints)) {
+      return NextResponse.json({ error: "Story points must be a value on the board's scale" }, { status: 400 });
+    }
+    updateData.storyPoints = body.storyPoints;
+  }
 
   if (Object.keys(updateData).length === 0) {
     return NextResponse.json({ error: "No valid fields to update" }, { status: 400 });
   }
 
-  const updated = await prisma.task.update({
-    where: { id: subtaskId },
-    data: updateData,
-  });
+  const versionConflict = async () => {
+    const current = await prisma.task.findFirst({ where: { id: subtaskId } });
+    if (!current) {
+      return NextResponse.json({ error: "Subtask not found" }, { status: 404 });
+    }
+    return NextResponse.json(
+      {
+        error: "This subtask was changed by someone else",
+        code: "VERSION_CONFLICT",
+        current: toSubtaskResponse(current, subtask.parentId!),
+      },
+      { status: 409 }
+    );
+  };
+
+  if (expectedVersion !== undefined && expectedVersion !== subtask.version) {
+    return versionConflict();
+  }
+
+  let updated;
+  try {
+    updated = await prisma.task.update({
+      // Guarded by the version too, in case another edit landed since the check above
+      where: { id: subtaskId, ...(expectedVersion !== undefined && { version: expectedVersion }) },
+      data: updateData,
+    });
+  } catch (error) {
+    if (isStaleWrite(error)) return versionConflict();
+    throw error;
+  }
 
   // Log activity on parent task
   if (body.completed !== undefined && subtask.parentId) {
@@ -71,15 +142,7 @@ export async function PATCH(
     );
   }
 
-  return NextResponse.json({
-    id: updated.id,
-    taskId: subtask.parentId,
-    title: updated.title,
-    completed: updated.completed,
-    position: updated.position,
-    createdAt: updated.createdAt.toISOString(),
-    updatedAt: updated.updatedAt.toISOString(),
-  });
+  return NextResponse.json(toSubtaskResponse(updated, subtask.parentId));
 }
 
 // DELETE /api/subtasks/[id] - Delete a subtask
@@ -100,7 +163,7 @@ export async function DELETE(
     include: {
       column: {
         include: {
-          board: { select: { members: true } },
+          board: { select: { archivedAt: true, members: true } },
         },
       },
     },
@@ -120,10 +183,14 @@ export async function DELETE(
     return NextResponse.json({ error: "Forbidden" }, { status: 403 });
   }
 
+  if (isBoardArchived(subtask.column.board)) {
+    return NextResponse.json({ error: "Board is archived" }, { status: 403 });
+  }
+
   const parentId = subtask.parentId;
   const title = subtask.title;
 
-  await prisma.task.delete({ where: { id: subtaskId } });
+  await trashTask(subtaskId, user.id);
 
   // Log activity on parent task
   await createAndEmitActivity(parentId, user.id, "deleted_subtask", {
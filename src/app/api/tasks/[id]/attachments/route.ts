@@ -2,6 +2,7 @@ import { NextRequest, NextResponse } from "next/server";
 import { getServerSession } from "next-auth";
 import { authOptions } from "@/lib/auth";
 import { prisma } from "@/lib/prisma";
+import { isBoardArchived } from "@/lib/permissions";
 import { createAndEmitActivity } from "@/lib/activity";
 import { uploadToR2, deleteFromR2, getR2KeyFromUrl } from "@/lib/r2";
 import { v4 as uuid } from "uuid";
@@ -86,12 +87,17 @@ export async function POST(
         board: { members: { some: { userId: session.user.id } } },
       },
     },
+    include: { column: { select: { board: { select: { archivedAt: true } } } } },
   });
 
   if (!task) {
     return NextResponse.json({ error: "Task not found" }, { status: 404 });
   }
 
+  if (isBoardArchived(task.column.board)) {
+    return NextResponse.json({ error: "Board is archived" }, { status: 403 });
+  }
+
   const formData = await req.formData();
   const file = formData.get("file") as File | null;
 
@@ -181,12 +187,17 @@ export async function DELETE(
         board: { members: { some: { userId: session.user.id } } },
       },
     },
+    include: { column: { select: { board: { select: { archivedAt: true } } } } },
   });
 
   if (!task) {
     return NextResponse.json({ error: "Task not found" }, { status: 404 });
   }
 
+  if (isBoardArchived(task.column.board)) {
+    return NextResponse.json({ error: "Board is archived" }, { status: 403 });
+  }
+
   const attachment = await prisma.attachment.findFirst({
     where: { id: attachmentId, taskId },
   });
@@ -199,9 +210,12 @@ export async function DELETE(
   }
 
   try {
-    // Delete file from R2
+    // Delete file from R2, unless another attachment still uses it
     const r2Key = getR2KeyFromUrl(attachment.url);
-    if (r2Key) {
+    const sharedWith = await prisma.attachment.count({
+      where: { url: attachment.url, id: { not: attachmentId } },
+    });
+    if (r2Key && sharedWith === 0) {
       try {
         await deleteFromR2(r2Key);
       } catch {
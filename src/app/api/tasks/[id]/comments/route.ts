@@ -1,5 +1,6 @@
 import { NextRequest, NextResponse } from "next/server";
 import { prisma } from "@/lib/prisma";
+import { isBoardArchived } from "@/lib/permissions";
 import { getAuthUser } from "@/lib/mobile-auth";
 import { notifyComment, notifyMentioned, parseMentions } from "@/lib/notifications";
 import { createAndEmitActivity } from "@/lib/activity";
@@ -69,6 +70,10 @@ export async function POST(
     return NextResponse.json({ error: "Forbidden" }, { status: 403 });
   }
 
+  if (isBoardArchived(task.column.board)) {
+    return NextResponse.json({ error: "Board is archived" }, { status: 403 });
+  }
+
   const comment = await prisma.comment.create({
     data: {
       taskId: id,
@@ -3,6 +3,9 @@ import { getServerSession } from "next-auth";
 import { authOptions } from "@/lib/auth";
 import { prisma } from "@/lib/prisma";
 import { emitBoardEvent } from "@/lib/events";
+import { isBoardArchived } from "@/lib/permissions";
+import { findDependencyCycle, isValidLag } from "@/lib/dependencies";
+import { rescheduleDependents } from "@/lib/schedule";
 
 // GET /api/tasks/[id]/dependencies - List dependencies for a task
 export async function GET(
@@ -26,6 +29,7 @@ export async function GET(
     },
     include: {
       blockedBy: {
+        where: { blockedBy: { deletedAt: null } },
         include: {
           blockedBy: {
             select: {
@@ -40,6 +44,7 @@ export async function GET(
         },
       },
       blocking: {
+        where: { task: { deletedAt: null } },
         include: {
           task: {
             select: {
@@ -77,7 +82,7 @@ export async function POST(
   }
 
   const { id: taskId } = await params;
-  const { blockedById } = await req.json();
+  const { blockedById, lagDays = 0 } = await req.json();
 
   if (!blockedById) {
     return NextResponse.json(
@@ -86,6 +91,13 @@ export async function POST(
     );
   }
 
+  if (!isValidLag(lagDays)) {
+    return NextResponse.json(
+      { error: "lagDays must be a whole number of days" },
+      { status: 400 }
+    );
+  }
+
   // Can't depend on itself
   if (taskId === blockedById) {
     return NextResponse.json(
@@ -103,7 +115,7 @@ export async function POST(
       },
     },
     include: {
-      column: { include: { board: { select: { id: true } } } },
+      column: { include: { board: { select: { id: true, archivedAt: true, autoSchedule: true } } } },
     },
   });
 
@@ -115,7 +127,7 @@ export async function POST(
       },
     },
     include: {
-      column: { include: { board: { select: { id: true } } } },
+      column: { include: { board: { select: { id: true, archivedAt: true } } } },
     },
   });
 
@@ -123,6 +135,10 @@ export async function POST(
     return NextResponse.json({ error: "Task not found" }, { status: 404 });
   }
 
+  if (isBoardArchived(task.column.board)) {
+    return NextResponse.json({ error: "Board is archived" }, { status: 403 });
+  }
+
   // Verify both tasks are on the same board
   if (task.column.board.id !== blockerTask.column.board.id) {
     return NextResponse.json(
@@ -131,28 +147,14 @@ export async function POST(
     );
   }
 
-  // Check for reverse dependency (circular)
-  const reverseExists = await prisma.taskDependency.findUnique({
-    where: {
-      taskId_blockedById: {
-        taskId: blockedById,
-        blockedById: taskId,
-      },
-    },
-  });
-
-  if (reverseExists) {
-    return NextResponse.json(
-      { error: "Circular dependency: the blocker task already depends on this task" },
-      { status: 400 }
-    );
-  }
-
-  // Check for indirect circular dependencies (A→B→C, can't add C→A)
-  const hasIndirectCircular = await checkCircularDependency(blockedById, taskId);
-  if (hasIndirectCircular) {
+  // Reject anything that would close a loop, however long the chain
+  const cycle = await findDependencyCycle(taskId, blockedById);
+  if (cycle) {
     return NextResponse.json(
-      { error: "Circular dependency: this would create a dependency cycle" },
+      {
+        error: `Circular dependency: ${cycle.map((title) => `"${title}"`).join(" → ")} (each task is blocked by the next)`,
+        cycle,
+      },
       { status: 400 }
     );
   }
@@ -176,6 +178,7 @@ export async function POST(
     data: {
       taskId,
       blockedById,
+      lagDays,
       createdById: session.user.id,
     },
     include: {
@@ -212,6 +215,94 @@ export async function POST(
     userId: session.user.id,
   });
 
+  await rescheduleDependents(task.column.board, blockedById, session.user.id);
+
+  return NextResponse.json(dependency);
+}
+
+// PATCH /api/tasks/[id]/dependencies - Change the lag on a dependency
+// Body: { blockedById, lagDays }
+export async function PATCH(
+  req: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const session = await getServerSession(authOptions);
+  if (!session?.user?.id) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  }
+
+  const { id: taskId } = await params;
+  const { blockedById, lagDays } = await req.json();
+
+  if (!blockedById) {
+    return NextResponse.json(
+      { error: "blockedById is required" },
+      { status: 400 }
+    );
+  }
+
+  if (!isValidLag(lagDays)) {
+    return NextResponse.json(
+      { error: "lagDays must be a whole number of days" },
+      { status: 400 }
+    );
+  }
+
+  const task = await prisma.task.findFirst({
+    where: {
+      id: taskId,
+      column: {
+        board: { members: { some: { userId: session.user.id } } },
+      },
+    },
+    include: {
+      column: { include: { board: { select: { id: true, archivedAt: true, autoSchedule: true } } } },
+    },
+  });
+
+  if (!task) {
+    return NextResponse.json({ error: "Task not found" }, { status: 404 });
+  }
+
+  if (isBoardArchived(task.column.board)) {
+    return NextResponse.json({ error: "Board is archived" }, { status: 403 });
+  }
+
+  const existing = await prisma.taskDependency.findUnique({
+    where: {
+      taskId_blockedById: { taskId, blockedById },
+    },
+  });
+
+  if (!existing) {
+    return NextResponse.json({ error: "Dependency not found" }, { status: 404 });
+  }
+
+  const dependency = await prisma.taskDependency.update({
+    where: { id: existing.id },
+    data: { lagDays },
+    include: {
+      blockedBy: {
+        select: {
+          id: true,
+          title: true,
+          completed: true,
+          columnId: true,
+          column: { select: { name: true } },
+        },
+      },
+      createdBy: { select: { id: true, name: true, email: true } },
+    },
+  });
+
+  emitBoardEvent(task.column.board.id, {
+    type: "task:updated",
+    task: { id: taskId },
+    userId: session.user.id,
+  });
+
+  await rescheduleDependents(task.column.board, blockedById, session.user.id);
+
   return NextResponse.json(dependency);
 }
 
@@ -245,7 +336,7 @@ export async function DELETE(
       },
     },
     include: {
-      column: { include: { board: { select: { id: true } } } },
+      column: { include: { board: { select: { id: true, archivedAt: true } } } },
     },
   });
 
@@ -253,6 +344,10 @@ export async function DELETE(
     return NextResponse.json({ error: "Task not found" }, { status: 404 });
   }
 
+  if (isBoardArchived(task.column.board)) {
+    return NextResponse.json({ error: "Board is archived" }, { status: 403 });
+  }
+
   // Find and delete the dependency
   const dependency = await prisma.taskDependency.findUnique({
     where: {
@@ -294,34 +389,3 @@ export async function DELETE(
   return NextResponse.json({ success: true });
 }
 
-// Helper: Check for indirect circular dependencies using BFS
-async function checkCircularDependency(
-  startTaskId: string,
-  targetTaskId: string
-): Promise<boolean> {
-  const visited = new Set<string>();
-  const queue = [startTaskId];
-
-  while (queue.length > 0) {
-    const currentId = queue.shift()!;
-    if (visited.has(currentId)) continue;
-    visited.add(currentId);
-
-    // Get all tasks that this task depends on (is blocked by)
-    const dependencies = await prisma.taskDependency.findMany({
-      where: { taskId: currentId },
-      select: { blockedById: true },
-    });
-
-    for (const dep of dependencies) {
-      if (dep.blockedById === targetTaskId) {
-        return true; // Found circular dependency
-      }
-      if (!visited.has(dep.blockedById)) {
-        queue.push(dep.blockedById);
-      }
-    }
-  }
-
-  return false;
-}
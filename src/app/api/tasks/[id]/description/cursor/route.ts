@@ -0,0 +1,53 @@
+import { NextRequest, NextResponse } from "next/server";
+import { prisma } from "@/lib/prisma";
+import { getAuthUser } from "@/lib/mobile-auth";
+import { emitTransientBoardEvent } from "@/lib/events";
+
+// POST /api/tasks/[id]/description/cursor - Share where the caret is in the description
+// Body: { docId, clientId, anchor, head } with anchor and head base64 Yjs
+// relative positions, or both null when the user leaves the editor
+export async function POST(
+  req: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const user = await getAuthUser(req);
+  if (!user) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  }
+
+  const { id } = await params;
+  const { docId, clientId, anchor, head } = await req.json();
+
+  const isPosition = (value: unknown) => value === null || typeof value === "string";
+  if (typeof docId !== "string" || !Number.isInteger(clientId) || !isPosition(anchor) || !isPosition(head)) {
+    return NextResponse.json({ error: "docId, clientId, anchor and head are required" }, { status: 400 });
+  }
+
+  const task = await prisma.task.findFirst({
+    where: {
+      id,
+      column: {
+        board: {
+          OR: [{ ownerId: user.id }, { members: { some: { userId: user.id } } }],
+        },
+      },
+    },
+    select: { column: { select: { boardId: true } } },
+  });
+
+  if (!task) {
+    return NextResponse.json({ error: "Task not found" }, { status: 404 });
+  }
+
+  emitTransientBoardEvent(task.column.boardId, {
+    type: "description:cursor",
+    taskId: id,
+    docId,
+    clientId,
+    userId: user.id,
+    anchor,
+    head,
+  });
+
+  return NextResponse.json({ success: true });
+}
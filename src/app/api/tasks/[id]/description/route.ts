@@ -0,0 +1,113 @@
+import { NextRequest, NextResponse } from "next/server";
+import * as Y from "yjs";
+import { prisma } from "@/lib/prisma";
+import { getAuthUser } from "@/lib/mobile-auth";
+import { canEditTasks, isBoardArchived } from "@/lib/permissions";
+import { emitTransientBoardEvent } from "@/lib/events";
+import { fromBase64, toBase64 } from "@/lib/collab-text";
+import { applyDescriptionUpdate, openDescriptionDoc } from "@/lib/description-docs";
+
+// GET /api/tasks/[id]/description - The description's shared editing state
+// Returns { docId, state } where state is a base64 Yjs update
+export async function GET(
+  req: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const user = await getAuthUser(req);
+  if (!user) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  }
+
+  const { id } = await params;
+
+  const task = await prisma.task.findFirst({
+    where: {
+      id,
+      column: {
+        board: {
+          OR: [{ ownerId: user.id }, { members: { some: { userId: user.id } } }],
+        },
+      },
+    },
+    select: { id: true },
+  });
+
+  if (!task) {
+    return NextResponse.json({ error: "Task not found" }, { status: 404 });
+  }
+
+  const doc = await openDescriptionDoc(id);
+  if (!doc) {
+    return NextResponse.json({ error: "Task not found" }, { status: 404 });
+  }
+
+  return NextResponse.json({ docId: doc.docId, state: toBase64(doc.state) });
+}
+
+// POST /api/tasks/[id]/description - Merge an edit into the description
+// Body: { docId, update, clientId } with update a base64 Yjs update and
+// clientId the sender's Yjs client id. A 409 with code DOC_RESET means the
+// description was replaced since the doc was opened; reopen it.
+export async function POST(
+  req: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const user = await getAuthUser(req);
+  if (!user) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  }
+
+  const { id } = await params;
+  const { docId, update, clientId } = await req.json();
+
+  if (typeof docId !== "string" || typeof update !== "string" || !Number.isInteger(clientId)) {
+    return NextResponse.json({ error: "docId, update and clientId are required" }, { status: 400 });
+  }
+
+  let bytes: Uint8Array;
+  try {
+    bytes = fromBase64(update);
+    Y.decodeUpdate(bytes);
+  } catch {
+    return NextResponse.json({ error: "Invalid update" }, { status: 400 });
+  }
+
+  const task = await prisma.task.findFirst({
+    where: { id },
+    include: { column: { include: { board: { include: { members: true } } } } },
+  });
+
+  if (!task) {
+    return NextResponse.json({ error: "Task not found" }, { status: 404 });
+  }
+
+  const board = task.column.board;
+  const membership = board.members.find((m) => m.userId === user.id) || null;
+  if (!canEditTasks(user, board, membership)) {
+    return NextResponse.json({ error: "Forbidden" }, { status: 403 });
+  }
+  if (isBoardArchived(board)) {
+    return NextResponse.json({ error: "Board is archived" }, { status: 403 });
+  }
+
+  const applied = await applyDescriptionUpdate(id, docId, bytes);
+  if (!applied) {
+    return NextResponse.json(
+      { error: "The description was replaced; reopen it", code: "DOC_RESET" },
+      { status: 409 }
+    );
+  }
+
+  // Not logged for replay, as every few keystrokes make one: editors that
+  // miss some notice the gap on the next and reload the doc
+  emitTransientBoardEvent(board.id, {
+    type: "description:updated",
+    taskId: id,
+    docId,
+    update,
+    clientId,
+    userId: user.id,
+  });
+
+  return NextResponse.json({ success: true });
+}
@@ -1,6 +1,7 @@
 import { NextRequest, NextResponse } from "next/server";
 import { getAuthUser } from "@/lib/mobile-auth";
 import { prisma } from "@/lib/prisma";
+import { isBoardArchived } from "@/lib/permissions";
 import { createAndEmitActivity } from "@/lib/activity";
 
 // POST /api/tasks/[id]/labels/[labelId] - Add label to task
@@ -21,7 +22,7 @@ export async function POST(
     include: {
       column: {
         include: {
-          board: { select: { id: true, members: true } },
+          board: { select: { id: true, archivedAt: true, members: true } },
         },
       },
       labels: true,
@@ -37,6 +38,10 @@ export async function POST(
     return NextResponse.json({ error: "Forbidden" }, { status: 403 });
   }
 
+  if (isBoardArchived(task.column.board)) {
+    return NextResponse.json({ error: "Board is archived" }, { status: 403 });
+  }
+
   // Verify label exists and belongs to the same board
   const label = await prisma.label.findFirst({
     where: { id: labelId, boardId: task.column.board.id },
@@ -62,6 +67,7 @@ export async function POST(
 
   // Log activity
   await createAndEmitActivity(taskId, user.id, "added_label", {
+    labelId: label.id,
     labelName: label.name,
     labelColor: label.color,
   });
@@ -87,7 +93,7 @@ export async function DELETE(
     include: {
       column: {
         include: {
-          board: { select: { id: true, members: true } },
+          board: { select: { id: true, archivedAt: true, members: true } },
         },
       },
       labels: true,
@@ -103,6 +109,10 @@ export async function DELETE(
     return NextResponse.json({ error: "Forbidden" }, { status: 403 });
   }
 
+  if (isBoardArchived(task.column.board)) {
+    return NextResponse.json({ error: "Board is archived" }, { status: 403 });
+  }
+
   // Check if label is attached
   const label = task.labels.find((l) => l.id === labelId);
   if (!label) {
@@ -0,0 +1,150 @@
+import { NextRequest, NextResponse } from "next/server";
+import { prisma } from "@/lib/prisma";
+import { getAuthUser } from "@/lib/mobile-auth";
+import { canEditTasks, isBoardArchived } from "@/lib/permissions";
+import { emitBoardEvent } from "@/lib/events";
+import { createAndEmitActivity } from "@/lib/activity";
+import { getCategoryTaskUpdates, isTaskFinished } from "@/lib/column-categories";
+import { getColumnLoads } from "@/lib/wip-limits";
+import { notifyBlockersFinished } from "@/lib/dependencies";
+
+// Same shape the task routes send with task:updated
+const taskEventInclude = {
+  assignee: true,
+  createdBy: true,
+  labels: true,
+  column: true,
+  subtasks: {
+    where: { deletedAt: null },
+    include: { assignee: true, labels: true },
+    orderBy: { position: "asc" as const },
+  },
+  customFieldValues: {
+    include: { customField: true },
+  },
+};
+
+// POST /api/tasks/[id]/merge - Fold a duplicate into its canonical task
+// Body: { canonicalId, close? } - comments and attachments move to the canonical
+// task, and the duplicate is closed unless close is false.
+export async function POST(
+  req: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const user = await getAuthUser(req);
+  if (!user) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  }
+
+  const { id } = await params;
+  const { canonicalId, close = true } = await req.json();
+
+  if (!canonicalId) {
+    return NextResponse.json({ error: "canonicalId is required" }, { status: 400 });
+  }
+  if (canonicalId === id) {
+    return NextResponse.json({ error: "A task cannot be merged into itself" }, { status: 400 });
+  }
+
+  const [task, canonical] = await Promise.all([
+    prisma.task.findFirst({
+      where: { id },
+      include: { column: { include: { board: { include: { members: true } } } } },
+    }),
+    prisma.task.findFirst({
+      where: { id: canonicalId },
+      include: { column: { include: { board: { include: { members: true } } } } },
+    }),
+  ]);
+
+  if (!task || !canonical) {
+    return NextResponse.json({ error: "Task not found" }, { status: 404 });
+  }
+
+  // Merging changes both tasks
+  for (const board of [task.column.board, canonical.column.board]) {
+    const membership = board.members.find((m) => m.userId === user.id) || null;
+    if (!canEditTasks(user, board, membership)) {
+      return NextResponse.json({ error: "Forbidden" }, { status: 403 });
+    }
+    if (isBoardArchived(board)) {
+      return NextResponse.json({ error: "Board is archived" }, { status: 403 });
+    }
+  }
+
+  // Done cards stay where they are; open ones go to the board's first cancelled column
+  const cancelledColumn =
+    close && !isTaskFinished(task)
+      ? await prisma.column.findFirst({
+          where: { boardId: task.column.boardId, category: "cancelled" },
+          orderBy: { position: "asc" },
+        })
+      : null;
+  const lastInCancelled = cancelledColumn
+    ? await prisma.task.findFirst({
+        where: { columnId: cancelledColumn.id, parentId: null },
+        orderBy: { position: "desc" },
+      })
+    : null;
+
+  const [comments, attachments] = await prisma.$transaction([
+    prisma.comment.updateMany({ where: { taskId: id }, data: { taskId: canonicalId } }),
+    prisma.attachment.updateMany({ where: { taskId: id }, data: { taskId: canonicalId } }),
+    prisma.taskRelation.upsert({
+      where: { sourceId_targetId_type: { sourceId: id, targetId: canonicalId, type: "duplicates" } },
+      update: {},
+      create: { type: "duplicates", sourceId: id, targetId: canonicalId, createdById: user.id },
+    }),
+    prisma.task.update({
+      where: { id },
+      data: cancelledColumn
+        ? {
+            columnId: cancelledColumn.id,
+            position: (lastInCancelled?.position ?? -1) + 1,
+            ...getCategoryTaskUpdates(cancelledColumn.category, task),
+          }
+        : close && !isTaskFinished(task)
+          ? { completed: true, archived: true, archivedAt: new Date() }
+          : {},
+    }),
+  ]);
+
+  await createAndEmitActivity(canonicalId, user.id, "merged duplicate", {
+    taskId: id,
+    taskTitle: task.title,
+    comments: comments.count,
+    attachments: attachments.count,
+  });
+  await createAndEmitActivity(id, user.id, "marked duplicate", {
+    taskId: canonicalId,
+    taskTitle: canonical.title,
+  });
+
+  const [updatedTask, updatedCanonical] = await Promise.all([
+    prisma.task.findUniqueOrThrow({ where: { id }, include: taskEventInclude }),
+    prisma.task.findUniqueOrThrow({ where: { id: canonicalId }, include: taskEventInclude }),
+  ]);
+
+  if (!isTaskFinished(task) && isTaskFinished(updatedTask)) {
+    await notifyBlockersFinished([id], user.id);
+  }
+
+  if (cancelledColumn) {
+    emitBoardEvent(task.column.boardId, {
+      type: "task:moved",
+      taskId: id,
+      columnId: cancelledColumn.id,
+      position: updatedTask.position,
+      userId: user.id,
+      loads: await getColumnLoads([task.columnId, cancelledColumn.id]),
+    });
+  }
+  emitBoardEvent(task.column.boardId, { type: "task:updated", task: updatedTask, userId: user.id });
+  emitBoardEvent(canonical.column.boardId, { type: "task:updated", task: updatedCanonical, userId: user.id });
+
+  return NextResponse.json({
+    task: updatedTask,
+    canonical: updatedCanonical,
+    merged: { comments: comments.count, attachments: attachments.count },
+  });
+}
@@ -0,0 +1,74 @@
+import { NextRequest, NextResponse } from "next/server";
+import { prisma } from "@/lib/prisma";
+import { getAuthUser } from "@/lib/mobile-auth";
+import { canEditTasks, isBoardArchived } from "@/lib/permissions";
+import { rescheduleOccurrence, skipOccurrence } from "@/lib/recurring-tasks";
+
+const isValidDate = (value: unknown) => typeof value === "string" && !isNaN(new Date(value).getTime());
+
+// POST /api/tasks/[id]/occurrences - Skip or move one occurrence of a recurring task
+// Body: { action: "skip", date } or { action: "reschedule", date, dueDate }, where
+// date is the occurrence's original date. [id] is the series template.
+export async function POST(
+  req: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const user = await getAuthUser(req);
+  if (!user) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  }
+
+  const { id } = await params;
+  const { action, date, dueDate } = await req.json();
+
+  if (action !== "skip" && action !== "reschedule") {
+    return NextResponse.json({ error: "action must be skip or reschedule" }, { status: 400 });
+  }
+  if (!isValidDate(date) || (action === "reschedule" && !isValidDate(dueDate))) {
+    return NextResponse.json({ error: "A valid date is required" }, { status: 400 });
+  }
+
+  const task = await prisma.task.findFirst({
+    where: { id },
+    include: { column: { include: { board: { include: { members: true } } } } },
+  });
+
+  if (!task) {
+    return NextResponse.json({ error: "Task not found" }, { status: 404 });
+  }
+
+  const board = task.column.board;
+  const membership = board.members.find((m) => m.userId === user.id) || null;
+  if (!canEditTasks(user, board, membership)) {
+    return NextResponse.json({ error: "Forbidden" }, { status: 403 });
+  }
+  if (isBoardArchived(board)) {
+    return NextResponse.json({ error: "Board is archived" }, { status: 403 });
+  }
+
+  if (action === "skip") {
+    const error = await skipOccurrence(id, new Date(date), user.id);
+    if (error) {
+      return NextResponse.json({ error }, { status: 400 });
+    }
+  } else {
+    const result = await rescheduleOccurrence(id, new Date(date), new Date(dueDate), user.id);
+    if ("error" in result) {
+      return NextResponse.json({ error: result.error }, { status: 400 });
+    }
+  }
+
+  // The template carries the updated rule, and its instances show what moved
+  const template = await prisma.task.findUnique({
+    where: { id },
+    include: {
+      recurringInstances: {
+        where: { deletedAt: null },
+        select: { id: true, dueDate: true, recurrenceDate: true, completed: true },
+        orderBy: { recurrenceDate: "asc" },
+      },
+    },
+  });
+
+  return NextResponse.json(template);
+}
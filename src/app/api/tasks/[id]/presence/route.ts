@@ -0,0 +1,57 @@
+import { NextRequest, NextResponse } from "next/server";
+import { prisma } from "@/lib/prisma";
+import { getAuthUser } from "@/lib/mobile-auth";
+import { emitTransientBoardEvent } from "@/lib/events";
+import type { TaskPresenceActivity } from "@/types";
+
+const ACTIVITIES: TaskPresenceActivity[] = ["viewing", "commenting", "editing"];
+
+// POST /api/tasks/[id]/presence - Say the task is open and what's being done in it
+// Body: { sessionId, activity } with activity "viewing", "commenting" or
+// "editing", or null once it's closed. Clients repeat it as a heartbeat.
+export async function POST(
+  req: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const user = await getAuthUser(req);
+  if (!user) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  }
+
+  const { id } = await params;
+  const { sessionId, activity } = await req.json();
+
+  if (typeof sessionId !== "string" || !sessionId || sessionId.length > 64) {
+    return NextResponse.json({ error: "sessionId is required" }, { status: 400 });
+  }
+  if (activity !== null && !ACTIVITIES.includes(activity)) {
+    return NextResponse.json({ error: `Activity must be one of ${ACTIVITIES.join(", ")}, or null` }, { status: 400 });
+  }
+
+  const task = await prisma.task.findFirst({
+    where: {
+      id,
+      column: {
+        board: {
+          OR: [{ ownerId: user.id }, { members: { some: { userId: user.id } } }],
+        },
+      },
+    },
+    select: { column: { select: { boardId: true } } },
+  });
+
+  if (!task) {
+    return NextResponse.json({ error: "Task not found" }, { status: 404 });
+  }
+
+  emitTransientBoardEvent(task.column.boardId, {
+    type: "task:presence",
+    taskId: id,
+    sessionId,
+    userId: user.id,
+    userName: user.name || user.email,
+    activity,
+  });
+
+  return NextResponse.json({ success: true });
+}
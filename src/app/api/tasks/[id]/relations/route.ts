@@ -0,0 +1,212 @@
+import { NextRequest, NextResponse } from "next/server";
+import { prisma } from "@/lib/prisma";
+import { getAuthUser } from "@/lib/mobile-auth";
+import { canEditTasks, canViewBoard, isBoardArchived } from "@/lib/permissions";
+import { emitBoardEvent } from "@/lib/events";
+import { createAndEmitActivity } from "@/lib/activity";
+import { visibleBoardsWhere } from "@/lib/epics";
+import { isTaskRelationType, relatedTaskSelect, TASK_RELATION_TYPES } from "@/lib/task-relations";
+
+const relationInclude = {
+  source: relatedTaskSelect,
+  target: relatedTaskSelect,
+  createdBy: { select: { id: true, name: true, email: true } },
+} as const;
+
+// GET /api/tasks/[id]/relations - Typed links to and from a task
+export async function GET(
+  req: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const user = await getAuthUser(req);
+  if (!user) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  }
+
+  const { id } = await params;
+
+  const task = await prisma.task.findFirst({
+    where: { id },
+    include: { column: { include: { board: { include: { members: true } } } } },
+  });
+
+  if (!task) {
+    return NextResponse.json({ error: "Task not found" }, { status: 404 });
+  }
+
+  if (!canViewBoard(user, task.column.board)) {
+    return NextResponse.json({ error: "Forbidden" }, { status: 403 });
+  }
+
+  // Links can cross boards; hide the ends on boards this user can't see
+  const visibleTask = { deletedAt: null, column: { board: visibleBoardsWhere(user) } };
+  const relations = await prisma.taskRelation.findMany({
+    where: {
+      OR: [
+        { sourceId: id, target: visibleTask },
+        { targetId: id, source: visibleTask },
+      ],
+    },
+    include: relationInclude,
+    orderBy: { createdAt: "asc" },
+  });
+
+  return NextResponse.json(relations);
+}
+
+// POST /api/tasks/[id]/relations - Link this task to another
+// Body: { type, taskId, inverse? } - inverse flips the link, e.g. "duplicated by"
+export async function POST(
+  req: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const user = await getAuthUser(req);
+  if (!user) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  }
+
+  const { id } = await params;
+  const { type, taskId: otherId, inverse = false } = await req.json();
+
+  if (!isTaskRelationType(type)) {
+    return NextResponse.json({ error: "Invalid relation type" }, { status: 400 });
+  }
+  if (!otherId) {
+    return NextResponse.json({ error: "taskId is required" }, { status: 400 });
+  }
+  if (otherId === id) {
+    return NextResponse.json({ error: "A task cannot be linked to itself" }, { status: 400 });
+  }
+
+  const [task, other] = await Promise.all([
+    prisma.task.findFirst({
+      where: { id },
+      include: { column: { include: { board: { include: { members: true } } } } },
+    }),
+    prisma.task.findFirst({
+      where: { id: otherId },
+      include: { column: { include: { board: { include: { members: true } } } } },
+    }),
+  ]);
+
+  if (!task || !other || !canViewBoard(user, other.column.board)) {
+    return NextResponse.json({ error: "Task not found" }, { status: 404 });
+  }
+
+  const board = task.column.board;
+  const membership = board.members.find((m) => m.userId === user.id) || null;
+  if (!canEditTasks(user, board, membership)) {
+    return NextResponse.json({ error: "Forbidden" }, { status: 403 });
+  }
+
+  if (isBoardArchived(board)) {
+    return NextResponse.json({ error: "Board is archived" }, { status: 403 });
+  }
+
+  const sourceId = inverse ? otherId : id;
+  const targetId = inverse ? id : otherId;
+
+  // Only relates_to reads the same both ways; the other types can't point back
+  const existing = await prisma.taskRelation.findFirst({
+    where: {
+      type,
+      OR: [
+        { sourceId, targetId },
+        { sourceId: targetId, targetId: sourceId },
+      ],
+    },
+  });
+  if (existing) {
+    return NextResponse.json(
+      {
+        error:
+          existing.sourceId === sourceId || type === "relates_to"
+            ? "These tasks are already linked"
+            : `"${other.title}" is already linked the other way`,
+      },
+      { status: 400 }
+    );
+  }
+
+  const relation = await prisma.taskRelation.create({
+    data: { type, sourceId, targetId, createdById: user.id },
+    include: relationInclude,
+  });
+
+  const kind = TASK_RELATION_TYPES.find((t) => t.id === type)!;
+  await createAndEmitActivity(id, user.id, "added relation", {
+    relation: (inverse ? kind.inverseLabel : kind.label).toLowerCase(),
+    taskId: otherId,
+    taskTitle: other.title,
+  });
+
+  emitBoardEvent(board.id, {
+    type: "task:updated",
+    task: { id },
+    userId: user.id,
+  });
+
+  return NextResponse.json(relation);
+}
+
+// DELETE /api/tasks/[id]/relations?relationId= - Remove a link
+export async function DELETE(
+  req: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const user = await getAuthUser(req);
+  if (!user) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  }
+
+  const { id } = await params;
+  const relationId = new URL(req.url).searchParams.get("relationId");
+
+  if (!relationId) {
+    return NextResponse.json({ error: "relationId query parameter is required" }, { status: 400 });
+  }
+
+  const task = await prisma.task.findFirst({
+    where: { id },
+    include: { column: { include: { board: { include: { members: true } } } } },
+  });
+
+  if (!task) {
+    return NextResponse.json({ error: "Task not found" }, { status: 404 });
+  }
+
+  const board = task.column.board;
+  const membership = board.members.find((m) => m.userId === user.id) || null;
+  if (!canEditTasks(user, board, membership)) {
+    return NextResponse.json({ error: "Forbidden" }, { status: 403 });
+  }
+
+  if (isBoardArchived(board)) {
+    return NextResponse.json({ error: "Board is archived" }, { status: 403 });
+  }
+
+  const relation = await prisma.taskRelation.findFirst({
+    where: { id: relationId, OR: [{ sourceId: id }, { targetId: id }] },
+    include: relationInclude,
+  });
+
+  if (!relation) {
+    return NextResponse.json({ error: "Relation not found" }, { status: 404 });
+  }
+
+  await prisma.taskRelation.delete({ where: { id: relation.id } });
+
+  const other = relation.sourceId === id ? relation.target : relation.source;
+  await createAndEmitActivity(id, user.id, "removed relation", {
+    taskId: other.id,
+    taskTitle: other.title,
+  });
+
+  emitBoardEvent(board.id, {
+    type: "task:updated",
+    task: { id },
+    userId: user.id,
+  });
+
+  return NextResponse.json({ success: true });
+}
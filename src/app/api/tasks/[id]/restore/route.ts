@@ -0,0 +1,78 @@
+import { NextRequest, NextResponse } from "next/server";
+import { prisma } from "@/lib/prisma";
+import { isBoardArchived } from "@/lib/permissions";
+import { getAuthUser } from "@/lib/mobile-auth";
+import { emitBoardEvent } from "@/lib/events";
+import { createAndEmitActivity } from "@/lib/activity";
+import { restoreTask } from "@/lib/trash";
+
+// Same shape the task routes send with task:created and task:updated
+const taskEventInclude = {
+  assignee: true,
+  createdBy: true,
+  labels: true,
+  column: true,
+  subtasks: {
+    where: { deletedAt: null },
+    include: { assignee: true, labels: true },
+    orderBy: { position: "asc" as const },
+  },
+  customFieldValues: {
+    include: { customField: true },
+  },
+};
+
+// POST /api/tasks/[id]/restore - Bring a task back from the trash
+export async function POST(
+  req: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const user = await getAuthUser(req);
+  if (!user) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  }
+
+  const { id } = await params;
+
+  const task = await prisma.task.findFirst({
+    where: { id, deletedAt: { not: null } },
+    include: {
+      column: { include: { board: { select: { id: true, ownerId: true, archivedAt: true, members: true } } } },
+    },
+  });
+
+  if (!task) {
+    return NextResponse.json({ error: "Task not found in trash" }, { status: 404 });
+  }
+
+  const isOwner = task.column.board.ownerId === user.id;
+  const isMember = task.column.board.members.some((m) => m.userId === user.id);
+  if (!isOwner && !isMember) {
+    return NextResponse.json({ error: "Forbidden" }, { status: 403 });
+  }
+
+  if (isBoardArchived(task.column.board)) {
+    return NextResponse.json({ error: "Board is archived" }, { status: 403 });
+  }
+
+  const failure = await restoreTask(id);
+  if (failure) {
+    return NextResponse.json(failure, { status: 409 });
+  }
+
+  await createAndEmitActivity(id, user.id, "restored", { title: task.title });
+
+  // Subtasks come back inside their parent
+  const boardId = task.column.board.id;
+  const restored = await prisma.task.findUniqueOrThrow({
+    where: { id: task.parentId ?? id },
+    include: taskEventInclude,
+  });
+  emitBoardEvent(boardId, {
+    type: task.parentId ? "task:updated" : "task:created",
+    task: restored,
+    userId: user.id,
+  });
+
+  return NextResponse.json(restored);
+}
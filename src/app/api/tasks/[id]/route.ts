@@ -1,10 +1,51 @@
 import { NextRequest, NextResponse } from "next/server";
+import { Prisma } from "@prisma/client";
 import { getAuthUser } from "@/lib/mobile-auth";
 
 import { prisma } from "@/lib/prisma";
 import { notifyAssigned } from "@/lib/notifications";
 import { emitBoardEvent } from "@/lib/events";
 import { createAndEmitActivity } from "@/lib/activity";
+import { taskEpicSelect } from "@/lib/epics";
+import { isValidPoints } from "@/lib/story-points";
+import { checkWipLimits, getColumnLoads, WipCheckResult } from "@/lib/wip-limits";
+import { getCategoryTaskUpdates, isTaskFinished } from "@/lib/column-categories";
+import { checkDependencyPolicy, isGatedChange, notifyBlockersFinished } from "@/lib/dependencies";
+import { rescheduleDependents } from "@/lib/schedule";
+import { parseRecurrenceRule } from "@/lib/recurrence";
+import { isBoardArchived } from "@/lib/permissions";
+import { trashTask } from "@/lib/trash";
+import { ColumnTransaction, reorderTasks, withColumnLock } from "@/lib/task-order";
+import { resetDescriptionDoc } from "@/lib/description-docs";
+import { isStaleWrite, parseExpectedVersion } from "@/lib/versioning";
+
+// What PATCH returns, and sends back as the current state on a version conflict
+const updatedTaskInclude = {
+  assignee: true,
+  createdBy: true,
+  labels: true,
+  column: true,
+  subtasks: {
+    where: { deletedAt: null },
+    include: { assignee: true, labels: true },
+    orderBy: { position: "asc" },
+  },
+  customFieldValues: {
+    include: { customField: true },
+  },
+  epic: taskEpicSelect,
+} satisfies Prisma.TaskInclude;
+
+async function versionConflict(id: string) {
+  const current = await prisma.task.findFirst({ where: { id }, include: updatedTaskInclude });
+  if (!current) {
+    return NextResponse.json({ error: "Task not found" }, { status: 404 });
+  }
+  return NextResponse.json(
+    { error: "This task was changed by someone else", code: "VERSION_CONFLICT", current },
+    { status: 409 }
+  );
+}
 
 export async function GET(
   req: NextRequest,
@@ -39,6 +80,7 @@ export async function GET(
       },
       column: true,
       subtasks: {
+        where: { deletedAt: null },
         include: { assignee: true, labels: true },
         orderBy: { position: "asc" },
       },
@@ -47,6 +89,7 @@ export async function GET(
         orderBy: { createdAt: "desc" },
       },
       blockedBy: {
+        where: { blockedBy: { deletedAt: null } },
         include: {
           blockedBy: {
             select: {
@@ -61,6 +104,7 @@ export async function GET(
         },
       },
       blocking: {
+        where: { task: { deletedAt: null } },
         include: {
           task: {
             select: {
@@ -79,6 +123,13 @@ export async function GET(
           customField: true,
         },
       },
+      epic: taskEpicSelect,
+      // Lets a series show which of its occurrences were moved
+      recurringInstances: {
+        where: { deletedAt: null },
+        select: { id: true, dueDate: true, recurrenceDate: true, completed: true },
+        orderBy: { recurrenceDate: "asc" },
+      },
     },
   });
 
@@ -100,12 +151,19 @@ export async function PATCH(
 
   const { id } = await params;
   const body = await req.json();
-  const { title, description, priority, startDate, dueDate, labelIds, assigneeId, columnId, position, completed, isRecurring, recurrenceRule, customFields } = body;
+  const { title, description, priority, startDate, dueDate, labelIds, assigneeId, columnId, position, completed, isRecurring, recurrenceRule, customFields, northStarId, sprintId, epicId, storyPoints, timeEstimate } = body;
+
+  // The version the edit was based on; when it's stale the edit is refused
+  const expectedVersion = parseExpectedVersion(body.version);
+  if (expectedVersion === null) {
+    return NextResponse.json({ error: "Version must be a positive whole number" }, { status: 400 });
+  }
 
   const task = await prisma.task.findFirst({
     where: { id },
     include: {
-      column: { include: { board: { select: { id: true, ownerId: true, members: true } } } },
+      column: { include: { board: { select: { id: true, ownerId: true, archivedAt: true, pointScale: true, enforceDependencies: true, autoSchedule: true, members: true } } } },
+      labels: { select: { id: true } },
     },
   });
 
@@ -119,14 +177,92 @@ export async function PATCH(
     return NextResponse.json({ error: "Forbidden" }, { status: 403 });
   }
 
+  if (isBoardArchived(task.column.board)) {
+    return NextResponse.json({ error: "Board is archived" }, { status: 403 });
+  }
+
+  if (expectedVersion !== undefined && expectedVersion !== task.version) {
+    return versionConflict(id);
+  }
+
+  const isColumnMove = !!columnId && columnId !== task.columnId;
+  const isReassign = assigneeId !== undefined && (assigneeId || null) !== task.assigneeId;
+
+  const targetColumn = isColumnMove
+    ? await prisma.column.findFirst({ where: { id: columnId, boardId: task.column.board.id } })
+    : null;
+  if (isColumnMove && !targetColumn) {
+    return NextResponse.json({ error: "Column not found" }, { status: 404 });
+  }
+
+  // WIP limits apply to the column the task will end up in; checked as it's written below
+  const wipColumn = !task.parentId && (isColumnMove || isReassign) ? targetColumn ?? task.column : null;
+
+  // Blocked tasks can't be started or finished on boards that enforce dependencies
+  if (isGatedChange(targetColumn?.category, completed === true && !task.completed)) {
+    const policy = await checkDependencyPolicy(task.column.board, [id]);
+    if (policy.blocked) {
+      return NextResponse.json({ error: policy.message, code: "BLOCKED_BY_DEPENDENCIES" }, { status: 409 });
+    }
+  }
+
+  if (northStarId) {
+    const northStar = await prisma.northStar.findUnique({ where: { id: northStarId } });
+    if (!northStar) {
+      return NextResponse.json({ error: "North Star not found" }, { status: 400 });
+    }
+  }
+
+  if (storyPoints !== undefined && storyPoints !== null && !isValidPoints(task.column.board.pointScale, storyPoints)) {
+    return NextResponse.json({ error: "Story points must be a value on the board's scale" }, { status: 400 });
+  }
+
+  if (timeEstimate !== undefined && timeEstimate !== null && (!Number.isInteger(timeEstimate) || timeEstimate < 0)) {
+    return NextResponse.json({ error: "Time estimate must be a whole number of minutes" }, { status: 400 });
+  }
+
+  if (recurrenceRule && (typeof recurrenceRule !== "string" || !parseRecurrenceRule(recurrenceRule))) {
+    return NextResponse.json({ error: "Recurrence rule must be a supported iCalendar RRULE" }, { status: 400 });
+  }
+
+  // Only top-level tasks are planned into sprints, and closed sprints are frozen
+  const isSprintChange = sprintId !== undefined && (sprintId || null) !== task.sprintId;
+  const targetSprint = isSprintChange && sprintId
+    ? await prisma.sprint.findFirst({ where: { id: sprintId, boardId: task.column.board.id } })
+    : null;
+  if (isSprintChange) {
+    if (task.parentId) {
+      return NextResponse.json({ error: "Subtasks follow their parent's sprint" }, { status: 400 });
+    }
+    if (sprintId && !targetSprint) {
+      return NextResponse.json({ error: "Sprint not found" }, { status: 400 });
+    }
+    if (targetSprint?.state === "closed") {
+      return NextResponse.json({ error: "Tasks cannot be added to a closed sprint" }, { status: 400 });
+    }
+  }
+
+  // Epics group top-level tasks across boards
+  const isEpicChange = epicId !== undefined && (epicId || null) !== task.epicId;
+  const targetEpic = isEpicChange && epicId
+    ? await prisma.epic.findUnique({ where: { id: epicId } })
+    : null;
+  if (isEpicChange) {
+    if (task.parentId) {
+      return NextResponse.json({ error: "Subtasks belong to their parent's epic" }, { status: 400 });
+    }
+    if (epicId && !targetEpic) {
+      return NextResponse.json({ error: "Epic not found" }, { status: 400 });
+    }
+  }
+
   const activities: { action: string; details: Record<string, unknown> }[] = [];
 
   // Track changes for activity log
-  if (columnId && columnId !== task.columnId) {
-    const newColumn = await prisma.column.findUnique({ where: { id: columnId } });
+  if (isColumnMove) {
     activities.push({
       action: "moved",
-      details: { from: task.column.name, to: newColumn?.name } as Record<string, unknown>,
+      details: { from: task.column.name, to: targetColumn?.name } as Record<string, unknown>,
     });
   }
 
@@ -136,117 +272,167 @@ export async function PATCH(
       : null;
     activities.push({
       action: "assigned",
-      details: { assignee: newAssignee?.name || "Unassigned" } as Record<string, unknown>,
+      details: { assignee: newAssignee?.name || "Unassigned", assigneeId: assigneeId || null } as Record<string, unknown>,
     });
+  }
 
-    // Send notification to the new assignee (if not self-assigning)
-    if (assigneeId && assigneeId !== user.id) {
-      const currentUser = await prisma.user.findUnique({
-        where: { id: user.id },
-        select: { name: true },
+  if (isSprintChange) {
+    activities.push({
+      action: "sprint_changed",
+      details: { sprint: targetSprint?.name ?? null, sprintId: targetSprint?.id ?? null },
+    });
+  }
+
+  if (isEpicChange) {
+    activities.push({
+      action: "epic_changed",
+      details: { epic: targetEpic?.title ?? null, epicId: targetEpic?.id ?? null },
+    });
+  }
+
+  // Date changes feed the baseline variance report
+  const dateFields = [
+    { action: "start_date_changed", value: startDate, previous: task.startDate },
+    { action: "due_date_changed", value: dueDate, previous: task.dueDate },
+  ];
+  for (const { action, value, previous } of dateFields) {
+    if (value === undefined) continue;
+    const next = value ? new Date(value) : null;
+    if (next?.getTime() !== previous?.getTime()) {
+      activities.push({
+        action,
+        details: { from: previous?.toISOString() ?? null, to: next?.toISOString() ?? null },
       });
-      await notifyAssigned(
-        assigneeId,
-        task.title,
-        task.id,
-        task.column.board.id,
-        currentUser?.name || "Someone"
-      );
     }
   }
 
-  // Handle position/column changes
-  if (columnId !== undefined || position !== undefined) {
-    const targetColumnId = columnId || task.columnId;
-    const targetPosition = position ?? 0;
+  if (Array.isArray(labelIds)) {
+    const addedLabels = await prisma.label.findMany({
+      where: {
+        id: { in: labelIds.filter((labelId: string) => !task.labels.some((l) => l.id === labelId)) },
+        boardId: task.column.board.id,
+      },
+    });
+    for (const label of addedLabels) {
+      activities.push({
+        action: "added label",
+        details: { label: label.name, labelId: label.id },
+      });
+    }
+  }
+
+  // Entering a column applies its category; an explicit completed flag wins
+  const categoryUpdates = targetColumn ? getCategoryTaskUpdates(targetColumn.category, task) : {};
+  const nextCompleted = completed ?? categoryUpdates.completed;
 
-    // Get all tasks in target column
-    const columnTasks = await prisma.task.findMany({
-      where: { columnId: targetColumnId, id: { not: id } },
-      orderBy: { position: "asc" },
+  const writeTask = (db: ColumnTransaction) =>
+    db.task.update({
+      // Guarded by the version too, in case another edit landed since the check above
+      where: { id, ...(expectedVersion !== undefined && { version: expectedVersion }) },
+      data: {
+        ...(isColumnMove && { columnId }),
+        ...(title !== undefined && { title: title.trim() }),
+        ...(description !== undefined && { description: description?.trim() || null }),
+        ...(priority && { priority }),
+        ...(startDate !== undefined && { startDate: startDate ? new Date(startDate) : null }),
+        ...(dueDate !== undefined && { dueDate: dueDate ? new Date(dueDate) : null }),
+        ...(labelIds !== undefined && {
+          labels: {
+            set: labelIds.map((labelId: string) => ({ id: labelId })),
+          },
+        }),
+        ...(assigneeId !== undefined && { assigneeId: assigneeId || null }),
+        ...categoryUpdates,
+        ...(completed !== undefined && { completed }),
+        // Completing a task archives it, reopening restores it
+        ...(completed === true && !task.archived && { archived: true, archivedAt: new Date() }),
+        ...(completed === false && task.archived && { archived: false, archivedAt: null }),
+        ...(isRecurring !== undefined && { isRecurring }),
+        ...(recurrenceRule !== undefined && { recurrenceRule }),
+        ...(northStarId !== undefined && { northStarId: northStarId || null }),
+        ...(isSprintChange && { sprintId: sprintId || null }),
+        ...(isEpicChange && { epicId: epicId || null }),
+        ...(storyPoints !== undefined && { storyPoints }),
+        ...(timeEstimate !== undefined && { timeEstimate }),
+      },
+      include: updatedTaskInclude,
     });
 
-    // Insert at new position
-    const reordered = [...columnTasks];
-    reordered.splice(targetPosition, 0, { id } as typeof task);
-
-    // Update positions
-    await prisma.$transaction(
-      reordered.map((t, idx) =>
-        prisma.task.update({
-          where: { id: t.id },
-          data: { position: idx, ...(t.id === id ? { columnId: targetColumnId } : {}) },
-        })
-      )
-    );
+  let wip: WipCheckResult | null = null;
+  let updated;
+  try {
+    if (wipColumn) {
+      // Checked and written under the column lock, so simultaneous moves can't overfill it
+      ({ wip, updated } = await withColumnLock(wipColumn.id, async (tx) => {
+        const wip = await checkWipLimits(
+          wipColumn,
+          [{ id, assigneeId: assigneeId !== undefined ? assigneeId || null : task.assigneeId }],
+          tx
+        );
+        return { wip, updated: wip.blocked ? null : await writeTask(tx) };
+      }));
+    } else {
+      updated = await writeTask(prisma);
+    }
+  } catch (error) {
+    if (isStaleWrite(error)) return versionConflict(id);
+    throw error;
   }
 
-  const updated = await prisma.task.update({
-    where: { id },
-    data: {
-      ...(title !== undefined && { title: title.trim() }),
-      ...(description !== undefined && { description: description?.trim() || null }),
-      ...(priority && { priority }),
-      ...(startDate !== undefined && { startDate: startDate ? new Date(startDate) : null }),
-      ...(dueDate !== undefined && { dueDate: dueDate ? new Date(dueDate) : null }),
-      ...(labelIds !== undefined && {
-        labels: {
-          set: labelIds.map((labelId: string) => ({ id: labelId })),
-        },
-      }),
-      ...(assigneeId !== undefined && { assigneeId: assigneeId || null }),
-      ...(completed !== undefined && { completed }),
-      ...(isRecurring !== undefined && { isRecurring }),
-      ...(recurrenceRule !== undefined && { recurrenceRule }),
-    },
-    include: {
-      assignee: true,
-      createdBy: true,
-      labels: true,
-      column: true,
-      subtasks: {
-        include: { assignee: true, labels: true },
-        orderBy: { position: "asc" },
-      },
-      customFieldValues: {
-        include: { customField: true },
+  if (!updated) {
+    return NextResponse.json({ error: wip?.message, code: "WIP_LIMIT" }, { status: 409 });
+  }
+
+  // Handle position/column changes
+  if (columnId !== undefined || position !== undefined) {
+    const order = await reorderTasks(
+      updated.columnId,
+      (currentIds) => {
+        const reordered = currentIds.filter((taskId) => taskId !== id);
+        reordered.splice(position ?? 0, 0, id);
+        return reordered;
       },
-    },
-  });
+      { parentId: task.parentId }
+    );
+    updated.position = order.indexOf(id);
+  }
 
   // Create activities and emit to subscribers
   for (const activity of activities) {
     await createAndEmitActivity(id, user.id, activity.action, activity.details);
   }
 
+  // Send notification to the new assignee (if not self-assigning), now that the edit went through
+  if (assigneeId && assigneeId !== task.assigneeId && assigneeId !== user.id) {
+    const currentUser = await prisma.user.findUnique({
+      where: { id: user.id },
+      select: { name: true },
+    });
+    await notifyAssigned(
+      assigneeId,
+      task.title,
+      task.id,
+      task.column.board.id,
+      currentUser?.name || "Someone"
+    );
+  }
+
   // Track completion activity
-  if (completed !== undefined && completed !== task.completed) {
+  if (nextCompleted !== undefined && nextCompleted !== task.completed) {
     await createAndEmitActivity(
       id,
       user.id,
-      completed ? "completed" : "reopened",
+      nextCompleted ? "completed" : "reopened",
       { title: task.title }
     );
   }
 
-  // Auto-archive when moved to Done column or marked complete
-  const targetColumn = columnId 
-    ? await prisma.column.findUnique({ where: { id: columnId } })
-    : updated.column;
-  const isDoneColumn = targetColumn?.name?.toLowerCase().includes('done') || 
-                       targetColumn?.name?.toLowerCase().includes('complete') ||
-                       targetColumn?.name?.toLowerCase().includes('finished');
-  const shouldArchive = (isDoneColumn || completed === true) && !task.archived;
-  const shouldUnarchive = completed === false && task.archived;
+  if (!isTaskFinished(task) && isTaskFinished(updated)) {
+    await notifyBlockersFinished([id], user.id);
+  }
 
-  if (shouldArchive || shouldUnarchive) {
-    await prisma.task.update({
-      where: { id },
-      data: {
-        archived: shouldArchive,
-        archivedAt: shouldArchive ? new Date() : null,
-      },
-    });
+  if (startDate !== undefined || dueDate !== undefined) {
+    await rescheduleDependents(task.column.board, id, user.id);
   }
 
   // Handle custom field values
@@ -276,9 +462,15 @@ export async function PATCH(
     }
   }
 
+  // Setting the description outright replaces whatever is being edited together
+  const isDescriptionReplaced = description !== undefined && (description?.trim() || null) !== task.description;
+  if (isDescriptionReplaced) {
+    await resetDescriptionDoc(id);
+  }
+
   // Emit real-time event
   const boardId = task.column.board.id;
-  if (columnId && columnId !== task.columnId) {
+  if (isColumnMove) {
     // Task was moved to a different column
     emitBoardEvent(boardId, {
       type: "task:moved",
@@ -286,6 +478,7 @@ export async function PATCH(
       columnId,
       position: position ?? 0,
       userId: user.id,
+      loads: await getColumnLoads([task.columnId, columnId]),
     });
   }
   emitBoardEvent(boardId, {
@@ -293,8 +486,12 @@ export async function PATCH(
     task: updated,
     userId: user.id,
   });
+  if (isDescriptionReplaced) {
+    emitBoardEvent(boardId, { type: "description:reset", taskId: id, userId: user.id });
+  }
 
-  return NextResponse.json(updated);
+  // Over the limit in "warn" mode: saved, with a heads-up
+  return NextResponse.json({ ...updated, ...(wip?.exceeded && { wipWarning: wip.message }) });
 }
 
 export async function DELETE(
@@ -311,7 +508,7 @@ export async function DELETE(
   const task = await prisma.task.findFirst({
     where: { id },
     include: {
-      column: { include: { board: { select: { id: true, ownerId: true, members: true } } } },
+      column: { include: { board: { select: { id: true, ownerId: true, archivedAt: true, members: true } } } },
     },
   });
 
@@ -325,8 +522,13 @@ export async function DELETE(
     return NextResponse.json({ error: "Forbidden" }, { status: 403 });
   }
 
+  if (isBoardArchived(task.column.board)) {
+    return NextResponse.json({ error: "Board is archived" }, { status: 403 });
+  }
+
+  // Deleted tasks go to the trash with their subtasks and can be restored
   const boardId = task.column.board.id;
-  await prisma.task.delete({ where: { id } });
+  await trashTask(id, user.id);
 
   // Emit real-time event
   emitBoardEvent(boardId, {
@@ -360,7 +562,7 @@ export async function POST(
     where: { id: parentId },
     include: {
       column: { include: { board: { include: { members: true } } } },
-      subtasks: true,
+      subtasks: { where: { deletedAt: null } },
     },
   });
 
@@ -373,6 +575,10 @@ export async function POST(
     return NextResponse.json({ error: "Forbidden" }, { status: 403 });
   }
 
+  if (isBoardArchived(parentTask.column.board)) {
+    return NextResponse.json({ error: "Board is archived" }, { status: 403 });
+  }
+
   // Create subtask inheriting parent's column
   const subtask = await prisma.task.create({
     data: {
@@ -0,0 +1,56 @@
+import { NextRequest, NextResponse } from "next/server";
+import { prisma } from "@/lib/prisma";
+import { getAuthUser } from "@/lib/mobile-auth";
+import { canEditTasks, isBoardArchived } from "@/lib/permissions";
+import { editSeriesFrom, validateSeriesUpdates, SeriesUpdates } from "@/lib/recurring-tasks";
+
+// POST /api/tasks/[id]/series - Edit this occurrence and all later ones
+// Body: { updates: { title?, description?, priority?, assigneeId?, labelIds? } }
+// Editing from an instance splits the series there; the instance becomes the
+// template of the new series, which is returned.
+export async function POST(
+  req: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const user = await getAuthUser(req);
+  if (!user) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  }
+
+  const { id } = await params;
+  const { updates } = await req.json();
+
+  if (!updates || typeof updates !== "object") {
+    return NextResponse.json({ error: "updates is required" }, { status: 400 });
+  }
+
+  const task = await prisma.task.findFirst({
+    where: { id },
+    include: { column: { include: { board: { include: { members: true } } } } },
+  });
+
+  if (!task) {
+    return NextResponse.json({ error: "Task not found" }, { status: 404 });
+  }
+
+  const board = task.column.board;
+  const membership = board.members.find((m) => m.userId === user.id) || null;
+  if (!canEditTasks(user, board, membership)) {
+    return NextResponse.json({ error: "Forbidden" }, { status: 403 });
+  }
+  if (isBoardArchived(board)) {
+    return NextResponse.json({ error: "Board is archived" }, { status: 403 });
+  }
+
+  const error = await validateSeriesUpdates(board.id, updates);
+  if (error) {
+    return NextResponse.json({ error }, { status: 400 });
+  }
+
+  const result = await editSeriesFrom(id, updates as SeriesUpdates, user.id);
+  if ("error" in result) {
+    return NextResponse.json({ error: result.error }, { status: 400 });
+  }
+
+  return NextResponse.json(result.template);
+}
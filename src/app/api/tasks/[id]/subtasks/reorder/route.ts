@@ -2,6 +2,7 @@ import { NextRequest, NextResponse } from "next/server";
 import { getServerSession } from "next-auth";
 import { authOptions } from "@/lib/auth";
 import { prisma } from "@/lib/prisma";
+import { isBoardArchived } from "@/lib/permissions";
 
 export async function PATCH(
   req: NextRequest,
@@ -26,7 +27,7 @@ export async function PATCH(
       column: {
         include: {
           board: {
-            select: { id: true, ownerId: true, members: true },
+            select: { id: true, ownerId: true, archivedAt: true, members: true },
           },
         },
       },
@@ -43,6 +44,10 @@ export async function PATCH(
     return NextResponse.json({ error: "Forbidden" }, { status: 403 });
   }
 
+  if (isBoardArchived(parentTask.column.board)) {
+    return NextResponse.json({ error: "Board is archived" }, { status: 403 });
+  }
+
   // Update positions in a transaction
   await prisma.$transaction(
     subtaskIds.map((subtaskId: string, index: number) =>
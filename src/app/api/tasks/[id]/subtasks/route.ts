@@ -1,6 +1,7 @@
 import { NextRequest, NextResponse } from "next/server";
 import { getAuthUser } from "@/lib/mobile-auth";
 import { prisma } from "@/lib/prisma";
+import { isBoardArchived } from "@/lib/permissions";
 import { createAndEmitActivity } from "@/lib/activity";
 
 // GET /api/tasks/[id]/subtasks - List subtasks for a task
@@ -86,7 +87,7 @@ export async function POST(
     include: {
       column: {
         include: {
-          board: { select: { id: true, members: true } },
+          board: { select: { id: true, archivedAt: true, members: true } },
         },
       },
       subtasks: { select: { position: true } },
@@ -102,6 +103,10 @@ export async function POST(
     return NextResponse.json({ error: "Forbidden" }, { status: 403 });
   }
 
+  if (isBoardArchived(parentTask.column.board)) {
+    return NextResponse.json({ error: "Board is archived" }, { status: 403 });
+  }
+
   // Get next position
   const maxPosition = parentTask.subtasks.reduce(
     (max, s) => Math.max(max, s.position),
@@ -0,0 +1,100 @@
+import { NextRequest, NextResponse } from "next/server";
+import { prisma } from "@/lib/prisma";
+import { getAuthUser } from "@/lib/mobile-auth";
+import { canEditTasks, canViewBoard, isBoardArchived } from "@/lib/permissions";
+import { MAX_ENTRY_MINUTES } from "@/lib/time-tracking";
+import { timeEntryInclude } from "@/lib/timers";
+
+// GET /api/tasks/[id]/time-entries - Time logged on a task, newest first
+export async function GET(
+  req: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const user = await getAuthUser(req);
+  if (!user) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  }
+
+  const { id } = await params;
+
+  const task = await prisma.task.findFirst({
+    where: { id },
+    include: { column: { include: { board: { include: { members: true } } } } },
+  });
+
+  if (!task) {
+    return NextResponse.json({ error: "Task not found" }, { status: 404 });
+  }
+
+  if (!canViewBoard(user, task.column.board)) {
+    return NextResponse.json({ error: "Forbidden" }, { status: 403 });
+  }
+
+  const entries = await prisma.timeEntry.findMany({
+    where: { taskId: id },
+    include: timeEntryInclude,
+    orderBy: { startedAt: "desc" },
+  });
+
+  return NextResponse.json(entries);
+}
+
+// POST /api/tasks/[id]/time-entries - Log time by hand
+// Body: { startedAt, minutes, note? }
+export async function POST(
+  req: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const user = await getAuthUser(req);
+  if (!user) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  }
+
+  const { id } = await params;
+  const { startedAt, minutes, note } = await req.json();
+
+  const start = new Date(startedAt);
+  if (!startedAt || isNaN(start.getTime())) {
+    return NextResponse.json({ error: "A valid start time is required" }, { status: 400 });
+  }
+
+  if (!Number.isInteger(minutes) || minutes < 1 || minutes > MAX_ENTRY_MINUTES) {
+    return NextResponse.json(
+      { error: `Minutes must be a whole number between 1 and ${MAX_ENTRY_MINUTES}` },
+      { status: 400 }
+    );
+  }
+
+  const task = await prisma.task.findFirst({
+    where: { id },
+    include: { column: { include: { board: { include: { members: true } } } } },
+  });
+
+  if (!task) {
+    return NextResponse.json({ error: "Task not found" }, { status: 404 });
+  }
+
+  const board = task.column.board;
+  const membership = board.members.find((m) => m.userId === user.id) || null;
+  if (!canEditTasks(user, board, membership)) {
+    return NextResponse.json({ error: "Forbidden" }, { status: 403 });
+  }
+
+  if (isBoardArchived(board)) {
+    return NextResponse.json({ error: "Board is archived" }, { status: 403 });
+  }
+
+  const entry = await prisma.timeEntry.create({
+    data: {
+      taskId: id,
+      userId: user.id,
+      startedAt: start,
+      endedAt: new Date(start.getTime() + minutes * 60 * 1000),
+      duration: minutes * 60,
+      note: typeof note === "string" ? note.trim() || null : null,
+    },
+    include: timeEntryInclude,
+  });
+
+  return NextResponse.json(entry);
+}
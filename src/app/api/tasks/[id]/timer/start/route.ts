@@ -0,0 +1,51 @@
+import { NextRequest, NextResponse } from "next/server";
+import { prisma } from "@/lib/prisma";
+import { getAuthUser } from "@/lib/mobile-auth";
+import { canEditTasks, isBoardArchived } from "@/lib/permissions";
+import { isTimerAlreadyRunning, startTimer } from "@/lib/timers";
+
+// POST /api/tasks/[id]/timer/start - Start the current user's timer on a task
+// Any timer the user already had running is stopped and returned as `stopped`
+export async function POST(
+  req: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const user = await getAuthUser(req);
+  if (!user) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  }
+
+  const { id } = await params;
+
+  const task = await prisma.task.findFirst({
+    where: { id },
+    include: { column: { include: { board: { include: { members: true } } } } },
+  });
+
+  if (!task) {
+    return NextResponse.json({ error: "Task not found" }, { status: 404 });
+  }
+
+  const board = task.column.board;
+  const membership = board.members.find((m) => m.userId === user.id) || null;
+  if (!canEditTasks(user, board, membership)) {
+    return NextResponse.json({ error: "Forbidden" }, { status: 403 });
+  }
+
+  if (isBoardArchived(board)) {
+    return NextResponse.json({ error: "Board is archived" }, { status: 403 });
+  }
+
+  try {
+    const result = await startTimer(id, user.id);
+    return NextResponse.json(result);
+  } catch (error) {
+    if (isTimerAlreadyRunning(error)) {
+      return NextResponse.json(
+        { error: "A timer is already running; stop it and try again", code: "TIMER_RUNNING" },
+        { status: 409 }
+      );
+    }
+    throw error;
+  }
+}
@@ -0,0 +1,33 @@
+import { NextRequest, NextResponse } from "next/server";
+import { getAuthUser } from "@/lib/mobile-auth";
+import { stopRunningTimer } from "@/lib/timers";
+
+// POST /api/tasks/[id]/timer/stop - Stop the current user's timer on a task
+// Stopping is allowed even after losing edit access so time is never left running
+export async function POST(
+  req: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const user = await getAuthUser(req);
+  if (!user) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  }
+
+  const { id } = await params;
+  const body = await req.json().catch(() => ({}));
+
+  if (body.note !== undefined && body.note !== null && typeof body.note !== "string") {
+    return NextResponse.json({ error: "Note must be a string" }, { status: 400 });
+  }
+
+  const entry = await stopRunningTimer(user.id, {
+    taskId: id,
+    note: body.note === undefined ? undefined : body.note?.trim() || null,
+  });
+
+  if (!entry) {
+    return NextResponse.json({ error: "No timer running on this task" }, { status: 404 });
+  }
+
+  return NextResponse.json(entry);
+}
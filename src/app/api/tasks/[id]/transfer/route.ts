@@ -0,0 +1,107 @@
+import { NextRequest, NextResponse } from "next/server";
+import { prisma } from "@/lib/prisma";
+import { isBoardArchived } from "@/lib/permissions";
+import { getAuthUser } from "@/lib/mobile-auth";
+import { emitBoardEvent } from "@/lib/events";
+import { createAndEmitActivity } from "@/lib/activity";
+import { checkWipLimits } from "@/lib/wip-limits";
+import { TASK_TRANSFER_MODES, TaskTransferMode, transferTask } from "@/lib/task-transfer";
+
+// POST /api/tasks/[id]/transfer - Move or copy a task to a column on another board
+// Body: { mode: "move" | "copy", columnId, keepDependencies? }
+export async function POST(
+  req: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const user = await getAuthUser(req);
+  if (!user) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  }
+
+  const { id } = await params;
+  const { mode, columnId, keepDependencies = true } = await req.json();
+
+  if (!TASK_TRANSFER_MODES.includes(mode as TaskTransferMode)) {
+    return NextResponse.json({ error: "mode must be move or copy" }, { status: 400 });
+  }
+  if (!columnId) {
+    return NextResponse.json({ error: "columnId is required" }, { status: 400 });
+  }
+
+  const task = await prisma.task.findFirst({
+    where: { id },
+    include: {
+      column: { include: { board: { select: { id: true, name: true, ownerId: true, archivedAt: true, members: true } } } },
+    },
+  });
+
+  if (!task) {
+    return NextResponse.json({ error: "Task not found" }, { status: 404 });
+  }
+  if (task.parentId) {
+    return NextResponse.json({ error: "Subtasks move with their parent task" }, { status: 400 });
+  }
+
+  const isSourceMember = task.column.board.members.some((m) => m.userId === user.id);
+  if (!isSourceMember && task.column.board.ownerId !== user.id) {
+    return NextResponse.json({ error: "Forbidden" }, { status: 403 });
+  }
+
+  const targetColumn = await prisma.column.findUnique({
+    where: { id: columnId, board: { deletedAt: null } },
+    include: { board: { select: { id: true, name: true, ownerId: true, archivedAt: true, members: true } } },
+  });
+
+  if (!targetColumn) {
+    return NextResponse.json({ error: "Target column not found" }, { status: 404 });
+  }
+
+  const isTargetMember = targetColumn.board.members.some((m) => m.userId === user.id);
+  if (!isTargetMember && targetColumn.board.ownerId !== user.id) {
+    return NextResponse.json({ error: "Forbidden" }, { status: 403 });
+  }
+
+  const sourceBoard = task.column.board;
+  const targetBoard = targetColumn.board;
+  if (sourceBoard.id === targetBoard.id) {
+    return NextResponse.json({ error: "Task is already on this board; move it between columns instead" }, { status: 400 });
+  }
+  // Copying out of an archived board is fine; moving would change it
+  if (isBoardArchived(targetBoard) || (mode === "move" && isBoardArchived(sourceBoard))) {
+    return NextResponse.json({ error: "Board is archived" }, { status: 403 });
+  }
+
+  const assigneeStays = targetBoard.members.some((m) => m.userId === task.assigneeId);
+  const wip = await checkWipLimits(targetColumn, [
+    { id: mode === "move" ? task.id : "", assigneeId: assigneeStays ? task.assigneeId : null },
+  ]);
+  if (wip.blocked) {
+    return NextResponse.json({ error: wip.message, code: "WIP_LIMIT" }, { status: 409 });
+  }
+
+  const { task: result, dropped } = await transferTask(
+    task.id,
+    { id: targetColumn.id, boardId: targetBoard.id, category: targetColumn.category },
+    mode,
+    !!keepDependencies,
+    user.id
+  );
+
+  if (mode === "move") {
+    await createAndEmitActivity(result.id, user.id, "moved to board", {
+      fromBoard: sourceBoard.name,
+      toBoard: targetBoard.name,
+      toColumn: targetColumn.name,
+    });
+    emitBoardEvent(sourceBoard.id, { type: "task:deleted", taskId: task.id, userId: user.id });
+  } else {
+    await createAndEmitActivity(result.id, user.id, "copied from board", {
+      fromBoard: sourceBoard.name,
+      sourceTaskId: task.id,
+    });
+  }
+
+  emitBoardEvent(targetBoard.id, { type: "task:created", task: result, userId: user.id });
+
+  return NextResponse.json({ task: result, dropped });
+}
@@ -0,0 +1,103 @@
+import { NextRequest, NextResponse } from "next/server";
+import { prisma } from "@/lib/prisma";
+import { getAuthUser } from "@/lib/mobile-auth";
+import { isAdmin, isBoardArchived } from "@/lib/permissions";
+import { MAX_ENTRY_MINUTES } from "@/lib/time-tracking";
+import { timeEntryInclude } from "@/lib/timers";
+
+async function findOwnEntry(id: string, user: { id: string; role: string }) {
+  const entry = await prisma.timeEntry.findUnique({
+    where: { id },
+    include: { task: { select: { column: { select: { board: true } } } } },
+  });
+
+  if (!entry) {
+    return { error: NextResponse.json({ error: "Time entry not found" }, { status: 404 }) };
+  }
+
+  // People edit their own time; admins can correct anyone's
+  if (entry.userId !== user.id && !isAdmin(user)) {
+    return { error: NextResponse.json({ error: "Forbidden" }, { status: 403 }) };
+  }
+
+  if (isBoardArchived(entry.task.column.board)) {
+    return { error: NextResponse.json({ error: "Board is archived" }, { status: 403 }) };
+  }
+
+  return { entry };
+}
+
+// PATCH /api/time-entries/[id] - Edit a logged entry
+// Body: { note?, startedAt?, minutes? } - running timers can only change their note
+export async function PATCH(
+  req: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const user = await getAuthUser(req);
+  if (!user) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  }
+
+  const { id } = await params;
+  const { note, startedAt, minutes } = await req.json();
+
+  const { entry, error } = await findOwnEntry(id, user);
+  if (error) return error;
+
+  const isRunning = entry.endedAt === null;
+  if (isRunning && (startedAt !== undefined || minutes !== undefined)) {
+    return NextResponse.json({ error: "Stop the timer before changing its time" }, { status: 400 });
+  }
+
+  const start = startedAt !== undefined ? new Date(startedAt) : entry.startedAt;
+  if (isNaN(start.getTime())) {
+    return NextResponse.json({ error: "Invalid start time" }, { status: 400 });
+  }
+
+  if (
+    minutes !== undefined &&
+    (!Number.isInteger(minutes) || minutes < 1 || minutes > MAX_ENTRY_MINUTES)
+  ) {
+    return NextResponse.json(
+      { error: `Minutes must be a whole number between 1 and ${MAX_ENTRY_MINUTES}` },
+      { status: 400 }
+    );
+  }
+
+  const duration = minutes !== undefined ? minutes * 60 : entry.duration;
+
+  const updated = await prisma.timeEntry.update({
+    where: { id },
+    data: {
+      ...(note !== undefined && { note: typeof note === "string" ? note.trim() || null : null }),
+      ...(!isRunning && {
+        startedAt: start,
+        duration,
+        endedAt: new Date(start.getTime() + (duration ?? 0) * 1000),
+      }),
+    },
+    include: timeEntryInclude,
+  });
+
+  return NextResponse.json(updated);
+}
+
+// DELETE /api/time-entries/[id] - Remove a logged entry or discard a running timer
+export async function DELETE(
+  req: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const user = await getAuthUser(req);
+  if (!user) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  }
+
+  const { id } = await params;
+
+  const { error } = await findOwnEntry(id, user);
+  if (error) return error;
+
+  await prisma.timeEntry.delete({ where: { id } });
+
+  return NextResponse.json({ success: true });
+}
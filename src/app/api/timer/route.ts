@@ -0,0 +1,19 @@
+import { NextRequest, NextResponse } from "next/server";
+import { prisma } from "@/lib/prisma";
+import { getAuthUser } from "@/lib/mobile-auth";
+import { timeEntryInclude } from "@/lib/timers";
+
+// GET /api/timer - The current user's running timer, or null
+export async function GET(req: NextRequest) {
+  const user = await getAuthUser(req);
+  if (!user) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  }
+
+  const entry = await prisma.timeEntry.findFirst({
+    where: { userId: user.id, endedAt: null },
+    include: timeEntryInclude,
+  });
+
+  return NextResponse.json(entry);
+}
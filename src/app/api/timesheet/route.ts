@@ -0,0 +1,39 @@
+import { NextRequest, NextResponse } from "next/server";
+import { getAuthUser } from "@/lib/mobile-auth";
+import { isAdmin } from "@/lib/permissions";
+import { timesheetToCsv } from "@/lib/time-tracking";
+import { getTimesheet, parseTimesheetRange } from "@/lib/timers";
+
+// GET /api/timesheet - A user's time across all boards
+// Query: from, to (yyyy-MM-dd, default this week), format=csv; admins may pass userId
+export async function GET(req: NextRequest) {
+  const user = await getAuthUser(req);
+  if (!user) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  }
+
+  const { searchParams } = new URL(req.url);
+  const requestedUserId = searchParams.get("userId");
+
+  if (requestedUserId && requestedUserId !== user.id && !isAdmin(user)) {
+    return NextResponse.json({ error: "Forbidden" }, { status: 403 });
+  }
+
+  const range = parseTimesheetRange(searchParams);
+  if (!range) {
+    return NextResponse.json({ error: "Invalid date range" }, { status: 400 });
+  }
+
+  const timesheet = await getTimesheet({ userId: requestedUserId || user.id }, range);
+
+  if (searchParams.get("format") === "csv") {
+    return new NextResponse(timesheetToCsv(timesheet), {
+      headers: {
+        "Content-Type": "text/csv; charset=utf-8",
+        "Content-Disposition": `attachment; filename="timesheet-${timesheet.from}-to-${timesheet.to}.csv"`,
+      },
+    });
+  }
+
+  return NextResponse.json(timesheet);
+}
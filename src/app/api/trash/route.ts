@@ -0,0 +1,69 @@
+import { NextRequest, NextResponse } from "next/server";
+import { prisma } from "@/lib/prisma";
+import { getAuthUser } from "@/lib/mobile-auth";
+import { getPurgeDate, TRASH_RETENTION_DAYS, trashDeleterSelect } from "@/lib/trash";
+
+// GET /api/trash - Boards the user owns and tasks they deleted that can still be restored
+export async function GET(req: NextRequest) {
+  const user = await getAuthUser(req);
+  if (!user) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  }
+
+  const boards = await prisma.board.findMany({
+    where: {
+      deletedAt: { not: null },
+      OR: [{ ownerId: user.id }, { deletedById: user.id }],
+    },
+    include: {
+      deletedBy: trashDeleterSelect,
+      _count: { select: { columns: true, members: true } },
+    },
+    orderBy: { deletedAt: "desc" },
+  });
+
+  // Tasks on boards that are themselves in the trash come back with the board
+  const tasks = await prisma.task.findMany({
+    where: {
+      deletedAt: { not: null },
+      deletedById: user.id,
+      column: {
+        board: {
+          deletedAt: null,
+          OR: [{ ownerId: user.id }, { members: { some: { userId: user.id } } }],
+        },
+      },
+    },
+    include: {
+      column: { select: { id: true, name: true, board: { select: { id: true, name: true } } } },
+      parent: { select: { id: true, title: true, deletedAt: true } },
+    },
+    orderBy: { deletedAt: "desc" },
+  });
+
+  const entries = tasks.filter(
+    (t) => !t.parent?.deletedAt || t.parent.deletedAt.getTime() !== t.deletedAt!.getTime()
+  );
+
+  return NextResponse.json({
+    retentionDays: TRASH_RETENTION_DAYS,
+    boards: boards.map((b) => ({
+      id: b.id,
+      name: b.name,
+      description: b.description,
+      _count: b._count,
+      deletedAt: b.deletedAt,
+      deletedBy: b.deletedBy,
+      purgeAt: getPurgeDate(b.deletedAt!),
+    })),
+    tasks: entries.map((t) => ({
+      id: t.id,
+      title: t.title,
+      column: { id: t.column.id, name: t.column.name },
+      board: t.column.board,
+      parent: t.parent && { id: t.parent.id, title: t.parent.title },
+      deletedAt: t.deletedAt,
+      purgeAt: getPurgeDate(t.deletedAt!),
+    })),
+  });
+}
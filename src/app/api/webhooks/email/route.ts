@@ -1,5 +1,6 @@
 import { NextRequest, NextResponse } from "next/server";
 import { prisma } from "@/lib/prisma";
+import { isBoardArchived } from "@/lib/permissions";
 import crypto from "crypto";
 
 // Sanitize HTML to plain text with basic formatting
@@ -202,6 +203,11 @@ export async function POST(request: NextRequest) {
       return NextResponse.json({ error: "Email-to-task disabled" }, { status: 403 });
     }
 
+    if (boardEmail.board.deletedAt || isBoardArchived(boardEmail.board)) {
+      console.error(`Board is archived or deleted: ${boardEmail.boardId}`);
+      return NextResponse.json({ error: "Board is archived" }, { status: 403 });
+    }
+
     // Extract sender email
     const fromMatch = emailData.from.match(/<([^>]+)>/) || [null, emailData.from];
     const fromEmail = fromMatch[1]?.toLowerCase().trim() || emailData.from.toLowerCase().trim();
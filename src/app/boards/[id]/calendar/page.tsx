@@ -5,7 +5,7 @@ import { useRouter, useParams } from "next/navigation";
 import { useEffect, useState, useCallback, useMemo, Suspense } from "react";
 import Link from "next/link";
 import Image from "next/image";
-import type { Board, Column, Task, User, Label } from "@/types";
+import type { Board, Column, Task, User, Label, VersionConflict } from "@/types";
 import { Calendar, CalendarListView } from "@/components/Calendar";
 import { TaskDetailPanel } from "@/components/TaskDetailPanel";
 import { FilterBar } from "@/components/FilterBar";
@@ -121,6 +121,17 @@ function CalendarViewContent() {
     );
   }, [columns]);
 
+  // Collect the epics used on this board for the epic filter
+  const allEpics = useMemo(() => {
+    const epicMap = new Map<string, { id: string; title: string }>();
+    columns.forEach((col) => {
+      col.tasks?.forEach((task) => {
+        if (task.epic) epicMap.set(task.epic.id, { id: task.epic.id, title: task.epic.title });
+      });
+    });
+    return Array.from(epicMap.values()).sort((a, b) => a.title.localeCompare(b.title));
+  }, [columns]);
+
   // Get all tasks flattened (excluding subtasks)
   const allTasks = useMemo(() => {
     return columns.flatMap((col) =>
@@ -192,7 +203,7 @@ function CalendarViewContent() {
   const handleUpdateTask = async (
     taskId: string,
     updates: Partial<Task> & { labelIds?: string[] }
-  ) => {
+  ): Promise<VersionConflict<Task> | undefined> => {
     try {
       const res = await fetch(`/api/tasks/${taskId}`, {
         method: "PATCH",
@@ -223,6 +234,14 @@ function CalendarViewContent() {
         if (selectedTask?.id === taskId) {
           setSelectedTask(updatedTask);
         }
+        // Auto-scheduling may have pushed the tasks this one blocks
+        if (board?.autoSchedule && (updates.startDate !== undefined || updates.dueDate !== undefined)) {
+          fetchBoard();
+        }
+      } else {
+        const data = await res.json().catch(() => ({}));
+        // The panel merges edits that raced someone else's
+        if (data.code === "VERSION_CONFLICT") return data;
       }
     } catch (error) {
       console.error("Failed to update task:", error);
@@ -230,7 +249,7 @@ function CalendarViewContent() {
   };
 
   const handleDeleteTask = async (taskId: string) => {
-    if (!confirm("Delete this task?")) return;
+    if (!confirm("Move this task to the trash?")) return;
     try {
       const res = await fetch(`/api/tasks/${taskId}`, { method: "DELETE" });
       if (res.ok) {
@@ -387,6 +406,8 @@ function CalendarViewContent() {
             activeFilterCount={activeFilterCount}
             users={users}
             allLabels={allLabels}
+            sprints={board?.sprints}
+            allEpics={allEpics}
           />
         </div>
       </header>
@@ -495,6 +516,8 @@ function CalendarViewContent() {
           users={users}
           boardId={boardId}
           availableLabels={availableLabels}
+          sprints={board?.sprints}
+          pointScale={board?.pointScale}
           onClose={() => setSelectedTask(null)}
           onUpdate={handleUpdateTask}
           onDelete={handleDeleteTask}
@@ -502,6 +525,10 @@ function CalendarViewContent() {
             fetchLabels();
             fetchBoard();
           }}
+          onSeriesChange={(task) => {
+            fetchBoard();
+            if (task) setSelectedTask(task);
+          }}
         />
       )}
     </div>
@@ -22,17 +22,28 @@ import {
   arrayMove,
   horizontalListSortingStrategy,
 } from "@dnd-kit/sortable";
-import type { Board, Column as ColumnType, Task, User, Priority, Label } from "@/types";
+import type { Board, Column as ColumnType, Task, User, Priority, Label, CustomField, NorthStar, SwimlaneGroupBy, VersionConflict } from "@/types";
 import { Column } from "@/components/Column";
+import { SwimlaneBoard } from "@/components/SwimlaneBoard";
+import {
+  SWIMLANE_GROUPINGS,
+  getLaneChangeUpdates,
+  getSwimlanes,
+  getTaskLaneKey,
+  isGroupableField,
+  parseSwimlaneCellId,
+} from "@/lib/swimlanes";
 import { TaskCard } from "@/components/TaskCard";
 import { TaskDetailPanel } from "@/components/TaskDetailPanel";
 import { NotificationBell } from "@/components/NotificationBell";
 import { FilterBar } from "@/components/FilterBar";
 import { useFilters } from "@/hooks/useFilters";
 import { useBoardEvents, BoardEvent } from "@/hooks/useBoardEvents";
+import { useTaskPresence } from "@/hooks/useTaskPresence";
 import { ToastContainer, useToasts } from "@/components/Toast";
 import { PresenceIndicator } from "@/components/PresenceIndicator";
 import { LabelManager } from "@/components/LabelManager";
+import { SprintManager } from "@/components/SprintManager";
 import { BoardSettings } from "@/components/BoardSettings";
 import { InviteModal } from "@/components/InviteModal";
 import { KeyboardShortcutsModal, KeyboardShortcutsButton } from "@/components/KeyboardShortcutsModal";
@@ -65,6 +76,7 @@ function BoardPageContent() {
   const [newColumnName, setNewColumnName] = useState("");
   const [recentlyChangedTasks, setRecentlyChangedTasks] = useState<Set<string>>(new Set());
   const [showLabelManager, setShowLabelManager] = useState(false);
+  const [showSprintManager, setShowSprintManager] = useState(false);
   const [showBoardSettings, setShowBoardSettings] = useState(false);
   const [showInviteModal, setShowInviteModal] = useState(false);
   const [availableLabels, setAvailableLabels] = useState<Label[]>([]);
@@ -75,6 +87,10 @@ function BoardPageContent() {
   const [showArchived, setShowArchived] = useState(false);
   const [pendingCalendarTask, setPendingCalendarTask] = useState<{ id: string; title: string; start: Date; end: Date } | null>(null);
   const [scheduledTaskIds, setScheduledTaskIds] = useState<Set<string>>(new Set());
+  const [swimlaneGroupBy, setSwimlaneGroupBy] = useState<SwimlaneGroupBy>("none");
+  const [collapsedSwimlanes, setCollapsedSwimlanes] = useState<string[]>([]);
+  const [customFields, setCustomFields] = useState<CustomField[]>([]);
+  const [northStars, setNorthStars] = useState<NorthStar[]>([]);
   const { toasts, addToast, dismissToast } = useToasts();
   const { isOpen: isCalendarOpen, toggleCalendar, closeCalendar, createEvent, updateEvent, deleteEvent, width: calendarWidth, handleWidthChange: handleCalendarWidthChange } = useCalendar();
   
@@ -147,13 +163,78 @@ function BoardPageContent() {
     }
   }, [boardId]);
 
+  const fetchPreferences = useCallback(async () => {
+    try {
+      const res = await fetch(`/api/boards/${boardId}/preferences`);
+      if (res.ok) {
+        const data = await res.json();
+        setSwimlaneGroupBy(data.swimlaneGroupBy);
+        setCollapsedSwimlanes(data.collapsedSwimlanes || []);
+      }
+    } catch (error) {
+      console.error("Failed to fetch preferences:", error);
+    }
+  }, [boardId]);
+
+  const fetchCustomFields = useCallback(async () => {
+    try {
+      const res = await fetch(`/api/boards/${boardId}/custom-fields`);
+      if (res.ok) {
+        const data = await res.json();
+        setCustomFields(data);
+      }
+    } catch (error) {
+      console.error("Failed to fetch custom fields:", error);
+    }
+  }, [boardId]);
+
   useEffect(() => {
     if (session) {
       fetchBoard();
       fetchUsers();
       fetchLabels();
+      fetchPreferences();
+      fetchCustomFields();
     }
-  }, [session, fetchBoard, fetchUsers, fetchLabels]);
+  }, [session, fetchBoard, fetchUsers, fetchLabels, fetchPreferences, fetchCustomFields]);
+
+  // North Stars are only needed as lanes
+  useEffect(() => {
+    if (!session || swimlaneGroupBy !== "northStar") return;
+    fetch("/api/life/north-stars")
+      .then((res) => (res.ok ? res.json() : []))
+      .then((data) => setNorthStars(data))
+      .catch((error) => console.error("Failed to fetch North Stars:", error));
+  }, [session, swimlaneGroupBy]);
+
+  const savePreferences = useCallback(
+    async (updates: { swimlaneGroupBy?: SwimlaneGroupBy; collapsedSwimlanes?: string[] }) => {
+      try {
+        await fetch(`/api/boards/${boardId}/preferences`, {
+          method: "PATCH",
+          headers: { "Content-Type": "application/json" },
+          body: JSON.stringify(updates),
+        });
+      } catch (error) {
+        console.error("Failed to save preferences:", error);
+      }
+    },
+    [boardId]
+  );
+
+  const handleSwimlaneGroupByChange = (groupBy: SwimlaneGroupBy) => {
+    setSwimlaneGroupBy(groupBy);
+    setCollapsedSwimlanes([]);
+    savePreferences({ swimlaneGroupBy: groupBy });
+  };
+
+  const handleToggleSwimlane = (laneKey: string) => {
+    const next = collapsedSwimlanes.includes(laneKey)
+      ? collapsedSwimlanes.filter((k) => k !== laneKey)
+      : [...collapsedSwimlanes, laneKey];
+    setCollapsedSwimlanes(next);
+    savePreferences({ collapsedSwimlanes: next });
+  };
 
   // Handle real-time events from other users
   const handleBoardEvent = useCallback((event: BoardEvent) => {
@@ -228,10 +309,20 @@ function BoardPageContent() {
         addToast("A task was deleted", "warning");
         break;
 
-      case "task:moved":
+      case "task:moved": {
+        // Let the team know when a move pushes a column past its WIP limit
+        const targetLoad = event.loads?.find((l) => l.columnId === event.columnId);
+        if (targetLoad?.overLimit) {
+          const targetColumn = columns.find((c) => c.id === event.columnId);
+          addToast(
+            `"${targetColumn?.name ?? "Column"}" is over its WIP limit (${targetLoad.taskCount}/${targetLoad.wipLimit})`,
+            "warning"
+          );
+        }
         // For moves, just refresh to ensure consistency
         fetchBoard();
         break;
+      }
 
       case "column:created": {
         const newColumn = event.column;
@@ -281,8 +372,13 @@ function BoardPageContent() {
       case "user:left":
         // Handled by the hook's connectedUsers state
         break;
+
+      case "resync":
+        // Missed more than the server could replay while disconnected
+        fetchBoard();
+        break;
     }
-  }, [session?.user?.id, addToast, fetchBoard]);
+  }, [session?.user?.id, addToast, fetchBoard, columns]);
 
   // Subscribe to real-time board events
   const { isConnected, connectedUsers } = useBoardEvents(boardId, {
@@ -290,6 +386,9 @@ function BoardPageContent() {
     enabled: !!session && !!boardId,
   });
 
+  // Who else has which task open, for the avatars on cards
+  const taskViewers = useTaskPresence(boardId, !!session);
+
   // Get all tasks (flat) and identify which are parent tasks
   const getAllTasks = useCallback(() => {
     return columns.flatMap((col) => col.tasks || []);
@@ -314,6 +413,13 @@ function BoardPageContent() {
     [columns]
   );
 
+  // Column under the pointer: a column, a task in it, or a swimlane cell
+  const resolveOverColumn = (overId: string): ColumnType | undefined => {
+    const cell = parseSwimlaneCellId(overId);
+    if (cell) return columns.find((col) => col.id === cell.columnId);
+    return columns.find((col) => col.id === overId) || findColumnByTaskId(overId);
+  };
+
   // Check if we're dragging a column
   const isColumnDrag = (id: string): boolean => {
     return columns.some((col) => col.id === id);
@@ -353,7 +459,7 @@ function BoardPageContent() {
       if (overId.startsWith('calendar-slot-')) return;
 
       const activeColumn = findColumnByTaskId(activeId);
-      const overColumn = columns.find((col) => col.id === overId) || findColumnByTaskId(overId);
+      const overColumn = resolveOverColumn(overId);
 
       if (!activeColumn || !overColumn) return;
 
@@ -464,7 +570,7 @@ function BoardPageContent() {
 
     // Handle task dragging
     const activeColumn = findColumnByTaskId(activeId);
-    const overColumn = columns.find((col) => col.id === overId) || findColumnByTaskId(overId);
+    const overColumn = resolveOverColumn(overId);
 
     if (!activeColumn || !overColumn) return;
 
@@ -494,16 +600,47 @@ function BoardPageContent() {
     const newPosition = targetTasks.findIndex((t) => t.id === activeId);
     const finalPosition = newPosition >= 0 ? newPosition : targetTasks.length;
 
+    // Dropping into another swimlane changes the grouped attribute
+    let laneUpdates: Record<string, unknown> | null = null;
+    if (swimlaneGroupBy !== "none" && dragData?.type === "task") {
+      const draggedTask = dragData.item as Task;
+      const cell = parseSwimlaneCellId(overId);
+      const overTask = cell ? undefined : getAllTasks().find((t) => t.id === overId);
+      const toLane = cell?.laneKey ??
+        (overTask ? getTaskLaneKey(overTask, swimlaneGroupBy, availableLabels) : undefined);
+      if (toLane && toLane !== getTaskLaneKey(draggedTask, swimlaneGroupBy, availableLabels)) {
+        laneUpdates = getLaneChangeUpdates(draggedTask, swimlaneGroupBy, toLane, availableLabels);
+      }
+    }
+
     // Save to API
     try {
-      await fetch(`/api/tasks/${activeId}`, {
+      const res = await fetch(`/api/tasks/${activeId}`, {
         method: "PATCH",
         headers: { "Content-Type": "application/json" },
         body: JSON.stringify({
           columnId: targetColumnId,
           position: finalPosition,
+          ...laneUpdates,
         }),
       });
+      const data = await res.json().catch(() => ({}));
+      if (!res.ok) {
+        addToast(data.error || "Failed to move task", "error");
+        fetchBoard();
+      } else {
+        const { wipWarning, ...updatedTask } = data;
+        if (laneUpdates) {
+          setColumns((prev) =>
+            prev.map((col) => ({
+              ...col,
+              tasks: col.tasks?.map((t) => (t.id === activeId ? { ...t, ...updatedTask } : t)),
+            }))
+          );
+        }
+        // The column's in "warn" mode and this took it over its limit
+        if (wipWarning) addToast(`${wipWarning}; it's over the limit now`, "warning");
+      }
     } catch (error) {
       console.error("Failed to update task position:", error);
       fetchBoard();
@@ -521,7 +658,7 @@ function BoardPageContent() {
         body: JSON.stringify({ title }),
       });
       if (res.ok) {
-        const task = await res.json();
+        const { wipWarning, ...task } = await res.json();
         setColumns((prev) =>
           prev.map((col) => {
             if (col.id === columnId) {
@@ -530,13 +667,52 @@ function BoardPageContent() {
             return col;
           })
         );
+        if (wipWarning) addToast(`${wipWarning}; it's over the limit now`, "warning");
+      } else {
+        const data = await res.json().catch(() => ({}));
+        addToast(data.error || "Failed to create task", "error");
       }
     } catch (error) {
       console.error("Failed to create task:", error);
     }
   };
 
-  const handleUpdateTask = async (taskId: string, updates: Partial<Task> & { labelIds?: string[] }) => {
+  const handleUpdateColumn = async (columnId: string, updates: Partial<ColumnType>) => {
+    const version = columns.find((col) => col.id === columnId)?.version;
+    try {
+      const res = await fetch(`/api/columns/${columnId}`, {
+        method: "PATCH",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ ...updates, version }),
+      });
+      if (res.ok) {
+        const updated = await res.json();
+        setColumns((prev) =>
+          prev.map((col) =>
+            col.id === columnId ? { ...col, ...updated, tasks: col.tasks } : col
+          )
+        );
+      } else {
+        const data = await res.json().catch(() => ({}));
+        if (data.code === "VERSION_CONFLICT") {
+          // Show their settings; the user can reapply theirs from there
+          setColumns((prev) =>
+            prev.map((col) => (col.id === columnId ? { ...col, ...data.current, tasks: col.tasks } : col))
+          );
+          addToast("Someone else changed this column meanwhile. Their changes are shown; try yours again.", "error");
+          return;
+        }
+        addToast(data.error || "Failed to update column", "error");
+      }
+    } catch (error) {
+      console.error("Failed to update column:", error);
+    }
+  };
+
+  const handleUpdateTask = async (
+    taskId: string,
+    updates: Partial<Task> & { labelIds?: string[] }
+  ): Promise<VersionConflict<Task> | undefined> => {
     try {
       const res = await fetch(`/api/tasks/${taskId}`, {
         method: "PATCH",
@@ -544,7 +720,8 @@ function BoardPageContent() {
         body: JSON.stringify(updates),
       });
       if (res.ok) {
-        const updatedTask = await res.json();
+        const { wipWarning, ...updatedTask } = await res.json();
+        if (wipWarning) addToast(`${wipWarning}; it's over the limit now`, "warning");
         setColumns((prev) =>
           prev.map((col) => {
             if (updates.columnId && col.id === updates.columnId) {
@@ -566,6 +743,15 @@ function BoardPageContent() {
         if (selectedTask?.id === taskId) {
           setSelectedTask(updatedTask);
         }
+        // Auto-scheduling may have pushed the tasks this one blocks
+        if (board?.autoSchedule && (updates.startDate !== undefined || updates.dueDate !== undefined)) {
+          fetchBoard();
+        }
+      } else {
+        const data = await res.json();
+        // The panel merges edits that raced someone else's
+        if (data.code === "VERSION_CONFLICT") return data;
+        addToast(data.error || "Failed to update task", "error");
       }
     } catch (error) {
       console.error("Failed to update task:", error);
@@ -589,7 +775,7 @@ function BoardPageContent() {
   };
 
   const handleDeleteTask = async (taskId: string) => {
-    if (!confirm("Delete this task?")) return;
+    if (!confirm("Move this task to the trash?")) return;
     try {
       const res = await fetch(`/api/tasks/${taskId}`, { method: "DELETE" });
       if (res.ok) {
@@ -654,6 +840,17 @@ function BoardPageContent() {
     return Array.from(labelMap.values()).sort((a, b) => a.name.localeCompare(b.name));
   }, [columns]);
 
+  // Collect the epics used on this board for the epic filter
+  const allEpics = useMemo(() => {
+    const epicMap = new Map<string, { id: string; title: string }>();
+    columns.forEach((col) => {
+      col.tasks?.forEach((task) => {
+        if (task.epic) epicMap.set(task.epic.id, { id: task.epic.id, title: task.epic.title });
+      });
+    });
+    return Array.from(epicMap.values()).sort((a, b) => a.title.localeCompare(b.title));
+  }, [columns]);
+
   // Filter tasks - only show parent tasks (not subtasks)
   const filteredColumns = useMemo(() => {
     return columns.map((col) => {
@@ -676,6 +873,26 @@ function BoardPageContent() {
     );
   }, [columns]);
 
+  // Active (unfiltered, non-archived) task count per column for WIP limits
+  const activeTaskCounts = useMemo(() => {
+    return new Map(
+      columns.map((col) => [
+        col.id,
+        col.tasks?.filter((t) => !t.parentId && !t.archived).length || 0,
+      ])
+    );
+  }, [columns]);
+
+  const swimlanes = useMemo(() => {
+    return getSwimlanes(swimlaneGroupBy, {
+      tasks: columns.flatMap((col) => col.tasks || []),
+      users,
+      labels: availableLabels,
+      customFields,
+      northStars,
+    });
+  }, [swimlaneGroupBy, columns, users, availableLabels, customFields, northStars]);
+
   // Column IDs for sortable context
   const columnIds = useMemo(() => columns.map((col) => col.id), [columns]);
 
@@ -839,6 +1056,8 @@ function BoardPageContent() {
           setSelectedTask(null);
         } else if (showLabelManager) {
           setShowLabelManager(false);
+        } else if (showSprintManager) {
+          setShowSprintManager(false);
         } else if (showBoardSettings) {
           setShowBoardSettings(false);
         } else if (showInviteModal) {
@@ -933,6 +1152,7 @@ function BoardPageContent() {
     selectedTask,
     showKeyboardShortcuts,
     showLabelManager,
+    showSprintManager,
     showBoardSettings,
     showInviteModal,
     showAddColumn,
@@ -1032,6 +1252,15 @@ function BoardPageContent() {
               </svg>
               Labels
             </button>
+            <button
+              onClick={() => setShowSprintManager(true)}
+              className="flex items-center gap-2 text-slate-400 hover:text-white text-sm transition-colors"
+            >
+              <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M4 4v5h.582m15.356 2A8.001 8.001 0 004.582 9m0 0H9m11 11v-5h-.581m0 0a8.003 8.003 0 01-15.357-2m15.357 2H15" />
+              </svg>
+              Sprints
+            </button>
             <Link
               href="/my-tasks"
               className="flex items-center gap-2 text-slate-400 hover:text-white text-sm transition-colors"
@@ -1041,6 +1270,15 @@ function BoardPageContent() {
               </svg>
               My Tasks
             </Link>
+            <Link
+              href={`/boards/${boardId}/timesheet`}
+              className="flex items-center gap-2 text-slate-400 hover:text-white text-sm transition-colors"
+            >
+              <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M12 8v4l3 3m6-3a9 9 0 11-18 0 9 9 0 0118 0z" />
+              </svg>
+              Timesheet
+            </Link>
             {/* Real-time presence indicator - removed due to flicker issues */}
             {/* View Switcher */}
             <div className="hidden sm:flex items-center bg-slate-700 rounded-lg p-0.5">
@@ -1123,7 +1361,26 @@ function BoardPageContent() {
             activeFilterCount={activeFilterCount}
             users={users}
             allLabels={allLabels}
+            sprints={board?.sprints}
+            allEpics={allEpics}
           />
+          <select
+            value={swimlaneGroupBy}
+            onChange={(e) => handleSwimlaneGroupByChange(e.target.value as SwimlaneGroupBy)}
+            className="bg-slate-700 border border-slate-600 rounded-lg px-3 py-1.5 text-sm text-slate-200 focus:outline-none focus:ring-2 focus:ring-indigo-500"
+            title="Swimlanes"
+          >
+            {SWIMLANE_GROUPINGS.map((g) => (
+              <option key={g.id} value={g.id}>
+                {g.id === "none" ? g.label : `Lanes: ${g.label}`}
+              </option>
+            ))}
+            {customFields.filter(isGroupableField).map((field) => (
+              <option key={field.id} value={`field:${field.id}`}>
+                Lanes: {field.name}
+              </option>
+            ))}
+          </select>
           <button
             onClick={() => setShowArchived(!showArchived)}
             className={`flex items-center gap-1.5 px-3 py-1.5 text-sm rounded-lg transition-colors ${
@@ -1140,6 +1397,13 @@ function BoardPageContent() {
         </div>
       </header>
 
+      {/* Archived boards are read-only */}
+      {board.archivedAt && (
+        <div className="mx-6 mt-4 p-3 bg-orange-500/10 border border-orange-500/30 rounded-lg text-orange-300 text-sm">
+          This board is archived and read-only. Unarchive it from Board Settings to make changes.
+        </div>
+      )}
+
       {/* No results message */}
       {hasActiveFilters && totalFilteredTasks === 0 && totalTasks > 0 && (
         <div className="mx-6 mt-4 p-4 bg-slate-800/50 border border-slate-700 rounded-lg flex items-center justify-between">
@@ -1172,6 +1436,25 @@ function BoardPageContent() {
           onDragOver={handleDragOver}
           onDragEnd={handleDragEnd}
         >
+          {swimlaneGroupBy !== "none" ? (
+            <SwimlaneBoard
+              columns={filteredColumns}
+              lanes={swimlanes}
+              groupBy={swimlaneGroupBy}
+              labels={availableLabels}
+              collapsedLanes={collapsedSwimlanes}
+              onToggleLane={handleToggleSwimlane}
+              onTaskClick={(task) => {
+                setSelectedTask(task);
+                setSelectedTaskId(task.id);
+              }}
+              onToggleSubtask={handleToggleSubtask}
+              selectedTaskId={selectedTaskId}
+              scheduledTaskIds={scheduledTaskIds}
+              taskViewers={taskViewers}
+              activeTaskCounts={activeTaskCounts}
+            />
+          ) : (
           <SortableContext
             items={columnIds}
             strategy={horizontalListSortingStrategy}
@@ -1202,9 +1485,12 @@ function BoardPageContent() {
                     addToast(`Created: ${task.title}`, "success");
                   }}
                   onDeleteColumn={() => handleDeleteColumn(column.id)}
+                  onUpdateColumn={handleUpdateColumn}
                   onToggleSubtask={handleToggleSubtask}
                   selectedTaskId={selectedTaskId}
                   scheduledTaskIds={scheduledTaskIds}
+                  taskViewers={taskViewers}
+                  activeTaskCount={activeTaskCounts.get(column.id)}
                 />
               ))}
 
@@ -1257,6 +1543,7 @@ function BoardPageContent() {
               )}
             </div>
           </SortableContext>
+          )}
 
           <DragOverlay>
             {activeDrag?.type === "task" ? (
@@ -1345,6 +1632,8 @@ function BoardPageContent() {
           users={users}
           boardId={boardId}
           availableLabels={availableLabels}
+          sprints={board?.sprints}
+          pointScale={board?.pointScale}
           allBoardTasks={allBoardTasks}
           onClose={() => setSelectedTask(null)}
           onUpdate={handleUpdateTask}
@@ -1356,6 +1645,27 @@ function BoardPageContent() {
           onSubtasksChange={() => {
             fetchBoard();
           }}
+          onMerged={(canonical) => {
+            addToast("Duplicate merged", "success");
+            fetchBoard();
+            setSelectedTask(canonical);
+          }}
+          onSeriesChange={(task) => {
+            fetchBoard();
+            if (task) setSelectedTask(task);
+          }}
+          onTransferred={(_task, mode) => {
+            addToast(mode === "move" ? "Task moved to the other board" : "Task copied to the other board", "success");
+            if (mode === "move") {
+              setColumns((prev) =>
+                prev.map((col) => ({
+                  ...col,
+                  tasks: col.tasks?.filter((t) => t.id !== selectedTask.id) || [],
+                }))
+              );
+              setSelectedTask(null);
+            }
+          }}
         />
       )}
 
@@ -1370,6 +1680,15 @@ function BoardPageContent() {
         }}
       />
 
+      {/* Sprint Manager Modal */}
+      <SprintManager
+        boardId={boardId}
+        isOpen={showSprintManager}
+        readOnly={!!board?.archivedAt}
+        onClose={() => setShowSprintManager(false)}
+        onSprintsChange={fetchBoard}
+      />
+
       {/* Board Settings Modal */}
       {board && session?.user?.id && (
         <BoardSettings
@@ -1384,6 +1703,7 @@ function BoardPageContent() {
           onBoardDelete={() => {
             router.push("/");
           }}
+          onTaskRestored={fetchBoard}
         />
       )}
 
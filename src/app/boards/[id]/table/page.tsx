@@ -10,8 +10,9 @@ import { format } from "date-fns";
 import clsx from "clsx";
 import { FilterBar } from "@/components/FilterBar";
 import { useFilters } from "@/hooks/useFilters";
+import { getTaskPoints, sumPoints } from "@/lib/story-points";
 
-type SortField = "title" | "status" | "assignee" | "dueDate" | "priority";
+type SortField = "title" | "status" | "assignee" | "dueDate" | "priority" | "points";
 type SortOrder = "asc" | "desc";
 
 const priorityOrder: Record<Priority, number> = {
@@ -116,6 +117,17 @@ function TableViewContent() {
     return Array.from(labelMap.values()).sort((a, b) => a.name.localeCompare(b.name));
   }, [columns]);
 
+  // Collect the epics used on this board for the epic filter
+  const allEpics = useMemo(() => {
+    const epicMap = new Map<string, { id: string; title: string }>();
+    columns.forEach((col) => {
+      col.tasks?.forEach((task) => {
+        if (task.epic) epicMap.set(task.epic.id, { id: task.epic.id, title: task.epic.title });
+      });
+    });
+    return Array.from(epicMap.values()).sort((a, b) => a.title.localeCompare(b.title));
+  }, [columns]);
+
   // Get all tasks flattened (excluding subtasks)
   const allTasks = useMemo(() => {
     return columns.flatMap((col) =>
@@ -159,6 +171,11 @@ function TableViewContent() {
         comparison =
           priorityOrder[b.priority as Priority] - priorityOrder[a.priority as Priority];
         break;
+      case "points":
+        // Unestimated tasks sort after estimated ones
+        comparison = (getTaskPoints(a) ?? Infinity) - (getTaskPoints(b) ?? Infinity);
+        if (Number.isNaN(comparison)) comparison = 0;
+        break;
     }
 
     return sortOrder === "asc" ? comparison : -comparison;
@@ -211,7 +228,7 @@ function TableViewContent() {
     if (selectedTasks.size === 0) return;
 
     if (action === "delete") {
-      if (!confirm(`Delete ${selectedTasks.size} tasks?`)) return;
+      if (!confirm(`Move ${selectedTasks.size} tasks to the trash?`)) return;
       for (const taskId of selectedTasks) {
         await fetch(`/api/tasks/${taskId}`, { method: "DELETE" });
       }
@@ -336,6 +353,8 @@ function TableViewContent() {
             activeFilterCount={activeFilterCount}
             users={users}
             allLabels={allLabels}
+            sprints={board?.sprints}
+            allEpics={allEpics}
           />
           
           {/* Column/Status filter - specific to table view */}
@@ -463,6 +482,15 @@ function TableViewContent() {
                   <SortIcon field="priority" />
                 </div>
               </th>
+              <th
+                className="px-3 py-1.5 text-right text-xs font-medium text-slate-300 cursor-pointer hover:text-white"
+                onClick={() => handleSort("points")}
+              >
+                <div className="flex items-center justify-end gap-1">
+                  Points
+                  <SortIcon field="points" />
+                </div>
+              </th>
               <th className="px-3 py-1.5 text-left text-xs font-medium text-slate-300">
                 Subtasks
               </th>
@@ -593,6 +621,9 @@ function TableViewContent() {
                     </option>
                   </select>
                 </td>
+                <td className="px-3 py-1 text-right text-xs text-slate-300">
+                  {getTaskPoints(task) ?? <span className="text-slate-600">—</span>}
+                </td>
                 <td className="px-3 py-1">
                   {task.subtasks && task.subtasks.length > 0 ? (
                     <div className="flex items-center gap-1">
@@ -633,6 +664,17 @@ function TableViewContent() {
               </tr>
             ))}
           </tbody>
+          {sortedTasks.length > 0 && (
+            <tfoot className="bg-slate-800 border-t border-slate-600">
+              <tr>
+                <td colSpan={6} className="px-3 py-1.5 text-xs text-slate-400">
+                  {sortedTasks.length} task{sortedTasks.length === 1 ? "" : "s"}
+                </td>
+                <td className="px-3 py-1.5 text-right text-xs font-medium text-white">{sumPoints(sortedTasks)}</td>
+                <td colSpan={2} />
+              </tr>
+            </tfoot>
+          )}
         </table>
 
         {sortedTasks.length === 0 && (
@@ -5,12 +5,13 @@ import { useRouter, useParams } from "next/navigation";
 import { useEffect, useState, useCallback, useMemo, Suspense } from "react";
 import Link from "next/link";
 import Image from "next/image";
-import type { Board, Column, Task, User, Label } from "@/types";
+import type { Baseline, Board, BoardSchedule, Column, Task, User, Label, VersionConflict } from "@/types";
 import { Timeline, TimelineSkeleton } from "@/components/Timeline";
 import { TaskDetailPanel } from "@/components/TaskDetailPanel";
 import { FilterBar } from "@/components/FilterBar";
 import { useFilters } from "@/hooks/useFilters";
 import { NotificationBell } from "@/components/NotificationBell";
+import { BaselineManager } from "@/components/BaselineManager";
 
 function TimelineViewContent() {
   const { data: session, status } = useSession();
@@ -24,6 +25,10 @@ function TimelineViewContent() {
   const [availableLabels, setAvailableLabels] = useState<Label[]>([]);
   const [loading, setLoading] = useState(true);
   const [selectedTask, setSelectedTask] = useState<Task | null>(null);
+  const [schedule, setSchedule] = useState<BoardSchedule | null>(null);
+  const [showBaselines, setShowBaselines] = useState(false);
+  const [baselineId, setBaselineId] = useState<string | null>(null);
+  const [baseline, setBaseline] = useState<Baseline | null>(null);
 
   // Use the shared filter system
   const {
@@ -82,6 +87,28 @@ function TimelineViewContent() {
     }
   }, [boardId]);
 
+  const fetchSchedule = useCallback(async () => {
+    try {
+      const res = await fetch(`/api/boards/${boardId}/schedule`);
+      if (res.ok) {
+        setSchedule(await res.json());
+      }
+    } catch (error) {
+      console.error("Failed to fetch schedule:", error);
+    }
+  }, [boardId]);
+
+  useEffect(() => {
+    if (!baselineId) {
+      setBaseline(null);
+      return;
+    }
+    fetch(`/api/boards/${boardId}/baselines/${baselineId}`)
+      .then((res) => (res.ok ? res.json() : null))
+      .then(setBaseline)
+      .catch((error) => console.error("Failed to fetch baseline:", error));
+  }, [boardId, baselineId]);
+
   useEffect(() => {
     if (session) {
       fetchBoard();
@@ -90,6 +117,13 @@ function TimelineViewContent() {
     }
   }, [session, fetchBoard, fetchUsers, fetchLabels]);
 
+  // Dates and dependencies move with the board, so the arrows follow every refresh
+  useEffect(() => {
+    if (session) {
+      fetchSchedule();
+    }
+  }, [session, columns, fetchSchedule]);
+
   // Collect all unique labels from tasks
   const allLabels = useMemo(() => {
     const labelMap = new Map<string, { id: string; name: string }>();
@@ -109,6 +143,17 @@ function TimelineViewContent() {
     );
   }, [columns]);
 
+  // Collect the epics used on this board for the epic filter
+  const allEpics = useMemo(() => {
+    const epicMap = new Map<string, { id: string; title: string }>();
+    columns.forEach((col) => {
+      col.tasks?.forEach((task) => {
+        if (task.epic) epicMap.set(task.epic.id, { id: task.epic.id, title: task.epic.title });
+      });
+    });
+    return Array.from(epicMap.values()).sort((a, b) => a.title.localeCompare(b.title));
+  }, [columns]);
+
   // Get all tasks flattened (excluding subtasks)
   const allTasks = useMemo(() => {
     return columns.flatMap((col) =>
@@ -154,10 +199,28 @@ function TimelineViewContent() {
     }
   };
 
+  const handleAutoScheduleChange = async (autoSchedule: boolean) => {
+    try {
+      const res = await fetch(`/api/boards/${boardId}`, {
+        method: "PATCH",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ autoSchedule }),
+      });
+      if (res.ok) {
+        setSchedule((prev) => (prev ? { ...prev, autoSchedule } : prev));
+      } else {
+        const data = await res.json();
+        alert(data.error || "Failed to update board");
+      }
+    } catch (error) {
+      console.error("Failed to update board:", error);
+    }
+  };
+
   const handleUpdateTask = async (
     taskId: string,
     updates: Partial<Task> & { labelIds?: string[] }
-  ) => {
+  ): Promise<VersionConflict<Task> | undefined> => {
     try {
       const res = await fetch(`/api/tasks/${taskId}`, {
         method: "PATCH",
@@ -188,6 +251,14 @@ function TimelineViewContent() {
         if (selectedTask?.id === taskId) {
           setSelectedTask(updatedTask);
         }
+        // Auto-scheduling may have pushed the tasks this one blocks
+        if (schedule?.autoSchedule && (updates.startDate !== undefined || updates.dueDate !== undefined)) {
+          fetchBoard();
+        }
+      } else {
+        const data = await res.json().catch(() => ({}));
+        // The panel merges edits that raced someone else's
+        if (data.code === "VERSION_CONFLICT") return data;
       }
     } catch (error) {
       console.error("Failed to update task:", error);
@@ -195,7 +266,7 @@ function TimelineViewContent() {
   };
 
   const handleDeleteTask = async (taskId: string) => {
-    if (!confirm("Delete this task?")) return;
+    if (!confirm("Move this task to the trash?")) return;
     try {
       const res = await fetch(`/api/tasks/${taskId}`, { method: "DELETE" });
       if (res.ok) {
@@ -260,6 +331,17 @@ function TimelineViewContent() {
           </div>
 
           <div className="flex items-center gap-4">
+            <button
+              onClick={() => setShowBaselines(true)}
+              className="flex items-center gap-2 px-3 py-1.5 bg-slate-700 hover:bg-slate-600 text-sm text-slate-300 hover:text-white rounded-lg transition-colors"
+              title="Snapshot the plan and see what moved since"
+            >
+              <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M9 5H7a2 2 0 00-2 2v12a2 2 0 002 2h10a2 2 0 002-2V7a2 2 0 00-2-2h-2M9 5a2 2 0 002 2h2a2 2 0 002-2M9 5a2 2 0 012-2h2a2 2 0 012 2m-6 9l2 2 4-4" />
+              </svg>
+              {baseline ? baseline.name : "Baselines"}
+            </button>
+
             {/* View Switcher */}
             <div className="hidden sm:flex items-center bg-slate-700 rounded-lg p-0.5">
               <Link
@@ -359,6 +441,8 @@ function TimelineViewContent() {
             activeFilterCount={activeFilterCount}
             users={users}
             allLabels={allLabels}
+            sprints={board?.sprints}
+            allEpics={allEpics}
           />
         </div>
       </header>
@@ -401,9 +485,27 @@ function TimelineViewContent() {
           columns={columns}
           onTaskClick={handleTaskClick}
           onTaskMove={handleTaskMove}
+          schedule={schedule}
+          onAutoScheduleChange={handleAutoScheduleChange}
+          baseline={baseline}
         />
       </div>
 
+      <BaselineManager
+        boardId={boardId}
+        isOpen={showBaselines}
+        selectedId={baselineId}
+        onSelect={setBaselineId}
+        onClose={() => setShowBaselines(false)}
+        onTaskClick={(taskId) => {
+          const task = allTasks.find((t) => t.id === taskId);
+          if (task) {
+            setShowBaselines(false);
+            setSelectedTask(task);
+          }
+        }}
+      />
+
       {/* Task Detail Panel */}
       {selectedTask && (
         <TaskDetailPanel
@@ -412,6 +514,8 @@ function TimelineViewContent() {
           users={users}
           boardId={boardId}
           availableLabels={availableLabels}
+          sprints={board?.sprints}
+          pointScale={board?.pointScale}
           allBoardTasks={allBoardTasks}
           onClose={() => setSelectedTask(null)}
           onUpdate={handleUpdateTask}
@@ -420,6 +524,10 @@ function TimelineViewContent() {
             fetchLabels();
             fetchBoard();
           }}
+          onSeriesChange={(task) => {
+            fetchBoard();
+            if (task) setSelectedTask(task);
+          }}
         />
       )}
     </div>
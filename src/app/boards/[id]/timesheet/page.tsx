@@ -0,0 +1,66 @@
+"use client";
+
+import { useSession } from "next-auth/react";
+import { useParams, useRouter } from "next/navigation";
+import { useEffect, useState } from "react";
+import Link from "next/link";
+import type { Board } from "@/types";
+import { TimesheetReport } from "@/components/TimesheetReport";
+
+export default function BoardTimesheetPage() {
+  const { data: session, status } = useSession();
+  const router = useRouter();
+  const params = useParams();
+  const boardId = params.id as string;
+  const [board, setBoard] = useState<Board | null>(null);
+
+  useEffect(() => {
+    if (status === "unauthenticated") {
+      router.push("/login");
+    }
+  }, [status, router]);
+
+  useEffect(() => {
+    if (!session) return;
+    fetch(`/api/boards/${boardId}`)
+      .then((res) => (res.ok ? res.json() : null))
+      .then(setBoard)
+      .catch((err) => console.error("Failed to fetch board:", err));
+  }, [session, boardId]);
+
+  if (status === "loading") {
+    return (
+      <div className="min-h-screen flex items-center justify-center bg-slate-900">
+        <div className="animate-spin rounded-full h-8 w-8 border-t-2 border-b-2 border-indigo-500"></div>
+      </div>
+    );
+  }
+
+  if (!session) return null;
+
+  return (
+    <div className="min-h-screen bg-slate-900">
+      {/* Header */}
+      <header className="border-b border-slate-700 bg-slate-800/50 backdrop-blur-sm sticky top-0 z-10">
+        <div className="max-w-5xl mx-auto px-6 py-4 flex items-center gap-4">
+          <Link href={`/boards/${boardId}`} className="text-slate-400 hover:text-white transition-colors">
+            <svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M10 19l-7-7m0 0l7-7m-7 7h18" />
+            </svg>
+          </Link>
+          <div>
+            <h1 className="text-xl font-bold text-white">Timesheet</h1>
+            {board && <p className="text-sm text-slate-400">{board.name}</p>}
+          </div>
+        </div>
+      </header>
+
+      <main className="max-w-5xl mx-auto px-6 py-8">
+        <TimesheetReport
+          endpoint={`/api/boards/${boardId}/timesheet`}
+          users={board?.members?.flatMap((m) => (m.user ? [m.user] : []))}
+        />
+      </main>
+    </div>
+  );
+}
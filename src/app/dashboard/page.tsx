@@ -129,6 +129,7 @@ export default function DashboardPage() {
       assigned: "Assigned",
       priority_changed: "Changed priority",
       due_date_changed: "Changed due date",
+      start_date_changed: "Changed start date",
     };
     return actionMap[action] || action;
   };
@@ -0,0 +1,265 @@
+"use client";
+
+import { useSession } from "next-auth/react";
+import { useParams, useRouter } from "next/navigation";
+import { useCallback, useEffect, useMemo, useState } from "react";
+import Link from "next/link";
+import { format } from "date-fns";
+import clsx from "clsx";
+import { COLUMN_CATEGORIES, isTaskFinished } from "@/lib/column-categories";
+import type { ColumnCategory, Epic, Priority, User } from "@/types";
+
+interface EpicTask {
+  id: string;
+  title: string;
+  priority: Priority;
+  completed: boolean;
+  startDate: string | null;
+  dueDate: string | null;
+  assignee: Pick<User, "id" | "name" | "email" | "image"> | null;
+  column: {
+    id: string;
+    name: string;
+    category: ColumnCategory;
+    board: { id: string; name: string };
+  };
+}
+
+const priorityColors: Record<Priority, string> = {
+  low: "bg-green-500",
+  medium: "bg-blue-500",
+  high: "bg-amber-500",
+  urgent: "bg-red-500",
+};
+
+export default function EpicPage() {
+  const { data: session, status } = useSession();
+  const router = useRouter();
+  const params = useParams();
+  const epicId = params.id as string;
+  const [epic, setEpic] = useState<Epic | null>(null);
+  const [tasks, setTasks] = useState<EpicTask[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState("");
+
+  useEffect(() => {
+    if (status === "unauthenticated") {
+      router.push("/login");
+    }
+  }, [status, router]);
+
+  const fetchEpic = useCallback(async () => {
+    try {
+      const res = await fetch(`/api/epics/${epicId}`);
+      if (res.ok) {
+        const data = await res.json();
+        setEpic(data);
+        setTasks(data.tasks);
+      } else if (res.status === 404) {
+        router.push("/epics");
+      }
+    } catch (err) {
+      console.error("Failed to fetch epic:", err);
+    } finally {
+      setLoading(false);
+    }
+  }, [epicId, router]);
+
+  useEffect(() => {
+    if (session) {
+      fetchEpic();
+    }
+  }, [session, fetchEpic]);
+
+  // Children grouped by board, then by column category
+  const boards = useMemo(() => {
+    const byBoard = new Map<string, { id: string; name: string; tasks: EpicTask[] }>();
+    tasks.forEach((task) => {
+      const board = task.column.board;
+      if (!byBoard.has(board.id)) byBoard.set(board.id, { ...board, tasks: [] });
+      byBoard.get(board.id)!.tasks.push(task);
+    });
+    return Array.from(byBoard.values())
+      .sort((a, b) => a.name.localeCompare(b.name))
+      .map((board) => ({
+        ...board,
+        groups: COLUMN_CATEGORIES.map((category) => ({
+          ...category,
+          tasks: board.tasks.filter((t) => t.column.category === category.id),
+        })).filter((g) => g.tasks.length > 0),
+      }));
+  }, [tasks]);
+
+  const updateEpic = async (updates: Partial<Pick<Epic, "status">>) => {
+    setError("");
+    try {
+      const res = await fetch(`/api/epics/${epicId}`, {
+        method: "PATCH",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify(updates),
+      });
+      if (res.ok) {
+        setEpic(await res.json());
+      } else {
+        const data = await res.json();
+        setError(data.error || "Failed to update epic");
+      }
+    } catch {
+      setError("Failed to update epic");
+    }
+  };
+
+  const deleteEpic = async () => {
+    if (!confirm("Delete this epic? Its tasks stay on their boards.")) return;
+    setError("");
+    try {
+      const res = await fetch(`/api/epics/${epicId}`, { method: "DELETE" });
+      if (res.ok) {
+        router.push("/epics");
+      } else {
+        const data = await res.json();
+        setError(data.error || "Failed to delete epic");
+      }
+    } catch {
+      setError("Failed to delete epic");
+    }
+  };
+
+  if (status === "loading" || loading) {
+    return (
+      <div className="min-h-screen flex items-center justify-center bg-slate-900">
+        <div className="animate-spin rounded-full h-8 w-8 border-t-2 border-b-2 border-indigo-500"></div>
+      </div>
+    );
+  }
+
+  if (!session || !epic) return null;
+
+  const progress = epic.progress;
+
+  return (
+    <div className="min-h-screen bg-slate-900">
+      {/* Header */}
+      <header className="border-b border-slate-700 bg-slate-800/50 backdrop-blur-sm sticky top-0 z-10">
+        <div className="max-w-5xl mx-auto px-6 py-4 flex items-center gap-4">
+          <Link href="/epics" className="text-slate-400 hover:text-white transition-colors">
+            <svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M10 19l-7-7m0 0l7-7m-7 7h18" />
+            </svg>
+          </Link>
+          <span className="w-3 h-3 rounded-full shrink-0" style={{ backgroundColor: epic.color }} />
+          <div className="flex-1 min-w-0">
+            <h1 className="text-xl font-bold text-white truncate">{epic.title}</h1>
+            {epic.description && <p className="text-sm text-slate-400 truncate">{epic.description}</p>}
+          </div>
+          <button
+            onClick={() => updateEpic({ status: epic.status === "open" ? "closed" : "open" })}
+            className="px-3 py-1.5 bg-slate-700 hover:bg-slate-600 text-white text-sm rounded-lg transition-colors"
+          >
+            {epic.status === "open" ? "Close epic" : "Reopen epic"}
+          </button>
+          <button
+            onClick={deleteEpic}
+            className="px-3 py-1.5 text-red-400 hover:text-red-300 text-sm transition-colors"
+          >
+            Delete
+          </button>
+        </div>
+      </header>
+
+      <main className="max-w-5xl mx-auto px-6 py-8 space-y-6">
+        {error && (
+          <div className="p-3 bg-red-500/20 border border-red-500/30 rounded text-red-300 text-sm">{error}</div>
+        )}
+
+        {/* Rollup */}
+        {progress && (
+          <section className="p-4 bg-slate-800 border border-slate-700 rounded-lg space-y-3">
+            <div className="flex items-center gap-3">
+              <div className="flex-1 h-2 bg-slate-700 rounded-full overflow-hidden">
+                <div className="h-full rounded-full" style={{ width: `${progress.percent}%`, backgroundColor: epic.color }} />
+              </div>
+              <span className="text-sm text-white font-medium">{progress.percent}%</span>
+            </div>
+            <div className="flex flex-wrap gap-x-6 gap-y-1 text-sm text-slate-400">
+              <span>
+                {progress.completed}/{progress.total} tasks done
+              </span>
+              {progress.totalPoints > 0 && (
+                <span>
+                  {progress.completedPoints}/{progress.totalPoints} points done
+                </span>
+              )}
+              {progress.overdue > 0 && <span className="text-red-400">{progress.overdue} overdue</span>}
+              {(progress.startDate || progress.dueDate) && (
+                <span>
+                  Work scheduled{" "}
+                  {progress.startDate ? format(new Date(progress.startDate), "MMM d") : "?"} –{" "}
+                  {progress.dueDate ? format(new Date(progress.dueDate), "MMM d, yyyy") : "?"}
+                </span>
+              )}
+              {epic.dueDate && <span>Epic due {format(new Date(epic.dueDate), "MMM d, yyyy")}</span>}
+              {progress.lateTasks > 0 && (
+                <span className="text-amber-400">
+                  {progress.lateTasks} task{progress.lateTasks === 1 ? "" : "s"} due after the epic
+                </span>
+              )}
+            </div>
+          </section>
+        )}
+
+        {boards.length === 0 ? (
+          <div className="text-center py-16 text-slate-500 text-sm">
+            No tasks yet. Add tasks to this epic from the task detail panel on any board.
+          </div>
+        ) : (
+          boards.map((board) => (
+            <section key={board.id}>
+              <div className="flex items-center justify-between mb-2">
+                <Link href={`/boards/${board.id}`} className="text-lg font-semibold text-white hover:text-indigo-300">
+                  {board.name}
+                </Link>
+                <span className="text-xs text-slate-400">
+                  {board.tasks.filter(isTaskFinished).length}/
+                  {board.tasks.length} done
+                </span>
+              </div>
+              <div className="space-y-3">
+                {board.groups.map((group) => (
+                  <div key={group.id}>
+                    <h3 className="text-xs font-medium uppercase tracking-wide text-slate-500 mb-1">{group.label}</h3>
+                    <div className="space-y-1">
+                      {group.tasks.map((task) => (
+                        <div
+                          key={task.id}
+                          className="flex items-center gap-3 px-3 py-2 bg-slate-800 border border-slate-700 rounded-lg"
+                        >
+                          <span className={clsx("w-2 h-2 rounded-full shrink-0", priorityColors[task.priority])} />
+                          <span
+                            className={clsx(
+                              "flex-1 text-sm truncate",
+                              task.completed ? "text-slate-500 line-through" : "text-white"
+                            )}
+                          >
+                            {task.title}
+                          </span>
+                          <span className="text-xs text-slate-500 shrink-0">{task.column.name}</span>
+                          {task.dueDate && (
+                            <span className="text-xs text-slate-400 shrink-0">{format(new Date(task.dueDate), "MMM d")}</span>
+                          )}
+                          {task.assignee && (
+                            <span className="text-xs text-slate-400 shrink-0">{task.assignee.name || task.assignee.email}</span>
+                          )}
+                        </div>
+                      ))}
+                    </div>
+                  </div>
+                ))}
+              </div>
+            </section>
+          ))
+        )}
+      </main>
+    </div>
+  );
+}
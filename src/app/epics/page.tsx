@@ -0,0 +1,216 @@
+"use client";
+
+import { useSession } from "next-auth/react";
+import { useRouter } from "next/navigation";
+import { useEffect, useState } from "react";
+import Link from "next/link";
+import { format } from "date-fns";
+import clsx from "clsx";
+import { LABEL_COLORS } from "@/lib/label-colors";
+import type { Epic } from "@/types";
+
+export default function EpicsPage() {
+  const { data: session, status } = useSession();
+  const router = useRouter();
+  const [epics, setEpics] = useState<Epic[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [showClosed, setShowClosed] = useState(false);
+  const [showCreate, setShowCreate] = useState(false);
+  const [title, setTitle] = useState("");
+  const [description, setDescription] = useState("");
+  const [color, setColor] = useState("#8b5cf6");
+  const [dueDate, setDueDate] = useState("");
+  const [creating, setCreating] = useState(false);
+  const [error, setError] = useState("");
+
+  useEffect(() => {
+    if (status === "unauthenticated") {
+      router.push("/login");
+    }
+  }, [status, router]);
+
+  useEffect(() => {
+    if (session) {
+      fetchEpics();
+    }
+  }, [session]);
+
+  const fetchEpics = async () => {
+    try {
+      const res = await fetch("/api/epics");
+      if (res.ok) {
+        setEpics(await res.json());
+      }
+    } catch (error) {
+      console.error("Failed to fetch epics:", error);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleCreate = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!title.trim()) return;
+
+    setCreating(true);
+    setError("");
+    try {
+      const res = await fetch("/api/epics", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({
+          title: title.trim(),
+          description: description.trim() || null,
+          color,
+          dueDate: dueDate || null,
+        }),
+      });
+      if (res.ok) {
+        const epic = await res.json();
+        router.push(`/epics/${epic.id}`);
+      } else {
+        const data = await res.json();
+        setError(data.error || "Failed to create epic");
+      }
+    } catch {
+      setError("Failed to create epic");
+    } finally {
+      setCreating(false);
+    }
+  };
+
+  if (status === "loading" || loading) {
+    return (
+      <div className="min-h-screen flex items-center justify-center bg-slate-900">
+        <div className="animate-spin rounded-full h-8 w-8 border-t-2 border-b-2 border-indigo-500"></div>
+      </div>
+    );
+  }
+
+  if (!session) return null;
+
+  const visible = epics.filter((e) => (showClosed ? e.status === "closed" : e.status === "open"));
+
+  return (
+    <div className="min-h-screen bg-slate-900">
+      {/* Header */}
+      <header className="border-b border-slate-700 bg-slate-800/50 backdrop-blur-sm sticky top-0 z-10">
+        <div className="max-w-5xl mx-auto px-6 py-4 flex items-center gap-4">
+          <Link href="/" className="text-slate-400 hover:text-white transition-colors">
+            <svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M10 19l-7-7m0 0l7-7m-7 7h18" />
+            </svg>
+          </Link>
+          <div className="flex-1">
+            <h1 className="text-xl font-bold text-white">Epics</h1>
+            <p className="text-sm text-slate-400">Initiatives that span several boards</p>
+          </div>
+          <button
+            onClick={() => setShowClosed(!showClosed)}
+            className="text-slate-400 hover:text-white text-sm transition-colors"
+          >
+            {showClosed ? "Open epics" : "Closed"}
+          </button>
+          <button
+            onClick={() => setShowCreate(!showCreate)}
+            className="bg-indigo-600 hover:bg-indigo-500 text-white px-4 py-2 rounded-lg font-medium transition-colors"
+          >
+            New Epic
+          </button>
+        </div>
+      </header>
+
+      <main className="max-w-5xl mx-auto px-6 py-8 space-y-4">
+        {showCreate && (
+          <form onSubmit={handleCreate} className="p-4 bg-slate-800 border border-slate-700 rounded-lg space-y-3">
+            <input
+              type="text"
+              value={title}
+              onChange={(e) => setTitle(e.target.value)}
+              placeholder="Epic title"
+              autoFocus
+              className="w-full bg-slate-700 border border-slate-600 rounded-lg px-3 py-2 text-white placeholder-slate-400 focus:outline-none focus:ring-2 focus:ring-indigo-500"
+            />
+            <textarea
+              value={description}
+              onChange={(e) => setDescription(e.target.value)}
+              placeholder="Description (optional)"
+              rows={2}
+              className="w-full bg-slate-700 border border-slate-600 rounded-lg px-3 py-2 text-white placeholder-slate-400 focus:outline-none focus:ring-2 focus:ring-indigo-500"
+            />
+            <div className="flex items-center gap-3 flex-wrap">
+              <div className="flex gap-1">
+                {LABEL_COLORS.map((c) => (
+                  <button
+                    key={c.hex}
+                    type="button"
+                    onClick={() => setColor(c.hex)}
+                    className={clsx("w-6 h-6 rounded-full", color === c.hex && "ring-2 ring-white ring-offset-2 ring-offset-slate-800")}
+                    style={{ backgroundColor: c.hex }}
+                    title={c.name}
+                  />
+                ))}
+              </div>
+              <input
+                type="date"
+                value={dueDate}
+                onChange={(e) => setDueDate(e.target.value)}
+                className="bg-slate-700 border border-slate-600 rounded-lg px-3 py-1.5 text-white text-sm focus:outline-none focus:ring-2 focus:ring-indigo-500 [color-scheme:dark]"
+              />
+              <div className="flex-1" />
+              <button
+                type="submit"
+                disabled={!title.trim() || creating}
+                className="px-4 py-2 bg-indigo-600 hover:bg-indigo-700 disabled:opacity-50 text-white text-sm rounded-lg transition-colors"
+              >
+                {creating ? "Creating..." : "Create"}
+              </button>
+            </div>
+            {error && <p className="text-red-400 text-sm">{error}</p>}
+          </form>
+        )}
+
+        {visible.length === 0 ? (
+          <div className="text-center py-16 text-slate-500">
+            {showClosed ? "No closed epics" : "No epics yet. Create one to group work across boards."}
+          </div>
+        ) : (
+          visible.map((epic) => (
+            <Link
+              key={epic.id}
+              href={`/epics/${epic.id}`}
+              className="block p-4 bg-slate-800 border border-slate-700 hover:border-slate-600 rounded-lg transition-colors"
+            >
+              <div className="flex items-center gap-3">
+                <span className="w-3 h-3 rounded-full shrink-0" style={{ backgroundColor: epic.color }} />
+                <span className="font-medium text-white truncate flex-1">{epic.title}</span>
+                {epic.dueDate && (
+                  <span className="text-xs text-slate-400">Due {format(new Date(epic.dueDate), "MMM d, yyyy")}</span>
+                )}
+              </div>
+              {epic.progress && (
+                <div className="mt-3 flex items-center gap-3">
+                  <div className="flex-1 h-1.5 bg-slate-700 rounded-full overflow-hidden">
+                    <div
+                      className="h-full rounded-full"
+                      style={{ width: `${epic.progress.percent}%`, backgroundColor: epic.color }}
+                    />
+                  </div>
+                  <span className="text-xs text-slate-400 shrink-0">
+                    {epic.progress.completed}/{epic.progress.total} tasks
+                    {epic.progress.totalPoints > 0 &&
+                      ` · ${epic.progress.completedPoints}/${epic.progress.totalPoints} pts`}{" "}
+                    · {epic.progress.percent}%
+                  </span>
+                  {epic.progress.overdue > 0 && (
+                    <span className="text-xs text-red-400 shrink-0">{epic.progress.overdue} overdue</span>
+                  )}
+                </div>
+              )}
+            </Link>
+          ))
+        )}
+      </main>
+    </div>
+  );
+}
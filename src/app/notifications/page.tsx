@@ -9,7 +9,7 @@ import { NotificationBell } from "@/components/NotificationBell";
 
 interface Notification {
   id: string;
-  type: "assigned" | "mentioned" | "comment" | "due_soon";
+  type: "assigned" | "mentioned" | "comment" | "due_soon" | "automation" | "unblocked" | "overdue";
   title: string;
   message: string;
   link?: string;
@@ -22,6 +22,9 @@ const NOTIFICATION_ICONS: Record<string, string> = {
   mentioned: "@",
   comment: "💬",
   due_soon: "⏰",
+  automation: "⚡",
+  unblocked: "🔓",
+  overdue: "🚨",
 };
 
 const NOTIFICATION_COLORS: Record<string, string> = {
@@ -29,6 +32,9 @@ const NOTIFICATION_COLORS: Record<string, string> = {
   mentioned: "bg-purple-500/20 text-purple-400",
   comment: "bg-green-500/20 text-green-400",
   due_soon: "bg-orange-500/20 text-orange-400",
+  automation: "bg-yellow-500/20 text-yellow-400",
+  unblocked: "bg-emerald-500/20 text-emerald-400",
+  overdue: "bg-red-500/20 text-red-400",
 };
 
 function formatTimeAgo(date: string): string {
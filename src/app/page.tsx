@@ -8,6 +8,7 @@ import Link from "next/link";
 import type { Board } from "@/types";
 import { NotificationBell } from "@/components/NotificationBell";
 import { BoardTemplateSelector } from "@/components/BoardTemplateSelector";
+import { BoardImportPanel } from "@/components/BoardImportPanel";
 import { BoardTemplate, boardTemplates } from "@/lib/board-templates";
 
 interface TaskSummary {
@@ -31,6 +32,7 @@ export default function HomePage() {
   const [boardMenuOpen, setBoardMenuOpen] = useState<string | null>(null);
   const [deletingBoard, setDeletingBoard] = useState<string | null>(null);
   const [confirmDelete, setConfirmDelete] = useState<Board | null>(null);
+  const [showArchived, setShowArchived] = useState(false);
 
   useEffect(() => {
     if (status === "unauthenticated") {
@@ -40,11 +42,16 @@ export default function HomePage() {
 
   useEffect(() => {
     if (session) {
-      fetchBoards();
       fetchTaskSummary();
     }
   }, [session]);
 
+  useEffect(() => {
+    if (session) {
+      fetchBoards(showArchived);
+    }
+  }, [session, showArchived]);
+
   const fetchTaskSummary = async () => {
     try {
       const res = await fetch("/api/my-tasks?status=incomplete");
@@ -57,9 +64,9 @@ export default function HomePage() {
     }
   };
 
-  const fetchBoards = async () => {
+  const fetchBoards = async (archived: boolean) => {
     try {
-      const res = await fetch("/api/boards");
+      const res = await fetch(archived ? "/api/boards?archived=true" : "/api/boards");
       if (res.ok) {
         const data = await res.json();
         setBoards(data);
@@ -143,6 +150,12 @@ export default function HomePage() {
     setSelectedTemplate(template);
   };
 
+  const handleImported = (board: Board) => {
+    setBoards([...boards, board]);
+    closeCreateModal();
+    router.push(`/boards/${board.id}`);
+  };
+
   const proceedToDetails = () => {
     if (selectedTemplate) {
       setCreateStep("details");
@@ -195,6 +208,26 @@ export default function HomePage() {
                 </span>
               )}
             </Link>
+            {/* Epics Link */}
+            <Link
+              href="/epics"
+              className="flex items-center gap-2 px-3 py-1.5 rounded-lg bg-slate-700/50 hover:bg-slate-700 text-slate-300 hover:text-white transition-colors"
+            >
+              <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M13 10V3L4 14h7v7l9-11h-7z" />
+              </svg>
+              <span className="text-sm font-medium">Epics</span>
+            </Link>
+            {/* Timesheet Link */}
+            <Link
+              href="/timesheet"
+              className="flex items-center gap-2 px-3 py-1.5 rounded-lg bg-slate-700/50 hover:bg-slate-700 text-slate-300 hover:text-white transition-colors"
+            >
+              <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M12 8v4l3 3m6-3a9 9 0 11-18 0 9 9 0 0118 0z" />
+              </svg>
+              <span className="text-sm font-medium">Timesheet</span>
+            </Link>
             <NotificationBell />
             {session.user?.role === "admin" && (
               <button
@@ -227,19 +260,34 @@ export default function HomePage() {
       {/* Main Content */}
       <main className="max-w-7xl mx-auto px-6 py-8">
         <div className="flex items-center justify-between mb-8">
-          <h2 className="text-2xl font-semibold text-white">Your Boards</h2>
-          <button
-            onClick={openCreateModal}
-            className="bg-indigo-600 hover:bg-indigo-500 text-white px-4 py-2 rounded-lg font-medium transition-colors flex items-center gap-2"
-          >
-            <svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
-              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M12 4v16m8-8H4" />
-            </svg>
-            New Board
-          </button>
+          <h2 className="text-2xl font-semibold text-white">{showArchived ? "Archived Boards" : "Your Boards"}</h2>
+          <div className="flex items-center gap-3">
+            <button
+              onClick={() => setShowArchived(!showArchived)}
+              className="text-slate-400 hover:text-white text-sm transition-colors"
+            >
+              {showArchived ? "Back to boards" : "Archived"}
+            </button>
+            <Link href="/trash" className="text-slate-400 hover:text-white text-sm transition-colors">
+              Trash
+            </Link>
+            <button
+              onClick={openCreateModal}
+              className="bg-indigo-600 hover:bg-indigo-500 text-white px-4 py-2 rounded-lg font-medium transition-colors flex items-center gap-2"
+            >
+              <svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M12 4v16m8-8H4" />
+              </svg>
+              New Board
+            </button>
+          </div>
         </div>
 
-        {boards.length === 0 ? (
+        {showArchived && boards.length === 0 ? (
+          <div className="text-center py-16 text-slate-500">
+            No archived boards. Archive a board from its settings to hide it from this list.
+          </div>
+        ) : boards.length === 0 ? (
           <div className="text-center py-16">
             <div className="w-16 h-16 bg-slate-800 rounded-full flex items-center justify-center mx-auto mb-4">
               <svg className="w-8 h-8 text-slate-500" fill="none" stroke="currentColor" viewBox="0 0 24 24">
@@ -336,13 +384,17 @@ export default function HomePage() {
             {createStep === "template" ? (
               <>
                 <h3 className="text-xl font-semibold text-white mb-2">Choose a Template</h3>
-                <p className="text-slate-400 text-sm mb-4">Start with a pre-configured board or create a blank one</p>
+                <p className="text-slate-400 text-sm mb-4">Start with a pre-configured board, create a blank one, or import from a file</p>
                 
                 <BoardTemplateSelector
                   selectedId={selectedTemplate?.id ?? null}
                   onSelect={handleTemplateSelect}
                 />
 
+                <div className="mt-4">
+                  <BoardImportPanel onImported={handleImported} />
+                </div>
+
                 <div className="flex justify-end gap-3 mt-6">
                   <button
                     onClick={closeCreateModal}
@@ -459,13 +511,13 @@ export default function HomePage() {
               </div>
               <div>
                 <h3 className="text-lg font-semibold text-white">Delete Board</h3>
-                <p className="text-sm text-slate-400">This action cannot be undone</p>
+                <p className="text-sm text-slate-400">You can restore it from the trash</p>
               </div>
             </div>
             
             <p className="text-slate-300 mb-6">
               Are you sure you want to delete <span className="font-semibold text-white">&quot;{confirmDelete.name}&quot;</span>? 
-              All tasks, columns, and comments will be permanently removed.
+              The board moves to the trash with all its tasks, columns, and comments.
             </p>
 
             <div className="flex justify-end gap-3">
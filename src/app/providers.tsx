@@ -2,7 +2,12 @@
 
 import { SessionProvider } from "next-auth/react";
 import { ReactNode } from "react";
+import { RunningTimerProvider } from "@/contexts/RunningTimerContext";
 
 export function Providers({ children }: { children: ReactNode }) {
-  return <SessionProvider>{children}</SessionProvider>;
+  return (
+    <SessionProvider>
+      <RunningTimerProvider>{children}</RunningTimerProvider>
+    </SessionProvider>
+  );
 }
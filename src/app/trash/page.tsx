@@ -0,0 +1,166 @@
+"use client";
+
+import { useSession } from "next-auth/react";
+import { useRouter } from "next/navigation";
+import { useEffect, useState } from "react";
+import Link from "next/link";
+import { formatDistanceToNow } from "date-fns";
+import type { TrashedBoard, TrashedTask } from "@/types";
+
+export default function TrashPage() {
+  const { data: session, status } = useSession();
+  const router = useRouter();
+  const [boards, setBoards] = useState<TrashedBoard[]>([]);
+  const [tasks, setTasks] = useState<TrashedTask[]>([]);
+  const [retentionDays, setRetentionDays] = useState<number | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [restoringId, setRestoringId] = useState<string | null>(null);
+  const [error, setError] = useState("");
+
+  useEffect(() => {
+    if (status === "unauthenticated") {
+      router.push("/login");
+    }
+  }, [status, router]);
+
+  useEffect(() => {
+    if (session) {
+      fetchTrash();
+    }
+  }, [session]);
+
+  const fetchTrash = async () => {
+    try {
+      const res = await fetch("/api/trash");
+      if (res.ok) {
+        const data = await res.json();
+        setBoards(data.boards);
+        setTasks(data.tasks);
+        setRetentionDays(data.retentionDays);
+      }
+    } catch (error) {
+      console.error("Failed to fetch trash:", error);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const restore = async (kind: "boards" | "tasks", id: string) => {
+    setRestoringId(id);
+    setError("");
+    try {
+      const res = await fetch(`/api/${kind}/${id}/restore`, { method: "POST" });
+      if (res.ok) {
+        if (kind === "boards") {
+          setBoards((prev) => prev.filter((b) => b.id !== id));
+        } else {
+          setTasks((prev) => prev.filter((t) => t.id !== id));
+        }
+      } else {
+        const data = await res.json();
+        setError(data.error || "Failed to restore");
+      }
+    } catch {
+      setError("Failed to restore");
+    } finally {
+      setRestoringId(null);
+    }
+  };
+
+  const formatDeleted = (item: { deletedAt: string; purgeAt: string }) =>
+    `Deleted ${formatDistanceToNow(new Date(item.deletedAt), { addSuffix: true })} · permanently deleted ${formatDistanceToNow(new Date(item.purgeAt), { addSuffix: true })}`;
+
+  if (status === "loading" || loading) {
+    return (
+      <div className="min-h-screen flex items-center justify-center bg-slate-900">
+        <div className="animate-spin rounded-full h-8 w-8 border-t-2 border-b-2 border-indigo-500"></div>
+      </div>
+    );
+  }
+
+  if (!session) return null;
+
+  return (
+    <div className="min-h-screen bg-slate-900">
+      {/* Header */}
+      <header className="border-b border-slate-700 bg-slate-800/50 backdrop-blur-sm sticky top-0 z-10">
+        <div className="max-w-4xl mx-auto px-6 py-4 flex items-center gap-4">
+          <Link href="/" className="text-slate-400 hover:text-white transition-colors">
+            <svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M10 19l-7-7m0 0l7-7m-7 7h18" />
+            </svg>
+          </Link>
+          <div>
+            <h1 className="text-xl font-bold text-white">Trash</h1>
+            <p className="text-sm text-slate-400">
+              Deleted boards and tasks are kept for {retentionDays} days before they are permanently removed
+            </p>
+          </div>
+        </div>
+      </header>
+
+      <main className="max-w-4xl mx-auto px-6 py-8 space-y-8">
+        {error && (
+          <div className="p-3 bg-red-500/20 border border-red-500/30 rounded text-red-300 text-sm">{error}</div>
+        )}
+
+        <section>
+          <h2 className="text-lg font-semibold text-white mb-3">Boards</h2>
+          {boards.length === 0 ? (
+            <p className="text-slate-500 text-sm">No deleted boards</p>
+          ) : (
+            <div className="space-y-2">
+              {boards.map((board) => (
+                <div key={board.id} className="flex items-center gap-4 p-4 bg-slate-800 border border-slate-700 rounded-lg">
+                  <div className="flex-1 min-w-0">
+                    <div className="font-medium text-white truncate">{board.name}</div>
+                    <div className="text-xs text-slate-400">
+                      {board._count.columns} columns · {board._count.members} members
+                      {board.deletedBy && ` · deleted by ${board.deletedBy.name || board.deletedBy.email}`}
+                    </div>
+                    <div className="text-xs text-slate-500">{formatDeleted(board)}</div>
+                  </div>
+                  <button
+                    onClick={() => restore("boards", board.id)}
+                    disabled={restoringId === board.id}
+                    className="px-3 py-1.5 bg-slate-700 hover:bg-slate-600 disabled:opacity-50 text-white text-sm rounded transition-colors"
+                  >
+                    {restoringId === board.id ? "Restoring..." : "Restore"}
+                  </button>
+                </div>
+              ))}
+            </div>
+          )}
+        </section>
+
+        <section>
+          <h2 className="text-lg font-semibold text-white mb-3">Tasks you deleted</h2>
+          {tasks.length === 0 ? (
+            <p className="text-slate-500 text-sm">No deleted tasks</p>
+          ) : (
+            <div className="space-y-2">
+              {tasks.map((task) => (
+                <div key={task.id} className="flex items-center gap-4 p-4 bg-slate-800 border border-slate-700 rounded-lg">
+                  <div className="flex-1 min-w-0">
+                    <div className="font-medium text-white truncate">{task.title}</div>
+                    <div className="text-xs text-slate-400 truncate">
+                      {task.board?.name} · {task.parent ? `Subtask of "${task.parent.title}"` : task.column.name}
+                    </div>
+                    <div className="text-xs text-slate-500">{formatDeleted(task)}</div>
+                  </div>
+                  <button
+                    onClick={() => restore("tasks", task.id)}
+                    disabled={restoringId === task.id}
+                    className="px-3 py-1.5 bg-slate-700 hover:bg-slate-600 disabled:opacity-50 text-white text-sm rounded transition-colors"
+                  >
+                    {restoringId === task.id ? "Restoring..." : "Restore"}
+                  </button>
+                </div>
+              ))}
+            </div>
+          )}
+        </section>
+      </main>
+    </div>
+  );
+}
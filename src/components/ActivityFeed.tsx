@@ -1,7 +1,7 @@
 "use client";
 
 import { useState, useEffect, useCallback, useRef } from "react";
-import { formatDistanceToNow } from "date-fns";
+import { format, formatDistanceToNow } from "date-fns";
 import Image from "next/image";
 import Link from "next/link";
 import clsx from "clsx";
@@ -257,6 +257,55 @@ function formatActivityMessage(activity: Activity): JSX.Element {
           )}
         </span>
       );
+    case "sprint_changed":
+      return (
+        <span>
+          <span className="font-medium text-white">{userName}</span>{" "}
+          {details?.sprint ? "moved" : "returned"}{" "}
+          <span className="font-medium text-indigo-400">&apos;{taskTitle}&apos;</span>{" "}
+          {details?.sprint ? (
+            <>
+              to sprint <span className="text-slate-300">{details.sprint}</span>
+            </>
+          ) : (
+            "to the backlog"
+          )}
+        </span>
+      );
+    case "epic_changed":
+      return (
+        <span>
+          <span className="font-medium text-white">{userName}</span>{" "}
+          {details?.epic ? "added" : "removed"}{" "}
+          <span className="font-medium text-indigo-400">&apos;{taskTitle}&apos;</span>{" "}
+          {details?.epic ? (
+            <>
+              to epic <span className="text-violet-400">{details.epic}</span>
+            </>
+          ) : (
+            "from its epic"
+          )}
+        </span>
+      );
+    case "added relation":
+      return (
+        <span>
+          <span className="font-medium text-white">{userName}</span>{" "}
+          linked{" "}
+          <span className="font-medium text-indigo-400">&apos;{taskTitle}&apos;</span>{" "}
+          ({details?.relation ?? "relates to"}{" "}
+          <span className="text-slate-300">&apos;{details?.taskTitle}&apos;</span>)
+        </span>
+      );
+    case "merged duplicate":
+      return (
+        <span>
+          <span className="font-medium text-white">{userName}</span>{" "}
+          merged{" "}
+          <span className="text-slate-300">&apos;{details?.taskTitle}&apos;</span>{" "}
+          into <span className="font-medium text-indigo-400">&apos;{taskTitle}&apos;</span>
+        </span>
+      );
     case "due_date_changed":
       return (
         <span>
@@ -265,6 +314,40 @@ function formatActivityMessage(activity: Activity): JSX.Element {
           <span className="font-medium text-indigo-400">&apos;{taskTitle}&apos;</span>
         </span>
       );
+    case "start_date_changed":
+      return (
+        <span>
+          <span className="font-medium text-white">{userName}</span>{" "}
+          updated start date on{" "}
+          <span className="font-medium text-indigo-400">&apos;{taskTitle}&apos;</span>
+        </span>
+      );
+    case "occurrence_skipped":
+      return (
+        <span>
+          <span className="font-medium text-white">{userName}</span>{" "}
+          skipped the {details?.date ? format(new Date(`${details.date}T12:00:00`), "MMM d") : ""} occurrence of{" "}
+          <span className="font-medium text-indigo-400">&apos;{taskTitle}&apos;</span>
+        </span>
+      );
+    case "occurrence_moved":
+      return (
+        <span>
+          <span className="font-medium text-white">{userName}</span>{" "}
+          moved this occurrence of{" "}
+          <span className="font-medium text-indigo-400">&apos;{taskTitle}&apos;</span>
+          {details?.to && <> to {format(new Date(details.to), "MMM d")}</>}
+        </span>
+      );
+    case "series_split":
+      return (
+        <span>
+          <span className="font-medium text-white">{userName}</span>{" "}
+          started a new series from{" "}
+          <span className="font-medium text-indigo-400">&apos;{taskTitle}&apos;</span>, split off{" "}
+          <span className="text-slate-300">&apos;{details?.taskTitle}&apos;</span>
+        </span>
+      );
     default:
       return (
         <span>
@@ -337,6 +420,12 @@ export function ActivityFeed({
     [boardId, userId, action, dateRange, limit, offset]
   );
 
+  // Latest fetch for the stream to call without reconnecting
+  const fetchActivitiesRef = useRef(fetchActivities);
+  useEffect(() => {
+    fetchActivitiesRef.current = fetchActivities;
+  }, [fetchActivities]);
+
   // Initial fetch
   useEffect(() => {
     fetchActivities();
@@ -355,6 +444,13 @@ export function ActivityFeed({
         const data = JSON.parse(event.data);
         if (data.type === "connected") return;
 
+        // Missed more than the server could replay while disconnected
+        if (data.type === "resync") {
+          setNewActivityCount(0);
+          fetchActivitiesRef.current();
+          return;
+        }
+
         // Check if this is a new activity for our filters
         if (boardId && data.board?.id !== boardId) return;
         if (userId && data.user?.id !== userId) return;
@@ -0,0 +1,839 @@
+"use client";
+
+import { useState, useEffect, useCallback } from "react";
+import type {
+  AutomationAction,
+  AutomationCondition,
+  AutomationRun,
+  AutomationTriggerConfig,
+  AutomationTriggerType,
+  BoardAutomation,
+  Column,
+  CustomField,
+  Label,
+  Priority,
+  User,
+} from "@/types";
+import clsx from "clsx";
+
+interface AutomationManagerProps {
+  boardId: string;
+  columns: Column[];
+  labels: Label[];
+  members: User[];
+}
+
+const triggers: { value: AutomationTriggerType; label: string }[] = [
+  { value: "task.created", label: "Task is created" },
+  { value: "task.moved", label: "Task is moved to column" },
+  { value: "label.added", label: "Label is added" },
+  { value: "assignee.changed", label: "Assignee changes" },
+  { value: "due.passed", label: "Due date passes" },
+];
+
+const conditionTypes: { value: AutomationCondition["type"]; label: string }[] = [
+  { value: "priority", label: "Priority" },
+  { value: "label", label: "Label" },
+  { value: "assignee", label: "Assignee" },
+  { value: "customField", label: "Custom field" },
+];
+
+const actionTypes: { value: AutomationAction["type"]; label: string }[] = [
+  { value: "assign", label: "Assign to" },
+  { value: "add_label", label: "Add label" },
+  { value: "remove_label", label: "Remove label" },
+  { value: "set_priority", label: "Set priority" },
+  { value: "move_to_column", label: "Move to column" },
+  { value: "post_comment", label: "Post comment" },
+  { value: "create_subtask", label: "Create subtask" },
+  { value: "notify", label: "Send notification" },
+];
+
+const priorities: Priority[] = ["low", "medium", "high", "urgent"];
+
+const runStatusStyles: Record<string, string> = {
+  success: "text-green-400",
+  failed: "text-red-400",
+  skipped: "text-slate-400",
+};
+
+const inputClass =
+  "bg-slate-700 border border-slate-600 rounded px-2 py-1.5 text-white text-sm focus:outline-none focus:ring-2 focus:ring-indigo-500";
+
+function defaultCondition(type: AutomationCondition["type"]): AutomationCondition {
+  switch (type) {
+    case "priority":
+      return { type, operator: "is", value: "high" };
+    case "label":
+      return { type, operator: "has", labelId: "" };
+    case "assignee":
+      return { type, operator: "is", userId: null };
+    case "customField":
+      return { type, operator: "is", fieldId: "", value: "" };
+  }
+}
+
+function defaultAction(type: AutomationAction["type"]): AutomationAction {
+  switch (type) {
+    case "assign":
+      return { type, userId: null };
+    case "add_label":
+    case "remove_label":
+      return { type, labelId: "" };
+    case "set_priority":
+      return { type, priority: "high" };
+    case "move_to_column":
+      return { type, columnId: "" };
+    case "post_comment":
+      return { type, content: "" };
+    case "create_subtask":
+      return { type, title: "" };
+    case "notify":
+      return { type, target: "assignee", message: "" };
+  }
+}
+
+const emptyForm = {
+  name: "",
+  trigger: "task.moved" as AutomationTriggerType,
+  triggerConfig: {} as AutomationTriggerConfig,
+  conditions: [] as AutomationCondition[],
+  actions: [defaultAction("assign")] as AutomationAction[],
+};
+
+export function AutomationManager({ boardId, columns, labels, members }: AutomationManagerProps) {
+  const [automations, setAutomations] = useState<BoardAutomation[]>([]);
+  const [runs, setRuns] = useState<AutomationRun[]>([]);
+  const [customFields, setCustomFields] = useState<CustomField[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [success, setSuccess] = useState<string | null>(null);
+
+  // Form state
+  const [showForm, setShowForm] = useState(false);
+  const [editingAutomation, setEditingAutomation] = useState<BoardAutomation | null>(null);
+  const [formData, setFormData] = useState(emptyForm);
+  const [saving, setSaving] = useState(false);
+
+  const fetchAutomations = useCallback(async () => {
+    try {
+      const [automationsRes, runsRes] = await Promise.all([
+        fetch(`/api/boards/${boardId}/automations`),
+        fetch(`/api/boards/${boardId}/automations/runs?limit=20`),
+      ]);
+      if (automationsRes.ok) setAutomations(await automationsRes.json());
+      if (runsRes.ok) setRuns(await runsRes.json());
+    } catch (err) {
+      console.error("Failed to fetch automations:", err);
+    } finally {
+      setLoading(false);
+    }
+  }, [boardId]);
+
+  useEffect(() => {
+    fetchAutomations();
+    fetch(`/api/boards/${boardId}/custom-fields`)
+      .then((res) => (res.ok ? res.json() : []))
+      .then(setCustomFields)
+      .catch(() => setCustomFields([]));
+  }, [boardId, fetchAutomations]);
+
+  const clearMessages = () => {
+    setError(null);
+    setSuccess(null);
+  };
+
+  const resetForm = () => {
+    setFormData(emptyForm);
+    setEditingAutomation(null);
+    setShowForm(false);
+  };
+
+  const handleEdit = (automation: BoardAutomation) => {
+    setEditingAutomation(automation);
+    setFormData({
+      name: automation.name,
+      trigger: automation.trigger,
+      triggerConfig: automation.triggerConfig || {},
+      conditions: automation.conditions,
+      actions: automation.actions,
+    });
+    setShowForm(true);
+    clearMessages();
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    clearMessages();
+    setSaving(true);
+
+    try {
+      const res = await fetch(
+        editingAutomation
+          ? `/api/boards/${boardId}/automations/${editingAutomation.id}`
+          : `/api/boards/${boardId}/automations`,
+        {
+          method: editingAutomation ? "PATCH" : "POST",
+          headers: { "Content-Type": "application/json" },
+          body: JSON.stringify({
+            name: formData.name,
+            trigger: formData.trigger,
+            triggerConfig: Object.keys(formData.triggerConfig).length ? formData.triggerConfig : null,
+            conditions: formData.conditions,
+            actions: formData.actions,
+          }),
+        }
+      );
+
+      if (res.ok) {
+        setSuccess(editingAutomation ? "Automation updated!" : "Automation created!");
+        resetForm();
+        fetchAutomations();
+      } else {
+        const data = await res.json();
+        setError(data.error || "Failed to save automation");
+      }
+    } catch {
+      setError("Failed to save automation");
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleToggle = async (automation: BoardAutomation) => {
+    clearMessages();
+    setAutomations((prev) =>
+      prev.map((a) => (a.id === automation.id ? { ...a, enabled: !a.enabled } : a))
+    );
+    try {
+      const res = await fetch(`/api/boards/${boardId}/automations/${automation.id}`, {
+        method: "PATCH",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ enabled: !automation.enabled }),
+      });
+      if (!res.ok) {
+        const data = await res.json();
+        setError(data.error || "Failed to update automation");
+        fetchAutomations();
+      }
+    } catch {
+      setError("Failed to update automation");
+      fetchAutomations();
+    }
+  };
+
+  const handleDelete = async (automationId: string) => {
+    if (!confirm("Delete this automation? Its run history will be lost.")) {
+      return;
+    }
+
+    clearMessages();
+    try {
+      const res = await fetch(`/api/boards/${boardId}/automations/${automationId}`, {
+        method: "DELETE",
+      });
+      if (res.ok) {
+        setSuccess("Automation deleted!");
+        fetchAutomations();
+      } else {
+        const data = await res.json();
+        setError(data.error || "Failed to delete automation");
+      }
+    } catch {
+      setError("Failed to delete automation");
+    }
+  };
+
+  const updateCondition = (index: number, condition: AutomationCondition) => {
+    setFormData({
+      ...formData,
+      conditions: formData.conditions.map((c, i) => (i === index ? condition : c)),
+    });
+  };
+
+  const updateAction = (index: number, action: AutomationAction) => {
+    setFormData({
+      ...formData,
+      actions: formData.actions.map((a, i) => (i === index ? action : a)),
+    });
+  };
+
+  const describeTrigger = (automation: BoardAutomation) => {
+    const config = automation.triggerConfig || {};
+    const base = triggers.find((t) => t.value === automation.trigger)?.label ?? automation.trigger;
+    if (config.columnId) {
+      return `${base} "${columns.find((c) => c.id === config.columnId)?.name ?? "deleted column"}"`;
+    }
+    if (config.labelId) {
+      return `${base}: ${labels.find((l) => l.id === config.labelId)?.name ?? "deleted label"}`;
+    }
+    if (config.assigneeId) {
+      const member = members.find((m) => m.id === config.assigneeId);
+      return `${base} to ${member?.name || member?.email || "former member"}`;
+    }
+    return base;
+  };
+
+  const renderMemberOptions = (emptyLabel: string) => (
+    <>
+      <option value="">{emptyLabel}</option>
+      {members.map((m) => (
+        <option key={m.id} value={m.id}>
+          {m.name || m.email}
+        </option>
+      ))}
+    </>
+  );
+
+  const renderLabelOptions = () => (
+    <>
+      <option value="">Select label...</option>
+      {labels.map((l) => (
+        <option key={l.id} value={l.id}>
+          {l.name}
+        </option>
+      ))}
+    </>
+  );
+
+  const renderColumnOptions = (emptyLabel: string) => (
+    <>
+      <option value="">{emptyLabel}</option>
+      {columns.map((c) => (
+        <option key={c.id} value={c.id}>
+          {c.name}
+        </option>
+      ))}
+    </>
+  );
+
+  const renderConditionFields = (condition: AutomationCondition, index: number) => {
+    switch (condition.type) {
+      case "priority":
+        return (
+          <>
+            <select
+              value={condition.operator}
+              onChange={(e) => updateCondition(index, { ...condition, operator: e.target.value as "is" | "is_not" })}
+              className={inputClass}
+            >
+              <option value="is">is</option>
+              <option value="is_not">is not</option>
+            </select>
+            <select
+              value={condition.value}
+              onChange={(e) => updateCondition(index, { ...condition, value: e.target.value as Priority })}
+              className={inputClass}
+            >
+              {priorities.map((p) => (
+                <option key={p} value={p}>
+                  {p}
+                </option>
+              ))}
+            </select>
+          </>
+        );
+      case "label":
+        return (
+          <>
+            <select
+              value={condition.operator}
+              onChange={(e) => updateCondition(index, { ...condition, operator: e.target.value as "has" | "not_has" })}
+              className={inputClass}
+            >
+              <option value="has">includes</option>
+              <option value="not_has">does not include</option>
+            </select>
+            <select
+              value={condition.labelId}
+              onChange={(e) => updateCondition(index, { ...condition, labelId: e.target.value })}
+              className={inputClass}
+            >
+              {renderLabelOptions()}
+            </select>
+          </>
+        );
+      case "assignee":
+        return (
+          <>
+            <select
+              value={condition.operator}
+              onChange={(e) => updateCondition(index, { ...condition, operator: e.target.value as "is" | "is_not" })}
+              className={inputClass}
+            >
+              <option value="is">is</option>
+              <option value="is_not">is not</option>
+            </select>
+            <select
+              value={condition.userId || ""}
+              onChange={(e) => updateCondition(index, { ...condition, userId: e.target.value || null })}
+              className={inputClass}
+            >
+              {renderMemberOptions("Unassigned")}
+            </select>
+          </>
+        );
+      case "customField":
+        return (
+          <>
+            <select
+              value={condition.fieldId}
+              onChange={(e) => updateCondition(index, { ...condition, fieldId: e.target.value })}
+              className={inputClass}
+            >
+              <option value="">Select field...</option>
+              {customFields.map((f) => (
+                <option key={f.id} value={f.id}>
+                  {f.name}
+                </option>
+              ))}
+            </select>
+            <select
+              value={condition.operator}
+              onChange={(e) => updateCondition(index, { ...condition, operator: e.target.value as "is" | "is_not" })}
+              className={inputClass}
+            >
+              <option value="is">is</option>
+              <option value="is_not">is not</option>
+            </select>
+            <input
+              type="text"
+              value={condition.value || ""}
+              onChange={(e) => updateCondition(index, { ...condition, value: e.target.value || null })}
+              placeholder="Empty"
+              className={clsx(inputClass, "flex-1 min-w-0")}
+            />
+          </>
+        );
+    }
+  };
+
+  const renderActionFields = (action: AutomationAction, index: number) => {
+    switch (action.type) {
+      case "assign":
+        return (
+          <select
+            value={action.userId || ""}
+            onChange={(e) => updateAction(index, { ...action, userId: e.target.value || null })}
+            className={inputClass}
+          >
+            {renderMemberOptions("Nobody (unassign)")}
+          </select>
+        );
+      case "add_label":
+      case "remove_label":
+        return (
+          <select
+            value={action.labelId}
+            onChange={(e) => updateAction(index, { ...action, labelId: e.target.value })}
+            className={inputClass}
+          >
+            {renderLabelOptions()}
+          </select>
+        );
+      case "set_priority":
+        return (
+          <select
+            value={action.priority}
+            onChange={(e) => updateAction(index, { ...action, priority: e.target.value as Priority })}
+            className={inputClass}
+          >
+            {priorities.map((p) => (
+              <option key={p} value={p}>
+                {p}
+              </option>
+            ))}
+          </select>
+        );
+      case "move_to_column":
+        return (
+          <select
+            value={action.columnId}
+            onChange={(e) => updateAction(index, { ...action, columnId: e.target.value })}
+            className={inputClass}
+          >
+            {renderColumnOptions("Select column...")}
+          </select>
+        );
+      case "post_comment":
+        return (
+          <input
+            type="text"
+            value={action.content}
+            onChange={(e) => updateAction(index, { ...action, content: e.target.value })}
+            placeholder="Comment text, {{task}} for the task title"
+            className={clsx(inputClass, "flex-1 min-w-0")}
+          />
+        );
+      case "create_subtask":
+        return (
+          <input
+            type="text"
+            value={action.title}
+            onChange={(e) => updateAction(index, { ...action, title: e.target.value })}
+            placeholder="Subtask title"
+            className={clsx(inputClass, "flex-1 min-w-0")}
+          />
+        );
+      case "notify":
+        return (
+          <>
+            <select
+              value={action.target}
+              onChange={(e) =>
+                updateAction(index, {
+                  ...action,
+                  target: e.target.value as "assignee" | "creator" | "user",
+                })
+              }
+              className={inputClass}
+            >
+              <option value="assignee">Assignee</option>
+              <option value="creator">Creator</option>
+              <option value="user">Member...</option>
+            </select>
+            {action.target === "user" && (
+              <select
+                value={action.userId || ""}
+                onChange={(e) => updateAction(index, { ...action, userId: e.target.value || undefined })}
+                className={inputClass}
+              >
+                {renderMemberOptions("Select member...")}
+              </select>
+            )}
+            <input
+              type="text"
+              value={action.message}
+              onChange={(e) => updateAction(index, { ...action, message: e.target.value })}
+              placeholder="Message"
+              className={clsx(inputClass, "flex-1 min-w-0")}
+            />
+          </>
+        );
+    }
+  };
+
+  if (loading) {
+    return (
+      <div className="flex justify-center py-8">
+        <div className="animate-spin rounded-full h-6 w-6 border-t-2 border-b-2 border-indigo-500"></div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-4">
+      {/* Header */}
+      <div className="flex items-center justify-between">
+        <div>
+          <h3 className="text-lg font-medium text-white">
+            Automations ({automations.length})
+          </h3>
+          <p className="text-sm text-slate-400">
+            Run actions automatically when something happens on this board
+          </p>
+        </div>
+        {!showForm && (
+          <button
+            onClick={() => {
+              setShowForm(true);
+              clearMessages();
+            }}
+            className="flex items-center gap-2 bg-indigo-600 hover:bg-indigo-500 text-white px-3 py-1.5 rounded text-sm font-medium transition-colors"
+          >
+            <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M12 4v16m8-8H4" />
+            </svg>
+            Add Rule
+          </button>
+        )}
+      </div>
+
+      {/* Messages */}
+      {error && (
+        <div className="p-3 bg-red-500/20 border border-red-500/30 rounded text-red-300 text-sm">
+          {error}
+        </div>
+      )}
+      {success && (
+        <div className="p-3 bg-green-500/20 border border-green-500/30 rounded text-green-300 text-sm">
+          {success}
+        </div>
+      )}
+
+      {/* Add/Edit Form */}
+      {showForm && (
+        <form onSubmit={handleSubmit} className="bg-slate-700/50 rounded-lg p-4 space-y-4">
+          <h4 className="font-medium text-white">
+            {editingAutomation ? "Edit Automation" : "New Automation"}
+          </h4>
+
+          <div>
+            <label className="block text-sm font-medium text-slate-300 mb-1">Name</label>
+            <input
+              type="text"
+              value={formData.name}
+              onChange={(e) => setFormData({ ...formData, name: e.target.value })}
+              placeholder="e.g., Assign QA when moved to Review"
+              required
+              className="w-full bg-slate-700 border border-slate-600 rounded px-3 py-2 text-white placeholder-slate-400 focus:outline-none focus:ring-2 focus:ring-indigo-500 text-sm"
+            />
+          </div>
+
+          {/* Trigger */}
+          <div>
+            <label className="block text-sm font-medium text-slate-300 mb-1">When</label>
+            <div className="flex flex-wrap gap-2">
+              <select
+                value={formData.trigger}
+                onChange={(e) =>
+                  setFormData({
+                    ...formData,
+                    trigger: e.target.value as AutomationTriggerType,
+                    triggerConfig: {},
+                  })
+                }
+                className={inputClass}
+              >
+                {triggers.map((t) => (
+                  <option key={t.value} value={t.value}>
+                    {t.label}
+                  </option>
+                ))}
+              </select>
+              {formData.trigger === "task.moved" && (
+                <select
+                  value={formData.triggerConfig.columnId || ""}
+                  onChange={(e) =>
+                    setFormData({ ...formData, triggerConfig: e.target.value ? { columnId: e.target.value } : {} })
+                  }
+                  className={inputClass}
+                >
+                  {renderColumnOptions("Any column")}
+                </select>
+              )}
+              {formData.trigger === "label.added" && (
+                <select
+                  value={formData.triggerConfig.labelId || ""}
+                  onChange={(e) =>
+                    setFormData({ ...formData, triggerConfig: e.target.value ? { labelId: e.target.value } : {} })
+                  }
+                  className={inputClass}
+                >
+                  <option value="">Any label</option>
+                  {labels.map((l) => (
+                    <option key={l.id} value={l.id}>
+                      {l.name}
+                    </option>
+                  ))}
+                </select>
+              )}
+              {formData.trigger === "assignee.changed" && (
+                <select
+                  value={formData.triggerConfig.assigneeId || ""}
+                  onChange={(e) =>
+                    setFormData({ ...formData, triggerConfig: e.target.value ? { assigneeId: e.target.value } : {} })
+                  }
+                  className={inputClass}
+                >
+                  {renderMemberOptions("Anyone")}
+                </select>
+              )}
+            </div>
+          </div>
+
+          {/* Conditions */}
+          <div>
+            <label className="block text-sm font-medium text-slate-300 mb-1">Only if</label>
+            <div className="space-y-2">
+              {formData.conditions.map((condition, index) => (
+                <div key={index} className="flex flex-wrap items-center gap-2">
+                  <select
+                    value={condition.type}
+                    onChange={(e) =>
+                      updateCondition(index, defaultCondition(e.target.value as AutomationCondition["type"]))
+                    }
+                    className={inputClass}
+                  >
+                    {conditionTypes.map((t) => (
+                      <option key={t.value} value={t.value}>
+                        {t.label}
+                      </option>
+                    ))}
+                  </select>
+                  {renderConditionFields(condition, index)}
+                  <button
+                    type="button"
+                    onClick={() =>
+                      setFormData({ ...formData, conditions: formData.conditions.filter((_, i) => i !== index) })
+                    }
+                    className="p-1 text-slate-400 hover:text-red-400"
+                    title="Remove condition"
+                  >
+                    <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                      <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" />
+                    </svg>
+                  </button>
+                </div>
+              ))}
+              <button
+                type="button"
+                onClick={() =>
+                  setFormData({ ...formData, conditions: [...formData.conditions, defaultCondition("priority")] })
+                }
+                className="text-sm text-indigo-400 hover:text-indigo-300"
+              >
+                + Add condition
+              </button>
+            </div>
+          </div>
+
+          {/* Actions */}
+          <div>
+            <label className="block text-sm font-medium text-slate-300 mb-1">Then</label>
+            <div className="space-y-2">
+              {formData.actions.map((action, index) => (
+                <div key={index} className="flex flex-wrap items-center gap-2">
+                  <select
+                    value={action.type}
+                    onChange={(e) => updateAction(index, defaultAction(e.target.value as AutomationAction["type"]))}
+                    className={inputClass}
+                  >
+                    {actionTypes.map((t) => (
+                      <option key={t.value} value={t.value}>
+                        {t.label}
+                      </option>
+                    ))}
+                  </select>
+                  {renderActionFields(action, index)}
+                  {formData.actions.length > 1 && (
+                    <button
+                      type="button"
+                      onClick={() =>
+                        setFormData({ ...formData, actions: formData.actions.filter((_, i) => i !== index) })
+                      }
+                      className="p-1 text-slate-400 hover:text-red-400"
+                      title="Remove action"
+                    >
+                      <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                        <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" />
+                      </svg>
+                    </button>
+                  )}
+                </div>
+              ))}
+              <button
+                type="button"
+                onClick={() => setFormData({ ...formData, actions: [...formData.actions, defaultAction("add_label")] })}
+                className="text-sm text-indigo-400 hover:text-indigo-300"
+              >
+                + Add action
+              </button>
+            </div>
+          </div>
+
+          <div className="flex justify-end gap-2">
+            <button
+              type="button"
+              onClick={resetForm}
+              className="px-4 py-2 text-sm text-slate-300 hover:text-white transition-colors"
+            >
+              Cancel
+            </button>
+            <button
+              type="submit"
+              disabled={saving || !formData.name.trim()}
+              className="bg-indigo-600 hover:bg-indigo-500 disabled:bg-slate-600 disabled:cursor-not-allowed text-white px-4 py-2 rounded text-sm font-medium transition-colors"
+            >
+              {saving ? "Saving..." : editingAutomation ? "Update Rule" : "Create Rule"}
+            </button>
+          </div>
+        </form>
+      )}
+
+      {/* Rules List */}
+      {automations.length > 0 ? (
+        <div className="space-y-2">
+          {automations.map((automation) => (
+            <div key={automation.id} className="flex items-center gap-3 p-3 bg-slate-700/50 rounded-lg group">
+              <button
+                onClick={() => handleToggle(automation)}
+                className={clsx(
+                  "relative w-9 h-5 rounded-full transition-colors shrink-0",
+                  automation.enabled ? "bg-indigo-600" : "bg-slate-600"
+                )}
+                title={automation.enabled ? "Disable" : "Enable"}
+              >
+                <span
+                  className={clsx(
+                    "absolute top-0.5 left-0.5 w-4 h-4 bg-white rounded-full transition-transform",
+                    automation.enabled && "translate-x-4"
+                  )}
+                />
+              </button>
+              <div className="flex-1 min-w-0">
+                <div className={clsx("font-medium truncate", automation.enabled ? "text-white" : "text-slate-400")}>
+                  {automation.name}
+                </div>
+                <div className="text-xs text-slate-400 truncate">
+                  {describeTrigger(automation)}
+                  {automation.conditions.length > 0 &&
+                    ` · ${automation.conditions.length} condition${automation.conditions.length === 1 ? "" : "s"}`}
+                  {` → ${automation.actions.map((a) => actionTypes.find((t) => t.value === a.type)?.label ?? a.type).join(", ")}`}
+                </div>
+              </div>
+              <button
+                onClick={() => handleEdit(automation)}
+                className="opacity-0 group-hover:opacity-100 p-1.5 text-slate-400 hover:text-indigo-400 transition-all"
+                title="Edit automation"
+              >
+                <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                  <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M15.232 5.232l3.536 3.536m-2.036-5.036a2.5 2.5 0 113.536 3.536L6.5 21.036H3v-3.572L16.732 3.732z" />
+                </svg>
+              </button>
+              <button
+                onClick={() => handleDelete(automation.id)}
+                className="opacity-0 group-hover:opacity-100 p-1.5 text-slate-400 hover:text-red-400 transition-all"
+                title="Delete automation"
+              >
+                <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                  <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M19 7l-.867 12.142A2 2 0 0116.138 21H7.862a2 2 0 01-1.995-1.858L5 7m5 4v6m4-6v6m1-10V4a1 1 0 00-1-1h-4a1 1 0 00-1 1v3M4 7h16" />
+                </svg>
+              </button>
+            </div>
+          ))}
+        </div>
+      ) : (
+        !showForm && (
+          <div className="text-center py-8 text-slate-400">
+            <p>No automations yet</p>
+            <p className="text-sm mt-1">
+              Create a rule to assign, label, move or notify automatically
+            </p>
+          </div>
+        )
+      )}
+
+      {/* Run History */}
+      {runs.length > 0 && (
+        <div>
+          <h4 className="text-sm font-medium text-slate-300 mb-2">Recent runs</h4>
+          <div className="space-y-1">
+            {runs.map((run) => (
+              <div key={run.id} className="flex items-center gap-3 text-xs px-2 py-1.5 bg-slate-800/50 rounded">
+                <span className={clsx("font-medium w-14 shrink-0", runStatusStyles[run.status])}>
+                  {run.status}
+                </span>
+                <span className="text-slate-300 shrink-0">{run.automation?.name}</span>
+                <span className="text-slate-500 truncate flex-1">{run.message}</span>
+                <span className="text-slate-500 shrink-0">
+                  {new Date(run.createdAt).toLocaleString()}
+                </span>
+              </div>
+            ))}
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
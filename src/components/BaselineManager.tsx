@@ -0,0 +1,304 @@
+"use client";
+
+import { useState, useEffect, useCallback } from "react";
+import { format, formatDistanceToNow } from "date-fns";
+import clsx from "clsx";
+import type { Baseline, BaselineVariance, TaskVariance } from "@/types";
+
+interface BaselineManagerProps {
+  boardId: string;
+  isOpen: boolean;
+  readOnly?: boolean;
+  selectedId: string | null;
+  onSelect: (baselineId: string | null) => void;
+  onClose: () => void;
+  onTaskClick?: (taskId: string) => void;
+}
+
+const changeLabels: Record<string, string> = {
+  start_date_changed: "start date",
+  due_date_changed: "due date",
+  rescheduled: "auto-scheduled",
+};
+
+function formatSpan(dates: TaskVariance["planned"]): string {
+  const start = dates.startDate ? format(new Date(dates.startDate), "MMM d") : null;
+  const due = dates.dueDate ? format(new Date(dates.dueDate), "MMM d") : null;
+  return start && due && start !== due ? `${start} – ${due}` : (due ?? start ?? "—");
+}
+
+function VarianceReport({
+  boardId,
+  baselineId,
+  onTaskClick,
+}: {
+  boardId: string;
+  baselineId: string;
+  onTaskClick?: (taskId: string) => void;
+}) {
+  const [variance, setVariance] = useState<BaselineVariance | null>(null);
+  const [error, setError] = useState("");
+
+  useEffect(() => {
+    setVariance(null);
+    setError("");
+    fetch(`/api/boards/${boardId}/baselines/${baselineId}/variance`)
+      .then(async (res) => {
+        const data = await res.json();
+        if (res.ok) setVariance(data);
+        else setError(data.error || "Failed to load variance");
+      })
+      .catch(() => setError("Failed to load variance"));
+  }, [boardId, baselineId]);
+
+  if (error) return <p className="mt-3 text-xs text-red-400">{error}</p>;
+  if (!variance) return <p className="mt-3 text-xs text-slate-400">Loading variance...</p>;
+
+  return (
+    <div className="mt-3 space-y-2">
+      <p className="text-xs text-slate-400">
+        {variance.slipped.length} of {variance.tracked} planned task{variance.tracked === 1 ? "" : "s"} slipped
+      </p>
+      {variance.slipped.length > 0 && (
+        <ul className="space-y-2 max-h-64 overflow-y-auto">
+          {variance.slipped.map((task) => {
+            // Most recent first; one entry per person
+            const changedBy = Array.from(new Map(task.changes.map((c) => [c.user.id, c])).values());
+            return (
+              <li key={task.taskId} className="p-2 bg-slate-800 rounded-lg">
+                <div className="flex items-center gap-2">
+                  <button
+                    onClick={() => onTaskClick?.(task.taskId)}
+                    className="flex-1 text-left text-sm text-white truncate hover:text-indigo-300 transition-colors"
+                  >
+                    {task.title}
+                  </button>
+                  <span
+                    className={clsx(
+                      "px-1.5 py-0.5 rounded text-xs shrink-0",
+                      task.slipDays > 7 ? "bg-red-500/20 text-red-400" : "bg-amber-500/20 text-amber-400"
+                    )}
+                  >
+                    +{task.slipDays}d
+                  </span>
+                </div>
+                <p className="text-xs text-slate-400 mt-0.5">
+                  {formatSpan(task.planned)} → {formatSpan(task.current)} · {task.column.name}
+                </p>
+                <p className="text-xs text-slate-500 mt-0.5">
+                  {changedBy.length > 0
+                    ? changedBy
+                        .map(
+                          (c) =>
+                            `${c.user.name || "Someone"} (${changeLabels[c.action] ?? c.action}, ${formatDistanceToNow(
+                              new Date(c.createdAt),
+                              { addSuffix: true }
+                            )})`
+                        )
+                        .join(", ")
+                    : "No recorded date changes"}
+                </p>
+              </li>
+            );
+          })}
+        </ul>
+      )}
+    </div>
+  );
+}
+
+export function BaselineManager({
+  boardId,
+  isOpen,
+  readOnly,
+  selectedId,
+  onSelect,
+  onClose,
+  onTaskClick,
+}: BaselineManagerProps) {
+  const [baselines, setBaselines] = useState<Baseline[]>([]);
+  const [isLoading, setIsLoading] = useState(false);
+  const [name, setName] = useState("");
+  const [reportId, setReportId] = useState<string | null>(null);
+  const [busyId, setBusyId] = useState<string | null>(null);
+  const [error, setError] = useState("");
+
+  const fetchBaselines = useCallback(async () => {
+    setIsLoading(true);
+    try {
+      const res = await fetch(`/api/boards/${boardId}/baselines`);
+      if (res.ok) {
+        setBaselines(await res.json());
+      }
+    } catch (err) {
+      console.error("Failed to fetch baselines:", err);
+    } finally {
+      setIsLoading(false);
+    }
+  }, [boardId]);
+
+  useEffect(() => {
+    if (isOpen) {
+      fetchBaselines();
+    }
+  }, [isOpen, fetchBaselines]);
+
+  const handleCreate = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!name.trim()) return;
+
+    setBusyId("new");
+    setError("");
+    try {
+      const res = await fetch(`/api/boards/${boardId}/baselines`, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ name: name.trim() }),
+      });
+      const data = await res.json();
+      if (res.ok) {
+        setName("");
+        setBaselines((prev) => [data, ...prev]);
+        onSelect(data.id);
+      } else {
+        setError(data.error || "Failed to save baseline");
+      }
+    } catch {
+      setError("Failed to save baseline");
+    } finally {
+      setBusyId(null);
+    }
+  };
+
+  const handleDelete = async (baseline: Baseline) => {
+    if (!confirm(`Delete the baseline "${baseline.name}"?`)) return;
+
+    setBusyId(baseline.id);
+    setError("");
+    try {
+      const res = await fetch(`/api/boards/${boardId}/baselines/${baseline.id}`, { method: "DELETE" });
+      if (res.ok) {
+        setBaselines((prev) => prev.filter((b) => b.id !== baseline.id));
+        if (selectedId === baseline.id) onSelect(null);
+      } else {
+        const data = await res.json();
+        setError(data.error || "Failed to delete baseline");
+      }
+    } catch {
+      setError("Failed to delete baseline");
+    } finally {
+      setBusyId(null);
+    }
+  };
+
+  if (!isOpen) return null;
+
+  return (
+    <>
+      {/* Backdrop */}
+      <div className="fixed inset-0 bg-black/50 z-50" onClick={onClose} />
+
+      {/* Modal */}
+      <div className="fixed inset-0 z-50 flex items-center justify-center p-4">
+        <div className="bg-slate-800 rounded-xl shadow-2xl w-full max-w-lg max-h-[80vh] flex flex-col">
+          {/* Header */}
+          <div className="flex items-center justify-between p-4 border-b border-slate-700">
+            <h2 className="text-lg font-semibold text-white">Baselines</h2>
+            <button
+              onClick={onClose}
+              className="p-1 text-slate-400 hover:text-white transition-colors"
+            >
+              <svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" />
+              </svg>
+            </button>
+          </div>
+
+          {/* Create form */}
+          {!readOnly && (
+            <form onSubmit={handleCreate} className="p-4 border-b border-slate-700 flex gap-2">
+              <input
+                type="text"
+                value={name}
+                onChange={(e) => setName(e.target.value)}
+                placeholder="Baseline name, e.g. Q3 plan"
+                className="flex-1 bg-slate-700 border border-slate-600 rounded-lg px-3 py-2 text-white text-sm placeholder-slate-400 focus:outline-none focus:ring-2 focus:ring-indigo-500"
+              />
+              <button
+                type="submit"
+                disabled={!name.trim() || busyId === "new"}
+                className="px-4 py-2 bg-indigo-600 hover:bg-indigo-700 disabled:opacity-50 text-white text-sm rounded-lg transition-colors"
+                title="Snapshot the planned dates of every scheduled task"
+              >
+                Save current plan
+              </button>
+            </form>
+          )}
+
+          {error && (
+            <div className="mx-4 mt-4 p-2 bg-red-500/10 border border-red-500/30 rounded text-red-400 text-sm">{error}</div>
+          )}
+
+          {/* Baseline list */}
+          <div className="flex-1 overflow-y-auto p-4 space-y-3">
+            {isLoading && baselines.length === 0 ? (
+              <div className="text-slate-400 text-sm">Loading baselines...</div>
+            ) : baselines.length === 0 ? (
+              <div className="text-center py-8 text-slate-500 text-sm">No baselines yet</div>
+            ) : (
+              baselines.map((baseline) => (
+                <div key={baseline.id} className="p-3 bg-slate-700/50 rounded-lg">
+                  <div className="flex items-start gap-3">
+                    <div className="flex-1 min-w-0">
+                      <span className="text-white text-sm font-medium truncate block">{baseline.name}</span>
+                      <p className="text-xs text-slate-400 mt-0.5">
+                        {format(new Date(baseline.createdAt), "MMM d, yyyy")}
+                        {baseline.createdBy?.name && ` by ${baseline.createdBy.name}`}
+                        {` · ${baseline._count?.tasks ?? 0} tasks`}
+                      </p>
+                    </div>
+                    <div className="flex items-center gap-1 shrink-0">
+                      <button
+                        onClick={() => onSelect(selectedId === baseline.id ? null : baseline.id)}
+                        className={clsx(
+                          "px-2 py-1 text-white text-xs rounded transition-colors",
+                          selectedId === baseline.id
+                            ? "bg-indigo-600 hover:bg-indigo-700"
+                            : "bg-slate-600 hover:bg-slate-500"
+                        )}
+                      >
+                        {selectedId === baseline.id ? "Shown" : "Show"}
+                      </button>
+                      <button
+                        onClick={() => setReportId(reportId === baseline.id ? null : baseline.id)}
+                        className="px-2 py-1 bg-slate-600 hover:bg-slate-500 text-white text-xs rounded transition-colors"
+                      >
+                        {reportId === baseline.id ? "Hide variance" : "Variance"}
+                      </button>
+                      {!readOnly && (
+                        <button
+                          onClick={() => handleDelete(baseline)}
+                          disabled={busyId === baseline.id}
+                          className="p-1 text-slate-400 hover:text-red-400 transition-colors"
+                          title="Delete baseline"
+                        >
+                          <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                            <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M19 7l-.867 12.142A2 2 0 0116.138 21H7.862a2 2 0 01-1.995-1.858L5 7m5 4v6m4-6v6m1-10V4a1 1 0 00-1-1h-4a1 1 0 00-1 1v3M4 7h16" />
+                          </svg>
+                        </button>
+                      )}
+                    </div>
+                  </div>
+
+                  {reportId === baseline.id && (
+                    <VarianceReport boardId={boardId} baselineId={baseline.id} onTaskClick={onTaskClick} />
+                  )}
+                </div>
+              ))
+            )}
+          </div>
+        </div>
+      </div>
+    </>
+  );
+}
@@ -0,0 +1,221 @@
+"use client";
+
+import { useRef, useState } from "react";
+import type { Board } from "@/types";
+
+interface ImportConflict {
+  type: string;
+  message: string;
+}
+
+interface ImportPreview {
+  valid: boolean;
+  errors: string[];
+  conflicts: ImportConflict[];
+  unmapped: string[];
+  summary: Record<string, number>;
+}
+
+type ImportSource = "rhythm" | "trello" | "jira";
+
+const IMPORT_SOURCES: { id: ImportSource; label: string; accept: string; hint: string }[] = [
+  { id: "rhythm", label: "Rhythm archive", accept: "application/json,.json", hint: "A board exported from Board Settings" },
+  { id: "trello", label: "Trello (JSON)", accept: "application/json,.json", hint: "Board menu → Print, export and share → Export as JSON" },
+  { id: "jira", label: "Jira (CSV)", accept: "text/csv,.csv", hint: "Issue search → Export → Export CSV (all fields)" },
+];
+
+interface BoardImportPanelProps {
+  onImported: (board: Board) => void;
+}
+
+const SUMMARY_LABELS: Record<string, string> = {
+  columns: "columns",
+  tasks: "tasks",
+  labels: "labels",
+  customFields: "custom fields",
+  comments: "comments",
+  dependencies: "dependencies",
+  attachments: "attachments",
+  taskTemplates: "task templates",
+  automations: "automations",
+};
+
+export function BoardImportPanel({ onImported }: BoardImportPanelProps) {
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const [fileName, setFileName] = useState<string | null>(null);
+  const [source, setSource] = useState<ImportSource>("rhythm");
+  const [payload, setPayload] = useState<string | null>(null);
+  const [preview, setPreview] = useState<ImportPreview | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [checking, setChecking] = useState(false);
+  const [importing, setImporting] = useState(false);
+
+  const reset = () => {
+    setFileName(null);
+    setPayload(null);
+    setPreview(null);
+    setError(null);
+    if (fileInputRef.current) fileInputRef.current.value = "";
+  };
+
+  const handleFile = async (file: File) => {
+    reset();
+    setFileName(file.name);
+    setChecking(true);
+    try {
+      const text = await file.text();
+      const res = await fetch(`/api/boards/import?source=${source}&dryRun=1`, {
+        method: "POST",
+        headers: { "Content-Type": source === "jira" ? "text/csv" : "application/json" },
+        body: text,
+      });
+      const result = await res.json();
+      if (!res.ok) {
+        setError(result.error || "Failed to read file");
+        return;
+      }
+      setPayload(text);
+      setPreview(result);
+    } catch (err) {
+      console.error("Failed to preview import:", err);
+      setError("Failed to read file");
+    } finally {
+      setChecking(false);
+    }
+  };
+
+  const handleImport = async () => {
+    if (!payload || !preview?.valid) return;
+    setImporting(true);
+    setError(null);
+    try {
+      const res = await fetch(`/api/boards/import?source=${source}`, {
+        method: "POST",
+        headers: { "Content-Type": source === "jira" ? "text/csv" : "application/json" },
+        body: payload,
+      });
+      const result = await res.json();
+      if (!res.ok) {
+        setError(result.error || "Failed to import board");
+        return;
+      }
+      onImported(result.board);
+    } catch (err) {
+      console.error("Failed to import board:", err);
+      setError("Failed to import board");
+    } finally {
+      setImporting(false);
+    }
+  };
+
+  const sourceConfig = IMPORT_SOURCES.find((s) => s.id === source)!;
+
+  return (
+    <div className="border border-slate-700 rounded-lg p-4">
+      <div className="flex items-center justify-between gap-3">
+        <div className="min-w-0">
+          <h4 className="text-sm font-medium text-white">Import from file</h4>
+          <p className="text-xs text-slate-400 truncate">{sourceConfig.hint}</p>
+        </div>
+        <select
+          value={source}
+          onChange={(e) => {
+            reset();
+            setSource(e.target.value as ImportSource);
+          }}
+          disabled={checking || importing}
+          className="ml-auto bg-slate-700 border border-slate-600 rounded px-2 py-1.5 text-white text-sm focus:outline-none focus:ring-2 focus:ring-indigo-500"
+        >
+          {IMPORT_SOURCES.map((s) => (
+            <option key={s.id} value={s.id}>
+              {s.label}
+            </option>
+          ))}
+        </select>
+        <button
+          onClick={() => fileInputRef.current?.click()}
+          disabled={checking || importing}
+          className="px-3 py-1.5 bg-slate-700 hover:bg-slate-600 disabled:opacity-50 text-white text-sm rounded-lg transition-colors"
+        >
+          {checking ? "Checking..." : fileName ? "Choose another" : "Choose file"}
+        </button>
+        <input
+          ref={fileInputRef}
+          type="file"
+          accept={sourceConfig.accept}
+          className="hidden"
+          onChange={(e) => {
+            const file = e.target.files?.[0];
+            if (file) handleFile(file);
+          }}
+        />
+      </div>
+
+      {error && (
+        <div className="mt-3 p-2 bg-red-500/10 border border-red-500/30 rounded text-red-400 text-sm">
+          {error}
+        </div>
+      )}
+
+      {preview && (
+        <div className="mt-3 space-y-3">
+          <p className="text-sm text-slate-300">
+            <span className="text-white font-medium">{fileName}</span>
+            {preview.valid && (
+              <span className="text-slate-400">
+                {" "}&mdash;{" "}
+                {Object.entries(SUMMARY_LABELS)
+                  .filter(([key]) => preview.summary[key])
+                  .map(([key, label]) => `${preview.summary[key]} ${label}`)
+                  .join(", ")}
+              </span>
+            )}
+          </p>
+
+          {preview.errors.length > 0 && (
+            <ul className="p-2 bg-red-500/10 border border-red-500/30 rounded text-red-400 text-xs space-y-1">
+              {preview.errors.map((message, i) => (
+                <li key={i}>{message}</li>
+              ))}
+            </ul>
+          )}
+
+          {preview.conflicts.length > 0 && (
+            <ul className="p-2 bg-yellow-500/10 border border-yellow-500/30 rounded text-yellow-400 text-xs space-y-1">
+              {preview.conflicts.map((conflict, i) => (
+                <li key={i}>{conflict.message}</li>
+              ))}
+            </ul>
+          )}
+
+          {preview.unmapped.length > 0 && (
+            <div>
+              <p className="text-xs font-medium text-slate-400 mb-1">Not imported</p>
+              <ul className="p-2 bg-slate-700/50 border border-slate-600 rounded text-slate-300 text-xs space-y-1">
+                {preview.unmapped.map((message, i) => (
+                  <li key={i}>{message}</li>
+                ))}
+              </ul>
+            </div>
+          )}
+
+          <div className="flex justify-end gap-2">
+            <button
+              onClick={reset}
+              className="px-3 py-1.5 text-slate-400 hover:text-white text-sm transition-colors"
+            >
+              Clear
+            </button>
+            <button
+              onClick={handleImport}
+              disabled={!preview.valid || importing}
+              className="px-3 py-1.5 bg-indigo-600 hover:bg-indigo-500 disabled:bg-indigo-600/50 disabled:cursor-not-allowed text-white text-sm rounded-lg font-medium transition-colors"
+            >
+              {importing ? "Importing..." : "Import board"}
+            </button>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
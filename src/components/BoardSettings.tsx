@@ -1,9 +1,14 @@
 "use client";
 
 import { useState, useEffect, useCallback } from "react";
+import { useRouter } from "next/navigation";
 import Image from "next/image";
-import type { Board, BoardMember, User, BoardVisibility, BoardInvite, Column } from "@/types";
+import type { Board, BoardMember, User, BoardVisibility, BoardInvite, Column, PointScale } from "@/types";
 import { CustomFieldManager } from "./CustomFieldManager";
+import { AutomationManager } from "./AutomationManager";
+import { BoardTrash } from "./BoardTrash";
+import type { BoardTemplateVisibility } from "@/lib/board-templates";
+import { POINT_SCALES } from "@/lib/story-points";
 
 interface BoardSettingsProps {
   board: Board;
@@ -12,9 +17,10 @@ interface BoardSettingsProps {
   onClose: () => void;
   onBoardUpdate: (board: Board) => void;
   onBoardDelete: () => void;
+  onTaskRestored?: () => void;
 }
 
-type Tab = "general" | "members" | "custom-fields" | "integrations" | "danger";
+type Tab = "general" | "members" | "custom-fields" | "automations" | "integrations" | "trash" | "danger";
 
 interface BoardEmailAddress {
   id: string;
@@ -38,6 +44,7 @@ export function BoardSettings({
   onClose,
   onBoardUpdate,
   onBoardDelete,
+  onTaskRestored,
 }: BoardSettingsProps) {
   const [activeTab, setActiveTab] = useState<Tab>("general");
   const [loading, setLoading] = useState(false);
@@ -48,6 +55,22 @@ export function BoardSettings({
   const [name, setName] = useState(board.name);
   const [description, setDescription] = useState(board.description || "");
   const [visibility, setVisibility] = useState<BoardVisibility>(board.visibility);
+  const [pointScale, setPointScale] = useState<PointScale>(board.pointScale ?? "fibonacci");
+  const [enforceDependencies, setEnforceDependencies] = useState(board.enforceDependencies ?? false);
+  const [autoSchedule, setAutoSchedule] = useState(board.autoSchedule ?? false);
+
+  // Save-as-template state
+  const [templateName, setTemplateName] = useState(board.name);
+  const [templateVisibility, setTemplateVisibility] = useState<BoardTemplateVisibility>("private");
+  const [templateIncludeTasks, setTemplateIncludeTasks] = useState(false);
+  const [savingTemplate, setSavingTemplate] = useState(false);
+
+  // Duplicate state
+  const [duplicateTasks, setDuplicateTasks] = useState(true);
+  const [duplicateHistory, setDuplicateHistory] = useState(false);
+  const [duplicateMembers, setDuplicateMembers] = useState(false);
+  const [duplicating, setDuplicating] = useState(false);
+  const router = useRouter();
 
   // Members tab state
   const [members, setMembers] = useState<MemberWithOwner[]>([]);
@@ -163,6 +186,9 @@ export function BoardSettings({
     setName(board.name);
     setDescription(board.description || "");
     setVisibility(board.visibility);
+    setPointScale(board.pointScale ?? "fibonacci");
+    setEnforceDependencies(board.enforceDependencies ?? false);
+    setAutoSchedule(board.autoSchedule ?? false);
   }, [board]);
 
   const clearMessages = () => {
@@ -178,7 +204,7 @@ export function BoardSettings({
       const res = await fetch(`/api/boards/${board.id}`, {
         method: "PATCH",
         headers: { "Content-Type": "application/json" },
-        body: JSON.stringify({ name, description, visibility }),
+        body: JSON.stringify({ name, description, visibility, pointScale, enforceDependencies, autoSchedule }),
       });
       if (res.ok) {
         const updated = await res.json();
@@ -195,6 +221,68 @@ export function BoardSettings({
     }
   };
 
+  // Save the board's structure as a reusable template
+  const handleSaveTemplate = async () => {
+    if (!templateName.trim()) return;
+    clearMessages();
+    setSavingTemplate(true);
+    try {
+      const res = await fetch("/api/board-templates", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({
+          boardId: board.id,
+          name: templateName,
+          description: board.description,
+          visibility: templateVisibility,
+          includeTasks: templateIncludeTasks,
+        }),
+      });
+      if (res.ok) {
+        setSuccess(`Saved "${templateName.trim()}" as a template`);
+      } else {
+        const data = await res.json();
+        setError(data.error || "Failed to save template");
+      }
+    } catch {
+      setError("Failed to save template");
+    } finally {
+      setSavingTemplate(false);
+    }
+  };
+
+  // Copy the board and open the copy
+  const handleDuplicate = async () => {
+    clearMessages();
+    setDuplicating(true);
+    try {
+      const res = await fetch(`/api/boards/${board.id}/duplicate`, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({
+          include: {
+            tasks: duplicateTasks,
+            comments: duplicateHistory,
+            activity: duplicateHistory,
+            members: duplicateMembers,
+          },
+        }),
+      });
+      if (res.ok) {
+        const copy = await res.json();
+        onClose();
+        router.push(`/boards/${copy.id}`);
+      } else {
+        const data = await res.json();
+        setError(data.error || "Failed to duplicate board");
+      }
+    } catch {
+      setError("Failed to duplicate board");
+    } finally {
+      setDuplicating(false);
+    }
+  };
+
   // Invite member
   const handleInvite = async (e: React.FormEvent) => {
     e.preventDefault();
@@ -374,13 +462,38 @@ export function BoardSettings({
     }
   };
 
+  // Archive or unarchive board
+  const handleArchive = async (archived: boolean) => {
+    clearMessages();
+    setLoading(true);
+    try {
+      const res = await fetch(`/api/boards/${board.id}`, {
+        method: "PATCH",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ archived }),
+      });
+      if (res.ok) {
+        const updated = await res.json();
+        onBoardUpdate(updated);
+        setSuccess(archived ? "Board archived" : "Board unarchived");
+      } else {
+        const data = await res.json();
+        setError(data.error || `Failed to ${archived ? "archive" : "unarchive"} board`);
+      }
+    } catch {
+      setError(`Failed to ${archived ? "archive" : "unarchive"} board`);
+    } finally {
+      setLoading(false);
+    }
+  };
+
   // Delete board
   const handleDeleteBoard = async () => {
     if (deleteConfirmation !== board.name) {
       setError("Please type the board name exactly to confirm deletion");
       return;
     }
-    if (!confirm("This will permanently delete the board and all its data. Continue?")) {
+    if (!confirm("This will move the board and all its data to the trash. Continue?")) {
       return;
     }
     clearMessages();
@@ -426,7 +539,9 @@ export function BoardSettings({
             { id: "general", label: "General" },
             { id: "members", label: "Members" },
             { id: "custom-fields", label: "Custom Fields" },
+            { id: "automations", label: "Automations", show: canEdit },
             { id: "integrations", label: "Integrations", show: canEdit },
+            { id: "trash", label: "Trash" },
             { id: "danger", label: "Danger Zone", show: isOwner },
           ]
             .filter((tab) => tab.show !== false)
@@ -507,6 +622,56 @@ export function BoardSettings({
                 </select>
               </div>
 
+              <div>
+                <label className="block text-sm font-medium text-slate-300 mb-2">
+                  Story Point Scale
+                </label>
+                <select
+                  value={pointScale}
+                  onChange={(e) => setPointScale(e.target.value as PointScale)}
+                  disabled={!canEdit}
+                  className="w-full bg-slate-700 border border-slate-600 rounded px-3 py-2 text-white focus:outline-none focus:ring-2 focus:ring-indigo-500 disabled:opacity-50"
+                >
+                  {POINT_SCALES.map((scale) => (
+                    <option key={scale.id} value={scale.id}>
+                      {scale.label} ({scale.options.map((o) => o.label).join(", ")})
+                    </option>
+                  ))}
+                </select>
+              </div>
+
+              <label className="flex items-start gap-2 cursor-pointer">
+                <input
+                  type="checkbox"
+                  checked={enforceDependencies}
+                  onChange={(e) => setEnforceDependencies(e.target.checked)}
+                  disabled={!canEdit}
+                  className="mt-1 rounded bg-slate-700 border-slate-600"
+                />
+                <span>
+                  <span className="block text-sm font-medium text-slate-300">Enforce dependencies</span>
+                  <span className="block text-xs text-slate-400">
+                    Tasks with unfinished blockers can&apos;t be started or completed
+                  </span>
+                </span>
+              </label>
+
+              <label className="flex items-start gap-2 cursor-pointer">
+                <input
+                  type="checkbox"
+                  checked={autoSchedule}
+                  onChange={(e) => setAutoSchedule(e.target.checked)}
+                  disabled={!canEdit}
+                  className="mt-1 rounded bg-slate-700 border-slate-600"
+                />
+                <span>
+                  <span className="block text-sm font-medium text-slate-300">Auto-schedule</span>
+                  <span className="block text-xs text-slate-400">
+                    Rescheduling a task pushes the tasks it blocks forward, skipping weekends
+                  </span>
+                </span>
+              </label>
+
               {canEdit && (
                 <button
                   onClick={handleSaveGeneral}
@@ -516,6 +681,92 @@ export function BoardSettings({
                   {loading ? "Saving..." : "Save Changes"}
                 </button>
               )}
+
+              <div className="pt-6 border-t border-slate-700">
+                <h4 className="text-sm font-medium text-slate-300 mb-1">Export</h4>
+                <p className="text-slate-400 text-sm mb-3">
+                  Download the board with its tasks, comments, history and settings as a JSON archive.
+                  It can be imported again from the New Board dialog.
+                </p>
+                <a
+                  href={`/api/boards/${board.id}/export`}
+                  download
+                  className="inline-block bg-slate-700 hover:bg-slate-600 text-white px-4 py-2 rounded font-medium transition-colors"
+                >
+                  Export Board
+                </a>
+              </div>
+
+              <div className="pt-6 border-t border-slate-700">
+                <h4 className="text-sm font-medium text-slate-300 mb-1">Save as Template</h4>
+                <p className="text-slate-400 text-sm mb-3">
+                  Reuse this board&apos;s columns, labels, custom fields, task templates and automations when creating new boards.
+                </p>
+                <div className="space-y-3">
+                  <input
+                    type="text"
+                    value={templateName}
+                    onChange={(e) => setTemplateName(e.target.value)}
+                    placeholder="Template name"
+                    className="w-full bg-slate-700 border border-slate-600 rounded px-3 py-2 text-white placeholder-slate-400 focus:outline-none focus:ring-2 focus:ring-indigo-500"
+                  />
+                  <select
+                    value={templateVisibility}
+                    onChange={(e) => setTemplateVisibility(e.target.value as BoardTemplateVisibility)}
+                    className="w-full bg-slate-700 border border-slate-600 rounded px-3 py-2 text-white focus:outline-none focus:ring-2 focus:ring-indigo-500"
+                  >
+                    <option value="private">🔒 Only me</option>
+                    <option value="org">🏢 Everyone in the organization</option>
+                  </select>
+                  <label className="flex items-center gap-2 text-sm text-slate-300">
+                    <input
+                      type="checkbox"
+                      checked={templateIncludeTasks}
+                      onChange={(e) => setTemplateIncludeTasks(e.target.checked)}
+                      className="rounded bg-slate-700 border-slate-600"
+                    />
+                    Include open tasks as starter tasks
+                  </label>
+                  <button
+                    onClick={handleSaveTemplate}
+                    disabled={savingTemplate || !templateName.trim()}
+                    className="bg-slate-700 hover:bg-slate-600 disabled:opacity-50 text-white px-4 py-2 rounded font-medium transition-colors"
+                  >
+                    {savingTemplate ? "Saving..." : "Save Template"}
+                  </button>
+                </div>
+              </div>
+
+              <div className="pt-6 border-t border-slate-700">
+                <h4 className="text-sm font-medium text-slate-300 mb-1">Duplicate Board</h4>
+                <p className="text-slate-400 text-sm mb-3">
+                  Create a copy you own with the same columns, labels, custom fields, task templates and automations.
+                </p>
+                <div className="space-y-2 mb-3">
+                  {[
+                    { label: "Open tasks and subtasks", checked: duplicateTasks, onChange: setDuplicateTasks },
+                    { label: "Comments and activity history", checked: duplicateHistory, onChange: setDuplicateHistory },
+                    { label: "Members", checked: duplicateMembers, onChange: setDuplicateMembers },
+                  ].map((option) => (
+                    <label key={option.label} className="flex items-center gap-2 text-sm text-slate-300">
+                      <input
+                        type="checkbox"
+                        checked={option.checked}
+                        onChange={(e) => option.onChange(e.target.checked)}
+                        className="rounded bg-slate-700 border-slate-600"
+                      />
+                      {option.label}
+                    </label>
+                  ))}
+                </div>
+                <button
+                  onClick={handleDuplicate}
+                  disabled={duplicating}
+                  className="bg-slate-700 hover:bg-slate-600 disabled:opacity-50 text-white px-4 py-2 rounded font-medium transition-colors"
+                >
+                  {duplicating ? "Duplicating..." : "Duplicate Board"}
+                </button>
+              </div>
             </div>
           )}
 
@@ -712,6 +963,16 @@ export function BoardSettings({
             <CustomFieldManager boardId={board.id} />
           )}
 
+          {/* Automations Tab */}
+          {activeTab === "automations" && canEdit && (
+            <AutomationManager
+              boardId={board.id}
+              columns={board.columns || []}
+              labels={board.labels || []}
+              members={(board.members || []).map((m) => m.user).filter((u): u is User => !!u)}
+            />
+          )}
+
           {/* Integrations Tab */}
           {activeTab === "integrations" && canEdit && (
             <div className="space-y-6">
@@ -917,6 +1178,11 @@ export function BoardSettings({
             </div>
           )}
 
+          {/* Trash Tab */}
+          {activeTab === "trash" && (
+            <BoardTrash boardId={board.id} readOnly={!!board.archivedAt} onRestored={onTaskRestored} />
+          )}
+
           {/* Danger Zone Tab */}
           {activeTab === "danger" && isOwner && (
             <div className="space-y-6">
@@ -953,13 +1219,32 @@ export function BoardSettings({
                 </div>
               </div>
 
+              {/* Archive Board */}
+              <div className="border border-orange-500/30 rounded-lg p-4">
+                <h3 className="text-lg font-medium text-orange-400 mb-2">
+                  {board.archivedAt ? "Unarchive Board" : "Archive Board"}
+                </h3>
+                <p className="text-slate-400 text-sm mb-4">
+                  {board.archivedAt
+                    ? "This board is archived and read-only. Unarchive it to make changes and show it in the boards list again."
+                    : "Archived boards are read-only and hidden from the boards list. Nothing is deleted, and you can unarchive at any time."}
+                </p>
+                <button
+                  onClick={() => handleArchive(!board.archivedAt)}
+                  disabled={loading}
+                  className="bg-orange-600 hover:bg-orange-500 disabled:opacity-50 text-white px-4 py-2 rounded font-medium transition-colors"
+                >
+                  {board.archivedAt ? "Unarchive Board" : "Archive Board"}
+                </button>
+              </div>
+
               {/* Delete Board */}
               <div className="border border-red-500/30 rounded-lg p-4">
                 <h3 className="text-lg font-medium text-red-400 mb-2">
                   Delete Board
                 </h3>
                 <p className="text-slate-400 text-sm mb-4">
-                  Permanently delete this board and all its data. This action cannot be undone.
+                  Move this board and all its data to the trash. You can restore it from the trash until it is permanently deleted.
                 </p>
                 <p className="text-slate-300 text-sm mb-3">
                   Type <span className="font-mono bg-slate-700 px-2 py-0.5 rounded">{board.name}</span> to confirm:
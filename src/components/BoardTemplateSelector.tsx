@@ -1,5 +1,6 @@
 "use client";
 
+import { useEffect, useState } from "react";
 import { boardTemplates, BoardTemplate } from "@/lib/board-templates";
 import clsx from "clsx";
 
@@ -8,10 +9,48 @@ interface BoardTemplateSelectorProps {
   onSelect: (template: BoardTemplate) => void;
 }
 
+function savedSummary(saved: NonNullable<BoardTemplate["saved"]>) {
+  return [
+    saved.customFields > 0 && `${saved.customFields} fields`,
+    saved.taskTemplates > 0 && `${saved.taskTemplates} task templates`,
+    saved.automations > 0 && `${saved.automations} automations`,
+    saved.tasks > 0 && `${saved.tasks} tasks`,
+  ]
+    .filter(Boolean)
+    .join(" · ");
+}
+
 export function BoardTemplateSelector({ selectedId, onSelect }: BoardTemplateSelectorProps) {
+  const [savedTemplates, setSavedTemplates] = useState<BoardTemplate[]>([]);
+
+  useEffect(() => {
+    fetch("/api/board-templates")
+      .then((res) => (res.ok ? res.json() : []))
+      .then(setSavedTemplates)
+      .catch((err) => console.error("Failed to load saved templates:", err));
+  }, []);
+
+  return (
+    <div className="space-y-4">
+      <TemplateGrid templates={boardTemplates} selectedId={selectedId} onSelect={onSelect} />
+      {savedTemplates.length > 0 && (
+        <div>
+          <h4 className="text-sm font-medium text-slate-300 mb-2">Saved templates</h4>
+          <TemplateGrid templates={savedTemplates} selectedId={selectedId} onSelect={onSelect} />
+        </div>
+      )}
+    </div>
+  );
+}
+
+function TemplateGrid({
+  templates,
+  selectedId,
+  onSelect,
+}: BoardTemplateSelectorProps & { templates: BoardTemplate[] }) {
   return (
     <div className="grid grid-cols-1 sm:grid-cols-2 gap-3">
-      {boardTemplates.map((template) => (
+      {templates.map((template) => (
         <button
           key={template.id}
           onClick={() => onSelect(template)}
@@ -31,8 +70,18 @@ export function BoardTemplateSelector({ selectedId, onSelect }: BoardTemplateSel
                   <path fillRule="evenodd" d="M10 18a8 8 0 100-16 8 8 0 000 16zm3.707-9.293a1 1 0 00-1.414-1.414L9 10.586 7.707 9.293a1 1 0 00-1.414 1.414l2 2a1 1 0 001.414 0l4-4z" clipRule="evenodd" />
                 </svg>
               )}
+              {template.saved && (
+                <span className="ml-auto text-xs font-normal px-1.5 py-0.5 rounded bg-slate-600 text-slate-300">
+                  {template.saved.visibility === "org" ? "Org" : "Private"}
+                </span>
+              )}
             </h4>
-            <p className="text-sm text-slate-400 mt-0.5">{template.description}</p>
+            <p className="text-sm text-slate-400 mt-0.5">
+              {template.description || (template.saved && `By ${template.saved.createdBy.name || template.saved.createdBy.email}`)}
+            </p>
+            {template.saved && savedSummary(template.saved) && (
+              <p className="text-xs text-slate-500 mt-0.5">{savedSummary(template.saved)}</p>
+            )}
           </div>
 
           {/* Column Preview */}
@@ -0,0 +1,104 @@
+"use client";
+
+import { useState, useEffect, useCallback } from "react";
+import { formatDistanceToNow } from "date-fns";
+import type { TrashedTask } from "@/types";
+
+interface BoardTrashProps {
+  boardId: string;
+  readOnly?: boolean;
+  onRestored?: () => void;
+}
+
+export function BoardTrash({ boardId, readOnly, onRestored }: BoardTrashProps) {
+  const [tasks, setTasks] = useState<TrashedTask[]>([]);
+  const [retentionDays, setRetentionDays] = useState<number | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [restoringId, setRestoringId] = useState<string | null>(null);
+  const [error, setError] = useState("");
+
+  const fetchTrash = useCallback(async () => {
+    try {
+      const res = await fetch(`/api/boards/${boardId}/trash`);
+      if (res.ok) {
+        const data = await res.json();
+        setTasks(data.tasks);
+        setRetentionDays(data.retentionDays);
+      }
+    } catch (err) {
+      console.error("Failed to fetch trash:", err);
+    } finally {
+      setLoading(false);
+    }
+  }, [boardId]);
+
+  useEffect(() => {
+    fetchTrash();
+  }, [fetchTrash]);
+
+  const handleRestore = async (task: TrashedTask) => {
+    setRestoringId(task.id);
+    setError("");
+    try {
+      const res = await fetch(`/api/tasks/${task.id}/restore`, { method: "POST" });
+      if (res.ok) {
+        setTasks((prev) => prev.filter((t) => t.id !== task.id));
+        onRestored?.();
+      } else {
+        const data = await res.json();
+        setError(data.error || "Failed to restore task");
+      }
+    } catch {
+      setError("Failed to restore task");
+    } finally {
+      setRestoringId(null);
+    }
+  };
+
+  if (loading) {
+    return <div className="text-slate-400 text-sm">Loading trash...</div>;
+  }
+
+  return (
+    <div className="space-y-4">
+      <p className="text-slate-400 text-sm">
+        Deleted tasks stay here for {retentionDays} days before they are permanently removed.
+        {readOnly && " Unarchive the board to restore them."}
+      </p>
+
+      {error && (
+        <div className="p-2 bg-red-500/10 border border-red-500/30 rounded text-red-400 text-sm">{error}</div>
+      )}
+
+      {tasks.length === 0 ? (
+        <div className="text-center py-8 text-slate-500 text-sm">The trash is empty</div>
+      ) : (
+        <div className="space-y-2">
+          {tasks.map((task) => (
+            <div key={task.id} className="flex items-center gap-3 p-3 bg-slate-700/50 rounded-lg">
+              <div className="flex-1 min-w-0">
+                <div className="text-white text-sm truncate">{task.title}</div>
+                <div className="text-xs text-slate-400 truncate">
+                  {task.parent ? `Subtask of "${task.parent.title}"` : task.column.name}
+                  {task.subtaskCount ? ` · ${task.subtaskCount} subtasks` : ""}
+                  {" · "}deleted {formatDistanceToNow(new Date(task.deletedAt), { addSuffix: true })}
+                  {task.deletedBy && ` by ${task.deletedBy.name || task.deletedBy.email}`}
+                </div>
+                <div className="text-xs text-slate-500">
+                  Permanently deleted {formatDistanceToNow(new Date(task.purgeAt), { addSuffix: true })}
+                </div>
+              </div>
+              <button
+                onClick={() => handleRestore(task)}
+                disabled={readOnly || restoringId === task.id}
+                className="px-3 py-1.5 bg-slate-600 hover:bg-slate-500 disabled:opacity-50 text-white text-sm rounded transition-colors"
+              >
+                {restoringId === task.id ? "Restoring..." : "Restore"}
+              </button>
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,141 @@
+"use client";
+
+import { ReactNode, useEffect, useLayoutEffect, useRef } from "react";
+import clsx from "clsx";
+import { useSharedDescription, RemoteCursor, TextSelection } from "@/hooks/useSharedDescription";
+import { stringToColor } from "./PresenceIndicator";
+
+interface CollaborativeDescriptionProps {
+  taskId: string;
+  boardId: string;
+  onChange?: (text: string) => void;
+  // Called on the user's own keystrokes, unlike onChange which sees everyone's edits
+  onInput?: () => void;
+  onBlur?: () => void;
+}
+
+function getSelection(textarea: HTMLTextAreaElement): TextSelection {
+  const { selectionStart, selectionEnd, selectionDirection } = textarea;
+  return selectionDirection === "backward"
+    ? { anchor: selectionEnd, head: selectionStart }
+    : { anchor: selectionStart, head: selectionEnd };
+}
+
+/**
+ * The text with everyone else's selections highlighted and their carets
+ * marked, laid out exactly like the textarea's so it can sit on top of it
+ */
+function renderCursors(text: string, cursors: RemoteCursor[], names: Map<string, string>): ReactNode[] {
+  const ranges = cursors.map((cursor) => ({
+    ...cursor,
+    from: Math.min(cursor.anchor, cursor.head),
+    to: Math.max(cursor.anchor, cursor.head),
+  }));
+  const points = Array.from(new Set([0, text.length, ...ranges.flatMap((r) => [r.from, r.to])])).sort((a, b) => a - b);
+
+  const nodes: ReactNode[] = [];
+  points.forEach((point, i) => {
+    ranges
+      .filter((range) => range.head === point)
+      .forEach((range) => {
+        const color = stringToColor(range.userId);
+        nodes.push(
+          <span key={`caret-${range.clientId}`} className="relative">
+            <span className={clsx("absolute top-0 -left-px w-0.5 h-[1.25em]", color)} />
+            <span
+              className={clsx(
+                "absolute top-[1.25em] -left-px px-1 rounded-sm text-[10px] leading-4 text-white whitespace-nowrap",
+                color
+              )}
+            >
+              {names.get(range.userId) ?? "Someone"}
+            </span>
+          </span>
+        );
+      });
+
+    const next = points[i + 1];
+    if (next === undefined) return;
+    const segment = text.slice(point, next);
+    const selecting = ranges.find((range) => range.from < range.to && range.from <= point && next <= range.to);
+    nodes.push(
+      selecting ? (
+        <span key={`range-${point}`} className={clsx(stringToColor(selecting.userId), "bg-opacity-30")}>
+          {segment}
+        </span>
+      ) : (
+        segment
+      )
+    );
+  });
+
+  // Keeps a trailing newline from collapsing, as it doesn't in the textarea
+  nodes.push("\u200b");
+  return nodes;
+}
+
+export function CollaborativeDescription({ taskId, boardId, onChange, onInput, onBlur }: CollaborativeDescriptionProps) {
+  const textareaRef = useRef<HTMLTextAreaElement>(null);
+  const overlayRef = useRef<HTMLDivElement>(null);
+  const { text, cursors, connectedUsers, edit, select, localSelection } = useSharedDescription(taskId, boardId);
+
+  useEffect(() => {
+    onChange?.(text);
+  }, [text, onChange]);
+
+  // Keep the caret where it was when someone else's edit lands before it
+  useLayoutEffect(() => {
+    const textarea = textareaRef.current;
+    if (!textarea || document.activeElement !== textarea) return;
+    const selection = localSelection();
+    if (!selection) return;
+    const start = Math.min(selection.anchor, selection.head);
+    const end = Math.max(selection.anchor, selection.head);
+    if (textarea.selectionStart !== start || textarea.selectionEnd !== end) {
+      textarea.setSelectionRange(start, end, selection.head < selection.anchor ? "backward" : "forward");
+    }
+  }, [text, localSelection]);
+
+  useLayoutEffect(() => {
+    if (overlayRef.current && textareaRef.current) {
+      overlayRef.current.scrollTop = textareaRef.current.scrollTop;
+    }
+  });
+
+  const names = new Map(connectedUsers.map((user) => [user.userId, user.userName]));
+
+  return (
+    <div className="relative">
+      <textarea
+        ref={textareaRef}
+        value={text}
+        onChange={(e) => {
+          edit(e.target.value);
+          select(getSelection(e.target));
+          onInput?.();
+        }}
+        onSelect={(e) => select(getSelection(e.currentTarget))}
+        onFocus={(e) => select(getSelection(e.currentTarget))}
+        onBlur={() => {
+          select(null);
+          onBlur?.();
+        }}
+        onScroll={(e) => {
+          if (overlayRef.current) overlayRef.current.scrollTop = e.currentTarget.scrollTop;
+        }}
+        rows={4}
+        placeholder="Add a description..."
+        className="w-full bg-slate-700 border border-slate-600 rounded-lg px-3 py-2 text-white placeholder-slate-400 focus:outline-none focus:ring-2 focus:ring-indigo-500 resize-none"
+      />
+      {cursors.length > 0 && (
+        <div
+          ref={overlayRef}
+          aria-hidden
+          className="absolute inset-0 px-3 py-2 border border-transparent overflow-hidden whitespace-pre-wrap break-words text-transparent pointer-events-none"
+        >
+          {renderCursors(text, cursors, names)}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -8,7 +8,9 @@ import {
   verticalListSortingStrategy,
 } from "@dnd-kit/sortable";
 import { useState, useEffect } from "react";
-import type { Column as ColumnType, Task, TaskTemplate } from "@/types";
+import type { Column as ColumnType, ColumnCategory, Task, TaskTemplate, TaskViewer, WipMode } from "@/types";
+import { COLUMN_CATEGORIES } from "@/lib/column-categories";
+import { sumPoints } from "@/lib/story-points";
 import { TaskCard } from "./TaskCard";
 import clsx from "clsx";
 
@@ -20,9 +22,12 @@ interface ColumnProps {
   onAddTask: (columnId: string, title: string) => void;
   onTaskCreatedFromTemplate?: (task: Task) => void;
   onDeleteColumn?: () => void;
+  onUpdateColumn?: (columnId: string, updates: Partial<ColumnType>) => void;
   onToggleSubtask?: (subtaskId: string, completed: boolean) => void;
   selectedTaskId?: string | null;
   scheduledTaskIds?: Set<string>;
+  taskViewers?: Map<string, TaskViewer[]>; // others with each task open
+  activeTaskCount?: number; // unfiltered load used for WIP limits
 }
 
 export function Column({
@@ -33,9 +38,12 @@ export function Column({
   onAddTask,
   onTaskCreatedFromTemplate,
   onDeleteColumn,
+  onUpdateColumn,
   onToggleSubtask,
   selectedTaskId,
   scheduledTaskIds = new Set(),
+  taskViewers,
+  activeTaskCount,
 }: ColumnProps) {
   const [isAdding, setIsAdding] = useState(false);
   const [newTaskTitle, setNewTaskTitle] = useState("");
@@ -43,6 +51,35 @@ export function Column({
   const [showTemplateDropdown, setShowTemplateDropdown] = useState(false);
   const [templates, setTemplates] = useState<TaskTemplate[]>([]);
   const [loadingTemplates, setLoadingTemplates] = useState(false);
+  const [showSettings, setShowSettings] = useState(false);
+  const [category, setCategory] = useState<ColumnCategory>("unstarted");
+  const [wipLimit, setWipLimit] = useState("");
+  const [wipLimitPerAssignee, setWipLimitPerAssignee] = useState("");
+  const [wipMode, setWipMode] = useState<WipMode>("warn");
+
+  const taskCount = activeTaskCount ?? tasks.length;
+  const hasWipLimit = column.wipLimit != null;
+  const isOverLimit = hasWipLimit && taskCount > column.wipLimit!;
+  const isAtLimit = hasWipLimit && taskCount === column.wipLimit;
+  const totalPoints = sumPoints(tasks);
+
+  const openSettings = () => {
+    setCategory(column.category ?? "unstarted");
+    setWipLimit(column.wipLimit?.toString() ?? "");
+    setWipLimitPerAssignee(column.wipLimitPerAssignee?.toString() ?? "");
+    setWipMode(column.wipMode ?? "warn");
+    setShowSettings(true);
+  };
+
+  const handleSaveSettings = () => {
+    onUpdateColumn?.(column.id, {
+      category,
+      wipLimit: wipLimit ? parseInt(wipLimit, 10) : null,
+      wipLimitPerAssignee: wipLimitPerAssignee ? parseInt(wipLimitPerAssignee, 10) : null,
+      wipMode,
+    });
+    setShowSettings(false);
+  };
 
   // Fetch templates when dropdown is shown
   useEffect(() => {
@@ -114,6 +151,7 @@ export function Column({
       className={clsx(
         "w-72 min-w-[200px] shrink bg-slate-800/50 rounded-lg flex flex-col max-h-full",
         isOver && "ring-2 ring-indigo-500",
+        isOverLimit && !isOver && "ring-2 ring-red-500/70 bg-red-500/10",
         isColumnDragging && "opacity-50"
       )}
     >
@@ -129,9 +167,28 @@ export function Column({
             style={{ backgroundColor: column.color }}
           />
           <h3 className="font-medium text-slate-200">{column.name}</h3>
-          <span className="text-sm text-slate-500 bg-slate-700 px-1.5 rounded">
-            {tasks.length}
+          <span
+            className={clsx(
+              "text-sm px-1.5 rounded",
+              isOverLimit
+                ? "text-red-300 bg-red-500/30"
+                : isAtLimit
+                  ? "text-amber-300 bg-amber-500/20"
+                  : "text-slate-500 bg-slate-700"
+            )}
+            title={
+              hasWipLimit
+                ? `WIP limit ${column.wipLimit}${column.wipMode === "block" ? " (enforced)" : ""}`
+                : undefined
+            }
+          >
+            {hasWipLimit ? `${taskCount}/${column.wipLimit}` : tasks.length}
           </span>
+          {totalPoints > 0 && (
+            <span className="text-xs text-slate-400" title="Story points in this column">
+              {totalPoints} pts
+            </span>
+          )}
         </div>
         <div className="relative">
           <button
@@ -151,7 +208,18 @@ export function Column({
                 className="fixed inset-0 z-10"
                 onClick={() => setShowMenu(false)}
               />
-              <div className="absolute right-0 mt-1 w-32 bg-slate-700 rounded-lg shadow-xl z-20 py-1">
+              <div className="absolute right-0 mt-1 w-36 bg-slate-700 rounded-lg shadow-xl z-20 py-1">
+                {onUpdateColumn && (
+                  <button
+                    onClick={() => {
+                      setShowMenu(false);
+                      openSettings();
+                    }}
+                    className="w-full px-3 py-2 text-left text-sm text-slate-200 hover:bg-slate-600"
+                  >
+                    Column settings...
+                  </button>
+                )}
                 <button
                   onClick={() => {
                     setShowMenu(false);
@@ -167,6 +235,73 @@ export function Column({
         </div>
       </div>
 
+      {/* Column settings */}
+      {showSettings && (
+        <div className="mx-2 mb-2 p-3 bg-slate-700/60 rounded-lg space-y-2 text-sm">
+          <div className="flex items-center justify-between gap-2">
+            <label className="text-slate-300">Category</label>
+            <select
+              value={category}
+              onChange={(e) => setCategory(e.target.value as ColumnCategory)}
+              className="bg-slate-700 border border-slate-600 rounded px-2 py-1 text-white focus:outline-none focus:ring-2 focus:ring-indigo-500"
+            >
+              {COLUMN_CATEGORIES.map((c) => (
+                <option key={c.id} value={c.id}>
+                  {c.label}
+                </option>
+              ))}
+            </select>
+          </div>
+          <div className="flex items-center justify-between gap-2">
+            <label className="text-slate-300">Max tasks</label>
+            <input
+              type="number"
+              min={1}
+              value={wipLimit}
+              onChange={(e) => setWipLimit(e.target.value)}
+              placeholder="None"
+              className="w-20 bg-slate-700 border border-slate-600 rounded px-2 py-1 text-white placeholder-slate-500 focus:outline-none focus:ring-2 focus:ring-indigo-500"
+            />
+          </div>
+          <div className="flex items-center justify-between gap-2">
+            <label className="text-slate-300">Per assignee</label>
+            <input
+              type="number"
+              min={1}
+              value={wipLimitPerAssignee}
+              onChange={(e) => setWipLimitPerAssignee(e.target.value)}
+              placeholder="None"
+              className="w-20 bg-slate-700 border border-slate-600 rounded px-2 py-1 text-white placeholder-slate-500 focus:outline-none focus:ring-2 focus:ring-indigo-500"
+            />
+          </div>
+          <div className="flex items-center justify-between gap-2">
+            <label className="text-slate-300">When exceeded</label>
+            <select
+              value={wipMode}
+              onChange={(e) => setWipMode(e.target.value as WipMode)}
+              className="bg-slate-700 border border-slate-600 rounded px-2 py-1 text-white focus:outline-none focus:ring-2 focus:ring-indigo-500"
+            >
+              <option value="warn">Warn</option>
+              <option value="block">Block</option>
+            </select>
+          </div>
+          <div className="flex gap-2 pt-1">
+            <button
+              onClick={handleSaveSettings}
+              className="flex-1 bg-indigo-600 hover:bg-indigo-500 text-white py-1 rounded transition-colors"
+            >
+              Save
+            </button>
+            <button
+              onClick={() => setShowSettings(false)}
+              className="px-3 text-slate-400 hover:text-white transition-colors"
+            >
+              Cancel
+            </button>
+          </div>
+        </div>
+      )}
+
       {/* Tasks - droppable area (click empty space to add task) */}
       <div
         ref={setDroppableRef}
@@ -190,6 +325,7 @@ export function Column({
               onToggleSubtask={onToggleSubtask}
               isSelected={selectedTaskId === task.id}
               isScheduled={scheduledTaskIds.has(task.id)}
+              viewers={taskViewers?.get(task.id)}
             />
           ))}
         </SortableContext>
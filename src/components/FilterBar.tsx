@@ -1,7 +1,7 @@
 "use client";
 
 import { useState, useRef, useEffect } from "react";
-import type { User, Priority } from "@/types";
+import type { User, Priority, Sprint } from "@/types";
 import type { FilterState, DueDateFilter, DependencyFilter } from "@/hooks/useFilters";
 import clsx from "clsx";
 
@@ -10,6 +10,11 @@ interface LabelOption {
   name: string;
 }
 
+interface EpicOption {
+  id: string;
+  title: string;
+}
+
 interface FilterBarProps {
   filters: FilterState;
   onFilterChange: (filters: Partial<FilterState>) => void;
@@ -17,6 +22,8 @@ interface FilterBarProps {
   activeFilterCount: number;
   users: User[];
   allLabels: LabelOption[];
+  sprints?: Sprint[];
+  allEpics?: EpicOption[];
 }
 
 const priorityOptions: { value: Priority; label: string; color: string }[] = [
@@ -47,6 +54,8 @@ export function FilterBar({
   activeFilterCount,
   users,
   allLabels,
+  sprints = [],
+  allEpics = [],
 }: FilterBarProps) {
   return (
     <div className="flex items-center gap-3 flex-wrap">
@@ -147,6 +156,47 @@ export function FilterBar({
         ))}
       </select>
 
+      {/* Sprint Filter */}
+      {(sprints.length > 0 || filters.sprintFilter !== "all") && (
+        <select
+          value={filters.sprintFilter}
+          onChange={(e) => onFilterChange({ sprintFilter: e.target.value })}
+          className={clsx(
+            "bg-slate-700 border rounded-lg px-3 py-1.5 text-sm text-white focus:outline-none focus:ring-2 focus:ring-indigo-500",
+            filters.sprintFilter !== "all" ? "border-indigo-500" : "border-slate-600"
+          )}
+        >
+          <option value="all">All Sprints</option>
+          <option value="backlog">Backlog</option>
+          {sprints.map((sprint) => (
+            <option key={sprint.id} value={sprint.id}>
+              {sprint.name}
+              {sprint.state === "active" ? " (active)" : sprint.state === "closed" ? " (closed)" : ""}
+            </option>
+          ))}
+        </select>
+      )}
+
+      {/* Epic Filter */}
+      {(allEpics.length > 0 || filters.epicFilter !== "all") && (
+        <select
+          value={filters.epicFilter}
+          onChange={(e) => onFilterChange({ epicFilter: e.target.value })}
+          className={clsx(
+            "bg-slate-700 border rounded-lg px-3 py-1.5 text-sm text-white focus:outline-none focus:ring-2 focus:ring-indigo-500",
+            filters.epicFilter !== "all" ? "border-indigo-500" : "border-slate-600"
+          )}
+        >
+          <option value="all">All Epics</option>
+          <option value="none">No Epic</option>
+          {allEpics.map((epic) => (
+            <option key={epic.id} value={epic.id}>
+              {epic.title}
+            </option>
+          ))}
+        </select>
+      )}
+
       {/* Clear Filters */}
       {activeFilterCount > 0 && (
         <button
@@ -5,7 +5,7 @@ import { useRouter } from "next/navigation";
 
 interface Notification {
   id: string;
-  type: "assigned" | "mentioned" | "comment" | "due_soon";
+  type: "assigned" | "mentioned" | "comment" | "due_soon" | "automation" | "unblocked" | "overdue";
   title: string;
   message: string;
   link?: string;
@@ -18,6 +18,9 @@ const NOTIFICATION_ICONS: Record<string, string> = {
   mentioned: "@",
   comment: "💬",
   due_soon: "⏰",
+  automation: "⚡",
+  unblocked: "🔓",
+  overdue: "🚨",
 };
 
 function formatTimeAgo(date: string): string {
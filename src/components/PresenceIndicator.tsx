@@ -2,6 +2,7 @@
 
 import { memo } from "react";
 import { clsx } from "clsx";
+import type { TaskViewer } from "@/types";
 
 interface PresenceIndicatorProps {
   users: Array<{ userId: string; userName: string }>;
@@ -10,7 +11,7 @@ interface PresenceIndicatorProps {
 }
 
 // Generate a consistent color from a string
-function stringToColor(str: string): string {
+export function stringToColor(str: string): string {
   const colors = [
     "bg-rose-500",
     "bg-pink-500",
@@ -37,7 +38,7 @@ function stringToColor(str: string): string {
   return colors[Math.abs(hash) % colors.length];
 }
 
-function getInitials(name: string): string {
+export function getInitials(name: string): string {
   return name
     .split(" ")
     .map((part) => part[0])
@@ -66,8 +67,10 @@ export const PresenceIndicator = memo(function PresenceIndicator({
   currentUserId,
   maxVisible = 5,
 }: PresenceIndicatorProps) {
-  // Filter out current user and dedupe
-  const otherUsers = users.filter((u) => u.userId !== currentUserId);
+  // Filter out current user and dedupe (a user can be connected through several instances)
+  const otherUsers = users.filter(
+    (u, index) => u.userId !== currentUserId && users.findIndex((other) => other.userId === u.userId) === index
+  );
   const visibleUsers = otherUsers.slice(0, maxVisible);
   const hiddenCount = Math.max(0, otherUsers.length - maxVisible);
 
@@ -109,3 +112,63 @@ export const PresenceIndicator = memo(function PresenceIndicator({
     </div>
   );
 }, arePropsEqual);
+
+const activityLabels: Record<TaskViewer["activity"], string> = {
+  viewing: "is viewing",
+  commenting: "is typing a comment",
+  editing: "is editing the description",
+};
+
+export function describeTaskViewer(viewer: TaskViewer): string {
+  return `${viewer.userName} ${activityLabels[viewer.activity]}`;
+}
+
+interface TaskPresenceAvatarsProps {
+  viewers: TaskViewer[];
+  maxVisible?: number;
+  size?: "sm" | "md";
+}
+
+/**
+ * Who else has a task open. Anyone typing in it gets a pulsing dot.
+ */
+export function TaskPresenceAvatars({ viewers, maxVisible = 3, size = "sm" }: TaskPresenceAvatarsProps) {
+  if (viewers.length === 0) {
+    return null;
+  }
+
+  const visibleViewers = viewers.slice(0, maxVisible);
+  const hiddenCount = viewers.length - visibleViewers.length;
+  const avatarSize = size === "sm" ? "w-5 h-5 text-[9px]" : "w-7 h-7 text-[10px]";
+
+  return (
+    <div className="flex -space-x-1.5" title={viewers.map(describeTaskViewer).join("\n")}>
+      {visibleViewers.map((viewer, index) => (
+        <div
+          key={viewer.userId}
+          className={clsx(
+            "relative rounded-full flex items-center justify-center text-white font-medium ring-2 ring-slate-700",
+            avatarSize,
+            stringToColor(viewer.userId)
+          )}
+          style={{ zIndex: maxVisible - index }}
+        >
+          {getInitials(viewer.userName)}
+          {viewer.activity !== "viewing" && (
+            <span className="absolute -bottom-0.5 -right-0.5 w-2 h-2 rounded-full bg-green-400 ring-1 ring-slate-700 animate-pulse" />
+          )}
+        </div>
+      ))}
+      {hiddenCount > 0 && (
+        <div
+          className={clsx(
+            "rounded-full flex items-center justify-center bg-slate-600 text-white font-medium ring-2 ring-slate-700",
+            avatarSize
+          )}
+        >
+          +{hiddenCount}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -2,7 +2,14 @@
 
 import { useState, useEffect } from "react";
 import type { RecurrenceRule, RecurrenceFrequency } from "@/types";
-import { parseRecurrenceRule, stringifyRecurrenceRule, describeRecurrence, getNextOccurrence, createDefaultRule } from "@/lib/recurrence";
+import {
+  parseRecurrenceRule,
+  stringifyRecurrenceRule,
+  describeRecurrence,
+  getUpcomingOccurrences,
+  getOccurrenceDateKey,
+  createDefaultRule,
+} from "@/lib/recurrence";
 import { format, getDay, getDate } from "date-fns";
 import clsx from "clsx";
 
@@ -11,7 +18,10 @@ interface RecurrenceSettingsProps {
   recurrenceRule: string | null;
   dueDate: Date | null;
   lastRecurrence: Date | null;
+  movedOccurrences?: Record<string, Date>; // occurrence date (yyyy-MM-dd) -> where it was moved
   onChange: (isRecurring: boolean, rule: string | null) => void;
+  onSkipOccurrence?: (date: Date) => void;
+  onMoveOccurrence?: (date: Date, dueDate: Date) => void;
 }
 
 const frequencies: { value: RecurrenceFrequency; label: string }[] = [
@@ -25,12 +35,18 @@ const dayLabels = ["S", "M", "T", "W", "T", "F", "S"];
 const dayNames = ["Sunday", "Monday", "Tuesday", "Wednesday", "Thursday", "Friday", "Saturday"];
 const weekNames = ["First", "Second", "Third", "Fourth", "Last"];
 
+// How many upcoming dates the preview lists
+const PREVIEW_COUNT = 5;
+
 export function RecurrenceSettings({
   isRecurring,
   recurrenceRule,
   dueDate,
   lastRecurrence,
+  movedOccurrences,
   onChange,
+  onSkipOccurrence,
+  onMoveOccurrence,
 }: RecurrenceSettingsProps) {
   const [enabled, setEnabled] = useState(isRecurring);
   const [rule, setRule] = useState<RecurrenceRule>(() => {
@@ -38,6 +54,7 @@ export function RecurrenceSettings({
     return parsed || createDefaultRule();
   });
   const [expanded, setExpanded] = useState(false);
+  const [movingKey, setMovingKey] = useState<string | null>(null);
 
   // Sync with props
   useEffect(() => {
@@ -48,6 +65,17 @@ export function RecurrenceSettings({
     }
   }, [isRecurring, recurrenceRule]);
 
+  // The series starts from the task's due date, in the editor's timezone
+  const saveRule = (newRule: RecurrenceRule) => {
+    const anchored: RecurrenceRule = {
+      ...newRule,
+      start: (dueDate ?? (newRule.start ? new Date(newRule.start) : new Date())).toISOString(),
+      timezone: newRule.timezone ?? Intl.DateTimeFormat().resolvedOptions().timeZone,
+    };
+    setRule(anchored);
+    onChange(true, stringifyRecurrenceRule(anchored));
+  };
+
   const handleToggle = () => {
     const newEnabled = !enabled;
     setEnabled(newEnabled);
@@ -58,17 +86,14 @@ export function RecurrenceSettings({
         newRule.daysOfWeek = [getDay(new Date(dueDate))];
         newRule.dayOfMonth = getDate(new Date(dueDate));
       }
-      setRule(newRule);
-      onChange(true, stringifyRecurrenceRule(newRule));
+      saveRule(newRule);
     } else {
       onChange(false, null);
     }
   };
 
   const updateRule = (updates: Partial<RecurrenceRule>) => {
-    const newRule = { ...rule, ...updates };
-    setRule(newRule);
-    onChange(true, stringifyRecurrenceRule(newRule));
+    saveRule({ ...rule, ...updates });
   };
 
   const handleFrequencyChange = (frequency: RecurrenceFrequency) => {
@@ -77,7 +102,9 @@ export function RecurrenceSettings({
       frequency,
       interval: 1,
     };
-    
+    delete newRule.setPositions;
+    delete newRule.months;
+
     // Set sensible defaults for the new frequency
     if (frequency === "weekly") {
       newRule.daysOfWeek = dueDate ? [getDay(new Date(dueDate))] : [getDay(new Date())];
@@ -92,9 +119,8 @@ export function RecurrenceSettings({
       delete newRule.dayOfMonth;
       delete newRule.weekOfMonth;
     }
-    
-    setRule(newRule);
-    onChange(true, stringifyRecurrenceRule(newRule));
+
+    saveRule(newRule);
   };
 
   const toggleDayOfWeek = (day: number) => {
@@ -109,9 +135,24 @@ export function RecurrenceSettings({
     updateRule({ daysOfWeek: newDays });
   };
 
-  const nextOccurrence = enabled && rule
-    ? getNextOccurrence(rule, dueDate, lastRecurrence)
-    : null;
+  const upcoming = enabled && rule
+    ? getUpcomingOccurrences(rule, dueDate, lastRecurrence, PREVIEW_COUNT)
+    : [];
+
+  const skipOccurrence = (date: Date) => {
+    // Saved series skip through the server, which also removes a created instance
+    if (onSkipOccurrence) {
+      onSkipOccurrence(date);
+      return;
+    }
+    const key = getOccurrenceDateKey(rule, date);
+    updateRule({ exceptions: [...(rule.exceptions ?? []), key].sort() });
+  };
+
+  const restoreOccurrence = (key: string) => {
+    const exceptions = (rule.exceptions ?? []).filter((d) => d !== key);
+    updateRule({ exceptions: exceptions.length > 0 ? exceptions : undefined });
+  };
 
   return (
     <div className="space-y-3">
@@ -210,6 +251,7 @@ export function RecurrenceSettings({
                       dayOfMonth: dueDate ? getDate(new Date(dueDate)) : getDate(new Date()),
                       weekOfMonth: undefined,
                       daysOfWeek: undefined,
+                      setPositions: undefined,
                     });
                   }}
                   className="text-indigo-600"
@@ -225,6 +267,7 @@ export function RecurrenceSettings({
                     {Array.from({ length: 31 }, (_, i) => (
                       <option key={i + 1} value={i + 1}>{i + 1}</option>
                     ))}
+                    <option value={-1}>Last</option>
                   </select>
                 </label>
               </div>
@@ -240,6 +283,7 @@ export function RecurrenceSettings({
                       weekOfMonth: 1,
                       daysOfWeek: [dow],
                       dayOfMonth: undefined,
+                      setPositions: undefined,
                     });
                   }}
                   className="text-indigo-600"
@@ -268,6 +312,26 @@ export function RecurrenceSettings({
                   </select>
                 </label>
               </div>
+
+              <div className="flex items-center gap-2">
+                <input
+                  type="radio"
+                  id="monthlyLastWeekday"
+                  checked={!!rule.setPositions?.length}
+                  onChange={() => {
+                    updateRule({
+                      daysOfWeek: [1, 2, 3, 4, 5],
+                      setPositions: [-1],
+                      dayOfMonth: undefined,
+                      weekOfMonth: undefined,
+                    });
+                  }}
+                  className="text-indigo-600"
+                />
+                <label htmlFor="monthlyLastWeekday" className="text-sm text-slate-300">
+                  On the last weekday
+                </label>
+              </div>
             </div>
           )}
 
@@ -297,7 +361,7 @@ export function RecurrenceSettings({
                   {rule.endType === "date" && (
                     <input
                       type="date"
-                      value={rule.endDate ? format(new Date(rule.endDate), "yyyy-MM-dd") : ""}
+                      value={rule.endDate ? rule.endDate.slice(0, 10) : ""}
                       onChange={(e) => updateRule({ endDate: e.target.value })}
                       className="bg-slate-700 border border-slate-600 rounded px-2 py-0.5 text-sm text-white focus:outline-none"
                     />
@@ -333,10 +397,79 @@ export function RecurrenceSettings({
           {/* Summary */}
           <div className="text-xs text-slate-400 pt-1 border-t border-slate-700">
             <span className="font-medium text-indigo-400">📅 {describeRecurrence(rule)}</span>
-            {nextOccurrence && (
-              <span className="block mt-1">
-                Next: {format(nextOccurrence, "EEE, MMM d, yyyy")}
-              </span>
+            {upcoming.length > 0 ? (
+              <ul className="mt-1 space-y-0.5">
+                {upcoming.map((date) => {
+                  const key = getOccurrenceDateKey(rule, date);
+                  const movedTo = movedOccurrences?.[key];
+                  return (
+                    <li key={date.toISOString()} className="flex items-center justify-between gap-2 group">
+                      <span>
+                        <span className={clsx(movedTo && "line-through text-slate-500")}>
+                          {format(date, "EEE, MMM d, yyyy")}
+                        </span>
+                        {movedTo && <span className="text-indigo-300"> → {format(movedTo, "EEE, MMM d")}</span>}
+                      </span>
+                      {movingKey === key ? (
+                        <input
+                          type="date"
+                          autoFocus
+                          defaultValue={format(movedTo ?? date, "yyyy-MM-dd")}
+                          onBlur={() => setMovingKey(null)}
+                          onChange={(e) => {
+                            if (!e.target.value) return;
+                            // Keep the occurrence's time of day
+                            onMoveOccurrence?.(date, new Date(`${e.target.value}T${format(date, "HH:mm:ss")}`));
+                            setMovingKey(null);
+                          }}
+                          className="bg-slate-700 border border-slate-600 rounded px-1 py-0.5 text-xs text-white focus:outline-none"
+                        />
+                      ) : (
+                        <span className="flex gap-2 opacity-0 group-hover:opacity-100 transition-all">
+                          {onMoveOccurrence && (
+                            <button
+                              type="button"
+                              onClick={() => setMovingKey(key)}
+                              className="text-slate-500 hover:text-indigo-300"
+                              title="Move just this occurrence"
+                            >
+                              Move
+                            </button>
+                          )}
+                          <button
+                            type="button"
+                            onClick={() => skipOccurrence(date)}
+                            className="text-slate-500 hover:text-red-400"
+                          >
+                            Skip
+                          </button>
+                        </span>
+                      )}
+                    </li>
+                  );
+                })}
+              </ul>
+            ) : (
+              <span className="block mt-1">No upcoming occurrences</span>
+            )}
+            {rule.exceptions && rule.exceptions.length > 0 && (
+              <div className="mt-1 flex flex-wrap items-center gap-1">
+                <span>Skipped:</span>
+                {rule.exceptions.map((key) => (
+                  <button
+                    key={key}
+                    type="button"
+                    onClick={() => restoreOccurrence(key)}
+                    className="px-1.5 py-0.5 bg-slate-700 hover:bg-slate-600 rounded line-through"
+                    title="Restore this date"
+                  >
+                    {format(new Date(`${key}T12:00:00`), "MMM d")}
+                  </button>
+                ))}
+              </div>
+            )}
+            {rule.timezone && (
+              <span className="block mt-1 text-slate-500">Dates in {rule.timezone}</span>
             )}
           </div>
         </div>
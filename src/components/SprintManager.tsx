@@ -0,0 +1,396 @@
+"use client";
+
+import { useState, useEffect, useCallback } from "react";
+import { format } from "date-fns";
+import clsx from "clsx";
+import type { Sprint, SprintReport } from "@/types";
+
+interface SprintManagerProps {
+  boardId: string;
+  isOpen: boolean;
+  readOnly?: boolean;
+  onClose: () => void;
+  onSprintsChange: () => void;
+}
+
+const stateStyles: Record<Sprint["state"], string> = {
+  planned: "bg-slate-600 text-slate-200",
+  active: "bg-green-500/20 text-green-400",
+  closed: "bg-slate-700 text-slate-400",
+};
+
+function formatSprintDates(sprint: Sprint): string {
+  if (!sprint.startDate && !sprint.endDate) return "No dates";
+  const start = sprint.startDate ? format(new Date(sprint.startDate), "MMM d") : "?";
+  const end = sprint.endDate ? format(new Date(sprint.endDate), "MMM d") : "?";
+  return `${start} – ${end}`;
+}
+
+const VELOCITY_SPRINTS = 3;
+
+function SprintReportSummary({ report }: { report: SprintReport }) {
+  const stats = [
+    { label: "Committed", value: report.committed },
+    { label: "Completed", value: report.completed },
+    { label: "Committed done", value: report.completedCommitted },
+    { label: "Added", value: report.added },
+    { label: "Removed", value: report.removed },
+    { label: "Carried over", value: report.carriedOver },
+  ];
+  const pointStats = [
+    { label: "Points committed", value: report.committedPoints },
+    { label: "Points completed", value: report.completedPoints },
+    { label: "Points carried over", value: report.carriedOverPoints },
+  ];
+
+  return (
+    <div className="mt-3 space-y-3">
+      <div className="grid grid-cols-3 gap-2">
+        {[...stats, ...pointStats].map((stat) => (
+          <div key={stat.label} className="bg-slate-800 rounded-lg p-2 text-center">
+            <div className="text-lg font-semibold text-white">{stat.value}</div>
+            <div className="text-xs text-slate-400">{stat.label}</div>
+          </div>
+        ))}
+      </div>
+      {report.carriedOver > 0 && (
+        <p className="text-xs text-slate-400">
+          Unfinished tasks moved to {report.carriedOverTo ? `"${report.carriedOverTo.name}"` : "the backlog"}
+        </p>
+      )}
+      {report.tasks.length > 0 && (
+        <ul className="space-y-1 max-h-40 overflow-y-auto">
+          {report.tasks.map((task) => (
+            <li key={task.id} className="flex items-center gap-2 text-xs">
+              <span className={task.completed ? "text-green-400" : "text-slate-500"}>
+                {task.completed ? "✓" : "○"}
+              </span>
+              <span className={clsx("truncate", task.completed ? "text-slate-300" : "text-slate-400")}>
+                {task.title}
+              </span>
+              {!task.committed && <span className="text-amber-400 shrink-0">added</span>}
+              {task.points != null && <span className="text-slate-500 shrink-0 ml-auto">{task.points} pts</span>}
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+}
+
+export function SprintManager({ boardId, isOpen, readOnly, onClose, onSprintsChange }: SprintManagerProps) {
+  const [sprints, setSprints] = useState<Sprint[]>([]);
+  const [isLoading, setIsLoading] = useState(false);
+  const [name, setName] = useState("");
+  const [goal, setGoal] = useState("");
+  const [startDate, setStartDate] = useState("");
+  const [endDate, setEndDate] = useState("");
+  const [completingId, setCompletingId] = useState<string | null>(null);
+  const [carryOverTo, setCarryOverTo] = useState("");
+  const [reportId, setReportId] = useState<string | null>(null);
+  const [busyId, setBusyId] = useState<string | null>(null);
+  const [error, setError] = useState("");
+
+  const fetchSprints = useCallback(async () => {
+    setIsLoading(true);
+    try {
+      const res = await fetch(`/api/boards/${boardId}/sprints`);
+      if (res.ok) {
+        setSprints(await res.json());
+      }
+    } catch (err) {
+      console.error("Failed to fetch sprints:", err);
+    } finally {
+      setIsLoading(false);
+    }
+  }, [boardId]);
+
+  useEffect(() => {
+    if (isOpen) {
+      fetchSprints();
+    }
+  }, [isOpen, fetchSprints]);
+
+  const planned = sprints.filter((s) => s.state === "planned");
+
+  const request = async (id: string, url: string, init: RequestInit, fallback: string) => {
+    setBusyId(id);
+    setError("");
+    try {
+      const res = await fetch(url, {
+        ...init,
+        headers: { "Content-Type": "application/json" },
+      });
+      if (!res.ok) {
+        const data = await res.json();
+        setError(data.error || fallback);
+        return false;
+      }
+      await fetchSprints();
+      onSprintsChange();
+      return true;
+    } catch {
+      setError(fallback);
+      return false;
+    } finally {
+      setBusyId(null);
+    }
+  };
+
+  const handleCreate = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!name.trim()) return;
+
+    const created = await request(
+      "new",
+      `/api/boards/${boardId}/sprints`,
+      {
+        method: "POST",
+        body: JSON.stringify({
+          name: name.trim(),
+          goal: goal.trim() || null,
+          startDate: startDate || null,
+          endDate: endDate || null,
+        }),
+      },
+      "Failed to create sprint"
+    );
+    if (created) {
+      setName("");
+      setGoal("");
+      setStartDate("");
+      setEndDate("");
+    }
+  };
+
+  const handleStart = (sprint: Sprint) =>
+    request(sprint.id, `/api/boards/${boardId}/sprints/${sprint.id}/start`, { method: "POST" }, "Failed to start sprint");
+
+  const beginComplete = (sprint: Sprint) => {
+    setCompletingId(sprint.id);
+    // Default to the earliest planned sprint
+    const next = [...planned].sort(
+      (a, b) =>
+        (a.startDate ? new Date(a.startDate).getTime() : Infinity) -
+        (b.startDate ? new Date(b.startDate).getTime() : Infinity)
+    )[0];
+    setCarryOverTo(next?.id ?? "");
+  };
+
+  const handleComplete = async (sprint: Sprint) => {
+    const completed = await request(
+      sprint.id,
+      `/api/boards/${boardId}/sprints/${sprint.id}/complete`,
+      { method: "POST", body: JSON.stringify({ carryOverToSprintId: carryOverTo || null }) },
+      "Failed to complete sprint"
+    );
+    if (completed) {
+      setCompletingId(null);
+      setReportId(sprint.id);
+    }
+  };
+
+  const handleDelete = async (sprint: Sprint) => {
+    if (!confirm(`Delete "${sprint.name}"? Its tasks go back to the backlog.`)) return;
+    await request(sprint.id, `/api/boards/${boardId}/sprints/${sprint.id}`, { method: "DELETE" }, "Failed to delete sprint");
+  };
+
+  if (!isOpen) return null;
+
+  const ordered = [
+    ...sprints.filter((s) => s.state === "active"),
+    ...planned,
+    ...sprints.filter((s) => s.state === "closed"),
+  ];
+
+  // Velocity: average points completed over the most recent closed sprints
+  const recent = sprints
+    .filter((s) => s.state === "closed" && s.report)
+    .sort((a, b) => new Date(b.completedAt ?? 0).getTime() - new Date(a.completedAt ?? 0).getTime())
+    .slice(0, VELOCITY_SPRINTS);
+  const velocity =
+    recent.length > 0
+      ? Math.round(recent.reduce((sum, s) => sum + s.report!.completedPoints, 0) / recent.length)
+      : null;
+
+  return (
+    <>
+      {/* Backdrop */}
+      <div className="fixed inset-0 bg-black/50 z-50" onClick={onClose} />
+
+      {/* Modal */}
+      <div className="fixed inset-0 z-50 flex items-center justify-center p-4">
+        <div className="bg-slate-800 rounded-xl shadow-2xl w-full max-w-lg max-h-[80vh] flex flex-col">
+          {/* Header */}
+          <div className="flex items-center justify-between p-4 border-b border-slate-700">
+            <h2 className="text-lg font-semibold text-white">Sprints</h2>
+            <button
+              onClick={onClose}
+              className="p-1 text-slate-400 hover:text-white transition-colors"
+            >
+              <svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" />
+              </svg>
+            </button>
+          </div>
+
+          {/* Create form */}
+          {!readOnly && (
+            <form onSubmit={handleCreate} className="p-4 border-b border-slate-700 space-y-2">
+              <input
+                type="text"
+                value={name}
+                onChange={(e) => setName(e.target.value)}
+                placeholder="Sprint name"
+                className="w-full bg-slate-700 border border-slate-600 rounded-lg px-3 py-2 text-white text-sm placeholder-slate-400 focus:outline-none focus:ring-2 focus:ring-indigo-500"
+              />
+              <input
+                type="text"
+                value={goal}
+                onChange={(e) => setGoal(e.target.value)}
+                placeholder="Goal (optional)"
+                className="w-full bg-slate-700 border border-slate-600 rounded-lg px-3 py-2 text-white text-sm placeholder-slate-400 focus:outline-none focus:ring-2 focus:ring-indigo-500"
+              />
+              <div className="flex gap-2">
+                <input
+                  type="date"
+                  value={startDate}
+                  onChange={(e) => setStartDate(e.target.value)}
+                  className="flex-1 bg-slate-700 border border-slate-600 rounded-lg px-3 py-2 text-white text-sm focus:outline-none focus:ring-2 focus:ring-indigo-500 [color-scheme:dark]"
+                />
+                <input
+                  type="date"
+                  value={endDate}
+                  onChange={(e) => setEndDate(e.target.value)}
+                  className="flex-1 bg-slate-700 border border-slate-600 rounded-lg px-3 py-2 text-white text-sm focus:outline-none focus:ring-2 focus:ring-indigo-500 [color-scheme:dark]"
+                />
+                <button
+                  type="submit"
+                  disabled={!name.trim() || busyId === "new"}
+                  className="px-4 py-2 bg-indigo-600 hover:bg-indigo-700 disabled:opacity-50 text-white text-sm rounded-lg transition-colors"
+                >
+                  Add
+                </button>
+              </div>
+            </form>
+          )}
+
+          {error && (
+            <div className="mx-4 mt-4 p-2 bg-red-500/10 border border-red-500/30 rounded text-red-400 text-sm">{error}</div>
+          )}
+
+          {velocity != null && (
+            <div className="mx-4 mt-4 text-xs text-slate-400">
+              Velocity: <span className="text-white font-medium">{velocity} pts</span> per sprint (last{" "}
+              {recent.length} sprint{recent.length === 1 ? "" : "s"})
+            </div>
+          )}
+
+          {/* Sprint list */}
+          <div className="flex-1 overflow-y-auto p-4 space-y-3">
+            {isLoading && sprints.length === 0 ? (
+              <div className="text-slate-400 text-sm">Loading sprints...</div>
+            ) : ordered.length === 0 ? (
+              <div className="text-center py-8 text-slate-500 text-sm">No sprints yet</div>
+            ) : (
+              ordered.map((sprint) => (
+                <div key={sprint.id} className="p-3 bg-slate-700/50 rounded-lg">
+                  <div className="flex items-start gap-3">
+                    <div className="flex-1 min-w-0">
+                      <div className="flex items-center gap-2">
+                        <span className="text-white text-sm font-medium truncate">{sprint.name}</span>
+                        <span className={clsx("px-1.5 py-0.5 rounded text-xs capitalize", stateStyles[sprint.state])}>
+                          {sprint.state}
+                        </span>
+                      </div>
+                      {sprint.goal && <p className="text-xs text-slate-300 mt-0.5">{sprint.goal}</p>}
+                      <p className="text-xs text-slate-400 mt-0.5">
+                        {formatSprintDates(sprint)}
+                        {sprint.state !== "closed" && ` · ${sprint._count?.tasks ?? 0} tasks`}
+                        {sprint.state === "active" && sprint.committedPoints > 0 && ` · ${sprint.committedPoints} pts committed`}
+                        {sprint.state === "closed" && sprint.report && ` · ${sprint.report.completedPoints} pts done`}
+                      </p>
+                    </div>
+                    <div className="flex items-center gap-1 shrink-0">
+                      {!readOnly && sprint.state === "planned" && (
+                        <button
+                          onClick={() => handleStart(sprint)}
+                          disabled={busyId === sprint.id}
+                          className="px-2 py-1 bg-green-600 hover:bg-green-700 disabled:opacity-50 text-white text-xs rounded transition-colors"
+                        >
+                          Start
+                        </button>
+                      )}
+                      {!readOnly && sprint.state === "active" && completingId !== sprint.id && (
+                        <button
+                          onClick={() => beginComplete(sprint)}
+                          className="px-2 py-1 bg-indigo-600 hover:bg-indigo-700 text-white text-xs rounded transition-colors"
+                        >
+                          Complete
+                        </button>
+                      )}
+                      {sprint.state === "closed" && sprint.report && (
+                        <button
+                          onClick={() => setReportId(reportId === sprint.id ? null : sprint.id)}
+                          className="px-2 py-1 bg-slate-600 hover:bg-slate-500 text-white text-xs rounded transition-colors"
+                        >
+                          {reportId === sprint.id ? "Hide report" : "Report"}
+                        </button>
+                      )}
+                      {!readOnly && (
+                        <button
+                          onClick={() => handleDelete(sprint)}
+                          disabled={busyId === sprint.id}
+                          className="p-1 text-slate-400 hover:text-red-400 transition-colors"
+                          title="Delete sprint"
+                        >
+                          <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                            <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M19 7l-.867 12.142A2 2 0 0116.138 21H7.862a2 2 0 01-1.995-1.858L5 7m5 4v6m4-6v6m1-10V4a1 1 0 00-1-1h-4a1 1 0 00-1 1v3M4 7h16" />
+                          </svg>
+                        </button>
+                      )}
+                    </div>
+                  </div>
+
+                  {/* Complete flow: choose where unfinished work goes */}
+                  {completingId === sprint.id && (
+                    <div className="mt-3 flex items-center gap-2">
+                      <span className="text-xs text-slate-400 shrink-0">Move unfinished to</span>
+                      <select
+                        value={carryOverTo}
+                        onChange={(e) => setCarryOverTo(e.target.value)}
+                        className="flex-1 bg-slate-700 border border-slate-600 rounded px-2 py-1 text-white text-xs focus:outline-none focus:ring-2 focus:ring-indigo-500"
+                      >
+                        <option value="">Backlog</option>
+                        {planned.map((s) => (
+                          <option key={s.id} value={s.id}>
+                            {s.name}
+                          </option>
+                        ))}
+                      </select>
+                      <button
+                        onClick={() => handleComplete(sprint)}
+                        disabled={busyId === sprint.id}
+                        className="px-2 py-1 bg-indigo-600 hover:bg-indigo-700 disabled:opacity-50 text-white text-xs rounded transition-colors"
+                      >
+                        Complete sprint
+                      </button>
+                      <button
+                        onClick={() => setCompletingId(null)}
+                        className="px-2 py-1 text-slate-400 hover:text-white text-xs transition-colors"
+                      >
+                        Cancel
+                      </button>
+                    </div>
+                  )}
+
+                  {reportId === sprint.id && sprint.report && <SprintReportSummary report={sprint.report} />}
+                </div>
+              ))
+            )}
+          </div>
+        </div>
+      </div>
+    </>
+  );
+}
@@ -0,0 +1,183 @@
+"use client";
+
+import { useDroppable } from "@dnd-kit/core";
+import { SortableContext, verticalListSortingStrategy } from "@dnd-kit/sortable";
+import clsx from "clsx";
+import type { Column as ColumnType, Label, SwimlaneGroupBy, Task, TaskViewer } from "@/types";
+import { NO_LANE, Swimlane, getSwimlaneCellId, getTaskLaneKey } from "@/lib/swimlanes";
+import { sumPoints } from "@/lib/story-points";
+import { TaskCard } from "./TaskCard";
+
+interface SwimlaneBoardProps {
+  columns: ColumnType[];
+  lanes: Swimlane[];
+  groupBy: SwimlaneGroupBy;
+  labels: Label[];
+  collapsedLanes: string[];
+  onToggleLane: (laneKey: string) => void;
+  onTaskClick: (task: Task) => void;
+  onToggleSubtask?: (subtaskId: string, completed: boolean) => void;
+  selectedTaskId?: string | null;
+  scheduledTaskIds?: Set<string>;
+  taskViewers?: Map<string, TaskViewer[]>;
+  activeTaskCounts?: Map<string, number>;
+}
+
+interface SwimlaneCellProps {
+  laneKey: string;
+  columnId: string;
+  tasks: Task[];
+  onTaskClick: (task: Task) => void;
+  onToggleSubtask?: (subtaskId: string, completed: boolean) => void;
+  selectedTaskId?: string | null;
+  scheduledTaskIds: Set<string>;
+  taskViewers?: Map<string, TaskViewer[]>;
+}
+
+function SwimlaneCell({
+  laneKey,
+  columnId,
+  tasks,
+  onTaskClick,
+  onToggleSubtask,
+  selectedTaskId,
+  scheduledTaskIds,
+  taskViewers,
+}: SwimlaneCellProps) {
+  const { setNodeRef, isOver } = useDroppable({
+    id: getSwimlaneCellId(laneKey, columnId),
+  });
+
+  return (
+    <div
+      ref={setNodeRef}
+      className={clsx(
+        "w-72 min-w-[200px] shrink bg-slate-800/50 rounded-lg p-2 space-y-2 min-h-[80px]",
+        isOver && "ring-2 ring-indigo-500"
+      )}
+    >
+      <SortableContext items={tasks.map((t) => t.id)} strategy={verticalListSortingStrategy}>
+        {tasks.map((task) => (
+          <TaskCard
+            key={task.id}
+            task={task}
+            onClick={() => onTaskClick(task)}
+            onToggleSubtask={onToggleSubtask}
+            isSelected={selectedTaskId === task.id}
+            isScheduled={scheduledTaskIds.has(task.id)}
+            viewers={taskViewers?.get(task.id)}
+          />
+        ))}
+      </SortableContext>
+    </div>
+  );
+}
+
+export function SwimlaneBoard({
+  columns,
+  lanes,
+  groupBy,
+  labels,
+  collapsedLanes,
+  onToggleLane,
+  onTaskClick,
+  onToggleSubtask,
+  selectedTaskId,
+  scheduledTaskIds = new Set(),
+  taskViewers,
+  activeTaskCounts,
+}: SwimlaneBoardProps) {
+  // Bucket each column's tasks by lane once; values without a lane fall into the "none" lane
+  const laneKeys = new Set(lanes.map((l) => l.key));
+  const cells = new Map<string, Task[]>();
+  columns.forEach((col) => {
+    (col.tasks || []).forEach((task) => {
+      const laneKey = getTaskLaneKey(task, groupBy, labels);
+      const key = `${laneKeys.has(laneKey) ? laneKey : NO_LANE}::${col.id}`;
+      if (!cells.has(key)) cells.set(key, []);
+      cells.get(key)!.push(task);
+    });
+  });
+
+  const laneCount = (laneKey: string) =>
+    columns.reduce((sum, col) => sum + (cells.get(`${laneKey}::${col.id}`)?.length || 0), 0);
+
+  const lanePoints = (laneKey: string) =>
+    columns.reduce((sum, col) => sum + sumPoints(cells.get(`${laneKey}::${col.id}`) || []), 0);
+
+  return (
+    <div className="flex flex-col gap-3 min-w-max pb-6">
+      {/* Column headers */}
+      <div className="flex gap-4 sticky top-0 z-10 bg-slate-900 pb-1">
+        {columns.map((column) => {
+          const count = activeTaskCounts?.get(column.id) ?? column.tasks?.length ?? 0;
+          const isOverLimit = column.wipLimit != null && count > column.wipLimit;
+          const points = sumPoints(column.tasks || []);
+          return (
+            <div key={column.id} className="w-72 min-w-[200px] shrink flex items-center gap-2 px-3 py-2">
+              <div className="w-3 h-3 rounded-full" style={{ backgroundColor: column.color }} />
+              <h3 className="font-medium text-slate-200">{column.name}</h3>
+              <span
+                className={clsx(
+                  "text-sm px-1.5 rounded",
+                  isOverLimit ? "text-red-300 bg-red-500/30" : "text-slate-500 bg-slate-700"
+                )}
+              >
+                {column.wipLimit != null ? `${count}/${column.wipLimit}` : count}
+              </span>
+              {points > 0 && <span className="text-xs text-slate-400">{points} pts</span>}
+            </div>
+          );
+        })}
+      </div>
+
+      {/* Lanes */}
+      {lanes.map((lane) => {
+        const isCollapsed = collapsedLanes.includes(lane.key);
+        const points = lanePoints(lane.key);
+        return (
+          <div key={lane.key} className="space-y-2">
+            <button
+              onClick={() => onToggleLane(lane.key)}
+              className="flex items-center gap-2 text-sm text-slate-300 hover:text-white transition-colors"
+            >
+              <svg
+                className={clsx("w-3 h-3 transition-transform", !isCollapsed && "rotate-90")}
+                fill="none"
+                stroke="currentColor"
+                viewBox="0 0 24 24"
+              >
+                <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M9 5l7 7-7 7" />
+              </svg>
+              {lane.color && (
+                <span className="w-2.5 h-2.5 rounded-full" style={{ backgroundColor: lane.color }} />
+              )}
+              <span className="font-medium">{lane.label}</span>
+              <span className="text-xs text-slate-500 bg-slate-700 px-1.5 rounded">
+                {laneCount(lane.key)}
+              </span>
+              {points > 0 && <span className="text-xs text-slate-500">{points} pts</span>}
+            </button>
+            {!isCollapsed && (
+              <div className="flex gap-4 border-b border-slate-800 pb-3">
+                {columns.map((column) => (
+                  <SwimlaneCell
+                    key={column.id}
+                    laneKey={lane.key}
+                    columnId={column.id}
+                    tasks={cells.get(`${lane.key}::${column.id}`) || []}
+                    onTaskClick={onTaskClick}
+                    onToggleSubtask={onToggleSubtask}
+                    selectedTaskId={selectedTaskId}
+                    scheduledTaskIds={scheduledTaskIds}
+                    taskViewers={taskViewers}
+                  />
+                ))}
+              </div>
+            )}
+          </div>
+        );
+      })}
+    </div>
+  );
+}
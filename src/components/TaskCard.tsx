@@ -3,11 +3,15 @@
 import { useSortable } from "@dnd-kit/sortable";
 import { CSS } from "@dnd-kit/utilities";
 import Image from "next/image";
-import type { Task, Priority } from "@/types";
+import type { Task, Priority, TaskViewer } from "@/types";
 import { format } from "date-fns";
 import clsx from "clsx";
 import { useState } from "react";
 import { getContrastColor } from "@/lib/label-colors";
+import { isClosedCategory } from "@/lib/column-categories";
+import { getTaskPoints } from "@/lib/story-points";
+import { TaskTimer } from "./TaskTimer";
+import { TaskPresenceAvatars } from "./PresenceIndicator";
 
 interface TaskCardProps {
   task: Task;
@@ -15,6 +19,7 @@ interface TaskCardProps {
   onToggleSubtask?: (subtaskId: string, completed: boolean) => void;
   isSelected?: boolean;
   isScheduled?: boolean;
+  viewers?: TaskViewer[]; // others with the task open
 }
 
 const priorityColors: Record<Priority, string> = {
@@ -31,7 +36,7 @@ const priorityBorders: Record<Priority, string> = {
   urgent: "border-l-red-500",
 };
 
-export function TaskCard({ task, onClick, onToggleSubtask, isSelected = false, isScheduled = false }: TaskCardProps) {
+export function TaskCard({ task, onClick, onToggleSubtask, isSelected = false, isScheduled = false, viewers = [] }: TaskCardProps) {
   const [subtasksExpanded, setSubtasksExpanded] = useState(false);
   
   const {
@@ -49,11 +54,15 @@ export function TaskCard({ task, onClick, onToggleSubtask, isSelected = false, i
   };
 
   const isOverdue =
-    task.dueDate && new Date(task.dueDate) < new Date() && task.column?.name !== "Done";
+    task.dueDate &&
+    new Date(task.dueDate) < new Date() &&
+    !task.completed &&
+    !isClosedCategory(task.column?.category);
 
   const hasSubtasks = task.subtasks && task.subtasks.length > 0;
   const completedSubtasks = task.subtasks?.filter(s => s.completed).length || 0;
   const totalSubtasks = task.subtasks?.length || 0;
+  const points = getTaskPoints(task);
   const allSubtasksComplete = completedSubtasks === totalSubtasks && totalSubtasks > 0;
 
   // Check if task is blocked by incomplete dependencies
@@ -83,7 +92,7 @@ export function TaskCard({ task, onClick, onToggleSubtask, isSelected = false, i
           onClick();
         }}
         className={clsx(
-          "bg-slate-700 hover:bg-slate-650 border border-slate-600 rounded-lg p-2 cursor-pointer transition-all",
+          "group bg-slate-700 hover:bg-slate-650 border border-slate-600 rounded-lg p-2 cursor-pointer transition-all",
           "border-l-4",
           isScheduled ? "border-l-orange-500" : priorityBorders[task.priority as Priority],
           isScheduled && "bg-orange-500/10 border-orange-500/30",
@@ -110,6 +119,21 @@ export function TaskCard({ task, onClick, onToggleSubtask, isSelected = false, i
             <span>Blocked by {blockedByCount} task{blockedByCount > 1 ? 's' : ''}</span>
           </div>
         )}
+        {/* Epic badge */}
+        {task.epic && (
+          <div className="mb-1">
+            <span
+              className="inline-flex items-center gap-1 max-w-full px-1.5 py-0.5 rounded text-xs font-medium"
+              style={{ backgroundColor: `${task.epic.color}33`, color: task.epic.color }}
+              title={`Epic: ${task.epic.title}`}
+            >
+              <svg className="w-3 h-3 shrink-0" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M13 10V3L4 14h7v7l9-11h-7z" />
+              </svg>
+              <span className="truncate">{task.epic.title}</span>
+            </span>
+          </div>
+        )}
         <h4 className="text-sm font-medium text-white mb-1">{task.title}</h4>
 
         {/* Subtasks Summary with expand toggle */}
@@ -218,6 +242,14 @@ export function TaskCard({ task, onClick, onToggleSubtask, isSelected = false, i
                 🔄
               </span>
             )}
+            {points != null && (
+              <span
+                className="px-1.5 rounded bg-slate-600 text-slate-200"
+                title={`${points} story point${points === 1 ? "" : "s"}`}
+              >
+                {points}
+              </span>
+            )}
             <span
               className={clsx(
                 "w-2 h-2 rounded-full",
@@ -225,25 +257,29 @@ export function TaskCard({ task, onClick, onToggleSubtask, isSelected = false, i
               )}
               title={task.priority}
             />
+            <TaskTimer taskId={task.id} compact />
           </div>
 
-          {task.assignee && (
-            <div className="flex items-center gap-1" title={task.assignee.name || task.assignee.email}>
-              {task.assignee.image ? (
-                <Image
-                  src={task.assignee.image}
-                  alt={task.assignee.name || ""}
-                  width={20}
-                  height={20}
-                  className="rounded-full"
-                />
-              ) : (
-                <div className="w-5 h-5 bg-slate-600 rounded-full flex items-center justify-center text-[10px] text-white">
-                  {(task.assignee.name || task.assignee.email)?.[0]?.toUpperCase()}
-                </div>
-              )}
-            </div>
-          )}
+          <div className="flex items-center gap-2">
+            <TaskPresenceAvatars viewers={viewers} />
+            {task.assignee && (
+              <div className="flex items-center gap-1" title={task.assignee.name || task.assignee.email}>
+                {task.assignee.image ? (
+                  <Image
+                    src={task.assignee.image}
+                    alt={task.assignee.name || ""}
+                    width={20}
+                    height={20}
+                    className="rounded-full"
+                  />
+                ) : (
+                  <div className="w-5 h-5 bg-slate-600 rounded-full flex items-center justify-center text-[10px] text-white">
+                    {(task.assignee.name || task.assignee.email)?.[0]?.toUpperCase()}
+                  </div>
+                )}
+              </div>
+            )}
+          </div>
         </div>
       </div>
 
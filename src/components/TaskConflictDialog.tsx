@@ -0,0 +1,99 @@
+"use client";
+
+import { useState } from "react";
+import clsx from "clsx";
+import type { FieldConflict } from "@/types";
+
+interface TaskConflictDialogProps {
+  conflicts: FieldConflict[];
+  describe: (field: string, value: unknown) => string;
+  onResolve: (keepMine: string[]) => void;
+  onDiscard: () => void;
+}
+
+const fieldLabels: Record<string, string> = {
+  title: "Title",
+  description: "Description",
+  priority: "Priority",
+  startDate: "Start date",
+  dueDate: "Due date",
+  assigneeId: "Assignee",
+  columnId: "Column",
+  labelIds: "Labels",
+  sprintId: "Sprint",
+  epicId: "Epic",
+  storyPoints: "Points",
+  timeEstimate: "Estimate",
+  isRecurring: "Repeats",
+  recurrenceRule: "Repeat rule",
+};
+
+export function TaskConflictDialog({ conflicts, describe, onResolve, onDiscard }: TaskConflictDialogProps) {
+  // Each conflicting field starts on the other person's value
+  const [keepMine, setKeepMine] = useState<Set<string>>(new Set());
+
+  const choose = (field: string, mine: boolean) => {
+    setKeepMine((prev) => {
+      const next = new Set(prev);
+      if (mine) next.add(field);
+      else next.delete(field);
+      return next;
+    });
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black/60 flex items-center justify-center z-[60] p-4">
+      <div className="bg-slate-800 rounded-xl w-full max-w-lg shadow-2xl p-6">
+        <h2 className="text-lg font-semibold text-white">Someone else changed this task</h2>
+        <p className="text-sm text-slate-400 mt-1 mb-4">
+          Your other changes were kept. Pick which version to keep where you both edited the same field.
+        </p>
+
+        <div className="space-y-3 max-h-[60vh] overflow-y-auto">
+          {conflicts.map((conflict) => (
+            <div key={conflict.field}>
+              <p className="text-xs font-medium text-slate-400 mb-1">
+                {fieldLabels[conflict.field] ?? conflict.field}
+              </p>
+              <div className="grid grid-cols-2 gap-2">
+                {[
+                  { mine: false, label: "Theirs", value: conflict.theirs },
+                  { mine: true, label: "Yours", value: conflict.mine },
+                ].map((option) => (
+                  <button
+                    key={option.label}
+                    onClick={() => choose(conflict.field, option.mine)}
+                    className={clsx(
+                      "text-left p-2 rounded-lg border text-sm transition-colors",
+                      keepMine.has(conflict.field) === option.mine
+                        ? "border-indigo-500 bg-indigo-500/10 text-white"
+                        : "border-slate-600 text-slate-300 hover:border-slate-500"
+                    )}
+                  >
+                    <span className="block text-xs text-slate-400">{option.label}</span>
+                    <span className="block break-words line-clamp-4">{describe(conflict.field, option.value)}</span>
+                  </button>
+                ))}
+              </div>
+            </div>
+          ))}
+        </div>
+
+        <div className="flex justify-end gap-2 mt-6">
+          <button
+            onClick={onDiscard}
+            className="px-4 py-2 text-slate-300 hover:text-white text-sm transition-colors"
+          >
+            Discard my changes
+          </button>
+          <button
+            onClick={() => onResolve(Array.from(keepMine))}
+            className="bg-indigo-600 hover:bg-indigo-500 text-white px-4 py-2 rounded-lg text-sm font-medium transition-colors"
+          >
+            Save
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -1,13 +1,23 @@
 "use client";
 
-import { useState, useEffect, useCallback } from "react";
+import { useState, useEffect, useCallback, useRef } from "react";
 import Image from "next/image";
-import type { Task, User, Comment, Activity, Column, Priority, Attachment, Label, TaskDependency, CustomFieldValue } from "@/types";
+import type { Task, User, Comment, Activity, Column, Priority, Attachment, Label, TaskDependency, CustomFieldValue, Sprint, Epic, PointScale, FieldConflict, VersionConflict, TaskViewer } from "@/types";
 import { format } from "date-fns";
 import clsx from "clsx";
 import { LabelSelector } from "./LabelSelector";
 import { RecurrenceSettings } from "./RecurrenceSettings";
 import { CustomFieldsSection } from "./CustomFieldsSection";
+import { TimeTrackingSection } from "./TimeTrackingSection";
+import { TaskRelationsSection } from "./TaskRelationsSection";
+import { TaskTransferDialog } from "./TaskTransferDialog";
+import { TaskConflictDialog } from "./TaskConflictDialog";
+import { CollaborativeDescription } from "./CollaborativeDescription";
+import { TaskPresenceAvatars } from "./PresenceIndicator";
+import { useTaskPresence, useAnnounceTaskPresence } from "@/hooks/useTaskPresence";
+import { getPointOptions, getTaskPoints, PointOption } from "@/lib/story-points";
+import { getOccurrenceDateKey, parseRecurrenceRule, SERIES_FIELDS } from "@/lib/recurrence";
+import { mergeTaskUpdates, TaskUpdates } from "@/lib/task-merge";
 import {
   DndContext,
   closestCenter,
@@ -33,13 +43,21 @@ interface TaskDetailPanelProps {
   boardId: string;
   availableLabels: Label[];
   allBoardTasks?: Task[];
+  sprints?: Sprint[];
+  pointScale?: PointScale;
   onClose: () => void;
-  onUpdate: (taskId: string, updates: Partial<Task> & { labelIds?: string[] }) => void;
+  // Resolves to the conflict when the edit was based on an outdated version
+  onUpdate: (taskId: string, updates: TaskUpdates) => void | Promise<VersionConflict<Task> | undefined>;
   onDelete: (taskId: string) => void;
   onLabelsChange: () => void;
   onSubtasksChange?: () => void;
+  onTransferred?: (task: Task, mode: "move" | "copy") => void;
+  onMerged?: (canonical: Task) => void;
+  onSeriesChange?: (task?: Task) => void; // an edit touched other tasks of a recurring series
 }
 
+type RecurringInstance = Pick<Task, "id" | "dueDate" | "recurrenceDate" | "completed">;
+
 const priorities: Priority[] = ["low", "medium", "high", "urgent"];
 
 const priorityColors: Record<Priority, string> = {
@@ -54,11 +72,13 @@ interface SortableSubtaskItemProps {
   subtask: Task;
   isEditing: boolean;
   editingTitle: string;
+  pointOptions: PointOption[];
   onToggleComplete: () => void;
   onStartEdit: () => void;
   onEditChange: (title: string) => void;
   onEditSave: () => void;
   onEditCancel: () => void;
+  onPointsChange: (points: number | null) => void;
   onDelete: () => void;
 }
 
@@ -66,11 +86,13 @@ function SortableSubtaskItem({
   subtask,
   isEditing,
   editingTitle,
+  pointOptions,
   onToggleComplete,
   onStartEdit,
   onEditChange,
   onEditSave,
   onEditCancel,
+  onPointsChange,
   onDelete,
 }: SortableSubtaskItemProps) {
   const {
@@ -154,6 +176,21 @@ function SortableSubtaskItem({
         </span>
       )}
 
+      {/* Story Points */}
+      <select
+        value={subtask.storyPoints ?? ""}
+        onChange={(e) => onPointsChange(e.target.value === "" ? null : Number(e.target.value))}
+        className="flex-shrink-0 bg-slate-600 border-none rounded px-1 py-0.5 text-xs text-slate-200 focus:outline-none focus:ring-1 focus:ring-indigo-500"
+        title="Story points"
+      >
+        <option value="">–</option>
+        {pointOptions.map((o) => (
+          <option key={o.value} value={o.value}>
+            {o.label}
+          </option>
+        ))}
+      </select>
+
       {/* Assignee */}
       {subtask.assignee && (
         <div
@@ -190,6 +227,16 @@ function SortableSubtaskItem({
   );
 }
 
+// Someone counts as typing until they've paused this long
+const TYPING_IDLE_MS = 4000;
+
+function describeTypists(viewers: TaskViewer[]): string | null {
+  if (viewers.length === 0) return null;
+  if (viewers.length === 1) return `${viewers[0].userName} is typing…`;
+  if (viewers.length === 2) return `${viewers[0].userName} and ${viewers[1].userName} are typing…`;
+  return `${viewers.length} people are typing…`;
+}
+
 export function TaskDetailPanel({
   task,
   columns,
@@ -197,17 +244,26 @@ export function TaskDetailPanel({
   boardId,
   availableLabels,
   allBoardTasks = [],
+  sprints = [],
+  pointScale,
   onClose,
   onUpdate,
   onDelete,
   onLabelsChange,
   onSubtasksChange,
+  onTransferred,
+  onMerged,
+  onSeriesChange,
 }: TaskDetailPanelProps) {
   const [title, setTitle] = useState("");
   const [description, setDescription] = useState("");
   const [priority, setPriority] = useState<Priority>("medium");
   const [dueDate, setDueDate] = useState("");
   const [assigneeId, setAssigneeId] = useState("");
+  const [sprintId, setSprintId] = useState("");
+  const [storyPoints, setStoryPoints] = useState("");
+  const [epicId, setEpicId] = useState("");
+  const [epics, setEpics] = useState<Epic[]>([]);
   const [columnId, setColumnId] = useState("");
   const [taskLabels, setTaskLabels] = useState<Label[]>([]);
   const [comments, setComments] = useState<Comment[]>([]);
@@ -225,6 +281,9 @@ export function TaskDetailPanel({
   const [recurrenceRule, setRecurrenceRule] = useState<string | null>(null);
   const [lastRecurrence, setLastRecurrence] = useState<Date | null>(null);
   const [parentRecurringId, setParentRecurringId] = useState<string | null>(null);
+  const [recurrenceDate, setRecurrenceDate] = useState<Date | null>(null);
+  const [recurringInstances, setRecurringInstances] = useState<RecurringInstance[]>([]);
+  const [seriesScope, setSeriesScope] = useState<"this" | "future">("this");
   
   // Custom fields state
   const [customFieldValues, setCustomFieldValues] = useState<CustomFieldValue[]>([]);
@@ -235,6 +294,34 @@ export function TaskDetailPanel({
   const [showDependencySearch, setShowDependencySearch] = useState(false);
   const [dependencySearch, setDependencySearch] = useState("");
 
+  // Cross-board move/copy
+  const [transferMode, setTransferMode] = useState<"move" | "copy" | null>(null);
+
+  // An edit that collided with someone else's, waiting on the user to merge
+  const [merge, setMerge] = useState<{ base: Task; merged: TaskUpdates; conflicts: FieldConflict[] } | null>(null);
+
+  // Where the user is typing, if anywhere, so others with the task open can see it
+  const [typingIn, setTypingIn] = useState<"commenting" | "editing" | null>(null);
+  const typingTimerRef = useRef<ReturnType<typeof setTimeout> | null>(null);
+
+  const markTyping = useCallback((activity: "commenting" | "editing") => {
+    setTypingIn(activity);
+    if (typingTimerRef.current) clearTimeout(typingTimerRef.current);
+    typingTimerRef.current = setTimeout(() => setTypingIn(null), TYPING_IDLE_MS);
+  }, []);
+
+  useEffect(() => {
+    setTypingIn(null);
+    return () => {
+      if (typingTimerRef.current) clearTimeout(typingTimerRef.current);
+    };
+  }, [task?.id]);
+
+  useAnnounceTaskPresence(boardId, task?.id ?? null, typingIn ?? "viewing");
+  const viewers = useTaskPresence(boardId).get(task?.id ?? "") ?? [];
+  const editingNote = describeTypists(viewers.filter((viewer) => viewer.activity === "editing"));
+  const commentingNote = describeTypists(viewers.filter((viewer) => viewer.activity === "commenting"));
+
   useEffect(() => {
     if (task) {
       setTitle(task.title);
@@ -242,6 +329,9 @@ export function TaskDetailPanel({
       setPriority(task.priority as Priority);
       setDueDate(task.dueDate ? format(new Date(task.dueDate), "yyyy-MM-dd") : "");
       setAssigneeId(task.assigneeId || "");
+      setSprintId(task.sprintId || "");
+      setStoryPoints(task.storyPoints != null ? String(task.storyPoints) : "");
+      setEpicId(task.epicId || "");
       setColumnId(task.columnId);
       setTaskLabels(task.labels || []);
       setSubtasks([]);
@@ -254,11 +344,22 @@ export function TaskDetailPanel({
       setRecurrenceRule(task.recurrenceRule || null);
       setLastRecurrence(task.lastRecurrence || null);
       setParentRecurringId(task.parentRecurringId || null);
+      setRecurrenceDate(task.recurrenceDate || null);
+      setRecurringInstances([]);
+      setSeriesScope("this");
       setCustomFieldValues(task.customFieldValues || []);
       fetchTaskDetails();
     }
   }, [task]);
 
+  // Open epics span boards, so they are loaded once rather than with the board
+  useEffect(() => {
+    fetch("/api/epics?status=open")
+      .then((res) => (res.ok ? res.json() : []))
+      .then(setEpics)
+      .catch((err) => console.error("Failed to fetch epics:", err));
+  }, []);
+
   const fetchTaskDetails = async () => {
     if (!task) return;
     try {
@@ -271,6 +372,7 @@ export function TaskDetailPanel({
         setAttachments(data.attachments || []);
         setBlockedBy(data.blockedBy || []);
         setBlocking(data.blocking || []);
+        setRecurringInstances(data.recurringInstances || []);
       }
     } catch (error) {
       console.error("Failed to fetch task details:", error);
@@ -321,8 +423,9 @@ export function TaskDetailPanel({
         body: JSON.stringify({ completed: !subtask.completed }),
       });
       if (res.ok) {
+        const updated = await res.json();
         setSubtasks(subtasks.map((s) => 
-          s.id === subtask.id ? { ...s, completed: !s.completed } : s
+          s.id === subtask.id ? { ...s, completed: !s.completed, version: updated.version } : s
         ));
         onSubtasksChange?.();
       }
@@ -333,23 +436,51 @@ export function TaskDetailPanel({
 
   const updateSubtaskTitle = async (subtaskId: string, newTitle: string) => {
     if (!newTitle.trim()) return;
+    const version = subtasks.find((s) => s.id === subtaskId)?.version;
     try {
       const res = await fetch(`/api/tasks/${subtaskId}`, {
         method: "PATCH",
         headers: { "Content-Type": "application/json" },
-        body: JSON.stringify({ title: newTitle }),
+        body: JSON.stringify({ title: newTitle, version }),
       });
+      const data = await res.json();
       if (res.ok) {
         setSubtasks(subtasks.map((s) => 
-          s.id === subtaskId ? { ...s, title: newTitle } : s
+          s.id === subtaskId ? { ...s, title: data.title, version: data.version } : s
         ));
         setEditingSubtaskId(null);
+      } else if (data.code === "VERSION_CONFLICT") {
+        // Show their title and let the user edit again from it
+        setSubtasks(subtasks.map((s) =>
+          s.id === subtaskId ? { ...s, title: data.current.title, version: data.current.version } : s
+        ));
+        setEditingSubtaskTitle(data.current.title);
+        alert(`Someone else renamed this subtask to "${data.current.title}" meanwhile. Edit it again to keep yours.`);
       }
     } catch (error) {
       console.error("Failed to update subtask:", error);
     }
   };
 
+  const updateSubtaskPoints = async (subtaskId: string, points: number | null) => {
+    try {
+      const res = await fetch(`/api/tasks/${subtaskId}`, {
+        method: "PATCH",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ storyPoints: points }),
+      });
+      if (res.ok) {
+        const updated = await res.json();
+        setSubtasks(subtasks.map((s) =>
+          s.id === subtaskId ? { ...s, storyPoints: points, version: updated.version } : s
+        ));
+        onSubtasksChange?.();
+      }
+    } catch (error) {
+      console.error("Failed to update subtask points:", error);
+    }
+  };
+
   const deleteSubtask = async (subtaskId: string) => {
     try {
       const res = await fetch(`/api/tasks/${subtaskId}`, {
@@ -393,6 +524,9 @@ export function TaskDetailPanel({
   };
 
   const completedSubtasks = subtasks.filter((s) => s.completed).length;
+  const pointOptions = getPointOptions(pointScale);
+  // Estimated subtasks replace the parent's own estimate in rollups
+  const rolledUpPoints = getTaskPoints({ subtasks });
 
   // Dependency functions
   const addDependency = async (blockedById: string) => {
@@ -437,6 +571,27 @@ export function TaskDetailPanel({
     }
   };
 
+  const updateDependencyLag = async (blockedById: string, lagDays: number) => {
+    if (!task) return;
+    try {
+      const res = await fetch(`/api/tasks/${task.id}/dependencies`, {
+        method: "PATCH",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ blockedById, lagDays }),
+      });
+      if (res.ok) {
+        const dependency = await res.json();
+        setBlockedBy(blockedBy.map((d) => (d.blockedById === blockedById ? { ...d, lagDays: dependency.lagDays } : d)));
+      } else {
+        const error = await res.json();
+        alert(error.error || "Failed to update dependency");
+      }
+    } catch (error) {
+      console.error("Failed to update dependency:", error);
+      alert("Failed to update dependency");
+    }
+  };
+
   // Filter tasks for dependency search (exclude self, already added, and subtasks)
   const filteredDependencyTasks = allBoardTasks.filter((t) => {
     if (!task) return false;
@@ -544,11 +699,139 @@ export function TaskDetailPanel({
     return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
   };
 
+  // Save against the version the edit started from. If someone else got
+  // there first, merge: untouched fields take their values, and fields we
+  // both changed go to the merge dialog. An empty save just picks up theirs.
+  const saveTask = async (updates: TaskUpdates, base: Task | null = task) => {
+    if (!base) return;
+    const conflict = await onUpdate(base.id, { ...updates, version: base.version });
+    if (!conflict) {
+      setMerge(null);
+      return;
+    }
+    const { merged, conflicts } = mergeTaskUpdates(base, updates, conflict.current);
+    if (conflicts.length === 0) {
+      await saveTask(merged, conflict.current);
+    } else {
+      setMerge({ base: conflict.current, merged, conflicts });
+    }
+  };
+
+  const resolveMerge = (keepMine: string[]) => {
+    if (!merge) return;
+    const mine = merge.conflicts.filter((c) => keepMine.includes(c.field));
+    saveTask({ ...merge.merged, ...Object.fromEntries(mine.map((c) => [c.field, c.mine])) }, merge.base);
+  };
+
+  const describeValue = (field: string, value: unknown): string => {
+    if (value === null || value === undefined || value === "") return "None";
+    switch (field) {
+      case "assigneeId": {
+        const user = users.find((u) => u.id === value);
+        return user?.name || user?.email || "Unknown user";
+      }
+      case "columnId":
+        return columns.find((c) => c.id === value)?.name ?? "Unknown column";
+      case "sprintId":
+        return sprints.find((s) => s.id === value)?.name ?? "Unknown sprint";
+      case "epicId":
+        return epics.find((e) => e.id === value)?.title ?? "Unknown epic";
+      case "labelIds": {
+        const names = (value as string[]).map((id) => availableLabels.find((l) => l.id === id)?.name ?? "Unknown label");
+        return names.length > 0 ? names.join(", ") : "None";
+      }
+      case "startDate":
+      case "dueDate":
+        return format(new Date(value as string | Date), "MMM d, yyyy");
+      case "timeEstimate":
+        return `${value} min`;
+      case "isRecurring":
+        return value ? "Yes" : "No";
+      default:
+        return String(value);
+    }
+  };
+
+  // Edits to series fields go to every later occurrence when the scope says so
+  const updateFields = (updates: TaskUpdates) => {
+    if (!task) return;
+    const isSeries = isRecurring || !!parentRecurringId;
+    const seriesOnly = Object.keys(updates).every((key) => (SERIES_FIELDS as readonly string[]).includes(key));
+    if (isSeries && seriesScope === "future" && seriesOnly) {
+      updateSeries(updates);
+    } else {
+      saveTask(updates);
+    }
+  };
+
+  const updateSeries = async (updates: Record<string, unknown>) => {
+    if (!task) return;
+    try {
+      const res = await fetch(`/api/tasks/${task.id}/series`, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ updates }),
+      });
+      const data = await res.json();
+      if (!res.ok) {
+        alert(data.error || "Failed to update the series");
+        return;
+      }
+      onSeriesChange?.(data);
+    } catch (error) {
+      console.error("Failed to update series:", error);
+    }
+  };
+
+  // Skip or move one occurrence; [id] of the route is always the series template
+  const changeOccurrence = async (body: { action: "skip" | "reschedule"; date: Date; dueDate?: Date }) => {
+    if (!task) return;
+    const templateId = parentRecurringId ?? task.id;
+    try {
+      const res = await fetch(`/api/tasks/${templateId}/occurrences`, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify(body),
+      });
+      const data = await res.json();
+      if (!res.ok) {
+        alert(data.error || "Failed to update the occurrence");
+        return;
+      }
+      if (parentRecurringId && body.action === "skip") {
+        // This instance was the skipped occurrence and is now in the trash
+        onSeriesChange?.();
+        onClose();
+        return;
+      }
+      if (!parentRecurringId) {
+        setRecurrenceRule(data.recurrenceRule);
+        setRecurringInstances(data.recurringInstances || []);
+      }
+      onSeriesChange?.();
+    } catch (error) {
+      console.error("Failed to update occurrence:", error);
+    }
+  };
+
+  const rule = parseRecurrenceRule(recurrenceRule);
+  const movedOccurrences = rule
+    ? Object.fromEntries(
+        recurringInstances
+          .filter((i) => i.recurrenceDate && i.dueDate && new Date(i.dueDate).getTime() !== new Date(i.recurrenceDate).getTime())
+          .map((i) => [getOccurrenceDateKey(rule, new Date(i.recurrenceDate!)), new Date(i.dueDate!)])
+      )
+    : undefined;
+
   const handleSave = () => {
     if (!task) return;
-    onUpdate(task.id, {
+    if ((isRecurring || parentRecurringId) && seriesScope === "future") {
+      updateSeries({ title, description });
+      return;
+    }
+    // The description saves itself as it's edited
+    saveTask({
       title,
-      description,
       priority,
       dueDate: dueDate ? new Date(dueDate) : null,
       assigneeId: assigneeId || null,
@@ -574,7 +857,7 @@ export function TaskDetailPanel({
     }
     
     setTaskLabels(newLabels);
-    onUpdate(task.id, { labelIds: newLabels.map((l) => l.id) });
+    updateFields({ labelIds: newLabels.map((l) => l.id) });
   };
 
   const handleCreateLabel = async (name: string, color: string): Promise<Label | null> => {
@@ -591,7 +874,7 @@ export function TaskDetailPanel({
         if (task) {
           const newLabels = [...taskLabels, label];
           setTaskLabels(newLabels);
-          onUpdate(task.id, { labelIds: newLabels.map((l) => l.id) });
+          updateFields({ labelIds: newLabels.map((l) => l.id) });
         }
         return label;
       }
@@ -606,7 +889,7 @@ export function TaskDetailPanel({
     if (!task) return;
     setIsRecurring(newIsRecurring);
     setRecurrenceRule(newRule);
-    onUpdate(task.id, {
+    saveTask({
       isRecurring: newIsRecurring,
       recurrenceRule: newRule,
     } as Partial<Task>);
@@ -644,8 +927,33 @@ export function TaskDetailPanel({
       <div className="fixed right-0 top-0 h-full w-full max-w-lg bg-slate-800 z-50 slide-in shadow-2xl overflow-y-auto">
         {/* Header */}
         <div className="sticky top-0 bg-slate-800 border-b border-slate-700 p-4 flex items-center justify-between">
-          <h2 className="text-lg font-semibold text-white">Task Details</h2>
+          <div className="flex items-center gap-3">
+            <h2 className="text-lg font-semibold text-white">Task Details</h2>
+            <TaskPresenceAvatars viewers={viewers} maxVisible={4} size="md" />
+          </div>
           <div className="flex items-center gap-2">
+            {!task.parentId && (
+              <>
+                <button
+                  onClick={() => setTransferMode("move")}
+                  className="p-2 text-slate-400 hover:text-white hover:bg-slate-700 rounded transition-colors"
+                  title="Move to board…"
+                >
+                  <svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                    <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M13 7l5 5m0 0l-5 5m5-5H6" />
+                  </svg>
+                </button>
+                <button
+                  onClick={() => setTransferMode("copy")}
+                  className="p-2 text-slate-400 hover:text-white hover:bg-slate-700 rounded transition-colors"
+                  title="Copy to board…"
+                >
+                  <svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                    <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M8 16H6a2 2 0 01-2-2V6a2 2 0 012-2h8a2 2 0 012 2v2m-6 12h8a2 2 0 002-2v-8a2 2 0 00-2-2h-8a2 2 0 00-2 2v8a2 2 0 002 2z" />
+                  </svg>
+                </button>
+              </>
+            )}
             <button
               onClick={() => onDelete(task.id)}
               className="p-2 text-red-400 hover:text-red-300 hover:bg-slate-700 rounded transition-colors"
@@ -689,7 +997,7 @@ export function TaskDetailPanel({
                 value={columnId}
                 onChange={(e) => {
                   setColumnId(e.target.value);
-                  onUpdate(task.id, { columnId: e.target.value });
+                  saveTask({ columnId: e.target.value });
                 }}
                 className="w-full bg-slate-700 border border-slate-600 rounded-lg px-3 py-2 text-white focus:outline-none focus:ring-2 focus:ring-indigo-500"
               >
@@ -707,7 +1015,7 @@ export function TaskDetailPanel({
                 value={assigneeId}
                 onChange={(e) => {
                   setAssigneeId(e.target.value);
-                  onUpdate(task.id, { assigneeId: e.target.value || null });
+                  updateFields({ assigneeId: e.target.value || null });
                 }}
                 className="w-full bg-slate-700 border border-slate-600 rounded-lg px-3 py-2 text-white focus:outline-none focus:ring-2 focus:ring-indigo-500"
               >
@@ -721,6 +1029,57 @@ export function TaskDetailPanel({
             </div>
           </div>
 
+          {/* Sprint & Epic - subtasks follow their parent */}
+          {!task.parentId && (
+            <div className="grid grid-cols-2 gap-4">
+              {sprints.length > 0 && (
+                <div>
+                  <label className="block text-sm font-medium text-slate-400 mb-1">Sprint</label>
+                  <select
+                    value={sprintId}
+                    onChange={(e) => {
+                      setSprintId(e.target.value);
+                      saveTask({ sprintId: e.target.value || null });
+                    }}
+                    className="w-full bg-slate-700 border border-slate-600 rounded-lg px-3 py-2 text-white focus:outline-none focus:ring-2 focus:ring-indigo-500"
+                  >
+                    <option value="">Backlog</option>
+                    {sprints
+                      .filter((s) => s.state !== "closed" || s.id === sprintId)
+                      .map((s) => (
+                        <option key={s.id} value={s.id} disabled={s.state === "closed"}>
+                          {s.name}
+                          {s.state === "active" ? " (active)" : s.state === "closed" ? " (closed)" : ""}
+                        </option>
+                      ))}
+                  </select>
+                </div>
+              )}
+
+              <div>
+                <label className="block text-sm font-medium text-slate-400 mb-1">Epic</label>
+                <select
+                  value={epicId}
+                  onChange={(e) => {
+                    setEpicId(e.target.value);
+                    saveTask({ epicId: e.target.value || null });
+                  }}
+                  className="w-full bg-slate-700 border border-slate-600 rounded-lg px-3 py-2 text-white focus:outline-none focus:ring-2 focus:ring-indigo-500"
+                >
+                  <option value="">No epic</option>
+                  {task.epic && !epics.some((e) => e.id === task.epic!.id) && (
+                    <option value={task.epic.id}>{task.epic.title}</option>
+                  )}
+                  {epics.map((epic) => (
+                    <option key={epic.id} value={epic.id}>
+                      {epic.title}
+                    </option>
+                  ))}
+                </select>
+              </div>
+            </div>
+          )}
+
           {/* Priority & Due Date */}
           <div className="grid grid-cols-2 gap-4">
             <div>
@@ -731,7 +1090,7 @@ export function TaskDetailPanel({
                     key={p}
                     onClick={() => {
                       setPriority(p);
-                      onUpdate(task.id, { priority: p });
+                      updateFields({ priority: p });
                     }}
                     className={clsx(
                       "flex-1 py-2 rounded-lg text-xs font-medium capitalize transition-all",
@@ -758,9 +1117,9 @@ export function TaskDetailPanel({
                     // Parse as local date to avoid timezone shift
                     const [year, month, day] = val.split('-').map(Number);
                     const date = new Date(year, month - 1, day, 12, 0, 0);
-                    onUpdate(task.id, { dueDate: date });
+                    saveTask({ dueDate: date });
                   } else {
-                    onUpdate(task.id, { dueDate: null });
+                    saveTask({ dueDate: null });
                   }
                 }}
                 className="w-full bg-slate-700 border border-slate-600 rounded-lg px-3 py-2 text-white focus:outline-none focus:ring-2 focus:ring-indigo-500 [color-scheme:dark]"
@@ -768,6 +1127,33 @@ export function TaskDetailPanel({
             </div>
           </div>
 
+          {/* Story Points */}
+          <div>
+            <label className="block text-sm font-medium text-slate-400 mb-1">Story Points</label>
+            <div className="flex items-center gap-3">
+              <select
+                value={storyPoints}
+                onChange={(e) => {
+                  setStoryPoints(e.target.value);
+                  saveTask({ storyPoints: e.target.value === "" ? null : Number(e.target.value) });
+                }}
+                className="w-32 bg-slate-700 border border-slate-600 rounded-lg px-3 py-2 text-white focus:outline-none focus:ring-2 focus:ring-indigo-500"
+              >
+                <option value="">Not estimated</option>
+                {pointOptions.map((o) => (
+                  <option key={o.value} value={o.value}>
+                    {o.label}
+                  </option>
+                ))}
+              </select>
+              {rolledUpPoints != null && (
+                <span className="text-xs text-slate-400">
+                  {rolledUpPoints} pts from subtasks
+                </span>
+              )}
+            </div>
+          </div>
+
           {/* Recurrence - only show for non-instance tasks */}
           {!parentRecurringId && (
             <div>
@@ -777,7 +1163,14 @@ export function TaskDetailPanel({
                 recurrenceRule={recurrenceRule}
                 dueDate={dueDate ? new Date(dueDate) : null}
                 lastRecurrence={lastRecurrence}
+                movedOccurrences={movedOccurrences}
                 onChange={handleRecurrenceChange}
+                onSkipOccurrence={isRecurring && task.isRecurring ? (date) => changeOccurrence({ action: "skip", date }) : undefined}
+                onMoveOccurrence={
+                  isRecurring && task.isRecurring
+                    ? (date, newDueDate) => changeOccurrence({ action: "reschedule", date, dueDate: newDueDate })
+                    : undefined
+                }
               />
             </div>
           )}
@@ -785,13 +1178,52 @@ export function TaskDetailPanel({
           {/* Show recurring parent info for instances */}
           {parentRecurringId && (
             <div className="bg-slate-700/50 rounded-lg p-3 text-sm">
-              <span className="text-indigo-400">🔄 Recurring instance</span>
+              <div className="flex items-center justify-between">
+                <span className="text-indigo-400">🔄 Recurring instance</span>
+                <button
+                  onClick={() => {
+                    if (confirm("Skip this occurrence? It moves to the trash and won't be created again.")) {
+                      changeOccurrence({ action: "skip", date: new Date(recurrenceDate ?? task.dueDate!) });
+                    }
+                  }}
+                  disabled={!recurrenceDate && !task.dueDate}
+                  className="text-xs text-slate-400 hover:text-red-400 disabled:opacity-50 transition-colors"
+                >
+                  Skip this occurrence
+                </button>
+              </div>
               <p className="text-slate-400 text-xs mt-1">
                 This task is part of a recurring series
+                {recurrenceDate &&
+                  dueDate &&
+                  format(new Date(recurrenceDate), "yyyy-MM-dd") !== dueDate &&
+                  `, moved from ${format(new Date(recurrenceDate), "EEE, MMM d")}`}
+                . Changing its due date moves only this occurrence.
               </p>
             </div>
           )}
 
+          {/* Whether title, description, priority, assignee and label edits reach later occurrences */}
+          {(parentRecurringId || (isRecurring && task.isRecurring)) && (
+            <div className="flex items-center gap-2 text-xs">
+              <span className="text-slate-400">Apply edits to</span>
+              <div className="flex bg-slate-700 rounded-lg p-0.5">
+                {(["this", "future"] as const).map((scope) => (
+                  <button
+                    key={scope}
+                    onClick={() => setSeriesScope(scope)}
+                    className={clsx(
+                      "px-2 py-1 rounded-md transition-colors",
+                      seriesScope === scope ? "bg-indigo-600 text-white" : "text-slate-400 hover:text-white"
+                    )}
+                  >
+                    {scope === "this" ? "This occurrence" : "This and future"}
+                  </button>
+                ))}
+              </div>
+            </div>
+          )}
+
           {/* Labels */}
           <div>
             <label className="block text-sm font-medium text-slate-400 mb-2">Labels</label>
@@ -813,6 +1245,13 @@ export function TaskDetailPanel({
             onUpdate={handleCustomFieldUpdate}
           />
 
+          {/* Time Tracking */}
+          <TimeTrackingSection
+            taskId={task.id}
+            timeEstimate={task.timeEstimate ?? null}
+            onEstimateChange={(minutes) => saveTask({ timeEstimate: minutes })}
+          />
+
           {/* Dependencies */}
           <div>
             <div className="flex items-center justify-between mb-2">
@@ -857,6 +1296,18 @@ export function TaskDetailPanel({
                       <span className="text-xs text-slate-500">
                         {dep.blockedBy?.column?.name}
                       </span>
+                      {/* Working days between the blocker ending and this task starting */}
+                      <input
+                        type="number"
+                        defaultValue={dep.lagDays ?? 0}
+                        onBlur={(e) => {
+                          const lagDays = parseInt(e.target.value, 10) || 0;
+                          if (lagDays !== (dep.lagDays ?? 0)) updateDependencyLag(dep.blockedById, lagDays);
+                        }}
+                        className="w-12 bg-slate-700 border border-slate-600 rounded px-1 py-0.5 text-xs text-white text-right focus:outline-none focus:ring-1 focus:ring-indigo-500"
+                        title="Lag in working days (negative for lead)"
+                      />
+                      <span className="text-xs text-slate-500">d</span>
                       <button
                         onClick={() => removeDependency(dep.blockedById)}
                         className="opacity-0 group-hover:opacity-100 p-1 text-slate-500 hover:text-red-400 transition-all"
@@ -952,17 +1403,25 @@ export function TaskDetailPanel({
             )}
           </div>
 
+          {/* Related Tasks */}
+          <TaskRelationsSection
+            taskId={task.id}
+            boardId={boardId}
+            boardTasks={allBoardTasks}
+            onMerged={onMerged}
+          />
+
           {/* Description */}
           <div>
             <label className="block text-sm font-medium text-slate-400 mb-1">Description</label>
-            <textarea
-              value={description}
-              onChange={(e) => setDescription(e.target.value)}
+            <CollaborativeDescription
+              taskId={task.id}
+              boardId={boardId}
+              onChange={setDescription}
+              onInput={() => markTyping("editing")}
               onBlur={handleSave}
-              rows={4}
-              placeholder="Add a description..."
-              className="w-full bg-slate-700 border border-slate-600 rounded-lg px-3 py-2 text-white placeholder-slate-400 focus:outline-none focus:ring-2 focus:ring-indigo-500 resize-none"
             />
+            {editingNote && <p className="mt-1 text-xs text-slate-400 italic">{editingNote}</p>}
           </div>
 
           {/* Attachments */}
@@ -1114,6 +1573,7 @@ export function TaskDetailPanel({
                       subtask={subtask}
                       isEditing={editingSubtaskId === subtask.id}
                       editingTitle={editingSubtaskTitle}
+                      pointOptions={pointOptions}
                       onToggleComplete={() => toggleSubtaskComplete(subtask)}
                       onStartEdit={() => {
                         setEditingSubtaskId(subtask.id);
@@ -1122,6 +1582,7 @@ export function TaskDetailPanel({
                       onEditChange={(title) => setEditingSubtaskTitle(title)}
                       onEditSave={() => updateSubtaskTitle(subtask.id, editingSubtaskTitle)}
                       onEditCancel={() => setEditingSubtaskId(null)}
+                      onPointsChange={(points) => updateSubtaskPoints(subtask.id, points)}
                       onDelete={() => deleteSubtask(subtask.id)}
                     />
                   ))}
@@ -1184,7 +1645,10 @@ export function TaskDetailPanel({
                 <input
                   type="text"
                   value={newComment}
-                  onChange={(e) => setNewComment(e.target.value)}
+                  onChange={(e) => {
+                    setNewComment(e.target.value);
+                    markTyping("commenting");
+                  }}
                   onKeyDown={(e) => e.key === "Enter" && addComment()}
                   placeholder="Add a comment..."
                   className="flex-1 bg-slate-700 border border-slate-600 rounded-lg px-3 py-2 text-white placeholder-slate-400 focus:outline-none focus:ring-2 focus:ring-indigo-500"
@@ -1196,6 +1660,7 @@ export function TaskDetailPanel({
                   Post
                 </button>
               </div>
+              {commentingNote && <p className="-mt-2 text-xs text-slate-400 italic">{commentingNote}</p>}
 
               <div className="space-y-3">
                 {comments.map((comment) => (
@@ -1255,6 +1720,28 @@ export function TaskDetailPanel({
           )}
         </div>
       </div>
+
+      {merge && (
+        <TaskConflictDialog
+          conflicts={merge.conflicts}
+          describe={describeValue}
+          onResolve={resolveMerge}
+          onDiscard={() => saveTask({}, merge.base)}
+        />
+      )}
+
+      {transferMode && (
+        <TaskTransferDialog
+          task={task}
+          boardId={boardId}
+          mode={transferMode}
+          onClose={() => setTransferMode(null)}
+          onTransferred={(transferred, mode) => {
+            setTransferMode(null);
+            onTransferred?.(transferred, mode);
+          }}
+        />
+      )}
     </>
   );
 }
@@ -0,0 +1,271 @@
+"use client";
+
+import { useState, useEffect, useCallback } from "react";
+import clsx from "clsx";
+import type { RelatedTask, Task, TaskRelation } from "@/types";
+import { isTaskFinished } from "@/lib/column-categories";
+import { groupRelations, RELATION_LINK_OPTIONS } from "@/lib/task-relations";
+
+// Past this many links the list gets its own filter box
+const FILTER_THRESHOLD = 5;
+
+interface TaskRelationsSectionProps {
+  taskId: string;
+  boardId: string;
+  boardTasks: Task[];
+  onMerged?: (canonical: Task) => void;
+}
+
+export function TaskRelationsSection({ taskId, boardId, boardTasks, onMerged }: TaskRelationsSectionProps) {
+  const [relations, setRelations] = useState<TaskRelation[]>([]);
+  const [showAdd, setShowAdd] = useState(false);
+  const [linkType, setLinkType] = useState(RELATION_LINK_OPTIONS[0].value);
+  const [search, setSearch] = useState("");
+  const [filter, setFilter] = useState("");
+  const [error, setError] = useState("");
+
+  const fetchRelations = useCallback(async () => {
+    try {
+      const res = await fetch(`/api/tasks/${taskId}/relations`);
+      if (res.ok) {
+        setRelations(await res.json());
+      }
+    } catch (err) {
+      console.error("Failed to fetch relations:", err);
+    }
+  }, [taskId]);
+
+  useEffect(() => {
+    setShowAdd(false);
+    setSearch("");
+    setFilter("");
+    setError("");
+    fetchRelations();
+  }, [fetchRelations]);
+
+  const merge = async (duplicateId: string, canonicalId: string) => {
+    try {
+      const res = await fetch(`/api/tasks/${duplicateId}/merge`, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ canonicalId }),
+      });
+      const data = await res.json();
+      if (res.ok) {
+        fetchRelations();
+        onMerged?.(data.canonical);
+      } else {
+        setError(data.error || "Failed to merge tasks");
+      }
+    } catch {
+      setError("Failed to merge tasks");
+    }
+  };
+
+  // Merging always folds the duplicate into the task it duplicates
+  const offerMerge = (duplicate: Pick<RelatedTask, "id" | "title">, canonical: Pick<RelatedTask, "id" | "title">) => {
+    const prompt =
+      duplicate.id === taskId
+        ? `Close this task and move its comments and attachments to "${canonical.title}"?`
+        : `Close "${duplicate.title}" and move its comments and attachments to this task?`;
+    if (confirm(prompt)) merge(duplicate.id, canonical.id);
+  };
+
+  const addRelation = async (other: Task) => {
+    const option = RELATION_LINK_OPTIONS.find((o) => o.value === linkType)!;
+    setError("");
+    try {
+      const res = await fetch(`/api/tasks/${taskId}/relations`, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ type: option.type, taskId: other.id, inverse: option.inverse }),
+      });
+      const data = await res.json();
+      if (!res.ok) {
+        setError(data.error || "Failed to link tasks");
+        return;
+      }
+      setRelations((prev) => [...prev, data]);
+      setShowAdd(false);
+      setSearch("");
+
+      if (option.type === "duplicates") {
+        const self = { id: taskId, title: "" };
+        if (option.inverse) offerMerge(other, self);
+        else offerMerge(self, other);
+      }
+    } catch {
+      setError("Failed to link tasks");
+    }
+  };
+
+  const removeRelation = async (relationId: string) => {
+    try {
+      const res = await fetch(`/api/tasks/${taskId}/relations?relationId=${relationId}`, { method: "DELETE" });
+      if (res.ok) {
+        setRelations((prev) => prev.filter((r) => r.id !== relationId));
+      } else {
+        const data = await res.json();
+        setError(data.error || "Failed to remove link");
+      }
+    } catch {
+      setError("Failed to remove link");
+    }
+  };
+
+  const query = filter.trim().toLowerCase();
+  const groups = groupRelations(taskId, relations)
+    .map((group) => ({
+      ...group,
+      links: query ? group.links.filter((l) => l.task.title.toLowerCase().includes(query)) : group.links,
+    }))
+    .filter((group) => group.links.length > 0);
+
+  // Same-board tasks not already linked this way
+  const linkOption = RELATION_LINK_OPTIONS.find((o) => o.value === linkType)!;
+  const candidates = boardTasks.filter((t) => {
+    if (t.id === taskId || t.parentId) return false;
+    const linked = relations.some(
+      (r) => r.type === linkOption.type && (r.sourceId === t.id || r.targetId === t.id)
+    );
+    if (linked) return false;
+    return !search || t.title.toLowerCase().includes(search.toLowerCase());
+  });
+
+  return (
+    <div>
+      <div className="flex items-center justify-between mb-2">
+        <label className="block text-sm font-medium text-slate-400">Related Tasks</label>
+      </div>
+
+      {relations.length > FILTER_THRESHOLD && (
+        <input
+          type="text"
+          value={filter}
+          onChange={(e) => setFilter(e.target.value)}
+          placeholder="Filter linked tasks..."
+          className="w-full mb-2 bg-slate-700 border border-slate-600 rounded-lg px-3 py-1.5 text-sm text-white placeholder-slate-400 focus:outline-none focus:ring-2 focus:ring-indigo-500"
+        />
+      )}
+
+      {groups.map((group) => (
+        <div key={group.label} className="mb-3">
+          <p className="text-xs text-slate-500 mb-1">{group.label}:</p>
+          <div className="space-y-1">
+            {group.links.map(({ relation, task }) => {
+              const finished = isTaskFinished(task);
+              const outgoing = relation.sourceId === taskId;
+              return (
+                <div key={relation.id} className="flex items-center gap-2 p-2 bg-slate-700/50 rounded-lg group">
+                  <span
+                    className={clsx("flex-1 text-sm truncate", finished ? "text-slate-400 line-through" : "text-white")}
+                  >
+                    {task.title}
+                  </span>
+                  <span className="text-xs text-slate-500 shrink-0">
+                    {task.column.board.id !== boardId
+                      ? `${task.column.board.name} · ${task.column.name}`
+                      : task.column.name}
+                  </span>
+                  {relation.type === "duplicates" && (
+                    <button
+                      onClick={() =>
+                        outgoing
+                          ? offerMerge({ id: taskId, title: "" }, task)
+                          : offerMerge(task, { id: taskId, title: "" })
+                      }
+                      className="opacity-0 group-hover:opacity-100 text-xs text-indigo-400 hover:text-indigo-300 transition-all"
+                      title="Close the duplicate and move its comments and attachments"
+                    >
+                      Merge
+                    </button>
+                  )}
+                  <button
+                    onClick={() => removeRelation(relation.id)}
+                    className="opacity-0 group-hover:opacity-100 p-1 text-slate-500 hover:text-red-400 transition-all"
+                    title="Remove link"
+                  >
+                    <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                      <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" />
+                    </svg>
+                  </button>
+                </div>
+              );
+            })}
+          </div>
+        </div>
+      ))}
+
+      {query && groups.length === 0 && <p className="text-xs text-slate-500 mb-3">No linked tasks match</p>}
+
+      {showAdd ? (
+        <div className="space-y-2">
+          <div className="flex gap-2">
+            <select
+              value={linkType}
+              onChange={(e) => setLinkType(e.target.value)}
+              className="bg-slate-700 border border-slate-600 rounded-lg px-2 py-2 text-sm text-white focus:outline-none focus:ring-2 focus:ring-indigo-500"
+            >
+              {RELATION_LINK_OPTIONS.map((option) => (
+                <option key={option.value} value={option.value}>
+                  {option.label}
+                </option>
+              ))}
+            </select>
+            <div className="relative flex-1">
+              <input
+                type="text"
+                value={search}
+                onChange={(e) => setSearch(e.target.value)}
+                placeholder="Search tasks..."
+                className="w-full bg-slate-700 border border-slate-600 rounded-lg px-3 py-2 text-sm text-white placeholder-slate-400 focus:outline-none focus:ring-2 focus:ring-indigo-500"
+                autoFocus
+              />
+              <div className="absolute top-full left-0 right-0 mt-1 max-h-48 overflow-y-auto bg-slate-800 border border-slate-600 rounded-lg shadow-xl z-10">
+                {candidates.length === 0 ? (
+                  <div className="p-3 text-sm text-slate-500 text-center">
+                    {search ? "No matching tasks" : "No tasks available"}
+                  </div>
+                ) : (
+                  candidates.slice(0, 10).map((t) => (
+                    <button
+                      key={t.id}
+                      onClick={() => addRelation(t)}
+                      className="w-full flex items-center gap-2 p-2 hover:bg-slate-700 text-left transition-colors"
+                    >
+                      <span className="flex-1 text-sm text-white truncate">{t.title}</span>
+                      <span className="text-xs text-slate-500">{t.column?.name}</span>
+                    </button>
+                  ))
+                )}
+              </div>
+            </div>
+            <button
+              onClick={() => {
+                setShowAdd(false);
+                setSearch("");
+              }}
+              className="px-2 text-slate-400 hover:text-white"
+            >
+              <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" />
+              </svg>
+            </button>
+          </div>
+        </div>
+      ) : (
+        <button
+          onClick={() => setShowAdd(true)}
+          className="flex items-center gap-2 text-sm text-slate-400 hover:text-white transition-colors"
+        >
+          <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+            <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M12 4v16m8-8H4" />
+          </svg>
+          Link task
+        </button>
+      )}
+
+      {error && <p className="text-red-400 text-xs mt-2">{error}</p>}
+    </div>
+  );
+}
@@ -0,0 +1,81 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import clsx from "clsx";
+import { useRunningTimer } from "@/contexts/RunningTimerContext";
+import { formatClock, getEntrySeconds } from "@/lib/time-tracking";
+
+interface TaskTimerProps {
+  taskId: string;
+  compact?: boolean;
+  disabled?: boolean;
+}
+
+/**
+ * Start/stop button for the current user's timer on a task.
+ * Starting here stops whatever timer was running on another task.
+ */
+export function TaskTimer({ taskId, compact = false, disabled = false }: TaskTimerProps) {
+  const { running, start, stop } = useRunningTimer();
+  const [busy, setBusy] = useState(false);
+  const [, setTick] = useState(0);
+  const isRunning = running?.taskId === taskId;
+
+  // Re-render every second while this task's clock is ticking
+  useEffect(() => {
+    if (!isRunning) return;
+    const interval = setInterval(() => setTick((t) => t + 1), 1000);
+    return () => clearInterval(interval);
+  }, [isRunning]);
+
+  const handleClick = async (e: React.MouseEvent) => {
+    e.stopPropagation();
+    setBusy(true);
+    try {
+      if (isRunning) {
+        await stop(taskId);
+      } else {
+        await start(taskId);
+      }
+    } catch (error) {
+      console.error("Timer failed:", error);
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  return (
+    <button
+      onClick={handleClick}
+      onPointerDown={(e) => e.stopPropagation()}
+      disabled={busy || (disabled && !isRunning)}
+      className={clsx(
+        "flex items-center gap-1 rounded transition-colors disabled:opacity-50",
+        compact ? "px-1 text-xs" : "px-3 py-1.5 text-sm font-medium",
+        isRunning
+          ? compact
+            ? "text-red-300 bg-red-500/20 hover:bg-red-500/30"
+            : "text-white bg-red-600 hover:bg-red-700"
+          : compact
+            ? "text-slate-400 hover:text-white hover:bg-slate-600 opacity-0 group-hover:opacity-100 focus:opacity-100"
+            : "text-white bg-slate-700 hover:bg-slate-600"
+      )}
+      title={isRunning ? "Stop timer" : "Start timer"}
+    >
+      {isRunning ? (
+        <svg className={compact ? "w-3 h-3" : "w-4 h-4"} fill="currentColor" viewBox="0 0 24 24">
+          <rect x="6" y="6" width="12" height="12" rx="1" />
+        </svg>
+      ) : (
+        <svg className={compact ? "w-3 h-3" : "w-4 h-4"} fill="currentColor" viewBox="0 0 24 24">
+          <path d="M8 5v14l11-7z" />
+        </svg>
+      )}
+      {isRunning && running ? (
+        <span className="tabular-nums">{formatClock(getEntrySeconds(running))}</span>
+      ) : (
+        !compact && <span>Start timer</span>
+      )}
+    </button>
+  );
+}
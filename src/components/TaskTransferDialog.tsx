@@ -0,0 +1,200 @@
+"use client";
+
+import { useState, useEffect } from "react";
+import type { Board, Column, Task } from "@/types";
+
+type TransferMode = "move" | "copy";
+
+interface TransferDropped {
+  labels: string[];
+  customFields: string[];
+  assignee: string | null;
+  dependencies: number;
+  attachments: number;
+}
+
+interface TaskTransferDialogProps {
+  task: Task;
+  boardId: string;
+  mode: TransferMode;
+  onClose: () => void;
+  onTransferred: (task: Task, mode: TransferMode) => void;
+}
+
+function describeDropped(dropped: TransferDropped): string[] {
+  const notes: string[] = [];
+  if (dropped.labels.length > 0) notes.push(`Labels with no match on the target board: ${dropped.labels.join(", ")}`);
+  if (dropped.customFields.length > 0) notes.push(`Custom fields with no match: ${dropped.customFields.join(", ")}`);
+  if (dropped.assignee) notes.push(`${dropped.assignee} is not a member of the target board and was unassigned`);
+  if (dropped.dependencies > 0) notes.push(`${dropped.dependencies} dependencies removed`);
+  if (dropped.attachments > 0) notes.push(`${dropped.attachments} attachments stay on the original task`);
+  return notes;
+}
+
+export function TaskTransferDialog({ task, boardId, mode, onClose, onTransferred }: TaskTransferDialogProps) {
+  const [boards, setBoards] = useState<Board[]>([]);
+  const [targetBoardId, setTargetBoardId] = useState("");
+  const [columns, setColumns] = useState<Column[]>([]);
+  const [targetColumnId, setTargetColumnId] = useState("");
+  const [keepDependencies, setKeepDependencies] = useState(true);
+  const [submitting, setSubmitting] = useState(false);
+  const [error, setError] = useState("");
+  const [result, setResult] = useState<{ task: Task; notes: string[] } | null>(null);
+
+  useEffect(() => {
+    fetch("/api/boards")
+      .then((res) => (res.ok ? res.json() : []))
+      .then((data: Board[]) => setBoards(data.filter((b) => b.id !== boardId)))
+      .catch((err) => console.error("Failed to fetch boards:", err));
+  }, [boardId]);
+
+  useEffect(() => {
+    setColumns([]);
+    setTargetColumnId("");
+    if (!targetBoardId) return;
+    fetch(`/api/boards/${targetBoardId}/columns`)
+      .then((res) => (res.ok ? res.json() : []))
+      .then((data: Column[]) => {
+        setColumns(data);
+        setTargetColumnId(data[0]?.id || "");
+      })
+      .catch((err) => console.error("Failed to fetch columns:", err));
+  }, [targetBoardId]);
+
+  const handleSubmit = async () => {
+    if (!targetColumnId) return;
+    setSubmitting(true);
+    setError("");
+    try {
+      const res = await fetch(`/api/tasks/${task.id}/transfer`, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ mode, columnId: targetColumnId, keepDependencies }),
+      });
+      const data = await res.json();
+      if (!res.ok) {
+        setError(data.error || `Failed to ${mode} task`);
+        return;
+      }
+      const notes = describeDropped(data.dropped);
+      if (notes.length === 0) {
+        onTransferred(data.task, mode);
+      } else {
+        setResult({ task: data.task, notes });
+      }
+    } catch {
+      setError(`Failed to ${mode} task`);
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  const verb = mode === "move" ? "Move" : "Copy";
+
+  return (
+    <div className="fixed inset-0 bg-black/60 flex items-center justify-center z-[60] p-4">
+      <div className="bg-slate-800 rounded-xl w-full max-w-md shadow-2xl p-6">
+        <div className="flex items-center justify-between mb-4">
+          <h2 className="text-lg font-semibold text-white">{verb} to board</h2>
+          <button onClick={onClose} className="text-slate-400 hover:text-white transition-colors">
+            <svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" />
+            </svg>
+          </button>
+        </div>
+
+        {result ? (
+          <div className="space-y-4">
+            <p className="text-sm text-slate-300">
+              {mode === "move" ? "Moved" : "Copied"} &ldquo;{task.title}&rdquo;. Some details did not carry over:
+            </p>
+            <ul className="p-2 bg-yellow-500/10 border border-yellow-500/30 rounded text-yellow-400 text-xs space-y-1">
+              {result.notes.map((note, i) => (
+                <li key={i}>{note}</li>
+              ))}
+            </ul>
+            <div className="flex justify-end">
+              <button
+                onClick={() => onTransferred(result.task, mode)}
+                className="bg-indigo-600 hover:bg-indigo-500 text-white px-4 py-2 rounded-lg text-sm font-medium transition-colors"
+              >
+                Done
+              </button>
+            </div>
+          </div>
+        ) : (
+          <div className="space-y-4">
+            <p className="text-sm text-slate-400">
+              {mode === "move"
+                ? "The task, its subtasks, comments and history move to the other board."
+                : "A copy of the task with its subtasks, comments and history is created on the other board."}{" "}
+              Labels and custom fields are matched by name.
+            </p>
+
+            <div>
+              <label className="block text-sm font-medium text-slate-300 mb-1">Board</label>
+              <select
+                value={targetBoardId}
+                onChange={(e) => setTargetBoardId(e.target.value)}
+                className="w-full bg-slate-700 border border-slate-600 rounded px-3 py-2 text-white text-sm focus:outline-none focus:ring-2 focus:ring-indigo-500"
+              >
+                <option value="">Select a board...</option>
+                {boards.map((board) => (
+                  <option key={board.id} value={board.id}>
+                    {board.name}
+                  </option>
+                ))}
+              </select>
+            </div>
+
+            <div>
+              <label className="block text-sm font-medium text-slate-300 mb-1">Column</label>
+              <select
+                value={targetColumnId}
+                onChange={(e) => setTargetColumnId(e.target.value)}
+                disabled={columns.length === 0}
+                className="w-full bg-slate-700 border border-slate-600 rounded px-3 py-2 text-white text-sm focus:outline-none focus:ring-2 focus:ring-indigo-500 disabled:opacity-50"
+              >
+                {columns.map((column) => (
+                  <option key={column.id} value={column.id}>
+                    {column.name}
+                  </option>
+                ))}
+              </select>
+              {targetBoardId && columns.length === 0 && (
+                <p className="text-xs text-slate-500 mt-1">You need to be a member of that board to add tasks to it.</p>
+              )}
+            </div>
+
+            <label className="flex items-center gap-2 text-sm text-slate-300">
+              <input
+                type="checkbox"
+                checked={keepDependencies}
+                onChange={(e) => setKeepDependencies(e.target.checked)}
+                className="rounded bg-slate-700 border-slate-600"
+              />
+              Keep dependencies on tasks in this board
+            </label>
+
+            {error && (
+              <div className="p-2 bg-red-500/10 border border-red-500/30 rounded text-red-400 text-sm">{error}</div>
+            )}
+
+            <div className="flex justify-end gap-2">
+              <button onClick={onClose} className="px-4 py-2 text-slate-400 hover:text-white text-sm transition-colors">
+                Cancel
+              </button>
+              <button
+                onClick={handleSubmit}
+                disabled={!targetColumnId || submitting}
+                className="bg-indigo-600 hover:bg-indigo-500 disabled:bg-indigo-600/50 disabled:cursor-not-allowed text-white px-4 py-2 rounded-lg text-sm font-medium transition-colors"
+              >
+                {submitting ? `${verb === "Move" ? "Moving" : "Copying"}...` : verb}
+              </button>
+            </div>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
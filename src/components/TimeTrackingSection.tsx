@@ -0,0 +1,230 @@
+"use client";
+
+import { useState, useEffect, useCallback } from "react";
+import { useSession } from "next-auth/react";
+import { format } from "date-fns";
+import clsx from "clsx";
+import type { TimeEntry } from "@/types";
+import { TaskTimer } from "./TaskTimer";
+import { useRunningTimer } from "@/contexts/RunningTimerContext";
+import { MAX_ENTRY_MINUTES, formatDuration, getEntrySeconds, sumEntrySeconds } from "@/lib/time-tracking";
+
+interface TimeTrackingSectionProps {
+  taskId: string;
+  timeEstimate: number | null; // minutes
+  onEstimateChange: (minutes: number | null) => void;
+}
+
+export function TimeTrackingSection({ taskId, timeEstimate, onEstimateChange }: TimeTrackingSectionProps) {
+  const { data: session } = useSession();
+  const { running } = useRunningTimer();
+  const [entries, setEntries] = useState<TimeEntry[]>([]);
+  const [estimateHours, setEstimateHours] = useState("");
+  const [showLogForm, setShowLogForm] = useState(false);
+  const [logDate, setLogDate] = useState("");
+  const [logMinutes, setLogMinutes] = useState("");
+  const [logNote, setLogNote] = useState("");
+  const [error, setError] = useState("");
+
+  useEffect(() => {
+    setEstimateHours(timeEstimate != null ? String(Math.round((timeEstimate / 60) * 100) / 100) : "");
+  }, [timeEstimate]);
+
+  const fetchEntries = useCallback(async () => {
+    try {
+      const res = await fetch(`/api/tasks/${taskId}/time-entries`);
+      if (res.ok) {
+        setEntries(await res.json());
+      }
+    } catch (err) {
+      console.error("Failed to fetch time entries:", err);
+    }
+  }, [taskId]);
+
+  // Reload when the user's timer starts or stops, wherever that happened
+  useEffect(() => {
+    fetchEntries();
+  }, [fetchEntries, running?.id]);
+
+  const saveEstimate = () => {
+    const hours = estimateHours.trim() === "" ? null : Number(estimateHours);
+    if (hours !== null && (isNaN(hours) || hours < 0)) {
+      setError("Estimate must be a positive number of hours");
+      return;
+    }
+    setError("");
+    const minutes = hours === null ? null : Math.round(hours * 60);
+    if (minutes !== timeEstimate) onEstimateChange(minutes);
+  };
+
+  const logTime = async (e: React.FormEvent) => {
+    e.preventDefault();
+    const minutes = parseInt(logMinutes, 10);
+    if (!logDate || !minutes) return;
+
+    setError("");
+    try {
+      // Parse as local date to avoid timezone shift
+      const [year, month, day] = logDate.split("-").map(Number);
+      const res = await fetch(`/api/tasks/${taskId}/time-entries`, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({
+          startedAt: new Date(year, month - 1, day, 9, 0, 0).toISOString(),
+          minutes,
+          note: logNote,
+        }),
+      });
+      const data = await res.json();
+      if (res.ok) {
+        setEntries((prev) => [data, ...prev]);
+        setLogMinutes("");
+        setLogNote("");
+        setShowLogForm(false);
+      } else {
+        setError(data.error || "Failed to log time");
+      }
+    } catch {
+      setError("Failed to log time");
+    }
+  };
+
+  const deleteEntry = async (entryId: string) => {
+    try {
+      const res = await fetch(`/api/time-entries/${entryId}`, { method: "DELETE" });
+      if (res.ok) {
+        setEntries((prev) => prev.filter((e) => e.id !== entryId));
+      }
+    } catch (err) {
+      console.error("Failed to delete time entry:", err);
+    }
+  };
+
+  const loggedSeconds = sumEntrySeconds(entries);
+  const estimateSeconds = timeEstimate != null ? timeEstimate * 60 : null;
+  const isOverEstimate = estimateSeconds != null && estimateSeconds > 0 && loggedSeconds > estimateSeconds;
+
+  return (
+    <div>
+      <div className="flex items-center justify-between mb-2">
+        <label className="block text-sm font-medium text-slate-400">Time Tracking</label>
+        <TaskTimer taskId={taskId} />
+      </div>
+
+      <div className="space-y-3">
+        <div className="flex items-center gap-3">
+          <div className="flex items-center gap-1">
+            <input
+              type="number"
+              min="0"
+              step="0.25"
+              value={estimateHours}
+              onChange={(e) => setEstimateHours(e.target.value)}
+              onBlur={saveEstimate}
+              placeholder="Estimate"
+              className="w-24 bg-slate-700 border border-slate-600 rounded-lg px-3 py-1.5 text-sm text-white placeholder-slate-400 focus:outline-none focus:ring-2 focus:ring-indigo-500"
+            />
+            <span className="text-xs text-slate-400">h estimated</span>
+          </div>
+          <div className="flex-1 text-right text-sm">
+            <span className={clsx("font-medium", isOverEstimate ? "text-red-400" : "text-white")}>
+              {formatDuration(loggedSeconds)}
+            </span>
+            <span className="text-slate-400"> logged</span>
+            {estimateSeconds != null && estimateSeconds > 0 && (
+              <span className="text-slate-400"> of {formatDuration(estimateSeconds)}</span>
+            )}
+          </div>
+        </div>
+
+        {estimateSeconds != null && estimateSeconds > 0 && (
+          <div className="h-1.5 bg-slate-700 rounded-full overflow-hidden">
+            <div
+              className={clsx("h-full rounded-full", isOverEstimate ? "bg-red-500" : "bg-indigo-500")}
+              style={{ width: `${Math.min(100, (loggedSeconds / estimateSeconds) * 100)}%` }}
+            />
+          </div>
+        )}
+
+        {entries.length > 0 && (
+          <div className="space-y-1 max-h-48 overflow-y-auto">
+            {entries.map((entry) => (
+              <div key={entry.id} className="flex items-center gap-2 px-2 py-1 bg-slate-700/50 rounded text-xs group">
+                <span className="text-slate-400 shrink-0">{format(new Date(entry.startedAt), "MMM d")}</span>
+                <span className="text-slate-300 shrink-0">{entry.user?.name || entry.user?.email}</span>
+                <span className="flex-1 text-slate-400 truncate">{entry.note}</span>
+                <span className={clsx("shrink-0 tabular-nums", entry.endedAt ? "text-white" : "text-red-300")}>
+                  {entry.endedAt ? formatDuration(getEntrySeconds(entry)) : "running"}
+                </span>
+                {entry.userId === session?.user?.id && entry.endedAt && (
+                  <button
+                    onClick={() => deleteEntry(entry.id)}
+                    className="opacity-0 group-hover:opacity-100 text-slate-500 hover:text-red-400 transition-all"
+                    title="Delete entry"
+                  >
+                    <svg className="w-3.5 h-3.5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                      <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" />
+                    </svg>
+                  </button>
+                )}
+              </div>
+            ))}
+          </div>
+        )}
+
+        {showLogForm ? (
+          <form onSubmit={logTime} className="flex flex-wrap gap-2">
+            <input
+              type="date"
+              value={logDate}
+              onChange={(e) => setLogDate(e.target.value)}
+              className="bg-slate-700 border border-slate-600 rounded-lg px-2 py-1.5 text-sm text-white focus:outline-none focus:ring-2 focus:ring-indigo-500 [color-scheme:dark]"
+            />
+            <input
+              type="number"
+              min="1"
+              max={MAX_ENTRY_MINUTES}
+              value={logMinutes}
+              onChange={(e) => setLogMinutes(e.target.value)}
+              placeholder="Minutes"
+              className="w-24 bg-slate-700 border border-slate-600 rounded-lg px-2 py-1.5 text-sm text-white placeholder-slate-400 focus:outline-none focus:ring-2 focus:ring-indigo-500"
+            />
+            <input
+              type="text"
+              value={logNote}
+              onChange={(e) => setLogNote(e.target.value)}
+              placeholder="Note (optional)"
+              className="flex-1 min-w-[8rem] bg-slate-700 border border-slate-600 rounded-lg px-2 py-1.5 text-sm text-white placeholder-slate-400 focus:outline-none focus:ring-2 focus:ring-indigo-500"
+            />
+            <button
+              type="submit"
+              disabled={!logDate || !logMinutes}
+              className="px-3 py-1.5 bg-indigo-600 hover:bg-indigo-500 disabled:opacity-50 text-white text-sm rounded-lg transition-colors"
+            >
+              Log
+            </button>
+            <button
+              type="button"
+              onClick={() => setShowLogForm(false)}
+              className="px-2 py-1.5 text-slate-400 hover:text-white text-sm transition-colors"
+            >
+              Cancel
+            </button>
+          </form>
+        ) : (
+          <button
+            onClick={() => {
+              setLogDate(format(new Date(), "yyyy-MM-dd"));
+              setShowLogForm(true);
+            }}
+            className="text-sm text-indigo-400 hover:text-indigo-300"
+          >
+            + Log time manually
+          </button>
+        )}
+
+        {error && <p className="text-red-400 text-xs">{error}</p>}
+      </div>
+    </div>
+  );
+}
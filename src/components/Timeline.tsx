@@ -22,7 +22,7 @@ import {
   eachMonthOfInterval,
 } from "date-fns";
 import clsx from "clsx";
-import type { Task, Column, Priority } from "@/types";
+import type { Task, Column, Priority, BoardSchedule, Baseline } from "@/types";
 
 type TimeScale = "day" | "week" | "month";
 
@@ -35,8 +35,17 @@ interface TimelineProps {
   columns: Column[];
   onTaskClick: (task: Task) => void;
   onTaskMove?: (taskId: string, startDate: Date, dueDate: Date) => void;
+  schedule?: BoardSchedule | null;
+  onAutoScheduleChange?: (enabled: boolean) => void;
+  baseline?: Baseline | null;
 }
 
+// Bar geometry shared by the rows and the dependency arrows
+const ROW_HEADER_WIDTH = 192;
+const BAR_HEIGHT = 32;
+const BAR_SPACING = 36;
+const rowHeightFor = (taskCount: number) => Math.max(48, taskCount * BAR_SPACING + 12);
+
 const priorityColors: Record<Priority, string> = {
   low: "bg-green-500",
   medium: "bg-blue-500",
@@ -51,7 +60,15 @@ const priorityBorderColors: Record<Priority, string> = {
   urgent: "border-red-600",
 };
 
-export function Timeline({ tasks, columns, onTaskClick, onTaskMove }: TimelineProps) {
+export function Timeline({
+  tasks,
+  columns,
+  onTaskClick,
+  onTaskMove,
+  schedule,
+  onAutoScheduleChange,
+  baseline,
+}: TimelineProps) {
   const [timeScale, setTimeScale] = useState<TimeScale>("week");
   const [viewStart, setViewStart] = useState(() => startOfWeek(new Date(), { weekStartsOn: 1 }));
   const [draggingTask, setDraggingTask] = useState<string | null>(null);
@@ -140,26 +157,9 @@ export function Timeline({ tasks, columns, onTaskClick, onTaskMove }: TimelinePr
     return grouped;
   }, [scheduledTasks, columns]);
 
-  // Calculate task position and width
-  const getTaskStyle = useCallback(
-    (task: TimelineTask) => {
-      const taskStart = task.startDate
-        ? new Date(task.startDate)
-        : task.dueDate
-        ? new Date(task.dueDate)
-        : null;
-      const taskEnd = task.dueDate
-        ? new Date(task.dueDate)
-        : task.startDate
-        ? new Date(task.startDate)
-        : null;
-
-      if (!taskStart || !taskEnd) return { left: 0, width: 0, visible: false };
-
-      // Handle dragging state
-      const displayStart = draggingTask === task.id && dragStartDate ? dragStartDate : taskStart;
-      const displayEnd = draggingTask === task.id && dragEndDate ? dragEndDate : taskEnd;
-
+  // Position and width of a date span in the grid
+  const getSpanStyle = useCallback(
+    (displayStart: Date, displayEnd: Date) => {
       let left: number;
       let width: number;
 
@@ -193,9 +193,89 @@ export function Timeline({ tasks, columns, onTaskClick, onTaskMove }: TimelinePr
 
       return { left, width, visible };
     },
-    [viewStart, timeScale, cellWidth, dateRange, draggingTask, dragStartDate, dragEndDate]
+    [viewStart, timeScale, cellWidth, dateRange]
   );
 
+  // Calculate task position and width
+  const getTaskStyle = useCallback(
+    (task: TimelineTask) => {
+      const taskStart = task.startDate
+        ? new Date(task.startDate)
+        : task.dueDate
+        ? new Date(task.dueDate)
+        : null;
+      const taskEnd = task.dueDate
+        ? new Date(task.dueDate)
+        : task.startDate
+        ? new Date(task.startDate)
+        : null;
+
+      if (!taskStart || !taskEnd) return { left: 0, width: 0, visible: false };
+
+      // Handle dragging state
+      const displayStart = draggingTask === task.id && dragStartDate ? dragStartDate : taskStart;
+      const displayEnd = draggingTask === task.id && dragEndDate ? dragEndDate : taskEnd;
+
+      return getSpanStyle(displayStart, displayEnd);
+    },
+    [getSpanStyle, draggingTask, dragStartDate, dragEndDate]
+  );
+
+  // Planned dates from the selected baseline, drawn as ghost bars
+  const baselineDates = useMemo(
+    () => new Map((baseline?.tasks ?? []).map((t) => [t.taskId, t])),
+    [baseline]
+  );
+
+  const getBaselineStyle = (taskId: string) => {
+    const planned = baselineDates.get(taskId);
+    const start = planned?.startDate ?? planned?.dueDate;
+    const end = planned?.dueDate ?? planned?.startDate;
+    if (!start || !end) return null;
+    const style = getSpanStyle(new Date(start), new Date(end));
+    return style.visible ? style : null;
+  };
+
+  const criticalTaskIds = useMemo(() => new Set(schedule?.criticalPath.taskIds ?? []), [schedule]);
+  const criticalDependencyIds = useMemo(() => new Set(schedule?.criticalPath.dependencyIds ?? []), [schedule]);
+
+  // Where each visible bar sits in the grid, for drawing dependency arrows
+  const { arrows, gridHeight } = useMemo(() => {
+    const bars = new Map<string, { left: number; right: number; y: number }>();
+    let rowTop = 0;
+    columns.forEach((column) => {
+      const columnTasks = tasksByColumn.get(column.id) || [];
+      columnTasks.forEach((task, idx) => {
+        const style = getTaskStyle(task);
+        if (!style.visible) return;
+        // Bars sit inside a p-1 wrapper, offset by their own 4px top
+        const left = style.left + 4;
+        bars.set(task.id, {
+          left,
+          right: left + Math.max(40, style.width),
+          y: rowTop + 8 + idx * BAR_SPACING + BAR_HEIGHT / 2,
+        });
+      });
+      rowTop += rowHeightFor(columnTasks.length) + 1; // row border
+    });
+
+    const links = (schedule?.dependencies ?? []).flatMap((dep) => {
+      const from = bars.get(dep.blockedById);
+      const to = bars.get(dep.taskId);
+      if (!from || !to) return [];
+      const bend = Math.max(24, Math.abs(to.left - from.right) / 2);
+      return [
+        {
+          id: dep.id,
+          critical: criticalDependencyIds.has(dep.id),
+          path: `M ${from.right} ${from.y} C ${from.right + bend} ${from.y}, ${to.left - bend} ${to.y}, ${to.left} ${to.y}`,
+        },
+      ];
+    });
+
+    return { arrows: links, gridHeight: rowTop };
+  }, [columns, tasksByColumn, getTaskStyle, schedule, criticalDependencyIds]);
+
   // Get today marker position
   const todayPosition = useMemo(() => {
     const today = new Date();
@@ -424,6 +504,35 @@ export function Timeline({ tasks, columns, onTaskClick, onTaskMove }: TimelinePr
         </div>
 
         <div className="flex items-center gap-2">
+          {baseline && (
+            <span className="flex items-center gap-1.5 text-xs text-slate-400">
+              <span className="w-3 h-3 rounded-sm border border-dashed border-slate-300 bg-slate-400/20" />
+              {baseline.name}
+            </span>
+          )}
+
+          {criticalTaskIds.size > 0 && (
+            <span className="flex items-center gap-1.5 text-xs text-slate-400">
+              <span className="w-3 h-3 rounded-sm ring-2 ring-red-400" />
+              Critical path
+            </span>
+          )}
+
+          {onAutoScheduleChange && (
+            <label
+              className="flex items-center gap-2 px-2 text-sm text-slate-300 cursor-pointer"
+              title="Moving a task pushes the tasks it blocks forward, skipping weekends"
+            >
+              <input
+                type="checkbox"
+                checked={schedule?.autoSchedule ?? false}
+                onChange={(e) => onAutoScheduleChange(e.target.checked)}
+                className="rounded bg-slate-700 border-slate-600"
+              />
+              Auto-schedule
+            </label>
+          )}
+
           {/* Time scale toggle */}
           <div className="flex items-center bg-slate-700 rounded-lg p-0.5">
             {(["day", "week", "month"] as TimeScale[]).map((scale) => (
@@ -517,117 +626,166 @@ export function Timeline({ tasks, columns, onTaskClick, onTaskMove }: TimelinePr
             </div>
 
             {/* Rows by column/status */}
-            {columns.map((column) => {
-              const columnTasks = tasksByColumn.get(column.id) || [];
-              const rowHeight = Math.max(48, columnTasks.length * 36 + 12);
-
-              return (
-                <div
-                  key={column.id}
-                  className="flex border-b border-slate-700/50 hover:bg-slate-800/30"
-                  style={{ minHeight: rowHeight }}
+            <div className="relative">
+              {/* Dependency arrows, drawn beneath the bars */}
+              {arrows.length > 0 && (
+                <svg
+                  className="absolute top-0 pointer-events-none overflow-visible"
+                  style={{ left: ROW_HEADER_WIDTH, width: cellCount * cellWidth, height: gridHeight }}
                 >
-                  {/* Row header */}
-                  <div className="w-48 shrink-0 p-3 border-r border-slate-700 flex items-start gap-2">
-                    <div
-                      className="w-3 h-3 rounded-full shrink-0 mt-0.5"
-                      style={{ backgroundColor: column.color }}
+                  <defs>
+                    <marker id="timeline-arrow" viewBox="0 0 8 8" refX="7" refY="4" markerWidth="6" markerHeight="6" orient="auto">
+                      <path d="M0 0 L8 4 L0 8 z" fill="#94a3b8" />
+                    </marker>
+                    <marker id="timeline-arrow-critical" viewBox="0 0 8 8" refX="7" refY="4" markerWidth="6" markerHeight="6" orient="auto">
+                      <path d="M0 0 L8 4 L0 8 z" fill="#f87171" />
+                    </marker>
+                  </defs>
+                  {arrows.map((arrow) => (
+                    <path
+                      key={arrow.id}
+                      d={arrow.path}
+                      fill="none"
+                      stroke={arrow.critical ? "#f87171" : "#94a3b8"}
+                      strokeWidth={arrow.critical ? 2 : 1.5}
+                      strokeOpacity={arrow.critical ? 1 : 0.7}
+                      markerEnd={`url(#${arrow.critical ? "timeline-arrow-critical" : "timeline-arrow"})`}
                     />
-                    <span className="text-sm text-slate-300">{column.name}</span>
-                    <span className="text-xs text-slate-500">({columnTasks.length})</span>
-                  </div>
+                  ))}
+                </svg>
+              )}
 
-                  {/* Task bars */}
-                  <div className="flex-1 relative">
-                    {/* Grid lines */}
-                    <div className="absolute inset-0 flex pointer-events-none">
-                      {timeCells.map((date, i) => (
-                        <div
-                          key={i}
-                          className="shrink-0 border-r border-slate-700/30"
-                          style={{ width: cellWidth }}
-                        />
-                      ))}
-                    </div>
+              {columns.map((column) => {
+                const columnTasks = tasksByColumn.get(column.id) || [];
+                const rowHeight = rowHeightFor(columnTasks.length);
 
-                    {/* Today marker */}
-                    {todayPosition > 0 && todayPosition < cellCount * cellWidth && (
+                return (
+                  <div
+                    key={column.id}
+                    className="flex border-b border-slate-700/50 hover:bg-slate-800/30"
+                    style={{ minHeight: rowHeight }}
+                  >
+                    {/* Row header */}
+                    <div className="w-48 shrink-0 p-3 border-r border-slate-700 flex items-start gap-2">
                       <div
-                        className="absolute top-0 bottom-0 w-0.5 bg-red-500 z-10 pointer-events-none"
-                        style={{ left: todayPosition }}
+                        className="w-3 h-3 rounded-full shrink-0 mt-0.5"
+                        style={{ backgroundColor: column.color }}
                       />
-                    )}
+                      <span className="text-sm text-slate-300">{column.name}</span>
+                      <span className="text-xs text-slate-500">({columnTasks.length})</span>
+                    </div>
 
                     {/* Task bars */}
-                    <div className="relative p-1">
-                      {columnTasks.map((task, idx) => {
-                        const style = getTaskStyle(task);
-                        if (!style.visible) return null;
-
-                        return (
+                    <div className="flex-1 relative">
+                      {/* Grid lines */}
+                      <div className="absolute inset-0 flex pointer-events-none">
+                        {timeCells.map((date, i) => (
                           <div
-                            key={task.id}
-                            className={clsx(
-                              "absolute h-8 rounded-md flex items-center gap-2 px-2 cursor-pointer group transition-all",
-                              priorityColors[task.priority as Priority],
-                              draggingTask === task.id && "opacity-70 shadow-lg z-30",
-                              "hover:shadow-lg hover:z-20"
-                            )}
-                            style={{
-                              left: style.left,
-                              width: Math.max(40, style.width),
-                              top: idx * 36 + 4,
-                            }}
-                            onClick={() => onTaskClick(task)}
-                          >
-                            {/* Resize handle - start */}
+                            key={i}
+                            className="shrink-0 border-r border-slate-700/30"
+                            style={{ width: cellWidth }}
+                          />
+                        ))}
+                      </div>
+
+                      {/* Today marker */}
+                      {todayPosition > 0 && todayPosition < cellCount * cellWidth && (
+                        <div
+                          className="absolute top-0 bottom-0 w-0.5 bg-red-500 z-10 pointer-events-none"
+                          style={{ left: todayPosition }}
+                        />
+                      )}
+
+                      {/* Task bars */}
+                      <div className="relative p-1">
+                        {/* Baseline ghost bars, behind the live ones */}
+                        {columnTasks.map((task, idx) => {
+                          const planned = getBaselineStyle(task.id);
+                          if (!planned) return null;
+
+                          return (
                             <div
-                              className="absolute left-0 top-0 bottom-0 w-2 cursor-ew-resize opacity-0 group-hover:opacity-100 hover:bg-white/20 rounded-l-md"
-                              onMouseDown={(e) => handleDragStart(e, task, "resize-start")}
+                              key={`baseline-${task.id}`}
+                              className="absolute h-8 rounded-md border border-dashed border-slate-300/70 bg-slate-400/20 pointer-events-none"
+                              style={{
+                                left: planned.left,
+                                width: Math.max(40, planned.width),
+                                top: idx * BAR_SPACING + 4,
+                              }}
                             />
+                          );
+                        })}
+
+                        {columnTasks.map((task, idx) => {
+                          const style = getTaskStyle(task);
+                          if (!style.visible) return null;
 
-                            {/* Task content */}
+                          return (
                             <div
-                              className="flex-1 flex items-center gap-2 overflow-hidden cursor-grab"
-                              onMouseDown={(e) => handleDragStart(e, task, "move")}
+                              key={task.id}
+                              className={clsx(
+                                "absolute h-8 rounded-md flex items-center gap-2 px-2 cursor-pointer group transition-all",
+                                priorityColors[task.priority as Priority],
+                                criticalTaskIds.has(task.id) && "ring-2 ring-red-400",
+                                draggingTask === task.id && "opacity-70 shadow-lg z-30",
+                                "hover:shadow-lg hover:z-20"
+                              )}
+                              style={{
+                                left: style.left,
+                                width: Math.max(40, style.width),
+                                top: idx * BAR_SPACING + 4,
+                              }}
+                              onClick={() => onTaskClick(task)}
                             >
-                              <span className="text-xs text-white font-medium truncate">
-                                {task.title}
-                              </span>
-                            </div>
-
-                            {/* Assignee */}
-                            {task.assignee && (
-                              <div className="shrink-0">
-                                {task.assignee.image ? (
-                                  <Image
-                                    src={task.assignee.image}
-                                    alt={task.assignee.name || ""}
-                                    width={20}
-                                    height={20}
-                                    className="rounded-full border border-white/20"
-                                  />
-                                ) : (
-                                  <div className="w-5 h-5 bg-slate-600 rounded-full flex items-center justify-center text-[10px] text-white border border-white/20">
-                                    {(task.assignee.name || task.assignee.email)?.[0]?.toUpperCase()}
-                                  </div>
-                                )}
+                              {/* Resize handle - start */}
+                              <div
+                                className="absolute left-0 top-0 bottom-0 w-2 cursor-ew-resize opacity-0 group-hover:opacity-100 hover:bg-white/20 rounded-l-md"
+                                onMouseDown={(e) => handleDragStart(e, task, "resize-start")}
+                              />
+
+                              {/* Task content */}
+                              <div
+                                className="flex-1 flex items-center gap-2 overflow-hidden cursor-grab"
+                                onMouseDown={(e) => handleDragStart(e, task, "move")}
+                              >
+                                <span className="text-xs text-white font-medium truncate">
+                                  {task.title}
+                                </span>
                               </div>
-                            )}
 
-                            {/* Resize handle - end */}
-                            <div
-                              className="absolute right-0 top-0 bottom-0 w-2 cursor-ew-resize opacity-0 group-hover:opacity-100 hover:bg-white/20 rounded-r-md"
-                              onMouseDown={(e) => handleDragStart(e, task, "resize-end")}
-                            />
-                          </div>
-                        );
-                      })}
+                              {/* Assignee */}
+                              {task.assignee && (
+                                <div className="shrink-0">
+                                  {task.assignee.image ? (
+                                    <Image
+                                      src={task.assignee.image}
+                                      alt={task.assignee.name || ""}
+                                      width={20}
+                                      height={20}
+                                      className="rounded-full border border-white/20"
+                                    />
+                                  ) : (
+                                    <div className="w-5 h-5 bg-slate-600 rounded-full flex items-center justify-center text-[10px] text-white border border-white/20">
+                                      {(task.assignee.name || task.assignee.email)?.[0]?.toUpperCase()}
+                                    </div>
+                                  )}
+                                </div>
+                              )}
+
+                              {/* Resize handle - end */}
+                              <div
+                                className="absolute right-0 top-0 bottom-0 w-2 cursor-ew-resize opacity-0 group-hover:opacity-100 hover:bg-white/20 rounded-r-md"
+                                onMouseDown={(e) => handleDragStart(e, task, "resize-end")}
+                              />
+                            </div>
+                          );
+                        })}
+                      </div>
                     </div>
                   </div>
-                </div>
-              );
-            })}
+                );
+              })}
+            </div>
           </div>
         </div>
       </div>
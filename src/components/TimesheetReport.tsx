@@ -0,0 +1,187 @@
+"use client";
+
+import { useState, useEffect, useCallback } from "react";
+import Link from "next/link";
+import { format } from "date-fns";
+import clsx from "clsx";
+import type { Timesheet, User } from "@/types";
+import { formatDuration, getEntrySeconds } from "@/lib/time-tracking";
+
+interface TimesheetReportProps {
+  endpoint: string; // board or personal timesheet API
+  users?: Pick<User, "id" | "name" | "email">[]; // offer a person filter on board timesheets
+  showBoard?: boolean;
+}
+
+export function TimesheetReport({ endpoint, users, showBoard = false }: TimesheetReportProps) {
+  const [timesheet, setTimesheet] = useState<Timesheet | null>(null);
+  const [from, setFrom] = useState("");
+  const [to, setTo] = useState("");
+  const [userId, setUserId] = useState("");
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState("");
+
+  const query = new URLSearchParams({
+    ...(from && { from }),
+    ...(to && { to }),
+    ...(userId && { userId }),
+  }).toString();
+
+  const fetchTimesheet = useCallback(async () => {
+    setError("");
+    try {
+      const res = await fetch(`${endpoint}?${query}`);
+      const data = await res.json();
+      if (res.ok) {
+        setTimesheet(data);
+        // Show the server's default range in the pickers
+        setFrom((prev) => prev || data.from);
+        setTo((prev) => prev || data.to);
+      } else {
+        setError(data.error || "Failed to load timesheet");
+      }
+    } catch {
+      setError("Failed to load timesheet");
+    } finally {
+      setLoading(false);
+    }
+  }, [endpoint, query]);
+
+  useEffect(() => {
+    fetchTimesheet();
+  }, [fetchTimesheet]);
+
+  const csvQuery = new URLSearchParams({ ...Object.fromEntries(new URLSearchParams(query)), format: "csv" });
+
+  return (
+    <div className="space-y-6">
+      {/* Range and filters */}
+      <div className="flex flex-wrap items-center gap-3">
+        <input
+          type="date"
+          value={from}
+          onChange={(e) => setFrom(e.target.value)}
+          className="bg-slate-700 border border-slate-600 rounded-lg px-3 py-1.5 text-sm text-white focus:outline-none focus:ring-2 focus:ring-indigo-500 [color-scheme:dark]"
+        />
+        <span className="text-slate-500">–</span>
+        <input
+          type="date"
+          value={to}
+          onChange={(e) => setTo(e.target.value)}
+          className="bg-slate-700 border border-slate-600 rounded-lg px-3 py-1.5 text-sm text-white focus:outline-none focus:ring-2 focus:ring-indigo-500 [color-scheme:dark]"
+        />
+        {users && users.length > 0 && (
+          <select
+            value={userId}
+            onChange={(e) => setUserId(e.target.value)}
+            className="bg-slate-700 border border-slate-600 rounded-lg px-3 py-1.5 text-sm text-white focus:outline-none focus:ring-2 focus:ring-indigo-500"
+          >
+            <option value="">Everyone</option>
+            {users.map((user) => (
+              <option key={user.id} value={user.id}>
+                {user.name || user.email}
+              </option>
+            ))}
+          </select>
+        )}
+        <div className="flex-1" />
+        <a
+          href={`${endpoint}?${csvQuery}`}
+          className="px-3 py-1.5 bg-slate-700 hover:bg-slate-600 text-white text-sm rounded-lg transition-colors"
+        >
+          Export CSV
+        </a>
+      </div>
+
+      {error && (
+        <div className="p-3 bg-red-500/20 border border-red-500/30 rounded text-red-300 text-sm">{error}</div>
+      )}
+
+      {loading ? (
+        <div className="flex justify-center py-16">
+          <div className="animate-spin rounded-full h-8 w-8 border-t-2 border-b-2 border-indigo-500"></div>
+        </div>
+      ) : timesheet && timesheet.entries.length === 0 ? (
+        <div className="text-center py-16 text-slate-500">No time logged in this range</div>
+      ) : (
+        timesheet && (
+          <>
+            <div className="p-4 bg-slate-800 border border-slate-700 rounded-lg">
+              <div className="text-2xl font-semibold text-white">{formatDuration(timesheet.totalSeconds)}</div>
+              <div className="text-sm text-slate-400">
+                logged {format(new Date(`${timesheet.from}T00:00`), "MMM d")} –{" "}
+                {format(new Date(`${timesheet.to}T00:00`), "MMM d, yyyy")}
+              </div>
+            </div>
+
+            {timesheet.byUser.length > 1 && (
+              <section>
+                <h2 className="text-sm font-medium text-slate-400 mb-2">By person</h2>
+                <div className="bg-slate-800 border border-slate-700 rounded-lg divide-y divide-slate-700">
+                  {timesheet.byUser.map(({ user, seconds }) => (
+                    <div key={user.id} className="flex items-center justify-between px-4 py-2 text-sm">
+                      <span className="text-white">{user.name || user.email}</span>
+                      <span className="text-slate-300 tabular-nums">{formatDuration(seconds)}</span>
+                    </div>
+                  ))}
+                </div>
+              </section>
+            )}
+
+            <section>
+              <h2 className="text-sm font-medium text-slate-400 mb-2">By task</h2>
+              <div className="bg-slate-800 border border-slate-700 rounded-lg divide-y divide-slate-700">
+                {timesheet.byTask.map(({ task, seconds }) => {
+                  const estimate = task.timeEstimate != null ? task.timeEstimate * 60 : null;
+                  return (
+                    <div key={task.id} className="flex items-center gap-3 px-4 py-2 text-sm">
+                      <span className="flex-1 min-w-0 truncate text-white">
+                        {task.title}
+                        {showBoard && (
+                          <Link
+                            href={`/boards/${task.column.board.id}`}
+                            className="ml-2 text-xs text-slate-500 hover:text-indigo-300"
+                          >
+                            {task.column.board.name}
+                          </Link>
+                        )}
+                      </span>
+                      {/* Estimates cover the whole task; this range may only hold part of the work */}
+                      {estimate != null && estimate > 0 && (
+                        <span className={clsx("text-xs", seconds > estimate ? "text-red-400" : "text-slate-500")}>
+                          est. {formatDuration(estimate)}
+                        </span>
+                      )}
+                      <span className="text-slate-300 tabular-nums w-20 text-right">{formatDuration(seconds)}</span>
+                    </div>
+                  );
+                })}
+              </div>
+            </section>
+
+            <section>
+              <h2 className="text-sm font-medium text-slate-400 mb-2">Entries</h2>
+              <div className="bg-slate-800 border border-slate-700 rounded-lg divide-y divide-slate-700">
+                {timesheet.entries.map((entry) => (
+                  <div key={entry.id} className="flex items-center gap-3 px-4 py-2 text-sm">
+                    <span className="text-slate-400 w-24 shrink-0">{format(new Date(entry.startedAt), "EEE MMM d")}</span>
+                    <span className="text-slate-300 w-32 shrink-0 truncate">{entry.user?.name || entry.user?.email}</span>
+                    <span className="flex-1 min-w-0 truncate text-white">
+                      {entry.task?.title}
+                      {entry.note && <span className="text-slate-400"> · {entry.note}</span>}
+                    </span>
+                    <span
+                      className={clsx("tabular-nums w-20 text-right", entry.endedAt ? "text-slate-300" : "text-red-300")}
+                    >
+                      {formatDuration(getEntrySeconds(entry))}
+                    </span>
+                  </div>
+                ))}
+              </div>
+            </section>
+          </>
+        )
+      )}
+    </div>
+  );
+}
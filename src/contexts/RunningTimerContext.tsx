@@ -0,0 +1,63 @@
+"use client";
+
+import { createContext, useContext, useState, useEffect, useCallback, useMemo, ReactNode } from "react";
+import { useSession } from "next-auth/react";
+import type { TimeEntry } from "@/types";
+
+interface RunningTimerContextType {
+  // The current user's running timer; there is at most one
+  running: TimeEntry | null;
+  start: (taskId: string) => Promise<{ entry: TimeEntry; stopped: TimeEntry | null }>;
+  stop: (taskId: string, note?: string) => Promise<TimeEntry | null>;
+}
+
+const RunningTimerContext = createContext<RunningTimerContextType | null>(null);
+
+export function RunningTimerProvider({ children }: { children: ReactNode }) {
+  const { status } = useSession();
+  const [running, setRunning] = useState<TimeEntry | null>(null);
+
+  useEffect(() => {
+    if (status !== "authenticated") {
+      setRunning(null);
+      return;
+    }
+    fetch("/api/timer")
+      .then((res) => (res.ok ? res.json() : null))
+      .then(setRunning)
+      .catch((err) => console.error("Failed to fetch running timer:", err));
+  }, [status]);
+
+  const start = useCallback(async (taskId: string) => {
+    const res = await fetch(`/api/tasks/${taskId}/timer/start`, { method: "POST" });
+    const data = await res.json();
+    if (!res.ok) throw new Error(data.error || "Failed to start timer");
+    setRunning(data.entry);
+    return data;
+  }, []);
+
+  const stop = useCallback(async (taskId: string, note?: string) => {
+    const res = await fetch(`/api/tasks/${taskId}/timer/stop`, {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify(note !== undefined ? { note } : {}),
+    });
+    const data = await res.json();
+    // A 404 means the timer was already stopped elsewhere
+    if (!res.ok && res.status !== 404) throw new Error(data.error || "Failed to stop timer");
+    setRunning(null);
+    return res.ok ? data : null;
+  }, []);
+
+  const value = useMemo(() => ({ running, start, stop }), [running, start, stop]);
+
+  return <RunningTimerContext.Provider value={value}>{children}</RunningTimerContext.Provider>;
+}
+
+export function useRunningTimer() {
+  const context = useContext(RunningTimerContext);
+  if (!context) {
+    throw new Error("useRunningTimer must be used within RunningTimerProvider");
+  }
+  return context;
+}
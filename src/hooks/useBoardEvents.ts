@@ -1,107 +1,168 @@
 "use client";
 
-import { useEffect, useRef, useCallback, useState } from "react";
-import type { Task, Column } from "@/types";
+import { useEffect, useRef, useState } from "react";
+import type { Task, Column, ColumnLoad, TaskPresenceActivity } from "@/types";
 
 // Board event types (matching server)
 export type BoardEvent =
   | { type: "task:created"; task: Task; userId: string }
   | { type: "task:updated"; task: Task; userId: string }
   | { type: "task:deleted"; taskId: string; userId: string }
-  | { type: "task:moved"; taskId: string; columnId: string; position: number; userId: string }
+  | { type: "task:moved"; taskId: string; columnId: string; position: number; userId: string; loads?: ColumnLoad[] }
   | { type: "column:created"; column: Column; userId: string }
-  | { type: "column:updated"; column: Column; userId: string }
+  | { type: "column:updated"; column: Column; userId: string; load?: ColumnLoad }
   | { type: "column:deleted"; columnId: string; userId: string }
   | { type: "column:reordered"; columnIds: string[]; userId: string }
   | { type: "user:joined"; userId: string; userName: string }
   | { type: "user:left"; userId: string }
-  | { type: "init"; connectedUsers: Array<{ userId: string; userName: string }> };
+  | { type: "init"; connectedUsers: Array<{ userId: string; userName: string }> }
+  | { type: "presence"; connectedUsers: Array<{ userId: string; userName: string }> }
+  // Collaborative description editing, sent without replay; updates and positions are base64 Yjs encodings
+  | { type: "description:updated"; taskId: string; docId: string; update: string; clientId: number; userId: string }
+  | { type: "description:reset"; taskId: string; userId: string }
+  | { type: "description:cursor"; taskId: string; docId: string; clientId: number; userId: string; anchor: string | null; head: string | null }
+  // Someone's open task and what they're doing in it; activity is null once they close it
+  | { type: "task:presence"; taskId: string; sessionId: string; userId: string; userName: string; activity: TaskPresenceActivity | null }
+  // Events were missed that the server can no longer replay; refetch
+  | { type: "resync" };
 
 interface UseBoardEventsOptions {
   onEvent: (event: BoardEvent) => void;
   enabled?: boolean;
 }
 
-export function useBoardEvents(
-  boardId: string,
-  { onEvent, enabled = true }: UseBoardEventsOptions
-) {
-  const eventSourceRef = useRef<EventSource | null>(null);
-  const reconnectTimeoutRef = useRef<ReturnType<typeof setTimeout> | null>(null);
-  // Use ref for callback to avoid reconnection loops when callback identity changes
-  const onEventRef = useRef(onEvent);
-  const [isConnected, setIsConnected] = useState(false);
-  const [connectedUsers, setConnectedUsers] = useState<Array<{ userId: string; userName: string }>>([]);
+type ConnectedUsers = Array<{ userId: string; userName: string }>;
 
-  // Keep callback ref up to date
-  useEffect(() => {
-    onEventRef.current = onEvent;
-  }, [onEvent]);
+/**
+ * A board's event stream, shared by every hook on the page listening to
+ * that board so they don't each hold a connection open
+ */
+class BoardStream {
+  private eventSource: EventSource | null = null;
+  private reconnectTimeout: ReturnType<typeof setTimeout> | null = null;
+  // Last event received, so a reconnect picks up where the stream left off
+  private lastEventId: string | null = null;
+  private eventListeners = new Set<(event: BoardEvent) => void>();
+  private stateListeners = new Set<() => void>();
+  isConnected = false;
+  connectedUsers: ConnectedUsers = [];
 
-  const connect = useCallback(() => {
-    if (!enabled || !boardId) return;
+  constructor(private boardId: string) {}
 
-    // Clean up existing connection
-    if (eventSourceRef.current) {
-      eventSourceRef.current.close();
-    }
-    if (reconnectTimeoutRef.current) {
-      clearTimeout(reconnectTimeoutRef.current);
+  subscribe(onEvent: (event: BoardEvent) => void, onStateChange: () => void): () => void {
+    this.eventListeners.add(onEvent);
+    this.stateListeners.add(onStateChange);
+    if (!this.eventSource && !this.reconnectTimeout) {
+      this.connect();
     }
 
-    const eventSource = new EventSource(`/api/boards/${boardId}/events`);
-    eventSourceRef.current = eventSource;
+    return () => {
+      this.eventListeners.delete(onEvent);
+      this.stateListeners.delete(onStateChange);
+      if (this.eventListeners.size === 0) {
+        this.close();
+      }
+    };
+  }
+
+  private setState(isConnected: boolean, connectedUsers: ConnectedUsers): void {
+    this.isConnected = isConnected;
+    this.connectedUsers = connectedUsers;
+    this.stateListeners.forEach((listener) => listener());
+  }
+
+  private connect(): void {
+    const eventSource = new EventSource(
+      `/api/boards/${this.boardId}/events${this.lastEventId ? `?lastEventId=${encodeURIComponent(this.lastEventId)}` : ""}`
+    );
+    this.eventSource = eventSource;
 
     eventSource.onopen = () => {
-      setIsConnected(true);
+      this.setState(true, this.connectedUsers);
     };
 
     eventSource.onmessage = (e) => {
       try {
         const event: BoardEvent = JSON.parse(e.data);
-        
-        // Handle init event for connected users
-        if (event.type === "init") {
-          setConnectedUsers(event.connectedUsers);
+        if (e.lastEventId) {
+          this.lastEventId = e.lastEventId;
+        }
+
+        // Handle init and periodic presence events for connected users
+        if (event.type === "init" || event.type === "presence") {
+          this.setState(this.isConnected, event.connectedUsers);
         } else if (event.type === "user:joined") {
-          setConnectedUsers((prev) => {
-            if (prev.some((u) => u.userId === event.userId)) return prev;
-            return [...prev, { userId: event.userId, userName: event.userName }];
-          });
+          if (!this.connectedUsers.some((u) => u.userId === event.userId)) {
+            this.setState(this.isConnected, [...this.connectedUsers, { userId: event.userId, userName: event.userName }]);
+          }
         } else if (event.type === "user:left") {
-          setConnectedUsers((prev) => prev.filter((u) => u.userId !== event.userId));
+          this.setState(this.isConnected, this.connectedUsers.filter((u) => u.userId !== event.userId));
         }
-        
-        // Use ref to always get latest callback without causing reconnects
-        onEventRef.current(event);
+
+        this.eventListeners.forEach((listener) => listener(event));
       } catch (error) {
         console.error("Failed to parse SSE event:", error);
       }
     };
 
     eventSource.onerror = () => {
-      setIsConnected(false);
       eventSource.close();
+      this.eventSource = null;
+      this.setState(false, this.connectedUsers);
 
       // Reconnect after 3 seconds
-      reconnectTimeoutRef.current = setTimeout(() => {
-        connect();
+      this.reconnectTimeout = setTimeout(() => {
+        this.reconnectTimeout = null;
+        this.connect();
       }, 3000);
     };
-  }, [boardId, enabled]); // Removed onEvent - using ref instead
+  }
 
+  private close(): void {
+    this.eventSource?.close();
+    this.eventSource = null;
+    if (this.reconnectTimeout) {
+      clearTimeout(this.reconnectTimeout);
+      this.reconnectTimeout = null;
+    }
+    boardStreams.delete(this.boardId);
+  }
+}
+
+const boardStreams = new Map<string, BoardStream>();
+
+export function useBoardEvents(
+  boardId: string,
+  { onEvent, enabled = true }: UseBoardEventsOptions
+) {
+  // Use ref for callback to avoid resubscribing when callback identity changes
+  const onEventRef = useRef(onEvent);
+  const [isConnected, setIsConnected] = useState(false);
+  const [connectedUsers, setConnectedUsers] = useState<ConnectedUsers>([]);
+
+  // Keep callback ref up to date
   useEffect(() => {
-    connect();
+    onEventRef.current = onEvent;
+  }, [onEvent]);
 
-    return () => {
-      if (eventSourceRef.current) {
-        eventSourceRef.current.close();
-      }
-      if (reconnectTimeoutRef.current) {
-        clearTimeout(reconnectTimeoutRef.current);
-      }
+  useEffect(() => {
+    if (!enabled || !boardId) return;
+
+    let stream = boardStreams.get(boardId);
+    if (!stream) {
+      stream = new BoardStream(boardId);
+      boardStreams.set(boardId, stream);
+    }
+
+    const current = stream;
+    const syncState = () => {
+      setIsConnected(current.isConnected);
+      setConnectedUsers(current.connectedUsers);
     };
-  }, [connect]);
+    syncState();
+
+    return current.subscribe((event) => onEventRef.current(event), syncState);
+  }, [boardId, enabled]);
 
   return { isConnected, connectedUsers };
 }
@@ -15,6 +15,8 @@ export interface FilterState {
   dueDateFilter: DueDateFilter;
   labelIds: string[];
   dependencyFilter: DependencyFilter;
+  sprintFilter: string; // "all", "backlog" (no sprint) or a sprint id
+  epicFilter: string;   // "all", "none" or an epic id
 }
 
 const DEFAULT_FILTERS: FilterState = {
@@ -24,6 +26,8 @@ const DEFAULT_FILTERS: FilterState = {
   dueDateFilter: "all",
   labelIds: [],
   dependencyFilter: "all",
+  sprintFilter: "all",
+  epicFilter: "all",
 };
 
 export function useFilters() {
@@ -42,8 +46,10 @@ export function useFilters() {
     const dueDateFilter = (searchParams.get("due") || "all") as DueDateFilter;
     const labelIds = searchParams.get("labels")?.split(",").filter(Boolean) || [];
     const dependencyFilter = (searchParams.get("deps") || "all") as DependencyFilter;
+    const sprintFilter = searchParams.get("sprint") || "all";
+    const epicFilter = searchParams.get("epic") || "all";
     
-    return { search, assigneeIds, priorities, dueDateFilter, labelIds, dependencyFilter };
+    return { search, assigneeIds, priorities, dueDateFilter, labelIds, dependencyFilter, sprintFilter, epicFilter };
   }, [searchParams]);
 
   // Debounce search
@@ -97,6 +103,18 @@ export function useFilters() {
       params.delete("deps");
     }
     
+    if (updatedFilters.sprintFilter !== "all") {
+      params.set("sprint", updatedFilters.sprintFilter);
+    } else {
+      params.delete("sprint");
+    }
+    
+    if (updatedFilters.epicFilter !== "all") {
+      params.set("epic", updatedFilters.epicFilter);
+    } else {
+      params.delete("epic");
+    }
+    
     const queryString = params.toString();
     router.replace(`${pathname}${queryString ? `?${queryString}` : ""}`, { scroll: false });
   }, [filters, pathname, router, searchParams]);
@@ -114,6 +132,8 @@ export function useFilters() {
     if (filters.dueDateFilter !== "all") count++;
     if (filters.labelIds.length > 0) count++;
     if (filters.dependencyFilter !== "all") count++;
+    if (filters.sprintFilter !== "all") count++;
+    if (filters.epicFilter !== "all") count++;
     return count;
   }, [filters]);
 
@@ -195,6 +215,20 @@ export function useFilters() {
         }
       }
 
+      // Sprint filter
+      if (filters.sprintFilter === "backlog") {
+        if (task.sprintId) return false;
+      } else if (filters.sprintFilter !== "all" && task.sprintId !== filters.sprintFilter) {
+        return false;
+      }
+
+      // Epic filter
+      if (filters.epicFilter === "none") {
+        if (task.epicId) return false;
+      } else if (filters.epicFilter !== "all" && task.epicId !== filters.epicFilter) {
+        return false;
+      }
+
       return true;
     });
   }, [debouncedSearch, filters]);
@@ -0,0 +1,352 @@
+"use client";
+
+import { useCallback, useEffect, useMemo, useRef, useState } from "react";
+import * as Y from "yjs";
+import { useBoardEvents, BoardEvent } from "./useBoardEvents";
+import {
+  DESCRIPTION_TEXT,
+  applyTextEdit,
+  decodeTextPosition,
+  encodeTextPosition,
+  fromBase64,
+  toBase64,
+} from "@/lib/collab-text";
+
+// Local edits are gathered up and sent this often
+const FLUSH_DELAY_MS = 300;
+const RETRY_DELAY_MS = 2000;
+
+// Cursor moves are sent once the caret rests this long, and resent while the editor has focus
+const CURSOR_DELAY_MS = 100;
+const CURSOR_REFRESH_MS = 15 * 1000;
+// Remote cursors not heard from in this long are dropped
+const CURSOR_TTL_MS = 45 * 1000;
+
+// Origin of updates that came from the server, so they aren't sent back
+const REMOTE = "remote";
+
+interface SharedCursor {
+  clientId: number;
+  userId: string;
+  anchor: string;
+  head: string;
+  seenAt: number;
+}
+
+export interface RemoteCursor {
+  clientId: number;
+  userId: string;
+  anchor: number;
+  head: number;
+}
+
+export interface TextSelection {
+  anchor: number;
+  head: number;
+}
+
+/**
+ * One editor's connection to a task's description doc: loads it, sends
+ * local edits in batches and merges in everyone else's
+ */
+class DescriptionSync {
+  doc: Y.Doc | null = null;
+  docId: string | null = null;
+  private pending: Uint8Array[] = [];
+  private flushTimer: ReturnType<typeof setTimeout> | null = null;
+  private flushing = false;
+  private opening: Promise<void> | null = null;
+  private closed = false;
+
+  constructor(
+    private taskId: string,
+    private onText: (text: string) => void
+  ) {}
+
+  get text(): Y.Text | null {
+    return this.doc?.getText(DESCRIPTION_TEXT) ?? null;
+  }
+
+  /**
+   * Load the doc, or catch up on the current one. If the server has
+   * replaced it meanwhile, unsent local edits are dropped.
+   */
+  open(): Promise<void> {
+    this.opening ??= this.load().finally(() => {
+      this.opening = null;
+    });
+    return this.opening;
+  }
+
+  private async load(): Promise<void> {
+    try {
+      const res = await fetch(`/api/tasks/${this.taskId}/description`);
+      if (!res.ok || this.closed) return;
+      const { docId, state } = await res.json();
+
+      if (this.doc && this.docId === docId) {
+        Y.applyUpdate(this.doc, fromBase64(state), REMOTE);
+        return;
+      }
+
+      this.doc?.destroy();
+      this.pending = [];
+      const doc = new Y.Doc();
+      Y.applyUpdate(doc, fromBase64(state), REMOTE);
+      doc.on("update", (update: Uint8Array, origin: unknown) => {
+        if (origin === REMOTE) return;
+        this.pending.push(update);
+        this.scheduleFlush(FLUSH_DELAY_MS);
+      });
+      const text = doc.getText(DESCRIPTION_TEXT);
+      text.observe(() => this.onText(text.toString()));
+
+      this.doc = doc;
+      this.docId = docId;
+      this.onText(text.toString());
+    } catch (error) {
+      console.error("Failed to load description:", error);
+    }
+  }
+
+  /**
+   * Merge an update from someone else. One that depends on updates this
+   * editor never got means it missed some, so the whole doc is fetched.
+   */
+  receive(docId: string, update: string): void {
+    if (!this.doc) return;
+    if (docId !== this.docId) {
+      this.open();
+      return;
+    }
+    Y.applyUpdate(this.doc, fromBase64(update), REMOTE);
+    if (this.doc.store.pendingStructs || this.doc.store.pendingDs) {
+      this.open();
+    }
+  }
+
+  edit(next: string): void {
+    const text = this.text;
+    if (!text) return;
+    const previous = text.toString();
+    if (previous !== next) {
+      this.doc!.transact(() => applyTextEdit(text, previous, next));
+    }
+  }
+
+  sendCursor(selection: TextSelection | null, keepalive = false): void {
+    const text = this.text;
+    if (!text || !this.docId) return;
+    fetch(`/api/tasks/${this.taskId}/description/cursor`, {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      keepalive,
+      body: JSON.stringify({
+        docId: this.docId,
+        clientId: this.doc!.clientID,
+        anchor: selection && encodeTextPosition(text, selection.anchor),
+        head: selection && encodeTextPosition(text, selection.head),
+      }),
+    }).catch(() => {
+      // Cursors are refreshed anyway
+    });
+  }
+
+  /**
+   * Send what's left and let go of the doc
+   */
+  close(): void {
+    this.closed = true;
+    if (this.flushTimer) clearTimeout(this.flushTimer);
+    if (this.doc && this.docId && this.pending.length > 0) {
+      this.post(Y.mergeUpdates(this.pending), true).catch(() => {});
+    }
+    this.sendCursor(null, true);
+    this.doc?.destroy();
+  }
+
+  private scheduleFlush(delay: number): void {
+    if (this.flushTimer || this.closed) return;
+    this.flushTimer = setTimeout(() => {
+      this.flushTimer = null;
+      this.flush();
+    }, delay);
+  }
+
+  private async flush(): Promise<void> {
+    if (this.flushing || this.pending.length === 0) return;
+    const update = Y.mergeUpdates(this.pending);
+    this.pending = [];
+    this.flushing = true;
+
+    try {
+      const res = await this.post(update, false);
+      if (res.status >= 400 && res.status < 500) {
+        // Replaced, or not ours to edit: show what the server has
+        const data = await res.json().catch(() => ({}));
+        if (data.code !== "DOC_RESET") console.error("Description edit refused:", data.error);
+        this.docId = null;
+        await this.open();
+      } else if (!res.ok) {
+        throw new Error(`Status ${res.status}`);
+      }
+    } catch (error) {
+      console.error("Failed to send description edit, retrying:", error);
+      this.pending.unshift(update);
+      this.flushing = false;
+      this.scheduleFlush(RETRY_DELAY_MS);
+      return;
+    }
+
+    this.flushing = false;
+    if (this.pending.length > 0) this.scheduleFlush(0);
+  }
+
+  private post(update: Uint8Array, keepalive: boolean): Promise<Response> {
+    return fetch(`/api/tasks/${this.taskId}/description`, {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      keepalive,
+      body: JSON.stringify({ docId: this.docId, update: toBase64(update), clientId: this.doc!.clientID }),
+    });
+  }
+}
+
+/**
+ * Edit a task's description together with everyone who has it open.
+ *
+ * The text is a Yjs doc kept by the server; edits and cursor positions go
+ * out through the API and come back to everyone on the board event stream.
+ */
+export function useSharedDescription(taskId: string, boardId: string) {
+  const syncRef = useRef<DescriptionSync | null>(null);
+  const selectionRef = useRef<{ anchor: string; head: string } | null>(null);
+  const cursorTimerRef = useRef<ReturnType<typeof setTimeout> | null>(null);
+  const connectedRef = useRef(false);
+  const [text, setText] = useState("");
+  const [sharedCursors, setSharedCursors] = useState<SharedCursor[]>([]);
+
+  useEffect(() => {
+    const sync = new DescriptionSync(taskId, setText);
+    syncRef.current = sync;
+    selectionRef.current = null;
+    setSharedCursors([]);
+    sync.open();
+
+    // Drop cursors of editors that went away without saying so
+    const prune = setInterval(() => {
+      setSharedCursors((prev) => {
+        const live = prev.filter((cursor) => Date.now() - cursor.seenAt < CURSOR_TTL_MS);
+        return live.length === prev.length ? prev : live;
+      });
+    }, CURSOR_TTL_MS / 3);
+
+    return () => {
+      clearInterval(prune);
+      if (cursorTimerRef.current) clearTimeout(cursorTimerRef.current);
+      cursorTimerRef.current = null;
+      sync.close();
+      syncRef.current = null;
+    };
+  }, [taskId]);
+
+  const handleEvent = useCallback(
+    (event: BoardEvent) => {
+      const sync = syncRef.current;
+      if (!sync) return;
+
+      switch (event.type) {
+        case "init":
+          // A reconnect may have missed edits; the first connect is covered by open()
+          if (connectedRef.current) sync.open();
+          connectedRef.current = true;
+          break;
+        case "resync":
+          sync.open();
+          break;
+        case "description:updated":
+          if (event.taskId === taskId && event.clientId !== sync.doc?.clientID) {
+            sync.receive(event.docId, event.update);
+          }
+          break;
+        case "description:reset":
+          if (event.taskId === taskId) sync.open();
+          break;
+        case "description:cursor": {
+          if (event.taskId !== taskId || event.docId !== sync.docId || event.clientId === sync.doc?.clientID) break;
+          const { clientId, userId, anchor, head } = event;
+          setSharedCursors((prev) => {
+            const others = prev.filter((cursor) => cursor.clientId !== clientId);
+            return anchor && head ? [...others, { clientId, userId, anchor, head, seenAt: Date.now() }] : others;
+          });
+          break;
+        }
+        case "user:left":
+          setSharedCursors((prev) => prev.filter((cursor) => cursor.userId !== event.userId));
+          break;
+      }
+    },
+    [taskId]
+  );
+
+  const { connectedUsers } = useBoardEvents(boardId, { onEvent: handleEvent });
+
+  // Where everyone else's cursors are in the current text
+  const cursors = useMemo<RemoteCursor[]>(() => {
+    const doc = syncRef.current?.doc;
+    if (!doc) return [];
+    return sharedCursors.flatMap((cursor) => {
+      const anchor = decodeTextPosition(doc, cursor.anchor);
+      const head = decodeTextPosition(doc, cursor.head);
+      if (anchor === null || head === null) return [];
+      return [{ clientId: cursor.clientId, userId: cursor.userId, anchor: Math.min(anchor, text.length), head: Math.min(head, text.length) }];
+    });
+    // text is a dependency because positions move as it changes
+  }, [sharedCursors, text]);
+
+  const edit = useCallback((next: string) => {
+    syncRef.current?.edit(next);
+  }, []);
+
+  // Remember the local selection, and share it unless it's being cleared
+  const select = useCallback((selection: TextSelection | null) => {
+    const sync = syncRef.current;
+    const shared = sync?.text;
+    if (!sync || !shared) return;
+
+    selectionRef.current = selection && {
+      anchor: encodeTextPosition(shared, selection.anchor),
+      head: encodeTextPosition(shared, selection.head),
+    };
+
+    if (cursorTimerRef.current) clearTimeout(cursorTimerRef.current);
+    if (!selection) {
+      cursorTimerRef.current = null;
+      sync.sendCursor(null);
+      return;
+    }
+    const send = () => {
+      const current = selectionRef.current;
+      const doc = syncRef.current?.doc;
+      if (!current || !doc) return;
+      syncRef.current!.sendCursor({
+        anchor: decodeTextPosition(doc, current.anchor) ?? 0,
+        head: decodeTextPosition(doc, current.head) ?? 0,
+      });
+      cursorTimerRef.current = setTimeout(send, CURSOR_REFRESH_MS);
+    };
+    cursorTimerRef.current = setTimeout(send, CURSOR_DELAY_MS);
+  }, []);
+
+  // The local selection in the current text, after other people's edits moved it
+  const localSelection = useCallback((): TextSelection | null => {
+    const doc = syncRef.current?.doc;
+    const selection = selectionRef.current;
+    if (!doc || !selection) return null;
+    const anchor = decodeTextPosition(doc, selection.anchor);
+    const head = decodeTextPosition(doc, selection.head);
+    return anchor === null || head === null ? null : { anchor, head };
+  }, []);
+
+  return { text, cursors, connectedUsers, edit, select, localSelection };
+}
@@ -0,0 +1,136 @@
+"use client";
+
+import { useCallback, useEffect, useMemo, useRef, useState } from "react";
+import { useSession } from "next-auth/react";
+import { nanoid } from "nanoid";
+import { useBoardEvents, BoardEvent } from "./useBoardEvents";
+import type { TaskPresenceActivity, TaskViewer } from "@/types";
+
+// An open task is announced this often; sessions not heard from in three beats are dropped
+const HEARTBEAT_MS = 15 * 1000;
+const PRESENCE_TTL_MS = 3 * HEARTBEAT_MS;
+
+// When someone is in a task more than one way (e.g. in two tabs), the busiest wins
+const activityRank: Record<TaskPresenceActivity, number> = {
+  viewing: 0,
+  commenting: 1,
+  editing: 2,
+};
+
+interface PresenceSession extends TaskViewer {
+  taskId: string;
+  seenAt: number;
+}
+
+/**
+ * Who else has which of the board's tasks open and what they're doing in
+ * them, by task id
+ */
+export function useTaskPresence(boardId: string, enabled = true): Map<string, TaskViewer[]> {
+  const { data: session } = useSession();
+  const currentUserId = session?.user?.id;
+  const [sessions, setSessions] = useState<Map<string, PresenceSession>>(new Map());
+
+  const handleEvent = useCallback(
+    (event: BoardEvent) => {
+      if (event.type === "task:presence") {
+        setSessions((prev) => {
+          const next = new Map(prev);
+          if (event.activity) {
+            next.set(event.sessionId, {
+              taskId: event.taskId,
+              userId: event.userId,
+              userName: event.userName,
+              activity: event.activity,
+              seenAt: Date.now(),
+            });
+          } else {
+            next.delete(event.sessionId);
+          }
+          return next;
+        });
+      } else if (event.type === "user:left") {
+        setSessions((prev) => new Map(Array.from(prev).filter(([, s]) => s.userId !== event.userId)));
+      }
+    },
+    []
+  );
+
+  useBoardEvents(boardId, { onEvent: handleEvent, enabled: enabled && !!boardId });
+
+  // Clear out sessions whose heartbeats stopped, e.g. a closed laptop
+  useEffect(() => {
+    const timer = setInterval(() => {
+      setSessions((prev) => {
+        const live = Array.from(prev).filter(([, s]) => Date.now() - s.seenAt < PRESENCE_TTL_MS);
+        return live.length === prev.size ? prev : new Map(live);
+      });
+    }, HEARTBEAT_MS);
+    return () => clearInterval(timer);
+  }, []);
+
+  return useMemo(() => {
+    const byTask = new Map<string, Map<string, TaskViewer>>();
+    sessions.forEach(({ taskId, userId, userName, activity }) => {
+      // Our own other tabs aren't news
+      if (userId === currentUserId) return;
+      const viewers = byTask.get(taskId) ?? new Map<string, TaskViewer>();
+      const existing = viewers.get(userId);
+      if (!existing || activityRank[activity] > activityRank[existing.activity]) {
+        viewers.set(userId, { userId, userName, activity });
+      }
+      byTask.set(taskId, viewers);
+    });
+    return new Map(Array.from(byTask, ([taskId, viewers]) => [taskId, Array.from(viewers.values())]));
+  }, [sessions, currentUserId]);
+}
+
+/**
+ * Let everyone on the board know this task is open here and what's being
+ * done in it, until it's closed
+ */
+export function useAnnounceTaskPresence(boardId: string, taskId: string | null, activity: TaskPresenceActivity) {
+  const sessionId = useMemo(() => nanoid(), []);
+  const activityRef = useRef(activity);
+
+  useEffect(() => {
+    activityRef.current = activity;
+  }, [activity]);
+
+  const send = useCallback(
+    (id: string, value: TaskPresenceActivity | null, keepalive = false) => {
+      fetch(`/api/tasks/${id}/presence`, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        keepalive,
+        body: JSON.stringify({ sessionId, activity: value }),
+      }).catch(() => {
+        // The next heartbeat tries again
+      });
+    },
+    [sessionId]
+  );
+
+  // Heartbeat while open, and say goodbye on close
+  useEffect(() => {
+    if (!taskId) return;
+    const timer = setInterval(() => send(taskId, activityRef.current), HEARTBEAT_MS);
+    return () => {
+      clearInterval(timer);
+      send(taskId, null, true);
+    };
+  }, [taskId, send]);
+
+  useEffect(() => {
+    if (taskId) send(taskId, activity);
+  }, [taskId, activity, send]);
+
+  // People who just arrived would otherwise wait for the next heartbeat
+  const handleEvent = useCallback(
+    (event: BoardEvent) => {
+      if (event.type === "user:joined" && taskId) send(taskId, activityRef.current);
+    },
+    [taskId, send]
+  );
+  useBoardEvents(boardId, { onEvent: handleEvent, enabled: !!boardId && !!taskId });
+}
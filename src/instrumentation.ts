@@ -0,0 +1,9 @@
+/**
+ * Start background jobs when the server boots, on the Node.js runtime only
+ */
+export async function register() {
+  if (process.env.NEXT_RUNTIME === "nodejs") {
+    const { ensureScheduler } = await import("./lib/scheduler");
+    ensureScheduler();
+  }
+}
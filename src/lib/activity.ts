@@ -1,5 +1,6 @@
 import { prisma } from "./prisma";
 import { Prisma } from "@prisma/client";
+import { getEventBus, subscribeWithReplay } from "./event-bus";
 
 // Types for activity data
 export interface ActivityData {
@@ -28,53 +29,31 @@ export interface ActivityData {
   };
 }
 
-// Store active connections for activity stream
-type SendFunction = (data: string) => void;
-const activitySubscribers = new Map<string, Set<SendFunction>>();
+// Activities go over the event bus so every instance's streams see them
+type SendFunction = (data: string, id: number | null) => void;
+
+function activityChannel(boardId: string): string {
+  return `activity:${boardId}`;
+}
 
 /**
- * Subscribe to activity events for specific board IDs
+ * Subscribe to activity events for specific board IDs, replaying any missed
+ * after lastEventId. onResync is called when they can't all be replayed.
  */
 export function subscribeToActivity(
   boardIds: string[],
-  send: SendFunction
+  send: SendFunction,
+  lastEventId: number | null = null,
+  onResync: () => void = () => {}
 ): () => void {
-  boardIds.forEach((boardId) => {
-    if (!activitySubscribers.has(boardId)) {
-      activitySubscribers.set(boardId, new Set());
-    }
-    activitySubscribers.get(boardId)!.add(send);
-  });
-
-  // Return unsubscribe function
-  return () => {
-    boardIds.forEach((boardId) => {
-      const subscribers = activitySubscribers.get(boardId);
-      if (subscribers) {
-        subscribers.delete(send);
-        if (subscribers.size === 0) {
-          activitySubscribers.delete(boardId);
-        }
-      }
-    });
-  };
+  return subscribeWithReplay(boardIds.map(activityChannel), lastEventId, send, onResync);
 }
 
 /**
  * Emit an activity to all subscribers of the given board
  */
 export function emitActivityEvent(boardId: string, activity: ActivityData): void {
-  const subscribers = activitySubscribers.get(boardId);
-  if (!subscribers) return;
-
-  const data = JSON.stringify(activity);
-  subscribers.forEach((send) => {
-    try {
-      send(data);
-    } catch (e) {
-      console.error("Error sending activity:", e);
-    }
-  });
+  getEventBus().publish(activityChannel(boardId), JSON.stringify(activity));
 }
 
 /**
@@ -141,6 +120,10 @@ export async function createAndEmitActivity(
     };
 
     emitActivityEvent(activity.task.column.board.id, activityData);
+
+    // Loaded lazily: automations log activities themselves
+    const { handleActivity } = await import("./automations");
+    handleActivity(activity.task.column.board.id, taskId, action, details);
   } catch (error) {
     console.error("Failed to create/emit activity:", error);
     // Don't throw - activity logging shouldn't break the main operation
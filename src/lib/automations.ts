@@ -0,0 +1,619 @@
+import { AsyncLocalStorage } from "async_hooks";
+import { Prisma } from "@prisma/client";
+import { prisma } from "./prisma";
+import { emitBoardEvent, BoardEvent } from "./events";
+import { createAndEmitActivity } from "./activity";
+import { createNotification, notifyAssigned } from "./notifications";
+import { checkWipLimits, getColumnLoads } from "./wip-limits";
+import { getCategoryTaskUpdates, isTaskFinished } from "./column-categories";
+import { checkDependencyPolicy, isGatedChange, notifyBlockersFinished } from "./dependencies";
+import type {
+  AutomationAction,
+  AutomationCondition,
+  AutomationRunStatus,
+  AutomationTriggerConfig,
+  AutomationTriggerType,
+  Priority,
+} from "@/types";
+
+export const AUTOMATION_TRIGGERS: AutomationTriggerType[] = [
+  "task.created",
+  "task.moved",
+  "label.added",
+  "assignee.changed",
+  "due.passed",
+];
+
+const PRIORITIES: Priority[] = ["low", "medium", "high", "urgent"];
+
+// Board events emitted by automations use this as the acting user so every
+// client applies them (clients skip events carrying their own user id)
+export const AUTOMATION_USER_ID = "automation";
+
+// Automations triggered by other automations stop after this many hops
+const MAX_AUTOMATION_DEPTH = 3;
+
+// How often the scheduler checks overdue tasks for "due.passed" automations, by default
+export const DUE_SWEEP_INTERVAL_MS = parseInt(process.env.AUTOMATION_DUE_SWEEP_MS || "300000", 10);
+
+export interface AutomationTrigger {
+  type: AutomationTriggerType;
+  boardId: string;
+  taskId: string;
+  columnId?: string;
+  labelId?: string;
+  assigneeId?: string | null;
+}
+
+type AutomationRecord = Prisma.BoardAutomationGetPayload<object>;
+
+// Tracks which automations led to the current change, so rules that
+// trigger each other (A moves to X, B moves out of X) cannot loop forever
+interface AutomationContext {
+  depth: number;
+  chain: string[];
+}
+
+const automationContext = new AsyncLocalStorage<AutomationContext>();
+
+const automationTaskInclude = {
+  labels: true,
+  customFieldValues: true,
+  column: { select: { id: true, name: true, boardId: true, category: true } },
+} satisfies Prisma.TaskInclude;
+
+type AutomationTask = Prisma.TaskGetPayload<{ include: typeof automationTaskInclude }>;
+
+// Same shape the task routes send with task:updated
+const taskEventInclude = {
+  assignee: true,
+  createdBy: true,
+  labels: true,
+  column: true,
+  subtasks: {
+    where: { deletedAt: null },
+    include: { assignee: true, labels: true },
+    orderBy: { position: "asc" },
+  },
+  customFieldValues: {
+    include: { customField: true },
+  },
+} satisfies Prisma.TaskInclude;
+
+/**
+ * Map a board event to an automation trigger
+ */
+export function handleBoardEvent(boardId: string, event: BoardEvent): void {
+  switch (event.type) {
+    case "task:created":
+      if (event.task?.parentId) return;
+      void runAutomations({ type: "task.created", boardId, taskId: event.task.id });
+      return;
+    case "task:moved":
+      void runAutomations({
+        type: "task.moved",
+        boardId,
+        taskId: event.taskId,
+        columnId: event.columnId,
+      });
+      return;
+  }
+}
+
+/**
+ * Map an activity to an automation trigger
+ */
+export function handleActivity(
+  boardId: string,
+  taskId: string,
+  action: string,
+  details?: Record<string, unknown>
+): void {
+  if (action === "assigned") {
+    void runAutomations({
+      type: "assignee.changed",
+      boardId,
+      taskId,
+      assigneeId: (details?.assigneeId as string | null | undefined) ?? null,
+    });
+  } else if ((action === "added label" || action === "added_label") && details?.labelId) {
+    void runAutomations({
+      type: "label.added",
+      boardId,
+      taskId,
+      labelId: details.labelId as string,
+    });
+  }
+}
+
+/**
+ * Run every enabled automation on the board that listens for a trigger
+ */
+export async function runAutomations(trigger: AutomationTrigger): Promise<void> {
+  try {
+    const automations = await prisma.boardAutomation.findMany({
+      where: { boardId: trigger.boardId, trigger: trigger.type, enabled: true, board: { archivedAt: null } },
+      orderBy: { createdAt: "asc" },
+    });
+
+    for (const automation of automations) {
+      await runAutomation(automation, trigger);
+    }
+  } catch (error) {
+    console.error("Failed to run automations:", error);
+  }
+}
+
+async function runAutomation(automation: AutomationRecord, trigger: AutomationTrigger): Promise<void> {
+  const config = (automation.triggerConfig || {}) as AutomationTriggerConfig;
+  if (config.columnId && config.columnId !== trigger.columnId) return;
+  if (config.labelId && config.labelId !== trigger.labelId) return;
+  if (config.assigneeId && config.assigneeId !== trigger.assigneeId) return;
+
+  const context = automationContext.getStore() ?? { depth: 0, chain: [] };
+
+  if (context.chain.includes(automation.id) || context.depth >= MAX_AUTOMATION_DEPTH) {
+    await recordRun(
+      automation.id,
+      trigger,
+      "skipped",
+      context.depth,
+      context.chain.includes(automation.id)
+        ? "Skipped: triggered by its own actions"
+        : `Skipped: more than ${MAX_AUTOMATION_DEPTH} chained automations`
+    );
+    return;
+  }
+
+  const task = await prisma.task.findUnique({
+    where: { id: trigger.taskId },
+    include: automationTaskInclude,
+  });
+  if (!task || task.column.boardId !== automation.boardId) return;
+
+  const conditions = automation.conditions as unknown as AutomationCondition[];
+  if (!conditions.every((condition) => matchesCondition(condition, task))) return;
+
+  const actions = automation.actions as unknown as AutomationAction[];
+  const results: string[] = [];
+
+  try {
+    await automationContext.run(
+      { depth: context.depth + 1, chain: [...context.chain, automation.id] },
+      async () => {
+        for (const action of actions) {
+          results.push(await executeAction(action, task, automation));
+        }
+      }
+    );
+    await recordRun(automation.id, trigger, "success", context.depth, results.join("; "));
+  } catch (error) {
+    const message = error instanceof Error ? error.message : "Unknown error";
+    await recordRun(
+      automation.id,
+      trigger,
+      "failed",
+      context.depth,
+      [...results, message].join("; ")
+    );
+  }
+}
+
+async function recordRun(
+  automationId: string,
+  trigger: AutomationTrigger,
+  status: AutomationRunStatus,
+  depth: number,
+  message: string
+): Promise<void> {
+  try {
+    await prisma.automationRun.create({
+      data: {
+        automationId,
+        taskId: trigger.taskId,
+        trigger: trigger.type,
+        status,
+        depth,
+        message: message || null,
+      },
+    });
+  } catch (error) {
+    console.error("Failed to record automation run:", error);
+  }
+}
+
+function matchesCondition(condition: AutomationCondition, task: AutomationTask): boolean {
+  switch (condition.type) {
+    case "priority": {
+      const is = task.priority === condition.value;
+      return condition.operator === "is" ? is : !is;
+    }
+    case "label": {
+      const has = task.labels.some((l) => l.id === condition.labelId);
+      return condition.operator === "has" ? has : !has;
+    }
+    case "assignee": {
+      const is = task.assigneeId === (condition.userId || null);
+      return condition.operator === "is" ? is : !is;
+    }
+    case "customField": {
+      const value = task.customFieldValues.find((v) => v.customFieldId === condition.fieldId)?.value ?? null;
+      const is = (value || null) === (condition.value || null);
+      return condition.operator === "is" ? is : !is;
+    }
+    default:
+      return false;
+  }
+}
+
+function renderTemplate(text: string, task: AutomationTask): string {
+  return text.replace(/\{\{\s*task\s*\}\}/g, task.title);
+}
+
+async function emitTaskUpdated(boardId: string, taskId: string): Promise<void> {
+  const task = await prisma.task.findUnique({
+    where: { id: taskId },
+    include: taskEventInclude,
+  });
+  if (task) {
+    emitBoardEvent(boardId, { type: "task:updated", task, userId: AUTOMATION_USER_ID });
+  }
+}
+
+/**
+ * Apply a single action and describe what it did
+ */
+async function executeAction(
+  action: AutomationAction,
+  task: AutomationTask,
+  automation: AutomationRecord
+): Promise<string> {
+  const boardId = automation.boardId;
+  // Activities and comments need a real user; attribute them to the rule's author
+  const actorId = automation.createdById;
+  const via = { automation: automation.name };
+
+  switch (action.type) {
+    case "assign": {
+      const assignee = action.userId
+        ? await prisma.user.findFirst({
+            where: { id: action.userId, boardMembers: { some: { boardId } } },
+          })
+        : null;
+      if (action.userId && !assignee) throw new Error("Assignee is no longer a board member");
+      if (task.assigneeId === (assignee?.id ?? null)) return "Assignee unchanged";
+
+      if (!task.parentId && assignee) {
+        const wip = await checkWipLimits(
+          await prisma.column.findUniqueOrThrow({ where: { id: task.columnId } }),
+          [{ id: task.id, assigneeId: assignee.id }]
+        );
+        if (wip.blocked) throw new Error(wip.message || "WIP limit reached");
+      }
+
+      await prisma.task.update({
+        where: { id: task.id },
+        data: { assigneeId: assignee?.id ?? null },
+      });
+      task.assigneeId = assignee?.id ?? null;
+
+      await createAndEmitActivity(task.id, actorId, "assigned", {
+        assignee: assignee?.name || "Unassigned",
+        assigneeId: assignee?.id ?? null,
+        ...via,
+      });
+      if (assignee) {
+        await notifyAssigned(assignee.id, task.title, task.id, boardId, `Automation "${automation.name}"`);
+      }
+      await emitTaskUpdated(boardId, task.id);
+      return assignee ? `Assigned to ${assignee.name || assignee.email}` : "Unassigned";
+    }
+
+    case "add_label":
+    case "remove_label": {
+      const label = await prisma.label.findFirst({ where: { id: action.labelId, boardId } });
+      if (!label) throw new Error("Label no longer exists");
+
+      const hasLabel = task.labels.some((l) => l.id === label.id);
+      const adding = action.type === "add_label";
+      if (hasLabel === adding) return `Label "${label.name}" unchanged`;
+
+      await prisma.task.update({
+        where: { id: task.id },
+        data: {
+          labels: adding ? { connect: { id: label.id } } : { disconnect: { id: label.id } },
+        },
+      });
+      task.labels = adding ? [...task.labels, label] : task.labels.filter((l) => l.id !== label.id);
+
+      await createAndEmitActivity(task.id, actorId, adding ? "added label" : "removed label", {
+        label: label.name,
+        labelId: label.id,
+        ...via,
+      });
+      await emitTaskUpdated(boardId, task.id);
+      return `${adding ? "Added" : "Removed"} label "${label.name}"`;
+    }
+
+    case "set_priority": {
+      if (task.priority === action.priority) return "Priority unchanged";
+
+      await prisma.task.update({
+        where: { id: task.id },
+        data: { priority: action.priority },
+      });
+      task.priority = action.priority;
+
+      await createAndEmitActivity(task.id, actorId, "priority_changed", {
+        priority: action.priority,
+        ...via,
+      });
+      await emitTaskUpdated(boardId, task.id);
+      return `Set priority to ${action.priority}`;
+    }
+
+    case "move_to_column": {
+      if (task.columnId === action.columnId) return "Already in column";
+
+      const column = await prisma.column.findFirst({
+        where: { id: action.columnId, boardId },
+        include: { board: { select: { enforceDependencies: true } } },
+      });
+      if (!column) throw new Error("Column no longer exists");
+
+      if (!task.parentId) {
+        const wip = await checkWipLimits(column, [{ id: task.id, assigneeId: task.assigneeId }]);
+        if (wip.blocked) throw new Error(wip.message || "WIP limit reached");
+      }
+
+      if (isGatedChange(column.category)) {
+        const policy = await checkDependencyPolicy(column.board, [task.id]);
+        if (policy.blocked) throw new Error(policy.message || "Task is blocked by dependencies");
+      }
+
+      const last = await prisma.task.findFirst({
+        where: { columnId: column.id },
+        orderBy: { position: "desc" },
+      });
+      const position = (last?.position ?? -1) + 1;
+      const fromColumn = task.column;
+      const wasFinished = isTaskFinished(task);
+
+      const moved = await prisma.task.update({
+        where: { id: task.id },
+        data: { columnId: column.id, position, ...getCategoryTaskUpdates(column.category, task) },
+      });
+      task.columnId = column.id;
+      task.completed = moved.completed;
+      task.archived = moved.archived;
+      task.column = { id: column.id, name: column.name, boardId, category: column.category };
+
+      await createAndEmitActivity(task.id, actorId, "moved", {
+        from: fromColumn.name,
+        to: column.name,
+        ...via,
+      });
+      emitBoardEvent(boardId, {
+        type: "task:moved",
+        taskId: task.id,
+        columnId: column.id,
+        position,
+        userId: AUTOMATION_USER_ID,
+        loads: await getColumnLoads([fromColumn.id, column.id]),
+      });
+      await emitTaskUpdated(boardId, task.id);
+      if (!wasFinished && isTaskFinished(task)) {
+        await notifyBlockersFinished([task.id]);
+      }
+      return `Moved to "${column.name}"`;
+    }
+
+    case "post_comment": {
+      const content = renderTemplate(action.content, task).trim();
+      if (!content) throw new Error("Comment is empty");
+
+      await prisma.comment.create({
+        data: { taskId: task.id, userId: actorId, content },
+      });
+      await createAndEmitActivity(task.id, actorId, "commented", {
+        preview: content.slice(0, 100),
+        ...via,
+      });
+      return "Posted comment";
+    }
+
+    case "create_subtask": {
+      const title = renderTemplate(action.title, task).trim();
+      if (!title) throw new Error("Subtask title is empty");
+
+      const count = await prisma.task.count({ where: { parentId: task.id } });
+      const subtask = await prisma.task.create({
+        data: {
+          columnId: task.columnId,
+          parentId: task.id,
+          title,
+          priority: "medium",
+          createdById: actorId,
+          position: count,
+          completed: false,
+        },
+        include: { assignee: true },
+      });
+
+      await createAndEmitActivity(task.id, actorId, "added subtask", {
+        subtaskTitle: title,
+        ...via,
+      });
+      emitBoardEvent(boardId, { type: "task:created", task: subtask, userId: AUTOMATION_USER_ID });
+      await emitTaskUpdated(boardId, task.id);
+      return `Created subtask "${title}"`;
+    }
+
+    case "notify": {
+      const recipientId =
+        action.target === "assignee"
+          ? task.assigneeId
+          : action.target === "creator"
+            ? task.createdById
+            : action.userId;
+      if (!recipientId) return "No one to notify";
+
+      await createNotification(
+        recipientId,
+        "automation",
+        `Automation: ${automation.name}`,
+        renderTemplate(action.message, task),
+        `/boards/${boardId}?task=${task.id}`
+      );
+      return "Sent notification";
+    }
+
+    default:
+      throw new Error("Unknown action");
+  }
+}
+
+/**
+ * Fire "due.passed" automations for tasks whose due date has passed.
+ * Each automation runs at most once per task per due date.
+ */
+export async function runDueDateAutomations(): Promise<{ runs: number }> {
+  let runs = 0;
+  const automations = await prisma.boardAutomation.findMany({
+    where: { trigger: "due.passed", enabled: true, board: { archivedAt: null, deletedAt: null } },
+  });
+
+  for (const automation of automations) {
+    const overdue = await prisma.task.findMany({
+      where: {
+        column: { boardId: automation.boardId },
+        parentId: null,
+        archived: false,
+        completed: false,
+        dueDate: { lt: new Date() },
+      },
+      select: { id: true, dueDate: true },
+    });
+
+    for (const task of overdue) {
+      const previousRun = await prisma.automationRun.findFirst({
+        where: { automationId: automation.id, taskId: task.id, createdAt: { gte: task.dueDate! } },
+      });
+      if (previousRun) continue;
+
+      await runAutomation(automation, {
+        type: "due.passed",
+        boardId: automation.boardId,
+        taskId: task.id,
+      });
+      runs++;
+    }
+  }
+
+  return { runs };
+}
+
+/**
+ * Validate an automation definition against a board.
+ * Returns an error message, or null when valid.
+ */
+export async function validateAutomation(
+  boardId: string,
+  input: {
+    trigger?: unknown;
+    triggerConfig?: unknown;
+    conditions?: unknown;
+    actions?: unknown;
+  }
+): Promise<string | null> {
+  const { trigger, triggerConfig, conditions, actions } = input;
+
+  if (trigger !== undefined && !AUTOMATION_TRIGGERS.includes(trigger as AutomationTriggerType)) {
+    return "Invalid trigger";
+  }
+
+  const [labels, columns, members, fields] = await Promise.all([
+    prisma.label.findMany({ where: { boardId }, select: { id: true } }),
+    prisma.column.findMany({ where: { boardId }, select: { id: true } }),
+    prisma.boardMember.findMany({ where: { boardId }, select: { userId: true } }),
+    prisma.customField.findMany({ where: { boardId }, select: { id: true } }),
+  ]);
+  const isLabel = (id: unknown) => labels.some((l) => l.id === id);
+  const isColumn = (id: unknown) => columns.some((c) => c.id === id);
+  const isMember = (id: unknown) => members.some((m) => m.userId === id);
+  const isField = (id: unknown) => fields.some((f) => f.id === id);
+
+  if (triggerConfig !== undefined && triggerConfig !== null) {
+    if (typeof triggerConfig !== "object") return "Invalid trigger config";
+    const config = triggerConfig as AutomationTriggerConfig;
+    if (config.columnId && !isColumn(config.columnId)) return "Trigger column not found";
+    if (config.labelId && !isLabel(config.labelId)) return "Trigger label not found";
+    if (config.assigneeId && !isMember(config.assigneeId)) return "Trigger assignee is not a board member";
+  }
+
+  if (conditions !== undefined) {
+    if (!Array.isArray(conditions)) return "conditions must be an array";
+    for (const condition of conditions as AutomationCondition[]) {
+      switch (condition?.type) {
+        case "priority":
+          if (!["is", "is_not"].includes(condition.operator) || !PRIORITIES.includes(condition.value)) {
+            return "Invalid priority condition";
+          }
+          break;
+        case "label":
+          if (!["has", "not_has"].includes(condition.operator) || !isLabel(condition.labelId)) {
+            return "Invalid label condition";
+          }
+          break;
+        case "assignee":
+          if (!["is", "is_not"].includes(condition.operator) || (condition.userId && !isMember(condition.userId))) {
+            return "Invalid assignee condition";
+          }
+          break;
+        case "customField":
+          if (!["is", "is_not"].includes(condition.operator) || !isField(condition.fieldId)) {
+            return "Invalid custom field condition";
+          }
+          break;
+        default:
+          return "Unknown condition type";
+      }
+    }
+  }
+
+  if (actions !== undefined) {
+    if (!Array.isArray(actions) || actions.length === 0) return "At least one action is required";
+    for (const action of actions as AutomationAction[]) {
+      switch (action?.type) {
+        case "assign":
+          if (action.userId && !isMember(action.userId)) return "Assignee is not a board member";
+          break;
+        case "add_label":
+        case "remove_label":
+          if (!isLabel(action.labelId)) return "Label not found";
+          break;
+        case "set_priority":
+          if (!PRIORITIES.includes(action.priority)) return "Invalid priority";
+          break;
+        case "move_to_column":
+          if (!isColumn(action.columnId)) return "Column not found";
+          break;
+        case "post_comment":
+          if (typeof action.content !== "string" || !action.content.trim()) return "Comment text is required";
+          break;
+        case "create_subtask":
+          if (typeof action.title !== "string" || !action.title.trim()) return "Subtask title is required";
+          break;
+        case "notify":
+          if (!["assignee", "creator", "user"].includes(action.target)) return "Invalid notification target";
+          if (action.target === "user" && !isMember(action.userId)) return "Notified user is not a board member";
+          if (typeof action.message !== "string" || !action.message.trim()) return "Notification message is required";
+          break;
+        default:
+          return "Unknown action type";
+      }
+    }
+  }
+
+  return null;
+}
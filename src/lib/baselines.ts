@@ -0,0 +1,108 @@
+import { differenceInCalendarDays } from "date-fns";
+import { prisma } from "./prisma";
+import type { BaselineVariance, TaskVariance } from "@/types";
+
+// Activity actions that move a task's dates, by hand or through auto-scheduling
+export const DATE_CHANGE_ACTIONS = ["start_date_changed", "due_date_changed", "rescheduled"];
+
+const userSelect = { select: { id: true, name: true, image: true } } as const;
+
+export const baselineInclude = {
+  createdBy: userSelect,
+  _count: { select: { tasks: true } },
+} as const;
+
+// A task with one date spans just that day
+const getEnd = (dates: { startDate: Date | null; dueDate: Date | null }) => dates.dueDate ?? dates.startDate;
+
+/**
+ * Snapshot the planned dates of a board's scheduled top-level tasks
+ */
+export async function createBaseline(boardId: string, name: string, userId: string) {
+  const tasks = await prisma.task.findMany({
+    where: {
+      column: { boardId },
+      parentId: null,
+      OR: [{ startDate: { not: null } }, { dueDate: { not: null } }],
+    },
+    select: { id: true, startDate: true, dueDate: true },
+  });
+
+  return prisma.baseline.create({
+    data: {
+      boardId,
+      name,
+      createdById: userId,
+      tasks: {
+        create: tasks.map((t) => ({ taskId: t.id, startDate: t.startDate, dueDate: t.dueDate })),
+      },
+    },
+    include: baselineInclude,
+  });
+}
+
+/**
+ * Compare a baseline with the board as it stands: every task now ending
+ * later than planned, by how many days, and the date changes made since
+ * the baseline was taken. Tasks that were trashed or unscheduled are left out.
+ */
+export async function getBaselineVariance(baselineId: string): Promise<BaselineVariance | null> {
+  const baseline = await prisma.baseline.findUnique({
+    where: { id: baselineId },
+    include: {
+      ...baselineInclude,
+      tasks: {
+        include: {
+          task: {
+            select: {
+              id: true,
+              title: true,
+              startDate: true,
+              dueDate: true,
+              deletedAt: true,
+              column: { select: { name: true, category: true } },
+            },
+          },
+        },
+      },
+    },
+  });
+  if (!baseline) return null;
+
+  const { tasks: entries, ...summary } = baseline;
+  const tracked = entries.filter((e) => !e.task.deletedAt && getEnd(e.task));
+
+  const slipped = tracked
+    .map((entry) => {
+      const plannedEnd = getEnd(entry);
+      const currentEnd = getEnd(entry.task)!;
+      return { entry, slipDays: plannedEnd ? differenceInCalendarDays(currentEnd, plannedEnd) : 0 };
+    })
+    .filter(({ slipDays }) => slipDays > 0);
+
+  const activities = await prisma.activity.findMany({
+    where: {
+      taskId: { in: slipped.map(({ entry }) => entry.taskId) },
+      action: { in: DATE_CHANGE_ACTIONS },
+      createdAt: { gt: baseline.createdAt },
+    },
+    select: { taskId: true, action: true, createdAt: true, user: userSelect },
+    orderBy: { createdAt: "desc" },
+  });
+
+  const report: TaskVariance[] = slipped
+    .map(({ entry, slipDays }) => ({
+      taskId: entry.taskId,
+      title: entry.task.title,
+      column: entry.task.column as TaskVariance["column"],
+      planned: { startDate: entry.startDate, dueDate: entry.dueDate },
+      current: { startDate: entry.task.startDate, dueDate: entry.task.dueDate },
+      slipDays,
+      changes: activities
+        .filter((a) => a.taskId === entry.taskId)
+        .map(({ action, createdAt, user }) => ({ action, createdAt, user })),
+    }))
+    .sort((a, b) => b.slipDays - a.slipDays);
+
+  return { baseline: summary, tracked: tracked.length, slipped: report };
+}
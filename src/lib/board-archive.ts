@@ -0,0 +1,897 @@
+import { randomUUID } from "crypto";
+import { Prisma } from "@prisma/client";
+import { prisma } from "./prisma";
+import { isColumnCategory } from "./column-categories";
+import { WIP_MODES } from "./wip-limits";
+import { isPointScale } from "./story-points";
+import { copyInR2, deleteFromR2, getR2KeyFromUrl } from "./r2";
+import type { WipMode } from "@/types";
+
+export const BOARD_ARCHIVE_FORMAT = "rhythm-kanban/board";
+export const BOARD_ARCHIVE_VERSION = 1;
+
+// Ids inside an archive are the source deployment's ids. They are only
+// used to link records within the bundle and are never reused on import.
+
+export interface ArchiveUser {
+  id: string;
+  email: string;
+  name: string | null;
+}
+
+export interface ArchiveColumn {
+  id: string;
+  name: string;
+  position: number;
+  color: string;
+  category: string;
+  wipLimit: number | null;
+  wipLimitPerAssignee: number | null;
+  wipMode: string;
+}
+
+export interface ArchiveTask {
+  id: string;
+  columnId: string;
+  parentId: string | null;
+  title: string;
+  description: string | null;
+  position: number;
+  priority: string;
+  startDate: string | null;
+  dueDate: string | null;
+  completed: boolean;
+  archived: boolean;
+  archivedAt: string | null;
+  assigneeId: string | null;
+  createdById: string;
+  createdAt: string;
+  isRecurring: boolean;
+  recurrenceRule: string | null;
+  recurrenceEnd: string | null;
+  lastRecurrence: string | null;
+  parentRecurringId: string | null;
+  energyLevel: string | null;
+  timeEstimate: number | null;
+  storyPoints?: number | null; // missing in archives from before story points
+  labelIds: string[];
+  customFieldValues: { customFieldId: string; value: string | null }[];
+}
+
+export interface BoardArchive {
+  format: typeof BOARD_ARCHIVE_FORMAT;
+  version: number;
+  exportedAt: string;
+  board: { name: string; description: string | null; visibility: string; pointScale?: string; enforceDependencies?: boolean; autoSchedule?: boolean };
+  users: ArchiveUser[];
+  members: { userId: string; role: string }[];
+  labels: { id: string; name: string; color: string }[];
+  customFields: {
+    id: string;
+    name: string;
+    type: string;
+    options: string | null;
+    required: boolean;
+    position: number;
+  }[];
+  columns: ArchiveColumn[];
+  tasks: ArchiveTask[];
+  dependencies: { taskId: string; blockedById: string; lagDays?: number; createdById: string; createdAt: string }[];
+  comments: { taskId: string; userId: string; content: string; createdAt: string }[];
+  activities: {
+    taskId: string;
+    userId: string;
+    action: string;
+    details: Prisma.JsonValue;
+    createdAt: string;
+  }[];
+  attachments: {
+    taskId: string;
+    filename: string;
+    url: string;
+    mimeType: string;
+    size: number;
+    uploadedById: string;
+    createdAt: string;
+  }[];
+  taskTemplates: {
+    name: string;
+    title: string;
+    description: string | null;
+    priority: string;
+    labelIds: string[];
+    subtasks: string[];
+    createdById: string;
+  }[];
+  automations: {
+    name: string;
+    enabled: boolean;
+    trigger: string;
+    triggerConfig: Prisma.JsonValue;
+    conditions: Prisma.JsonValue;
+    actions: Prisma.JsonValue;
+    createdById: string;
+  }[];
+}
+
+export interface ArchiveConflict {
+  type: "unknown_user" | "board_name" | "template_label";
+  message: string;
+}
+
+export interface ArchiveValidation {
+  errors: string[];
+  conflicts: ArchiveConflict[];
+  summary: Record<string, number>;
+}
+
+const iso = (date: Date | null) => (date ? date.toISOString() : null);
+
+/**
+ * Serialize a board and everything on it into a self-contained archive
+ */
+export async function exportBoard(boardId: string): Promise<BoardArchive | null> {
+  const board = await prisma.board.findUnique({
+    where: { id: boardId },
+    include: {
+      members: true,
+      labels: { orderBy: { createdAt: "asc" } },
+      customFields: { orderBy: { position: "asc" } },
+      columns: { orderBy: { position: "asc" } },
+      taskTemplates: { orderBy: { createdAt: "asc" } },
+      automations: { orderBy: { createdAt: "asc" } },
+    },
+  });
+  if (!board) return null;
+
+  // Trashed tasks stay behind
+  const tasks = await prisma.task.findMany({
+    where: { column: { boardId } },
+    include: {
+      labels: { select: { id: true } },
+      customFieldValues: true,
+      blockedBy: { where: { blockedBy: { deletedAt: null } } },
+      comments: { orderBy: { createdAt: "asc" } },
+      activities: { orderBy: { createdAt: "asc" } },
+      attachments: { orderBy: { createdAt: "asc" } },
+    },
+    // Parents before subtasks keeps the bundle readable
+    orderBy: [{ parentId: { sort: "asc", nulls: "first" } }, { position: "asc" }],
+  });
+
+  // Recurring parents may be in the trash while their instances are not
+  const taskIds = new Set(tasks.map((t) => t.id));
+
+  const userIds = new Set<string>(board.members.map((m) => m.userId));
+  board.taskTemplates.forEach((t) => userIds.add(t.createdById));
+  board.automations.forEach((a) => userIds.add(a.createdById));
+  tasks.forEach((t) => {
+    userIds.add(t.createdById);
+    if (t.assigneeId) userIds.add(t.assigneeId);
+    t.blockedBy.forEach((d) => userIds.add(d.createdById));
+    t.comments.forEach((c) => userIds.add(c.userId));
+    t.activities.forEach((a) => userIds.add(a.userId));
+    t.attachments.forEach((a) => userIds.add(a.uploadedById));
+  });
+
+  const users = await prisma.user.findMany({
+    where: { id: { in: Array.from(userIds) } },
+    select: { id: true, email: true, name: true },
+  });
+
+  return {
+    format: BOARD_ARCHIVE_FORMAT,
+    version: BOARD_ARCHIVE_VERSION,
+    exportedAt: new Date().toISOString(),
+    board: {
+      name: board.name,
+      description: board.description,
+      visibility: board.visibility,
+      pointScale: board.pointScale,
+      enforceDependencies: board.enforceDependencies,
+      autoSchedule: board.autoSchedule,
+    },
+    users,
+    members: board.members.map((m) => ({ userId: m.userId, role: m.role })),
+    labels: board.labels.map((l) => ({ id: l.id, name: l.name, color: l.color })),
+    customFields: board.customFields.map((f) => ({
+      id: f.id,
+      name: f.name,
+      type: f.type,
+      options: f.options,
+      required: f.required,
+      position: f.position,
+    })),
+    columns: board.columns.map((c) => ({
+      id: c.id,
+      name: c.name,
+      position: c.position,
+      color: c.color,
+      category: c.category,
+      wipLimit: c.wipLimit,
+      wipLimitPerAssignee: c.wipLimitPerAssignee,
+      wipMode: c.wipMode,
+    })),
+    tasks: tasks.map((t) => ({
+      id: t.id,
+      columnId: t.columnId,
+      parentId: t.parentId,
+      title: t.title,
+      description: t.description,
+      position: t.position,
+      priority: t.priority,
+      startDate: iso(t.startDate),
+      dueDate: iso(t.dueDate),
+      completed: t.completed,
+      archived: t.archived,
+      archivedAt: iso(t.archivedAt),
+      assigneeId: t.assigneeId,
+      createdById: t.createdById,
+      createdAt: t.createdAt.toISOString(),
+      isRecurring: t.isRecurring,
+      recurrenceRule: t.recurrenceRule,
+      recurrenceEnd: iso(t.recurrenceEnd),
+      lastRecurrence: iso(t.lastRecurrence),
+      parentRecurringId: taskIds.has(t.parentRecurringId ?? "") ? t.parentRecurringId : null,
+      energyLevel: t.energyLevel,
+      timeEstimate: t.timeEstimate,
+      storyPoints: t.storyPoints,
+      labelIds: t.labels.map((l) => l.id),
+      customFieldValues: t.customFieldValues.map((v) => ({
+        customFieldId: v.customFieldId,
+        value: v.value,
+      })),
+    })),
+    dependencies: tasks.flatMap((t) =>
+      t.blockedBy.map((d) => ({
+        taskId: d.taskId,
+        blockedById: d.blockedById,
+        lagDays: d.lagDays,
+        createdById: d.createdById,
+        createdAt: d.createdAt.toISOString(),
+      }))
+    ),
+    comments: tasks.flatMap((t) =>
+      t.comments.map((c) => ({
+        taskId: c.taskId,
+        userId: c.userId,
+        content: c.content,
+        createdAt: c.createdAt.toISOString(),
+      }))
+    ),
+    activities: tasks.flatMap((t) =>
+      t.activities.map((a) => ({
+        taskId: a.taskId,
+        userId: a.userId,
+        action: a.action,
+        details: a.details,
+        createdAt: a.createdAt.toISOString(),
+      }))
+    ),
+    attachments: tasks.flatMap((t) =>
+      t.attachments.map((a) => ({
+        taskId: a.taskId,
+        filename: a.filename,
+        url: a.url,
+        mimeType: a.mimeType,
+        size: a.size,
+        uploadedById: a.uploadedById,
+        createdAt: a.createdAt.toISOString(),
+      }))
+    ),
+    taskTemplates: board.taskTemplates.map((t) => ({
+      name: t.name,
+      title: t.title,
+      description: t.description,
+      priority: t.priority,
+      labelIds: t.labels,
+      subtasks: t.subtasks,
+      createdById: t.createdById,
+    })),
+    automations: board.automations.map((a) => ({
+      name: a.name,
+      enabled: a.enabled,
+      trigger: a.trigger,
+      triggerConfig: a.triggerConfig,
+      conditions: a.conditions,
+      actions: a.actions,
+      createdById: a.createdById,
+    })),
+  };
+}
+
+const PRIORITIES = ["low", "medium", "high", "urgent"];
+const MEMBER_ROLES = ["admin", "member", "viewer"];
+
+function isDate(value: unknown): boolean {
+  return typeof value === "string" && !Number.isNaN(new Date(value).getTime());
+}
+
+function isOptionalDate(value: unknown): boolean {
+  return value === null || value === undefined || isDate(value);
+}
+
+function isOptionalString(value: unknown): boolean {
+  return value === null || value === undefined || typeof value === "string";
+}
+
+function isOptionalInt(value: unknown, min = 0): boolean {
+  return value === null || value === undefined || (Number.isInteger(value) && (value as number) >= min);
+}
+
+function isWebUrl(value: unknown): boolean {
+  if (typeof value !== "string") return false;
+  try {
+    const { protocol } = new URL(value);
+    return protocol === "https:" || protocol === "http:";
+  } catch {
+    return false;
+  }
+}
+
+const ARRAY_SECTIONS = [
+  "users",
+  "members",
+  "labels",
+  "customFields",
+  "columns",
+  "tasks",
+  "dependencies",
+  "comments",
+  "activities",
+  "attachments",
+  "taskTemplates",
+  "automations",
+] as const;
+
+/**
+ * Check an archive's structure and internal references, and find what
+ * will not map cleanly onto this deployment for the importing user
+ */
+export async function validateBoardArchive(
+  data: unknown,
+  importingUserId: string
+): Promise<ArchiveValidation> {
+  const errors: string[] = [];
+  const conflicts: ArchiveConflict[] = [];
+  const summary: Record<string, number> = {};
+
+  if (!data || typeof data !== "object") {
+    return { errors: ["Archive must be a JSON object"], conflicts, summary };
+  }
+
+  const archive = data as BoardArchive;
+  if (archive.format !== BOARD_ARCHIVE_FORMAT) {
+    errors.push("Not a board archive");
+  }
+  if (typeof archive.version !== "number" || archive.version > BOARD_ARCHIVE_VERSION) {
+    errors.push(`Unsupported archive version ${archive.version} (this server reads up to ${BOARD_ARCHIVE_VERSION})`);
+  }
+  if (!archive.board || typeof archive.board.name !== "string" || !archive.board.name.trim()) {
+    errors.push("Board name is missing");
+  }
+  for (const section of ARRAY_SECTIONS) {
+    if (!Array.isArray(archive[section])) {
+      errors.push(`"${section}" must be an array`);
+    } else {
+      summary[section] = archive[section].length;
+    }
+  }
+  if (errors.length > 0) return { errors, conflicts, summary };
+
+  const userIds = new Set(archive.users.map((u) => u.id));
+  const labelIds = new Set(archive.labels.map((l) => l.id));
+  const fieldIds = new Set(archive.customFields.map((f) => f.id));
+  const columnIds = new Set(archive.columns.map((c) => c.id));
+  const taskIds = new Set(archive.tasks.map((t) => t.id));
+
+  const checkUnique = (section: string, ids: string[]) => {
+    if (new Set(ids).size !== ids.length) errors.push(`Duplicate ids in "${section}"`);
+  };
+  checkUnique("users", archive.users.map((u) => u.id));
+  checkUnique("labels", archive.labels.map((l) => l.id));
+  checkUnique("customFields", archive.customFields.map((f) => f.id));
+  checkUnique("columns", archive.columns.map((c) => c.id));
+  checkUnique("tasks", archive.tasks.map((t) => t.id));
+
+  const labelNames = archive.labels.map((l) => l.name);
+  if (new Set(labelNames).size !== labelNames.length) errors.push("Duplicate label names");
+  const fieldNames = archive.customFields.map((f) => f.name);
+  if (new Set(fieldNames).size !== fieldNames.length) errors.push("Duplicate custom field names");
+
+  const missingUser = (id: string | null, where: string) => {
+    if (id && !userIds.has(id)) errors.push(`${where} references unknown user ${id}`);
+  };
+
+  if (!isOptionalString(archive.board.description)) errors.push("Board description must be text");
+  archive.users.forEach((u) => {
+    if (typeof u.email !== "string" || !u.email) errors.push(`User ${u.id} has no email`);
+  });
+  archive.members.forEach((m) => {
+    missingUser(m.userId, "Member");
+    if (!MEMBER_ROLES.includes(m.role)) errors.push(`Member ${m.userId} has an invalid role`);
+  });
+  archive.labels.forEach((l) => {
+    if (typeof l.name !== "string" || typeof l.color !== "string") errors.push(`Label ${l.id} needs a name and color`);
+  });
+  archive.customFields.forEach((f) => {
+    const where = `Custom field "${f.name}"`;
+    if (typeof f.name !== "string" || typeof f.type !== "string") errors.push(`${where} needs a name and type`);
+    if (!isOptionalString(f.options)) errors.push(`${where} has invalid options`);
+    if (!isOptionalInt(f.position)) errors.push(`${where} has an invalid position`);
+  });
+  archive.columns.forEach((c) => {
+    const where = `Column "${c.name}"`;
+    if (typeof c.name !== "string" || typeof c.color !== "string") errors.push(`${where} needs a name and color`);
+    if (!Number.isInteger(c.position)) errors.push(`${where} has an invalid position`);
+    if (!isColumnCategory(c.category)) errors.push(`${where} has an invalid category`);
+    if (!isOptionalInt(c.wipLimit, 1) || !isOptionalInt(c.wipLimitPerAssignee, 1)) {
+      errors.push(`${where} has an invalid WIP limit`);
+    }
+    if (c.wipMode !== undefined && !WIP_MODES.includes(c.wipMode as WipMode)) errors.push(`${where} has an invalid WIP mode`);
+  });
+  archive.tasks.forEach((t) => {
+    const where = `Task "${t.title}"`;
+    if (typeof t.title !== "string" || !t.title.trim()) errors.push(`Task ${t.id} has no title`);
+    if (!isOptionalString(t.description) || !isOptionalString(t.recurrenceRule) || !isOptionalString(t.energyLevel)) {
+      errors.push(`${where} has an invalid description, recurrence rule or energy level`);
+    }
+    if (!Number.isInteger(t.position)) errors.push(`${where} has an invalid position`);
+    if (!PRIORITIES.includes(t.priority)) errors.push(`${where} has an invalid priority`);
+    if (!isDate(t.createdAt)) errors.push(`${where} has an invalid creation date`);
+    const dates = [t.startDate, t.dueDate, t.archivedAt, t.recurrenceEnd, t.lastRecurrence];
+    if (!dates.every(isOptionalDate)) errors.push(`${where} has an invalid date`);
+    if (!isOptionalInt(t.timeEstimate) || !isOptionalInt(t.storyPoints)) {
+      errors.push(`${where} has an invalid time estimate or story points`);
+    }
+    if (!Array.isArray(t.labelIds) || !Array.isArray(t.customFieldValues)) {
+      errors.push(`${where} needs "labelIds" and "customFieldValues" arrays`);
+      return;
+    }
+    if (!columnIds.has(t.columnId)) errors.push(`${where} references unknown column ${t.columnId}`);
+    if (t.parentId && !taskIds.has(t.parentId)) errors.push(`${where} references unknown parent ${t.parentId}`);
+    if (t.parentRecurringId && !taskIds.has(t.parentRecurringId)) {
+      errors.push(`${where} references unknown recurring parent ${t.parentRecurringId}`);
+    }
+    missingUser(t.assigneeId, where);
+    missingUser(t.createdById, where);
+    t.labelIds.forEach((id) => {
+      if (!labelIds.has(id)) errors.push(`${where} references unknown label ${id}`);
+    });
+    t.customFieldValues.forEach((v) => {
+      if (!fieldIds.has(v?.customFieldId)) errors.push(`${where} references unknown custom field ${v?.customFieldId}`);
+      else if (!isOptionalString(v.value)) errors.push(`${where} has an invalid value for custom field ${v.customFieldId}`);
+    });
+  });
+  archive.dependencies.forEach((d) => {
+    if (!taskIds.has(d.taskId) || !taskIds.has(d.blockedById)) {
+      errors.push(`Dependency ${d.blockedById} → ${d.taskId} references an unknown task`);
+    }
+    missingUser(d.createdById, "Dependency");
+    if (!isDate(d.createdAt)) errors.push(`Dependency ${d.blockedById} → ${d.taskId} has an invalid date`);
+  });
+  archive.comments.forEach((c) => {
+    if (!taskIds.has(c.taskId)) errors.push(`Comment references unknown task ${c.taskId}`);
+    missingUser(c.userId, "Comment");
+    if (typeof c.content !== "string") errors.push(`Comment on task ${c.taskId} has no content`);
+    if (!isDate(c.createdAt)) errors.push(`Comment on task ${c.taskId} has an invalid date`);
+  });
+  archive.activities.forEach((a) => {
+    if (!taskIds.has(a.taskId)) errors.push(`Activity references unknown task ${a.taskId}`);
+    missingUser(a.userId, "Activity");
+    if (typeof a.action !== "string") errors.push(`Activity on task ${a.taskId} has no action`);
+    if (!isDate(a.createdAt)) errors.push(`Activity on task ${a.taskId} has an invalid date`);
+  });
+  archive.attachments.forEach((a) => {
+    if (!taskIds.has(a.taskId)) errors.push(`Attachment "${a.filename}" references unknown task ${a.taskId}`);
+    if (!isWebUrl(a.url)) errors.push(`Attachment "${a.filename}" has an invalid url`);
+    if (typeof a.filename !== "string" || typeof a.mimeType !== "string" || !isOptionalInt(a.size)) {
+      errors.push(`Attachment "${a.filename}" needs a filename, type and size`);
+    }
+    if (!isDate(a.createdAt)) errors.push(`Attachment "${a.filename}" has an invalid date`);
+    missingUser(a.uploadedById, "Attachment");
+  });
+  archive.taskTemplates.forEach((t) => {
+    missingUser(t.createdById, `Template "${t.name}"`);
+    if (typeof t.name !== "string" || typeof t.title !== "string" || !PRIORITIES.includes(t.priority)) {
+      errors.push(`Template "${t.name}" needs a name, title and valid priority`);
+    }
+    if (!Array.isArray(t.labelIds) || !Array.isArray(t.subtasks)) {
+      errors.push(`Template "${t.name}" needs "labelIds" and "subtasks" arrays`);
+      return;
+    }
+    if (t.labelIds.some((id) => !labelIds.has(id))) {
+      conflicts.push({
+        type: "template_label",
+        message: `Template "${t.name}" uses labels that are not in the archive; they will be dropped`,
+      });
+    }
+  });
+  archive.automations.forEach((a) => {
+    missingUser(a.createdById, `Automation "${a.name}"`);
+    if (typeof a.name !== "string" || typeof a.trigger !== "string" || a.conditions == null || a.actions == null) {
+      errors.push(`Automation "${a.name}" needs a name, trigger, conditions and actions`);
+    }
+  });
+
+  // Only report the first few reference errors; one bad id tends to cascade
+  if (errors.length > 20) {
+    errors.splice(20, errors.length - 20, `...and ${errors.length - 20} more errors`);
+  }
+  if (errors.length > 0) return { errors, conflicts, summary };
+
+  const existingUsers = await prisma.user.findMany({
+    where: { email: { in: archive.users.map((u) => u.email.toLowerCase()), mode: "insensitive" } },
+    select: { email: true },
+  });
+  const knownEmails = new Set(existingUsers.map((u) => u.email.toLowerCase()));
+  archive.users
+    .filter((u) => !knownEmails.has(u.email.toLowerCase()))
+    .forEach((u) => {
+      conflicts.push({
+        type: "unknown_user",
+        message: `${u.email} has no account here; their content will be attributed to you and their assignments cleared`,
+      });
+    });
+
+  const sameName = await prisma.board.findFirst({
+    where: { name: archive.board.name.trim(), members: { some: { userId: importingUserId } } },
+    select: { id: true },
+  });
+  if (sameName) {
+    conflicts.push({
+      type: "board_name",
+      message: `You already have a board named "${archive.board.name.trim()}"; the import will be named "${archive.board.name.trim()} (imported)"`,
+    });
+  }
+
+  return { errors, conflicts, summary };
+}
+
+/**
+ * Rewrite the ids an automation definition points at
+ */
+function remapAutomationJson(
+  value: Prisma.JsonValue,
+  maps: { columns: Map<string, string>; labels: Map<string, string>; fields: Map<string, string>; users: Map<string, string | null> }
+): Prisma.JsonValue {
+  if (Array.isArray(value)) return value.map((v) => remapAutomationJson(v, maps));
+  if (!value || typeof value !== "object") return value;
+
+  const out: Record<string, Prisma.JsonValue> = {};
+  for (const [key, v] of Object.entries(value)) {
+    if (typeof v !== "string") {
+      out[key] = remapAutomationJson(v as Prisma.JsonValue, maps);
+    } else if (key === "columnId") {
+      out[key] = maps.columns.get(v) ?? v;
+    } else if (key === "labelId") {
+      out[key] = maps.labels.get(v) ?? v;
+    } else if (key === "fieldId") {
+      out[key] = maps.fields.get(v) ?? v;
+    } else if (key === "userId" || key === "assigneeId") {
+      // People without an account here cannot be assigned or notified
+      out[key] = maps.users.get(v) ?? null;
+    } else {
+      out[key] = v;
+    }
+  }
+  return out;
+}
+
+/**
+ * Give attachments stored in this deployment's bucket their own copy of the
+ * file, so deleting one never removes a file another board still shows, nor
+ * one an archive merely named. Files elsewhere, e.g. another deployment's,
+ * stay plain links that deleting the attachment leaves alone. Attachments
+ * whose file can't be copied are left out.
+ */
+async function copyAttachmentFiles(attachments: BoardArchive["attachments"], tasks: Map<string, string>) {
+  const copies: BoardArchive["attachments"] = [];
+  const keys: string[] = [];
+  for (const a of attachments) {
+    const sourceKey = getR2KeyFromUrl(a.url);
+    if (!sourceKey) {
+      copies.push(a);
+      continue;
+    }
+    const key = `attachments/${tasks.get(a.taskId)}/${randomUUID()}-${a.filename.replace(/[^a-zA-Z0-9.-]/g, "_")}`;
+    try {
+      copies.push({ ...a, url: await copyInR2(sourceKey, key) });
+      keys.push(key);
+    } catch (error) {
+      console.error(`Failed to copy attachment "${a.filename}", leaving it out:`, error);
+    }
+  }
+  return { attachments: copies, keys };
+}
+
+/**
+ * Recreate an archived board owned by the importing user.
+ * Call validateBoardArchive first; this assumes the archive is valid.
+ */
+export async function importBoard(
+  archive: BoardArchive,
+  importingUserId: string,
+  conflicts: ArchiveConflict[]
+) {
+  // Source user id -> local user id (null when nobody here has that email)
+  const localUsers = await prisma.user.findMany({
+    where: { email: { in: archive.users.map((u) => u.email.toLowerCase()), mode: "insensitive" } },
+    select: { id: true, email: true },
+  });
+  const users = new Map<string, string | null>(
+    archive.users.map((u) => [
+      u.id,
+      localUsers.find((l) => l.email.toLowerCase() === u.email.toLowerCase())?.id ?? null,
+    ])
+  );
+  const userOrImporter = (id: string) => users.get(id) ?? importingUserId;
+
+  const newIds = (items: { id: string }[]) => new Map(items.map((i) => [i.id, randomUUID()]));
+  const columns = newIds(archive.columns);
+  const labels = newIds(archive.labels);
+  const fields = newIds(archive.customFields);
+  const tasks = newIds(archive.tasks);
+
+  const renamed = conflicts.some((c) => c.type === "board_name");
+  const boardId = randomUUID();
+  const files = await copyAttachmentFiles(archive.attachments, tasks);
+
+  try {
+    await prisma.$transaction(
+      async (tx) => {
+        await tx.board.create({
+          data: {
+            id: boardId,
+            name: renamed ? `${archive.board.name.trim()} (imported)` : archive.board.name.trim(),
+            description: archive.board.description,
+            visibility: ["private", "team", "public"].includes(archive.board.visibility)
+              ? archive.board.visibility
+              : "private",
+            pointScale: isPointScale(archive.board.pointScale) ? archive.board.pointScale : undefined,
+            enforceDependencies: archive.board.enforceDependencies === true,
+            autoSchedule: archive.board.autoSchedule === true,
+            ownerId: importingUserId,
+          },
+        });
+
+        // Importer becomes admin; other members keep their role if they have an account here
+        const memberRoles = new Map<string, string>([[importingUserId, "admin"]]);
+        archive.members.forEach((m) => {
+          const localId = users.get(m.userId);
+          if (localId && !memberRoles.has(localId)) memberRoles.set(localId, m.role);
+        });
+        await tx.boardMember.createMany({
+          data: Array.from(memberRoles.entries()).map(([userId, role]) => ({
+            boardId,
+            userId,
+            role,
+            joinedAt: userId === importingUserId ? new Date() : null,
+            invitedById: userId === importingUserId ? null : importingUserId,
+          })),
+        });
+        const memberIds = new Set(memberRoles.keys());
+
+        await tx.label.createMany({
+          data: archive.labels.map((l) => ({ id: labels.get(l.id)!, boardId, name: l.name, color: l.color })),
+        });
+
+        await tx.customField.createMany({
+          data: archive.customFields.map((f) => ({
+            id: fields.get(f.id)!,
+            boardId,
+            name: f.name,
+            type: f.type,
+            options: f.options,
+            required: f.required,
+            position: f.position,
+          })),
+        });
+
+        await tx.column.createMany({
+          data: archive.columns.map((c) => ({
+            id: columns.get(c.id)!,
+            boardId,
+            name: c.name,
+            position: c.position,
+            color: c.color,
+            category: c.category,
+            wipLimit: c.wipLimit,
+            wipLimitPerAssignee: c.wipLimitPerAssignee,
+            wipMode: c.wipMode,
+          })),
+        });
+
+        // Parents first so subtasks can reference them
+        const ordered = [
+          ...archive.tasks.filter((t) => !t.parentId),
+          ...archive.tasks.filter((t) => t.parentId),
+        ];
+        await tx.task.createMany({
+          data: ordered.map((t) => {
+            const assigneeId = t.assigneeId ? users.get(t.assigneeId) ?? null : null;
+            return {
+              id: tasks.get(t.id)!,
+              columnId: columns.get(t.columnId)!,
+              parentId: t.parentId ? tasks.get(t.parentId)! : null,
+              title: t.title,
+              description: t.description,
+              position: t.position,
+              priority: t.priority,
+              startDate: t.startDate ? new Date(t.startDate) : null,
+              dueDate: t.dueDate ? new Date(t.dueDate) : null,
+              completed: t.completed,
+              archived: t.archived,
+              archivedAt: t.archivedAt ? new Date(t.archivedAt) : null,
+              assigneeId: assigneeId && memberIds.has(assigneeId) ? assigneeId : null,
+              createdById: userOrImporter(t.createdById),
+              createdAt: new Date(t.createdAt),
+              isRecurring: t.isRecurring,
+              recurrenceRule: t.recurrenceRule,
+              recurrenceEnd: t.recurrenceEnd ? new Date(t.recurrenceEnd) : null,
+              lastRecurrence: t.lastRecurrence ? new Date(t.lastRecurrence) : null,
+              energyLevel: t.energyLevel,
+              timeEstimate: t.timeEstimate,
+              storyPoints: t.storyPoints ?? null,
+            };
+          }),
+        });
+
+        for (const t of archive.tasks) {
+          if (t.labelIds.length === 0 && !t.parentRecurringId) continue;
+          await tx.task.update({
+            where: { id: tasks.get(t.id)! },
+            data: {
+              ...(t.labelIds.length > 0 && {
+                labels: { connect: t.labelIds.map((id) => ({ id: labels.get(id)! })) },
+              }),
+              ...(t.parentRecurringId && { parentRecurringId: tasks.get(t.parentRecurringId)! }),
+            },
+          });
+        }
+
+        await tx.customFieldValue.createMany({
+          data: archive.tasks.flatMap((t) =>
+            t.customFieldValues.map((v) => ({
+              taskId: tasks.get(t.id)!,
+              customFieldId: fields.get(v.customFieldId)!,
+              value: v.value,
+            }))
+          ),
+        });
+
+        await tx.taskDependency.createMany({
+          data: archive.dependencies.map((d) => ({
+            taskId: tasks.get(d.taskId)!,
+            blockedById: tasks.get(d.blockedById)!,
+            lagDays: Number.isInteger(d.lagDays) ? d.lagDays : 0,
+            createdById: userOrImporter(d.createdById),
+            createdAt: new Date(d.createdAt),
+          })),
+          skipDuplicates: true,
+        });
+
+        await tx.comment.createMany({
+          data: archive.comments.map((c) => ({
+            taskId: tasks.get(c.taskId)!,
+            userId: userOrImporter(c.userId),
+            content: c.content,
+            createdAt: new Date(c.createdAt),
+          })),
+        });
+
+        await tx.activity.createMany({
+          data: archive.activities.map((a) => ({
+            taskId: tasks.get(a.taskId)!,
+            userId: userOrImporter(a.userId),
+            action: a.action,
+            details: a.details ?? Prisma.JsonNull,
+            createdAt: new Date(a.createdAt),
+          })),
+        });
+
+        await tx.attachment.createMany({
+          data: files.attachments.map((a) => ({
+            taskId: tasks.get(a.taskId)!,
+            filename: a.filename,
+            url: a.url,
+            mimeType: a.mimeType,
+            size: a.size,
+            uploadedById: userOrImporter(a.uploadedById),
+            createdAt: new Date(a.createdAt),
+          })),
+        });
+
+        await tx.taskTemplate.createMany({
+          data: archive.taskTemplates.map((t) => ({
+            boardId,
+            name: t.name,
+            title: t.title,
+            description: t.description,
+            priority: t.priority,
+            labels: t.labelIds.filter((id) => labels.has(id)).map((id) => labels.get(id)!),
+            subtasks: t.subtasks,
+            createdById: userOrImporter(t.createdById),
+          })),
+          skipDuplicates: true,
+        });
+
+        const maps = { columns, labels, fields, users };
+        await tx.boardAutomation.createMany({
+          data: archive.automations.map((a) => ({
+            boardId,
+            name: a.name,
+            enabled: a.enabled,
+            trigger: a.trigger,
+            triggerConfig: a.triggerConfig
+              ? (remapAutomationJson(a.triggerConfig, maps) as Prisma.InputJsonValue)
+              : Prisma.JsonNull,
+            conditions: remapAutomationJson(a.conditions, maps) as Prisma.InputJsonValue,
+            actions: remapAutomationJson(a.actions, maps) as Prisma.InputJsonValue,
+            createdById: userOrImporter(a.createdById),
+          })),
+        });
+      },
+      { timeout: 60000 }
+    );
+  } catch (error) {
+    // Nothing points at the copied files now
+    await Promise.all(files.keys.map((key) => deleteFromR2(key).catch(() => {})));
+    throw error;
+  }
+
+  return prisma.board.findUnique({
+    where: { id: boardId },
+    include: {
+      owner: { select: { id: true, name: true, email: true, image: true } },
+      _count: { select: { columns: true, members: true } },
+    },
+  });
+}
+
+export interface DuplicateBoardOptions {
+  name: string;
+  tasks: boolean;
+  archivedTasks: boolean;
+  comments: boolean;
+  activity: boolean;
+  attachments: boolean;
+  members: boolean;
+  automations: boolean;
+  taskTemplates: boolean;
+}
+
+/**
+ * Copy a board for the given user, keeping only the requested parts.
+ * Attachments get copies of their files.
+ */
+export async function duplicateBoard(boardId: string, userId: string, options: DuplicateBoardOptions) {
+  const archive = await exportBoard(boardId);
+  if (!archive) return null;
+
+  let tasks = options.tasks ? archive.tasks : [];
+  if (!options.archivedTasks) {
+    tasks = tasks.filter((t) => !t.archived);
+  }
+  // Drop subtasks and recurring instances whose parent did not make the cut
+  const ids = new Set(tasks.map((t) => t.id));
+  tasks = tasks
+    .filter((t) => !t.parentId || ids.has(t.parentId))
+    .map((t) => (t.parentRecurringId && !ids.has(t.parentRecurringId) ? { ...t, parentRecurringId: null } : t));
+  const kept = new Set(tasks.map((t) => t.id));
+
+  const copy: BoardArchive = {
+    ...archive,
+    board: { ...archive.board, name: options.name },
+    members: options.members ? archive.members : [],
+    tasks,
+    dependencies: archive.dependencies.filter((d) => kept.has(d.taskId) && kept.has(d.blockedById)),
+    comments: options.comments ? archive.comments.filter((c) => kept.has(c.taskId)) : [],
+    activities: options.activity ? archive.activities.filter((a) => kept.has(a.taskId)) : [],
+    attachments: options.attachments ? archive.attachments.filter((a) => kept.has(a.taskId)) : [],
+    automations: options.automations ? archive.automations : [],
+    taskTemplates: options.taskTemplates ? archive.taskTemplates : [],
+  };
+
+  return importBoard(copy, userId, []);
+}
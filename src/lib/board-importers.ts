@@ -0,0 +1,638 @@
+import { randomUUID } from "crypto";
+import { ColumnCategory } from "@/types";
+import {
+  ArchiveColumn,
+  ArchiveTask,
+  BoardArchive,
+  BOARD_ARCHIVE_FORMAT,
+  BOARD_ARCHIVE_VERSION,
+} from "./board-archive";
+import { LABEL_COLORS } from "./label-colors";
+
+// Converters from other tools' exports into a board archive, so foreign
+// boards go through the same validation and import path as our own.
+
+export type ImportSource = "rhythm" | "trello" | "jira";
+
+export const IMPORT_SOURCES: ImportSource[] = ["rhythm", "trello", "jira"];
+
+export interface ImportingUser {
+  id: string;
+  email: string;
+  name: string | null;
+}
+
+export interface ConvertedBoard {
+  archive: BoardArchive;
+  // Human-readable notes about data that had no equivalent here
+  unmapped: string[];
+}
+
+const DEFAULT_LABEL_COLOR = "#6b7280";
+
+const TRELLO_COLORS: Record<string, string> = {
+  green: "#22c55e",
+  yellow: "#eab308",
+  orange: "#f97316",
+  red: "#ef4444",
+  purple: "#a855f7",
+  blue: "#3b82f6",
+  sky: "#0ea5e9",
+  lime: "#84cc16",
+  pink: "#ec4899",
+  black: "#1f2937",
+};
+
+const CATEGORY_COLORS: Record<ColumnCategory, string> = {
+  backlog: "#64748b",
+  unstarted: "#6366f1",
+  started: "#f59e0b",
+  done: "#22c55e",
+  cancelled: "#ef4444",
+};
+
+/**
+ * Best guess at a column's workflow stage from its name
+ */
+function guessColumnCategory(name: string): ColumnCategory {
+  const n = name.toLowerCase();
+  if (/cancel|won't|wont do|rejected|declined/.test(n)) return "cancelled";
+  if (/done|complete|closed|shipped|released|resolved|finished/.test(n)) return "done";
+  if (/progress|doing|review|testing|active|started|qa/.test(n)) return "started";
+  if (/backlog|idea|someday|icebox|triage/.test(n)) return "backlog";
+  return "unstarted";
+}
+
+function emptyArchive(name: string, description: string | null, importer: ImportingUser): BoardArchive {
+  return {
+    format: BOARD_ARCHIVE_FORMAT,
+    version: BOARD_ARCHIVE_VERSION,
+    exportedAt: new Date().toISOString(),
+    board: { name, description, visibility: "private" },
+    users: [{ id: importer.id, email: importer.email, name: importer.name }],
+    members: [{ userId: importer.id, role: "admin" }],
+    labels: [],
+    customFields: [],
+    columns: [],
+    tasks: [],
+    dependencies: [],
+    comments: [],
+    activities: [],
+    attachments: [],
+    taskTemplates: [],
+    automations: [],
+  };
+}
+
+function newColumn(name: string, position: number, category: ColumnCategory): ArchiveColumn {
+  return {
+    id: randomUUID(),
+    name,
+    position,
+    color: CATEGORY_COLORS[category],
+    category,
+    wipLimit: null,
+    wipLimitPerAssignee: null,
+    wipMode: "warn",
+  };
+}
+
+function newTask(fields: Pick<ArchiveTask, "columnId" | "title" | "position" | "createdById"> & Partial<ArchiveTask>): ArchiveTask {
+  return {
+    id: randomUUID(),
+    parentId: null,
+    description: null,
+    priority: "medium",
+    startDate: null,
+    dueDate: null,
+    completed: false,
+    archived: false,
+    archivedAt: null,
+    assigneeId: null,
+    createdAt: new Date().toISOString(),
+    isRecurring: false,
+    recurrenceRule: null,
+    recurrenceEnd: null,
+    lastRecurrence: null,
+    parentRecurringId: null,
+    energyLevel: null,
+    timeEstimate: null,
+    labelIds: [],
+    customFieldValues: [],
+    ...fields,
+  };
+}
+
+/**
+ * Label names must be unique per board; suffix repeats
+ */
+function uniqueName(name: string, taken: Set<string>): string {
+  let candidate = name;
+  for (let i = 2; taken.has(candidate); i++) candidate = `${name} ${i}`;
+  taken.add(candidate);
+  return candidate;
+}
+
+function validDate(value: unknown): string | null {
+  if (typeof value !== "string" || !value) return null;
+  const date = new Date(value);
+  return isNaN(date.getTime()) ? null : date.toISOString();
+}
+
+function plural(count: number, word: string) {
+  return `${count} ${word}${count === 1 ? "" : "s"}`;
+}
+
+// ============================================
+// TRELLO
+// ============================================
+
+interface TrelloList { id: string; name: string; closed?: boolean; pos?: number }
+interface TrelloLabel { id: string; name?: string; color?: string | null }
+interface TrelloMember { id: string; fullName?: string; username?: string }
+interface TrelloCheckItem { name: string; state?: string; pos?: number }
+interface TrelloChecklist { id: string; idCard: string; name?: string; pos?: number; checkItems?: TrelloCheckItem[] }
+interface TrelloAttachment { name?: string; url?: string; mimeType?: string | null; bytes?: number | null; date?: string; isUpload?: boolean }
+interface TrelloCard {
+  id: string;
+  name: string;
+  desc?: string;
+  idList: string;
+  closed?: boolean;
+  pos?: number;
+  due?: string | null;
+  start?: string | null;
+  dueComplete?: boolean;
+  idLabels?: string[];
+  idMembers?: string[];
+  dateLastActivity?: string;
+  attachments?: TrelloAttachment[];
+  customFieldItems?: unknown[];
+}
+interface TrelloAction {
+  type: string;
+  date?: string;
+  data?: { text?: string; card?: { id: string } };
+  memberCreator?: TrelloMember;
+}
+interface TrelloBoard {
+  name: string;
+  desc?: string;
+  lists: TrelloList[];
+  cards: TrelloCard[];
+  labels?: TrelloLabel[];
+  checklists?: TrelloChecklist[];
+  members?: TrelloMember[];
+  actions?: TrelloAction[];
+  customFields?: unknown[];
+}
+
+const byPos = <T extends { pos?: number }>(a: T, b: T) => (a.pos ?? 0) - (b.pos ?? 0);
+
+/**
+ * Convert a Trello board JSON export (Menu → Print and export → Export as JSON)
+ */
+export function convertTrelloBoard(data: unknown, importer: ImportingUser): ConvertedBoard {
+  const trello = data as TrelloBoard;
+  if (!trello || typeof trello !== "object" || !Array.isArray(trello.lists) || !Array.isArray(trello.cards)) {
+    throw new Error("Not a Trello board export");
+  }
+
+  const archive = emptyArchive(trello.name?.trim() || "Trello import", trello.desc || null, importer);
+  const unmapped: string[] = [];
+
+  // Lists → columns; archived lists are left behind with their cards
+  const columns = new Map<string, ArchiveColumn>();
+  const openLists = trello.lists.filter((l) => !l.closed).sort(byPos);
+  openLists.forEach((list, i) => {
+    const column = newColumn(list.name, i, guessColumnCategory(list.name));
+    columns.set(list.id, column);
+    archive.columns.push(column);
+  });
+  const closedLists = trello.lists.filter((l) => l.closed);
+  if (closedLists.length > 0) {
+    const skipped = trello.cards.filter((c) => closedLists.some((l) => l.id === c.idList)).length;
+    unmapped.push(`${plural(closedLists.length, "archived list")} and their ${plural(skipped, "card")} were skipped`);
+  }
+  if (archive.columns.length === 0) {
+    archive.columns.push(newColumn("To Do", 0, "unstarted"));
+  }
+
+  // Labels; unnamed Trello labels are named after their color
+  const labels = new Map<string, string>();
+  const labelNames = new Set<string>();
+  for (const label of trello.labels || []) {
+    const colorKey = (label.color || "").split("_")[0];
+    const fallbackName = colorKey ? colorKey.charAt(0).toUpperCase() + colorKey.slice(1) : "Label";
+    const id = randomUUID();
+    labels.set(label.id, id);
+    archive.labels.push({
+      id,
+      name: uniqueName(label.name?.trim() || fallbackName, labelNames),
+      color: TRELLO_COLORS[colorKey] || DEFAULT_LABEL_COLOR,
+    });
+  }
+
+  const checklistsByCard = new Map<string, TrelloChecklist[]>();
+  for (const checklist of trello.checklists || []) {
+    checklistsByCard.set(checklist.idCard, [...(checklistsByCard.get(checklist.idCard) || []), checklist]);
+  }
+
+  const taskByCard = new Map<string, ArchiveTask>();
+  const assignedMembers = new Set<string>();
+  let customFieldCards = 0;
+  const positions = new Map<string, number>();
+
+  for (const card of [...trello.cards].sort(byPos)) {
+    const column = columns.get(card.idList);
+    if (!column) continue;
+
+    const position = positions.get(column.id) ?? 0;
+    positions.set(column.id, position + 1);
+
+    const closed = column.category === "done" || column.category === "cancelled";
+    const task = newTask({
+      columnId: column.id,
+      title: card.name,
+      description: card.desc || null,
+      position,
+      createdById: importer.id,
+      startDate: validDate(card.start),
+      dueDate: validDate(card.due),
+      completed: !!card.dueComplete || column.category === "done",
+      archived: !!card.closed || closed,
+      archivedAt: card.closed || closed ? validDate(card.dateLastActivity) ?? new Date().toISOString() : null,
+      labelIds: (card.idLabels || []).filter((id) => labels.has(id)).map((id) => labels.get(id)!),
+    });
+    archive.tasks.push(task);
+    taskByCard.set(card.id, task);
+
+    (card.idMembers || []).forEach((id) => assignedMembers.add(id));
+    if (card.customFieldItems?.length) customFieldCards++;
+
+    // Checklist items → subtasks; name them after the checklist when there are several
+    const checklists = (checklistsByCard.get(card.id) || []).sort(byPos);
+    let subPosition = 0;
+    for (const checklist of checklists) {
+      for (const item of [...(checklist.checkItems || [])].sort(byPos)) {
+        archive.tasks.push(
+          newTask({
+            columnId: column.id,
+            parentId: task.id,
+            title: checklists.length > 1 && checklist.name ? `${checklist.name}: ${item.name}` : item.name,
+            position: subPosition++,
+            createdById: importer.id,
+            completed: item.state === "complete",
+          })
+        );
+      }
+    }
+
+    // Uploaded files stay on Trello; keep them as links
+    for (const attachment of card.attachments || []) {
+      if (!attachment.url) continue;
+      archive.attachments.push({
+        taskId: task.id,
+        filename: attachment.name || attachment.url,
+        url: attachment.url,
+        mimeType: attachment.mimeType || "application/octet-stream",
+        size: attachment.bytes || 0,
+        uploadedById: importer.id,
+        createdAt: validDate(attachment.date) ?? new Date().toISOString(),
+      });
+    }
+  }
+
+  for (const action of trello.actions || []) {
+    if (action.type !== "commentCard" || !action.data?.card || !action.data.text) continue;
+    const task = taskByCard.get(action.data.card.id);
+    if (!task) continue;
+    const author = action.memberCreator?.fullName || action.memberCreator?.username;
+    archive.comments.push({
+      taskId: task.id,
+      userId: importer.id,
+      content: author ? `${action.data.text}\n\n— ${author} (Trello)` : action.data.text,
+      createdAt: validDate(action.date) ?? new Date().toISOString(),
+    });
+  }
+
+  // Trello exports carry no email addresses, so members cannot be matched to accounts
+  if (assignedMembers.size > 0) {
+    const names = Array.from(assignedMembers).map((id) => {
+      const member = (trello.members || []).find((m) => m.id === id);
+      return member?.fullName || member?.username || id;
+    });
+    unmapped.push(`Card members were not assigned because Trello exports have no email addresses: ${names.join(", ")}`);
+  }
+  if (customFieldCards > 0 || (trello.customFields || []).length > 0) {
+    unmapped.push(`Trello custom fields on ${plural(customFieldCards, "card")} were not imported`);
+  }
+
+  return { archive, unmapped };
+}
+
+// ============================================
+// JIRA
+// ============================================
+
+/**
+ * Minimal RFC 4180 parser: quoted fields, escaped quotes, embedded newlines
+ */
+export function parseCsv(text: string): string[][] {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = "";
+  let quoted = false;
+  const input = text.charCodeAt(0) === 0xfeff ? text.slice(1) : text;
+
+  for (let i = 0; i < input.length; i++) {
+    const ch = input[i];
+    if (quoted) {
+      if (ch === '"' && input[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (ch === '"') {
+        quoted = false;
+      } else {
+        field += ch;
+      }
+    } else if (ch === '"') {
+      quoted = true;
+    } else if (ch === ",") {
+      row.push(field);
+      field = "";
+    } else if (ch === "\n" || ch === "\r") {
+      if (ch === "\r" && input[i + 1] === "\n") i++;
+      row.push(field);
+      if (row.some((f) => f !== "")) rows.push(row);
+      row = [];
+      field = "";
+    } else {
+      field += ch;
+    }
+  }
+  row.push(field);
+  if (row.some((f) => f !== "")) rows.push(row);
+  return rows;
+}
+
+const JIRA_MONTHS = ["jan", "feb", "mar", "apr", "may", "jun", "jul", "aug", "sep", "oct", "nov", "dec"];
+
+/**
+ * Jira CSV dates look like "12/Mar/24 3:45 PM"; fall back to Date parsing
+ */
+function parseJiraDate(value: string | undefined): string | null {
+  if (!value) return null;
+  const match = value.trim().match(/^(\d{1,2})\/([A-Za-z]{3})\/(\d{2,4})(?:\s+(\d{1,2}):(\d{2})\s*(AM|PM)?)?$/i);
+  if (match) {
+    const month = JIRA_MONTHS.indexOf(match[2].toLowerCase());
+    if (month === -1) return null;
+    const year = match[3].length === 2 ? 2000 + parseInt(match[3], 10) : parseInt(match[3], 10);
+    let hours = match[4] ? parseInt(match[4], 10) : 0;
+    if (match[6]?.toUpperCase() === "PM" && hours < 12) hours += 12;
+    if (match[6]?.toUpperCase() === "AM" && hours === 12) hours = 0;
+    return new Date(year, month, parseInt(match[1], 10), hours, match[5] ? parseInt(match[5], 10) : 0).toISOString();
+  }
+  return validDate(value);
+}
+
+const JIRA_PRIORITIES: Record<string, string> = {
+  highest: "urgent",
+  blocker: "urgent",
+  critical: "high",
+  high: "high",
+  major: "high",
+  medium: "medium",
+  normal: "medium",
+  low: "low",
+  minor: "low",
+  lowest: "low",
+  trivial: "low",
+};
+
+const JIRA_STATUS_CATEGORIES: Record<string, ColumnCategory> = {
+  "to do": "unstarted",
+  "in progress": "started",
+  done: "done",
+};
+
+/**
+ * Convert a Jira issue CSV export (Filters → Export → CSV, all fields)
+ */
+export function convertJiraCsv(csv: string, importer: ImportingUser): ConvertedBoard {
+  const rows = parseCsv(csv);
+  if (rows.length < 2) throw new Error("The CSV file has no issues");
+
+  // Jira repeats headers for multi-value fields (Labels, Comment, issue links)
+  const header = rows[0].map((h) => h.trim());
+  const issues = rows.slice(1).map((cells) => {
+    const values = new Map<string, string[]>();
+    header.forEach((name, i) => {
+      const value = cells[i]?.trim();
+      if (value) values.set(name, [...(values.get(name) || []), value]);
+    });
+    return {
+      get: (name: string) => values.get(name)?.[0],
+      all: (name: string) => values.get(name) || [],
+      linkColumns: Array.from(values.keys()).filter((name) => /issue link/i.test(name)),
+    };
+  });
+
+  if (!header.includes("Summary") || !header.includes("Status")) {
+    throw new Error("Not a Jira CSV export (missing Summary or Status columns)");
+  }
+
+  const archive = emptyArchive(issues[0].get("Project name") || "Jira import", null, importer);
+  const unmapped: string[] = [];
+
+  const isEpic = (issue: (typeof issues)[number]) => issue.get("Issue Type")?.toLowerCase() === "epic";
+
+  // Epics become labels until the board has a better home for them
+  const epicLabels = new Map<string, string>();
+  const labelIds = new Map<string, string>();
+  const labelNames = new Set<string>();
+  const labelFor = (name: string) => {
+    if (!labelIds.has(name)) {
+      const id = randomUUID();
+      const color = LABEL_COLORS[labelIds.size % LABEL_COLORS.length].hex;
+      archive.labels.push({ id, name: uniqueName(name, labelNames), color });
+      labelIds.set(name, id);
+    }
+    return labelIds.get(name)!;
+  };
+  const epics = issues.filter(isEpic);
+  for (const epic of epics) {
+    const name = epic.get("Custom field (Epic Name)") || epic.get("Summary")!;
+    const label = labelFor(`Epic: ${name}`);
+    [epic.get("Issue key"), epic.get("Issue id")].forEach((key) => key && epicLabels.set(key, label));
+  }
+  if (epics.length > 0) {
+    unmapped.push(`${plural(epics.length, "epic")} imported as labels on their issues rather than as tasks`);
+  }
+
+  // Statuses → columns, ordered by Jira status category then first appearance
+  const categoryOrder: ColumnCategory[] = ["backlog", "unstarted", "started", "done", "cancelled"];
+  const statuses = new Map<string, ColumnCategory>();
+  for (const issue of issues) {
+    if (isEpic(issue)) continue;
+    const status = issue.get("Status")!;
+    if (statuses.has(status)) continue;
+    const jiraCategory = issue.get("Status Category")?.toLowerCase();
+    statuses.set(status, (jiraCategory && JIRA_STATUS_CATEGORIES[jiraCategory]) || guessColumnCategory(status));
+  }
+  const columns = new Map<string, ArchiveColumn>();
+  Array.from(statuses.entries())
+    .sort((a, b) => categoryOrder.indexOf(a[1]) - categoryOrder.indexOf(b[1]))
+    .forEach(([status, category], i) => {
+      const column = newColumn(status, i, category);
+      columns.set(status, column);
+      archive.columns.push(column);
+    });
+
+  // Only assignees exported as email addresses can be matched to accounts
+  const users = new Map<string, string>();
+  const unmatchedAssignees = new Set<string>();
+  const unknownPriorities = new Set<string>();
+
+  const taskByKey = new Map<string, ArchiveTask>();
+  const positions = new Map<string, number>();
+  const subtaskParents: { task: ArchiveTask; parentKey: string }[] = [];
+
+  for (const issue of issues) {
+    if (isEpic(issue)) continue;
+    const column = columns.get(issue.get("Status")!)!;
+    const position = positions.get(column.id) ?? 0;
+    positions.set(column.id, position + 1);
+
+    const priorityName = issue.get("Priority");
+    const priority = priorityName ? JIRA_PRIORITIES[priorityName.toLowerCase()] : "medium";
+    if (!priority) unknownPriorities.add(priorityName!);
+
+    let assigneeId: string | null = null;
+    const assignee = issue.get("Assignee");
+    if (assignee && assignee.includes("@")) {
+      const email = assignee.toLowerCase();
+      if (!users.has(email)) {
+        const id = email === importer.email.toLowerCase() ? importer.id : randomUUID();
+        users.set(email, id);
+        if (id !== importer.id) {
+          archive.users.push({ id, email, name: null });
+          archive.members.push({ userId: id, role: "member" });
+        }
+      }
+      assigneeId = users.get(email)!;
+    } else if (assignee) {
+      unmatchedAssignees.add(assignee);
+    }
+
+    const closed = column.category === "done" || column.category === "cancelled";
+    const resolved = parseJiraDate(issue.get("Resolved"));
+    const epicKey = issue.get("Custom field (Epic Link)") || issue.get("Parent");
+    const labels = issue.all("Labels").map(labelFor);
+    if (epicKey && epicLabels.has(epicKey)) labels.push(epicLabels.get(epicKey)!);
+
+    const key = issue.get("Issue key");
+    const task = newTask({
+      columnId: column.id,
+      title: key ? `${key} ${issue.get("Summary")}` : issue.get("Summary")!,
+      description: issue.get("Description") || null,
+      position,
+      priority: priority || "medium",
+      createdById: importer.id,
+      createdAt: parseJiraDate(issue.get("Created")) ?? new Date().toISOString(),
+      dueDate: parseJiraDate(issue.get("Due Date")),
+      completed: column.category === "done",
+      archived: closed,
+      archivedAt: closed ? resolved ?? new Date().toISOString() : null,
+      assigneeId,
+      labelIds: labels,
+    });
+    archive.tasks.push(task);
+    [key, issue.get("Issue id")].forEach((k) => k && taskByKey.set(k, task));
+
+    const parentKey = issue.get("Parent id") || issue.get("Parent");
+    if (parentKey && !epicLabels.has(parentKey)) subtaskParents.push({ task, parentKey });
+
+    // Comment cells are "date;author;body"
+    for (const comment of issue.all("Comment")) {
+      const [date, author, ...body] = comment.split(";");
+      const content = body.join(";").trim() || comment;
+      archive.comments.push({
+        taskId: task.id,
+        userId: importer.id,
+        content: author && body.length > 0 ? `${content}\n\n— ${author} (Jira)` : content,
+        createdAt: parseJiraDate(date) ?? new Date().toISOString(),
+      });
+    }
+  }
+
+  // Sub-tasks live in their parent's column
+  let orphanedSubtasks = 0;
+  for (const { task, parentKey } of subtaskParents) {
+    const parent = taskByKey.get(parentKey);
+    if (!parent || parent.parentId) {
+      orphanedSubtasks++;
+      continue;
+    }
+    task.parentId = parent.id;
+    task.columnId = parent.columnId;
+  }
+  if (orphanedSubtasks > 0) {
+    unmapped.push(`${plural(orphanedSubtasks, "sub-task")} whose parent was not in the export were imported as top-level tasks`);
+  }
+
+  // "Blocks" links → dependencies; other link types have no equivalent
+  const dependencyKeys = new Set<string>();
+  const otherLinks = new Map<string, number>();
+  let externalLinks = 0;
+  for (const issue of issues) {
+    const self = taskByKey.get(issue.get("Issue key") || "");
+    if (!self) continue;
+    for (const columnName of issue.linkColumns) {
+      const match = columnName.match(/^(Inward|Outward) issue link \((.+)\)$/i);
+      if (!match) continue;
+      const [, direction, linkType] = match;
+      for (const otherKey of issue.all(columnName)) {
+        if (linkType.toLowerCase() !== "blocks") {
+          otherLinks.set(linkType, (otherLinks.get(linkType) || 0) + 1);
+          continue;
+        }
+        const other = taskByKey.get(otherKey);
+        if (!other) {
+          externalLinks++;
+          continue;
+        }
+        const [task, blocker] = direction.toLowerCase() === "outward" ? [other, self] : [self, other];
+        const dedupeKey = `${task.id}:${blocker.id}`;
+        if (task === blocker || dependencyKeys.has(dedupeKey)) continue;
+        dependencyKeys.add(dedupeKey);
+        archive.dependencies.push({
+          taskId: task.id,
+          blockedById: blocker.id,
+          createdById: importer.id,
+          createdAt: new Date().toISOString(),
+        });
+      }
+    }
+  }
+  otherLinks.forEach((count, linkType) => {
+    unmapped.push(`${plural(count, `"${linkType}" link`)} skipped; only "Blocks" links become dependencies`);
+  });
+  if (externalLinks > 0) {
+    unmapped.push(`${plural(externalLinks, "blocking link")} to issues outside the export skipped`);
+  }
+  if (unmatchedAssignees.size > 0) {
+    unmapped.push(
+      `Assignees exported as display names could not be matched to accounts: ${Array.from(unmatchedAssignees).join(", ")}`
+    );
+  }
+  if (unknownPriorities.size > 0) {
+    unmapped.push(`Unknown priorities set to Medium: ${Array.from(unknownPriorities).join(", ")}`);
+  }
+  const sprints = issues.filter((issue) => issue.get("Sprint")).length;
+  if (sprints > 0) {
+    unmapped.push(`Sprint membership on ${plural(sprints, "issue")} was not imported`);
+  }
+
+  return { archive, unmapped };
+}
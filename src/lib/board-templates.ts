@@ -1,6 +1,9 @@
+import type { ColumnCategory } from "@/types";
+
 export interface TemplateColumn {
   name: string;
   color: string;
+  category: ColumnCategory;
 }
 
 export interface TemplateLabel {
@@ -8,12 +11,24 @@ export interface TemplateLabel {
   color: string;
 }
 
+export type BoardTemplateVisibility = "private" | "org";
+
 export interface BoardTemplate {
   id: string;
   name: string;
   description: string;
   columns: TemplateColumn[];
   labels: TemplateLabel[];
+  // Set on templates saved from a live board
+  saved?: {
+    visibility: BoardTemplateVisibility;
+    createdBy: { id: string; name: string | null; email: string };
+    createdAt: string;
+    customFields: number;
+    taskTemplates: number;
+    automations: number;
+    tasks: number;
+  };
 }
 
 export const boardTemplates: BoardTemplate[] = [
@@ -22,9 +37,9 @@ export const boardTemplates: BoardTemplate[] = [
     name: "Blank Board",
     description: "Start from scratch",
     columns: [
-      { name: "To Do", color: "#6366f1" },
-      { name: "In Progress", color: "#f59e0b" },
-      { name: "Done", color: "#22c55e" },
+      { name: "To Do", color: "#6366f1", category: "unstarted" },
+      { name: "In Progress", color: "#f59e0b", category: "started" },
+      { name: "Done", color: "#22c55e", category: "done" },
     ],
     labels: [],
   },
@@ -33,11 +48,11 @@ export const boardTemplates: BoardTemplate[] = [
     name: "Sprint Board",
     description: "Agile sprint planning",
     columns: [
-      { name: "Backlog", color: "#6b7280" },
-      { name: "To Do", color: "#6366f1" },
-      { name: "In Progress", color: "#f59e0b" },
-      { name: "Review", color: "#8b5cf6" },
-      { name: "Done", color: "#22c55e" },
+      { name: "Backlog", color: "#6b7280", category: "backlog" },
+      { name: "To Do", color: "#6366f1", category: "unstarted" },
+      { name: "In Progress", color: "#f59e0b", category: "started" },
+      { name: "Review", color: "#8b5cf6", category: "started" },
+      { name: "Done", color: "#22c55e", category: "done" },
     ],
     labels: [
       { name: "Bug", color: "#ef4444" },
@@ -51,10 +66,10 @@ export const boardTemplates: BoardTemplate[] = [
     name: "Product Roadmap",
     description: "Plan product features",
     columns: [
-      { name: "Ideas", color: "#8b5cf6" },
-      { name: "Planned", color: "#6366f1" },
-      { name: "In Development", color: "#f59e0b" },
-      { name: "Shipped", color: "#22c55e" },
+      { name: "Ideas", color: "#8b5cf6", category: "backlog" },
+      { name: "Planned", color: "#6366f1", category: "unstarted" },
+      { name: "In Development", color: "#f59e0b", category: "started" },
+      { name: "Shipped", color: "#22c55e", category: "done" },
     ],
     labels: [
       { name: "P0 - Critical", color: "#ef4444" },
@@ -68,12 +83,12 @@ export const boardTemplates: BoardTemplate[] = [
     name: "Sales Pipeline",
     description: "Track sales opportunities",
     columns: [
-      { name: "Lead", color: "#6b7280" },
-      { name: "Contacted", color: "#6366f1" },
-      { name: "Proposal", color: "#f59e0b" },
-      { name: "Negotiation", color: "#8b5cf6" },
-      { name: "Won", color: "#22c55e" },
-      { name: "Lost", color: "#ef4444" },
+      { name: "Lead", color: "#6b7280", category: "backlog" },
+      { name: "Contacted", color: "#6366f1", category: "unstarted" },
+      { name: "Proposal", color: "#f59e0b", category: "started" },
+      { name: "Negotiation", color: "#8b5cf6", category: "started" },
+      { name: "Won", color: "#22c55e", category: "done" },
+      { name: "Lost", color: "#ef4444", category: "cancelled" },
     ],
     labels: [
       { name: "Hot", color: "#ef4444" },
@@ -86,11 +101,11 @@ export const boardTemplates: BoardTemplate[] = [
     name: "Content Calendar",
     description: "Plan and track content",
     columns: [
-      { name: "Ideas", color: "#8b5cf6" },
-      { name: "Writing", color: "#6366f1" },
-      { name: "Review", color: "#f59e0b" },
-      { name: "Scheduled", color: "#22c55e" },
-      { name: "Published", color: "#10b981" },
+      { name: "Ideas", color: "#8b5cf6", category: "backlog" },
+      { name: "Writing", color: "#6366f1", category: "started" },
+      { name: "Review", color: "#f59e0b", category: "started" },
+      { name: "Scheduled", color: "#22c55e", category: "started" },
+      { name: "Published", color: "#10b981", category: "done" },
     ],
     labels: [
       { name: "Blog", color: "#3b82f6" },
@@ -0,0 +1,77 @@
+import * as Y from "yjs";
+
+// Name of the shared text in a description doc
+export const DESCRIPTION_TEXT = "description";
+
+/**
+ * Base64 for binary Yjs updates and positions, so they fit in JSON.
+ * Works in the browser and on the server alike.
+ */
+export function toBase64(bytes: Uint8Array): string {
+  let binary = "";
+  bytes.forEach((byte) => {
+    binary += String.fromCharCode(byte);
+  });
+  return btoa(binary);
+}
+
+export function fromBase64(value: string): Uint8Array {
+  return Uint8Array.from(atob(value), (char) => char.charCodeAt(0));
+}
+
+/**
+ * The description saved to the task for a doc's text
+ */
+export function normalizeDescription(text: string): string | null {
+  return text.trim() || null;
+}
+
+function isHighSurrogate(code: number): boolean {
+  return code >= 0xd800 && code <= 0xdbff;
+}
+
+/**
+ * Apply a textarea change to the shared text as a single splice: whatever
+ * lies between the parts the old and new values have in common at either end
+ */
+export function applyTextEdit(text: Y.Text, previous: string, next: string): void {
+  let start = 0;
+  while (start < previous.length && start < next.length && previous[start] === next[start]) {
+    start++;
+  }
+  let end = 0;
+  while (
+    end < previous.length - start &&
+    end < next.length - start &&
+    previous[previous.length - 1 - end] === next[next.length - 1 - end]
+  ) {
+    end++;
+  }
+  // Don't split a surrogate pair, which the shared text can't hold half of
+  if (start > 0 && isHighSurrogate(previous.charCodeAt(start - 1))) start--;
+  if (end > 0 && isHighSurrogate(previous.charCodeAt(previous.length - end - 1))) end--;
+
+  const removed = previous.length - start - end;
+  const inserted = next.slice(start, next.length - end);
+  if (removed > 0) text.delete(start, removed);
+  if (inserted) text.insert(start, inserted);
+}
+
+/**
+ * A position in the text that stays put as others edit around it, encoded
+ */
+export function encodeTextPosition(text: Y.Text, index: number): string {
+  return toBase64(Y.encodeRelativePosition(Y.createRelativePositionFromTypeIndex(text, index)));
+}
+
+/**
+ * Where an encoded position is now; null when it can't be placed
+ */
+export function decodeTextPosition(doc: Y.Doc, value: string): number | null {
+  try {
+    const position = Y.createAbsolutePositionFromRelativePosition(Y.decodeRelativePosition(fromBase64(value)), doc);
+    return position?.index ?? null;
+  } catch {
+    return null;
+  }
+}
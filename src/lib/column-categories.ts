@@ -0,0 +1,55 @@
+import type { ColumnCategory } from "@/types";
+
+export const COLUMN_CATEGORIES: { id: ColumnCategory; label: string }[] = [
+  { id: "backlog", label: "Backlog" },
+  { id: "unstarted", label: "Not started" },
+  { id: "started", label: "In progress" },
+  { id: "done", label: "Done" },
+  { id: "cancelled", label: "Cancelled" },
+];
+
+// Tasks in these columns are finished even if never ticked off
+export const CLOSED_CATEGORIES: ColumnCategory[] = ["done", "cancelled"];
+
+export function isColumnCategory(value: unknown): value is ColumnCategory {
+  return COLUMN_CATEGORIES.some((c) => c.id === value);
+}
+
+/**
+ * Done and cancelled columns hold finished work
+ */
+export function isClosedCategory(category: string | null | undefined): boolean {
+  return CLOSED_CATEGORIES.some((c) => c === category);
+}
+
+/**
+ * A task counts as finished once it is ticked off or sits in a done/cancelled column
+ */
+export function isTaskFinished(task: { completed: boolean; column: { category: string } }): boolean {
+  return task.completed || isClosedCategory(task.column.category);
+}
+
+/**
+ * Completion and archive changes for a task entering a column.
+ *
+ * Done columns complete and archive the task, cancelled columns archive it
+ * without completing it, and any other column reopens it.
+ */
+export function getCategoryTaskUpdates(
+  category: string,
+  task: { completed: boolean; archived: boolean }
+): { completed?: boolean; archived?: boolean; archivedAt?: Date | null } {
+  if (category === "done") {
+    return {
+      ...(!task.completed && { completed: true }),
+      ...(!task.archived && { archived: true, archivedAt: new Date() }),
+    };
+  }
+  if (category === "cancelled") {
+    return task.archived ? {} : { archived: true, archivedAt: new Date() };
+  }
+  return {
+    ...(task.completed && { completed: false }),
+    ...(task.archived && { archived: false, archivedAt: null }),
+  };
+}
@@ -0,0 +1,136 @@
+import { prisma } from "./prisma";
+import { isTaskFinished } from "./column-categories";
+import { notifyUnblocked } from "./notifications";
+
+// Boards that enforce dependencies keep blocked tasks out of these columns
+const GATED_CATEGORIES = ["started", "done"];
+
+// Lag (or lead, when negative) between a blocker ending and its dependent starting
+export const MAX_LAG_DAYS = 365;
+
+export function isValidLag(value: unknown): value is number {
+  return Number.isInteger(value) && Math.abs(value as number) <= MAX_LAG_DAYS;
+}
+
+export interface DependencyCheckResult {
+  blocked: boolean;
+  message: string | null;
+}
+
+const blockerSelect = {
+  select: { id: true, title: true, completed: true, column: { select: { category: true } } },
+} as const;
+
+/**
+ * Whether a change starts or finishes a task, which blocked tasks may not do
+ * on boards that enforce dependencies
+ */
+export function isGatedChange(category: string | null | undefined, completed?: boolean): boolean {
+  return completed === true || GATED_CATEGORIES.some((c) => c === category);
+}
+
+/**
+ * Find the cycle that "taskId is blocked by blockedById" would close, if any.
+ *
+ * Follows blockers outward from the new one, breadth first and across boards
+ * (tasks moved with their dependencies keep them), so chains of any length
+ * are caught. Returns the task titles around the cycle, starting and ending
+ * with taskId, each blocked by the next.
+ */
+export async function findDependencyCycle(taskId: string, blockedById: string): Promise<string[] | null> {
+  // The task each one reached was found to block, to trace the path back
+  const reachedFrom = new Map<string, string | null>([[blockedById, null]]);
+  let frontier = [blockedById];
+
+  while (frontier.length > 0 && !reachedFrom.has(taskId)) {
+    const dependencies = await prisma.taskDependency.findMany({
+      where: { taskId: { in: frontier }, task: { deletedAt: null }, blockedBy: { deletedAt: null } },
+      select: { taskId: true, blockedById: true },
+    });
+    frontier = [];
+    for (const dep of dependencies) {
+      if (reachedFrom.has(dep.blockedById)) continue;
+      reachedFrom.set(dep.blockedById, dep.taskId);
+      frontier.push(dep.blockedById);
+    }
+  }
+
+  if (!reachedFrom.has(taskId)) return null;
+
+  // blockedById -> ... -> taskId
+  const path: string[] = [];
+  for (let id: string | null | undefined = taskId; id; id = reachedFrom.get(id)) {
+    path.unshift(id);
+  }
+  const cycle = [taskId, ...path];
+
+  const tasks = await prisma.task.findMany({
+    where: { id: { in: cycle } },
+    select: { id: true, title: true },
+  });
+  const titles = new Map(tasks.map((t) => [t.id, t.title]));
+  return cycle.map((id) => titles.get(id) ?? "Untitled");
+}
+
+/**
+ * Check whether tasks may be started or finished under the board's
+ * dependency policy. Tasks with unfinished blockers are held back.
+ */
+export async function checkDependencyPolicy(
+  board: { enforceDependencies: boolean },
+  taskIds: string[]
+): Promise<DependencyCheckResult> {
+  const ok: DependencyCheckResult = { blocked: false, message: null };
+  if (!board.enforceDependencies || taskIds.length === 0) return ok;
+
+  const dependencies = await prisma.taskDependency.findMany({
+    where: { taskId: { in: taskIds }, blockedBy: { deletedAt: null } },
+    select: { taskId: true, task: { select: { title: true } }, blockedBy: blockerSelect },
+  });
+
+  const open = dependencies.filter((dep) => !isTaskFinished(dep.blockedBy));
+  if (open.length === 0) return ok;
+
+  // Name the first held-back task and everything still blocking it
+  const { taskId, task } = open[0];
+  const blockers = open.filter((dep) => dep.taskId === taskId).map((dep) => `"${dep.blockedBy.title}"`);
+  return {
+    blocked: true,
+    message: `"${task.title}" is blocked by ${blockers.join(", ")}`,
+  };
+}
+
+/**
+ * Tell the people on tasks blocked by newly finished tasks that a blocker is
+ * done. Assignees are notified, or the creator when nobody is assigned.
+ */
+export async function notifyBlockersFinished(finishedTaskIds: string[], actorId?: string) {
+  if (finishedTaskIds.length === 0) return;
+
+  const dependencies = await prisma.taskDependency.findMany({
+    where: { blockedById: { in: finishedTaskIds }, task: { deletedAt: null } },
+    select: {
+      blockedBy: { select: { title: true } },
+      task: {
+        select: {
+          id: true,
+          title: true,
+          completed: true,
+          assigneeId: true,
+          createdById: true,
+          column: { select: { category: true, boardId: true } },
+          blockedBy: { where: { blockedBy: { deletedAt: null } }, select: { blockedBy: blockerSelect } },
+        },
+      },
+    },
+  });
+
+  for (const { task, blockedBy } of dependencies) {
+    if (isTaskFinished(task)) continue;
+    const recipientId = task.assigneeId ?? task.createdById;
+    if (recipientId === actorId) continue;
+
+    const remaining = task.blockedBy.filter((dep) => !isTaskFinished(dep.blockedBy)).length;
+    await notifyUnblocked(recipientId, task.title, task.id, task.column.boardId, blockedBy.title, remaining);
+  }
+}
@@ -0,0 +1,165 @@
+import * as Y from "yjs";
+import { prisma } from "./prisma";
+import { DESCRIPTION_TEXT, normalizeDescription } from "./collab-text";
+
+// While people type, their edits are saved to the task at most this often;
+// the description-sync job saves whatever is left once they stop
+const DESCRIPTION_SAVE_INTERVAL_MS = 5000;
+
+// Docs untouched this long are dropped, and rebuilt from the description when next opened
+const DESCRIPTION_DOC_RETENTION_MS = 7 * 24 * 60 * 60 * 1000;
+
+// The part of a transaction client a save needs
+type Transaction = Pick<typeof prisma, "task">;
+
+interface LockedDoc {
+  id: string;
+  taskId: string;
+  state: Buffer;
+  dirty: boolean;
+  savedAt: Date;
+}
+
+function loadDoc(state: Uint8Array): Y.Doc {
+  const doc = new Y.Doc();
+  Y.applyUpdate(doc, state);
+  return doc;
+}
+
+function readText(state: Uint8Array): string {
+  return loadDoc(state).getText(DESCRIPTION_TEXT).toString();
+}
+
+function seedState(description: string | null): Buffer {
+  const doc = new Y.Doc();
+  doc.getText(DESCRIPTION_TEXT).insert(0, description ?? "");
+  return Buffer.from(Y.encodeStateAsUpdate(doc));
+}
+
+/**
+ * Whether the description was changed without going through the doc since
+ * it was last saved, e.g. by a series edit or an import
+ */
+function isStale(doc: { state: Uint8Array; dirty: boolean }, description: string | null): boolean {
+  return !doc.dirty && normalizeDescription(readText(doc.state)) !== description;
+}
+
+function saveDescription(tx: Transaction, taskId: string, text: string) {
+  return tx.task.update({
+    where: { id: taskId },
+    // Setting version leaves it alone: the doc has already merged everyone's edits
+    data: { description: normalizeDescription(text), version: undefined },
+  });
+}
+
+/**
+ * The shared state of a task's description, starting a doc from the
+ * description when there isn't one or it's out of date. Null when the
+ * task doesn't exist.
+ */
+export async function openDescriptionDoc(taskId: string): Promise<{ docId: string; state: Buffer } | null> {
+  const task = await prisma.task.findUnique({
+    where: { id: taskId },
+    select: { description: true, descriptionDoc: true },
+  });
+  if (!task) return null;
+
+  const existing = task.descriptionDoc;
+  if (existing && !isStale(existing, task.description)) {
+    return { docId: existing.id, state: existing.state };
+  }
+
+  // Replaced conditionally, so people opening it at the same time end up on the same doc
+  if (existing) {
+    await prisma.descriptionDoc.deleteMany({ where: { id: existing.id } });
+  }
+  await prisma.descriptionDoc.createMany({
+    data: [{ taskId, state: seedState(task.description) }],
+    skipDuplicates: true,
+  });
+  const doc = await prisma.descriptionDoc.findUnique({ where: { taskId } });
+  return doc && { docId: doc.id, state: doc.state };
+}
+
+/**
+ * Merge an edit into a task's description doc, saving the text to the task
+ * when it's been long enough since the last save. Resolves to false when the
+ * doc has been replaced since the editor opened it, in which case the edit
+ * is dropped and the editor should reopen it.
+ */
+export async function applyDescriptionUpdate(taskId: string, docId: string, update: Uint8Array): Promise<boolean> {
+  return prisma.$transaction(async (tx) => {
+    const [doc] = await tx.$queryRaw<LockedDoc[]>`
+      SELECT "id", "taskId", "state", "dirty", "savedAt" FROM "DescriptionDoc"
+      WHERE "taskId" = ${taskId}
+      FOR UPDATE
+    `;
+    if (!doc || doc.id !== docId) return false;
+
+    if (!doc.dirty) {
+      const task = await tx.task.findUnique({ where: { id: taskId }, select: { description: true } });
+      if (!task || isStale(doc, task.description)) return false;
+    }
+
+    const merged = loadDoc(doc.state);
+    Y.applyUpdate(merged, update);
+    const save = Date.now() - doc.savedAt.getTime() >= DESCRIPTION_SAVE_INTERVAL_MS;
+
+    await tx.descriptionDoc.update({
+      where: { id: doc.id },
+      data: {
+        state: Buffer.from(Y.encodeStateAsUpdate(merged)),
+        dirty: !save,
+        ...(save && { savedAt: new Date() }),
+      },
+    });
+    if (save) {
+      await saveDescription(tx, taskId, merged.getText(DESCRIPTION_TEXT).toString());
+    }
+    return true;
+  });
+}
+
+/**
+ * Drop a task's description doc after its description was set outright.
+ * Editors with it open are told to reopen it through a description:reset event.
+ */
+export async function resetDescriptionDoc(taskId: string): Promise<void> {
+  await prisma.descriptionDoc.deleteMany({ where: { taskId } });
+}
+
+/**
+ * Save every doc with edits that haven't reached its task yet.
+ * Resolves to how many descriptions were saved.
+ */
+export async function saveDescriptionDocs(): Promise<number> {
+  const pending = await prisma.descriptionDoc.findMany({ where: { dirty: true }, select: { id: true } });
+
+  let saved = 0;
+  for (const { id } of pending) {
+    const didSave = await prisma.$transaction(async (tx) => {
+      const [doc] = await tx.$queryRaw<LockedDoc[]>`
+        SELECT "id", "taskId", "state", "dirty", "savedAt" FROM "DescriptionDoc"
+        WHERE "id" = ${id} AND "dirty"
+        FOR UPDATE
+      `;
+      if (!doc) return false;
+
+      await tx.descriptionDoc.update({ where: { id }, data: { dirty: false, savedAt: new Date() } });
+      await saveDescription(tx, doc.taskId, readText(doc.state));
+      return true;
+    });
+    if (didSave) saved++;
+  }
+  return saved;
+}
+
+/**
+ * Delete saved docs nobody has edited in a while. Resolves to how many went.
+ */
+export async function pruneDescriptionDocs(): Promise<number> {
+  const { count } = await prisma.descriptionDoc.deleteMany({
+    where: { dirty: false, updatedAt: { lt: new Date(Date.now() - DESCRIPTION_DOC_RETENTION_MS) } },
+  });
+  return count;
+}
@@ -0,0 +1,80 @@
+import { Prisma, User } from "@prisma/client";
+import { isTaskFinished } from "./column-categories";
+import { sumPoints } from "./story-points";
+import { isAdmin } from "./permissions";
+import type { EpicProgress, EpicStatus } from "@/types";
+
+export const EPIC_STATUSES: EpicStatus[] = ["open", "closed"];
+
+export const epicCreatorSelect = { select: { id: true, name: true, email: true } } as const;
+
+// What boards and cards show about a task's epic
+export const taskEpicSelect = { select: { id: true, title: true, color: true } } as const;
+
+/**
+ * Boards whose tasks a user may see as epic children, matching the boards list
+ */
+export function visibleBoardsWhere(user: Pick<User, "id" | "role">): Prisma.BoardWhereInput {
+  if (isAdmin(user)) return {};
+  return {
+    OR: [
+      { ownerId: user.id },
+      { members: { some: { userId: user.id } } },
+      { visibility: "team" },
+      { visibility: "public" },
+    ],
+  };
+}
+
+/**
+ * An epic's child tasks on boards the user can see.
+ * Epics group top-level cards; subtasks count through their parent.
+ */
+export function epicChildrenWhere(epicId: string | { in: string[] }, user: Pick<User, "id" | "role">): Prisma.TaskWhereInput {
+  return {
+    epicId,
+    parentId: null,
+    column: { board: visibleBoardsWhere(user) },
+  };
+}
+
+// Fields the rollup reads from each child
+export const epicChildSelect = {
+  completed: true,
+  startDate: true,
+  dueDate: true,
+  storyPoints: true,
+  column: { select: { category: true } },
+  subtasks: { where: { deletedAt: null }, select: { storyPoints: true } },
+} as const;
+
+interface EpicChild {
+  completed: boolean;
+  startDate: Date | null;
+  dueDate: Date | null;
+  storyPoints: number | null;
+  column: { category: string };
+  subtasks: { storyPoints: number | null }[];
+}
+
+/**
+ * Roll up completion and schedule from an epic's children
+ */
+export function getEpicProgress(children: EpicChild[], epic: { dueDate: Date | null }): EpicProgress {
+  const now = new Date();
+  const completed = children.filter(isTaskFinished).length;
+  const starts = children.flatMap((t) => (t.startDate ? [t.startDate.getTime()] : []));
+  const dues = children.flatMap((t) => (t.dueDate ? [t.dueDate.getTime()] : []));
+
+  return {
+    total: children.length,
+    completed,
+    percent: children.length > 0 ? Math.round((completed / children.length) * 100) : 0,
+    overdue: children.filter((t) => t.dueDate && t.dueDate < now && !isTaskFinished(t)).length,
+    startDate: starts.length > 0 ? new Date(Math.min(...starts)).toISOString() : null,
+    dueDate: dues.length > 0 ? new Date(Math.max(...dues)).toISOString() : null,
+    lateTasks: epic.dueDate ? children.filter((t) => t.dueDate && t.dueDate > epic.dueDate!).length : 0,
+    totalPoints: sumPoints(children),
+    completedPoints: sumPoints(children.filter(isTaskFinished)),
+  };
+}
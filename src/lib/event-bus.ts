@@ -0,0 +1,540 @@
+import { Client } from "pg";
+import { prisma } from "./prisma";
+
+// id is null for transient messages, which aren't logged
+export type BusHandler = (message: string, id: number | null) => void;
+
+export interface LoggedMessage {
+  id: number;
+  channel: string;
+  message: string;
+}
+
+interface LogEntry {
+  id: number;
+  message: string;
+  prevId: number | null; // the channel's previous message, to spot trimmed gaps
+}
+
+export interface PresenceUser {
+  userId: string;
+  userName: string;
+}
+
+/**
+ * Carries board and activity events between server instances and tracks
+ * who is connected to each board across all of them.
+ *
+ * Every message gets an increasing id and stays in a per-channel replay log
+ * of the last REPLAY_LOG_SIZE messages, so streams can resume after a drop.
+ * Transient messages skip the log and only reach whoever is listening.
+ *
+ * Pick the implementation with EVENT_BUS: "memory" (default, single
+ * instance) or "postgres" (LISTEN/NOTIFY, any number of instances).
+ */
+export interface EventBus {
+  /** Deliver a message to every subscriber of the channel on every instance */
+  publish(channel: string, message: string): void;
+  /** Deliver a message without logging it or giving it an id, for things that go stale quickly */
+  publishTransient(channel: string, message: string): void;
+  subscribe(channel: string, handler: BusHandler): () => void;
+  /** Messages on the channels after the given id, oldest first; null when the log no longer covers them */
+  replay(channels: string[], afterId: number): Promise<LoggedMessage[] | null>;
+  /** Register a connection; resolves to how many the user now has on the board */
+  join(boardId: string, connectionId: string, user: PresenceUser): Promise<number>;
+  /** Drop a connection; resolves to how many the user still has on the board */
+  leave(boardId: string, connectionId: string, userId: string): Promise<number>;
+  /** Everyone connected to the board, once each */
+  getPresence(boardId: string): Promise<PresenceUser[]>;
+}
+
+// Messages kept per channel for streams that reconnect
+const REPLAY_LOG_SIZE = 200;
+
+// NOTIFY payloads are capped at 8000 bytes; larger messages are read from EventLog
+const MAX_NOTIFY_BYTES = 7500;
+const PG_CHANNEL = "rhythm_events";
+// Advisory lock held while appending, so ids become visible in order
+const EVENT_LOG_LOCK = 7402113;
+
+// Connections are refreshed this often, and stop counting when they miss a few
+const PRESENCE_REFRESH_MS = 30 * 1000;
+const PRESENCE_TTL_MS = 3 * PRESENCE_REFRESH_MS;
+
+// Quiet channels' logs are dropped after this; streams resuming from before it resync
+const EVENT_LOG_RETENTION_MS = 24 * 60 * 60 * 1000;
+
+const MAX_RECONNECT_DELAY_MS = 30 * 1000;
+
+/**
+ * Handlers registered on this instance, by channel
+ */
+class LocalChannels {
+  private handlers = new Map<string, Set<BusHandler>>();
+
+  add(channel: string, handler: BusHandler): () => void {
+    if (!this.handlers.has(channel)) {
+      this.handlers.set(channel, new Set());
+    }
+    this.handlers.get(channel)!.add(handler);
+
+    return () => {
+      const handlers = this.handlers.get(channel);
+      if (handlers) {
+        handlers.delete(handler);
+        if (handlers.size === 0) {
+          this.handlers.delete(channel);
+        }
+      }
+    };
+  }
+
+  has(channel: string): boolean {
+    return this.handlers.has(channel);
+  }
+
+  names(): string[] {
+    return Array.from(this.handlers.keys());
+  }
+
+  deliver(channel: string, message: string, id: number | null): void {
+    this.handlers.get(channel)?.forEach((handler) => {
+      try {
+        handler(message, id);
+      } catch (error) {
+        console.error("Error in event bus handler:", error);
+      }
+    });
+  }
+}
+
+/**
+ * Pick out what a stream missed after afterId from each channel's log.
+ * If a channel's first message after it follows one that's been trimmed,
+ * the gap can't be filled and the result is null.
+ */
+function collectMissed(logs: Map<string, LogEntry[]>, afterId: number): LoggedMessage[] | null {
+  const missed: LoggedMessage[] = [];
+  for (const [channel, entries] of Array.from(logs.entries())) {
+    const after = entries.filter((entry) => entry.id > afterId);
+    if (after.length > 0 && after[0].prevId !== null && after[0].prevId > afterId) {
+      return null;
+    }
+    missed.push(...after.map((entry) => ({ id: entry.id, channel, message: entry.message })));
+  }
+  return missed.sort((a, b) => a.id - b.id);
+}
+
+function uniqueUsers(users: Iterable<PresenceUser>): PresenceUser[] {
+  const byId = new Map<string, PresenceUser>();
+  for (const user of Array.from(users)) {
+    if (!byId.has(user.userId)) {
+      byId.set(user.userId, { userId: user.userId, userName: user.userName });
+    }
+  }
+  return Array.from(byId.values());
+}
+
+/**
+ * Everything stays in this process. Fine for a single instance.
+ *
+ * Ids start from the time the process started, so they keep increasing
+ * across restarts and streams from before one are told to resync.
+ */
+class MemoryEventBus implements EventBus {
+  private channels = new LocalChannels();
+  private log = new Map<string, LogEntry[]>();
+  private readonly firstId = Date.now();
+  private lastId = this.firstId;
+  // boardId -> connectionId -> user
+  private connections = new Map<string, Map<string, PresenceUser>>();
+
+  publish(channel: string, message: string): void {
+    const entries = this.log.get(channel) ?? [];
+    const id = ++this.lastId;
+    entries.push({ id, message, prevId: entries[entries.length - 1]?.id ?? null });
+    this.log.set(channel, entries.slice(-REPLAY_LOG_SIZE));
+
+    this.channels.deliver(channel, message, id);
+  }
+
+  publishTransient(channel: string, message: string): void {
+    this.channels.deliver(channel, message, null);
+  }
+
+  subscribe(channel: string, handler: BusHandler): () => void {
+    return this.channels.add(channel, handler);
+  }
+
+  async replay(channels: string[], afterId: number): Promise<LoggedMessage[] | null> {
+    if (afterId < this.firstId || afterId > this.lastId) return null;
+    return collectMissed(new Map(channels.map((channel) => [channel, this.log.get(channel) ?? []])), afterId);
+  }
+
+  async join(boardId: string, connectionId: string, user: PresenceUser): Promise<number> {
+    if (!this.connections.has(boardId)) {
+      this.connections.set(boardId, new Map());
+    }
+    this.connections.get(boardId)!.set(connectionId, user);
+    return this.countConnections(boardId, user.userId);
+  }
+
+  async leave(boardId: string, connectionId: string, userId: string): Promise<number> {
+    const board = this.connections.get(boardId);
+    board?.delete(connectionId);
+    if (board?.size === 0) {
+      this.connections.delete(boardId);
+    }
+    return this.countConnections(boardId, userId);
+  }
+
+  async getPresence(boardId: string): Promise<PresenceUser[]> {
+    return uniqueUsers(this.connections.get(boardId)?.values() ?? []);
+  }
+
+  private countConnections(boardId: string, userId: string): number {
+    const board = this.connections.get(boardId);
+    if (!board) return 0;
+    return Array.from(board.values()).filter((u) => u.userId === userId).length;
+  }
+}
+
+/**
+ * Messages are appended to EventLog and announced through Postgres NOTIFY
+ * on one channel, which every instance LISTENs on (including the publisher,
+ * so local delivery goes the same way). Transient messages are only NOTIFYed. Presence lives in BoardPresence,
+ * kept fresh by each instance so connections on one that dies drop out on
+ * their own.
+ */
+class PostgresEventBus implements EventBus {
+  private channels = new LocalChannels();
+  private listener: Client | null = null;
+  private reconnectDelay = 1000;
+  // Publishes and receives each run one at a time so messages keep their order
+  private publishing: Promise<unknown> = Promise.resolve();
+  private receiving: Promise<unknown> = Promise.resolve();
+  // Newest message seen, to catch up from after the LISTEN connection drops
+  private lastReceivedId: number | null = null;
+  // Connections open on this instance, refreshed on a timer
+  private connectionIds = new Set<string>();
+  private refreshTimer: ReturnType<typeof setInterval> | null = null;
+
+  constructor(private connectionString: string) {}
+
+  publish(channel: string, message: string): void {
+    this.publishing = this.publishing
+      .then(() => this.append(channel, message))
+      .catch((error) => console.error("Failed to publish event:", error));
+  }
+
+  publishTransient(channel: string, message: string): void {
+    const payload = JSON.stringify({ channel, message });
+    // Too big to NOTIFY on its own, so it goes through the log after all
+    if (Buffer.byteLength(payload) > MAX_NOTIFY_BYTES) {
+      this.publish(channel, message);
+      return;
+    }
+    this.publishing = this.publishing
+      .then(() => prisma.$executeRaw`SELECT pg_notify(${PG_CHANNEL}, ${payload})`)
+      .catch((error) => console.error("Failed to publish event:", error));
+  }
+
+  subscribe(channel: string, handler: BusHandler): () => void {
+    this.listen();
+    return this.channels.add(channel, handler);
+  }
+
+  async replay(channels: string[], afterId: number): Promise<LoggedMessage[] | null> {
+    const [bounds, rows] = await Promise.all([
+      prisma.eventLog.aggregate({ _min: { id: true }, _max: { id: true } }),
+      prisma.eventLog.findMany({
+        where: { channel: { in: channels }, id: { gt: afterId } },
+        orderBy: { id: "asc" },
+      }),
+    ]);
+    // Older than anything kept, or an id this log never handed out
+    if (bounds._min.id === null || bounds._max.id === null) return null;
+    if (afterId < bounds._min.id || afterId > bounds._max.id) return null;
+
+    const logs = new Map<string, LogEntry[]>(channels.map((channel) => [channel, []]));
+    rows.forEach((row) => logs.get(row.channel)?.push({ id: row.id, message: row.payload, prevId: row.prevId }));
+    return collectMissed(logs, afterId);
+  }
+
+  async join(boardId: string, connectionId: string, user: PresenceUser): Promise<number> {
+    this.connectionIds.add(connectionId);
+    this.startRefreshing();
+    await prisma.boardPresence.create({
+      data: { connectionId, boardId, userId: user.userId, userName: user.userName },
+    });
+    return this.countConnections(boardId, user.userId);
+  }
+
+  async leave(boardId: string, connectionId: string, userId: string): Promise<number> {
+    this.connectionIds.delete(connectionId);
+    await prisma.boardPresence.deleteMany({ where: { connectionId } });
+    return this.countConnections(boardId, userId);
+  }
+
+  async getPresence(boardId: string): Promise<PresenceUser[]> {
+    const rows = await prisma.boardPresence.findMany({
+      where: { boardId, lastSeenAt: { gt: new Date(Date.now() - PRESENCE_TTL_MS) } },
+      select: { userId: true, userName: true },
+      orderBy: { createdAt: "asc" },
+    });
+    return uniqueUsers(rows);
+  }
+
+  private countConnections(boardId: string, userId: string): Promise<number> {
+    return prisma.boardPresence.count({
+      where: { boardId, userId, lastSeenAt: { gt: new Date(Date.now() - PRESENCE_TTL_MS) } },
+    });
+  }
+
+  private startRefreshing(): void {
+    if (this.refreshTimer) return;
+
+    this.refreshTimer = setInterval(() => {
+      if (this.connectionIds.size === 0) return;
+      prisma.boardPresence
+        .updateMany({
+          where: { connectionId: { in: Array.from(this.connectionIds) } },
+          data: { lastSeenAt: new Date() },
+        })
+        .catch((error) => console.error("Failed to refresh presence:", error));
+    }, PRESENCE_REFRESH_MS);
+    this.refreshTimer.unref?.();
+  }
+
+  private async append(channel: string, message: string): Promise<void> {
+    await prisma.$transaction(async (tx) => {
+      await tx.$executeRaw`SELECT pg_advisory_xact_lock(${EVENT_LOG_LOCK}::bigint)`;
+
+      const previous = await tx.eventLog.findFirst({
+        where: { channel },
+        orderBy: { id: "desc" },
+        select: { id: true },
+      });
+      const entry = await tx.eventLog.create({
+        data: { channel, payload: message, prevId: previous?.id ?? null },
+        select: { id: true },
+      });
+
+      // NOTIFY is sent on commit, so listeners can always read the entry back
+      let payload = JSON.stringify({ channel, id: entry.id, message });
+      if (Buffer.byteLength(payload) > MAX_NOTIFY_BYTES) {
+        payload = JSON.stringify({ channel, id: entry.id });
+      }
+      await tx.$executeRaw`SELECT pg_notify(${PG_CHANNEL}, ${payload})`;
+
+      await tx.$executeRaw`
+        DELETE FROM "EventLog"
+        WHERE "channel" = ${channel}
+          AND "id" <= (
+            SELECT "id" FROM "EventLog" WHERE "channel" = ${channel}
+            ORDER BY "id" DESC OFFSET ${REPLAY_LOG_SIZE} LIMIT 1
+          )
+      `;
+    });
+  }
+
+  private async receive(payload: string): Promise<void> {
+    const parsed = JSON.parse(payload) as { channel: string; id?: number; message?: string };
+    if (parsed.id === undefined) {
+      if (parsed.message !== undefined) this.channels.deliver(parsed.channel, parsed.message, null);
+      return;
+    }
+    this.lastReceivedId = Math.max(this.lastReceivedId ?? 0, parsed.id);
+    if (!this.channels.has(parsed.channel)) return;
+
+    let message = parsed.message;
+    if (message === undefined) {
+      const stored = await prisma.eventLog.findUnique({ where: { id: parsed.id } });
+      message = stored?.payload;
+    }
+    if (message !== undefined) {
+      this.channels.deliver(parsed.channel, message, parsed.id);
+    }
+  }
+
+  /**
+   * Deliver what was published while the LISTEN connection was down
+   */
+  private async catchUp(): Promise<void> {
+    const afterId = this.lastReceivedId;
+    const channels = this.channels.names();
+    if (afterId === null || channels.length === 0) return;
+
+    const missed = await this.replay(channels, afterId);
+    if (!missed) {
+      console.error("Event bus was disconnected too long to catch up");
+      return;
+    }
+    missed.forEach((entry) => {
+      this.lastReceivedId = Math.max(this.lastReceivedId ?? 0, entry.id);
+      this.channels.deliver(entry.channel, entry.message, entry.id);
+    });
+  }
+
+  /**
+   * Open the LISTEN connection if it isn't already. It's a dedicated client
+   * rather than one from Prisma's pool, since it has to stay checked out.
+   */
+  private listen(): void {
+    if (this.listener) return;
+
+    const client = new Client({ connectionString: this.connectionString });
+    this.listener = client;
+
+    client.on("notification", (notification) => {
+      if (notification.channel !== PG_CHANNEL || !notification.payload) return;
+      const payload = notification.payload;
+      this.receiving = this.receiving
+        .then(() => this.receive(payload))
+        .catch((error) => console.error("Failed to receive event:", error));
+    });
+    client.on("error", (error) => {
+      console.error("Event bus connection lost:", error);
+      this.reconnect(client);
+    });
+    client.on("end", () => this.reconnect(client));
+
+    client
+      .connect()
+      .then(() => client.query(`LISTEN ${PG_CHANNEL}`))
+      .then(() => {
+        this.reconnectDelay = 1000;
+        // Queued with receives so caught-up messages come before new ones
+        this.receiving = this.receiving
+          .then(() => this.catchUp())
+          .catch((error) => console.error("Failed to catch up on events:", error));
+      })
+      .catch((error) => {
+        console.error("Event bus failed to connect:", error);
+        this.reconnect(client);
+      });
+  }
+
+  private reconnect(client: Client): void {
+    // error and end both fire for one failure; only the first reconnects
+    if (this.listener !== client) return;
+    this.listener = null;
+    client.end().catch(() => {});
+
+    const timer = setTimeout(() => this.listen(), this.reconnectDelay);
+    timer.unref?.();
+    this.reconnectDelay = Math.min(this.reconnectDelay * 2, MAX_RECONNECT_DELAY_MS);
+  }
+}
+
+const globalForBus = globalThis as unknown as {
+  eventBus?: EventBus;
+};
+
+/**
+ * The bus for this process, shared by routes and the background scheduler
+ */
+export function getEventBus(): EventBus {
+  if (!globalForBus.eventBus) {
+    globalForBus.eventBus =
+      process.env.EVENT_BUS === "postgres"
+        ? new PostgresEventBus(process.env.EVENT_BUS_DATABASE_URL || process.env.DATABASE_URL || "")
+        : new MemoryEventBus();
+  }
+  return globalForBus.eventBus;
+}
+
+/**
+ * Read a stream's Last-Event-ID; null when missing or malformed
+ */
+export function parseEventId(value: string | null): number | null {
+  if (!value || !/^\d+$/.test(value)) return null;
+  const id = Number(value);
+  return Number.isSafeInteger(id) ? id : null;
+}
+
+/**
+ * Subscribe to channels, first replaying anything published after afterId.
+ * Live messages arriving meanwhile are held back until the replay is out, so
+ * the handler sees each message once and in order. When the log no longer
+ * covers the gap, onResync is called instead and the stream carries on live.
+ * Transient messages are passed straight through.
+ */
+export function subscribeWithReplay(
+  channels: string[],
+  afterId: number | null,
+  handler: BusHandler,
+  onResync: () => void
+): () => void {
+  const bus = getEventBus();
+  let pending: LoggedMessage[] | null = afterId === null ? null : [];
+  let lastId = afterId ?? 0;
+
+  const deliver = (entry: LoggedMessage) => {
+    if (entry.id <= lastId) return;
+    lastId = entry.id;
+    try {
+      handler(entry.message, entry.id);
+    } catch (error) {
+      console.error("Error in event bus handler:", error);
+    }
+  };
+  const resync = () => {
+    try {
+      onResync();
+    } catch (error) {
+      console.error("Error in event bus handler:", error);
+    }
+  };
+
+  const unsubscribes = channels.map((channel) =>
+    bus.subscribe(channel, (message, id) => {
+      if (id === null) {
+        try {
+          handler(message, null);
+        } catch (error) {
+          console.error("Error in event bus handler:", error);
+        }
+        return;
+      }
+      const entry = { id, channel, message };
+      if (pending) pending.push(entry);
+      else deliver(entry);
+    })
+  );
+
+  if (afterId !== null) {
+    bus
+      .replay(channels, afterId)
+      .then((missed) => {
+        if (missed) missed.forEach(deliver);
+        else resync();
+      })
+      .catch((error) => {
+        console.error("Failed to replay events:", error);
+        resync();
+      })
+      .finally(() => {
+        const held = pending ?? [];
+        pending = null;
+        held.forEach(deliver);
+      });
+  }
+
+  return () => {
+    unsubscribes.forEach((unsubscribe) => unsubscribe());
+  };
+}
+
+/**
+ * Delete replay logs of channels gone quiet, and presence left behind by
+ * instances that stopped without cleaning up
+ */
+export async function pruneEventBus(): Promise<{ events: number; presence: number }> {
+  const now = Date.now();
+  const [events, presence] = await Promise.all([
+    prisma.eventLog.deleteMany({ where: { createdAt: { lt: new Date(now - EVENT_LOG_RETENTION_MS) } } }),
+    prisma.boardPresence.deleteMany({ where: { lastSeenAt: { lt: new Date(now - PRESENCE_TTL_MS) } } }),
+  ]);
+  return { events: events.count, presence: presence.count };
+}
@@ -1,3 +1,7 @@
+import { randomUUID } from "crypto";
+import { getEventBus, PresenceUser, subscribeWithReplay } from "./event-bus";
+import type { ColumnLoad, TaskPresenceActivity } from "@/types";
+
 // Use generic types to avoid strict prisma type matching
 // eslint-disable-next-line @typescript-eslint/no-explicit-any
 type AnyTask = any;
@@ -9,101 +13,110 @@ export type BoardEvent =
   | { type: "task:created"; task: AnyTask; userId: string }
   | { type: "task:updated"; task: AnyTask; userId: string }
   | { type: "task:deleted"; taskId: string; userId: string }
-  | { type: "task:moved"; taskId: string; columnId: string; position: number; userId: string }
+  | { type: "task:moved"; taskId: string; columnId: string; position: number; userId: string; loads?: ColumnLoad[] }
   | { type: "column:created"; column: AnyColumn; userId: string }
-  | { type: "column:updated"; column: AnyColumn; userId: string }
+  | { type: "column:updated"; column: AnyColumn; userId: string; load?: ColumnLoad }
   | { type: "column:deleted"; columnId: string; userId: string }
   | { type: "column:reordered"; columnIds: string[]; userId: string }
   | { type: "user:joined"; userId: string; userName: string }
-  | { type: "user:left"; userId: string };
+  | { type: "user:left"; userId: string }
+  // Collaborative description editing, sent without replay; updates and positions are base64 Yjs encodings
+  | { type: "description:updated"; taskId: string; docId: string; update: string; clientId: number; userId: string }
+  | { type: "description:reset"; taskId: string; userId: string }
+  | { type: "description:cursor"; taskId: string; docId: string; clientId: number; userId: string; anchor: string | null; head: string | null }
+  // Someone's open task and what they're doing in it; activity is null once they close it.
+  // Sent transiently and repeated as a heartbeat, so listeners drop sessions that go quiet
+  | { type: "task:presence"; taskId: string; sessionId: string; userId: string; userName: string; activity: TaskPresenceActivity | null };
 
-export type BoardEventHandler = (event: BoardEvent) => void;
+// id is null for transient events, which can't be resumed from
+export type BoardEventHandler = (event: BoardEvent, id: number | null) => void;
 
-interface BoardSubscription {
-  handler: BoardEventHandler;
-  userId: string;
-  userName: string;
+// Where a reconnecting stream left off, and what to do if that's too far back
+export interface ResumeOptions {
+  lastEventId: number | null;
+  onResync: () => void;
 }
 
-// In-memory pub/sub for board events
-// Maps boardId -> Set of subscribers
-const boardSubscribers = new Map<string, Set<BoardSubscription>>();
-
-// Track connected users per board
-export function getConnectedUsers(boardId: string): Array<{ userId: string; userName: string }> {
-  const subscribers = boardSubscribers.get(boardId);
-  if (!subscribers) return [];
-  
-  const userMap = new Map<string, string>();
-  subscribers.forEach((sub) => {
-    if (!userMap.has(sub.userId)) {
-      userMap.set(sub.userId, sub.userName);
-    }
-  });
-  
-  return Array.from(userMap.entries()).map(([userId, userName]) => ({ userId, userName }));
+// Board events go over the event bus so every instance's streams see them
+function boardChannel(boardId: string): string {
+  return `board:${boardId}`;
+}
+
+// Track connected users per board, across all instances
+export function getConnectedUsers(boardId: string): Promise<PresenceUser[]> {
+  return getEventBus().getPresence(boardId);
 }
 
 export function subscribe(
   boardId: string,
   handler: BoardEventHandler,
   userId: string,
-  userName: string
+  userName: string,
+  resume?: ResumeOptions
 ): () => void {
-  if (!boardSubscribers.has(boardId)) {
-    boardSubscribers.set(boardId, new Set());
-  }
-
-  const subscription: BoardSubscription = { handler, userId, userName };
-  boardSubscribers.get(boardId)!.add(subscription);
-
-  // Check if this is the first connection for this user
-  const subscribers = boardSubscribers.get(boardId)!;
-  const userConnections = Array.from(subscribers).filter((s) => s.userId === userId);
-  
-  if (userConnections.length === 1) {
-    // First connection - notify others
-    emitBoardEvent(boardId, {
-      type: "user:joined",
-      userId,
-      userName,
-    });
-  }
+  const bus = getEventBus();
+  const connectionId = randomUUID();
 
-  // Return unsubscribe function
-  return () => {
-    const subs = boardSubscribers.get(boardId);
-    if (subs) {
-      subs.delete(subscription);
-      
-      // Check if user has no more connections
-      const remainingUserConnections = Array.from(subs).filter((s) => s.userId === userId);
-      if (remainingUserConnections.length === 0) {
-        // Last connection - notify others
+  const unsubscribeFromBus = subscribeWithReplay(
+    [boardChannel(boardId)],
+    resume?.lastEventId ?? null,
+    (message, id) => handler(JSON.parse(message) as BoardEvent, id),
+    () => resume?.onResync()
+  );
+
+  const joined = bus
+    .join(boardId, connectionId, { userId, userName })
+    .then((connections) => {
+      if (connections === 1) {
+        // First connection - notify others
         emitBoardEvent(boardId, {
-          type: "user:left",
+          type: "user:joined",
           userId,
+          userName,
         });
       }
-      
-      if (subs.size === 0) {
-        boardSubscribers.delete(boardId);
-      }
-    }
+    })
+    .catch((error) => console.error("Failed to record board presence:", error));
+
+  // Return unsubscribe function
+  let unsubscribed = false;
+  return () => {
+    if (unsubscribed) return;
+    unsubscribed = true;
+    unsubscribeFromBus();
+
+    // Wait for the join so a quick disconnect can't leave before it arrived
+    joined
+      .then(() => bus.leave(boardId, connectionId, userId))
+      .then((remaining) => {
+        if (remaining === 0) {
+          // Last connection - notify others
+          emitBoardEvent(boardId, {
+            type: "user:left",
+            userId,
+          });
+        }
+      })
+      .catch((error) => console.error("Failed to clear board presence:", error));
   };
 }
 
 export function emitBoardEvent(boardId: string, event: BoardEvent): void {
-  const subscribers = boardSubscribers.get(boardId);
-  if (!subscribers) return;
-
-  subscribers.forEach((subscription) => {
-    try {
-      subscription.handler(event);
-    } catch (error) {
-      console.error("Error in board event handler:", error);
-    }
-  });
+  // Automations run only on the instance the change happened on.
+  // Loaded lazily: automations emit board events themselves
+  import("./automations")
+    .then(({ handleBoardEvent }) => handleBoardEvent(boardId, event))
+    .catch((error) => console.error("Error running automations:", error));
+
+  getEventBus().publish(boardChannel(boardId), JSON.stringify(event));
+}
+
+/**
+ * Send an event to the streams open right now, without logging it for
+ * replay or running automations. For things like cursor positions.
+ */
+export function emitTransientBoardEvent(boardId: string, event: BoardEvent): void {
+  getEventBus().publishTransient(boardChannel(boardId), JSON.stringify(event));
 }
 
 // Helper to extract boardId from a task's column
@@ -1,5 +1,6 @@
 import { google, calendar_v3 } from 'googleapis';
 import { prisma } from './prisma';
+import { toRecurrenceLines } from './recurrence';
 
 const SCOPES = [
   'https://www.googleapis.com/auth/calendar',
@@ -232,17 +233,18 @@ export async function getCalendarInfo(userId: string) {
   return response.data;
 }
 
-// Build recurrence rule
+// Build recurrence rule, in the same RRULE form recurring tasks use
 export function buildRecurrenceRule(
   frequency: 'daily' | 'weekly' | 'monthly',
   interval: number = 1,
   until?: Date
 ): string[] {
-  let rule = `RRULE:FREQ=${frequency.toUpperCase()};INTERVAL=${interval}`;
-  if (until) {
-    rule += `;UNTIL=${until.toISOString().replace(/[-:]/g, '').split('.')[0]}Z`;
-  }
-  return [rule];
+  return toRecurrenceLines({
+    frequency,
+    interval,
+    endType: until ? 'date' : 'never',
+    endDate: until?.toISOString(),
+  });
 }
 
 // Parse Google event to our format
@@ -258,7 +260,7 @@ export function parseGoogleEvent(event: calendar_v3.Schema$Event) {
     startTime: new Date(start!),
     endTime: new Date(end!),
     allDay,
-    recurrence: event.recurrence?.join(';') || null,
+    recurrence: event.recurrence?.join('\n') || null,
     location: event.location || null,
     color: event.colorId || null,
   };
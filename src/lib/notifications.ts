@@ -1,12 +1,15 @@
 import { prisma } from "./prisma";
 
-export type NotificationType = "assigned" | "mentioned" | "comment" | "due_soon";
+export type NotificationType = "assigned" | "mentioned" | "comment" | "due_soon" | "automation" | "unblocked" | "overdue";
 
 export const NOTIFICATION_ICONS: Record<NotificationType, string> = {
   assigned: "👤",
   mentioned: "@",
   comment: "💬",
   due_soon: "⏰",
+  automation: "⚡",
+  unblocked: "🔓",
+  overdue: "🚨",
 };
 
 /**
@@ -154,14 +157,66 @@ export async function notifyDueSoon(
   );
 }
 
+/**
+ * Notify when a task is past its due date
+ */
+export async function notifyOverdue(
+  userId: string,
+  taskTitle: string,
+  taskId: string,
+  boardId: string,
+  dueDate: Date
+) {
+  const overdueBy = formatDuration(Date.now() - dueDate.getTime());
+
+  await createNotification(
+    userId,
+    "overdue",
+    "Task overdue",
+    overdueBy ? `"${taskTitle}" is ${overdueBy} overdue` : `"${taskTitle}" is now overdue`,
+    `/boards/${boardId}?task=${taskId}`
+  );
+}
+
 function formatTimeLeft(date: Date): string {
-  const now = new Date();
-  const diff = date.getTime() - now.getTime();
-  const hours = Math.floor(diff / (1000 * 60 * 60));
-  
-  if (hours <= 0) return "now";
-  if (hours < 24) return `in ${hours} hour${hours === 1 ? "" : "s"}`;
-  
+  const timeLeft = formatDuration(date.getTime() - Date.now());
+  return timeLeft ? `in ${timeLeft}` : "now";
+}
+
+// Whole minutes, hours or days; empty under a minute
+function formatDuration(ms: number): string {
+  const minutes = Math.floor(ms / (1000 * 60));
+  if (minutes <= 0) return "";
+  if (minutes < 60) return `${minutes} minute${minutes === 1 ? "" : "s"}`;
+
+  const hours = Math.floor(minutes / 60);
+  if (hours < 24) return `${hours} hour${hours === 1 ? "" : "s"}`;
+
   const days = Math.floor(hours / 24);
-  return `in ${days} day${days === 1 ? "" : "s"}`;
+  return `${days} day${days === 1 ? "" : "s"}`;
+}
+
+/**
+ * Notify when a task's blocker is finished
+ */
+export async function notifyUnblocked(
+  userId: string,
+  taskTitle: string,
+  taskId: string,
+  boardId: string,
+  blockerTitle: string,
+  remainingBlockers: number
+) {
+  const message =
+    remainingBlockers === 0
+      ? `"${blockerTitle}" is done, so "${taskTitle}" is no longer blocked`
+      : `"${blockerTitle}" is done; "${taskTitle}" is still waiting on ${remainingBlockers} other task${remainingBlockers === 1 ? "" : "s"}`;
+
+  await createNotification(
+    userId,
+    "unblocked",
+    remainingBlockers === 0 ? "Task unblocked" : "Blocker completed",
+    message,
+    `/boards/${boardId}?task=${taskId}`
+  );
 }
@@ -228,3 +228,11 @@ export function canManageLabels(
   const role = getBoardRole(user.id, board, membership);
   return role === 'admin' || role === 'member';
 }
+
+/**
+ * Is this board archived?
+ * Archived boards are read-only until they are unarchived.
+ */
+export function isBoardArchived(board: { archivedAt: Date | null }): boolean {
+  return board.archivedAt !== null;
+}
@@ -1,13 +1,79 @@
-import { PrismaClient } from "@prisma/client";
+import { Prisma, PrismaClient } from "@prisma/client";
 
-const globalForPrisma = globalThis as unknown as {
-  prisma: PrismaClient | undefined;
-};
+// Reads that hide soft-deleted boards and tasks unless the query filters on deletedAt itself
+const READ_OPERATIONS = new Set([
+  "findUnique",
+  "findUniqueOrThrow",
+  "findFirst",
+  "findFirstOrThrow",
+  "findMany",
+  "count",
+  "aggregate",
+  "groupBy",
+]);
+
+// Writes that bump a task's or column's version, for optimistic concurrency
+const VERSIONED_OPERATIONS = new Set(["update", "updateMany", "upsert"]);
+
+type WhereArgs = { where?: Record<string, unknown> };
+
+function excludeDeleted(args: WhereArgs, filter: Record<string, unknown>) {
+  const where = args.where ?? {};
+  if ("deletedAt" in where) return args;
+  const and = where.AND ? [where.AND].flat() : [];
+  return { ...args, where: { ...where, AND: [...and, filter] } };
+}
 
-export const prisma =
-  globalForPrisma.prisma ??
-  new PrismaClient({
+/**
+ * Bump the version on an update, unless it sets one itself or only moves the
+ * row: every drag shifts its neighbours' positions, which isn't an edit
+ */
+function bumpVersion(operation: string, args: Record<string, unknown>) {
+  const key = operation === "upsert" ? "update" : "data";
+  const data = args[key] as Record<string, unknown> | undefined;
+  if (!data || "version" in data) return args;
+  if (Object.keys(data).every((field) => field === "position")) return args;
+  return { ...args, [key]: { ...data, version: { increment: 1 } } };
+}
+
+/**
+ * Prisma client that leaves trashed rows out of top-level board and task reads,
+ * and versions task and column updates.
+ * Nested includes are not covered and filter on `deletedAt: null` themselves.
+ */
+function createPrismaClient() {
+  return new PrismaClient({
     log: process.env.NODE_ENV === "development" ? ["query"] : [],
+  }).$extends({
+    query: {
+      board: {
+        async $allOperations({ operation, args, query }) {
+          if (!READ_OPERATIONS.has(operation)) return query(args);
+          return query(excludeDeleted(args as WhereArgs, { deletedAt: null }) as typeof args);
+        },
+      },
+      task: {
+        async $allOperations({ operation, args, query }) {
+          if (VERSIONED_OPERATIONS.has(operation)) return query(bumpVersion(operation, args) as typeof args);
+          if (!READ_OPERATIONS.has(operation)) return query(args);
+          const filter: Prisma.TaskWhereInput = { deletedAt: null, column: { board: { deletedAt: null } } };
+          return query(excludeDeleted(args as WhereArgs, filter) as typeof args);
+        },
+      },
+      column: {
+        async $allOperations({ operation, args, query }) {
+          if (!VERSIONED_OPERATIONS.has(operation)) return query(args);
+          return query(bumpVersion(operation, args) as typeof args);
+        },
+      },
+    },
   });
+}
+
+const globalForPrisma = globalThis as unknown as {
+  prisma: ReturnType<typeof createPrismaClient> | undefined;
+};
+
+export const prisma = globalForPrisma.prisma ?? createPrismaClient();
 
 if (process.env.NODE_ENV !== "production") globalForPrisma.prisma = prisma;
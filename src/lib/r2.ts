@@ -1,4 +1,4 @@
-import { S3Client, PutObjectCommand, DeleteObjectCommand } from "@aws-sdk/client-s3";
+import { S3Client, PutObjectCommand, DeleteObjectCommand, CopyObjectCommand } from "@aws-sdk/client-s3";
 
 // Cloudflare R2 configuration
 const R2_ACCOUNT_ID = process.env.R2_ACCOUNT_ID!;
@@ -33,6 +33,18 @@ export async function uploadToR2(
   return `${R2_PUBLIC_URL}/${key}`;
 }
 
+export async function copyInR2(sourceKey: string, key: string): Promise<string> {
+  await r2Client.send(
+    new CopyObjectCommand({
+      Bucket: R2_BUCKET,
+      CopySource: encodeURI(`${R2_BUCKET}/${sourceKey}`),
+      Key: key,
+    })
+  );
+
+  return `${R2_PUBLIC_URL}/${key}`;
+}
+
 export async function deleteFromR2(key: string): Promise<void> {
   await r2Client.send(
     new DeleteObjectCommand({
@@ -43,6 +55,6 @@ export async function deleteFromR2(key: string): Promise<void> {
 }
 
 export function getR2KeyFromUrl(url: string): string | null {
-  if (!url.startsWith(R2_PUBLIC_URL)) return null;
+  if (!url.startsWith(`${R2_PUBLIC_URL}/`)) return null;
   return url.replace(`${R2_PUBLIC_URL}/`, "");
 }
@@ -1,23 +1,328 @@
-import { addDays, addWeeks, addMonths, addYears, setDate, getDay, startOfDay, isBefore, isAfter, differenceInDays, getDate, setDay, getWeekOfMonth } from "date-fns";
+import { getDay, getDate } from "date-fns";
 import type { RecurrenceRule, Task } from "@/types";
 
+// Rules are evaluated on wall-clock time in their timezone. Wall times are
+// carried in Date objects read with the UTC getters, so calendar arithmetic
+// never crosses a DST change.
+
+const DAY_CODES = ["SU", "MO", "TU", "WE", "TH", "FR", "SA"];
+const FREQUENCIES: RecurrenceRule["frequency"][] = ["daily", "weekly", "monthly", "yearly"];
+const WEEKDAYS = [1, 2, 3, 4, 5];
+
+// Give up on rules that stop matching, e.g. BYMONTHDAY=30;BYMONTH=2
+const MAX_EMPTY_PERIODS = 400;
+
+const formatters = new Map<string, Intl.DateTimeFormat>();
+
+function localTimeZone(): string {
+  return Intl.DateTimeFormat().resolvedOptions().timeZone;
+}
+
+export function isValidTimeZone(timeZone: string): boolean {
+  try {
+    new Intl.DateTimeFormat("en-US", { timeZone });
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+function ruleTimeZone(rule: RecurrenceRule): string {
+  return rule.timezone && isValidTimeZone(rule.timezone) ? rule.timezone : localTimeZone();
+}
+
+function toWall(instant: Date, timeZone: string): Date {
+  let formatter = formatters.get(timeZone);
+  if (!formatter) {
+    formatter = new Intl.DateTimeFormat("en-US", {
+      timeZone,
+      hourCycle: "h23",
+      year: "numeric",
+      month: "2-digit",
+      day: "2-digit",
+      hour: "2-digit",
+      minute: "2-digit",
+      second: "2-digit",
+    });
+    formatters.set(timeZone, formatter);
+  }
+  const parts = Object.fromEntries(formatter.formatToParts(instant).map((p) => [p.type, Number(p.value)]));
+  return new Date(Date.UTC(parts.year, parts.month - 1, parts.day, parts.hour, parts.minute, parts.second));
+}
+
+function fromWall(wall: Date, timeZone: string): Date {
+  const offsetAt = (time: number) => toWall(new Date(time), timeZone).getTime() - Math.floor(time / 1000) * 1000;
+  // A second pass settles on the offset in force at the result, across DST changes
+  let time = wall.getTime() - offsetAt(wall.getTime());
+  time = wall.getTime() - offsetAt(time);
+  return new Date(time);
+}
+
+const wallDay = (year: number, month: number, day: number) => new Date(Date.UTC(year, month, day));
+const dateKey = (wall: Date) => wall.toISOString().slice(0, 10);
+const timeOfDay = (wall: Date) => wall.getTime() % 86_400_000;
+
 /**
- * Parse recurrence rule from JSON string
+ * The date in the rule's timezone that an instant falls on, as yyyy-MM-dd
+ */
+export function getOccurrenceDateKey(rule: RecurrenceRule, instant: Date): string {
+  return dateKey(toWall(instant, ruleTimeZone(rule)));
+}
+
+// --- iCalendar text ---
+
+function formatWall(wall: Date): string {
+  return wall.toISOString().slice(0, 19).replace(/[-:]/g, "");
+}
+
+function formatUtc(instant: Date): string {
+  return `${formatWall(instant)}Z`;
+}
+
+/**
+ * Read an iCalendar DATE or DATE-TIME value: UTC ("...Z"), in the given
+ * zone, or a bare date
+ */
+function parseDateValue(value: string, timeZone: string): Date | null {
+  const match = value.match(/^(\d{4})(\d{2})(\d{2})(?:T(\d{2})(\d{2})(\d{2})(Z)?)?$/);
+  if (!match) return null;
+  const [, y, mo, d, h = "0", mi = "0", s = "0", utc] = match;
+  const wall = new Date(Date.UTC(+y, +mo - 1, +d, +h, +mi, +s));
+  return utc ? wall : fromWall(wall, timeZone);
+}
+
+function parseParams(head: string) {
+  const [name, ...params] = head.split(";");
+  return {
+    name: name.trim().toUpperCase(),
+    params: Object.fromEntries(
+      params.map((p) => {
+        const [key, ...rest] = p.split("=");
+        return [key.toUpperCase(), rest.join("=")];
+      })
+    ) as Record<string, string>,
+  };
+}
+
+type ParsedRRule = Omit<RecurrenceRule, "endDate"> & { until?: string };
+
+function parseRRuleValue(value: string): ParsedRRule | null {
+  const parts = Object.fromEntries(
+    value.split(";").filter(Boolean).map((part) => {
+      const [key, ...rest] = part.split("=");
+      return [key.trim().toUpperCase(), rest.join("=").trim().toUpperCase()];
+    })
+  );
+
+  const frequency = FREQUENCIES.find((f) => f.toUpperCase() === parts.FREQ);
+  if (!frequency) return null;
+
+  // Parts the engine can't evaluate would silently change the schedule
+  const supported = ["FREQ", "INTERVAL", "BYDAY", "BYMONTHDAY", "BYMONTH", "BYSETPOS", "COUNT", "UNTIL", "WKST"];
+  if (Object.keys(parts).some((key) => !supported.includes(key))) return null;
+
+  const interval = parts.INTERVAL ? parseInt(parts.INTERVAL, 10) : 1;
+  if (!(interval >= 1)) return null;
+
+  const rule: ParsedRRule = { frequency, interval, endType: "never" };
+  const toInts = (list: string) => list.split(",").map((n) => parseInt(n, 10));
+
+  if (parts.BYDAY) {
+    const entries = parts.BYDAY.split(",").map((entry) => entry.match(/^([+-]?\d{1,2})?(SU|MO|TU|WE|TH|FR|SA)$/));
+    if (entries.some((e) => !e)) return null;
+    rule.daysOfWeek = entries.map((e) => DAY_CODES.indexOf(e![2]));
+
+    // "2TU" is the second Tuesday, "-1FR" the last Friday
+    const ordinals = Array.from(new Set(entries.map((e) => (e![1] ? parseInt(e![1], 10) : null))));
+    if (ordinals.length > 1) return null;
+    const ordinal = ordinals[0];
+    if (ordinal !== null) {
+      if (frequency === "daily" || frequency === "weekly" || parts.BYSETPOS) return null;
+      if (ordinal >= 1 && ordinal <= 4) rule.weekOfMonth = ordinal;
+      else if (ordinal === -1) rule.weekOfMonth = 5;
+      else if (entries.length === 1) rule.setPositions = [ordinal];
+      else return null;
+    }
+  }
+
+  if (parts.BYMONTHDAY) {
+    const days = toInts(parts.BYMONTHDAY);
+    if (days.length !== 1 || !days[0] || Math.abs(days[0]) > 31) return null;
+    rule.dayOfMonth = days[0];
+  }
+
+  if (parts.BYMONTH) {
+    const months = toInts(parts.BYMONTH);
+    if (months.some((m) => !(m >= 1 && m <= 12))) return null;
+    rule.months = months;
+  }
+
+  if (parts.BYSETPOS) {
+    const positions = toInts(parts.BYSETPOS);
+    if (positions.some((p) => !p || Math.abs(p) > 366)) return null;
+    rule.setPositions = positions;
+  }
+
+  if (parts.WKST) {
+    const weekStart = DAY_CODES.indexOf(parts.WKST);
+    if (weekStart < 0) return null;
+    rule.weekStart = weekStart;
+  }
+
+  if (parts.COUNT) {
+    const count = parseInt(parts.COUNT, 10);
+    if (!(count >= 1)) return null;
+    rule.endType = "count";
+    rule.endCount = count;
+  } else if (parts.UNTIL) {
+    rule.endType = "date";
+    rule.until = parts.UNTIL;
+  }
+
+  return rule;
+}
+
+/**
+ * Read an iCalendar recurrence (DTSTART, RRULE and EXDATE lines, or a bare
+ * RRULE value). Older rules stored as JSON are still accepted.
  */
 export function parseRecurrenceRule(ruleStr: string | null): RecurrenceRule | null {
   if (!ruleStr) return null;
-  try {
-    return JSON.parse(ruleStr) as RecurrenceRule;
-  } catch {
-    return null;
+  const text = ruleStr.trim();
+
+  if (text.startsWith("{")) {
+    try {
+      return JSON.parse(text) as RecurrenceRule;
+    } catch {
+      return null;
+    }
+  }
+
+  let parsed: ParsedRRule | null = null;
+  let dtstart: { value: string; timezone?: string } | null = null;
+  const exdates: { values: string[]; timezone?: string }[] = [];
+
+  // Unfold continuation lines first
+  for (const line of text.replace(/\r?\n[ \t]/g, "").split(/\r?\n/)) {
+    const separator = line.indexOf(":");
+    if (separator < 0) {
+      if (/^FREQ=/i.test(line.trim())) parsed = parseRRuleValue(line.trim());
+      continue;
+    }
+    const { name, params } = parseParams(line.slice(0, separator));
+    const value = line.slice(separator + 1).trim();
+
+    if (name === "RRULE") {
+      parsed = parseRRuleValue(value);
+      if (!parsed) return null;
+    } else if (name === "DTSTART") {
+      dtstart = { value, timezone: params.TZID };
+    } else if (name === "EXDATE") {
+      exdates.push({ values: value.split(","), timezone: params.TZID });
+    }
+  }
+
+  if (!parsed) return null;
+  const { until, ...rule } = parsed as ParsedRRule;
+  const result: RecurrenceRule = rule;
+
+  if (dtstart?.timezone) {
+    if (!isValidTimeZone(dtstart.timezone)) return null;
+    result.timezone = dtstart.timezone;
+  }
+  const timeZone = ruleTimeZone(result);
+
+  if (dtstart) {
+    const start = parseDateValue(dtstart.value, timeZone);
+    if (!start) return null;
+    result.start = start.toISOString();
+  }
+
+  if (until) {
+    const end = parseDateValue(until, timeZone);
+    if (!end) return null;
+    result.endDate = dateKey(toWall(end, timeZone));
+  }
+
+  const exceptions = exdates.flatMap(({ values, timezone }) =>
+    values.map((value) => parseDateValue(value.trim(), timezone && isValidTimeZone(timezone) ? timezone : timeZone))
+  );
+  if (exceptions.some((d) => !d)) return null;
+  if (exceptions.length > 0) {
+    result.exceptions = Array.from(new Set(exceptions.map((d) => dateKey(toWall(d!, timeZone))))).sort();
+  }
+
+  return result;
+}
+
+function endDateKey(rule: RecurrenceRule, timeZone: string): string | null {
+  if (rule.endType !== "date" || !rule.endDate) return null;
+  // Older rules stored a full ISO timestamp
+  return /^\d{4}-\d{2}-\d{2}$/.test(rule.endDate) ? rule.endDate : dateKey(toWall(new Date(rule.endDate), timeZone));
+}
+
+/**
+ * The RRULE and EXDATE lines of a rule, in the form Google Calendar takes
+ * for an event's recurrence
+ */
+export function toRecurrenceLines(rule: RecurrenceRule): string[] {
+  const timeZone = ruleTimeZone(rule);
+  const parts = [`FREQ=${rule.frequency.toUpperCase()}`, `INTERVAL=${rule.interval}`];
+
+  if (rule.daysOfWeek?.length) {
+    const prefix = rule.weekOfMonth ? String(rule.weekOfMonth === 5 ? -1 : rule.weekOfMonth) : "";
+    parts.push(`BYDAY=${rule.daysOfWeek.map((d) => `${prefix}${DAY_CODES[d]}`).join(",")}`);
+  }
+  if (rule.dayOfMonth) parts.push(`BYMONTHDAY=${rule.dayOfMonth}`);
+  if (rule.months?.length) parts.push(`BYMONTH=${rule.months.join(",")}`);
+  if (rule.setPositions?.length) parts.push(`BYSETPOS=${rule.setPositions.join(",")}`);
+  if (rule.weekStart !== undefined) parts.push(`WKST=${DAY_CODES[rule.weekStart]}`);
+
+  const until = endDateKey(rule, timeZone);
+  if (rule.endType === "count" && rule.endCount) {
+    parts.push(`COUNT=${rule.endCount}`);
+  } else if (until) {
+    // UNTIL is UTC when the start carries a zone; the end date is inclusive
+    const [y, m, d] = until.split("-").map(Number);
+    parts.push(`UNTIL=${formatUtc(fromWall(new Date(Date.UTC(y, m - 1, d, 23, 59, 59)), timeZone))}`);
   }
+
+  const lines = [`RRULE:${parts.join(";")}`];
+  if (rule.exceptions?.length) {
+    lines.push(`EXDATE;VALUE=DATE:${rule.exceptions.map((d) => d.replace(/-/g, "")).join(",")}`);
+  }
+  return lines;
 }
 
 /**
- * Stringify recurrence rule to JSON
+ * Write a rule as iCalendar text
  */
 export function stringifyRecurrenceRule(rule: RecurrenceRule): string {
-  return JSON.stringify(rule);
+  const lines = toRecurrenceLines(rule);
+  if (rule.start) {
+    const start = new Date(rule.start);
+    lines.unshift(
+      rule.timezone
+        ? `DTSTART;TZID=${rule.timezone}:${formatWall(toWall(start, rule.timezone))}`
+        : `DTSTART:${formatUtc(start)}`
+    );
+  }
+  return lines.join("\n");
+}
+
+// --- Descriptions ---
+
+const dayShortNames = ["Sun", "Mon", "Tue", "Wed", "Thu", "Fri", "Sat"];
+const dayLongNames = ["Sunday", "Monday", "Tuesday", "Wednesday", "Thursday", "Friday", "Saturday"];
+const monthShortNames = ["Jan", "Feb", "Mar", "Apr", "May", "Jun", "Jul", "Aug", "Sep", "Oct", "Nov", "Dec"];
+
+const isWeekdaySet = (days: number[]) => days.length === 5 && WEEKDAYS.every((d) => days.includes(d));
+
+function describePosition(position: number): string {
+  const names = ["first", "second", "third", "fourth", "fifth"];
+  if (position === -1) return "last";
+  if (position < 0) return `${names[-position - 1] ?? `${-position}th`} to last`;
+  return names[position - 1] ?? `${position}${getOrdinalSuffix(position)}`;
 }
 
 /**
@@ -26,10 +331,11 @@ export function stringifyRecurrenceRule(rule: RecurrenceRule): string {
 export function describeRecurrence(rule: RecurrenceRule | null): string {
   if (!rule) return "";
 
-  const { frequency, interval, daysOfWeek, dayOfMonth, weekOfMonth, endType, endDate, endCount } = rule;
+  const { frequency, interval, dayOfMonth, weekOfMonth, setPositions, months, exceptions, endType, endDate, endCount } = rule;
+  const daysOfWeek = [...(rule.daysOfWeek ?? [])].sort((a, b) => a - b);
 
   let desc = "";
-  
+
   // Frequency part
   if (interval === 1) {
     switch (frequency) {
@@ -47,32 +353,46 @@ export function describeRecurrence(rule: RecurrenceRule | null): string {
     }
   }
 
-  // Weekly days
-  if (frequency === "weekly" && daysOfWeek && daysOfWeek.length > 0) {
-    const dayNames = ["Sun", "Mon", "Tue", "Wed", "Thu", "Fri", "Sat"];
-    const days = daysOfWeek.sort().map(d => dayNames[d]);
-    desc += ` on ${days.join(", ")}`;
+  // Daily and weekly days
+  if ((frequency === "daily" || frequency === "weekly") && daysOfWeek.length > 0) {
+    desc += isWeekdaySet(daysOfWeek) ? " on weekdays" : ` on ${daysOfWeek.map((d) => dayShortNames[d]).join(", ")}`;
   }
 
-  // Monthly specifics
-  if (frequency === "monthly") {
-    if (dayOfMonth) {
+  if (frequency === "yearly" && months?.length) {
+    desc += ` in ${months.map((m) => monthShortNames[m - 1]).join(", ")}`;
+  }
+
+  // Monthly (and yearly-within-month) specifics
+  if (frequency === "monthly" || frequency === "yearly") {
+    if (dayOfMonth === -1) {
+      desc += " on the last day";
+    } else if (dayOfMonth && dayOfMonth < 0) {
+      desc += ` on the ${describePosition(dayOfMonth)} day`;
+    } else if (dayOfMonth) {
       const suffix = getOrdinalSuffix(dayOfMonth);
       desc += ` on the ${dayOfMonth}${suffix}`;
-    } else if (weekOfMonth && daysOfWeek && daysOfWeek.length > 0) {
-      const dayNames = ["Sunday", "Monday", "Tuesday", "Wednesday", "Thursday", "Friday", "Saturday"];
-      const weekNames = ["first", "second", "third", "fourth", "last"];
-      desc += ` on the ${weekNames[weekOfMonth - 1]} ${dayNames[daysOfWeek[0]]}`;
+    } else if (weekOfMonth && daysOfWeek.length > 0) {
+      desc += ` on the ${describePosition(weekOfMonth === 5 ? -1 : weekOfMonth)} ${daysOfWeek.map((d) => dayLongNames[d]).join(" and ")}`;
+    } else if (daysOfWeek.length > 0) {
+      const days = isWeekdaySet(daysOfWeek) ? "weekday" : daysOfWeek.map((d) => dayLongNames[d]).join(" or ");
+      desc += setPositions?.length
+        ? ` on the ${setPositions.map(describePosition).join(" and ")} ${days}`
+        : ` on every ${days}`;
     }
   }
 
   // End condition
   if (endType === "date" && endDate) {
-    desc += ` until ${new Date(endDate).toLocaleDateString()}`;
+    const until = /^\d{4}-\d{2}-\d{2}$/.test(endDate) ? new Date(`${endDate}T12:00:00`) : new Date(endDate);
+    desc += ` until ${until.toLocaleDateString()}`;
   } else if (endType === "count" && endCount) {
     desc += `, ${endCount} times`;
   }
 
+  if (exceptions?.length) {
+    desc += `, skipping ${exceptions.length} date${exceptions.length === 1 ? "" : "s"}`;
+  }
+
   return desc;
 }
 
@@ -82,132 +402,197 @@ function getOrdinalSuffix(n: number): string {
   return s[(v - 20) % 10] || s[v] || s[0];
 }
 
+// --- Evaluation ---
+
 /**
- * Get the next occurrence date based on the recurrence rule
+ * The matching days of one month, before BYSETPOS
  */
-export function getNextOccurrence(
-  rule: RecurrenceRule,
-  currentDueDate: Date | null,
-  lastRecurrence: Date | null
-): Date | null {
-  const baseDate = lastRecurrence || currentDueDate || new Date();
-  const startOfBase = startOfDay(new Date(baseDate));
-  const today = startOfDay(new Date());
+function expandMonth(rule: RecurrenceRule, year: number, month: number, anchorDay: number): Date[] {
+  const first = wallDay(year, month, 1);
+  const y = first.getUTCFullYear();
+  const m = first.getUTCMonth();
+  const length = wallDay(y, m + 1, 0).getUTCDate();
+
+  // Months without the day are skipped, as RFC 5545 requires
+  if (rule.dayOfMonth) {
+    const day = rule.dayOfMonth > 0 ? rule.dayOfMonth : length + rule.dayOfMonth + 1;
+    return day >= 1 && day <= length ? [wallDay(y, m, day)] : [];
+  }
 
-  let nextDate: Date;
+  if (rule.daysOfWeek?.length) {
+    const days = Array.from({ length }, (_, i) => wallDay(y, m, i + 1));
+    if (!rule.weekOfMonth) return days.filter((d) => rule.daysOfWeek!.includes(d.getUTCDay()));
+    return rule.daysOfWeek
+      .map((dow) => {
+        const matches = days.filter((d) => d.getUTCDay() === dow);
+        return rule.weekOfMonth === 5 ? matches[matches.length - 1] : matches[rule.weekOfMonth! - 1];
+      })
+      .filter((d): d is Date => Boolean(d));
+  }
+
+  return anchorDay <= length ? [wallDay(y, m, anchorDay)] : [];
+}
+
+/**
+ * The wall-clock occurrences in the k-th period (day, week, month or year)
+ * after the anchor, in order
+ */
+function expandPeriod(rule: RecurrenceRule, anchor: Date, k: number): Date[] {
+  const step = k * rule.interval;
+  const year = anchor.getUTCFullYear();
+  const month = anchor.getUTCMonth();
+  const day = anchor.getUTCDate();
+  let days: Date[];
 
   switch (rule.frequency) {
-    case "daily":
-      nextDate = addDays(startOfBase, rule.interval);
+    case "daily": {
+      const date = wallDay(year, month, day + step);
+      days = !rule.daysOfWeek?.length || rule.daysOfWeek.includes(date.getUTCDay()) ? [date] : [];
       break;
-
-    case "weekly":
-      if (rule.daysOfWeek && rule.daysOfWeek.length > 0) {
-        // Find next matching day of week
-        nextDate = findNextWeeklyOccurrence(startOfBase, rule.interval, rule.daysOfWeek);
-      } else {
-        nextDate = addWeeks(startOfBase, rule.interval);
-      }
+    }
+    case "weekly": {
+      const weekStart = rule.weekStart ?? 1;
+      const first = wallDay(year, month, day - ((anchor.getUTCDay() - weekStart + 7) % 7) + 7 * step);
+      const wanted = rule.daysOfWeek?.length ? rule.daysOfWeek : [anchor.getUTCDay()];
+      days = Array.from({ length: 7 }, (_, i) => wallDay(first.getUTCFullYear(), first.getUTCMonth(), first.getUTCDate() + i))
+        .filter((d) => wanted.includes(d.getUTCDay()));
       break;
-
+    }
     case "monthly":
-      if (rule.dayOfMonth) {
-        // Specific day of month (e.g., 15th)
-        nextDate = addMonths(startOfBase, rule.interval);
-        nextDate = setDate(nextDate, Math.min(rule.dayOfMonth, getDaysInMonth(nextDate)));
-      } else if (rule.weekOfMonth && rule.daysOfWeek && rule.daysOfWeek.length > 0) {
-        // Specific week/day (e.g., 2nd Tuesday)
-        nextDate = addMonths(startOfBase, rule.interval);
-        nextDate = getNthWeekdayOfMonth(nextDate, rule.weekOfMonth, rule.daysOfWeek[0]);
-      } else {
-        nextDate = addMonths(startOfBase, rule.interval);
-      }
+      days = expandMonth(rule, year, month + step, day);
       break;
-
     case "yearly":
-      nextDate = addYears(startOfBase, rule.interval);
+      days = (rule.months?.length ? rule.months : [month + 1]).flatMap((m) => expandMonth(rule, year + step, m - 1, day));
       break;
-
-    default:
-      return null;
   }
 
-  // If next date is still in the past, keep advancing
-  while (isBefore(nextDate, today)) {
-    const tempRule = { ...rule };
-    const tempResult = getNextOccurrence(tempRule, nextDate, null);
-    if (!tempResult) break;
-    nextDate = tempResult;
+  if (rule.months?.length && rule.frequency !== "yearly") {
+    days = days.filter((d) => rule.months!.includes(d.getUTCMonth() + 1));
   }
+  days.sort((a, b) => a.getTime() - b.getTime());
 
-  // Check end conditions
-  if (rule.endType === "date" && rule.endDate) {
-    const endDate = startOfDay(new Date(rule.endDate));
-    if (isAfter(nextDate, endDate)) {
-      return null;
-    }
+  if (rule.setPositions?.length) {
+    const picked = rule.setPositions
+      .map((p) => days[p > 0 ? p - 1 : days.length + p])
+      .filter((d): d is Date => Boolean(d));
+    days = Array.from(new Set(picked)).sort((a, b) => a.getTime() - b.getTime());
   }
 
-  return nextDate;
+  return days.map((d) => new Date(d.getTime() + timeOfDay(anchor)));
 }
 
 /**
- * Find the next occurrence for weekly recurrence with specific days
+ * Occurrences of a rule anchored at start, in order.
+ *
+ * COUNT counts every generated occurrence, including the start itself and
+ * any dates skipped through exceptions, as RFC 5545 does.
  */
-function findNextWeeklyOccurrence(baseDate: Date, interval: number, daysOfWeek: number[]): Date {
-  const baseDayOfWeek = getDay(baseDate);
-  const sortedDays = [...daysOfWeek].sort((a, b) => a - b);
-  
-  // Try to find a later day in the same week
-  for (const day of sortedDays) {
-    if (day > baseDayOfWeek) {
-      return setDay(baseDate, day);
+export function getOccurrences(
+  rule: RecurrenceRule,
+  start: Date,
+  { after, limit }: { after?: Date; limit: number }
+): Date[] {
+  const timeZone = ruleTimeZone(rule);
+  const anchor = toWall(start, timeZone);
+  const until = endDateKey(rule, timeZone);
+  const exceptions = new Set(rule.exceptions ?? []);
+  const afterWall = after ? toWall(after, timeZone) : null;
+  const results: Date[] = [];
+  let count = 0;
+
+  for (let k = 0, empty = 0; results.length < limit && empty < MAX_EMPTY_PERIODS; k++) {
+    const days = expandPeriod(rule, anchor, k).filter((d) => d >= anchor);
+    empty = days.length === 0 ? empty + 1 : 0;
+
+    for (const wall of days) {
+      if (until && dateKey(wall) > until) return results;
+      if (rule.endType === "count" && rule.endCount && count >= rule.endCount) return results;
+      count++;
+
+      if (exceptions.has(dateKey(wall)) || (afterWall && wall <= afterWall)) continue;
+      results.push(fromWall(wall, timeZone));
+      if (results.length >= limit) break;
     }
   }
-  
-  // Move to next interval week and use first day
-  const nextWeek = addWeeks(baseDate, interval);
-  return setDay(nextWeek, sortedDays[0], { weekStartsOn: 0 });
+
+  return results;
 }
 
 /**
- * Get the nth weekday of a month (e.g., 2nd Tuesday)
+ * The next occurrences of a recurring task from today on, after its own due
+ * date and the last instance created
  */
-function getNthWeekdayOfMonth(date: Date, weekOfMonth: number, dayOfWeek: number): Date {
-  const month = date.getMonth();
-  const year = date.getFullYear();
-  
-  // Start from the first day of the month
-  let current = new Date(year, month, 1);
-  
-  // Find first occurrence of the target day
-  while (getDay(current) !== dayOfWeek) {
-    current = addDays(current, 1);
-  }
-  
-  // Add weeks to get to the nth occurrence
-  if (weekOfMonth <= 4) {
-    current = addWeeks(current, weekOfMonth - 1);
-  } else {
-    // "5" means "last" - find last occurrence
-    let lastOccurrence = current;
-    while (current.getMonth() === month) {
-      lastOccurrence = current;
-      current = addWeeks(current, 1);
-    }
-    current = lastOccurrence;
-  }
-  
-  // Make sure we're still in the same month
-  if (current.getMonth() !== month) {
-    return addWeeks(current, -1);
-  }
-  
-  return current;
+export function getUpcomingOccurrences(
+  rule: RecurrenceRule,
+  currentDueDate: Date | null,
+  lastRecurrence: Date | null,
+  limit: number
+): Date[] {
+  const timeZone = ruleTimeZone(rule);
+  const start = rule.start ? new Date(rule.start) : currentDueDate ?? lastRecurrence ?? new Date();
+  const base = lastRecurrence ?? currentDueDate ?? start;
+
+  const now = toWall(new Date(), timeZone);
+  const today = fromWall(wallDay(now.getUTCFullYear(), now.getUTCMonth(), now.getUTCDate()), timeZone);
+  const after = new Date(Math.max(new Date(base).getTime(), today.getTime() - 1));
+
+  return getOccurrences(rule, start, { after, limit });
+}
+
+/**
+ * Get the next occurrence date based on the recurrence rule
+ */
+export function getNextOccurrence(
+  rule: RecurrenceRule,
+  currentDueDate: Date | null,
+  lastRecurrence: Date | null
+): Date | null {
+  return getUpcomingOccurrences(rule, currentDueDate, lastRecurrence, 1)[0] ?? null;
 }
 
-function getDaysInMonth(date: Date): number {
-  return new Date(date.getFullYear(), date.getMonth() + 1, 0).getDate();
+// Task fields that can be edited for an occurrence and all later ones
+export const SERIES_FIELDS = ["title", "description", "priority", "assigneeId", "labelIds"] as const;
+
+/**
+ * Split a series at one of its occurrences: the rule up to the day before,
+ * and a rule for the rest that starts at that occurrence. COUNT carries over
+ * what's left of it, and skipped dates go with the half they fall in.
+ */
+export function splitRecurrenceRule(
+  rule: RecurrenceRule,
+  seriesStart: Date,
+  at: Date
+): { before: RecurrenceRule; after: RecurrenceRule } {
+  const timeZone = ruleTimeZone(rule);
+  const atKey = dateKey(toWall(at, timeZone));
+  const dayBefore = dateKey(new Date(toWall(at, timeZone).getTime() - 86_400_000));
+  const exceptions = rule.exceptions ?? [];
+  const split = (keys: string[]) => (keys.length > 0 ? keys : undefined);
+
+  const currentEnd = endDateKey(rule, timeZone);
+  const before: RecurrenceRule = {
+    ...rule,
+    endType: "date",
+    endDate: currentEnd && currentEnd < dayBefore ? currentEnd : dayBefore,
+    endCount: undefined,
+    exceptions: split(exceptions.filter((d) => d < atKey)),
+  };
+
+  const after: RecurrenceRule = {
+    ...rule,
+    start: at.toISOString(),
+    timezone: timeZone,
+    exceptions: split(exceptions.filter((d) => d >= atKey)),
+  };
+  if (rule.endType === "count" && rule.endCount) {
+    // Skipped dates still count toward COUNT, so they're kept for the tally
+    const used = getOccurrences({ ...rule, exceptions: [] }, seriesStart, { limit: rule.endCount }).filter(
+      (d) => dateKey(toWall(d, timeZone)) < atKey
+    ).length;
+    after.endCount = Math.max(1, rule.endCount - used);
+  }
+
+  return { before, after };
 }
 
 /**
@@ -215,29 +600,16 @@ function getDaysInMonth(date: Date): number {
  */
 export function shouldCreateInstance(task: Task): boolean {
   if (!task.isRecurring || !task.recurrenceRule) return false;
-  
+
   const rule = parseRecurrenceRule(task.recurrenceRule);
   if (!rule) return false;
 
-  // Check if we've reached the count limit
-  if (rule.endType === "count" && rule.endCount) {
-    // Count would need to be tracked - for now we create instances
-    // The API will need to check the count of existing instances
-  }
-
-  // Check if past end date
-  if (rule.endType === "date" && rule.endDate) {
-    if (isAfter(new Date(), new Date(rule.endDate))) {
-      return false;
-    }
-  }
-
+  // End dates and counts are applied by the rule itself
   const nextOccurrence = getNextOccurrence(rule, task.dueDate, task.lastRecurrence);
   if (!nextOccurrence) return false;
 
   // Create instance if the next occurrence is today or in the past
-  const today = startOfDay(new Date());
-  return !isAfter(nextOccurrence, today);
+  return getOccurrenceDateKey(rule, nextOccurrence) <= getOccurrenceDateKey(rule, new Date());
 }
 
 /**
@@ -248,6 +620,7 @@ export function createDefaultRule(frequency: RecurrenceRule["frequency"] = "dail
     frequency,
     interval: 1,
     endType: "never",
+    timezone: localTimeZone(),
   };
 
   if (frequency === "weekly") {
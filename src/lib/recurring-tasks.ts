@@ -0,0 +1,381 @@
+import { Prisma } from "@prisma/client";
+import { addDays, startOfDay } from "date-fns";
+import { prisma } from "./prisma";
+import { emitBoardEvent } from "./events";
+import { createAndEmitActivity } from "./activity";
+import { isTaskFinished } from "./column-categories";
+import { trashTask } from "./trash";
+import { reorderTasks } from "./task-order";
+import {
+  parseRecurrenceRule,
+  stringifyRecurrenceRule,
+  getOccurrences,
+  getOccurrenceDateKey,
+  getUpcomingOccurrences,
+  splitRecurrenceRule,
+  SERIES_FIELDS,
+} from "./recurrence";
+import type { RecurrenceRule } from "@/types";
+
+// Instances are created this many days before they're due
+export const DEFAULT_LOOK_AHEAD_DAYS = 7;
+
+// Cap per template per run, so a daily rule with a long look-ahead can't flood a column
+const MAX_INSTANCES_PER_RUN = 31;
+
+// Same shape the task routes send with task:created
+const taskEventInclude = {
+  assignee: true,
+  createdBy: true,
+  labels: true,
+  column: true,
+  subtasks: {
+    where: { deletedAt: null },
+    include: { assignee: true, labels: true },
+    orderBy: { position: "asc" },
+  },
+  customFieldValues: {
+    include: { customField: true },
+  },
+} satisfies Prisma.TaskInclude;
+
+const templateInclude = {
+  labels: true,
+  column: { select: { boardId: true } },
+} satisfies Prisma.TaskInclude;
+
+type Template = Prisma.TaskGetPayload<{ include: typeof templateInclude }>;
+
+/**
+ * Copy a template into a new instance for one occurrence, at the top of its
+ * column. Resolves to null when the occurrence already has one, e.g. made by
+ * another run at the same moment.
+ */
+async function createInstance(template: Template, occurrence: Date, dueDate: Date) {
+  let instance;
+  try {
+    instance = await prisma.task.create({
+      data: {
+        columnId: template.columnId,
+        title: template.title,
+        description: template.description,
+        position: 0,
+        priority: template.priority,
+        dueDate,
+        recurrenceDate: occurrence,
+        completed: false,
+        assigneeId: template.assigneeId,
+        createdById: template.createdById,
+        parentRecurringId: template.id,
+        isRecurring: false, // Instance is not a recurring template
+        labels: {
+          connect: template.labels.map((l) => ({ id: l.id })),
+        },
+      },
+      include: taskEventInclude,
+    });
+  } catch (error) {
+    if (error instanceof Prisma.PrismaClientKnownRequestError && error.code === "P2002") return null;
+    throw error;
+  }
+
+  // Under the column lock, like any other reorder
+  const instanceId = instance.id;
+  await reorderTasks(template.columnId, (ids) => [instanceId, ...ids.filter((id) => id !== instanceId)]);
+
+  emitBoardEvent(template.column.boardId, { type: "task:created", task: instance, userId: template.createdById });
+  return instance;
+}
+
+export interface GeneratedInstance {
+  taskId: string;
+  instanceId: string;
+  dueDate: Date;
+}
+
+/**
+ * Create the instances of recurring tasks that fall due within the
+ * look-ahead window, skipping any that already exist.
+ *
+ * Limited to one board or to the boards a user belongs to when given;
+ * archived boards are left alone.
+ */
+export async function generateRecurringInstances({
+  boardId,
+  userId,
+  lookAheadDays = DEFAULT_LOOK_AHEAD_DAYS,
+}: {
+  boardId?: string;
+  userId?: string;
+  lookAheadDays?: number;
+} = {}): Promise<GeneratedInstance[]> {
+  const templates = await prisma.task.findMany({
+    where: {
+      isRecurring: true,
+      parentRecurringId: null, // Only template tasks, not instances
+      column: {
+        ...(boardId && { boardId }),
+        board: {
+          archivedAt: null,
+          ...(userId && { members: { some: { userId } } }),
+        },
+      },
+    },
+    include: templateInclude,
+  });
+
+  const lookAhead = addDays(startOfDay(new Date()), lookAheadDays);
+  const created: GeneratedInstance[] = [];
+
+  for (const task of templates) {
+    const rule = parseRecurrenceRule(task.recurrenceRule);
+    if (!rule) continue;
+
+    // End dates and counts are applied by the rule itself
+    const occurrences = getUpcomingOccurrences(rule, task.dueDate, task.lastRecurrence, MAX_INSTANCES_PER_RUN).filter(
+      (date) => date <= lookAhead
+    );
+
+    for (const occurrence of occurrences) {
+      // An instance keeps its occurrence date when moved, so moved ones aren't recreated
+      const existingInstance = await prisma.task.findFirst({
+        where: { parentRecurringId: task.id, recurrenceDate: occurrence },
+      });
+
+      if (!existingInstance) {
+        // Null when another run got there first
+        const instance = await createInstance(task, occurrence, occurrence);
+        if (instance) created.push({ taskId: task.id, instanceId: instance.id, dueDate: occurrence });
+      }
+
+      await prisma.task.update({
+        where: { id: task.id },
+        data: { lastRecurrence: occurrence },
+      });
+    }
+  }
+
+  return created;
+}
+
+// The instant a series counts its occurrences from
+function getSeriesStart(rule: RecurrenceRule, template: { dueDate: Date | null }, fallback: Date): Date {
+  return rule.start ? new Date(rule.start) : template.dueDate ?? fallback;
+}
+
+/**
+ * The occurrence of a series that falls on the same day as the given date,
+ * or null when the rule has none that day
+ */
+function findOccurrence(rule: RecurrenceRule, seriesStart: Date, date: Date): Date | null {
+  const key = getOccurrenceDateKey(rule, date);
+  const after = new Date(date.getTime() - 2 * 24 * 60 * 60 * 1000);
+  return getOccurrences(rule, seriesStart, { after, limit: 5 }).find((d) => getOccurrenceDateKey(rule, d) === key) ?? null;
+}
+
+async function findInstance(templateId: string, rule: RecurrenceRule, occurrence: Date) {
+  const key = getOccurrenceDateKey(rule, occurrence);
+  const day = 24 * 60 * 60 * 1000;
+  const candidates = await prisma.task.findMany({
+    where: {
+      parentRecurringId: templateId,
+      recurrenceDate: { gte: new Date(occurrence.getTime() - day), lte: new Date(occurrence.getTime() + day) },
+    },
+  });
+  return candidates.find((t) => getOccurrenceDateKey(rule, t.recurrenceDate!) === key) ?? null;
+}
+
+async function loadSeries(templateId: string) {
+  const template = await prisma.task.findUnique({ where: { id: templateId }, include: templateInclude });
+  if (!template?.isRecurring || template.parentRecurringId) return null;
+  const rule = parseRecurrenceRule(template.recurrenceRule);
+  return rule ? { template, rule } : null;
+}
+
+/**
+ * Skip one occurrence of a series: the date is added to the rule's
+ * exceptions and its instance, if already created, goes to the trash.
+ * Returns an error message, or null when done.
+ */
+export async function skipOccurrence(templateId: string, date: Date, userId: string): Promise<string | null> {
+  const series = await loadSeries(templateId);
+  if (!series) return "Task is not a recurring series";
+  const { template, rule } = series;
+
+  // Skipped dates are ignored when matching, so skipping twice is harmless
+  const occurrence = findOccurrence({ ...rule, exceptions: [] }, getSeriesStart(rule, template, date), date);
+  if (!occurrence) return "The series has no occurrence on that date";
+
+  const key = getOccurrenceDateKey(rule, occurrence);
+  const exceptions = Array.from(new Set([...(rule.exceptions ?? []), key])).sort();
+  await prisma.task.update({
+    where: { id: template.id },
+    data: { recurrenceRule: stringifyRecurrenceRule({ ...rule, exceptions }) },
+  });
+
+  const instance = await findInstance(template.id, rule, occurrence);
+  if (instance) {
+    await trashTask(instance.id, userId);
+    emitBoardEvent(template.column.boardId, { type: "task:deleted", taskId: instance.id, userId });
+  }
+
+  await createAndEmitActivity(template.id, userId, "occurrence_skipped", { date: key });
+  return null;
+}
+
+/**
+ * Move one occurrence of a series to a new due date without touching the
+ * rule. Occurrences not created yet get their instance now, so the move sticks.
+ */
+export async function rescheduleOccurrence(
+  templateId: string,
+  date: Date,
+  dueDate: Date,
+  userId: string
+): Promise<{ instance: Prisma.TaskGetPayload<{ include: typeof taskEventInclude }> } | { error: string }> {
+  const series = await loadSeries(templateId);
+  if (!series) return { error: "Task is not a recurring series" };
+  const { template, rule } = series;
+
+  const occurrence = findOccurrence(rule, getSeriesStart(rule, template, date), date);
+  if (!occurrence) return { error: "The series has no occurrence on that date" };
+
+  let existing = await findInstance(template.id, rule, occurrence);
+  let instance = existing ? null : await createInstance(template, occurrence, dueDate);
+  if (!instance) {
+    // Created meanwhile, unless the instance is in the trash
+    existing ??= await findInstance(template.id, rule, occurrence);
+    if (!existing) return { error: "That occurrence's task is in the trash; restore it first" };
+    instance = await prisma.task.update({
+      where: { id: existing.id },
+      data: { dueDate },
+      include: taskEventInclude,
+    });
+    emitBoardEvent(template.column.boardId, { type: "task:updated", task: instance, userId });
+  }
+
+  await createAndEmitActivity(instance.id, userId, "occurrence_moved", {
+    from: getOccurrenceDateKey(rule, occurrence),
+    to: dueDate.toISOString(),
+  });
+  return { instance };
+}
+
+export interface SeriesUpdates {
+  title?: string;
+  description?: string | null;
+  priority?: string;
+  assigneeId?: string | null;
+  labelIds?: string[];
+}
+
+/**
+ * Validate edits meant for a whole series. Returns an error message, or null when valid.
+ */
+export async function validateSeriesUpdates(boardId: string, updates: Record<string, unknown>): Promise<string | null> {
+  const fields = Object.keys(updates);
+  if (fields.length === 0) return "Nothing to update";
+  if (fields.some((f) => !(SERIES_FIELDS as readonly string[]).includes(f))) {
+    return `Only ${SERIES_FIELDS.join(", ")} can be changed for a series`;
+  }
+
+  const { title, description, priority, assigneeId, labelIds } = updates;
+  if (title !== undefined && (typeof title !== "string" || !title.trim())) return "Title is required";
+  if (description !== undefined && description !== null && typeof description !== "string") {
+    return "Description must be text";
+  }
+  if (priority !== undefined && !["low", "medium", "high", "urgent"].includes(priority as string)) {
+    return "Invalid priority";
+  }
+  if (assigneeId) {
+    const member = await prisma.boardMember.findFirst({ where: { boardId, userId: assigneeId as string } });
+    if (!member) return "Assignee must be a board member";
+  }
+  if (labelIds !== undefined) {
+    if (!Array.isArray(labelIds)) return "labelIds must be a list";
+    const count = await prisma.label.count({ where: { boardId, id: { in: labelIds as string[] } } });
+    if (count !== labelIds.length) return "Labels must belong to the board";
+  }
+  return null;
+}
+
+function toTaskData({ labelIds, ...fields }: SeriesUpdates): Prisma.TaskUncheckedUpdateInput {
+  return {
+    ...fields,
+    ...(labelIds && { labels: { set: labelIds.map((id) => ({ id })) } }),
+  };
+}
+
+/**
+ * Apply edits to a task and every later occurrence of its series.
+ *
+ * From a template that's the whole series. From an instance, the series is
+ * split there: the old template stops the day before, and the instance
+ * becomes the template of a new series that takes over the later instances.
+ * Finished instances keep their fields. Returns the template the edits now
+ * live on, or an error message.
+ */
+export async function editSeriesFrom(
+  taskId: string,
+  updates: SeriesUpdates,
+  userId: string
+): Promise<{ template: Prisma.TaskGetPayload<{ include: typeof taskEventInclude }> } | { error: string }> {
+  const task = await prisma.task.findUnique({ where: { id: taskId }, include: templateInclude });
+  if (!task) return { error: "Task not found" };
+
+  if (task.parentRecurringId) {
+    const series = await loadSeries(task.parentRecurringId);
+    const occurrence = task.recurrenceDate ?? task.dueDate;
+    if (!series || !occurrence) return { error: "This occurrence can't be split from its series" };
+    const { template, rule } = series;
+
+    const { before, after } = splitRecurrenceRule(rule, getSeriesStart(rule, template, occurrence), occurrence);
+    const later = await prisma.task.findMany({
+      where: { parentRecurringId: template.id, recurrenceDate: { gt: occurrence } },
+      select: { id: true, recurrenceDate: true },
+    });
+    const lastRecurrence = later.reduce((last, t) => (t.recurrenceDate! > last ? t.recurrenceDate! : last), occurrence);
+
+    await prisma.$transaction([
+      prisma.task.update({
+        where: { id: template.id },
+        data: { recurrenceRule: stringifyRecurrenceRule(before) },
+      }),
+      prisma.task.update({
+        where: { id: task.id },
+        data: {
+          isRecurring: true,
+          recurrenceRule: stringifyRecurrenceRule(after),
+          parentRecurringId: null,
+          recurrenceDate: null,
+          lastRecurrence,
+        },
+      }),
+      prisma.task.updateMany({
+        where: { id: { in: later.map((t) => t.id) } },
+        data: { parentRecurringId: task.id },
+      }),
+    ]);
+
+    await createAndEmitActivity(task.id, userId, "series_split", { taskTitle: template.title });
+  } else if (!task.isRecurring) {
+    return { error: "Task is not part of a recurring series" };
+  }
+
+  const instances = await prisma.task.findMany({
+    // After a split the task is the template of its own series
+    where: { parentRecurringId: task.id, completed: false },
+    select: { id: true, completed: true, column: { select: { category: true } } },
+  });
+  const targets = [task.id, ...instances.filter((t) => !isTaskFinished(t)).map((t) => t.id)];
+
+  const data = toTaskData(updates);
+  const updated = await prisma.$transaction(
+    targets.map((id) => prisma.task.update({ where: { id }, data, include: taskEventInclude }))
+  );
+  for (const t of updated) {
+    emitBoardEvent(task.column.boardId, { type: "task:updated", task: t, userId });
+  }
+
+  return { template: updated[0] };
+}
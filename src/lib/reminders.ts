@@ -0,0 +1,121 @@
+import { prisma } from "./prisma";
+import { isTaskFinished } from "./column-categories";
+import { notifyDueSoon, notifyOverdue } from "./notifications";
+
+const MINUTE_MS = 60 * 1000;
+
+export interface ReminderConfig {
+  dueSoonMinutes: number[]; // before the due date
+  overdueMinutes: number[]; // after the due date
+}
+
+export const DEFAULT_REMINDER_CONFIG: ReminderConfig = {
+  dueSoonMinutes: [24 * 60, 60],
+  overdueMinutes: [0, 24 * 60],
+};
+
+// How far past its last overdue offset a task may be and still get reminded,
+// so a scheduler that was down doesn't flood people about long-dead tasks
+const OVERDUE_GRACE_MS = 24 * 60 * MINUTE_MS;
+
+/**
+ * Validate reminder offsets. Returns an error message, or null when valid.
+ */
+export function validateReminderConfig(config: unknown): string | null {
+  if (!config || typeof config !== "object") return "Config must be an object";
+  for (const key of ["dueSoonMinutes", "overdueMinutes"] as const) {
+    const offsets = (config as Record<string, unknown>)[key];
+    if (!Array.isArray(offsets) || offsets.some((o) => !Number.isInteger(o) || o < 0 || o > 30 * 24 * 60)) {
+      return `${key} must be a list of whole minutes between 0 and 43200`;
+    }
+  }
+  return null;
+}
+
+/**
+ * The offsets a task has already crossed, tightest first: for due-soon the
+ * smallest lead time still ahead of now, for overdue the largest delay behind
+ */
+function crossedOffsets(offsets: number[], minutesFromDue: number, kind: "due_soon" | "overdue"): number[] {
+  return kind === "due_soon"
+    ? offsets.filter((o) => minutesFromDue <= o).sort((a, b) => a - b)
+    : offsets.filter((o) => -minutesFromDue >= o).sort((a, b) => b - a);
+}
+
+/**
+ * Send due-soon and overdue notifications to assignees of open tasks.
+ *
+ * Only the tightest offset a task has crossed is sent; looser ones crossed
+ * at the same time are recorded as sent so they don't fire later. Each
+ * reminder goes out once per due date.
+ */
+export async function sendDueReminders(config: ReminderConfig): Promise<{ dueSoon: number; overdue: number }> {
+  const now = Date.now();
+  const maxLead = Math.max(0, ...config.dueSoonMinutes) * MINUTE_MS;
+  const maxDelay = Math.max(0, ...config.overdueMinutes) * MINUTE_MS + OVERDUE_GRACE_MS;
+
+  const tasks = await prisma.task.findMany({
+    where: {
+      assigneeId: { not: null },
+      archived: false,
+      completed: false,
+      dueDate: { gte: new Date(now - maxDelay), lte: new Date(now + maxLead) },
+      column: { board: { archivedAt: null } },
+    },
+    select: {
+      id: true,
+      title: true,
+      dueDate: true,
+      assigneeId: true,
+      completed: true,
+      column: { select: { boardId: true, category: true } },
+      reminders: { select: { userId: true, kind: true, offsetMinutes: true, dueDate: true } },
+    },
+  });
+
+  const sent = { dueSoon: 0, overdue: 0 };
+
+  for (const task of tasks) {
+    if (isTaskFinished(task)) continue;
+    const dueDate = task.dueDate!;
+    const userId = task.assigneeId!;
+    const minutesFromDue = (dueDate.getTime() - now) / MINUTE_MS;
+    const kind = minutesFromDue > 0 ? "due_soon" : "overdue";
+
+    const offsets = crossedOffsets(
+      kind === "due_soon" ? config.dueSoonMinutes : config.overdueMinutes,
+      minutesFromDue,
+      kind
+    );
+    if (offsets.length === 0) continue;
+
+    const alreadySent = (offset: number) =>
+      task.reminders.some(
+        (r) =>
+          r.userId === userId &&
+          r.kind === kind &&
+          r.offsetMinutes === offset &&
+          r.dueDate.getTime() === dueDate.getTime()
+      );
+    if (alreadySent(offsets[0])) continue;
+
+    // Record first: the unique index stops another instance sending the same reminder
+    const recorded = await prisma.taskReminder.createMany({
+      data: offsets
+        .filter((offset) => !alreadySent(offset))
+        .map((offsetMinutes) => ({ taskId: task.id, userId, kind, offsetMinutes, dueDate })),
+      skipDuplicates: true,
+    });
+    if (recorded.count === 0) continue;
+
+    if (kind === "due_soon") {
+      await notifyDueSoon(userId, task.title, task.id, task.column.boardId, dueDate);
+      sent.dueSoon++;
+    } else {
+      await notifyOverdue(userId, task.title, task.id, task.column.boardId, dueDate);
+      sent.overdue++;
+    }
+  }
+
+  return sent;
+}
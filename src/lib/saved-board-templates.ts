@@ -0,0 +1,118 @@
+import { BoardTemplate as BoardTemplateRecord, Prisma } from "@prisma/client";
+import type { ColumnCategory } from "@/types";
+import { BoardArchive, exportBoard, importBoard, validateBoardArchive } from "./board-archive";
+import type { BoardTemplate, BoardTemplateVisibility } from "./board-templates";
+
+// Saved templates are board archives with history stripped and every person
+// replaced by a placeholder that becomes whoever creates a board from it.
+
+export const TEMPLATE_OWNER_ID = "template-owner";
+
+export const BOARD_TEMPLATE_VISIBILITIES: BoardTemplateVisibility[] = ["private", "org"];
+
+export const templateCreatorSelect = { select: { id: true, name: true, email: true } } as const;
+
+type TemplateWithCreator = BoardTemplateRecord & {
+  createdBy: { id: string; name: string | null; email: string };
+};
+
+/**
+ * Saved templates a user can pick from: their own plus the org's
+ */
+export function visibleTemplatesWhere(userId: string): Prisma.BoardTemplateWhereInput {
+  return { OR: [{ createdById: userId }, { visibility: "org" }] };
+}
+
+/**
+ * Capture a board's structure, optionally with its open tasks as seed tasks
+ */
+export async function snapshotBoard(boardId: string, includeTasks: boolean): Promise<BoardArchive | null> {
+  const archive = await exportBoard(boardId);
+  if (!archive) return null;
+
+  // Archived tasks and generated recurring instances are not worth seeding
+  const tasks = includeTasks
+    ? archive.tasks.filter((t) => !t.archived && !t.parentRecurringId)
+    : [];
+  const kept = new Set(tasks.map((t) => t.id));
+  const seedTasks = tasks.filter((t) => !t.parentId || kept.has(t.parentId));
+  const seeded = new Set(seedTasks.map((t) => t.id));
+
+  return {
+    ...archive,
+    users: [],
+    members: [],
+    tasks: seedTasks.map((t) => ({
+      ...t,
+      completed: false,
+      archivedAt: null,
+      startDate: null,
+      dueDate: null,
+      lastRecurrence: null,
+      assigneeId: null,
+      createdById: TEMPLATE_OWNER_ID,
+    })),
+    dependencies: archive.dependencies
+      .filter((d) => seeded.has(d.taskId) && seeded.has(d.blockedById))
+      .map((d) => ({ ...d, createdById: TEMPLATE_OWNER_ID })),
+    comments: [],
+    activities: [],
+    attachments: [],
+    taskTemplates: archive.taskTemplates.map((t) => ({ ...t, createdById: TEMPLATE_OWNER_ID })),
+    automations: archive.automations.map((a) => ({ ...a, createdById: TEMPLATE_OWNER_ID })),
+  };
+}
+
+/**
+ * Shape a saved template like the built-in ones for the template picker
+ */
+export function toBoardTemplate(template: TemplateWithCreator): BoardTemplate {
+  const content = template.content as unknown as BoardArchive;
+  return {
+    id: template.id,
+    name: template.name,
+    description: template.description || "",
+    columns: content.columns.map((c) => ({
+      name: c.name,
+      color: c.color,
+      category: c.category as ColumnCategory,
+    })),
+    labels: content.labels.map((l) => ({ name: l.name, color: l.color })),
+    saved: {
+      visibility: template.visibility as BoardTemplateVisibility,
+      createdBy: template.createdBy,
+      createdAt: template.createdAt.toISOString(),
+      customFields: content.customFields.length,
+      taskTemplates: content.taskTemplates.length,
+      automations: content.automations.length,
+      tasks: content.tasks.length,
+    },
+  };
+}
+
+/**
+ * Create a new board owned by the user from a saved template.
+ * Returns the new board id, or an error when the stored content no longer validates.
+ */
+export async function createBoardFromTemplate(
+  template: BoardTemplateRecord,
+  user: { id: string; email: string; name: string | null },
+  board: { name: string; description: string | null; visibility: string }
+): Promise<{ boardId: string } | { error: string }> {
+  const content = template.content as unknown as BoardArchive;
+  const archive: BoardArchive = {
+    ...content,
+    board,
+    users: [{ id: TEMPLATE_OWNER_ID, email: user.email, name: user.name }],
+    members: [{ userId: TEMPLATE_OWNER_ID, role: "admin" }],
+  };
+
+  const { errors } = await validateBoardArchive(archive, user.id);
+  if (errors.length > 0) {
+    return { error: `Template "${template.name}" is invalid: ${errors[0]}` };
+  }
+
+  // No conflicts passed: the user chose this name, so it is kept as-is
+  const created = await importBoard(archive, user.id, []);
+  return { boardId: created!.id };
+}
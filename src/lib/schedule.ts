@@ -0,0 +1,215 @@
+import { addBusinessDays, addDays, differenceInBusinessDays, isWeekend } from "date-fns";
+import { prisma } from "./prisma";
+import { isTaskFinished } from "./column-categories";
+import { emitBoardEvent } from "./events";
+import { createAndEmitActivity } from "./activity";
+import type { BoardSchedule } from "@/types";
+
+export interface ScheduleTask {
+  id: string;
+  title: string;
+  startDate: Date | null;
+  dueDate: Date | null;
+  completed: boolean;
+  column: { category: string };
+}
+
+export interface ScheduleLink {
+  id: string;
+  taskId: string;
+  blockedById: string;
+  lagDays: number;
+}
+
+export interface ScheduleChange {
+  id: string;
+  startDate: Date | null;
+  dueDate: Date | null;
+  blockerId: string; // the task whose move pushed this one
+}
+
+// Same shape the task routes send with task:updated
+const taskEventInclude = {
+  assignee: true,
+  createdBy: true,
+  labels: true,
+  column: true,
+  subtasks: {
+    where: { deletedAt: null },
+    include: { assignee: true, labels: true },
+    orderBy: { position: "asc" as const },
+  },
+  customFieldValues: {
+    include: { customField: true },
+  },
+};
+
+// Tasks with one date span just that day
+const getStart = (task: ScheduleTask) => task.startDate ?? task.dueDate;
+const getEnd = (task: ScheduleTask) => task.dueDate ?? task.startDate;
+
+function nextWorkingDay(date: Date): Date {
+  let day = date;
+  while (isWeekend(day)) day = addDays(day, 1);
+  return day;
+}
+
+/**
+ * The earliest a task may start once a blocker ends: the next working day,
+ * moved by the link's lag (or lead, when negative) in working days
+ */
+export function getEarliestStart(blockerEnd: Date, lagDays: number): Date {
+  return nextWorkingDay(addBusinessDays(blockerEnd, 1 + lagDays));
+}
+
+/**
+ * Push the tasks downstream of a moved task so each starts no earlier than
+ * its blockers allow.
+ *
+ * Tasks only ever move later and keep their length in working days.
+ * Finished tasks neither move nor hold others back.
+ */
+export function propagateSchedule(tasks: ScheduleTask[], links: ScheduleLink[], movedId: string): ScheduleChange[] {
+  const byId = new Map(tasks.map((t) => [t.id, { ...t }]));
+  const changes = new Map<string, ScheduleChange>();
+  const queue = [movedId];
+
+  while (queue.length > 0) {
+    const blockerId = queue.shift()!;
+    for (const link of links.filter((l) => l.blockedById === blockerId)) {
+      const task = byId.get(link.taskId);
+      const start = task && getStart(task);
+      if (!task || !start || isTaskFinished(task)) continue;
+
+      // Every open blocker constrains the task, not just the one that moved
+      let earliest: Date | null = null;
+      for (const other of links.filter((l) => l.taskId === task.id)) {
+        const blocker = byId.get(other.blockedById);
+        const end = blocker && !isTaskFinished(blocker) ? getEnd(blocker) : null;
+        if (!end) continue;
+        const candidate = getEarliestStart(end, other.lagDays);
+        if (!earliest || candidate > earliest) earliest = candidate;
+      }
+      if (!earliest || start >= earliest) continue;
+
+      const length = task.startDate && task.dueDate ? differenceInBusinessDays(task.dueDate, task.startDate) : 0;
+      if (task.startDate) task.startDate = earliest;
+      if (task.dueDate) task.dueDate = task.startDate ? addBusinessDays(earliest, length) : earliest;
+
+      changes.set(task.id, { id: task.id, startDate: task.startDate, dueDate: task.dueDate, blockerId });
+      queue.push(task.id);
+    }
+  }
+
+  return Array.from(changes.values());
+}
+
+/**
+ * The chain of open, scheduled tasks that decides when the work finishes.
+ *
+ * Starts from the task that ends last and walks back through each task's
+ * driving blocker, the one whose end (plus lag) allows the latest start.
+ * Empty when that last task isn't held up by anything.
+ */
+export function findCriticalPath(tasks: ScheduleTask[], links: ScheduleLink[]): BoardSchedule["criticalPath"] {
+  const open = new Map(tasks.filter((t) => getEnd(t) && !isTaskFinished(t)).map((t) => [t.id, t]));
+  const allowedStart = (link: ScheduleLink) => getEarliestStart(getEnd(open.get(link.blockedById)!)!, link.lagDays);
+
+  const drivers = new Map<string, ScheduleLink>();
+  for (const link of links) {
+    if (!open.has(link.taskId) || !open.has(link.blockedById)) continue;
+    const current = drivers.get(link.taskId);
+    if (!current || allowedStart(link) > allowedStart(current)) drivers.set(link.taskId, link);
+  }
+
+  const last = Array.from(open.values()).sort(
+    (a, b) =>
+      getEnd(b)!.getTime() - getEnd(a)!.getTime() || Number(drivers.has(b.id)) - Number(drivers.has(a.id))
+  )[0];
+  if (!last || !drivers.has(last.id)) return { taskIds: [], dependencyIds: [] };
+
+  const taskIds = [last.id];
+  const dependencyIds: string[] = [];
+  for (let link = drivers.get(last.id); link && !taskIds.includes(link.blockedById); link = drivers.get(link.blockedById)) {
+    dependencyIds.push(link.id);
+    taskIds.push(link.blockedById);
+  }
+
+  return { taskIds: taskIds.reverse(), dependencyIds: dependencyIds.reverse() };
+}
+
+async function loadSchedule(boardId: string) {
+  const [tasks, links] = await Promise.all([
+    prisma.task.findMany({
+      where: { column: { boardId } },
+      select: {
+        id: true,
+        title: true,
+        startDate: true,
+        dueDate: true,
+        completed: true,
+        column: { select: { category: true } },
+      },
+    }),
+    prisma.taskDependency.findMany({
+      where: {
+        task: { deletedAt: null, column: { boardId } },
+        blockedBy: { deletedAt: null },
+      },
+      select: { id: true, taskId: true, blockedById: true, lagDays: true },
+    }),
+  ]);
+  return { tasks, links };
+}
+
+/**
+ * A board's dependency links and critical path, for the Timeline
+ */
+export async function getBoardSchedule(board: { id: string; autoSchedule: boolean }): Promise<BoardSchedule> {
+  const { tasks, links } = await loadSchedule(board.id);
+  return {
+    autoSchedule: board.autoSchedule,
+    dependencies: links,
+    criticalPath: findCriticalPath(tasks, links),
+  };
+}
+
+/**
+ * On auto-scheduled boards, push the dependents of a task whose dates or
+ * links changed, saving and broadcasting every task that moved
+ */
+export async function rescheduleDependents(
+  board: { id: string; autoSchedule: boolean },
+  taskId: string,
+  userId: string
+): Promise<ScheduleChange[]> {
+  if (!board.autoSchedule) return [];
+
+  const { tasks, links } = await loadSchedule(board.id);
+  const changes = propagateSchedule(tasks, links, taskId);
+  if (changes.length === 0) return changes;
+
+  await prisma.$transaction(
+    changes.map((change) =>
+      prisma.task.update({
+        where: { id: change.id },
+        data: { startDate: change.startDate, dueDate: change.dueDate },
+      })
+    )
+  );
+
+  const titles = new Map(tasks.map((t) => [t.id, t.title]));
+  for (const change of changes) {
+    await createAndEmitActivity(change.id, userId, "rescheduled", {
+      blockedBy: titles.get(change.blockerId),
+      startDate: change.startDate?.toISOString() ?? null,
+      dueDate: change.dueDate?.toISOString() ?? null,
+    });
+    const task = await prisma.task.findUnique({ where: { id: change.id }, include: taskEventInclude });
+    if (task) {
+      emitBoardEvent(board.id, { type: "task:updated", task, userId });
+    }
+  }
+
+  return changes;
+}
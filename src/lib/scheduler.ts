@@ -0,0 +1,300 @@
+import { randomUUID } from "crypto";
+import { hostname } from "os";
+import { Prisma } from "@prisma/client";
+import { prisma } from "./prisma";
+import { DUE_SWEEP_INTERVAL_MS, runDueDateAutomations } from "./automations";
+import { TRASH_PURGE_INTERVAL_MS, purgeExpiredTrash } from "./trash";
+import { DEFAULT_LOOK_AHEAD_DAYS, generateRecurringInstances } from "./recurring-tasks";
+import { pruneEventBus } from "./event-bus";
+import { pruneDescriptionDocs, saveDescriptionDocs } from "./description-docs";
+import { DEFAULT_REMINDER_CONFIG, ReminderConfig, sendDueReminders, validateReminderConfig } from "./reminders";
+import type { JobRun, ScheduledJob } from "@/types";
+
+// How often each instance checks the job table for due work
+const SCHEDULER_TICK_MS = parseInt(process.env.SCHEDULER_TICK_MS || "30000", 10);
+
+// A claimed job is freed after this long if the instance running it dies
+const JOB_LEASE_MS = parseInt(process.env.SCHEDULER_LEASE_MS || "600000", 10);
+
+// Job runs and sent reminders are pruned by the maintenance job after these many days
+const JOB_RUN_RETENTION_DAYS = 30;
+const REMINDER_RETENTION_DAYS = 90;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Identifies this process in job locks and run history
+export const SCHEDULER_INSTANCE_ID = `${hostname()}:${process.pid}:${randomUUID().slice(0, 8)}`;
+
+type JobConfig = Record<string, unknown>;
+
+interface JobDefinition {
+  name: string;
+  description: string;
+  intervalSeconds: number;
+  defaultConfig?: JobConfig;
+  validateConfig?: (config: unknown) => string | null;
+  run: (config: JobConfig) => Promise<JobConfig>;
+}
+
+const JOBS: JobDefinition[] = [
+  {
+    name: "recurring-tasks",
+    description: "Create recurring task instances ahead of their due dates",
+    intervalSeconds: 15 * 60,
+    defaultConfig: { lookAheadDays: DEFAULT_LOOK_AHEAD_DAYS },
+    validateConfig: (config) => {
+      const days = (config as JobConfig | null)?.lookAheadDays;
+      return Number.isInteger(days) && (days as number) >= 0 && (days as number) <= 90
+        ? null
+        : "lookAheadDays must be a whole number of days between 0 and 90";
+    },
+    run: async (config) => {
+      const created = await generateRecurringInstances({ lookAheadDays: config.lookAheadDays as number });
+      return { generated: created.length };
+    },
+  },
+  {
+    name: "due-reminders",
+    description: "Notify assignees before tasks are due and once they're overdue",
+    intervalSeconds: 5 * 60,
+    defaultConfig: { ...DEFAULT_REMINDER_CONFIG },
+    validateConfig: validateReminderConfig,
+    run: (config) => sendDueReminders(config as unknown as ReminderConfig),
+  },
+  {
+    name: "due-automations",
+    description: 'Run "due date passed" automations on overdue tasks',
+    intervalSeconds: Math.round(DUE_SWEEP_INTERVAL_MS / 1000),
+    run: () => runDueDateAutomations(),
+  },
+  {
+    name: "description-sync",
+    description: "Save descriptions that were edited together to their tasks",
+    intervalSeconds: 60,
+    run: async () => ({ saved: await saveDescriptionDocs() }),
+  },
+  {
+    name: "maintenance",
+    description: "Purge expired trash and prune old job runs, reminders, event logs, presence and description docs",
+    intervalSeconds: Math.round(TRASH_PURGE_INTERVAL_MS / 1000),
+    run: async () => {
+      const purged = await purgeExpiredTrash();
+      const now = Date.now();
+
+      // Runs left "running" past their lease belong to an instance that died
+      const abandoned = await prisma.jobRun.updateMany({
+        where: { status: "running", startedAt: { lt: new Date(now - JOB_LEASE_MS) } },
+        data: { status: "failed", error: "Instance stopped before the run finished", finishedAt: new Date() },
+      });
+      const runs = await prisma.jobRun.deleteMany({
+        where: { startedAt: { lt: new Date(now - JOB_RUN_RETENTION_DAYS * DAY_MS) } },
+      });
+      const reminders = await prisma.taskReminder.deleteMany({
+        where: { sentAt: { lt: new Date(now - REMINDER_RETENTION_DAYS * DAY_MS) } },
+      });
+      const bus = await pruneEventBus();
+      const descriptionDocs = await pruneDescriptionDocs();
+
+      return {
+        purgedBoards: purged.boards,
+        purgedTasks: purged.tasks,
+        abandonedRuns: abandoned.count,
+        prunedRuns: runs.count,
+        prunedReminders: reminders.count,
+        prunedEvents: bus.events,
+        prunedPresence: bus.presence,
+        prunedDescriptionDocs: descriptionDocs,
+      };
+    },
+  },
+];
+
+export function getJobDefinition(name: string): JobDefinition | undefined {
+  return JOBS.find((job) => job.name === name);
+}
+
+const globalForScheduler = globalThis as unknown as {
+  schedulerTimer?: ReturnType<typeof setInterval>;
+  schedulerTicking?: boolean;
+  schedulerJobsSeeded?: Promise<unknown>;
+};
+
+/**
+ * Make sure every known job has a row, keeping any admin changes to existing ones
+ */
+function seedJobs(): Promise<unknown> {
+  globalForScheduler.schedulerJobsSeeded ??= prisma.scheduledJob
+    .createMany({
+      data: JOBS.map((job) => ({
+        name: job.name,
+        intervalSeconds: job.intervalSeconds,
+        config: job.defaultConfig as Prisma.InputJsonValue | undefined,
+      })),
+      skipDuplicates: true,
+    })
+    .catch((error) => {
+      globalForScheduler.schedulerJobsSeeded = undefined;
+      throw error;
+    });
+  return globalForScheduler.schedulerJobsSeeded;
+}
+
+/**
+ * Run a job if this instance can claim it.
+ *
+ * The claim is a single conditional update, so across instances only one
+ * wins. Scheduled runs also need the job enabled and due; manual runs only
+ * need it free. Returns null when the job couldn't be claimed.
+ */
+async function executeJob(job: JobDefinition, trigger: "schedule" | "manual"): Promise<JobRun | null> {
+  const now = new Date();
+  const claimed = await prisma.scheduledJob.updateMany({
+    where: {
+      name: job.name,
+      OR: [{ lockedUntil: null }, { lockedUntil: { lt: now } }],
+      ...(trigger === "schedule" && { enabled: true, nextRunAt: { lte: now } }),
+    },
+    data: { lockedBy: SCHEDULER_INSTANCE_ID, lockedUntil: new Date(now.getTime() + JOB_LEASE_MS) },
+  });
+  if (claimed.count === 0) return null;
+
+  const row = await prisma.scheduledJob.findUnique({ where: { name: job.name } });
+  const stored = row?.config && typeof row.config === "object" && !Array.isArray(row.config) ? row.config : {};
+  const config = { ...job.defaultConfig, ...(stored as JobConfig) };
+
+  const run = await prisma.jobRun.create({
+    data: { jobName: job.name, instanceId: SCHEDULER_INSTANCE_ID, trigger },
+  });
+
+  let finished;
+  try {
+    const result = await job.run(config);
+    finished = await prisma.jobRun.update({
+      where: { id: run.id },
+      data: { status: "succeeded", result: result as Prisma.InputJsonValue, finishedAt: new Date() },
+    });
+  } catch (error) {
+    console.error(`Scheduled job ${job.name} failed:`, error);
+    finished = await prisma.jobRun.update({
+      where: { id: run.id },
+      data: {
+        status: "failed",
+        error: error instanceof Error ? error.message : String(error),
+        finishedAt: new Date(),
+      },
+    });
+  } finally {
+    // Only release our own lock; a lease that ran out may belong to someone else now
+    await prisma.scheduledJob.updateMany({
+      where: { name: job.name, lockedBy: SCHEDULER_INSTANCE_ID },
+      data: {
+        lockedBy: null,
+        lockedUntil: null,
+        ...(trigger === "schedule" && {
+          nextRunAt: new Date(Date.now() + (row?.intervalSeconds ?? job.intervalSeconds) * 1000),
+        }),
+      },
+    });
+  }
+
+  return finished as JobRun;
+}
+
+/**
+ * Run every job that's due, one after another
+ */
+async function tick(): Promise<void> {
+  if (globalForScheduler.schedulerTicking) return;
+  globalForScheduler.schedulerTicking = true;
+
+  try {
+    await seedJobs();
+    for (const job of JOBS) {
+      await executeJob(job, "schedule");
+    }
+  } catch (error) {
+    console.error("Scheduler tick failed:", error);
+  } finally {
+    globalForScheduler.schedulerTicking = false;
+  }
+}
+
+/**
+ * Start the background job scheduler once per server process.
+ * Set SCHEDULER_ENABLED=false to keep an instance from running jobs.
+ */
+export function ensureScheduler(): void {
+  if (globalForScheduler.schedulerTimer || process.env.SCHEDULER_ENABLED === "false") return;
+
+  const timer = setInterval(tick, SCHEDULER_TICK_MS);
+  timer.unref?.();
+  globalForScheduler.schedulerTimer = timer;
+  tick();
+}
+
+/**
+ * Run a job straight away, whether or not it's enabled or due.
+ * Returns null when another run of it is in progress.
+ */
+export async function runJobNow(name: string): Promise<JobRun | null> {
+  const job = getJobDefinition(name);
+  if (!job) return null;
+
+  await seedJobs();
+  return executeJob(job, "manual");
+}
+
+/**
+ * Every job with its settings and latest run, and the most recent runs overall
+ */
+export async function getJobOverview(runLimit = 50): Promise<{ jobs: ScheduledJob[]; runs: JobRun[] }> {
+  await seedJobs();
+
+  const [rows, runs] = await Promise.all([
+    prisma.scheduledJob.findMany({
+      include: { runs: { orderBy: { startedAt: "desc" }, take: 1 } },
+    }),
+    prisma.jobRun.findMany({ orderBy: { startedAt: "desc" }, take: runLimit }),
+  ]);
+
+  const jobs = JOBS.flatMap((job) => {
+    const row = rows.find((r) => r.name === job.name);
+    if (!row) return [];
+    const { runs: latest, ...settings } = row;
+    return [
+      {
+        ...settings,
+        description: job.description,
+        config: (settings.config ?? job.defaultConfig ?? null) as JobConfig | null,
+        lastRun: (latest[0] ?? null) as JobRun | null,
+      },
+    ];
+  });
+
+  return { jobs, runs: runs as JobRun[] };
+}
+
+/**
+ * Validate changes to a job's settings. Returns an error message, or null when valid.
+ */
+export function validateJobUpdate(
+  job: JobDefinition,
+  input: { enabled?: unknown; intervalSeconds?: unknown; config?: unknown }
+): string | null {
+  if (input.enabled !== undefined && typeof input.enabled !== "boolean") {
+    return "enabled must be true or false";
+  }
+  if (
+    input.intervalSeconds !== undefined &&
+    (!Number.isInteger(input.intervalSeconds) ||
+      (input.intervalSeconds as number) < 60 ||
+      (input.intervalSeconds as number) > 7 * 24 * 60 * 60)
+  ) {
+    return "Interval must be between 1 minute and 7 days";
+  }
+  if (input.config !== undefined) {
+    if (!job.validateConfig) return "This job has no settings";
+    return job.validateConfig(input.config);
+  }
+  return null;
+}
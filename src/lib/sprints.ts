@@ -0,0 +1,180 @@
+import { Prisma } from "@prisma/client";
+import { prisma } from "./prisma";
+import { emitBoardEvent } from "./events";
+import { createAndEmitActivity } from "./activity";
+import { isTaskFinished } from "./column-categories";
+import { getTaskPoints, sumPoints } from "./story-points";
+import type { SprintReport, SprintState } from "@/types";
+
+export const SPRINT_STATES: SprintState[] = ["planned", "active", "closed"];
+
+// Sprints plan top-level cards; subtasks go along with their parent
+const sprintTaskWhere = { parentId: null };
+
+// Points roll up from live subtasks
+const pointsSelect = {
+  storyPoints: true,
+  subtasks: { where: { deletedAt: null }, select: { storyPoints: true } },
+} as const;
+
+// Nested counts are not covered by the soft-delete extension
+export const sprintInclude = {
+  _count: { select: { tasks: { where: { ...sprintTaskWhere, deletedAt: null } } } },
+} as const;
+
+// Same shape the task routes send with task:updated
+const taskEventInclude = {
+  assignee: true,
+  createdBy: true,
+  labels: true,
+  column: true,
+  subtasks: {
+    where: { deletedAt: null },
+    include: { assignee: true, labels: true },
+    orderBy: { position: "asc" as const },
+  },
+  customFieldValues: {
+    include: { customField: true },
+  },
+};
+
+export function isSprintState(value: unknown): value is SprintState {
+  return SPRINT_STATES.some((s) => s === value);
+}
+
+/**
+ * Start a planned sprint, snapshotting its current tasks as the committed scope.
+ * A board can only have one active sprint at a time.
+ */
+export async function startSprint(sprintId: string): Promise<{ error: string } | null> {
+  const sprint = await prisma.sprint.findUnique({ where: { id: sprintId } });
+  if (!sprint) return { error: "Sprint not found" };
+  if (sprint.state !== "planned") return { error: "Only planned sprints can be started" };
+
+  const active = await prisma.sprint.findFirst({
+    where: { boardId: sprint.boardId, state: "active" },
+    select: { name: true },
+  });
+  if (active) return { error: `Complete "${active.name}" before starting another sprint` };
+
+  const tasks = await prisma.task.findMany({
+    where: { sprintId, ...sprintTaskWhere },
+    select: { id: true, ...pointsSelect },
+  });
+
+  const now = new Date();
+  try {
+    // Only while still planned, so of two starts at once just one records its scope
+    const { count } = await prisma.sprint.updateMany({
+      where: { id: sprintId, state: "planned" },
+      data: {
+        state: "active",
+        startedAt: now,
+        startDate: sprint.startDate ?? now,
+        committedTaskIds: tasks.map((t) => t.id),
+        committedPoints: sumPoints(tasks),
+      },
+    });
+    if (count === 0) return { error: "Only planned sprints can be started" };
+  } catch (error) {
+    // Another sprint on the board was started at the same moment
+    if (error instanceof Prisma.PrismaClientKnownRequestError && error.code === "P2002") {
+      return { error: "Complete the active sprint before starting another sprint" };
+    }
+    throw error;
+  }
+  return null;
+}
+
+/**
+ * Close an active sprint and record its report.
+ *
+ * Unfinished tasks move to the given planned sprint, or back to the
+ * backlog when carryOverToId is null. Finished tasks stay attached to
+ * the closed sprint.
+ */
+export async function completeSprint(
+  sprintId: string,
+  carryOverToId: string | null,
+  userId: string
+): Promise<{ error: string } | { report: SprintReport }> {
+  const sprint = await prisma.sprint.findUnique({ where: { id: sprintId } });
+  if (!sprint) return { error: "Sprint not found" };
+  if (sprint.state !== "active") return { error: "Only active sprints can be completed" };
+
+  let carryOverTo: { id: string; name: string } | null = null;
+  if (carryOverToId) {
+    const target = await prisma.sprint.findFirst({
+      where: { id: carryOverToId, boardId: sprint.boardId, state: "planned" },
+      select: { id: true, name: true },
+    });
+    if (!target) return { error: "Unfinished tasks can only move to a planned sprint on this board" };
+    carryOverTo = target;
+  }
+
+  const tasks = await prisma.task.findMany({
+    where: { sprintId, ...sprintTaskWhere },
+    select: { id: true, title: true, completed: true, column: { select: { category: true } }, ...pointsSelect },
+    orderBy: { createdAt: "asc" },
+  });
+
+  const committedIds = new Set(sprint.committedTaskIds);
+  const entries = tasks.map((t) => ({
+    id: t.id,
+    title: t.title,
+    committed: committedIds.has(t.id),
+    completed: isTaskFinished(t),
+    points: getTaskPoints(t),
+  }));
+  const unfinished = entries.filter((t) => !t.completed).map((t) => t.id);
+  const inSprint = new Set(entries.map((t) => t.id));
+
+  const report: SprintReport = {
+    committed: committedIds.size,
+    completed: entries.filter((t) => t.completed).length,
+    completedCommitted: entries.filter((t) => t.completed && t.committed).length,
+    added: entries.filter((t) => !t.committed).length,
+    removed: sprint.committedTaskIds.filter((id) => !inSprint.has(id)).length,
+    carriedOver: unfinished.length,
+    carriedOverTo: carryOverTo,
+    committedPoints: sprint.committedPoints,
+    completedPoints: entries.filter((t) => t.completed).reduce((sum, t) => sum + (t.points ?? 0), 0),
+    carriedOverPoints: entries.filter((t) => !t.completed).reduce((sum, t) => sum + (t.points ?? 0), 0),
+    tasks: entries,
+  };
+
+  const closed = await prisma.$transaction(async (tx) => {
+    // Only while still active, so of two completes at once just one closes it
+    const { count } = await tx.sprint.updateMany({
+      where: { id: sprintId, state: "active" },
+      data: {
+        state: "closed",
+        completedAt: new Date(),
+        endDate: sprint.endDate ?? new Date(),
+        report,
+      },
+    });
+    if (count === 0) return false;
+
+    await tx.task.updateMany({
+      where: { id: { in: unfinished } },
+      data: { sprintId: carryOverTo?.id ?? null },
+    });
+    return true;
+  });
+  if (!closed) return { error: "Only active sprints can be completed" };
+
+  const moved = await prisma.task.findMany({
+    where: { id: { in: unfinished } },
+    include: taskEventInclude,
+  });
+  for (const task of moved) {
+    emitBoardEvent(sprint.boardId, { type: "task:updated", task, userId });
+    await createAndEmitActivity(task.id, userId, "sprint_changed", {
+      sprint: carryOverTo?.name ?? null,
+      sprintId: carryOverTo?.id ?? null,
+    });
+  }
+
+  return { report };
+}
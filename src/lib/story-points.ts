@@ -0,0 +1,78 @@
+import type { PointScale } from "@/types";
+
+export interface PointOption {
+  value: number;
+  label: string;
+}
+
+// T-shirt sizes are stored as points so they can be summed like the others
+export const POINT_SCALES: { id: PointScale; label: string; options: PointOption[] }[] = [
+  {
+    id: "fibonacci",
+    label: "Fibonacci",
+    options: [0, 1, 2, 3, 5, 8, 13, 21].map((value) => ({ value, label: String(value) })),
+  },
+  {
+    id: "tshirt",
+    label: "T-shirt sizes",
+    options: [
+      { value: 1, label: "XS" },
+      { value: 2, label: "S" },
+      { value: 3, label: "M" },
+      { value: 5, label: "L" },
+      { value: 8, label: "XL" },
+      { value: 13, label: "XXL" },
+    ],
+  },
+  {
+    id: "linear",
+    label: "Linear (0-10)",
+    options: Array.from({ length: 11 }, (_, value) => ({ value, label: String(value) })),
+  },
+];
+
+export function isPointScale(value: unknown): value is PointScale {
+  return POINT_SCALES.some((s) => s.id === value);
+}
+
+export function getPointOptions(scale: string | null | undefined): PointOption[] {
+  return (POINT_SCALES.find((s) => s.id === scale) ?? POINT_SCALES[0]).options;
+}
+
+/**
+ * Estimates must be one of the scale's values
+ */
+export function isValidPoints(scale: string, value: unknown): value is number {
+  return typeof value === "number" && getPointOptions(scale).some((o) => o.value === value);
+}
+
+/**
+ * Show an estimate the way the board's scale names it, e.g. 5 -> "L" on T-shirt boards.
+ * Values left over from a previous scale fall back to the number.
+ */
+export function formatPoints(scale: string | null | undefined, value: number): string {
+  return getPointOptions(scale).find((o) => o.value === value)?.label ?? String(value);
+}
+
+interface PointedTask {
+  storyPoints?: number | null;
+  subtasks?: { storyPoints?: number | null }[];
+}
+
+/**
+ * A task's points after rollup: estimated subtasks replace the parent's own estimate
+ */
+export function getTaskPoints(task: PointedTask): number | null {
+  const estimated = (task.subtasks ?? []).filter((s) => s.storyPoints != null);
+  if (estimated.length > 0) {
+    return estimated.reduce((sum, s) => sum + s.storyPoints!, 0);
+  }
+  return task.storyPoints ?? null;
+}
+
+/**
+ * Total rolled-up points across a set of tasks; unestimated tasks count as zero
+ */
+export function sumPoints(tasks: PointedTask[]): number {
+  return tasks.reduce((sum, t) => sum + (getTaskPoints(t) ?? 0), 0);
+}
@@ -0,0 +1,181 @@
+import type { CustomField, Label, NorthStar, Priority, SwimlaneGroupBy, Task, User } from "@/types";
+import { PILLAR_CONFIG } from "@/types";
+
+// Lane key used for tasks without a value for the grouped attribute
+export const NO_LANE = "__none__";
+
+export const SWIMLANE_GROUPINGS: { id: SwimlaneGroupBy; label: string }[] = [
+  { id: "none", label: "No swimlanes" },
+  { id: "assignee", label: "Assignee" },
+  { id: "priority", label: "Priority" },
+  { id: "label", label: "Label" },
+  { id: "northStar", label: "North Star" },
+];
+
+export interface Swimlane {
+  key: string;
+  label: string;
+  color?: string;
+}
+
+interface SwimlaneSources {
+  tasks: Task[];
+  users: User[];
+  labels: Label[];
+  customFields: CustomField[];
+  northStars: Pick<NorthStar, "id" | "title" | "pillar">[];
+}
+
+const PRIORITY_LANES: { key: Priority; label: string; color: string }[] = [
+  { key: "urgent", label: "Urgent", color: "#ef4444" },
+  { key: "high", label: "High", color: "#f59e0b" },
+  { key: "medium", label: "Medium", color: "#3b82f6" },
+  { key: "low", label: "Low", color: "#22c55e" },
+];
+
+/**
+ * Get the custom field id from a "field:<id>" grouping
+ */
+export function getGroupedFieldId(groupBy: string): string | null {
+  return groupBy.startsWith("field:") ? groupBy.slice("field:".length) : null;
+}
+
+/**
+ * Only select fields have a fixed set of values to group by
+ */
+export function isGroupableField(field: { type: string }): boolean {
+  return field.type === "select";
+}
+
+function parseOptions(field: CustomField): string[] {
+  try {
+    return field.options ? JSON.parse(field.options) : [];
+  } catch {
+    return [];
+  }
+}
+
+/**
+ * Key of the lane a task belongs to. Tasks with several labels sit in the
+ * lane of their first label so each card appears exactly once.
+ */
+export function getTaskLaneKey(task: Task, groupBy: SwimlaneGroupBy, labels: Label[] = []): string {
+  switch (groupBy) {
+    case "assignee":
+      return task.assigneeId || NO_LANE;
+    case "priority":
+      return task.priority;
+    case "label": {
+      if (!task.labels?.length) return NO_LANE;
+      const taskLabelIds = new Set(task.labels.map((l) => l.id));
+      const first = labels.find((l) => taskLabelIds.has(l.id));
+      return first?.id ?? task.labels[0].id;
+    }
+    case "northStar":
+      return task.northStarId || NO_LANE;
+    default: {
+      const fieldId = getGroupedFieldId(groupBy);
+      if (!fieldId) return NO_LANE;
+      const value = task.customFieldValues?.find((v) => v.customFieldId === fieldId)?.value;
+      return value || NO_LANE;
+    }
+  }
+}
+
+/**
+ * Build the ordered list of lanes for a grouping
+ */
+export function getSwimlanes(groupBy: SwimlaneGroupBy, sources: SwimlaneSources): Swimlane[] {
+  switch (groupBy) {
+    case "none":
+      return [];
+    case "assignee":
+      return [
+        ...sources.users.map((u) => ({ key: u.id, label: u.name || u.email })),
+        { key: NO_LANE, label: "Unassigned" },
+      ];
+    case "priority":
+      return PRIORITY_LANES;
+    case "label":
+      return [
+        ...sources.labels.map((l) => ({ key: l.id, label: l.name, color: l.color })),
+        { key: NO_LANE, label: "No label" },
+      ];
+    case "northStar": {
+      // Include North Stars already linked from tasks, even if they belong to someone else
+      const northStars = new Map(sources.northStars.map((ns) => [ns.id, ns]));
+      sources.tasks.forEach((t) => {
+        if (t.northStar && !northStars.has(t.northStar.id)) {
+          northStars.set(t.northStar.id, t.northStar);
+        }
+      });
+      return [
+        ...Array.from(northStars.values()).map((ns) => ({
+          key: ns.id,
+          label: ns.title,
+          color: PILLAR_CONFIG[ns.pillar]?.color,
+        })),
+        { key: NO_LANE, label: "No North Star" },
+      ];
+    }
+    default: {
+      const fieldId = getGroupedFieldId(groupBy);
+      const field = sources.customFields.find((f) => f.id === fieldId);
+      if (!field) return [];
+      return [
+        ...parseOptions(field).map((opt) => ({ key: opt, label: opt })),
+        { key: NO_LANE, label: `No ${field.name}` },
+      ];
+    }
+  }
+}
+
+/**
+ * Task PATCH body that moves a task from one lane to another
+ */
+export function getLaneChangeUpdates(
+  task: Task,
+  groupBy: SwimlaneGroupBy,
+  toKey: string,
+  labels: Label[] = []
+): Record<string, unknown> | null {
+  const value = toKey === NO_LANE ? null : toKey;
+
+  switch (groupBy) {
+    case "none":
+      return null;
+    case "assignee":
+      return { assigneeId: value };
+    case "priority":
+      return value ? { priority: value } : null;
+    case "label": {
+      if (!value) return { labelIds: [] };
+      // Swap the label that placed the task in its old lane for the new one
+      const fromKey = getTaskLaneKey(task, groupBy, labels);
+      const labelIds = (task.labels || []).map((l) => l.id).filter((id) => id !== fromKey);
+      if (!labelIds.includes(value)) labelIds.push(value);
+      return { labelIds };
+    }
+    case "northStar":
+      return { northStarId: value };
+    default: {
+      const fieldId = getGroupedFieldId(groupBy);
+      return fieldId ? { customFields: { [fieldId]: value } } : null;
+    }
+  }
+}
+
+const CELL_PREFIX = "swimlane:";
+
+/**
+ * Droppable id for the cell where a lane crosses a column
+ */
+export function getSwimlaneCellId(laneKey: string, columnId: string): string {
+  return `${CELL_PREFIX}${laneKey}::${columnId}`;
+}
+
+export function parseSwimlaneCellId(id: string): { laneKey: string; columnId: string } | null {
+  if (!id.startsWith(CELL_PREFIX)) return null;
+  const [laneKey, columnId] = id.slice(CELL_PREFIX.length).split("::");
+  return laneKey && columnId ? { laneKey, columnId } : null;
+}
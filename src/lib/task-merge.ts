@@ -0,0 +1,55 @@
+import type { FieldConflict, Task } from "@/types";
+
+export type TaskUpdates = Partial<Task> & { labelIds?: string[] };
+
+/**
+ * A task's value for an update field, in the shape updates use
+ */
+function fieldValue(task: Task, field: string): unknown {
+  if (field === "labelIds") return (task.labels ?? []).map((l) => l.id);
+  return (task as unknown as Record<string, unknown>)[field];
+}
+
+/**
+ * A comparable form of a field value, whichever shape it arrived in
+ * (dates as Date or ISO string, empty as "", null or undefined)
+ */
+function comparable(value: unknown): string {
+  if (value === undefined || value === null || value === "") return "null";
+  if (value instanceof Date) return String(value.getTime());
+  if (typeof value === "string" && /^\d{4}-\d{2}-\d{2}T/.test(value)) return String(new Date(value).getTime());
+  if (Array.isArray(value)) return JSON.stringify([...value].sort());
+  return JSON.stringify(value);
+}
+
+/**
+ * Three-way merge of an edit refused because the task changed meanwhile.
+ *
+ * `base` is the task the edit started from and `theirs` the task now on the
+ * server. Fields the edit didn't really change give way to theirs; fields
+ * only the edit changed are kept; fields both changed to different values
+ * come back as conflicts for the user to settle.
+ */
+export function mergeTaskUpdates(
+  base: Task,
+  mine: TaskUpdates,
+  theirs: Task
+): { merged: TaskUpdates; conflicts: FieldConflict[] } {
+  const merged: Record<string, unknown> = {};
+  const conflicts: FieldConflict[] = [];
+
+  for (const [field, value] of Object.entries(mine)) {
+    if (field === "version") continue;
+    const baseValue = fieldValue(base, field);
+    const theirValue = fieldValue(theirs, field);
+
+    if (comparable(value) === comparable(baseValue)) continue;
+    if (comparable(theirValue) === comparable(baseValue) || comparable(theirValue) === comparable(value)) {
+      merged[field] = value;
+    } else {
+      conflicts.push({ field, base: baseValue, mine: value, theirs: theirValue });
+    }
+  }
+
+  return { merged: merged as TaskUpdates, conflicts };
+}
@@ -0,0 +1,69 @@
+import { Prisma } from "@prisma/client";
+import { prisma } from "./prisma";
+
+// The part of a transaction client that work under a column lock needs
+export type ColumnTransaction = Pick<typeof prisma, "task" | "$executeRaw">;
+
+async function lockColumn(tx: ColumnTransaction, columnId: string) {
+  await tx.$executeRaw`SELECT 1 FROM "Column" WHERE "id" = ${columnId} FOR UPDATE`;
+}
+
+/**
+ * Run work in a transaction holding the lock reorderTasks takes on a column,
+ * so a check of what's in the column still holds when the work writes
+ */
+export async function withColumnLock<T>(columnId: string, work: (tx: ColumnTransaction) => Promise<T>): Promise<T> {
+  return prisma.$transaction(
+    async (tx) => {
+      await lockColumn(tx, columnId);
+      return work(tx);
+    },
+    { timeout: 20000 }
+  );
+}
+
+/**
+ * Renumber the tasks of a column (or a parent's subtasks) from 0.
+ *
+ * `arrange` gets the current order and returns the new one. It runs under a
+ * lock on the column, so concurrent reorders apply one after the other: the
+ * last one wins and no two tasks end up sharing a position. Ids it returns
+ * from elsewhere are moved in, with `data` for any extra changes. Pass `tx`
+ * to reorder within a transaction from withColumnLock.
+ */
+export async function reorderTasks(
+  columnId: string,
+  arrange: (currentIds: string[]) => string[],
+  options: {
+    parentId?: string | null;
+    data?: (taskId: string) => Prisma.TaskUncheckedUpdateInput | undefined;
+    tx?: ColumnTransaction;
+  } = {}
+): Promise<string[]> {
+  const { parentId = null, data } = options;
+
+  const reorder = async (tx: ColumnTransaction) => {
+    await lockColumn(tx, columnId);
+
+    const current = await tx.task.findMany({
+      where: { columnId, parentId, deletedAt: null },
+      orderBy: [{ position: "asc" }, { createdAt: "asc" }, { id: "asc" }],
+      select: { id: true, position: true },
+    });
+    const order = Array.from(new Set(arrange(current.map((t) => t.id))));
+
+    for (const [position, id] of Array.from(order.entries())) {
+      const existing = current.find((t) => t.id === id);
+      const extra = data?.(id);
+      if (existing?.position === position && !extra) continue;
+      await tx.task.update({
+        where: { id },
+        data: { position, ...(!existing && { columnId }), ...extra },
+      });
+    }
+
+    return order;
+  };
+
+  return options.tx ? reorder(options.tx) : withColumnLock(columnId, reorder);
+}
@@ -0,0 +1,60 @@
+import type { RelatedTask, TaskRelation, TaskRelationType } from "@/types";
+
+export const TASK_RELATION_TYPES: { id: TaskRelationType; label: string; inverseLabel: string }[] = [
+  { id: "relates_to", label: "Relates to", inverseLabel: "Relates to" },
+  { id: "duplicates", label: "Duplicates", inverseLabel: "Duplicated by" },
+  { id: "clones", label: "Clones", inverseLabel: "Cloned by" },
+  { id: "follows_up", label: "Follows up", inverseLabel: "Followed up by" },
+];
+
+export function isTaskRelationType(value: unknown): value is TaskRelationType {
+  return TASK_RELATION_TYPES.some((t) => t.id === value);
+}
+
+// The ways one task can link to another, inverse links included
+export interface RelationLinkOption {
+  value: string;
+  type: TaskRelationType;
+  inverse: boolean;
+  label: string;
+}
+
+// relates_to reads the same both ways, so it has no inverse option
+export const RELATION_LINK_OPTIONS: RelationLinkOption[] = TASK_RELATION_TYPES.flatMap((t) => [
+  { value: t.id, type: t.id, inverse: false, label: t.label },
+  ...(t.id === "relates_to" ? [] : [{ value: `${t.id}:inverse`, type: t.id, inverse: true, label: t.inverseLabel }]),
+]);
+
+// What the related-task pickers and lists show about the other task
+export const relatedTaskSelect = {
+  select: {
+    id: true,
+    title: true,
+    completed: true,
+    columnId: true,
+    column: { select: { name: true, category: true, board: { select: { id: true, name: true } } } },
+  },
+} as const;
+
+export interface RelationGroup {
+  label: string;
+  links: { relation: TaskRelation; task: RelatedTask }[];
+}
+
+/**
+ * A task's relations as seen from that task, grouped by how they read,
+ * e.g. "Duplicates" for outgoing links and "Duplicated by" for incoming ones
+ */
+export function groupRelations(taskId: string, relations: TaskRelation[]): RelationGroup[] {
+  return RELATION_LINK_OPTIONS.map((option) => ({
+    label: option.label,
+    links: relations.flatMap((relation) => {
+      if (relation.type !== option.type) return [];
+      const outgoing = relation.sourceId === taskId;
+      // Either direction of relates_to lands in its single group
+      if (option.type !== "relates_to" && outgoing === option.inverse) return [];
+      const task = outgoing ? relation.target : relation.source;
+      return task ? [{ relation, task }] : [];
+    }),
+  })).filter((group) => group.links.length > 0);
+}
@@ -0,0 +1,245 @@
+import { randomUUID } from "crypto";
+import { Prisma } from "@prisma/client";
+import { prisma } from "./prisma";
+import { getCategoryTaskUpdates } from "./column-categories";
+
+export type TaskTransferMode = "move" | "copy";
+
+export const TASK_TRANSFER_MODES: TaskTransferMode[] = ["move", "copy"];
+
+// Same shape the task routes send with task:created
+const taskEventInclude = {
+  assignee: true,
+  createdBy: true,
+  labels: true,
+  column: true,
+  subtasks: {
+    where: { deletedAt: null },
+    include: { assignee: true, labels: true },
+    orderBy: { position: "asc" },
+  },
+  customFieldValues: {
+    include: { customField: true },
+  },
+} satisfies Prisma.TaskInclude;
+
+const sourceTaskInclude = {
+  assignee: { select: { name: true, email: true } },
+  labels: true,
+  customFieldValues: { include: { customField: true } },
+  blockedBy: true,
+  blocking: true,
+  comments: { orderBy: { createdAt: "asc" } },
+  activities: { orderBy: { createdAt: "asc" } },
+  _count: { select: { attachments: true } },
+} satisfies Prisma.TaskInclude;
+
+export interface TransferTarget {
+  id: string;
+  boardId: string;
+  category: string;
+}
+
+// What could not follow the task onto the other board
+export interface TransferDropped {
+  labels: string[];
+  customFields: string[];
+  assignee: string | null;
+  dependencies: number;
+  attachments: number;
+}
+
+/**
+ * Move or copy a task and its subtasks into a column on another board.
+ *
+ * Labels and custom fields are matched by name on the target board; values
+ * with no match are dropped and reported. A move keeps the task's id and so
+ * its comments, activity and attachments; a copy duplicates comments and
+ * activity but not attachments, whose files belong to the original, and
+ * is linked to the original as its clone.
+ */
+export async function transferTask(
+  taskId: string,
+  target: TransferTarget,
+  mode: TaskTransferMode,
+  keepDependencies: boolean,
+  userId: string
+) {
+  const task = await prisma.task.findUniqueOrThrow({
+    where: { id: taskId },
+    include: {
+      ...sourceTaskInclude,
+      subtasks: { where: { deletedAt: null }, include: sourceTaskInclude, orderBy: { position: "asc" } },
+    },
+  });
+
+  const [labels, fields, members] = await Promise.all([
+    prisma.label.findMany({ where: { boardId: target.boardId } }),
+    prisma.customField.findMany({ where: { boardId: target.boardId } }),
+    prisma.boardMember.findMany({ where: { boardId: target.boardId } }),
+  ]);
+
+  const dropped: TransferDropped = { labels: [], customFields: [], assignee: null, dependencies: 0, attachments: 0 };
+  const all = [task, ...task.subtasks];
+  const ids = new Set(all.map((t) => t.id));
+
+  const mapLabels = (source: { name: string }[]) =>
+    source.flatMap((label) => {
+      const match = labels.find((l) => l.name.toLowerCase() === label.name.toLowerCase());
+      if (!match && !dropped.labels.includes(label.name)) dropped.labels.push(label.name);
+      return match ? [{ id: match.id }] : [];
+    });
+
+  const mapFieldValues = (values: (typeof task)["customFieldValues"]) =>
+    values.flatMap((v) => {
+      const field = fields.find(
+        (f) => f.name.toLowerCase() === v.customField.name.toLowerCase() && f.type === v.customField.type
+      );
+      // Select values only carry over when the option exists on the target field
+      const options: string[] = field?.type === "select" && field.options ? JSON.parse(field.options) : [];
+      const fits = field && (field.type !== "select" || v.value == null || options.includes(v.value));
+      if (!fits) {
+        if (!dropped.customFields.includes(v.customField.name)) dropped.customFields.push(v.customField.name);
+        return [];
+      }
+      return [{ customFieldId: field!.id, value: v.value }];
+    });
+
+  // Assignees only stay when they are members of the target board
+  const mapAssignee = (t: (typeof all)[number]) => {
+    if (!t.assigneeId) return null;
+    if (members.some((m) => m.userId === t.assigneeId)) return t.assigneeId;
+    if (t.id === task.id) dropped.assignee = t.assignee?.name || t.assignee?.email || null;
+    return null;
+  };
+
+  // Links between the task and its own subtasks always survive
+  const externalDependencies = all.flatMap((t) => [
+    ...t.blockedBy.filter((d) => !ids.has(d.blockedById)),
+    ...t.blocking.filter((d) => !ids.has(d.taskId)),
+  ]);
+  const internalDependencies = all.flatMap((t) => t.blockedBy.filter((d) => ids.has(d.blockedById)));
+  if (!keepDependencies) dropped.dependencies = externalDependencies.length;
+
+  const maxPosition = await prisma.task.aggregate({
+    where: { columnId: target.id, parentId: null },
+    _max: { position: true },
+  });
+  const position = (maxPosition._max.position ?? -1) + 1;
+  const categoryUpdates = getCategoryTaskUpdates(target.category, task);
+
+  let resultId = task.id;
+
+  if (mode === "move") {
+    await prisma.$transaction(async (tx) => {
+      for (const t of all) {
+        await tx.task.update({
+          where: { id: t.id },
+          data: {
+            columnId: target.id,
+            labels: { set: mapLabels(t.labels) },
+            assigneeId: mapAssignee(t),
+            // Sprints belong to the source board; epics span boards and stay
+            ...(t.id === task.id && { position, sprintId: null, ...categoryUpdates }),
+          },
+        });
+      }
+      // Trashed subtasks follow so a restore brings them back under their parent
+      await tx.task.updateMany({
+        where: { parentId: task.id, deletedAt: { not: null } },
+        data: { columnId: target.id },
+      });
+      await tx.customFieldValue.deleteMany({ where: { taskId: { in: Array.from(ids) } } });
+      await tx.customFieldValue.createMany({
+        data: all.flatMap((t) => mapFieldValues(t.customFieldValues).map((v) => ({ ...v, taskId: t.id }))),
+      });
+      if (!keepDependencies && externalDependencies.length > 0) {
+        await tx.taskDependency.deleteMany({ where: { id: { in: externalDependencies.map((d) => d.id) } } });
+      }
+    });
+  } else {
+    const copies = new Map(all.map((t) => [t.id, randomUUID()]));
+    dropped.attachments = all.reduce((sum, t) => sum + t._count.attachments, 0);
+    resultId = copies.get(task.id)!;
+
+    await prisma.$transaction(async (tx) => {
+      for (const t of all) {
+        await tx.task.create({
+          data: {
+            id: copies.get(t.id)!,
+            columnId: target.id,
+            parentId: t.parentId ? copies.get(t.parentId)! : null,
+            title: t.title,
+            description: t.description,
+            position: t.id === task.id ? position : t.position,
+            priority: t.priority,
+            startDate: t.startDate,
+            dueDate: t.dueDate,
+            completed: t.completed,
+            archived: t.archived,
+            archivedAt: t.archivedAt,
+            assigneeId: mapAssignee(t),
+            createdById: t.createdById,
+            isRecurring: t.isRecurring,
+            recurrenceRule: t.recurrenceRule,
+            recurrenceEnd: t.recurrenceEnd,
+            northStarId: t.northStarId,
+            energyLevel: t.energyLevel,
+            timeEstimate: t.timeEstimate,
+            storyPoints: t.storyPoints,
+            epicId: t.epicId,
+            ...(t.id === task.id && categoryUpdates),
+            labels: { connect: mapLabels(t.labels) },
+            customFieldValues: { createMany: { data: mapFieldValues(t.customFieldValues) } },
+          },
+        });
+      }
+
+      await tx.comment.createMany({
+        data: all.flatMap((t) =>
+          t.comments.map((c) => ({
+            taskId: copies.get(t.id)!,
+            userId: c.userId,
+            content: c.content,
+            createdAt: c.createdAt,
+          }))
+        ),
+      });
+      await tx.activity.createMany({
+        data: all.flatMap((t) =>
+          t.activities.map((a) => ({
+            taskId: copies.get(t.id)!,
+            userId: a.userId,
+            action: a.action,
+            details: a.details ?? Prisma.JsonNull,
+            createdAt: a.createdAt,
+          }))
+        ),
+      });
+
+      const dependencies = [
+        ...internalDependencies,
+        ...(keepDependencies ? externalDependencies : []),
+      ];
+      await tx.taskDependency.createMany({
+        data: dependencies.map((d) => ({
+          taskId: copies.get(d.taskId) ?? d.taskId,
+          blockedById: copies.get(d.blockedById) ?? d.blockedById,
+          createdById: d.createdById,
+        })),
+        skipDuplicates: true,
+      });
+
+      await tx.taskRelation.create({
+        data: { type: "clones", sourceId: resultId, targetId: task.id, createdById: userId },
+      });
+    });
+  }
+
+  const result = await prisma.task.findUniqueOrThrow({
+    where: { id: resultId },
+    include: taskEventInclude,
+  });
+
+  return { task: result, dropped };
+}
@@ -0,0 +1,101 @@
+import { format } from "date-fns";
+import type { TimeEntry, Timesheet, TimesheetTaskTotal, TimesheetUserTotal } from "@/types";
+
+// Manual entries are capped at a day; longer stretches should be split up
+export const MAX_ENTRY_MINUTES = 24 * 60;
+
+type TimedEntry = Pick<TimeEntry, "startedAt" | "duration">;
+
+/**
+ * Seconds logged by an entry; running timers count up to now
+ */
+export function getEntrySeconds(entry: TimedEntry, now = new Date()): number {
+  if (entry.duration != null) return entry.duration;
+  return Math.max(0, Math.floor((now.getTime() - new Date(entry.startedAt).getTime()) / 1000));
+}
+
+export function sumEntrySeconds(entries: TimedEntry[], now = new Date()): number {
+  return entries.reduce((sum, e) => sum + getEntrySeconds(e, now), 0);
+}
+
+/**
+ * Compact duration for totals, e.g. "2h 05m" or "12m"
+ */
+export function formatDuration(seconds: number): string {
+  const minutes = Math.floor(seconds / 60);
+  const hours = Math.floor(minutes / 60);
+  if (hours === 0) return `${minutes}m`;
+  return `${hours}h ${String(minutes % 60).padStart(2, "0")}m`;
+}
+
+/**
+ * Ticking clock for a running timer, e.g. "1:05:09"
+ */
+export function formatClock(seconds: number): string {
+  const h = Math.floor(seconds / 3600);
+  const m = Math.floor((seconds % 3600) / 60);
+  const s = seconds % 60;
+  const mmss = `${String(m).padStart(2, "0")}:${String(s).padStart(2, "0")}`;
+  return h > 0 ? `${h}:${mmss}` : mmss;
+}
+
+/**
+ * Group a timesheet's entries by user and by task, largest totals first
+ */
+export function summarizeTimesheet(
+  entries: TimeEntry[],
+  range: { from: string; to: string },
+  now = new Date()
+): Timesheet {
+  const byUser = new Map<string, TimesheetUserTotal>();
+  const byTask = new Map<string, TimesheetTaskTotal>();
+
+  entries.forEach((entry) => {
+    const seconds = getEntrySeconds(entry, now);
+    if (entry.user) {
+      const total = byUser.get(entry.userId) ?? { user: entry.user, seconds: 0 };
+      total.seconds += seconds;
+      byUser.set(entry.userId, total);
+    }
+    if (entry.task) {
+      const total = byTask.get(entry.taskId) ?? { task: entry.task, seconds: 0 };
+      total.seconds += seconds;
+      byTask.set(entry.taskId, total);
+    }
+  });
+
+  return {
+    ...range,
+    totalSeconds: sumEntrySeconds(entries, now),
+    byUser: Array.from(byUser.values()).sort((a, b) => b.seconds - a.seconds),
+    byTask: Array.from(byTask.values()).sort((a, b) => b.seconds - a.seconds),
+    entries,
+  };
+}
+
+function csvCell(value: string): string {
+  return /[",\n\r]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value;
+}
+
+/**
+ * One row per entry; durations in decimal hours so spreadsheets can sum them
+ */
+export function timesheetToCsv(timesheet: Timesheet, now = new Date()): string {
+  const header = ["Date", "User", "Email", "Board", "Task", "Started", "Ended", "Hours", "Estimate (h)", "Note"];
+  const rows = timesheet.entries.map((entry) => {
+    const started = new Date(entry.startedAt);
+    return [
+      format(started, "yyyy-MM-dd"),
+      entry.user?.name ?? "",
+      entry.user?.email ?? "",
+      entry.task?.column.board.name ?? "",
+      entry.task?.title ?? "",
+      format(started, "HH:mm"),
+      entry.endedAt ? format(new Date(entry.endedAt), "HH:mm") : "running",
+      (getEntrySeconds(entry, now) / 3600).toFixed(2),
+      entry.task?.timeEstimate != null ? (entry.task.timeEstimate / 60).toFixed(2) : "",
+      entry.note ?? "",
+    ];
+  });
+  return [header, ...rows].map((row) => row.map(csvCell).join(",")).join("\n") + "\n";
+}
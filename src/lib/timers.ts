@@ -0,0 +1,118 @@
+import { Prisma } from "@prisma/client";
+import { endOfDay, endOfWeek, format, isValid, parseISO, startOfDay, startOfWeek } from "date-fns";
+import { prisma } from "./prisma";
+import { summarizeTimesheet } from "./time-tracking";
+import type { TimeEntry, Timesheet } from "@/types";
+
+export const timeEntryInclude = {
+  user: { select: { id: true, name: true, email: true, image: true } },
+  task: {
+    select: {
+      id: true,
+      title: true,
+      timeEstimate: true,
+      column: { select: { board: { select: { id: true, name: true } } } },
+    },
+  },
+} as const;
+
+function stopFields(startedAt: Date) {
+  const endedAt = new Date();
+  return {
+    endedAt,
+    duration: Math.max(0, Math.floor((endedAt.getTime() - startedAt.getTime()) / 1000)),
+  };
+}
+
+/**
+ * Stop a user's running timer, optionally only if it is on the given task.
+ * Returns the stopped entry, or null when nothing was running.
+ */
+export async function stopRunningTimer(
+  userId: string,
+  options: { taskId?: string; note?: string | null } = {}
+) {
+  const running = await prisma.timeEntry.findFirst({
+    where: { userId, endedAt: null, ...(options.taskId && { taskId: options.taskId }) },
+  });
+  if (!running) return null;
+
+  return prisma.timeEntry.update({
+    where: { id: running.id },
+    data: {
+      ...stopFields(running.startedAt),
+      ...(options.note !== undefined && { note: options.note }),
+    },
+    include: timeEntryInclude,
+  });
+}
+
+/**
+ * Whether creating a time entry failed because the user already has one
+ * running, which the database allows only one of
+ */
+export function isTimerAlreadyRunning(error: unknown): boolean {
+  return error instanceof Prisma.PrismaClientKnownRequestError && error.code === "P2002";
+}
+
+/**
+ * Start a timer on a task. A user only has one timer running,
+ * so whatever was running before is stopped first.
+ */
+export async function startTimer(taskId: string, userId: string) {
+  return prisma.$transaction(async (tx) => {
+    // Starts for the same user (a double click, two tabs) take turns, so the
+    // later one sees and stops the earlier one's timer
+    await tx.$queryRaw`SELECT "id" FROM "User" WHERE "id" = ${userId} FOR UPDATE`;
+
+    const running = await tx.timeEntry.findFirst({ where: { userId, endedAt: null } });
+    const stopped = running
+      ? await tx.timeEntry.update({
+          where: { id: running.id },
+          data: stopFields(running.startedAt),
+          include: timeEntryInclude,
+        })
+      : null;
+    const entry = await tx.timeEntry.create({
+      data: { taskId, userId, startedAt: new Date() },
+      include: timeEntryInclude,
+    });
+    return { entry, stopped };
+  });
+}
+
+/**
+ * Timesheet range from ?from=yyyy-MM-dd&to=yyyy-MM-dd, defaulting to the current week
+ */
+export function parseTimesheetRange(searchParams: URLSearchParams): { from: Date; to: Date } | null {
+  const now = new Date();
+  const fromParam = searchParams.get("from");
+  const toParam = searchParams.get("to");
+  const from = fromParam ? startOfDay(parseISO(fromParam)) : startOfWeek(now, { weekStartsOn: 1 });
+  const to = toParam ? endOfDay(parseISO(toParam)) : endOfWeek(now, { weekStartsOn: 1 });
+  if (!isValid(from) || !isValid(to) || from > to) return null;
+  return { from, to };
+}
+
+/**
+ * Entries started within the range, skipping tasks in the trash
+ */
+export async function getTimesheet(
+  filter: { userId?: string; task?: Prisma.TaskWhereInput },
+  range: { from: Date; to: Date }
+): Promise<Timesheet> {
+  const entries = await prisma.timeEntry.findMany({
+    where: {
+      userId: filter.userId,
+      startedAt: { gte: range.from, lte: range.to },
+      task: { ...filter.task, deletedAt: null },
+    },
+    include: timeEntryInclude,
+    orderBy: { startedAt: "asc" },
+  });
+
+  return summarizeTimesheet(entries as TimeEntry[], {
+    from: format(range.from, "yyyy-MM-dd"),
+    to: format(range.to, "yyyy-MM-dd"),
+  });
+}
@@ -0,0 +1,89 @@
+import { prisma } from "./prisma";
+
+// Deleted boards and tasks stay restorable for this many days before being purged
+export const TRASH_RETENTION_DAYS = parseInt(process.env.TRASH_RETENTION_DAYS || "30", 10);
+
+// How often the scheduler's maintenance job purges expired trash, by default
+export const TRASH_PURGE_INTERVAL_MS = parseInt(process.env.TRASH_PURGE_INTERVAL_MS || "3600000", 10);
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export const trashDeleterSelect = { select: { id: true, name: true, email: true } } as const;
+
+/**
+ * When an item deleted at the given time is permanently removed
+ */
+export function getPurgeDate(deletedAt: Date): Date {
+  return new Date(deletedAt.getTime() + TRASH_RETENTION_DAYS * DAY_MS);
+}
+
+/**
+ * Move a task and its subtasks to the trash.
+ * They share one timestamp so restoring the task brings back exactly those subtasks.
+ */
+export async function trashTask(taskId: string, userId: string): Promise<void> {
+  const deletedAt = new Date();
+  await prisma.task.updateMany({
+    where: { OR: [{ id: taskId }, { parentId: taskId }], deletedAt: null },
+    data: { deletedAt, deletedById: userId },
+  });
+}
+
+/**
+ * Bring a trashed task and the subtasks trashed with it back.
+ * Returns an error message when the task cannot be restored on its own.
+ */
+export async function restoreTask(taskId: string): Promise<{ error: string } | null> {
+  const task = await prisma.task.findFirst({
+    where: { id: taskId, deletedAt: { not: null } },
+    include: {
+      parent: { select: { deletedAt: true } },
+      column: { select: { board: { select: { deletedAt: true } } } },
+    },
+  });
+  if (!task) return { error: "Task not found in trash" };
+  if (task.column.board.deletedAt) return { error: "Restore the board first" };
+  if (task.parent?.deletedAt) return { error: "Restore the parent task first" };
+
+  await prisma.task.updateMany({
+    where: {
+      OR: [{ id: taskId }, { parentId: taskId, deletedAt: task.deletedAt }],
+    },
+    data: { deletedAt: null, deletedById: null },
+  });
+  return null;
+}
+
+/**
+ * Move a board to the trash. Its tasks stay untouched and come back with it.
+ */
+export async function trashBoard(boardId: string, userId: string): Promise<void> {
+  await prisma.board.update({
+    where: { id: boardId },
+    data: { deletedAt: new Date(), deletedById: userId },
+  });
+}
+
+/**
+ * Bring a trashed board back
+ */
+export async function restoreBoard(boardId: string): Promise<void> {
+  await prisma.board.update({
+    where: { id: boardId },
+    data: { deletedAt: null, deletedById: null },
+  });
+}
+
+/**
+ * Hard-delete boards and tasks that have been in the trash longer than the retention period
+ */
+export async function purgeExpiredTrash(): Promise<{ boards: number; tasks: number }> {
+  const cutoff = new Date(Date.now() - TRASH_RETENTION_DAYS * DAY_MS);
+
+  const boards = await prisma.board.deleteMany({ where: { deletedAt: { lt: cutoff } } });
+  // Subtasks cascade with their parent; deleting parents first avoids counting them twice
+  const parents = await prisma.task.deleteMany({ where: { deletedAt: { lt: cutoff }, parentId: null } });
+  const subtasks = await prisma.task.deleteMany({ where: { deletedAt: { lt: cutoff } } });
+
+  return { boards: boards.count, tasks: parents.count + subtasks.count };
+}
@@ -0,0 +1,18 @@
+import { Prisma } from "@prisma/client";
+
+/**
+ * The version an edit was based on, from a request body. Undefined when none
+ * was sent (the edit then applies regardless), null when it isn't valid.
+ */
+export function parseExpectedVersion(value: unknown): number | null | undefined {
+  if (value === undefined) return undefined;
+  return Number.isInteger(value) && (value as number) >= 1 ? (value as number) : null;
+}
+
+/**
+ * Whether a version-guarded update matched no row, i.e. the row changed
+ * (or went away) between reading it and writing
+ */
+export function isStaleWrite(error: unknown): boolean {
+  return error instanceof Prisma.PrismaClientKnownRequestError && error.code === "P2025";
+}
@@ -0,0 +1,125 @@
+import { prisma } from "./prisma";
+import type { ColumnTransaction } from "./task-order";
+import type { ColumnLoad, WipMode } from "@/types";
+
+export const WIP_MODES: WipMode[] = ["warn", "block"];
+
+export interface WipColumn {
+  id: string;
+  name: string;
+  wipLimit: number | null;
+  wipLimitPerAssignee: number | null;
+  wipMode: string;
+}
+
+// A task entering (or being reassigned within) a column.
+// assigneeId is the assignee the task will have after the change.
+export interface WipCandidate {
+  id: string;
+  assigneeId: string | null;
+}
+
+export interface WipCheckResult {
+  exceeded: boolean;
+  blocked: boolean;
+  message: string | null;
+}
+
+// Only top-level, non-archived cards count towards a column's load
+const activeTaskWhere = { parentId: null, archived: false };
+
+/**
+ * Check whether a change would push a column over its WIP limits.
+ *
+ * A limit only counts as exceeded when the change increases the load
+ * beyond it, so reordering or moving cards out of an already-full
+ * column is never rejected. For a check that holds until the change is
+ * written, run both in withColumnLock and pass its `tx`.
+ */
+export async function checkWipLimits(
+  column: WipColumn,
+  candidates: WipCandidate[],
+  tx: ColumnTransaction = prisma
+): Promise<WipCheckResult> {
+  const ok: WipCheckResult = { exceeded: false, blocked: false, message: null };
+  if (candidates.length === 0) return ok;
+  if (column.wipLimit == null && column.wipLimitPerAssignee == null) return ok;
+
+  const current = await tx.task.findMany({
+    where: { columnId: column.id, ...activeTaskWhere },
+    select: { id: true, assigneeId: true },
+  });
+
+  const candidateIds = new Set(candidates.map((c) => c.id));
+  const remaining = current.filter((t) => !candidateIds.has(t.id));
+  const after = [...remaining, ...candidates];
+
+  let message: string | null = null;
+
+  if (column.wipLimit != null && after.length > column.wipLimit && after.length > current.length) {
+    message = `"${column.name}" is limited to ${column.wipLimit} task${column.wipLimit === 1 ? "" : "s"}`;
+  }
+
+  if (!message && column.wipLimitPerAssignee != null) {
+    const assigneeIds = new Set(
+      candidates.map((c) => c.assigneeId).filter((id): id is string => !!id)
+    );
+    for (const assigneeId of Array.from(assigneeIds)) {
+      const before = current.filter((t) => t.assigneeId === assigneeId).length;
+      const afterCount = after.filter((t) => t.assigneeId === assigneeId).length;
+      if (afterCount > column.wipLimitPerAssignee && afterCount > before) {
+        message = `"${column.name}" is limited to ${column.wipLimitPerAssignee} task${column.wipLimitPerAssignee === 1 ? "" : "s"} per assignee`;
+        break;
+      }
+    }
+  }
+
+  if (!message) return ok;
+
+  return {
+    exceeded: true,
+    blocked: column.wipMode === "block",
+    message,
+  };
+}
+
+/**
+ * Get the current load of one or more columns
+ */
+export async function getColumnLoads(columnIds: string[]): Promise<ColumnLoad[]> {
+  const ids = Array.from(new Set(columnIds));
+  if (ids.length === 0) return [];
+
+  const [columns, counts] = await Promise.all([
+    prisma.column.findMany({
+      where: { id: { in: ids } },
+      select: { id: true, wipLimit: true },
+    }),
+    prisma.task.groupBy({
+      by: ["columnId"],
+      where: { columnId: { in: ids }, ...activeTaskWhere },
+      _count: { _all: true },
+    }),
+  ]);
+
+  return columns.map((col) => {
+    const taskCount = counts.find((c) => c.columnId === col.id)?._count._all ?? 0;
+    return {
+      columnId: col.id,
+      taskCount,
+      wipLimit: col.wipLimit,
+      overLimit: col.wipLimit != null && taskCount > col.wipLimit,
+    };
+  });
+}
+
+/**
+ * Parse a WIP limit from a request body: positive integer or null to clear
+ */
+export function parseWipLimit(value: unknown): number | null | undefined {
+  if (value === undefined) return undefined;
+  if (value === null || value === "") return null;
+  const n = Number(value);
+  if (!Number.isInteger(n) || n < 1) return undefined;
+  return n;
+}
@@ -17,49 +17,87 @@ export interface Label {
 
 export type BoardVisibility = "private" | "team" | "public";
 
+export type PointScale = "fibonacci" | "tshirt" | "linear";
+
 export interface Board {
   id: string;
   name: string;
   description: string | null;
   visibility: BoardVisibility;
+  pointScale?: PointScale;
+  enforceDependencies?: boolean;
+  autoSchedule?: boolean;
   ownerId: string | null;
   createdAt: Date;
   updatedAt: Date;
+  // Archived boards are read-only and hidden from the boards list
+  archivedAt?: Date | null;
   owner?: User | null;
   columns?: Column[];
   members?: BoardMember[];
   labels?: Label[];
   customFields?: CustomField[];
+  sprints?: Sprint[];
 }
 
+// Attribute the board view groups swimlanes by; "field:<id>" for select custom fields
+export type SwimlaneGroupBy = "none" | "assignee" | "priority" | "label" | "northStar" | `field:${string}`;
+
 export interface BoardMember {
   id: string;
   boardId: string;
   userId: string;
   role: string;
+  swimlaneGroupBy?: SwimlaneGroupBy | null;
+  collapsedSwimlanes?: string[];
   user?: User;
 }
 
+export type WipMode = "warn" | "block";
+
+// Workflow stage of a column; done/cancelled columns close the tasks moved into them
+export type ColumnCategory = "backlog" | "unstarted" | "started" | "done" | "cancelled";
+
 export interface Column {
   id: string;
   boardId: string;
   name: string;
   position: number;
   color: string;
+  wipLimit?: number | null;
+  wipLimitPerAssignee?: number | null;
+  wipMode?: WipMode;
+  category?: ColumnCategory;
+  version?: number; // sent back with edits so stale ones are refused
   tasks?: Task[];
 }
 
+// Active (top-level, non-archived) task count of a column against its WIP limit
+export interface ColumnLoad {
+  columnId: string;
+  taskCount: number;
+  wipLimit: number | null;
+  overLimit: boolean;
+}
+
 export type RecurrenceFrequency = "daily" | "weekly" | "monthly" | "yearly";
 
+// Mirrors the parts of an RFC 5545 RRULE the recurrence engine evaluates
 export interface RecurrenceRule {
   frequency: RecurrenceFrequency;
   interval: number;           // Every N days/weeks/months/years
-  daysOfWeek?: number[];      // 0-6 (Sun-Sat) for weekly
-  dayOfMonth?: number;        // 1-31 for monthly by date
-  weekOfMonth?: number;       // 1-5 for monthly by week (e.g., "2nd Tuesday")
+  daysOfWeek?: number[];      // 0-6 (Sun-Sat): weekly days, or the candidate days in a month (BYDAY)
+  dayOfMonth?: number;        // 1-31 for monthly by date, negative counts from the month's end (BYMONTHDAY)
+  weekOfMonth?: number;       // 1-5 for monthly by week (e.g., "2nd Tuesday"), 5 is the last
+  setPositions?: number[];    // Pick from each period's matches, -1 is the last (BYSETPOS)
+  months?: number[];          // 1-12 (BYMONTH)
+  weekStart?: number;         // 0-6, defaults to Monday (WKST)
   endType: "never" | "date" | "count";
-  endDate?: string;           // ISO date string
-  endCount?: number;          // Number of occurrences
+  endDate?: string;           // yyyy-MM-dd, inclusive (UNTIL)
+  endCount?: number;          // Number of occurrences, counting the first (COUNT)
+  start?: string;             // ISO instant the series is anchored to (DTSTART)
+  timezone?: string;          // IANA zone the rule is evaluated in (TZID)
+  exceptions?: string[];      // yyyy-MM-dd dates skipped (EXDATE)
 }
 
 export interface Task {
@@ -78,18 +116,23 @@ export interface Task {
   parentId: string | null;
   createdAt: Date;
   updatedAt: Date;
+  version?: number; // sent back with edits so stale ones are refused
   // Recurring task fields
   isRecurring: boolean;
-  recurrenceRule: string | null;  // JSON string of RecurrenceRule
+  recurrenceRule: string | null;  // iCalendar RRULE text (older rules are JSON)
   recurrenceEnd: Date | null;
   lastRecurrence: Date | null;
   parentRecurringId: string | null;
+  recurrenceDate?: Date | null; // the occurrence an instance stands for, even after it's moved
   // Life System fields
   northStarId?: string | null;
   energyLevel?: string | null;
   timeEstimate?: number | null;
   archived?: boolean;
   archivedAt?: Date | null;
+  sprintId?: string | null;
+  epicId?: string | null;
+  storyPoints?: number | null;
   // Relations
   assignee?: User | null;
   createdBy?: User;
@@ -104,9 +147,35 @@ export interface Task {
   blocking?: TaskDependency[];
   customFieldValues?: CustomFieldValue[];
   northStar?: NorthStar | null;
+  epic?: Pick<Epic, "id" | "title" | "color"> | null;
   _count?: { attachments?: number; recurringInstances?: number; blockedBy?: number };
 }
 
+// A 409 from a versioned edit: the row as it is now on the server
+export interface VersionConflict<T> {
+  error: string;
+  code: "VERSION_CONFLICT";
+  current: T;
+}
+
+// A field both sides of a conflicting edit changed differently
+export interface FieldConflict {
+  field: string;
+  base: unknown;
+  mine: unknown;
+  theirs: unknown;
+}
+
+// What someone with a task open is doing in it
+export type TaskPresenceActivity = "viewing" | "commenting" | "editing";
+
+// Someone else with a task open
+export interface TaskViewer {
+  userId: string;
+  userName: string;
+  activity: TaskPresenceActivity;
+}
+
 export interface Comment {
   id: string;
   taskId: string;
@@ -157,6 +226,7 @@ export interface TaskDependency {
   id: string;
   taskId: string;
   blockedById: string;
+  lagDays: number; // working days; negative is a lead
   createdAt: Date;
   createdById: string;
   task?: Task;
@@ -164,6 +234,99 @@ export interface TaskDependency {
   createdBy?: User;
 }
 
+// Dependency links and the critical path the Timeline draws over its bars
+export interface BoardSchedule {
+  autoSchedule: boolean;
+  dependencies: Pick<TaskDependency, "id" | "taskId" | "blockedById" | "lagDays">[];
+  criticalPath: { taskIds: string[]; dependencyIds: string[] };
+}
+
+export type TaskRelationType = "relates_to" | "duplicates" | "clones" | "follows_up";
+
+// The other end of a relation, which may sit on another board
+export interface RelatedTask {
+  id: string;
+  title: string;
+  completed: boolean;
+  columnId: string;
+  column: { name: string; category: ColumnCategory; board: { id: string; name: string } };
+}
+
+// Reads as "source <type> target", e.g. source duplicates target
+export interface TaskRelation {
+  id: string;
+  type: TaskRelationType;
+  sourceId: string;
+  targetId: string;
+  createdAt: Date;
+  createdById: string;
+  source?: RelatedTask;
+  target?: RelatedTask;
+  createdBy?: User;
+}
+
+// A named snapshot of the board's planned dates
+export interface Baseline {
+  id: string;
+  boardId: string;
+  name: string;
+  createdById: string;
+  createdAt: Date;
+  createdBy?: Pick<User, "id" | "name" | "image">;
+  tasks?: BaselineTask[];
+  _count?: { tasks: number };
+}
+
+export interface BaselineTask {
+  taskId: string;
+  startDate: Date | null;
+  dueDate: Date | null;
+}
+
+// A task that ends later than its baseline, and who moved its dates since
+export interface TaskVariance {
+  taskId: string;
+  title: string;
+  column: { name: string; category: ColumnCategory };
+  planned: { startDate: Date | null; dueDate: Date | null };
+  current: { startDate: Date | null; dueDate: Date | null };
+  slipDays: number;
+  changes: { action: string; createdAt: Date; user: Pick<User, "id" | "name" | "image"> }[];
+}
+
+export interface BaselineVariance {
+  baseline: Baseline;
+  tracked: number; // baseline tasks still on the board with dates
+  slipped: TaskVariance[];
+}
+
+// A background job run by the server's scheduler
+export interface ScheduledJob {
+  name: string;
+  description: string;
+  enabled: boolean;
+  intervalSeconds: number;
+  config: Record<string, unknown> | null;
+  nextRunAt: Date;
+  lockedBy: string | null; // instance running it right now
+  lockedUntil: Date | null;
+  lastRun: JobRun | null;
+}
+
+export type JobRunStatus = "running" | "succeeded" | "failed";
+
+export interface JobRun {
+  id: string;
+  jobName: string;
+  instanceId: string;
+  trigger: "schedule" | "manual";
+  status: JobRunStatus;
+  result: Record<string, unknown> | null;
+  error: string | null;
+  startedAt: Date;
+  finishedAt: Date | null;
+}
+
 export interface TaskTemplate {
   id: string;
   boardId: string;
@@ -202,6 +365,199 @@ export interface CustomFieldValue {
   customField?: CustomField;
 }
 
+export type AutomationTriggerType =
+  | "task.created"
+  | "task.moved"
+  | "label.added"
+  | "assignee.changed"
+  | "due.passed";
+
+// Narrows a trigger, e.g. only moves into a given column
+export interface AutomationTriggerConfig {
+  columnId?: string;
+  labelId?: string;
+  assigneeId?: string;
+}
+
+export type AutomationCondition =
+  | { type: "priority"; operator: "is" | "is_not"; value: Priority }
+  | { type: "label"; operator: "has" | "not_has"; labelId: string }
+  | { type: "assignee"; operator: "is" | "is_not"; userId: string | null }  // null = unassigned
+  | { type: "customField"; operator: "is" | "is_not"; fieldId: string; value: string | null };
+
+export type AutomationAction =
+  | { type: "assign"; userId: string | null }
+  | { type: "add_label"; labelId: string }
+  | { type: "remove_label"; labelId: string }
+  | { type: "set_priority"; priority: Priority }
+  | { type: "move_to_column"; columnId: string }
+  | { type: "post_comment"; content: string }
+  | { type: "create_subtask"; title: string }
+  | { type: "notify"; target: "assignee" | "creator" | "user"; userId?: string; message: string };
+
+export interface BoardAutomation {
+  id: string;
+  boardId: string;
+  name: string;
+  enabled: boolean;
+  trigger: AutomationTriggerType;
+  triggerConfig: AutomationTriggerConfig | null;
+  conditions: AutomationCondition[];
+  actions: AutomationAction[];
+  createdById: string;
+  createdAt: Date;
+  updatedAt: Date;
+  createdBy?: User;
+}
+
+export type AutomationRunStatus = "success" | "failed" | "skipped";
+
+export interface AutomationRun {
+  id: string;
+  automationId: string;
+  taskId: string | null;
+  trigger: AutomationTriggerType;
+  status: AutomationRunStatus;
+  message: string | null;
+  depth: number;
+  createdAt: Date;
+  automation?: Pick<BoardAutomation, "id" | "name">;
+}
+
+export type SprintState = "planned" | "active" | "closed";
+
+// Snapshot of a sprint's scope, written when the sprint is completed
+export interface SprintReport {
+  committed: number;          // tasks in the sprint when it started
+  completed: number;          // tasks finished by the end, committed or added
+  completedCommitted: number; // committed tasks that were finished
+  added: number;              // tasks pulled in after the start
+  removed: number;            // committed tasks taken out before the end
+  carriedOver: number;
+  carriedOverTo: { id: string; name: string } | null; // null = backlog
+  // Story points, rolled up from subtasks
+  committedPoints: number;
+  completedPoints: number;
+  carriedOverPoints: number;
+  tasks: {
+    id: string;
+    title: string;
+    committed: boolean;
+    completed: boolean;
+    points: number | null;
+  }[];
+}
+
+export interface Sprint {
+  id: string;
+  boardId: string;
+  name: string;
+  goal: string | null;
+  startDate: Date | null;
+  endDate: Date | null;
+  state: SprintState;
+  committedTaskIds: string[];
+  committedPoints: number;
+  report: SprintReport | null;
+  startedAt: Date | null;
+  completedAt: Date | null;
+  createdAt: Date;
+  updatedAt: Date;
+  _count?: { tasks: number };
+}
+
+export type EpicStatus = "open" | "closed";
+
+// Rolled up from the epic's child tasks the viewer can see
+export interface EpicProgress {
+  total: number;
+  completed: number;
+  percent: number;
+  overdue: number;
+  startDate: string | null; // earliest child start date
+  dueDate: string | null;   // latest child due date
+  lateTasks: number;        // children due after the epic's own due date
+  totalPoints: number;
+  completedPoints: number;
+}
+
+export interface Epic {
+  id: string;
+  title: string;
+  description: string | null;
+  color: string;
+  status: EpicStatus;
+  startDate: Date | null;
+  dueDate: Date | null;
+  createdById: string;
+  createdAt: Date;
+  updatedAt: Date;
+  createdBy?: Pick<User, "id" | "name" | "email">;
+  progress?: EpicProgress;
+}
+
+// A timer is running while endedAt is null; duration is in seconds
+export interface TimeEntry {
+  id: string;
+  taskId: string;
+  userId: string;
+  startedAt: Date;
+  endedAt: Date | null;
+  duration: number | null;
+  note: string | null;
+  createdAt: Date;
+  updatedAt: Date;
+  user?: Pick<User, "id" | "name" | "email" | "image">;
+  task?: {
+    id: string;
+    title: string;
+    timeEstimate: number | null;
+    column: { board: { id: string; name: string } };
+  };
+}
+
+export interface TimesheetTaskTotal {
+  task: NonNullable<TimeEntry["task"]>;
+  seconds: number;
+}
+
+export interface TimesheetUserTotal {
+  user: NonNullable<TimeEntry["user"]>;
+  seconds: number;
+}
+
+export interface Timesheet {
+  from: string;
+  to: string;
+  totalSeconds: number;
+  byUser: TimesheetUserTotal[];
+  byTask: TimesheetTaskTotal[];
+  entries: TimeEntry[];
+}
+
+// Deleted boards and tasks stay in the trash until purgeAt
+export interface TrashedTask {
+  id: string;
+  title: string;
+  column: { id: string; name: string };
+  board?: { id: string; name: string };
+  parent: { id: string; title: string } | null;
+  subtaskCount?: number;
+  deletedAt: string;
+  deletedBy?: Pick<User, "id" | "name" | "email"> | null;
+  purgeAt: string;
+}
+
+export interface TrashedBoard {
+  id: string;
+  name: string;
+  description: string | null;
+  _count: { columns: number; members: number };
+  deletedAt: string;
+  deletedBy: Pick<User, "id" | "name" | "email"> | null;
+  purgeAt: string;
+}
+
 // ============================================
 // LIFE SYSTEM TYPES
 // ============================================